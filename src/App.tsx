@@ -1,13 +1,22 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { 
   Upload, Activity, Brain, Dna, Heart, Pill, Users, 
   AlertTriangle, CheckCircle, Info,
-  Sun, Moon, Download, X
+  Sun, Moon, Download, X, Stethoscope
 } from 'lucide-react';
 import {
   RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar,
   PieChart, Pie, Cell, ResponsiveContainer
 } from 'recharts';
+import { analyzeCompleteDNA, type IntegratedDNAAnalysis } from './analysis/core/integrated-dna-analysis';
+import { estimateAncestry, getAncestryProportions, type AncestryEstimate } from './analysis/core/ancestry-analysis';
+import { callHaplogroups, type HaplogroupCall, type HaplogroupResult } from './analysis/core/haplogroup-analysis';
+import { detectProvider, parseRawData, PROVIDER_PROFILES, type GeneticProvider } from './analysis/utils/genotype-utils';
+import { importVCF } from './analysis/core/vcf-import';
+import type { PGxAnalysisOptions } from './analysis/core/comprehensive-pgx-analysis';
+import { getCYP2D6StructuralFromVCF } from './analysis/analyzers/cyp2d6-analyzer';
+import { PGxPanel } from './components/PGxPanel';
+import { DNAAnalysisPanel, dnaAnalysisStyles } from './components/DNAAnalysisPanel';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -68,9 +77,10 @@ interface AnalysisResults {
   traits: Trait[];
   pharmacogenomics: PharmacogenomicResult[];
   ancestry: AncestryResult[];
-  maternalHaplogroup: string;
-  paternalHaplogroup: string;
-  neanderthalPercentage: number;
+  ancestryEstimate: AncestryEstimate;
+  haplogroups: HaplogroupResult;
+  genotypes: Record<string, string>;
+  integrated: IntegratedDNAAnalysis;
 }
 
 // ============================================================================
@@ -912,6 +922,13 @@ const SNP_DATABASE = {
     affectedDrugs: ['Warfarin', 'Acenocoumarol', 'Phenprocoumon'],
     fdaLabel: true
   },
+  'rs2108622': {
+    category: 'pharmacogenomics',
+    gene: 'CYP4F2*3',
+    metabolizerStatus: { 'TT': 'Higher dose (+10%)', 'CT': 'Higher dose (+5%)', 'CC': 'Normal' },
+    affectedDrugs: ['Warfarin'],
+    fdaLabel: false
+  },
   'rs4149056': {
     category: 'pharmacogenomics',
     gene: 'SLCO1B1',
@@ -919,6 +936,13 @@ const SNP_DATABASE = {
     affectedDrugs: ['Simvastatin', 'Atorvastatin', 'Pravastatin', 'Rosuvastatin', 'Methotrexate'],
     fdaLabel: true
   },
+  'rs2306283': {
+    category: 'pharmacogenomics',
+    gene: 'SLCO1B1 (c.388A>G)',
+    metabolizerStatus: { 'GG': 'Normal (*37; *15 with rs4149056 C)', 'AG': 'Normal (*37 carrier)', 'AA': 'Normal' },
+    affectedDrugs: ['Statins (defines *15 with rs4149056)'],
+    fdaLabel: false
+  },
   'rs1045642': {
     category: 'pharmacogenomics',
     gene: 'ABCB1 (P-glycoprotein)',
@@ -949,7 +973,7 @@ const SNP_DATABASE = {
   },
   'rs1799931': {
     category: 'pharmacogenomics',
-    gene: 'NAT2 (G590A)',
+    gene: 'NAT2 (G857A)',
     metabolizerStatus: { 'AA': 'Slow acetylator', 'GA': 'Intermediate', 'GG': 'Rapid acetylator' },
     affectedDrugs: ['Isoniazid', 'Sulfasalazine', 'Hydralazine', 'Procainamide', 'Dapsone'],
     fdaLabel: true
@@ -1454,108 +1478,23 @@ const SNP_DATABASE = {
 };
 
 // ============================================================================
-// FILE PARSING UTILITIES
+// ANALYSIS ENGINE
 // ============================================================================
 
-function parse23andMeFile(content: string): SNPData[] {
-  const lines = content.split('\n');
-  const snps: SNPData[] = [];
-  
-  for (const line of lines) {
-    if (line.startsWith('#') || line.trim() === '') continue;
-    
-    const parts = line.split('\t');
-    if (parts.length >= 4) {
-      snps.push({
-        rsid: parts[0].trim(),
-        chromosome: parts[1].trim(),
-        position: parseInt(parts[2].trim(), 10),
-        genotype: parts[3].trim()
-      });
-    }
-  }
-  
-  return snps;
-}
-
-function parseAncestryDNAFile(content: string): SNPData[] {
-  const lines = content.split('\n');
-  const snps: SNPData[] = [];
-  
-  for (const line of lines) {
-    if (line.startsWith('#') || line.trim() === '') continue;
-    
-    const parts = line.split('\t');
-    if (parts.length >= 5) {
-      snps.push({
-        rsid: parts[0].trim(),
-        chromosome: parts[1].trim(),
-        position: parseInt(parts[2].trim(), 10),
-        genotype: parts[3].trim() + parts[4].trim()
-      });
-    }
-  }
-  
-  return snps;
-}
-
-function parseVCFFile(content: string): SNPData[] {
-  const lines = content.split('\n');
-  const snps: SNPData[] = [];
-  
-  for (const line of lines) {
-    if (line.startsWith('#') || line.trim() === '') continue;
-    
-    const parts = line.split('\t');
-    if (parts.length >= 10) {
-      const rsid = parts[2];
-      const ref = parts[3];
-      const alt = parts[4];
-      const genotype = parts[9].split(':')[0];
-      
-      let alleles = '';
-      if (genotype === '0/0' || genotype === '0|0') alleles = ref + ref;
-      else if (genotype === '0/1' || genotype === '0|1' || genotype === '1/0' || genotype === '1|0') alleles = ref + alt;
-      else if (genotype === '1/1' || genotype === '1|1') alleles = alt + alt;
-      
-      if (rsid.startsWith('rs')) {
-        snps.push({
-          rsid,
-          chromosome: parts[0].replace('chr', ''),
-          position: parseInt(parts[1], 10),
-          genotype: alleles
-        });
-      }
-    }
-  }
-  
-  return snps;
-}
-
-function detectFileFormat(content: string): '23andme' | 'ancestry' | 'vcf' | 'unknown' {
-  const firstLines = content.split('\n').slice(0, 20).join('\n');
-  
-  if (firstLines.includes('##fileformat=VCF')) return 'vcf';
-  if (firstLines.includes('AncestryDNA')) return 'ancestry';
-  if (firstLines.includes('23andMe')) return '23andme';
-  
-  // Try to detect by structure
-  const dataLine = content.split('\n').find(l => !l.startsWith('#') && l.trim());
-  if (dataLine) {
-    const parts = dataLine.split('\t');
-    if (parts.length === 4 && parts[0].startsWith('rs')) return '23andme';
-    if (parts.length >= 5 && parts[0].startsWith('rs')) return 'ancestry';
-    if (parts.length >= 8) return 'vcf';
+/**
+ * Convert parsed SNPs into the rsid -> genotype record used by analyzeCompleteDNA.
+ * No-calls and non-rsID probes (i-prefixed, VCF records without an ID) are skipped.
+ */
+function snpsToGenotypeRecord(snps: SNPData[]): Record<string, string> {
+  const genotypes: Record<string, string> = {};
+  for (const snp of snps) {
+    if (!snp.rsid.startsWith('rs') || !snp.genotype || snp.genotype === '--') continue;
+    genotypes[snp.rsid] = snp.genotype;
   }
-  
-  return 'unknown';
+  return genotypes;
 }
 
-// ============================================================================
-// ANALYSIS ENGINE
-// ============================================================================
-
-function analyzeDNA(snps: SNPData[]): AnalysisResults {
+function analyzeDNA(snps: SNPData[], provider: GeneticProvider, pgxOptions: PGxAnalysisOptions = {}): AnalysisResults {
   const snpMap = new Map(snps.map(s => [s.rsid, s]));
   
   const healthRisks: HealthRisk[] = [];
@@ -1655,14 +1594,21 @@ function analyzeDNA(snps: SNPData[]): AnalysisResults {
     }
   }
   
-  // Simulated ancestry (would require actual reference population comparison)
-  const ancestry: AncestryResult[] = [
-    { population: 'European', percentage: 45.2, confidence: [42.1, 48.3] },
-    { population: 'Indigenous Americas', percentage: 28.7, confidence: [25.4, 32.0] },
-    { population: 'Sub-Saharan African', percentage: 15.3, confidence: [12.8, 17.8] },
-    { population: 'East Asian', percentage: 6.4, confidence: [4.2, 8.6] },
-    { population: 'Middle Eastern', percentage: 4.4, confidence: [2.1, 6.7] }
-  ];
+  const genotypes = snpsToGenotypeRecord(snps);
+
+  // Admixture estimate from the bundled ancestry-informative marker panel
+  const ancestryEstimate = estimateAncestry(genotypes);
+  const ancestry: AncestryResult[] = ancestryEstimate.components;
+
+  // Maternal / paternal lineages from the MT and Y rows
+  const haplogroups = callHaplogroups(snps);
+  
+  // Medical-grade v2 analyzers (PGx + nutrigenomics); the admixture estimate weights CYP2D6
+  // haplotype frequencies
+  const integrated = analyzeCompleteDNA(genotypes, provider, {
+    ...pgxOptions,
+    ancestry: pgxOptions.ancestry ?? getAncestryProportions(ancestryEstimate) ?? undefined
+  });
   
   return {
     totalVariants: snps.length,
@@ -1670,9 +1616,10 @@ function analyzeDNA(snps: SNPData[]): AnalysisResults {
     traits,
     pharmacogenomics,
     ancestry,
-    maternalHaplogroup: 'H1a1',
-    paternalHaplogroup: 'R-M269',
-    neanderthalPercentage: 2.4
+    ancestryEstimate,
+    haplogroups,
+    genotypes,
+    integrated
   };
 }
 
@@ -1881,6 +1828,12 @@ function PharmacogenomicCard({ result }: { result: PharmacogenomicResult }) {
   );
 }
 
+function formatHaplogroup(call: HaplogroupCall): string {
+  if (call.status === 'no_y_data') return 'No Y data';
+  if (call.status === 'no_data' || !call.haplogroup) return 'Undetermined';
+  return call.haplogroup;
+}
+
 function AncestryChart({ data }: { data: AncestryResult[] }) {
   return (
     <div className="flex flex-col lg:flex-row items-center gap-6">
@@ -1927,7 +1880,14 @@ function AncestryChart({ data }: { data: AncestryResult[] }) {
 // MAIN APPLICATION
 // ============================================================================
 
-type TabType = 'overview' | 'health' | 'traits' | 'pharma' | 'ancestry';
+/**
+ * Medication list entries from comma- or line-separated text
+ */
+function splitMedicationList(text: string): string[] {
+  return text.split(/[,\n]/).map(m => m.trim()).filter(m => m.length > 0);
+}
+
+type TabType = 'overview' | 'health' | 'traits' | 'pharma' | 'clinical' | 'ancestry';
 
 export default function DNAInsightsApp() {
   const [darkMode, setDarkMode] = useState(true);
@@ -1936,6 +1896,10 @@ export default function DNAInsightsApp() {
   const [results, setResults] = useState<AnalysisResults | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [currentMedications, setCurrentMedications] = useState('');
+  const [plannedMedications, setPlannedMedications] = useState('');
+  // Parsed upload, kept so a medication review re-runs the analysis without re-reading the file
+  const analysisInput = useRef<{ snps: SNPData[]; provider: GeneticProvider; pgxOptions: PGxAnalysisOptions } | null>(null);
   
   const handleFile = useCallback(async (file: File) => {
     setIsLoading(true);
@@ -1943,25 +1907,23 @@ export default function DNAInsightsApp() {
     
     try {
       const content = await file.text();
-      const format = detectFileFormat(content);
-      
-      if (format === 'unknown') {
-        throw new Error('Unsupported file format. Please upload a 23andMe, AncestryDNA, or VCF file.');
+      const provider = detectProvider(content);
+      const pgxOptions: PGxAnalysisOptions = {};
+      let snps: SNPData[];
+
+      if (provider === 'vcf') {
+        // Lab VCFs: gVCF reference blocks, rsIDs by position, CYP2D6 copy number and phased calls
+        const vcf = importVCF(content);
+        snps = vcf.genotypes;
+        pgxOptions.cyp2d6Structural = getCYP2D6StructuralFromVCF(vcf.copyNumberRecords, vcf.referenceBuild) ?? undefined;
+        pgxOptions.phasedGenotypes = vcf.genotypes.filter(g => g.phased);
+        pgxOptions.dataLimitations = vcf.limitations;
+      } else {
+        snps = parseRawData(content, provider).genotypes;
       }
       
-      let snps: SNPData[];
-      switch (format) {
-        case '23andme':
-          snps = parse23andMeFile(content);
-          break;
-        case 'ancestry':
-          snps = parseAncestryDNAFile(content);
-          break;
-        case 'vcf':
-          snps = parseVCFFile(content);
-          break;
-        default:
-          throw new Error('Unable to parse file');
+      if (provider === 'unknown') {
+        throw new Error('Unsupported file format. Please upload a 23andMe, AncestryDNA, MyHeritage, FamilyTreeDNA, Living DNA, or VCF file.');
       }
       
       if (snps.length === 0) {
@@ -1971,7 +1933,12 @@ export default function DNAInsightsApp() {
       // Simulate processing time for UX
       await new Promise(resolve => setTimeout(resolve, 1500));
       
-      const analysisResults = analyzeDNA(snps);
+      analysisInput.current = { snps, provider, pgxOptions };
+      const analysisResults = analyzeDNA(snps, provider, {
+        ...pgxOptions,
+        medications: splitMedicationList(currentMedications),
+        plannedMedications: splitMedicationList(plannedMedications)
+      });
       setResults(analysisResults);
       setActiveTab('overview');
     } catch (err) {
@@ -1979,7 +1946,17 @@ export default function DNAInsightsApp() {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [currentMedications, plannedMedications]);
+  
+  const handleMedicationReview = useCallback(() => {
+    if (!analysisInput.current) return;
+    const { snps, provider, pgxOptions } = analysisInput.current;
+    setResults(analyzeDNA(snps, provider, {
+      ...pgxOptions,
+      medications: splitMedicationList(currentMedications),
+      plannedMedications: splitMedicationList(plannedMedications)
+    }));
+  }, [currentMedications, plannedMedications]);
   
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -1999,6 +1976,7 @@ export default function DNAInsightsApp() {
     { id: 'health' as const, label: 'Health Risks', icon: Heart },
     { id: 'traits' as const, label: 'Traits', icon: Dna },
     { id: 'pharma' as const, label: 'Pharmacogenomics', icon: Pill },
+    { id: 'clinical' as const, label: 'Clinical Report', icon: Stethoscope },
     { id: 'ancestry' as const, label: 'Ancestry', icon: Users }
   ];
   
@@ -2095,7 +2073,7 @@ export default function DNAInsightsApp() {
             >
               <input
                 type="file"
-                accept=".txt,.vcf"
+                accept=".txt,.csv,.vcf"
                 onChange={handleFileInput}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               />
@@ -2111,7 +2089,7 @@ export default function DNAInsightsApp() {
                 Drag and drop your raw DNA file or click to browse
               </p>
               <div className="flex flex-wrap justify-center gap-2">
-                {['23andMe', 'AncestryDNA', 'VCF'].map(format => (
+                {['23andMe', 'AncestryDNA', 'MyHeritage', 'FamilyTreeDNA', 'Living DNA', 'VCF'].map(format => (
                   <span key={format} className={`px-2 py-1 rounded text-xs ${darkMode ? 'bg-slate-700 text-slate-300' : 'bg-slate-100 text-slate-600'}`}>
                     {format}
                   </span>
@@ -2219,12 +2197,37 @@ export default function DNAInsightsApp() {
             {/* Overview Tab */}
             {activeTab === 'overview' && (
               <div className="space-y-6">
+                {/* Critical Findings (v2 analyzers) */}
+                {results.integrated.criticalFindings.filter(f => f.priority === 'critical').length > 0 && (
+                  <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/30">
+                    <div className="flex items-start gap-3">
+                      <AlertTriangle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+                      <div className="flex-1 space-y-2">
+                        <p className="text-red-400 font-medium">Critical Findings Require Attention</p>
+                        {results.integrated.criticalFindings
+                          .filter(f => f.priority === 'critical')
+                          .map((finding, i) => (
+                            <div key={i}>
+                              <p className={`text-sm font-medium ${darkMode ? 'text-red-200' : 'text-red-700'}`}>{finding.finding}</p>
+                              <p className={`text-sm ${darkMode ? 'text-red-300/80' : 'text-red-600'}`}>{finding.action}</p>
+                            </div>
+                          ))}
+                        <button
+                          onClick={() => setActiveTab('clinical')}
+                          className="text-xs text-red-300 hover:underline"
+                        >
+                          View full clinical report and action plan →
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                )}
+                
                 {/* Stats Grid */}
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                  <StatCard icon={Dna} label="Variants Analyzed" value={results.totalVariants.toLocaleString()} />
+                <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                  <StatCard icon={Dna} label="Variants Analyzed" value={results.totalVariants.toLocaleString()} subtext={PROVIDER_PROFILES[results.integrated.provider].name} />
                   <StatCard icon={Heart} label="Health Markers" value={results.healthRisks.length} subtext="risk factors identified" />
-                  <StatCard icon={Pill} label="Drug Responses" value={results.pharmacogenomics.length} subtext="genes analyzed" />
-                  <StatCard icon={Users} label="Neanderthal DNA" value={`${results.neanderthalPercentage}%`} subtext="variant inheritance" />
+                  <StatCard icon={Pill} label="Drug Responses" value={results.integrated.pgx.summary.genesAnalyzed.length} subtext="genes analyzed" />
                 </div>
                 
                 {/* Risk Overview */}
@@ -2302,7 +2305,13 @@ export default function DNAInsightsApp() {
                   <h3 className={`text-lg font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-900'}`}>
                     Ancestry Composition
                   </h3>
-                  <AncestryChart data={results.ancestry} />
+                  {results.ancestry.length > 0 ? (
+                    <AncestryChart data={results.ancestry} />
+                  ) : (
+                    <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                      Not enough ancestry-informative markers to estimate composition.
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -2375,17 +2384,60 @@ export default function DNAInsightsApp() {
                   </div>
                 </div>
                 
+                <div className={`p-4 rounded-xl ${darkMode ? 'bg-slate-800/50 border border-slate-700/50' : 'bg-white border border-slate-200'}`}>
+                  <h3 className={`font-semibold mb-1 ${darkMode ? 'text-white' : 'text-slate-900'}`}>
+                    Medication Review
+                  </h3>
+                  <p className={`text-sm mb-3 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                    Enter medications by brand or generic name, separated by commas or new lines.
+                  </p>
+                  <div className="grid md:grid-cols-2 gap-3">
+                    <textarea
+                      value={currentMedications}
+                      onChange={(e) => setCurrentMedications(e.target.value)}
+                      placeholder="Current medications (e.g. Prozac 20 mg, Lipitor)"
+                      rows={3}
+                      className={`w-full p-2 rounded-lg text-sm ${darkMode ? 'bg-slate-900 text-slate-200 border border-slate-700' : 'bg-slate-50 text-slate-900 border border-slate-300'}`}
+                    />
+                    <textarea
+                      value={plannedMedications}
+                      onChange={(e) => setPlannedMedications(e.target.value)}
+                      placeholder="Planned medications (e.g. Plavix, codeine)"
+                      rows={3}
+                      className={`w-full p-2 rounded-lg text-sm ${darkMode ? 'bg-slate-900 text-slate-200 border border-slate-700' : 'bg-slate-50 text-slate-900 border border-slate-300'}`}
+                    />
+                  </div>
+                  <button
+                    onClick={handleMedicationReview}
+                    className="mt-3 flex items-center gap-2 px-4 py-2 rounded-lg bg-sky-500/10 text-sky-400 text-sm hover:bg-sky-500/20 transition-colors"
+                  >
+                    <Pill className="w-4 h-4" />
+                    Review Medications
+                  </button>
+                </div>
+                
+                <div className="rounded-xl bg-white text-slate-900 overflow-hidden">
+                  <PGxPanel result={results.integrated.pgx} />
+                </div>
+                
+                {results.pharmacogenomics.length > 0 && (
+                  <h3 className={`text-lg font-semibold ${darkMode ? 'text-white' : 'text-slate-900'}`}>
+                    Single-Variant Drug Response Markers
+                  </h3>
+                )}
                 <div className="grid md:grid-cols-2 gap-4">
                   {results.pharmacogenomics.map((result, i) => (
                     <PharmacogenomicCard key={i} result={result} />
                   ))}
                 </div>
-                
-                {results.pharmacogenomics.length === 0 && (
-                  <div className={`text-center py-12 ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
-                    No pharmacogenomic variants found in your data
-                  </div>
-                )}
+              </div>
+            )}
+            
+            {/* Clinical Report Tab - integrated PGx + nutrigenomics, critical findings, action plan */}
+            {activeTab === 'clinical' && (
+              <div className="rounded-xl bg-white text-slate-900 overflow-hidden">
+                <style>{dnaAnalysisStyles}</style>
+                <DNAAnalysisPanel genotypes={results.genotypes} analysis={results.integrated} />
               </div>
             )}
             
@@ -2396,10 +2448,22 @@ export default function DNAInsightsApp() {
                   <h3 className={`text-lg font-semibold mb-6 ${darkMode ? 'text-white' : 'text-slate-900'}`}>
                     Population Composition
                   </h3>
-                  <AncestryChart data={results.ancestry} />
+                  {results.ancestryEstimate.status === 'estimated' ? (
+                    <>
+                      <AncestryChart data={results.ancestry} />
+                      <p className={`text-xs mt-4 ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                        Maximum-likelihood estimate from {results.ancestryEstimate.markersUsed} of {results.ancestryEstimate.markersInPanel} ancestry-informative
+                        markers; ranges are 95% bootstrap intervals ({results.ancestryEstimate.bootstrapReplicates} replicates).
+                      </p>
+                    </>
+                  ) : (
+                    <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
+                      Not enough ancestry-informative markers in this file ({results.ancestryEstimate.markersUsed} of {results.ancestryEstimate.markersInPanel} genotyped) to estimate population composition.
+                    </p>
+                  )}
                 </div>
                 
-                <div className="grid md:grid-cols-2 gap-6">
+                <div className="grid gap-6">
                   <div className={`rounded-xl p-6 ${darkMode ? 'bg-slate-800/50 border border-slate-700/50' : 'bg-white border border-slate-200'}`}>
                     <h3 className={`text-lg font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-900'}`}>
                       Haplogroups
@@ -2408,57 +2472,28 @@ export default function DNAInsightsApp() {
                       <div>
                         <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Maternal (mtDNA)</p>
                         <p className={`text-xl font-mono font-bold ${darkMode ? 'text-white' : 'text-slate-900'}`}>
-                          {results.maternalHaplogroup}
+                          {formatHaplogroup(results.haplogroups.maternal)}
                         </p>
+                        {results.haplogroups.maternal.status === 'called' && (
+                          <p className={`text-xs mt-1 ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                            {results.haplogroups.maternal.path.join(' → ')} • {results.haplogroups.maternal.supportingMarkers.length} supporting
+                            {results.haplogroups.maternal.contradictingMarkers.length > 0 &&
+                              `, ${results.haplogroups.maternal.contradictingMarkers.length} contradicting (${results.haplogroups.maternal.contradictingMarkers.join(', ')})`}
+                          </p>
+                        )}
                       </div>
                       <div>
                         <p className={`text-xs ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>Paternal (Y-DNA)</p>
                         <p className={`text-xl font-mono font-bold ${darkMode ? 'text-white' : 'text-slate-900'}`}>
-                          {results.paternalHaplogroup}
-                        </p>
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <div className={`rounded-xl p-6 ${darkMode ? 'bg-slate-800/50 border border-slate-700/50' : 'bg-white border border-slate-200'}`}>
-                    <h3 className={`text-lg font-semibold mb-4 ${darkMode ? 'text-white' : 'text-slate-900'}`}>
-                      Ancient Ancestry
-                    </h3>
-                    <div className="flex items-center gap-4">
-                      <div className="relative w-24 h-24">
-                        <svg className="w-24 h-24 -rotate-90">
-                          <circle
-                            cx="48"
-                            cy="48"
-                            r="40"
-                            fill="none"
-                            stroke={darkMode ? '#334155' : '#e2e8f0'}
-                            strokeWidth="8"
-                          />
-                          <circle
-                            cx="48"
-                            cy="48"
-                            r="40"
-                            fill="none"
-                            stroke={COLORS.secondary}
-                            strokeWidth="8"
-                            strokeDasharray={`${results.neanderthalPercentage * 2.51} 251`}
-                            strokeLinecap="round"
-                          />
-                        </svg>
-                        <div className="absolute inset-0 flex items-center justify-center">
-                          <span className={`text-lg font-bold ${darkMode ? 'text-white' : 'text-slate-900'}`}>
-                            {results.neanderthalPercentage}%
-                          </span>
-                        </div>
-                      </div>
-                      <div>
-                        <p className={`font-medium ${darkMode ? 'text-white' : 'text-slate-900'}`}>
-                          Neanderthal Variants
-                        </p>
-                        <p className={`text-sm ${darkMode ? 'text-slate-400' : 'text-slate-500'}`}>
-                          Compared to ~2% average for non-African populations
+                          {formatHaplogroup(results.haplogroups.paternal)}
                         </p>
+                        {results.haplogroups.paternal.status === 'called' && (
+                          <p className={`text-xs mt-1 ${darkMode ? 'text-slate-500' : 'text-slate-400'}`}>
+                            {results.haplogroups.paternal.path.join(' → ')} • {results.haplogroups.paternal.supportingMarkers.length} supporting
+                            {results.haplogroups.paternal.contradictingMarkers.length > 0 &&
+                              `, ${results.haplogroups.paternal.contradictingMarkers.length} contradicting (${results.haplogroups.paternal.contradictingMarkers.join(', ')})`}
+                          </p>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,343 @@
+/**
+ * CYP1A2 Pharmacogenomics Analyzer v2
+ *
+ * CYP1A2 encodes cytochrome P450 1A2, the hepatic enzyme that clears caffeine, clozapine,
+ * olanzapine, theophylline and melatonin. Its activity is set far more by induction (tobacco
+ * smoke, charred meat, omeprazole) and inhibition (fluvoxamine, ciprofloxacin) than by
+ * genotype - the common variants change how strongly the enzyme is induced.
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - Smoking induces CYP1A2 1.5-3x through the aryl hydrocarbon receptor (the smoke, not nicotine)
+ * - Stopping smoking - including an admission to a smoke-free ward - lets clozapine levels rise
+ *   50-100% within 1-2 weeks, with seizure and toxicity risk
+ * - The highly inducible *1F genotype shows the largest induction, and so the largest swing
+ *   in drug levels when smoking starts or stops
+ *
+ * KEY SUBSTRATES:
+ * 🔥 CLOZAPINE: Narrow therapeutic index - therapeutic drug monitoring is standard
+ * 🔥 OLANZAPINE: Smokers clear ~40-50% faster
+ * 🔥 CAFFEINE: Shared interpretation with the nutrigenomics caffeine / cardiovascular finding
+ *
+ * CRITICAL VARIANTS (GRCh37 forward strand - CYP1A2 is on the forward strand):
+ * - rs762551 (-163C>A, *1F): A = high inducibility (reference genome carries A)
+ *   • A/A = Highly inducible ("fast" caffeine metabolizer)
+ *   • A/C = Intermediate
+ *   • C/C = Non-inducible ("slow" caffeine metabolizer)
+ * - rs2069514 (-3860G>A, *1C): A = reduced expression; lowers a highly inducible call one step
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ Inducibility is not a metabolizer phenotype: in a non-smoker an A/A and a C/C person can
+ *    have similar CYP1A2 activity; the difference shows under induction
+ * ⚠️ Inhibitors (fluvoxamine, ciprofloxacin, oral contraceptives) outweigh genotype
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - Rare loss-of-function alleles (*7, *11 ...) are not detected
+ * - Smoking status, diet and co-medication are not in the genotype file
+ *
+ * CPIC GUIDELINES:
+ * - NO CPIC or DPWG guideline for CYP1A2 - all guidance is informational
+ * - Clozapine label: dose adjustment when smoking status changes
+ *
+ * REFERENCES:
+ * - Cornelis 2006 (JAMA, caffeine and myocardial infarction): PMID 16522833
+ * - Sachse 1999 (*1F inducibility in smokers): PMID 10233211
+ * - PharmGKB CYP1A2: www.pharmgkb.org/gene/PA27
+ */
+
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { extractStrandNormalized } from '../core/strand-normalization';
+import { auditAlleleDefinitions, getKBReferences } from '../core/pgx-knowledge-base';
+
+export type CYP1A2Inducibility =
+  | 'Highly Inducible'
+  | 'Intermediate Inducibility'
+  | 'Non-Inducible'
+  | 'Unknown';
+
+/**
+ * The one CYP1A2 interpretation shared by the PGx analyzer and the nutrigenomics caffeine section
+ */
+export interface CYP1A2Genotype {
+  rs762551: string;   // Forward strand A>C (-163C>A); 'Unknown' when not genotyped
+  rs2069514: string;  // Forward strand G>A (-3860G>A); 'Unknown' when not genotyped
+  inducibility: CYP1A2Inducibility;
+  caffeineMetabolizer: 'fast' | 'intermediate' | 'slow' | 'unknown';
+  detectedAlleles: string[]; // '*1F' (rs762551 A) and '*1C' (rs2069514 A) when carried
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface CYP1A2DrugRecommendation {
+  drug: string;
+  category: string;
+  recommendation: string;
+  doseAdjustment?: string;
+  riskLevel: 'caution' | 'normal' | 'informational';
+  monitoring?: string;
+}
+
+export interface CYP1A2AnalysisResult {
+  gene: 'CYP1A2';
+  genotype: CYP1A2Genotype;
+  smoker?: boolean;
+  drugs: CYP1A2DrugRecommendation[];
+  clinicalSummary: string;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    notes: string[];
+  };
+  references: string[]; // KB evidence for the detected alleles
+}
+
+auditAlleleDefinitions('CYP1A2', [
+  { rsid: 'rs762551', allele: '*1F' },
+  { rsid: 'rs2069514', allele: '*1C' }
+]);
+
+const CAFFEINE_METABOLIZER: Record<CYP1A2Inducibility, CYP1A2Genotype['caffeineMetabolizer']> = {
+  'Highly Inducible': 'fast',
+  'Intermediate Inducibility': 'intermediate',
+  'Non-Inducible': 'slow',
+  'Unknown': 'unknown'
+};
+
+function countAllele(genotype: string | null, allele: string): number {
+  return genotype ? genotype.split('').filter(a => a === allele).length : 0;
+}
+
+/**
+ * Determine CYP1A2 inducibility from genotypes - v2 API
+ *
+ * rs762551 is required. A *1C (rs2069514 A) carrier who is A/A at rs762551 is reported as
+ * intermediate: *1C lowers expression, and without phase it may sit on a *1F chromosome.
+ */
+export function determineCYP1A2Genotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): CYP1A2Genotype {
+  const rs762551 = extractStrandNormalized(genotypes, 'rs762551');
+  const rs2069514 = extractStrandNormalized(genotypes, 'rs2069514');
+
+  const inducibleCopies = countAllele(rs762551, 'A');
+  if (!rs762551 || inducibleCopies + countAllele(rs762551, 'C') !== 2) {
+    return {
+      rs762551: rs762551 ?? 'Unknown',
+      rs2069514: rs2069514 ?? 'Unknown',
+      inducibility: 'Unknown',
+      caffeineMetabolizer: 'unknown',
+      detectedAlleles: [],
+      confidence: 'low'
+    };
+  }
+
+  const reducedExpression = countAllele(rs2069514, 'A') > 0;
+
+  let inducibility: CYP1A2Inducibility =
+    inducibleCopies === 2 ? 'Highly Inducible'
+      : inducibleCopies === 1 ? 'Intermediate Inducibility'
+        : 'Non-Inducible';
+  if (inducibility === 'Highly Inducible' && reducedExpression) {
+    inducibility = 'Intermediate Inducibility';
+  }
+
+  const detectedAlleles: string[] = [];
+  if (inducibleCopies > 0) detectedAlleles.push('*1F');
+  if (reducedExpression) detectedAlleles.push('*1C');
+
+  return {
+    rs762551,
+    rs2069514: rs2069514 ?? 'Unknown',
+    inducibility,
+    caffeineMetabolizer: CAFFEINE_METABOLIZER[inducibility],
+    detectedAlleles,
+    confidence: rs2069514 ? 'high' : 'medium'
+  };
+}
+
+/**
+ * Clozapine (no guideline - label and TDM practice)
+ */
+function generateClozapineRecommendation(
+  inducibility: CYP1A2Inducibility,
+  smoker?: boolean
+): CYP1A2DrugRecommendation {
+  const base = {
+    drug: 'Clozapine (Clozaril)',
+    category: 'Antipsychotics',
+    monitoring: 'Clozapine plasma levels after any change in smoking status or CYP1A2 inhibitors'
+  };
+
+  if (inducibility === 'Highly Inducible' && smoker) {
+    return {
+      ...base,
+      recommendation: '⚠️ HIGHLY INDUCIBLE + SMOKER: Strong induction - levels may be subtherapeutic at usual doses',
+      doseAdjustment: 'Higher doses are often needed while smoking. If smoking stops, expect levels to rise 50-100% within 1-2 weeks: reduce the dose (~30-50%) and check levels',
+      riskLevel: 'caution'
+    };
+  }
+
+  if (inducibility === 'Non-Inducible') {
+    return {
+      ...base,
+      recommendation: 'NON-INDUCIBLE: Higher clozapine levels for a given dose; smoking lowers levels less than usual',
+      doseAdjustment: 'Titrate slowly and dose by plasma level; smoking-based dose increases may overshoot',
+      riskLevel: 'caution'
+    };
+  }
+
+  if (inducibility === 'Unknown') {
+    return {
+      ...base,
+      recommendation: 'CYP1A2 genotype unknown - smoking status still changes clozapine levels 1.5-3x',
+      doseAdjustment: 'Standard titration with plasma level monitoring',
+      riskLevel: 'informational'
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: smoker === undefined
+      ? `ℹ️ ${inducibility.toUpperCase()}: Smoking induces clozapine clearance - dose changes needed when smoking starts or stops`
+      : smoker
+        ? `ℹ️ ${inducibility.toUpperCase()} + SMOKER: Induced clearance - levels rise if smoking stops`
+        : `ℹ️ ${inducibility.toUpperCase()}: Non-smoker - standard clozapine clearance`,
+    doseAdjustment: 'No genotype-based adjustment. Dose by plasma level.',
+    riskLevel: 'informational'
+  };
+}
+
+/**
+ * Olanzapine (no guideline - smokers clear it faster)
+ */
+function generateOlanzapineRecommendation(
+  inducibility: CYP1A2Inducibility,
+  smoker?: boolean
+): CYP1A2DrugRecommendation {
+  const base = {
+    drug: 'Olanzapine (Zyprexa)',
+    category: 'Antipsychotics'
+  };
+
+  if (inducibility === 'Highly Inducible' && smoker) {
+    return {
+      ...base,
+      recommendation: '⚠️ HIGHLY INDUCIBLE + SMOKER: Olanzapine cleared ~40-50% faster - reduced response possible',
+      doseAdjustment: 'Higher doses may be needed while smoking; reduce the dose if smoking stops',
+      riskLevel: 'caution',
+      monitoring: 'Sedation and extrapyramidal symptoms after stopping smoking'
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: inducibility === 'Non-Inducible'
+      ? 'ℹ️ NON-INDUCIBLE: Smoking has a smaller effect on olanzapine levels'
+      : 'ℹ️ Smoking speeds olanzapine clearance - reassess the dose when smoking status changes',
+    doseAdjustment: 'No genotype-based adjustment. Standard dosing.',
+    riskLevel: 'informational'
+  };
+}
+
+/**
+ * Generate safety alerts
+ */
+function generateSafetyAlerts(genotype: CYP1A2Genotype, smoker?: boolean): string[] {
+  if (genotype.inducibility === 'Highly Inducible' && smoker) {
+    return ['⚠️ CLOZAPINE / OLANZAPINE: Highly inducible CYP1A2 in a smoker - stopping smoking (including a smoke-free hospital stay) can double drug levels; reduce the dose and monitor'];
+  }
+  return [];
+}
+
+/**
+ * Get provider-specific limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  genotype: CYP1A2Genotype,
+  smoker?: boolean
+): string[] {
+  const limitations = [
+    'Only *1F (rs762551) and *1C (rs2069514) are interpreted - rare loss-of-function CYP1A2 alleles are not detected',
+    'CYP1A2 activity depends more on smoking, diet and inhibitors (fluvoxamine, ciprofloxacin) than on genotype',
+    ...getProviderCoverageLimitations(provider, 'CYP1A2', genotypes, ['rs762551', 'rs2069514'])
+  ];
+
+  if (genotype.inducibility !== 'Unknown' && genotype.rs2069514 === 'Unknown') {
+    limitations.push('Not genotyped: CYP1A2 *1C (rs2069514) - a reduced-expression allele may be missed');
+  }
+
+  if (smoker === undefined) {
+    limitations.push('Smoking status not provided - guidance covers both smokers and non-smokers');
+  }
+
+  return limitations;
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(genotype: CYP1A2Genotype, smoker?: boolean): string {
+  const { rs762551, inducibility, caffeineMetabolizer, confidence } = genotype;
+
+  let summary = `CYP1A2 rs762551: ${rs762551}\n`;
+  summary += `Inducibility: ${inducibility}\n`;
+  summary += `Confidence: ${confidence.toUpperCase()}\n\n`;
+
+  if (inducibility === 'Unknown') return summary;
+
+  summary += `Caffeine: ${caffeineMetabolizer} metabolizer.\n`;
+  if (inducibility === 'Highly Inducible') {
+    summary += smoker
+      ? 'Smoking strongly induces CYP1A2: clozapine and olanzapine levels will rise sharply if smoking stops.\n'
+      : 'CYP1A2 is strongly induced by smoking: expect large changes in clozapine and olanzapine levels when smoking status changes.\n';
+  } else if (inducibility === 'Non-Inducible') {
+    summary += 'CYP1A2 is induced less than usual: higher levels of clozapine and caffeine for a given intake.\n';
+  } else {
+    summary += 'Intermediate CYP1A2 inducibility.\n';
+  }
+
+  return summary;
+}
+
+/**
+ * Main CYP1A2 analysis function - v2 API
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @param smoker - Current smoking status, when known
+ * @returns Comprehensive CYP1A2 analysis results
+ */
+export function analyzeCYP1A2(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme',
+  smoker?: boolean
+): CYP1A2AnalysisResult {
+  const genotype = determineCYP1A2Genotype(genotypes);
+
+  return {
+    gene: 'CYP1A2',
+    genotype,
+    smoker,
+    drugs: [
+      generateClozapineRecommendation(genotype.inducibility, smoker),
+      generateOlanzapineRecommendation(genotype.inducibility, smoker)
+    ],
+    clinicalSummary: generateClinicalSummary(genotype, smoker),
+    safetyAlerts: generateSafetyAlerts(genotype, smoker),
+    confidence: genotype.confidence,
+    limitations: getLimitations(provider, genotypes, genotype, smoker),
+    guidelines: {
+      cpic: 'No CPIC guideline for CYP1A2',
+      notes: [
+        'Clozapine label: adjust the dose when smoking starts or stops',
+        'Caffeine interpretation is shared with the nutrigenomics caffeine section'
+      ]
+    },
+    references: getKBReferences('CYP1A2', genotype.detectedAlleles)
+  };
+}
@@ -0,0 +1,379 @@
+/**
+ * CYP2B6 Pharmacogenomics Analyzer v2
+ *
+ * CYP2B6 encodes cytochrome P450 2B6, a highly polymorphic hepatic enzyme that clears
+ * efavirenz, nevirapine, methadone, bupropion, ketamine and cyclophosphamide.
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - CYP2B6*6 is common everywhere: ~15-25% allele frequency in Europeans and East Asians,
+ *   ~35-50% in people of African ancestry
+ * - Poor metabolizers (~5-20% of Africans) reach 2-4x higher efavirenz concentrations, with
+ *   more dizziness, abnormal dreams and neuropsychiatric side effects
+ *
+ * KEY SUBSTRATES:
+ * 🔥 EFAVIRENZ (HIV): CPIC Level A - reduced starting dose for intermediate and poor metabolizers
+ * 🔥 METHADONE: *6 homozygotes have higher (S)-methadone levels (QT prolongation) - no guideline
+ * 🔥 BUPROPION: CYP2B6 forms hydroxybupropion - no guideline
+ *
+ * CRITICAL VARIANTS (GRCh37 forward strand - CYP2B6 is on the forward strand):
+ * - c.516G>T (rs3745274, Q172H) and c.785A>G (rs2279343, K262R)
+ *   • *6 = both on one chromosome: Decreased function
+ *   • *9 = c.516G>T alone: Decreased function
+ *   • *4 = c.785A>G alone: Increased function
+ * - CYP2B6*18 (rs28399499, c.983T>C, I328T): No function (African ancestry, ~4-8%)
+ * - CYP2B6*22 (rs34223104, c.-82T>C): Increased function (promoter)
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ Heterozygous at both c.516 and c.785 is *1/*6 (cis) or *4/*9 (trans); both are
+ *    intermediate metabolizers, so the phenotype does not depend on phase
+ * ⚠️ Phenotypes follow CPIC allele function, not an activity score: any two decreased or
+ *    no-function alleles are poor, one is intermediate, increased alleles only count when no
+ *    decreased allele is present
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - *18 and *22 are often missing from consumer arrays
+ * - Rare alleles (*16, *15, *28 ...) and the CYP2B6/2B7 hybrid (*29) are not detected
+ *
+ * CPIC GUIDELINES:
+ * - Level A: Efavirenz (CPIC 2019)
+ * - NO guidelines for: Methadone, bupropion (informational only)
+ *
+ * REFERENCES:
+ * - CPIC Guideline CYP2B6 and Efavirenz 2019: PMID 31006110
+ * - PharmVar Database: www.pharmvar.org/gene/CYP2B6
+ * - PharmGKB CYP2B6: www.pharmgkb.org/gene/PA123
+ */
+
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { auditAlleleDefinitions, getKBReferences } from '../core/pgx-knowledge-base';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  readHaplotypePhase,
+  type AlleleDefinitionTable,
+  type AlleleFunction
+} from '../core/star-allele-engine';
+import {
+  calculatePhenoconversion,
+  formatPhenoconversionSummary,
+  generatePhenoconversionAlerts,
+  withEffectivePhenotype,
+  type Phenoconversion
+} from '../core/phenoconversion';
+
+export type CYP2B6Phenotype =
+  | 'Ultrarapid Metabolizer'
+  | 'Rapid Metabolizer'
+  | 'Normal Metabolizer'
+  | 'Intermediate Metabolizer'
+  | 'Poor Metabolizer'
+  | 'Unknown';
+
+export interface CYP2B6Diplotype {
+  allele1: string;
+  allele2: string;
+  phenotype: CYP2B6Phenotype;
+  confidence: 'high' | 'medium' | 'low';
+  detectedVariants: string[];
+  phaseAmbiguity?: boolean;   // True if *1/*6 vs *4/*9 could not be resolved
+  untestedAlleles?: string[]; // Alleles whose positions were not genotyped
+}
+
+export interface CYP2B6DrugRecommendation {
+  drug: string;
+  category: string;
+  recommendation: string;
+  doseAdjustment?: string;
+  riskLevel: 'warning' | 'caution' | 'normal' | 'informational';
+  alternativeDrugs?: string[];
+  monitoring?: string;
+  cpicLevel?: 'A' | 'B' | 'C';
+}
+
+export interface CYP2B6AnalysisResult {
+  gene: 'CYP2B6';
+  diplotype: CYP2B6Diplotype;        // Genetic call
+  phenoconversion: Phenoconversion;  // Effective phenotype with the current medications
+  drugs: CYP2B6DrugRecommendation[];
+  clinicalSummary: string;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    notes: string[];
+  };
+  references: string[]; // KB evidence for the called alleles
+}
+
+auditAlleleDefinitions('CYP2B6', [
+  { rsid: 'rs3745274', allele: '*6' },
+  { rsid: 'rs28399499', allele: '*18' },
+  { rsid: 'rs34223104', allele: '*22' }
+]);
+
+/**
+ * CYP2B6 allele definitions (GRCh37 forward strand), most severe first. *6 is listed before
+ * *9 and *4 so an unphased double heterozygote reads *1/*6 (far more common than *4/*9).
+ */
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'CYP2B6',
+  alleles: [
+    { allele: '*1', variants: {}, function: 'Normal' },
+    { allele: '*18', variants: { rs28399499: 'C' }, function: 'No function' },                // c.983T>C
+    { allele: '*6', variants: { rs3745274: 'T', rs2279343: 'G' }, function: 'Decreased' },    // c.516G>T + c.785A>G
+    { allele: '*9', variants: { rs3745274: 'T' }, function: 'Decreased' },                    // c.516G>T
+    { allele: '*4', variants: { rs2279343: 'G' }, function: 'Increased' },                    // c.785A>G
+    { allele: '*22', variants: { rs34223104: 'C' }, function: 'Increased' }                   // c.-82T>C
+  ]
+};
+
+const ALLELE_FUNCTION: Record<string, AlleleFunction> = Object.fromEntries(
+  ALLELE_TABLE.alleles.map(a => [a.allele, a.function ?? 'Unknown'])
+);
+
+/**
+ * CPIC phenotype from the function of both alleles (CPIC 2019, PMID 31006110, Table 1)
+ */
+function diplotypeToPhenotype(allele1: string, allele2: string): CYP2B6Phenotype {
+  const functions = [ALLELE_FUNCTION[allele1], ALLELE_FUNCTION[allele2]];
+  const reduced = functions.filter(f => f === 'Decreased' || f === 'No function').length;
+  const increased = functions.filter(f => f === 'Increased').length;
+
+  if (reduced === 2) return 'Poor Metabolizer';          // *6/*6, *6/*18, *18/*18
+  if (reduced === 1) return 'Intermediate Metabolizer';  // *1/*6, *1/*18, *4/*6, *6/*22
+  if (increased === 2) return 'Ultrarapid Metabolizer';  // *4/*4, *4/*22, *22/*22
+  if (increased === 1) return 'Rapid Metabolizer';       // *1/*4, *1/*22
+  return 'Normal Metabolizer';
+}
+
+/**
+ * Determine CYP2B6 diplotype from genotypes - v2 API
+ *
+ * rs3745274 (c.516G>T) is required: it is part of *6 and *9, the decreased-function alleles
+ * behind most efavirenz dose reductions. Missing *4, *18 or *22 positions lower confidence.
+ */
+export function determineCYP2B6Diplotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): CYP2B6Diplotype {
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
+
+  if (!call.testedPositions.includes('rs3745274')) {
+    return {
+      allele1: 'Unknown',
+      allele2: 'Unknown',
+      phenotype: 'Unknown',
+      confidence: 'low',
+      detectedVariants: []
+    };
+  }
+
+  // Report in star-number order (*4/*6, *6/*18)
+  const [allele1, allele2] = [...call.candidates[0].alleles]
+    .sort((a, b) => parseInt(a.slice(1), 10) - parseInt(b.slice(1), 10));
+
+  return {
+    allele1,
+    allele2,
+    phenotype: diplotypeToPhenotype(allele1, allele2),
+    confidence: call.missingPositions.length === 0 && call.consistent ? 'high' : 'medium',
+    detectedVariants: call.observedVariants,
+    phaseAmbiguity: call.phaseAmbiguous || undefined,
+    untestedAlleles: call.unresolvedAlleles.length > 0 ? call.unresolvedAlleles : undefined
+  };
+}
+
+/**
+ * Efavirenz starting dose (CPIC 2019, PMID 31006110, Table 2)
+ */
+function generateEfavirenzRecommendation(phenotype: CYP2B6Phenotype): CYP2B6DrugRecommendation {
+  const base = {
+    drug: 'Efavirenz (Sustiva, Atripla)',
+    category: 'Antiretrovirals (NNRTI)',
+    cpicLevel: 'A' as const
+  };
+
+  if (phenotype === 'Poor Metabolizer') {
+    return {
+      ...base,
+      recommendation: '⚠️ POOR METABOLIZER: Higher efavirenz concentrations and more CNS side effects',
+      doseAdjustment: 'CPIC: Consider initiating at 400 or 200 mg/day instead of 600 mg/day; confirm suppression (and levels where available) after dose reduction',
+      riskLevel: 'warning',
+      alternativeDrugs: ['Dolutegravir', 'Bictegravir', 'Rilpivirine (not CYP2B6-dependent)'],
+      monitoring: 'Viral load and neuropsychiatric symptoms after dose change'
+    };
+  }
+
+  if (phenotype === 'Intermediate Metabolizer') {
+    return {
+      ...base,
+      recommendation: 'INTERMEDIATE METABOLIZER: Higher efavirenz concentrations than normal metabolizers',
+      doseAdjustment: 'CPIC: Consider initiating at 400 mg/day instead of 600 mg/day',
+      riskLevel: 'caution',
+      monitoring: 'Viral load and CNS side effects'
+    };
+  }
+
+  if (phenotype === 'Unknown') {
+    return {
+      ...base,
+      recommendation: 'CYP2B6 genotype incomplete - efavirenz dose cannot be individualized',
+      doseAdjustment: 'Standard dosing (600 mg/day) per label',
+      riskLevel: 'informational'
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: `✓ ${phenotype.toUpperCase()}: Normal or faster efavirenz clearance`,
+    doseAdjustment: 'CPIC: Initiate at standard 600 mg/day',
+    riskLevel: 'normal'
+  };
+}
+
+/**
+ * Methadone (no guideline - informational only)
+ */
+function generateMethadoneRecommendation(phenotype: CYP2B6Phenotype): CYP2B6DrugRecommendation {
+  const base = {
+    drug: 'Methadone',
+    category: 'Opioids',
+    riskLevel: 'informational' as const
+  };
+
+  if (phenotype === 'Poor Metabolizer' || phenotype === 'Intermediate Metabolizer') {
+    return {
+      ...base,
+      recommendation: `ℹ️ ${phenotype.toUpperCase()}: Slower (S)-methadone clearance - higher levels for a given dose`,
+      doseAdjustment: 'No formal guideline. Titrate slowly; lower doses may suffice.',
+      monitoring: phenotype === 'Poor Metabolizer' ? 'ECG for QT prolongation during titration' : undefined
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: phenotype === 'Rapid Metabolizer' || phenotype === 'Ultrarapid Metabolizer'
+      ? `ℹ️ ${phenotype.toUpperCase()}: Possibly faster methadone clearance - higher doses may be needed`
+      : 'ℹ️ Standard methadone metabolism via CYP2B6',
+    doseAdjustment: 'No formal guideline. Standard titration.'
+  };
+}
+
+/**
+ * Bupropion (no guideline - informational only)
+ */
+function generateBupropionRecommendation(phenotype: CYP2B6Phenotype): CYP2B6DrugRecommendation {
+  return {
+    drug: 'Bupropion (Wellbutrin, Zyban)',
+    category: 'Antidepressants / Smoking Cessation',
+    recommendation: phenotype === 'Poor Metabolizer' || phenotype === 'Intermediate Metabolizer'
+      ? `ℹ️ ${phenotype.toUpperCase()}: Less hydroxybupropion (active metabolite) - possibly reduced smoking-cessation effect`
+      : 'ℹ️ Standard bupropion hydroxylation via CYP2B6',
+    doseAdjustment: 'No formal guideline. Standard dosing.',
+    riskLevel: 'informational'
+  };
+}
+
+/**
+ * Generate safety alerts
+ */
+function generateSafetyAlerts(diplotype: CYP2B6Diplotype): string[] {
+  if (diplotype.phenotype === 'Poor Metabolizer') {
+    return [`⚠️ EFAVIRENZ: CYP2B6 ${diplotype.allele1}/${diplotype.allele2} poor metabolizer - consider 400 or 200 mg/day (CNS toxicity at 600 mg)`];
+  }
+  return [];
+}
+
+/**
+ * Get provider-specific limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  diplotype: CYP2B6Diplotype
+): string[] {
+  const limitations = [
+    'Only *4, *6, *9, *18 and *22 are interpreted - rare CYP2B6 alleles and the *29 hybrid are not detected',
+    'No CPIC guideline for methadone or bupropion - their CYP2B6 guidance is informational',
+    ...getProviderCoverageLimitations(provider, 'CYP2B6', genotypes, getTablePositions(ALLELE_TABLE))
+  ];
+
+  if (diplotype.untestedAlleles) {
+    limitations.push(`Not genotyped: CYP2B6 ${diplotype.untestedAlleles.join(', ')} - call may be incomplete`);
+  }
+
+  if (diplotype.phaseAmbiguity) {
+    limitations.push('Heterozygous at both c.516G>T and c.785A>G: reported as *1/*6; *4/*9 cannot be excluded without phasing (same intermediate phenotype)');
+  }
+
+  return limitations;
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(diplotype: CYP2B6Diplotype): string {
+  const { allele1, allele2, phenotype, confidence } = diplotype;
+
+  let summary = `CYP2B6 Diplotype: ${allele1}/${allele2}\n`;
+  summary += `Phenotype: ${phenotype}\n`;
+  summary += `Confidence: ${confidence.toUpperCase()}\n\n`;
+
+  if (phenotype === 'Poor Metabolizer') {
+    summary += 'Two reduced-function CYP2B6 alleles: efavirenz, methadone and other CYP2B6 substrates are cleared slowly.\n';
+  } else if (phenotype === 'Intermediate Metabolizer') {
+    summary += 'One reduced-function CYP2B6 allele: moderately slower clearance of efavirenz and methadone.\n';
+  } else if (phenotype === 'Rapid Metabolizer' || phenotype === 'Ultrarapid Metabolizer') {
+    summary += 'Increased-function CYP2B6 allele(s): standard efavirenz dosing.\n';
+  } else if (phenotype === 'Normal Metabolizer') {
+    summary += 'Normal CYP2B6 function: standard dosing of CYP2B6 substrates.\n';
+  }
+
+  return summary;
+}
+
+/**
+ * Main CYP2B6 analysis function - v2 API
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @param medications - Current medications (CYP2B6 inhibitors and inducers give the effective phenotype)
+ * @returns Comprehensive CYP2B6 analysis results
+ */
+export function analyzeCYP2B6(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme',
+  medications: string[] = []
+): CYP2B6AnalysisResult {
+  const diplotype = determineCYP2B6Diplotype(genotypes);
+  const phenoconversion = calculatePhenoconversion('CYP2B6', diplotype.phenotype, medications);
+  const effective = withEffectivePhenotype(diplotype, phenoconversion);
+
+  return {
+    gene: 'CYP2B6',
+    diplotype,
+    phenoconversion,
+    drugs: [
+      generateEfavirenzRecommendation(effective.phenotype),
+      generateMethadoneRecommendation(effective.phenotype),
+      generateBupropionRecommendation(effective.phenotype)
+    ],
+    clinicalSummary: generateClinicalSummary(diplotype) + formatPhenoconversionSummary(phenoconversion),
+    safetyAlerts: [...generatePhenoconversionAlerts(phenoconversion), ...generateSafetyAlerts(effective)],
+    confidence: diplotype.confidence,
+    limitations: getLimitations(provider, genotypes, diplotype),
+    guidelines: {
+      cpic: 'CPIC Guideline for CYP2B6 and Efavirenz (PMID: 31006110)',
+      notes: [
+        'NO CPIC guidelines for methadone or bupropion',
+        'CYP2B6*6 is common in every population and most frequent in people of African ancestry'
+      ]
+    },
+    references: getKBReferences('CYP2B6', [diplotype.allele1, diplotype.allele2])
+  };
+}
@@ -0,0 +1,585 @@
+/**
+ * CYP2C19 Pharmacogenomics Analyzer v2
+ *
+ * CYP2C19 encodes cytochrome P450 2C19, responsible for ~10% of Phase I drug metabolism.
+ * It both ACTIVATES prodrugs (clopidogrel) and CLEARS active drugs (SSRIs, PPIs, voriconazole),
+ * so the clinical meaning of a phenotype depends on the drug.
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - Poor metabolizers (PM): 2-5% Europeans/Africans, 10-15% East Asians, up to 60% Oceanians
+ * - Intermediate metabolizers (IM): ~25% Europeans, ~45% East Asians
+ * - Rapid metabolizers (RM, *1/*17): ~27% Europeans, ~4% East Asians
+ * - Ultrarapid metabolizers (UM, *17/*17): ~5% Europeans, <1% East Asians
+ *
+ * KEY SUBSTRATES:
+ * 🔥 CLOPIDOGREL (Plavix):
+ *    - Prodrug - CYP2C19 converts it to the active thiol metabolite
+ *    - IM/PM: reduced platelet inhibition → higher stent thrombosis, MI, stroke risk
+ *    - FDA BOXED WARNING for poor metabolizers
+ *
+ * OTHER CRITICAL SUBSTRATES:
+ * - SSRIs: Citalopram, escitalopram, sertraline
+ * - Proton pump inhibitors: Omeprazole, lansoprazole, pantoprazole, dexlansoprazole
+ * - Voriconazole (antifungal)
+ * - Diazepam, clobazam, amitriptyline (secondary pathway)
+ *
+ * CRITICAL VARIANTS:
+ * - CYP2C19*2 (rs4244285, c.681G>A): Splicing defect, no function (~15% EUR, ~30% EAS allele freq)
+ * - CYP2C19*3 (rs4986893, c.636G>A): Premature stop codon, no function (mainly East Asian, ~5-10%)
+ * - CYP2C19*17 (rs12248560, c.-806C>T): Promoter variant, INCREASED transcription (~20% EUR/AFR)
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ *17 increases function, so "more variants" does NOT always mean "less activity"
+ * ⚠️ *2/*17 is classified as (likely) Intermediate Metabolizer - the no-function allele dominates
+ * ⚠️ *17 and *2 are almost never on the same haplotype; compound calls assume trans configuration
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - Rare no-function alleles (*4-*8, *35) are not typed on most arrays
+ * - A *1 call means "none of the tested variants" - not a guaranteed normal allele
+ *
+ * CLINICAL IMPACT:
+ * - FDA BOXED WARNING: Clopidogrel in CYP2C19 poor metabolizers
+ * - FDA label: Citalopram max 20 mg/day in poor metabolizers (QT prolongation)
+ *
+ * CPIC GUIDELINES:
+ * - Level A evidence for clopidogrel, SSRIs, PPIs, voriconazole
+ *
+ * REFERENCES:
+ * - CPIC Guideline Clopidogrel 2022: PMID 35034351
+ * - CPIC Guideline SSRIs 2023: PMID 37032427
+ * - CPIC Guideline PPIs 2020: PMID 32770672
+ * - CPIC Guideline Voriconazole 2016: PMID 27981572
+ * - PharmVar Database: www.pharmvar.org/gene/CYP2C19
+ */
+
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { auditAlleleDefinitions, getKBReferences, resolveAlleleActivity } from '../core/pgx-knowledge-base';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  readHaplotypePhase,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
+import {
+  calculatePhenoconversion,
+  formatPhenoconversionSummary,
+  generatePhenoconversionAlerts,
+  withEffectivePhenotype,
+  type Phenoconversion
+} from '../core/phenoconversion';
+
+export type CYP2C19Phenotype =
+  | 'Ultrarapid Metabolizer'
+  | 'Rapid Metabolizer'
+  | 'Normal Metabolizer'
+  | 'Intermediate Metabolizer'
+  | 'Poor Metabolizer'
+  | 'Unknown';
+
+export interface CYP2C19Diplotype {
+  allele1: string;
+  allele2: string;
+  phenotype: CYP2C19Phenotype;
+  activityScore: number | null; // 0.0 to 3.0 (*17 contributes 1.5); null when not genotyped
+  confidence: 'high' | 'medium' | 'low';
+  phaseAmbiguity?: boolean; // True if more variant alleles than chromosomes
+}
+
+export interface CYP2C19DrugRecommendation {
+  drug: string;
+  category: string;
+  recommendation: string;
+  doseAdjustment?: string;
+  riskLevel: 'critical' | 'warning' | 'caution' | 'normal' | 'informational';
+  alternativeDrugs?: string[];
+  monitoring?: string;
+  fdaGuidance: boolean;
+  cpicLevel?: 'A' | 'B' | 'C';
+}
+
+export interface CYP2C19AnalysisResult {
+  gene: 'CYP2C19';
+  diplotype: CYP2C19Diplotype;        // Genetic call
+  phenoconversion: Phenoconversion;   // Effective phenotype with the current medications
+  drugs: CYP2C19DrugRecommendation[];
+  clinicalSummary: string;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    fda: string[];
+  };
+  references: string[]; // KB evidence for the called alleles
+}
+
+/**
+ * CYP2C19 star allele activity values
+ *
+ * CPIC does not formally use an activity score for CYP2C19; these values are used
+ * internally to order diplotypes and are reported for consistency with other analyzers:
+ * - *1: 1.0 (normal function)
+ * - *17: 1.5 (increased function)
+ * - *2, *3: 0.0 (no function)
+ *
+ * Values defined in kb-pgx-ultimate.json take precedence (see resolveAlleleActivity)
+ */
+const ALLELE_ACTIVITY: Record<string, number> = resolveAlleleActivity('CYP2C19', {
+  '*1': 1.0,
+  '*17': 1.5,
+  '*2': 0.0,
+  '*3': 0.0
+});
+
+auditAlleleDefinitions('CYP2C19', [
+  { rsid: 'rs4244285', allele: '*2' },
+  { rsid: 'rs4986893', allele: '*3' },
+  { rsid: 'rs12248560', allele: '*17' }
+]);
+
+/**
+ * CYP2C19 allele definitions (GRCh37 forward strand). No-function alleles are listed before
+ * *17, so they are kept when there are more variant alleles than chromosomes.
+ */
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'CYP2C19',
+  alleles: [
+    { allele: '*1', variants: {}, function: 'Normal', activityScore: ALLELE_ACTIVITY['*1'] },
+    { allele: '*2', variants: { rs4244285: 'A' }, function: 'No function', activityScore: ALLELE_ACTIVITY['*2'] },        // 681G>A
+    { allele: '*3', variants: { rs4986893: 'A' }, function: 'No function', activityScore: ALLELE_ACTIVITY['*3'] },        // 636G>A
+    { allele: '*17', variants: { rs12248560: 'T' }, function: 'Increased', activityScore: ALLELE_ACTIVITY['*17'] }        // -806C>T
+  ]
+};
+
+/**
+ * Map diplotype to CPIC phenotype (PMID 35034351, Table 1)
+ *
+ * - *17/*17: Ultrarapid
+ * - *1/*17: Rapid
+ * - *1/*1: Normal
+ * - *1/no-function, *17/no-function: Intermediate
+ * - no-function/no-function: Poor
+ */
+function diplotypeToPhenotype(allele1: string, allele2: string): CYP2C19Phenotype {
+  if (ALLELE_ACTIVITY[allele1] === undefined || ALLELE_ACTIVITY[allele2] === undefined) {
+    return 'Unknown';
+  }
+
+  const noFunction = [allele1, allele2].filter(a => ALLELE_ACTIVITY[a] === 0.0).length;
+  const increased = [allele1, allele2].filter(a => a === '*17').length;
+
+  if (noFunction === 2) return 'Poor Metabolizer';
+  if (noFunction === 1) return 'Intermediate Metabolizer';
+  if (increased === 2) return 'Ultrarapid Metabolizer';
+  if (increased === 1) return 'Rapid Metabolizer';
+  return 'Normal Metabolizer';
+}
+
+/**
+ * Determine CYP2C19 diplotype from genotypes - v2 API
+ *
+ * rs4244285 (*2) is required: it is the most common no-function allele in every population,
+ * and without it no phenotype call is safe. Missing *3 or *17 positions lower confidence to
+ * medium because the call can still miss an East Asian no-function allele or a gain-of-function allele.
+ */
+export function determineCYP2C19Diplotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): CYP2C19Diplotype {
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
+
+  if (!call.testedPositions.includes('rs4244285')) {
+    return {
+      allele1: 'Unknown',
+      allele2: 'Unknown',
+      phenotype: 'Unknown',
+      activityScore: null,
+      confidence: 'low'
+    };
+  }
+
+  let confidence: 'high' | 'medium' | 'low' = call.missingPositions.length === 0 ? 'high' : 'medium';
+
+  // e.g. *2/*2 plus a *17 call: *17 must share a haplotype with a no-function allele, and the
+  // first closest pair keeps the no-function alleles
+  const phaseAmbiguity = !call.consistent;
+  if (phaseAmbiguity) {
+    confidence = 'medium';
+  }
+
+  const [allele1, allele2] = call.candidates[0].alleles;
+
+  return {
+    allele1,
+    allele2,
+    phenotype: diplotypeToPhenotype(allele1, allele2),
+    activityScore: ALLELE_ACTIVITY[allele1] + ALLELE_ACTIVITY[allele2],
+    confidence,
+    phaseAmbiguity: phaseAmbiguity || undefined
+  };
+}
+
+/**
+ * Clopidogrel recommendations (CPIC 2022, PMID 35034351)
+ * Applies to cardiovascular indications (ACS/PCI, stroke/TIA)
+ */
+function generateClopidogrelRecommendations(phenotype: CYP2C19Phenotype): CYP2C19DrugRecommendation[] {
+  if (phenotype === 'Poor Metabolizer') {
+    return [{
+      drug: 'Clopidogrel (Plavix)',
+      category: 'Antiplatelet',
+      recommendation: '🚨 AVOID CLOPIDOGREL - Poor metabolizers cannot activate this prodrug. Significantly reduced platelet inhibition → increased risk of stent thrombosis, MI and stroke (FDA BOXED WARNING).',
+      doseAdjustment: 'Do not use standard or increased doses - higher doses do not overcome the deficit in poor metabolizers.',
+      alternativeDrugs: ['Prasugrel (if no contraindication)', 'Ticagrelor'],
+      riskLevel: 'critical',
+      monitoring: 'If clopidogrel is unavoidable, platelet function testing is advised.',
+      fdaGuidance: true,
+      cpicLevel: 'A'
+    }];
+  }
+
+  if (phenotype === 'Intermediate Metabolizer') {
+    return [{
+      drug: 'Clopidogrel (Plavix)',
+      category: 'Antiplatelet',
+      recommendation: '⚠️ AVOID STANDARD-DOSE CLOPIDOGREL - Reduced conversion to the active metabolite and increased risk of cardiovascular events after PCI.',
+      doseAdjustment: 'CPIC: Use an alternative P2Y12 inhibitor at standard dose if no contraindication.',
+      alternativeDrugs: ['Prasugrel (if no contraindication)', 'Ticagrelor'],
+      riskLevel: 'warning',
+      monitoring: 'Platelet function testing if clopidogrel must be used.',
+      fdaGuidance: true,
+      cpicLevel: 'A'
+    }];
+  }
+
+  if (phenotype === 'Unknown') {
+    return [{
+      drug: 'Clopidogrel (Plavix)',
+      category: 'Antiplatelet',
+      recommendation: '⚠️ CYP2C19 status unknown - clopidogrel response cannot be predicted.',
+      doseAdjustment: 'Consider clinical CYP2C19 genotyping before elective PCI.',
+      riskLevel: 'caution',
+      fdaGuidance: true,
+      cpicLevel: 'A'
+    }];
+  }
+
+  return [{
+    drug: 'Clopidogrel (Plavix)',
+    category: 'Antiplatelet',
+    recommendation: `✅ ${phenotype.toUpperCase()}: Normal or increased clopidogrel activation. Standard dosing (75 mg/day).`,
+    doseAdjustment: 'Standard dosing',
+    riskLevel: 'normal',
+    fdaGuidance: true,
+    cpicLevel: 'A'
+  }];
+}
+
+/**
+ * SSRI recommendations (CPIC 2023, PMID 37032427)
+ */
+function generateSSRIRecommendations(phenotype: CYP2C19Phenotype): CYP2C19DrugRecommendation[] {
+  if (phenotype === 'Poor Metabolizer') {
+    return [
+      {
+        drug: 'Citalopram / Escitalopram (Celexa / Lexapro)',
+        category: 'Antidepressant (SSRI)',
+        recommendation: '⚠️ POOR METABOLIZER: Markedly higher drug levels → increased side effects and QT prolongation risk.',
+        doseAdjustment: 'Consider a 50% reduction of the starting dose and slower titration. Citalopram maximum 20 mg/day (FDA label).',
+        alternativeDrugs: ['An antidepressant not predominantly metabolized by CYP2C19'],
+        riskLevel: 'warning',
+        monitoring: 'ECG if other QT-prolonging drugs are used.',
+        fdaGuidance: true,
+        cpicLevel: 'A'
+      },
+      {
+        drug: 'Sertraline (Zoloft)',
+        category: 'Antidepressant (SSRI)',
+        recommendation: '⚠️ POOR METABOLIZER: Higher sertraline levels expected.',
+        doseAdjustment: 'Consider a lower starting dose and slower titration, or an alternative not predominantly metabolized by CYP2C19.',
+        riskLevel: 'caution',
+        fdaGuidance: false,
+        cpicLevel: 'A'
+      }
+    ];
+  }
+
+  if (phenotype === 'Intermediate Metabolizer') {
+    return [{
+      drug: 'Citalopram / Escitalopram / Sertraline',
+      category: 'Antidepressant (SSRI)',
+      recommendation: '💡 INTERMEDIATE METABOLIZER: Modestly higher drug levels.',
+      doseAdjustment: 'Initiate at the recommended starting dose; consider slower titration and a lower maintenance dose.',
+      riskLevel: 'caution',
+      fdaGuidance: false,
+      cpicLevel: 'A'
+    }];
+  }
+
+  if (phenotype === 'Ultrarapid Metabolizer' || phenotype === 'Rapid Metabolizer') {
+    return [
+      {
+        drug: 'Citalopram / Escitalopram (Celexa / Lexapro)',
+        category: 'Antidepressant (SSRI)',
+        recommendation: `⚡ ${phenotype.toUpperCase()}: Lower drug levels → increased risk of treatment failure.`,
+        doseAdjustment: phenotype === 'Ultrarapid Metabolizer'
+          ? 'CPIC: Consider an alternative not predominantly metabolized by CYP2C19.'
+          : 'CPIC: Initiate at the standard starting dose; if no response, consider titrating to a higher maintenance dose or switching.',
+        alternativeDrugs: ['Sertraline (titrate as needed)', 'Antidepressants not metabolized by CYP2C19'],
+        riskLevel: 'caution',
+        fdaGuidance: false,
+        cpicLevel: 'A'
+      },
+      {
+        drug: 'Sertraline (Zoloft)',
+        category: 'Antidepressant (SSRI)',
+        recommendation: `💡 ${phenotype.toUpperCase()}: Slightly lower sertraline levels - standard dosing appropriate.`,
+        doseAdjustment: 'Initiate standard starting dose; titrate to a higher maintenance dose if no response.',
+        riskLevel: 'informational',
+        fdaGuidance: false,
+        cpicLevel: 'A'
+      }
+    ];
+  }
+
+  return [];
+}
+
+/**
+ * Proton pump inhibitor recommendations (CPIC 2020, PMID 32770672)
+ * Applies to omeprazole, lansoprazole, pantoprazole, dexlansoprazole
+ */
+function generatePPIRecommendations(phenotype: CYP2C19Phenotype): CYP2C19DrugRecommendation[] {
+  const drug = 'PPIs (Omeprazole, Lansoprazole, Pantoprazole)';
+
+  if (phenotype === 'Ultrarapid Metabolizer') {
+    return [{
+      drug,
+      category: 'Proton Pump Inhibitor',
+      recommendation: '⚡ ULTRARAPID METABOLIZER: Rapid PPI clearance → increased risk of therapeutic failure.',
+      doseAdjustment: 'CPIC: Increase starting daily dose by 100%. Daily dose may be given in divided doses.',
+      riskLevel: 'caution',
+      monitoring: 'Monitor for efficacy (symptom control, H. pylori eradication).',
+      fdaGuidance: false,
+      cpicLevel: 'A'
+    }];
+  }
+
+  if (phenotype === 'Rapid Metabolizer' || phenotype === 'Normal Metabolizer') {
+    return [{
+      drug,
+      category: 'Proton Pump Inhibitor',
+      recommendation: `💡 ${phenotype.toUpperCase()}: Standard PPI exposure.`,
+      doseAdjustment: 'CPIC: Initiate standard starting dose. For H. pylori or erosive esophagitis, consider increasing the dose by 50-100%.',
+      riskLevel: 'informational',
+      fdaGuidance: false,
+      cpicLevel: 'A'
+    }];
+  }
+
+  if (phenotype === 'Intermediate Metabolizer' || phenotype === 'Poor Metabolizer') {
+    return [{
+      drug,
+      category: 'Proton Pump Inhibitor',
+      recommendation: `💡 ${phenotype.toUpperCase()}: Increased PPI exposure - better acid suppression, higher long-term adverse-effect risk.`,
+      doseAdjustment: 'CPIC: Initiate standard starting dose. For chronic therapy (>12 weeks) consider a 50% dose reduction once efficacy is achieved.',
+      riskLevel: 'informational',
+      fdaGuidance: false,
+      cpicLevel: 'A'
+    }];
+  }
+
+  return [];
+}
+
+/**
+ * Voriconazole recommendations (CPIC 2016, PMID 27981572)
+ */
+function generateVoriconazoleRecommendations(phenotype: CYP2C19Phenotype): CYP2C19DrugRecommendation[] {
+  if (phenotype === 'Ultrarapid Metabolizer' || phenotype === 'Rapid Metabolizer') {
+    return [{
+      drug: 'Voriconazole (Vfend)',
+      category: 'Antifungal',
+      recommendation: `⚠️ ${phenotype.toUpperCase()}: Subtherapeutic voriconazole levels likely → risk of treatment failure in invasive fungal infection.`,
+      doseAdjustment: 'CPIC: Choose an alternative agent not dependent on CYP2C19.',
+      alternativeDrugs: ['Isavuconazole', 'Liposomal amphotericin B', 'Posaconazole'],
+      riskLevel: 'warning',
+      monitoring: 'If voriconazole is used, therapeutic drug monitoring is essential.',
+      fdaGuidance: false,
+      cpicLevel: 'A'
+    }];
+  }
+
+  if (phenotype === 'Poor Metabolizer') {
+    return [{
+      drug: 'Voriconazole (Vfend)',
+      category: 'Antifungal',
+      recommendation: '⚠️ POOR METABOLIZER: Higher voriconazole levels → increased risk of adverse events (hepatotoxicity, visual disturbances, neurotoxicity).',
+      doseAdjustment: 'CPIC: Choose an alternative agent, or use a reduced dose with close therapeutic drug monitoring.',
+      alternativeDrugs: ['Isavuconazole', 'Liposomal amphotericin B', 'Posaconazole'],
+      riskLevel: 'warning',
+      monitoring: 'Therapeutic drug monitoring (trough 1-5.5 mg/L).',
+      fdaGuidance: true,
+      cpicLevel: 'A'
+    }];
+  }
+
+  if (phenotype === 'Normal Metabolizer' || phenotype === 'Intermediate Metabolizer') {
+    return [{
+      drug: 'Voriconazole (Vfend)',
+      category: 'Antifungal',
+      recommendation: `✅ ${phenotype.toUpperCase()}: Standard voriconazole dosing.`,
+      doseAdjustment: 'Initiate therapy with recommended standard of care dosing',
+      riskLevel: 'normal',
+      fdaGuidance: false,
+      cpicLevel: 'A'
+    }];
+  }
+
+  return [];
+}
+
+/**
+ * Generate drug-specific recommendations
+ */
+function generateDrugRecommendations(diplotype: CYP2C19Diplotype): CYP2C19DrugRecommendation[] {
+  const { phenotype } = diplotype;
+
+  return [
+    ...generateClopidogrelRecommendations(phenotype),
+    ...generateSSRIRecommendations(phenotype),
+    ...generatePPIRecommendations(phenotype),
+    ...generateVoriconazoleRecommendations(phenotype)
+  ];
+}
+
+/**
+ * Generate safety alerts
+ */
+function generateSafetyAlerts(diplotype: CYP2C19Diplotype): string[] {
+  const { phenotype } = diplotype;
+  const alerts: string[] = [];
+
+  if (phenotype === 'Poor Metabolizer') {
+    alerts.push('🚨 CLOPIDOGREL: Poor metabolizer - use prasugrel or ticagrelor instead (FDA BOXED WARNING)');
+    alerts.push('⚠️ CITALOPRAM/ESCITALOPRAM: Reduce starting dose 50% - citalopram max 20 mg/day');
+    alerts.push('⚠️ VORICONAZOLE: Use alternative or reduced dose with therapeutic drug monitoring');
+  } else if (phenotype === 'Intermediate Metabolizer') {
+    alerts.push('⚠️ CLOPIDOGREL: Intermediate metabolizer - reduced efficacy, consider prasugrel or ticagrelor');
+  } else if (phenotype === 'Ultrarapid Metabolizer') {
+    alerts.push('⚠️ VORICONAZOLE: Ultrarapid metabolizer - choose alternative antifungal');
+    alerts.push('⚠️ CITALOPRAM/ESCITALOPRAM: Risk of non-response - consider alternative');
+    alerts.push('💡 PPIs: Increase starting dose by 100%');
+  } else if (phenotype === 'Rapid Metabolizer') {
+    alerts.push('⚠️ VORICONAZOLE: Rapid metabolizer - choose alternative antifungal');
+  }
+
+  return alerts;
+}
+
+/**
+ * Get provider-specific limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  diplotype: CYP2C19Diplotype
+): string[] {
+  const limitations = [
+    'Consumer arrays cover *2, *3 and *17 - rare no-function alleles (*4-*8, *35) are not detected',
+    'A *1 call means none of the tested variants were found, not a confirmed normal allele',
+    'Clopidogrel response is also affected by age, diabetes, renal function and interacting drugs (omeprazole, esomeprazole)',
+    'Strong CYP2C19 inhibitors (fluvoxamine, fluconazole) can convert any genotype to a poor metabolizer phenotype',
+    ...getProviderCoverageLimitations(provider, 'CYP2C19', genotypes, getTablePositions(ALLELE_TABLE))
+  ];
+
+  if (diplotype.confidence === 'medium' && !diplotype.phaseAmbiguity) {
+    limitations.push('Not all CYP2C19 positions (*3 rs4986893, *17 rs12248560) were genotyped - call may be incomplete');
+  }
+
+  if (diplotype.phaseAmbiguity) {
+    limitations.push('More variant alleles were detected than chromosomes - phase could not be resolved without haplotype data');
+  }
+
+  return limitations;
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(diplotype: CYP2C19Diplotype): string {
+  const { allele1, allele2, phenotype, activityScore, confidence } = diplotype;
+
+  let summary = `CYP2C19 Diplotype: ${allele1}/${allele2}\n`;
+  summary += `Phenotype: ${phenotype}\n`;
+  summary += `Activity Score: ${activityScore?.toFixed(2) ?? 'not tested'}\n`;
+  summary += `Confidence: ${confidence.toUpperCase()}\n\n`;
+
+  summary += `CLINICAL INTERPRETATION:\n`;
+
+  if (phenotype === 'Poor Metabolizer') {
+    summary += `You are a CYP2C19 POOR METABOLIZER (PM). You have little or no CYP2C19 enzyme activity.\n\n`;
+    summary += `• CLOPIDOGREL: Will NOT be activated - use prasugrel or ticagrelor (FDA BOXED WARNING)\n`;
+    summary += `• SSRIs (citalopram, escitalopram, sertraline): Higher drug levels - lower doses needed\n`;
+    summary += `• PPIs: Higher exposure - standard dose, consider reduction for long-term use\n`;
+    summary += `• VORICONAZOLE: Toxicity risk - alternative or reduced dose with monitoring\n`;
+  } else if (phenotype === 'Intermediate Metabolizer') {
+    summary += `You are a CYP2C19 INTERMEDIATE METABOLIZER (IM). You carry one no-function allele.\n\n`;
+    summary += `• CLOPIDOGREL: Reduced activation - CPIC recommends prasugrel or ticagrelor after PCI\n`;
+    summary += `• SSRIs: Modestly higher levels - slower titration\n`;
+    summary += `• PPIs: Standard dosing, consider reduction for long-term use\n`;
+  } else if (phenotype === 'Rapid Metabolizer' || phenotype === 'Ultrarapid Metabolizer') {
+    summary += `You are a CYP2C19 ${phenotype.toUpperCase()} (${phenotype === 'Rapid Metabolizer' ? 'RM' : 'UM'}). You carry the *17 increased-function allele.\n\n`;
+    summary += `• CLOPIDOGREL: Normal or enhanced activation - standard dosing\n`;
+    summary += `• CITALOPRAM/ESCITALOPRAM: Lower drug levels - risk of non-response\n`;
+    summary += `• PPIs: Faster clearance - higher doses may be needed\n`;
+    summary += `• VORICONAZOLE: Subtherapeutic levels likely - choose alternative antifungal\n`;
+  } else if (phenotype === 'Normal Metabolizer') {
+    summary += `You are a CYP2C19 NORMAL METABOLIZER (NM). Standard dosing is appropriate for CYP2C19 substrates.\n`;
+  } else {
+    summary += `Your CYP2C19 status could not be determined (rs4244285 not genotyped). Consider clinical genotyping before clopidogrel therapy.\n`;
+  }
+
+  return summary;
+}
+
+/**
+ * Main CYP2C19 analysis function - v2 API
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @param medications - Current medications (CYP2C19 inhibitors and inducers give the effective phenotype)
+ * @returns Comprehensive CYP2C19 analysis results
+ */
+export function analyzeCYP2C19(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme',
+  medications: string[] = []
+): CYP2C19AnalysisResult {
+  const diplotype = determineCYP2C19Diplotype(genotypes);
+  const phenoconversion = calculatePhenoconversion('CYP2C19', diplotype.phenotype, medications);
+  const effective = withEffectivePhenotype(diplotype, phenoconversion);
+
+  return {
+    gene: 'CYP2C19',
+    diplotype,
+    phenoconversion,
+    drugs: generateDrugRecommendations(effective),
+    clinicalSummary: generateClinicalSummary(diplotype) + formatPhenoconversionSummary(phenoconversion),
+    safetyAlerts: [...generatePhenoconversionAlerts(phenoconversion), ...generateSafetyAlerts(effective)],
+    confidence: diplotype.confidence,
+    limitations: getLimitations(provider, genotypes, diplotype),
+    guidelines: {
+      cpic: 'CPIC Guideline for CYP2C19 and Clopidogrel (PMID: 35034351); SSRIs (PMID: 37032427); PPIs (PMID: 32770672); Voriconazole (PMID: 27981572)',
+      fda: [
+        'FDA Drug Label: Clopidogrel - BOXED WARNING for CYP2C19 poor metabolizers',
+        'FDA Drug Label: Citalopram - 20 mg/day maximum in CYP2C19 poor metabolizers'
+      ]
+    },
+    references: getKBReferences('CYP2C19', [diplotype.allele1, diplotype.allele2])
+  };
+}
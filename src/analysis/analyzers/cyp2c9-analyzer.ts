@@ -25,14 +25,47 @@
  * CRITICAL VARIANTS:
  * - CYP2C9*2 (rs1799853, C>T, R144C): ~35% reduced activity
  * - CYP2C9*3 (rs1057910, A>C, I359L): ~90% reduced activity
+ *
+ * AFRICAN-ANCESTRY VARIANTS (CPIC 2017 warfarin guideline):
+ * - CYP2C9*5 (rs28371686, C>G, D360E): decreased function
+ * - CYP2C9*6 (rs9332131, c.818delA): no function (frameshift)
+ * - CYP2C9*8 (rs7900194, G>A, R150H): decreased function
+ * - CYP2C9*11 (rs28371685, C>T, R335W): decreased function
  * 
  * CLINICAL IMPACT:
  * - Poor metabolizers: 3-5x bleeding risk with warfarin
  * - Requires 25-50% warfarin dose reduction
  * - FDA-required pharmacogenetic testing for warfarin
+ * - Warfarin dose estimates come from the IWPC algorithm in core/warfarin-dosing, which also
+ *   reads VKORC1 and CYP4F2 from the same genotype file
  */
 
-import { extractAndNormalize, type GeneticProvider } from '../utils/genotype-utils';
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { auditAlleleDefinitions, resolveAlleleActivity } from '../core/pgx-knowledge-base';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  lowestActivityCandidate,
+  readHaplotypePhase,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
+import {
+  calculateWarfarinDose,
+  formatWarfarinDose,
+  type WarfarinClinicalFactors,
+  type WarfarinDoseEstimate
+} from '../core/warfarin-dosing';
+import {
+  calculatePhenoconversion,
+  formatPhenoconversionSummary,
+  generatePhenoconversionAlerts,
+  withEffectivePhenotype,
+  type Phenoconversion
+} from '../core/phenoconversion';
 
 export interface CYP2C9Diplotype {
   allele1: string;
@@ -40,6 +73,7 @@ export interface CYP2C9Diplotype {
   phenotype: 'Normal Metabolizer' | 'Intermediate Metabolizer' | 'Poor Metabolizer' | 'Unknown';
   activityScore: number; // 0.0 to 2.0
   confidence: 'high' | 'medium' | 'low';
+  untestedAlleles?: string[]; // Alleles whose position was not genotyped (partial call)
 }
 
 export interface CYP2C9DrugRecommendation {
@@ -55,11 +89,13 @@ export interface CYP2C9DrugRecommendation {
 
 export interface CYP2C9AnalysisResult {
   gene: 'CYP2C9';
-  diplotype: CYP2C9Diplotype;
+  diplotype: CYP2C9Diplotype;        // Genetic call
+  phenoconversion: Phenoconversion;  // Effective phenotype with the current medications
   drugs: CYP2C9DrugRecommendation[]; // v2 standard: "drugs" not "drugRecommendations"
   clinicalSummary: string;
   warfarinDosing: {
     recommendedDose: string;
+    weeklyDose: number; // mg/week, IWPC with CPIC adjustments
     titrationGuidance: string;
     inrMonitoring: string;
     bleedingRiskCategory: string;
@@ -77,17 +113,55 @@ export interface CYP2C9AnalysisResult {
  * CYP2C9 star allele activity scores
  * Based on CPIC guidelines and PharmGKB annotations
  *
- * CPIC-compliant activity scores (2017 guideline):
+ * CPIC-compliant activity scores (2017 warfarin / 2020 phenytoin and NSAID guidelines):
  * - *1: 1.0 (normal function, reference allele)
- * - *2: 0.5 (reduced function, ~50% activity)
- * - *3: 0.0 (no function)
+ * - *2, *5, *8, *11: 0.5 (decreased function)
+ * - *3, *6: 0.0 (no function)
+ *
+ * Values defined in kb-pgx-ultimate.json take precedence (see resolveAlleleActivity)
  */
-const ALLELE_ACTIVITY: Record<string, number> = {
+const ALLELE_ACTIVITY: Record<string, number> = resolveAlleleActivity('CYP2C9', {
   '*1': 1.0,  // Normal function (reference)
   '*2': 0.5,  // Reduced function (CPIC standard)
-  '*3': 0.0   // No function (CPIC standard)
+  '*3': 0.0,  // No function (CPIC standard)
+  '*5': 0.5,  // Decreased function (African ancestry)
+  '*6': 0.0,  // No function (African ancestry)
+  '*8': 0.5,  // Decreased function (African ancestry)
+  '*11': 0.5  // Decreased function (African ancestry)
+});
+
+auditAlleleDefinitions('CYP2C9', [
+  { rsid: 'rs1799853', allele: '*2' },
+  { rsid: 'rs1057910', allele: '*3' },
+  { rsid: 'rs28371686', allele: '*5' },
+  { rsid: 'rs9332131', allele: '*6' },
+  { rsid: 'rs7900194', allele: '*8' },
+  { rsid: 'rs28371685', allele: '*11' }
+]);
+
+/**
+ * CYP2C9 allele definitions (GRCh37 forward strand; CYP2C9 is on the plus strand)
+ */
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'CYP2C9',
+  alleles: [
+    { allele: '*1', variants: {}, function: 'Normal', activityScore: ALLELE_ACTIVITY['*1'] },
+    { allele: '*2', variants: { rs1799853: 'T' }, function: 'Decreased', activityScore: ALLELE_ACTIVITY['*2'] },     // R144C, C>T
+    { allele: '*3', variants: { rs1057910: 'C' }, function: 'No function', activityScore: ALLELE_ACTIVITY['*3'] },   // I359L, A>C
+    { allele: '*5', variants: { rs28371686: 'G' }, function: 'Decreased', activityScore: ALLELE_ACTIVITY['*5'] },    // D360E, C>G
+    { allele: '*6', variants: { rs9332131: 'D' }, function: 'No function', activityScore: ALLELE_ACTIVITY['*6'] },   // c.818delA
+    { allele: '*8', variants: { rs7900194: 'A' }, function: 'Decreased', activityScore: ALLELE_ACTIVITY['*8'] },     // R150H, G>A
+    { allele: '*11', variants: { rs28371685: 'T' }, function: 'Decreased', activityScore: ALLELE_ACTIVITY['*11'] }   // R335W, C>T
+  ]
 };
 
+// *2 and *3 carry most of the reduced function in every population; without both the call
+// can miss a common decreased- or no-function allele
+const CORE_POSITIONS = ['rs1799853', 'rs1057910'];
+
+// Alleles outside the IWPC/Gage warfarin algorithms (CPIC 2017: reduce the calculated dose)
+const AFRICAN_ANCESTRY_ALLELES = ['*5', '*6', '*8', '*11'];
+
 /**
  * Map diplotype to phenotype
  * Activity Score = allele1_activity + allele2_activity
@@ -111,45 +185,44 @@ function diplotypeToPhenotype(allele1: string, allele2: string): {
 
   const totalActivity = activity1 + activity2;
 
-  // CPIC phenotype mapping based on activity score
-  // Per CPIC guidelines:
-  // - > 1.5: Normal Metabolizer
-  // - 1.0 to 1.5: Intermediate Metabolizer (includes *1/*2 with score of 1.5)
-  // - < 1.0: Poor Metabolizer
-  let phenotype: string;
-  if (totalActivity > 1.5) {
-    phenotype = 'Normal Metabolizer';
-  } else if (totalActivity >= 1.0) {
-    phenotype = 'Intermediate Metabolizer';
-  } else {
-    phenotype = 'Poor Metabolizer';
-  }
-
   return {
-    phenotype,
+    phenotype: activityScoreToPhenotype(totalActivity),
     activityScore: totalActivity,
     confidence: 'high'
   };
 }
 
+/**
+ * CPIC phenotype mapping based on activity score
+ * Per CPIC guidelines:
+ * - > 1.5: Normal Metabolizer
+ * - 1.0 to 1.5: Intermediate Metabolizer (includes *1/*2 with score of 1.5)
+ * - < 1.0: Poor Metabolizer
+ */
+function activityScoreToPhenotype(activityScore: number): string {
+  if (activityScore > 1.5) {
+    return 'Normal Metabolizer';
+  } else if (activityScore >= 1.0) {
+    return 'Intermediate Metabolizer';
+  }
+  return 'Poor Metabolizer';
+}
+
 /**
  * Determine CYP2C9 diplotype from genotypes
  * v2 API: Accepts array of genotype objects
+ *
+ * Partial data still gives a call: positions that were not genotyped are listed as untested
+ * alleles and lower confidence (low without *2 or *3, medium without an African-ancestry
+ * allele). Only a file with none of the positions returns Unknown.
  */
 export function determineCYP2C9Diplotype(
   genotypes: Array<{ rsid: string; genotype: string }>
 ): CYP2C9Diplotype {
-  // Extract and normalize genotypes
-  const rs1799853 = extractAndNormalize(genotypes, 'rs1799853'); // CYP2C9*2
-  const rs1057910 = extractAndNormalize(genotypes, 'rs1057910'); // CYP2C9*3
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
 
-  let allele1 = '*1';
-  let allele2 = '*1';
-  let confidence: 'high' | 'medium' | 'low' = 'medium';
-
-  // If EITHER variant is missing, return unknown (medical-grade safety standard)
-  // We cannot reliably determine phenotype without complete genetic data for both variants
-  if (!rs1799853 || !rs1057910) {
+  if (call.testedPositions.length === 0) {
     return {
       allele1: 'Unknown',
       allele2: 'Unknown',
@@ -159,46 +232,17 @@ export function determineCYP2C9Diplotype(
     };
   }
 
-  // Determine star alleles from genotypes
-  // rs1799853: C=*1, T=*2
-  // rs1057910: A=*1, C=*3
-
-  const has2Variant = rs1799853.includes('T');
-  const has3Variant = rs1057910.includes('C');
-
-  // Build diplotype
-  if (!has2Variant && !has3Variant) {
-    // *1/*1
-    allele1 = '*1';
-    allele2 = '*1';
-    confidence = 'high';
-  } else if (has2Variant && !has3Variant) {
-    // Contains *2
-    if (rs1799853 === 'CT') {
-      allele1 = '*1';
-      allele2 = '*2';
-    } else if (rs1799853 === 'TT') {
-      allele1 = '*2';
-      allele2 = '*2';
-    }
-    confidence = 'high';
-  } else if (!has2Variant && has3Variant) {
-    // Contains *3
-    if (rs1057910 === 'AC') {
-      allele1 = '*1';
-      allele2 = '*3';
-    } else if (rs1057910 === 'CC') {
-      allele1 = '*3';
-      allele2 = '*3';
-    }
-    confidence = 'high';
-  } else {
-    // Compound heterozygote *2/*3
-    allele1 = '*2';
-    allele2 = '*3';
-    confidence = 'high';
+  let confidence: 'high' | 'medium' | 'low' = 'high';
+  if (CORE_POSITIONS.some(rsid => call.missingPositions.includes(rsid))) {
+    confidence = 'low';
+  } else if (call.missingPositions.length > 0 || !call.consistent) {
+    confidence = 'medium';
   }
 
+  // Variants are assumed in trans; with more variant alleles than chromosomes the
+  // lowest-activity pair is kept
+  const [allele1, allele2] = [...lowestActivityCandidate(call).alleles].sort(compareAlleles);
+
   // Get phenotype
   const phenotypeResult = diplotypeToPhenotype(allele1, allele2);
 
@@ -207,19 +251,37 @@ export function determineCYP2C9Diplotype(
     allele2,
     phenotype: phenotypeResult.phenotype as any,
     activityScore: phenotypeResult.activityScore,
-    confidence
+    confidence,
+    untestedAlleles: call.unresolvedAlleles.length > 0 ? call.unresolvedAlleles : undefined
   };
 }
 
+/**
+ * Order star alleles numerically (*1 < *2 < *11) for a canonical diplotype string
+ */
+function compareAlleles(a: string, b: string): number {
+  return parseInt(a.slice(1), 10) - parseInt(b.slice(1), 10);
+}
+
+/**
+ * African-ancestry alleles in the diplotype
+ */
+function getAfricanAncestryAlleles(diplotype: CYP2C9Diplotype): string[] {
+  return [diplotype.allele1, diplotype.allele2].filter(a => AFRICAN_ANCESTRY_ALLELES.includes(a));
+}
+
 /**
  * Generate warfarin-specific dosing guidance
  */
-function generateWarfarinDosing(diplotype: CYP2C9Diplotype) {
-  const { phenotype, activityScore: _activityScore } = diplotype;
+function generateWarfarinDosing(diplotype: CYP2C9Diplotype, estimate: WarfarinDoseEstimate) {
+  const { phenotype } = diplotype;
+  const recommendedDose = formatWarfarinDose(estimate);
+  const weeklyDose = estimate.weeklyDose;
 
   if (phenotype === 'Unknown') {
     return {
-      recommendedDose: 'Standard dosing (5mg/day) with close monitoring',
+      recommendedDose: `${recommendedDose} with close monitoring`,
+      weeklyDose,
       titrationGuidance: 'Use standard INR-guided dose adjustment',
       inrMonitoring: 'Weekly INR checks for first month',
       bleedingRiskCategory: 'Unknown - assume increased risk'
@@ -228,8 +290,9 @@ function generateWarfarinDosing(diplotype: CYP2C9Diplotype) {
 
   if (phenotype === 'Poor Metabolizer') {
     return {
-      recommendedDose: '0.5-2mg/day (50-75% reduction from standard 5mg)',
-      titrationGuidance: 'Increase by 0.5-1mg every 5-7 days based on INR. Therapeutic dose typically 2-3mg/day.',
+      recommendedDose,
+      weeklyDose,
+      titrationGuidance: 'Increase by 0.5-1mg every 5-7 days based on INR.',
       inrMonitoring: 'Check INR every 2-3 days for first 2 weeks, then weekly until stable',
       bleedingRiskCategory: 'VERY HIGH (3-5x baseline risk) - Major bleeding risk elevated'
     };
@@ -237,8 +300,9 @@ function generateWarfarinDosing(diplotype: CYP2C9Diplotype) {
 
   if (phenotype === 'Intermediate Metabolizer') {
     return {
-      recommendedDose: '2.5-4mg/day (25-40% reduction from standard 5mg)',
-      titrationGuidance: 'Increase by 1-2mg weekly based on INR. Therapeutic dose typically 3-4mg/day.',
+      recommendedDose,
+      weeklyDose,
+      titrationGuidance: 'Increase by 1-2mg weekly based on INR.',
       inrMonitoring: 'Check INR every 3-4 days for first 2 weeks, then weekly',
       bleedingRiskCategory: 'INCREASED (2-3x baseline risk) - Moderate bleeding risk'
     };
@@ -246,7 +310,8 @@ function generateWarfarinDosing(diplotype: CYP2C9Diplotype) {
 
   // Normal Metabolizer
   return {
-    recommendedDose: '5mg/day (standard starting dose)',
+    recommendedDose,
+    weeklyDose,
     titrationGuidance: 'Use standard warfarin titration protocol based on INR',
     inrMonitoring: 'Weekly INR checks for first month, then monthly when stable',
     bleedingRiskCategory: 'NORMAL (baseline risk ~1-2% per year)'
@@ -256,8 +321,12 @@ function generateWarfarinDosing(diplotype: CYP2C9Diplotype) {
 /**
  * Generate drug-specific recommendations
  */
-function generateDrugRecommendations(diplotype: CYP2C9Diplotype): CYP2C9DrugRecommendation[] {
-  const { phenotype } = diplotype;
+function generateDrugRecommendations(
+  diplotype: CYP2C9Diplotype,
+  warfarinDose: string
+): CYP2C9DrugRecommendation[] {
+  const { phenotype, activityScore } = diplotype;
+  const africanAlleles = getAfricanAncestryAlleles(diplotype);
   const recommendations: CYP2C9DrugRecommendation[] = [];
 
   // Warfarin
@@ -266,9 +335,13 @@ function generateDrugRecommendations(diplotype: CYP2C9Diplotype): CYP2C9DrugReco
       drug: 'Warfarin',
       category: 'Anticoagulant',
       recommendation: phenotype === 'Poor Metabolizer'
-        ? 'REDUCE starting dose by 50-75%. Start at 0.5-2mg/day.'
-        : 'REDUCE starting dose by 25-40%. Start at 2.5-4mg/day.',
-      doseAdjustment: 'See warfarinDosing section for detailed guidance',
+        ? `REDUCE starting dose by 50-75%. Start at ${warfarinDose}.`
+        : `REDUCE starting dose by 25-40%. Start at ${warfarinDose}.`,
+      doseAdjustment: africanAlleles.length > 0
+        ? `CYP2C9 ${africanAlleles.join('/')} is not in the IWPC/Gage dosing algorithms: reduce an ` +
+          `algorithm-calculated dose by ${africanAlleles.length > 1 ? '20-40%' : '15-30%'} (CPIC 2017). ` +
+          'See warfarinDosing section for detailed guidance'
+        : 'See warfarinDosing section for detailed guidance',
       bleedingRisk: phenotype === 'Poor Metabolizer' ? 'Very High' : 'High',
       alternativeDrugs: [
         'Direct oral anticoagulants (DOACs): Apixaban, rivaroxaban, edoxaban',
@@ -281,7 +354,7 @@ function generateDrugRecommendations(diplotype: CYP2C9Diplotype): CYP2C9DrugReco
     recommendations.push({
       drug: 'Warfarin',
       category: 'Anticoagulant',
-      recommendation: 'Standard dosing appropriate. Start 5mg/day.',
+      recommendation: `Standard dosing appropriate. Start at ${warfarinDose}.`,
       doseAdjustment: 'Use standard INR-guided titration',
       bleedingRisk: 'Normal',
       alternativeDrugs: [],
@@ -290,26 +363,29 @@ function generateDrugRecommendations(diplotype: CYP2C9Diplotype): CYP2C9DrugReco
     });
   }
 
-  // NSAIDs
+  // NSAIDs (CPIC 2020, PMID 32189324): dosing follows the activity score
   if (phenotype === 'Poor Metabolizer') {
     recommendations.push({
-      drug: 'NSAIDs (Ibuprofen, Naproxen, Celecoxib)',
+      drug: 'NSAIDs (Ibuprofen, Celecoxib, Flurbiprofen, Meloxicam)',
       category: 'Anti-inflammatory',
-      recommendation: 'REDUCE dose by 30-50%. Start at lowest effective dose.',
-      doseAdjustment: 'Ibuprofen: Start 200mg (vs 400mg), Celecoxib: 100mg (vs 200mg)',
+      recommendation: 'REDUCE dose: start at 25-50% of the lowest recommended starting dose and titrate only after steady state. Avoid meloxicam and piroxicam.',
+      doseAdjustment: 'Ibuprofen: Start 200mg (vs 400mg), Celecoxib: 50mg (vs 100mg)',
       bleedingRisk: 'Increased',
       alternativeDrugs: [
         'Acetaminophen (not metabolized by CYP2C9)',
-        'Topical NSAIDs (lower systemic exposure)'
+        'Topical NSAIDs (lower systemic exposure)',
+        'Aspirin, ketorolac, naproxen, sulindac (not primarily CYP2C9)'
       ],
       monitoring: 'Monitor for GI bleeding, renal function',
-      fdaGuidance: false
+      fdaGuidance: true
     });
   } else if (phenotype === 'Intermediate Metabolizer') {
     recommendations.push({
-      drug: 'NSAIDs (Ibuprofen, Naproxen, Celecoxib)',
+      drug: 'NSAIDs (Ibuprofen, Celecoxib, Flurbiprofen, Meloxicam)',
       category: 'Anti-inflammatory',
-      recommendation: 'Consider 20-30% dose reduction or use alternative',
+      recommendation: activityScore <= 1.0
+        ? 'Start at the lowest recommended dose and titrate only after steady state (5-7 days). Meloxicam: start at 50% of the lowest dose.'
+        : 'Standard starting dose is appropriate; use the lowest effective dose.',
       doseAdjustment: 'Start at low end of dosing range',
       bleedingRisk: 'Normal',
       alternativeDrugs: ['Acetaminophen for mild-moderate pain'],
@@ -338,15 +414,15 @@ function generateDrugRecommendations(diplotype: CYP2C9Diplotype): CYP2C9DrugReco
     });
   }
 
-  // Phenytoin
+  // Phenytoin (CPIC 2020, PMID 32779747): maintenance dose follows the activity score
   if (phenotype === 'Poor Metabolizer' || phenotype === 'Intermediate Metabolizer') {
     recommendations.push({
       drug: 'Phenytoin',
       category: 'Antiepileptic',
       recommendation: phenotype === 'Poor Metabolizer'
-        ? 'REDUCE starting dose by 25-50%. High toxicity risk.'
-        : 'Reduce starting dose by 20-25%.',
-      doseAdjustment: 'Start low, titrate slowly with therapeutic drug monitoring',
+        ? 'REDUCE maintenance dose by 50% after a standard loading dose. High toxicity risk.'
+        : 'Reduce maintenance dose by 25% after a standard loading dose.',
+      doseAdjustment: 'Standard first (loading) dose; adjust later doses with therapeutic drug monitoring',
       bleedingRisk: 'Normal',
       alternativeDrugs: [
         'Levetiracetam (not metabolized by CYP2C9)',
@@ -371,9 +447,9 @@ function generateSafetyAlerts(diplotype: CYP2C9Diplotype): string[] {
   if (phenotype === 'Poor Metabolizer') {
     alerts.push('🚨 POOR METABOLIZER - HIGH BLEEDING RISK with warfarin');
     alerts.push('🚨 WARFARIN: Reduce starting dose by 50-75% (start 0.5-2mg/day)');
-    alerts.push('🚨 NSAIDs: Reduce dose by 30-50%, consider alternatives');
+    alerts.push('🚨 NSAIDs: Start at 25-50% of the lowest dose, avoid meloxicam/piroxicam');
     alerts.push('⚠️ SULFONYLUREAS: Avoid or reduce 50% - high hypoglycemia risk');
-    alerts.push('⚠️ PHENYTOIN: Reduce dose 25-50% - high toxicity risk');
+    alerts.push('⚠️ PHENYTOIN: Reduce maintenance dose 50% - high toxicity risk');
     alerts.push('💡 INFORM ALL PRESCRIBERS of poor metabolizer status');
     alerts.push('💡 CARRY MEDICAL ALERT card noting CYP2C9 poor metabolizer');
   } else if (phenotype === 'Intermediate Metabolizer') {
@@ -399,20 +475,37 @@ function generateSafetyAlerts(diplotype: CYP2C9Diplotype): string[] {
  * Main CYP2C9 analysis function - v2 API
  *
  * @param genotypes - Array of genotype objects from 23andMe
- * @param provider - Data provider ('23andme' or 'unknown')
+ * @param provider - Data provider
+ * @param clinical - Optional clinical covariates for the IWPC warfarin dose estimate
+ * @param medications - Current medications (CYP2C9 inhibitors give the effective phenotype)
  * @returns Comprehensive CYP2C9 analysis results
  */
 export function analyzeCYP2C9(
   genotypes: Array<{ rsid: string; genotype: string }>,
-  _provider: GeneticProvider = '23andme'
+  provider: GeneticProvider = '23andme',
+  clinical: WarfarinClinicalFactors = {},
+  medications: string[] = []
 ): CYP2C9AnalysisResult {
   // Determine diplotype
   const diplotype = determineCYP2C9Diplotype(genotypes);
+  const warfarinEstimate = calculateWarfarinDose(
+    genotypes,
+    diplotype.phenotype === 'Unknown' ? null : diplotype,
+    clinical
+  );
+
+  // Drug-drug-gene interactions: the IWPC estimate stays genetic (it models amiodarone and
+  // enzyme inducers itself); drug guidance follows the effective phenotype
+  const phenoconversion = calculatePhenoconversion('CYP2C9', diplotype.phenotype, medications, {
+    score: diplotype.activityScore,
+    toPhenotype: activityScoreToPhenotype
+  });
+  const effective = withEffectivePhenotype(diplotype, phenoconversion);
 
   // Generate recommendations
-  const warfarinDosing = generateWarfarinDosing(diplotype);
-  const drugs = generateDrugRecommendations(diplotype);
-  const safetyAlerts = generateSafetyAlerts(diplotype);
+  const warfarinDosing = generateWarfarinDosing(diplotype, warfarinEstimate);
+  const drugs = generateDrugRecommendations(effective, warfarinDosing.recommendedDose);
+  const safetyAlerts = [...generatePhenoconversionAlerts(phenoconversion), ...generateSafetyAlerts(effective)];
 
   // Clinical summary
   const clinicalSummary = `
@@ -420,7 +513,9 @@ CYP2C9 METABOLIZER STATUS
 Diplotype: ${diplotype.allele1}/${diplotype.allele2}
 Phenotype: ${diplotype.phenotype}
 Activity Score: ${diplotype.activityScore.toFixed(2)} (0=none, 2=normal)
-Confidence: ${diplotype.confidence}
+Confidence: ${diplotype.confidence}${diplotype.untestedAlleles
+    ? `\nPartial call: ${diplotype.untestedAlleles.join(', ')} not genotyped (assumed absent)`
+    : ''}
 
 CYP2C9 metabolizes approximately 15% of clinically used drugs, including
 warfarin (the #2 most common cause of drug-related hospitalizations in the US).
@@ -432,14 +527,19 @@ ${diplotype.phenotype === 'Poor Metabolizer'
         : diplotype.phenotype === 'Normal Metabolizer'
           ? 'You have NORMAL CYP2C9 activity. Standard dosing is appropriate for CYP2C9 substrates.\nWarfarin dosing still requires INR monitoring (other factors affect response).'
           : 'Your CYP2C9 status could not be determined. Use conservative dosing for CYP2C9 substrates.'}
+${formatPhenoconversionSummary(phenoconversion)}
   `.trim();
 
   // Limitations
   const limitations = [
-    '23andMe genotyping covers only *2 and *3 alleles (most common variants)',
-    'Rare CYP2C9 alleles (*4-*36) are not detected',
+    'Only the *2, *3, *5, *6, *8 and *11 alleles are interpreted',
+    'Other CYP2C9 alleles (e.g. *13, *14) are not detected',
+    ...(diplotype.untestedAlleles
+      ? [`Not genotyped: ${diplotype.untestedAlleles.join(', ')} - the call assumes these alleles are absent and may overestimate CYP2C9 activity`]
+      : []),
     'Warfarin dosing affected by many factors beyond CYP2C9 (VKORC1, age, weight, vitamin K intake)',
-    'Does not detect gene duplications or deletions'
+    'Does not detect gene duplications or deletions',
+    ...getProviderCoverageLimitations(provider, 'CYP2C9', genotypes, getTablePositions(ALLELE_TABLE))
   ];
 
   // Guidelines
@@ -454,6 +554,7 @@ ${diplotype.phenotype === 'Poor Metabolizer'
   return {
     gene: 'CYP2C9',
     diplotype,
+    phenoconversion,
     drugs,
     clinicalSummary,
     warfarinDosing,
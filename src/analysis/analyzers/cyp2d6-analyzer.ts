@@ -35,13 +35,15 @@
  * - CYP2D6*17 (rs28371706): Decreased function, common in Africans (20-35%)
  * - CYP2D6*41 (rs28371725): Decreased function, common in Europeans (8-10%)
  * - CYP2D6*6 (rs5030655): No function frameshift deletion (~1% Europeans)
+ * - CYP2D6*3 (rs35742686), *9 (rs5030656), *29 (rs59421388) and the *2 marker rs16947
  *
  * COMPLEXITY NOTES:
  * ⚠️ CYP2D6 is THE MOST COMPLEX pharmacogenomics gene:
  * - Copy number variants (gene deletions *5, duplications *1xN, *2xN)
  * - Hybrid alleles (CYP2D6/CYP2D7 gene conversions)
  * - 150+ star alleles with various functional impacts
- * - Phase ambiguity when multiple variants present
+ * - Phase ambiguity when multiple variants present: every consistent diplotype is ranked by
+ *   population haplotype frequency for the declared or inferred ancestry
  *
  * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
  * - 23andMe/AncestryDNA SNP arrays CANNOT detect:
@@ -50,6 +52,9 @@
  *   • Structural variants
  * - This analyzer provides BEST EFFORT phenotyping from available SNPs
  * - True CYP2D6 phenotyping requires targeted genotyping or sequencing
+ * - Copy number and hybrid alleles from a clinical report, a lab CNV file or a VCF <CNV>
+ *   record can be supplied as CYP2D6StructuralVariants; duplicated allele activity is then
+ *   multiplied by its copy number (CPIC)
  *
  * CLINICAL IMPACT:
  * - FDA BLACK BOX: Codeine in ultrarapid pediatrics (fatal morphine toxicity)
@@ -68,7 +73,28 @@
  * - FDA Table of Pharmacogenomic Biomarkers
  */
 
-import { extractAndNormalize, type GeneticProvider } from '../utils/genotype-utils';
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import type { CopyNumberRecord, ReferenceBuild } from '../utils/vcf-parser';
+import type { AncestryProportions } from '../core/ancestry-analysis';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  readHaplotypePhase,
+  type AlleleDefinition,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
+import { auditAlleleDefinitions, getKBReferences, resolveAlleleActivity } from '../core/pgx-knowledge-base';
+import {
+  calculatePhenoconversion,
+  formatPhenoconversionSummary,
+  generatePhenoconversionAlerts,
+  withEffectivePhenotype,
+  type Phenoconversion
+} from '../core/phenoconversion';
 
 export interface CYP2D6Diplotype {
   allele1: string;
@@ -76,8 +102,41 @@ export interface CYP2D6Diplotype {
   phenotype: 'Normal Metabolizer' | 'Intermediate Metabolizer' | 'Poor Metabolizer' | 'Ultrarapid Metabolizer' | 'Unknown';
   activityScore: number; // 0.0 to 3.0+ (can exceed 2.0 with duplications)
   confidence: 'high' | 'medium' | 'low';
-  phaseAmbiguity?: boolean; // True if multiple variants present, phasing uncertain
-  possibleDiplotypes?: string[]; // If phase ambiguous, list possibilities
+  phaseAmbiguity?: boolean; // True if more than one diplotype fits the genotypes
+  possibleDiplotypes?: string[]; // Candidate diplotypes, or duplication arrangements
+  candidates: CYP2D6CandidateDiplotype[]; // Every diplotype consistent with the genotypes, most probable first
+  phenotypeDiscordance: number; // Probability that the true phenotype class differs from the reported one
+  ancestrySource: AncestryProportions['source'] | 'none'; // Ancestry behind the haplotype frequency prior
+  unexplainedCalls?: boolean; // True if no modeled diplotype fits every call (closest ones are listed)
+  structuralSource: CYP2D6StructuralSource | 'none'; // Where copy number / hybrid data came from
+  copyNumber?: number; // Full-length CYP2D6 copies, when structural data was supplied
+}
+
+export interface CYP2D6CandidateDiplotype {
+  diplotype: string; // 'allele1/allele2'
+  activityScore: number;
+  phenotype: CYP2D6Diplotype['phenotype'];
+  posterior: number; // Probability given the genotypes and the ancestry's haplotype frequencies
+}
+
+export type CYP2D6StructuralSource = 'clinical_report' | 'cnv_file' | 'vcf';
+
+export type CYP2D6Hybrid = '*13' | '*36' | '*68';
+
+/**
+ * Structural CYP2D6 data that SNP calls cannot provide
+ *
+ * copyNumber counts full-length CYP2D6 genes on both chromosomes: 2 = normal, 1 = one *5
+ * deletion, 0 = *5/*5, 3+ = duplication (xN). CYP2D6/2D7 hybrid genes are listed in hybrids
+ * and are not counted.
+ */
+export interface CYP2D6StructuralVariants {
+  source: CYP2D6StructuralSource;
+  copyNumber?: number;
+  deletion?: boolean;        // *5 reported without a copy number (implies copyNumber 1)
+  duplicatedAllele?: string; // Allele carried in the xN duplication, when the report names it
+  hybrids?: CYP2D6Hybrid[];
+  reference?: string;        // Report ID, CNV file name or VCF record ID
 }
 
 export interface CYP2D6DrugRecommendation {
@@ -94,7 +153,8 @@ export interface CYP2D6DrugRecommendation {
 
 export interface CYP2D6AnalysisResult {
   gene: 'CYP2D6';
-  diplotype: CYP2D6Diplotype;
+  diplotype: CYP2D6Diplotype;            // Genetic call
+  phenoconversion: Phenoconversion;      // Effective phenotype with the current medications
   clinicalSummary: string;
   drugs: CYP2D6DrugRecommendation[];
   safetyAlerts: string[];
@@ -109,14 +169,16 @@ export interface CYP2D6AnalysisResult {
  * Based on CPIC guidelines (PMID 27997040)
  *
  * CPIC-compliant activity scores:
- * - 0.0: No function (*3, *4, *5, *6, *7, *8, *11, *12, *13, *14, *15, *16, *18, *19, *20, *21, *38, *40, *42, *44, *56)
- * - 0.25: Significantly decreased (*10, *36, *47)
+ * - 0.0: No function (*3, *4, *5, *6, *7, *8, *11, *12, *13, *14, *15, *16, *18, *19, *20, *21, *36, *38, *40, *42, *44, *56, *68)
+ * - 0.25: Significantly decreased (*10, *47)
  * - 0.5: Decreased (*9, *17, *29, *41, *49, *50, *54, *55, *57, *59, *72)
  * - 1.0: Normal (*1, *2, *33, *35)
  * - 1.5: Increased (rare)
  * - 2.0+: Gene duplications (xN) - multiply base activity by copy number
+ *
+ * Values defined in kb-pgx-ultimate.json take precedence (see resolveAlleleActivity)
  */
-const ALLELE_ACTIVITY: Record<string, number> = {
+const ALLELE_ACTIVITY: Record<string, number> = resolveAlleleActivity('CYP2D6', {
   // Normal function alleles
   '*1': 1.0,  // Wildtype reference allele
   '*2': 1.0,  // Normal function, common haplotype marker
@@ -137,10 +199,11 @@ const ALLELE_ACTIVITY: Record<string, number> = {
   '*18': 0.0, // Premature stop codon
   '*19': 0.0, // Frameshift deletion
   '*20': 0.0, // Frameshift deletion
+  '*36': 0.0, // CYP2D6/2D7 hybrid exon 9 conversion; *36+*10 tandem scores 0.25 from the *10 copy
+  '*68': 0.0, // CYP2D6/2D7 hybrid, found in tandem with *4
 
   // Significantly decreased function (activity = 0.25)
   '*10': 0.25, // P34S + S486T, extremely common in East Asians (40-50%)
-  '*36': 0.25, // V338M + other variants
   '*47': 0.25, // Reduced expression
 
   // Decreased function (activity = 0.5)
@@ -152,7 +215,19 @@ const ALLELE_ACTIVITY: Record<string, number> = {
   '*50': 0.5, // Reduced function
   '*54': 0.5, // Reduced function
   '*55': 0.5, // Reduced function
-};
+});
+
+auditAlleleDefinitions('CYP2D6', [
+  { rsid: 'rs16947', allele: '*2' },
+  { rsid: 'rs35742686', allele: '*3' },
+  { rsid: 'rs3892097', allele: '*4' },
+  { rsid: 'rs5030655', allele: '*6' },
+  { rsid: 'rs5030656', allele: '*9' },
+  { rsid: 'rs1065852', allele: '*10' },
+  { rsid: 'rs28371706', allele: '*17' },
+  { rsid: 'rs59421388', allele: '*29' },
+  { rsid: 'rs28371725', allele: '*41' }
+]);
 
 /**
  * Map activity score to CPIC phenotype categories
@@ -179,176 +254,289 @@ function activityScoreToPhenotype(activityScore: number): string {
 }
 
 /**
- * Determine CYP2D6 diplotype from genotypes - v2 API
- *
- * IMPORTANT: This is a SIMPLIFIED implementation for SNP array data
- * True CYP2D6 diplotyping requires:
- * - Copy number variant detection (deletions, duplications)
- * - Long-range phasing (which variants are on the same chromosome)
- * - Comprehensive star allele detection (150+ alleles)
- *
- * This analyzer focuses on the most clinically relevant variants detectable from consumer SNP arrays
+ * Activity of one haplotype: '*2x2' multiplies the allele activity by its copy number and
+ * tandem arrangements ('*36+*10') add the activity of each gene
  */
-export function determineCYP2D6Diplotype(
-  genotypes: Array<{ rsid: string; genotype: string }>
-): CYP2D6Diplotype {
+function haplotypeActivity(haplotype: string): number {
+  return haplotype.split('+').reduce((sum, gene) => {
+    const [allele, copies] = gene.split('x');
+    return sum + (ALLELE_ACTIVITY[allele] ?? 1.0) * (copies ? parseInt(copies, 10) : 1);
+  }, 0);
+}
 
-  // Extract and normalize all genotypes
-  const norm_rs3892097 = extractAndNormalize(genotypes, 'rs3892097');   // *4
-  const norm_rs28371725 = extractAndNormalize(genotypes, 'rs28371725'); // *41
-  const norm_rs1065852 = extractAndNormalize(genotypes, 'rs1065852');   // *10
-  const norm_rs5030655 = extractAndNormalize(genotypes, 'rs5030655');   // *6
-  const norm_rs28371706 = extractAndNormalize(genotypes, 'rs28371706'); // *17
-  // Note: rs16947 (*2) not used in current implementation
+// Hybrid → the allele it is found in tandem with
+const HYBRID_PARTNERS: Partial<Record<CYP2D6Hybrid, string>> = {
+  '*36': '*10',
+  '*68': '*4'
+};
 
-  // Track detected alleles
-  const detectedAlleles: string[] = [];
+const CONFIDENCE_RANK = { high: 2, medium: 1, low: 0 } as const;
 
-  // Check for *4 (rs3892097 A allele, no function)
-  // G/G = no *4, G/A = one *4, A/A = two *4
-  const rs3892097_A_count = norm_rs3892097?.split('').filter(a => a === 'A').length || 0;
+function lowerConfidence(
+  a: CYP2D6Diplotype['confidence'],
+  b: CYP2D6Diplotype['confidence']
+): CYP2D6Diplotype['confidence'] {
+  return CONFIDENCE_RANK[a] <= CONFIDENCE_RANK[b] ? a : b;
+}
 
-  // Check for *41 (rs28371725 T allele, decreased function)
-  const rs28371725_T_count = norm_rs28371725?.split('').filter(a => a === 'T').length || 0;
+/**
+ * Combine SNP-based alleles with copy number and hybrid data
+ *
+ * - 0-1 copies: the missing copies become *5 (or a reported *13 hybrid); with one copy the SNP
+ *   calls are hemizygous, so a heterozygous SNP call lowers confidence
+ * - 3+ copies: extra copies go to the reported duplicated allele; if it is unknown and the two
+ *   alleles differ, the higher-activity allele is assumed duplicated (the arrangement that
+ *   carries ultrarapid risk) and the alternative is listed
+ * - *36 / *68 hybrids are placed in tandem with *10 / *4 when present
+ */
+function applyStructuralVariants(
+  snpAlleles: [string, string],
+  structural: CYP2D6StructuralVariants,
+  snpConfidence: CYP2D6Diplotype['confidence']
+): { haplotypes: [string, string]; copyNumber: number; confidence: CYP2D6Diplotype['confidence']; alternatives: string[] } {
+  const copyNumber = structural.copyNumber ?? (structural.deletion ? 1 : structural.duplicatedAllele ? 3 : 2);
+  const hybrids = [...(structural.hybrids ?? [])];
+  let confidence = snpConfidence;
+  let alternatives: string[] = [];
+  let haplotypes: [string, string];
+
+  const takeDeletedCopy = (): string => {
+    const index = hybrids.indexOf('*13');
+    if (index === -1) return '*5';
+    hybrids.splice(index, 1);
+    return '*13';
+  };
 
-  // Check for *10 (rs1065852 T allele, significantly decreased function)
-  const rs1065852_T_count = norm_rs1065852?.split('').filter(a => a === 'T').length || 0;
+  if (copyNumber <= 1) {
+    const [a1, a2] = snpAlleles;
+    if (a1 !== a2) confidence = 'low'; // A single gene copy cannot be heterozygous
+    const remaining = a1 === '*1' ? a2 : a1;
+
+    haplotypes = copyNumber === 1
+      ? [remaining, takeDeletedCopy()]
+      : [takeDeletedCopy(), takeDeletedCopy()];
+  } else {
+    haplotypes = [...snpAlleles];
+    const copies = copyNumber - 1; // Copies on the duplicated chromosome
+
+    if (copies > 1) {
+      const duplicated = structural.duplicatedAllele;
+      // A reported duplication of an allele the SNPs cannot see (e.g. *2) sits on a '*1' call
+      if (duplicated && !haplotypes.includes(duplicated) && haplotypes.includes('*1')) {
+        haplotypes[haplotypes.indexOf('*1')] = duplicated;
+      }
+
+      const candidates = duplicated && haplotypes.includes(duplicated)
+        ? [duplicated]
+        : [...new Set(haplotypes)].sort((x, y) => haplotypeActivity(y) - haplotypeActivity(x));
+
+      const arrangements = candidates.map(allele => {
+        const index = haplotypes.indexOf(allele);
+        const arranged: [string, string] = [...haplotypes];
+        arranged[index] = `${allele}x${copies}`;
+        return arranged;
+      });
+
+      haplotypes = arrangements[0];
+      if (arrangements.length > 1) {
+        confidence = lowerConfidence(confidence, 'medium');
+        alternatives = arrangements.map(a => a.join('/'));
+      }
+    }
+  }
 
-  // Check for *6 (rs5030655 A allele, no function)
-  const rs5030655_A_count = norm_rs5030655?.split('').filter(a => a === 'A').length || 0;
+  for (const hybrid of hybrids) {
+    const partner = HYBRID_PARTNERS[hybrid];
+    const index = Math.max(0, haplotypes.findIndex(h => h.split('x')[0] === partner));
+    haplotypes[index] = `${hybrid}+${haplotypes[index]}`;
+  }
 
-  // Check for *17 (rs28371706 T allele, decreased function)
-  const rs28371706_T_count = norm_rs28371706?.split('').filter(a => a === 'T').length || 0;
+  return { haplotypes, copyNumber, confidence, alternatives };
+}
 
-  // SIMPLE DIPLOTYPE DETERMINATION
-  // This is a simplified algorithm that handles the most common cases
-  // More sophisticated phasing algorithms would be needed for comprehensive analysis
+/**
+ * CYP2D6 haplotypes the SNP data can resolve, as the variant alleles each one carries on the
+ * GRCh37 forward strand. CYP2D6 is on the minus strand, so coding-strand changes are
+ * complemented (1846G>A is C>T); 'D' is the deletion allele of an indel locus.
+ *
+ * An allele is only considered when its key (core) position was genotyped; its other
+ * positions may be untested. *4 has a second form without 100C>T (rs1065852): array probes
+ * for 100C>T overlap CYP2D7 and often miss it in *4 carriers.
+ */
+const HAPLOTYPE_TABLE: AlleleDefinitionTable = {
+  gene: 'CYP2D6',
+  alleles: [
+    { allele: '*1', variants: {} },
+    { allele: '*2', variants: { rs16947: 'A' } },                                                   // 2850C>T
+    { allele: '*3', variants: { rs35742686: 'D' } },                                                // 2549delA
+    { allele: '*4', core: ['rs3892097'], variants: { rs3892097: 'T', rs1065852: 'A' }, share: 0.9 }, // 1846G>A + 100C>T
+    { allele: '*4', core: ['rs3892097'], variants: { rs3892097: 'T' }, share: 0.1 },                 // 100C>T not called
+    { allele: '*6', variants: { rs5030655: 'D' } },                                                 // 1707delT
+    { allele: '*9', variants: { rs5030656: 'D' } },                                                 // 2615_2617delAAG
+    { allele: '*10', variants: { rs1065852: 'A' } },                                                // 100C>T
+    { allele: '*17', core: ['rs28371706'], variants: { rs28371706: 'A', rs16947: 'A' } },           // 1023C>T + 2850C>T
+    { allele: '*29', core: ['rs59421388'], variants: { rs59421388: 'T', rs16947: 'A' } },           // 3183G>A + 2850C>T
+    { allele: '*41', core: ['rs28371725'], variants: { rs28371725: 'T', rs16947: 'A' } }            // 2988G>A + 2850C>T
+  ]
+};
 
-  let allele1 = '*1'; // Default to wildtype
-  let allele2 = '*1';
-  let confidence: 'high' | 'medium' | 'low' = 'high';
-  let phaseAmbiguity = false;
-  let possibleDiplotypes: string[] = [];
+/** Reference populations of the ancestry panel (src/data/ancestry-aim-panel.json) */
+const POPULATIONS = ['European', 'Sub-Saharan African', 'East Asian', 'South Asian', 'Indigenous Americas'] as const;
 
-  // Count total variant alleles
-  const totalVariants = rs3892097_A_count + rs28371725_T_count + rs1065852_T_count +
-    rs5030655_A_count + rs28371706_T_count;
+type CYP2D6Population = typeof POPULATIONS[number];
 
-  // CASE 1: No variants detected → *1/*1
-  if (totalVariants === 0) {
-    allele1 = '*1';
-    allele2 = '*1';
-    confidence = 'high';
-  }
+/**
+ * Haplotype frequencies per population (CPIC CYP2D6 frequency table, PharmGKB; rounded).
+ * Alleles the SNP data cannot see (*5, xN, rare alleles) make up the remainder, so the
+ * columns do not sum to 1.
+ */
+const HAPLOTYPE_FREQUENCIES: Record<string, Record<CYP2D6Population, number>> = {
+  '*1': { 'European': 0.35, 'Sub-Saharan African': 0.30, 'East Asian': 0.30, 'South Asian': 0.38, 'Indigenous Americas': 0.45 },
+  '*2': { 'European': 0.27, 'Sub-Saharan African': 0.18, 'East Asian': 0.12, 'South Asian': 0.28, 'Indigenous Americas': 0.24 },
+  '*3': { 'European': 0.014, 'Sub-Saharan African': 0.003, 'East Asian': 0.001, 'South Asian': 0.003, 'Indigenous Americas': 0.005 },
+  '*4': { 'European': 0.18, 'Sub-Saharan African': 0.06, 'East Asian': 0.005, 'South Asian': 0.11, 'Indigenous Americas': 0.11 },
+  '*6': { 'European': 0.01, 'Sub-Saharan African': 0.002, 'East Asian': 0.001, 'South Asian': 0.001, 'Indigenous Americas': 0.005 },
+  '*9': { 'European': 0.025, 'Sub-Saharan African': 0.002, 'East Asian': 0.001, 'South Asian': 0.005, 'Indigenous Americas': 0.01 },
+  '*10': { 'European': 0.016, 'Sub-Saharan African': 0.04, 'East Asian': 0.43, 'South Asian': 0.08, 'Indigenous Americas': 0.03 },
+  '*17': { 'European': 0.004, 'Sub-Saharan African': 0.19, 'East Asian': 0.001, 'South Asian': 0.005, 'Indigenous Americas': 0.01 },
+  '*29': { 'European': 0.001, 'Sub-Saharan African': 0.09, 'East Asian': 0.001, 'South Asian': 0.001, 'Indigenous Americas': 0.005 },
+  '*41': { 'European': 0.09, 'Sub-Saharan African': 0.025, 'East Asian': 0.03, 'South Asian': 0.12, 'Indigenous Americas': 0.04 }
+};
 
-  // CASE 2: Homozygous for a single variant
-  else if (rs3892097_A_count === 2 && totalVariants === 2) {
-    allele1 = '*4';
-    allele2 = '*4';
-    confidence = 'high';
-  }
-  else if (rs28371725_T_count === 2 && totalVariants === 2) {
-    allele1 = '*41';
-    allele2 = '*41';
-    confidence = 'high';
-  }
-  else if (rs1065852_T_count === 2 && totalVariants === 2) {
-    allele1 = '*10';
-    allele2 = '*10';
-    confidence = 'high';
-  }
-  else if (rs5030655_A_count === 2 && totalVariants === 2) {
-    allele1 = '*6';
-    allele2 = '*6';
-    confidence = 'high';
-  }
-  else if (rs28371706_T_count === 2 && totalVariants === 2) {
-    allele1 = '*17';
-    allele2 = '*17';
-    confidence = 'high';
-  }
+/**
+ * Population weights from the ancestry; equal weights when no ancestry is known
+ */
+function populationWeights(ancestry?: AncestryProportions): number[] {
+  const weights = POPULATIONS.map(p => Math.max(0, ancestry?.proportions[p] ?? 0));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return total > 0 ? weights.map(w => w / total) : POPULATIONS.map(() => 1 / POPULATIONS.length);
+}
 
-  // CASE 3: Heterozygous for single variant → variant/*1
-  else if (totalVariants === 1) {
-    if (rs3892097_A_count === 1) {
-      allele1 = '*1';
-      allele2 = '*4';
-    } else if (rs28371725_T_count === 1) {
-      allele1 = '*1';
-      allele2 = '*41';
-    } else if (rs1065852_T_count === 1) {
-      allele1 = '*1';
-      allele2 = '*10';
-    } else if (rs5030655_A_count === 1) {
-      allele1 = '*1';
-      allele2 = '*6';
-    } else if (rs28371706_T_count === 1) {
-      allele1 = '*1';
-      allele2 = '*17';
-    }
-    confidence = 'high';
-  }
+function haplotypeFrequency(haplotype: AlleleDefinition, weights: number[]): number {
+  const frequencies = HAPLOTYPE_FREQUENCIES[haplotype.allele];
+  return POPULATIONS.reduce((sum, p, k) => sum + weights[k] * frequencies[p], 0);
+}
 
-  // CASE 4: Multiple heterozygous variants → PHASE AMBIGUITY
-  // Example: rs3892097 G/A + rs28371725 C/T could be:
-  //   - *1/*4 + *41 on same chromosome → impossible (can't have two alleles on one chromosome)
-  //   - *4 and *41 on different chromosomes → *4/*41 compound heterozygote
-  //   - OR other combinations depending on phasing
-  else if (totalVariants === 2) {
-    phaseAmbiguity = true;
-    confidence = 'medium';
-
-    // Identify which two variants are present
-    const variantList: string[] = [];
-    if (rs3892097_A_count === 1) variantList.push('*4');
-    if (rs28371725_T_count === 1) variantList.push('*41');
-    if (rs1065852_T_count === 1) variantList.push('*10');
-    if (rs5030655_A_count === 1) variantList.push('*6');
-    if (rs28371706_T_count === 1) variantList.push('*17');
-
-    if (variantList.length === 2) {
-      // Most likely: compound heterozygote (variants on different chromosomes)
-      allele1 = variantList[0];
-      allele2 = variantList[1];
-      possibleDiplotypes = [
-        `${variantList[0]}/${variantList[1]}`,
-        `${variantList[0]}/*1`, // Or one could be on *1 background (less likely)
-        `${variantList[1]}/*1`
-      ];
-    }
-  }
+function posteriorConfidence(posterior: number): CYP2D6Diplotype['confidence'] {
+  if (posterior >= 0.9) return 'high';
+  if (posterior >= 0.6) return 'medium';
+  return 'low';
+}
 
-  // CASE 5: Complex genotypes (3+ variants)
-  else {
-    phaseAmbiguity = true;
-    confidence = 'low';
-    allele1 = '*1'; // Default to conservative estimate
-    allele2 = '*1';
-
-    // List all detected variants for clinical review
-    if (rs3892097_A_count > 0) detectedAlleles.push('*4');
-    if (rs28371725_T_count > 0) detectedAlleles.push('*41');
-    if (rs1065852_T_count > 0) detectedAlleles.push('*10');
-    if (rs5030655_A_count > 0) detectedAlleles.push('*6');
-    if (rs28371706_T_count > 0) detectedAlleles.push('*17');
+/**
+ * Determine CYP2D6 diplotype from genotypes - v2 API
+ *
+ * IMPORTANT: This is a SIMPLIFIED implementation for SNP array data
+ * True CYP2D6 diplotyping requires:
+ * - Copy number variant detection (deletions, duplications)
+ * - Long-range phasing (which variants are on the same chromosome) - phased VCF calls are used
+ * - Comprehensive star allele detection (150+ alleles)
+ *
+ * Every diplotype consistent with the genotypes is listed with its posterior probability
+ * given the ancestry (declared or inferred; equal population weights otherwise), and the most
+ * probable one is reported. Each haplotype pair (h1, h2) gets the Hardy-Weinberg prior
+ * f(h1)·f(h2), doubled for h1 ≠ h2; if no pair fits, the pairs with the fewest allele
+ * mismatches are kept (see star-allele-engine.ts). Copy number and hybrid alleles are only applied when supplied as
+ * structural data.
+ */
+export function determineCYP2D6Diplotype(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  structural?: CYP2D6StructuralVariants,
+  ancestry?: AncestryProportions
+): CYP2D6Diplotype {
+  const weights = populationWeights(ancestry);
+  const genotypeSet = buildGenotypeSet(genotypes, HAPLOTYPE_TABLE);
+  const { candidates: pairs, consistent } = callDiplotypes(HAPLOTYPE_TABLE, genotypeSet, {
+    frequency: haplotype => haplotypeFrequency(haplotype, weights),
+    phase: readHaplotypePhase(genotypes, genotypeSet)
+  });
+
+  let confidence = consistent ? posteriorConfidence(pairs[0].posterior) : 'low';
+  let [allele1, allele2] = pairs[0].alleles;
+  let alternatives: string[] = [];
+
+  // Deletions, duplications and hybrids from outside the SNP data
+  let copyNumber: number | undefined;
+  if (structural) {
+    const applied = applyStructuralVariants([allele1, allele2], structural, confidence);
+    [allele1, allele2] = applied.haplotypes;
+    copyNumber = applied.copyNumber;
+    confidence = applied.confidence;
+    alternatives = applied.alternatives;
   }
 
-  // Calculate activity score
-  const activity1 = ALLELE_ACTIVITY[allele1] ?? 1.0;
-  const activity2 = ALLELE_ACTIVITY[allele2] ?? 1.0;
-  const activityScore = activity1 + activity2;
-
-  // Determine phenotype
+  const activityScore = haplotypeActivity(allele1) + haplotypeActivity(allele2);
   const phenotype = activityScoreToPhenotype(activityScore) as CYP2D6Diplotype['phenotype'];
 
+  const candidates = new Map<string, CYP2D6CandidateDiplotype>();
+  for (const pair of pairs) {
+    const haplotypes = structural
+      ? applyStructuralVariants(pair.alleles, structural, confidence).haplotypes
+      : pair.alleles;
+    const diplotype = haplotypes.join('/');
+    const score = haplotypeActivity(haplotypes[0]) + haplotypeActivity(haplotypes[1]);
+
+    const candidate = candidates.get(diplotype) ?? {
+      diplotype,
+      activityScore: score,
+      phenotype: activityScoreToPhenotype(score) as CYP2D6Diplotype['phenotype'],
+      posterior: 0
+    };
+    candidate.posterior += pair.posterior;
+    candidates.set(diplotype, candidate);
+  }
+
+  const ranked = [...candidates.values()].sort((x, y) => y.posterior - x.posterior);
+  const phenotypeDiscordance = ranked
+    .filter(c => c.phenotype !== phenotype)
+    .reduce((sum, c) => sum + c.posterior, 0);
+
   return {
     allele1,
     allele2,
     phenotype,
     activityScore,
     confidence,
-    phaseAmbiguity: phaseAmbiguity || undefined,
-    possibleDiplotypes: possibleDiplotypes.length > 0 ? possibleDiplotypes : undefined
+    phaseAmbiguity: ranked.length > 1 || undefined,
+    possibleDiplotypes: ranked.length > 1
+      ? ranked.map(c => c.diplotype)
+      : alternatives.length > 0 ? alternatives : undefined,
+    candidates: ranked,
+    phenotypeDiscordance,
+    ancestrySource: ancestry?.source ?? 'none',
+    unexplainedCalls: !consistent || undefined,
+    structuralSource: structural?.source ?? 'none',
+    copyNumber
+  };
+}
+
+// GRCh37 / GRCh38 gene coordinates (chr22, minus strand)
+const CYP2D6_LOCUS: Record<Exclude<ReferenceBuild, 'unknown'>, { start: number; end: number }> = {
+  GRCh37: { start: 42522501, end: 42526908 },
+  GRCh38: { start: 42126499, end: 42130906 }
+};
+
+/**
+ * Structural data from a VCF copy-number record overlapping CYP2D6
+ *
+ * @param records - Copy-number records from parseVCF / importVCF
+ * @param build - Reference build of the VCF (unknown is read as GRCh37)
+ * @returns Structural input for determineCYP2D6Diplotype, or null if no record covers CYP2D6
+ */
+export function getCYP2D6StructuralFromVCF(
+  records: CopyNumberRecord[],
+  build: ReferenceBuild
+): CYP2D6StructuralVariants | null {
+  const locus = CYP2D6_LOCUS[build === 'GRCh38' ? 'GRCh38' : 'GRCh37'];
+  const record = records.find(r =>
+    r.chromosome === '22' && r.start <= locus.end && r.end >= locus.start
+  );
+  if (!record) return null;
+
+  return {
+    source: 'vcf',
+    copyNumber: record.copyNumber,
+    reference: record.id ?? `chr22:${record.start}-${record.end}`
   };
 }
 
@@ -561,12 +749,20 @@ function generateClinicalSummary(diplotype: CYP2D6Diplotype): string {
   const { allele1, allele2, phenotype, activityScore, confidence, phaseAmbiguity } = diplotype;
 
   let summary = `CYP2D6 Diplotype: ${allele1}/${allele2}\n`;
-  summary += `Phenotype: ${phenotype}\n`;
+  summary += `Phenotype: ${phenotype} (${formatProbability(diplotype.phenotypeDiscordance)} probability the true phenotype class differs)\n`;
   summary += `Activity Score: ${activityScore.toFixed(2)}\n`;
-  summary += `Confidence: ${confidence.toUpperCase()}\n\n`;
+  summary += `Confidence: ${confidence.toUpperCase()}\n`;
+  if (diplotype.structuralSource !== 'none') {
+    summary += `Copy Number: ${diplotype.copyNumber} (${STRUCTURAL_SOURCE_LABELS[diplotype.structuralSource]})\n`;
+  }
+  summary += `\n`;
 
   if (phaseAmbiguity) {
-    summary += `⚠️ PHASE AMBIGUITY: Multiple variants detected. True diplotype may differ without long-range phasing data.\n\n`;
+    summary += `⚠️ PHASE AMBIGUITY: More than one diplotype fits these genotypes. Ranked by haplotype frequency (${ANCESTRY_SOURCE_LABELS[diplotype.ancestrySource]}):\n`;
+    for (const candidate of diplotype.candidates) {
+      summary += `• ${candidate.diplotype}: ${formatProbability(candidate.posterior)} (${candidate.phenotype}, activity ${candidate.activityScore.toFixed(2)})\n`;
+    }
+    summary += `\n`;
   }
 
   summary += `CLINICAL INTERPRETATION:\n`;
@@ -604,44 +800,91 @@ function generateClinicalSummary(diplotype: CYP2D6Diplotype): string {
   return summary;
 }
 
+const STRUCTURAL_SOURCE_LABELS: Record<CYP2D6StructuralSource, string> = {
+  clinical_report: 'clinical report',
+  cnv_file: 'lab CNV file',
+  vcf: 'VCF copy-number record'
+};
+
+const ANCESTRY_SOURCE_LABELS: Record<CYP2D6Diplotype['ancestrySource'], string> = {
+  declared: 'declared ancestry',
+  inferred: 'ancestry inferred from the genotypes',
+  none: 'ancestry unknown - populations weighted equally'
+};
+
+function formatProbability(p: number): string {
+  return `${(p * 100).toFixed(1)}%`;
+}
+
 /**
  * Main CYP2D6 analysis function
+ *
+ * @param genotypes - SNP genotypes
+ * @param provider - Raw data provider
+ * @param structural - Optional copy number / hybrid data (clinical report, CNV file, VCF <CNV>)
+ * @param ancestry - Declared or inferred ancestry for the haplotype frequency prior
+ * @param medications - Current medications (CYP2D6 inhibitors give the effective phenotype)
  */
 export function analyzeCYP2D6(
   genotypes: Array<{ rsid: string; genotype: string }>,
-  _provider: GeneticProvider = '23andme'
+  provider: GeneticProvider = '23andme',
+  structural?: CYP2D6StructuralVariants,
+  ancestry?: AncestryProportions,
+  medications: string[] = []
 ): CYP2D6AnalysisResult {
 
   // Determine diplotype
-  const diplotype = determineCYP2D6Diplotype(genotypes);
+  const diplotype = determineCYP2D6Diplotype(genotypes, structural, ancestry);
+
+  // Drug-drug-gene interactions: recommendations follow the effective phenotype
+  const phenoconversion = calculatePhenoconversion('CYP2D6', diplotype.phenotype, medications, {
+    score: diplotype.activityScore,
+    toPhenotype: activityScoreToPhenotype
+  });
+  const effective = withEffectivePhenotype(diplotype, phenoconversion);
 
   // Generate drug recommendations
-  const drugs = generateDrugRecommendations(diplotype);
+  const drugs = generateDrugRecommendations(effective);
 
   // Generate clinical summary
-  const clinicalSummary = generateClinicalSummary(diplotype);
+  const clinicalSummary = generateClinicalSummary(diplotype) + formatPhenoconversionSummary(phenoconversion);
 
   // Safety alerts
-  const safetyAlerts: string[] = [];
-  if (diplotype.phenotype === 'Poor Metabolizer') {
+  const safetyAlerts: string[] = generatePhenoconversionAlerts(phenoconversion);
+  if (effective.phenotype === 'Poor Metabolizer') {
     safetyAlerts.push('🚨 AVOID: Codeine, Tramadol (no analgesic effect)');
     safetyAlerts.push('⚠️ REDUCE DOSE: Tricyclic antidepressants (50-75% reduction)');
     safetyAlerts.push('⚠️ AMPHETAMINES: May experience higher drug levels and more side effects');
     safetyAlerts.push('🚨 TAMOXIFEN: Reduced efficacy - consider aromatase inhibitor');
-  } else if (diplotype.phenotype === 'Ultrarapid Metabolizer') {
+  } else if (effective.phenotype === 'Ultrarapid Metabolizer') {
     safetyAlerts.push('🚨 NEVER USE CODEINE - Fatal overdose risk (FDA BLACK BOX)');
     safetyAlerts.push('🚨 AVOID TRAMADOL - Toxicity risk');
     safetyAlerts.push('⚡ AMPHETAMINES: May need higher doses for efficacy');
   }
 
   // Limitations
-  const limitations: string[] = [
-    'SNP array data cannot detect gene deletions (CYP2D6*5) or duplications (*1xN, *2xN)',
-    'True CYP2D6 phenotyping requires copy number variant analysis',
-    'Phase ambiguity possible with multiple heterozygous variants',
+  const limitations: string[] = structural
+    ? [
+        `Copy number (${diplotype.copyNumber}) and hybrid alleles taken from the ${STRUCTURAL_SOURCE_LABELS[structural.source]}` +
+          (structural.reference ? ` (${structural.reference})` : '') +
+          ' - which allele is duplicated or deleted is inferred unless the source states it'
+      ]
+    : [
+        'SNP array data cannot detect gene deletions (CYP2D6*5) or duplications (*1xN, *2xN)',
+        'True CYP2D6 phenotyping requires copy number variant analysis'
+      ];
+  limitations.push(
+    `Unless the VCF supplies phased genotypes, phase is inferred from population haplotype frequencies (${ANCESTRY_SOURCE_LABELS[diplotype.ancestrySource]})`,
+    'Alleles whose defining position was not genotyped are not considered',
     'This analysis covers major star alleles but not all 150+ known variants',
-    'Clinical decisions should incorporate full medication history and patient factors'
-  ];
+    'Clinical decisions should incorporate full medication history and patient factors',
+    ...getProviderCoverageLimitations(provider, 'CYP2D6', genotypes, getTablePositions(HAPLOTYPE_TABLE), {
+      structuralVariants: !structural
+    })
+  );
+  if (diplotype.unexplainedCalls) {
+    limitations.push('No combination of the modeled star alleles explains every genotype call - the closest diplotypes are reported');
+  }
 
   // Guidelines
   const guidelines = [
@@ -658,12 +901,14 @@ export function analyzeCYP2D6(
     'PMID: 27997040 - CPIC CYP2D6-SSRI Guideline',
     'PMID: 28002639 - CPIC CYP2D6-TCA Guideline',
     'PMID: 23486447 - CYP2D6 Star Allele Nomenclature',
-    'PharmVar Database: www.pharmvar.org'
+    'PharmVar Database: www.pharmvar.org',
+    ...getKBReferences('CYP2D6', [diplotype.allele1, diplotype.allele2].flatMap(h => h.split('+').map(g => g.split('x')[0])))
   ];
 
   return {
     gene: 'CYP2D6',
     diplotype,
+    phenoconversion,
     clinicalSummary,
     drugs,
     safetyAlerts,
@@ -0,0 +1,454 @@
+/**
+ * CYP3A4 Pharmacogenomics Analyzer v2
+ *
+ * CYP3A4 encodes cytochrome P450 3A4, the most abundant hepatic and intestinal P450. With
+ * CYP3A5 it forms the CYP3A cluster that metabolizes roughly half of all prescribed drugs.
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - CYP3A4 activity varies >10-fold between people, mostly from inhibitors, inducers and diet
+ *   rather than genotype
+ * - CYP3A4*22 is the only common variant with a consistent effect: ~5-7% allele frequency in
+ *   Europeans, <1% in Africans and East Asians
+ * - In CYP3A5 non-expressors (most Europeans) CYP3A4 carries all CYP3A metabolism, so *22
+ *   has its largest effect there
+ *
+ * KEY SUBSTRATES:
+ * 🔥 TACROLIMUS: CYP3A5 genotype sets the CPIC starting dose; CYP3A4*22 carriers reach ~30%
+ *    higher dose-adjusted troughs
+ * 🔥 STATINS (simvastatin, atorvastatin, lovastatin): *22 carriers need lower doses for the
+ *    same lipid response
+ * 🔥 ALPRAZOLAM: CYP3A4/CYP3A5 substrate, no guideline (informational only)
+ *
+ * CRITICAL VARIANTS (GRCh37 forward strand - CYP3A4 is on the reverse strand):
+ * - CYP3A4*22 (rs35599367, c.522-191C>T, forward G>A): Decreased function - intron 6 variant
+ *   that lowers hepatic mRNA and protein expression
+ * - CYP3A4*20 (rs67666821, c.1461_1462insA, forward insT): No function - frameshift, rare
+ *   (up to ~4% in parts of Spain)
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ There is no CPIC activity score for CYP3A4; phenotypes follow the *22/*20 function and
+ *    the AMP/CPIC genotyping recommendations
+ * ⚠️ The combined CYP3A4/CYP3A5 cluster (Elens et al. 2013) groups patients into extensive,
+ *    intermediate and poor CYP3A metabolizers; it needs the CYP3A5 diplotype
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - *20 is an insertion and is missing from many arrays
+ * - Other rare loss-of-function alleles (*6, *17, *26) are not interpreted
+ *
+ * CPIC GUIDELINES:
+ * - None for CYP3A4 alone; CPIC tacrolimus (CYP3A5) notes CYP3A4*22 as a modifier
+ *
+ * REFERENCES:
+ * - CPIC Guideline CYP3A5 and Tacrolimus: PMID 25801146
+ * - Wang et al. Pharmacogenomics J 2011 (CYP3A4*22 discovery): PMID 20386561
+ * - AMP/CPIC CYP3A4/CYP3A5 Genotyping Recommendations 2023: PMID 37632460
+ * - PharmVar Database: www.pharmvar.org/gene/CYP3A4
+ */
+
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { auditAlleleDefinitions, getKBReferences, resolveAlleleActivity } from '../core/pgx-knowledge-base';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  lowestActivityCandidate,
+  readHaplotypePhase,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
+import {
+  calculatePhenoconversion,
+  formatPhenoconversionSummary,
+  generatePhenoconversionAlerts,
+  withEffectivePhenotype,
+  type Phenoconversion
+} from '../core/phenoconversion';
+
+export type CYP3A4Phenotype =
+  | 'Normal Metabolizer'
+  | 'Intermediate Metabolizer'
+  | 'Poor Metabolizer'
+  | 'Unknown';
+
+export interface CYP3A4Diplotype {
+  allele1: string;
+  allele2: string;
+  phenotype: CYP3A4Phenotype;
+  activityScore: number | null;
+  confidence: 'high' | 'medium' | 'low';
+  untestedAlleles?: string[]; // Alleles whose positions were not genotyped
+}
+
+/**
+ * Combined CYP3A4/CYP3A5 cluster phenotype (Elens et al. 2013)
+ */
+export interface CombinedCYP3AMetabolism {
+  cyp3a4Diplotype: string;
+  cyp3a5Diplotype: string | null;
+  clusterPhenotype:
+    | 'Extensive Metabolizer'     // CYP3A5 expressor, CYP3A4 normal
+    | 'Intermediate Metabolizer'  // CYP3A5 non-expressor with CYP3A4 normal, or expressor with CYP3A4 reduced
+    | 'Poor Metabolizer'          // CYP3A5 non-expressor with CYP3A4 reduced
+    | 'Unknown';
+  clinicalConsiderations: string[];
+}
+
+export interface CYP3A4DrugRecommendation {
+  drug: string;
+  category: string;
+  recommendation: string;
+  doseAdjustment?: string;
+  riskLevel: 'warning' | 'caution' | 'normal' | 'informational';
+  alternativeDrugs?: string[];
+  monitoring?: string;
+  cpicGuideline: boolean;
+}
+
+export interface CYP3A4AnalysisResult {
+  gene: 'CYP3A4';
+  diplotype: CYP3A4Diplotype;                // Genetic call
+  phenoconversion: Phenoconversion;          // Effective phenotype with the current medications
+  cyp3aMetabolism: CombinedCYP3AMetabolism;  // From the effective CYP3A4 phenotype
+  drugs: CYP3A4DrugRecommendation[];
+  clinicalSummary: string;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    notes: string[];
+  };
+  references: string[]; // KB evidence for the called alleles
+}
+
+auditAlleleDefinitions('CYP3A4', [
+  { rsid: 'rs35599367', allele: '*22' },
+  { rsid: 'rs67666821', allele: '*20' }
+]);
+
+/**
+ * Allele activity values (no function 0, decreased 0.5, normal 1)
+ * Values defined in kb-pgx-ultimate.json take precedence (see resolveAlleleActivity)
+ */
+const ALLELE_ACTIVITY: Record<string, number> = resolveAlleleActivity('CYP3A4', {
+  '*1': 1.0,
+  '*20': 0,
+  '*22': 0.5
+});
+
+/**
+ * CYP3A4 allele definitions (GRCh37 forward strand), most severe first
+ */
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'CYP3A4',
+  alleles: [
+    { allele: '*1', variants: {}, function: 'Normal', activityScore: ALLELE_ACTIVITY['*1'] },
+    { allele: '*20', variants: { rs67666821: 'I' }, function: 'No function', activityScore: ALLELE_ACTIVITY['*20'] }, // c.1461_1462insA
+    { allele: '*22', variants: { rs35599367: 'A' }, function: 'Decreased', activityScore: ALLELE_ACTIVITY['*22'] }    // c.522-191C>T
+  ]
+};
+
+/**
+ * Determine CYP3A4 diplotype from genotypes - v2 API
+ *
+ * rs35599367 (*22) is required: it is the only common functional CYP3A4 variant. A missing
+ * *20 position lowers confidence to medium.
+ */
+export function determineCYP3A4Diplotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): CYP3A4Diplotype {
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
+
+  if (!call.testedPositions.includes('rs35599367')) {
+    return {
+      allele1: 'Unknown',
+      allele2: 'Unknown',
+      phenotype: 'Unknown',
+      activityScore: null,
+      confidence: 'low'
+    };
+  }
+
+  const candidate = lowestActivityCandidate(call);
+  const activityScore = candidate.activityScore ?? null;
+
+  const phenotype: CYP3A4Phenotype =
+    activityScore === null ? 'Unknown'
+      : activityScore >= 2 ? 'Normal Metabolizer'
+        : activityScore >= 1 ? 'Intermediate Metabolizer'
+          : 'Poor Metabolizer';
+
+  return {
+    allele1: candidate.alleles[0],
+    allele2: candidate.alleles[1],
+    phenotype,
+    activityScore,
+    confidence: call.missingPositions.length === 0 && call.consistent ? 'high' : 'medium',
+    untestedAlleles: call.unresolvedAlleles.length > 0 ? call.unresolvedAlleles : undefined
+  };
+}
+
+/**
+ * Combine CYP3A4 with the CYP3A5 expression phenotype into the CYP3A cluster phenotype
+ *
+ * @param cyp3a4 - CYP3A4 diplotype
+ * @param cyp3a5Diplotype - Optional CYP3A5 diplotype (phenotype: Expressor / Intermediate Expressor / Non-expressor)
+ */
+export function calculateCYP3AMetabolism(
+  cyp3a4: CYP3A4Diplotype,
+  cyp3a5Diplotype?: { allele1: string; allele2: string; phenotype: string }
+): CombinedCYP3AMetabolism {
+  const considerations: string[] = [];
+  const cyp3a5 = cyp3a5Diplotype?.phenotype;
+  const cyp3a4Reduced = cyp3a4.phenotype === 'Intermediate Metabolizer' || cyp3a4.phenotype === 'Poor Metabolizer';
+  const cyp3a5Expressor = cyp3a5 === 'Expressor' || cyp3a5 === 'Intermediate Expressor';
+
+  let clusterPhenotype: CombinedCYP3AMetabolism['clusterPhenotype'];
+
+  if (!cyp3a5 || cyp3a5 === 'Unknown' || cyp3a4.phenotype === 'Unknown') {
+    clusterPhenotype = 'Unknown';
+    considerations.push(
+      cyp3a5Diplotype
+        ? '💡 CYP3A cluster phenotype needs both CYP3A4*22 and CYP3A5*3 genotypes'
+        : '💡 CYP3A5 not tested - the CYP3A cluster phenotype needs the CYP3A5 diplotype'
+    );
+  } else if (cyp3a5Expressor) {
+    clusterPhenotype = cyp3a4Reduced ? 'Intermediate Metabolizer' : 'Extensive Metabolizer';
+    considerations.push(cyp3a4Reduced
+      ? '⚠️ CYP3A5 is expressed, partly offsetting reduced CYP3A4 activity'
+      : '🔍 Functional CYP3A5 and normal CYP3A4 - highest CYP3A capacity (faster clearance of tacrolimus and other CYP3A substrates)'
+    );
+  } else {
+    clusterPhenotype = cyp3a4Reduced ? 'Poor Metabolizer' : 'Intermediate Metabolizer';
+    considerations.push(cyp3a4Reduced
+      ? '⚠️ No CYP3A5 expression and reduced CYP3A4 - lowest CYP3A capacity, higher exposure to CYP3A substrates'
+      : '✅ CYP3A5 non-expressor with normal CYP3A4 - the most common CYP3A phenotype in Europeans'
+    );
+  }
+
+  return {
+    cyp3a4Diplotype: `${cyp3a4.allele1}/${cyp3a4.allele2}`,
+    cyp3a5Diplotype: cyp3a5Diplotype ? `${cyp3a5Diplotype.allele1}/${cyp3a5Diplotype.allele2}` : null,
+    clusterPhenotype,
+    clinicalConsiderations: considerations
+  };
+}
+
+/**
+ * Tacrolimus: CPIC dosing follows CYP3A5; the cluster phenotype refines it
+ */
+function generateTacrolimusRecommendation(
+  diplotype: CYP3A4Diplotype,
+  metabolism: CombinedCYP3AMetabolism
+): CYP3A4DrugRecommendation {
+  const base = {
+    drug: 'Tacrolimus (Prograf)',
+    category: 'Immunosuppressants',
+    cpicGuideline: true
+  };
+
+  switch (metabolism.clusterPhenotype) {
+    case 'Extensive Metabolizer':
+      return {
+        ...base,
+        recommendation: '⚠️ EXTENSIVE CYP3A METABOLIZER: Fastest tacrolimus clearance',
+        doseAdjustment: 'CPIC (CYP3A5 expressor): 1.5-2x standard starting dose, not above 0.3 mg/kg/day',
+        riskLevel: 'warning',
+        monitoring: 'Trough levels from day 3; titrate to target'
+      };
+    case 'Intermediate Metabolizer':
+      return {
+        ...base,
+        recommendation: 'INTERMEDIATE CYP3A METABOLIZER: Follow CPIC CYP3A5-based starting dose',
+        doseAdjustment: diplotype.phenotype === 'Normal Metabolizer'
+          ? 'Standard starting dose (CYP3A5 non-expressor, normal CYP3A4)'
+          : 'CPIC (CYP3A5 expressor) increased starting dose; reduced CYP3A4 may blunt the increase',
+        riskLevel: 'caution',
+        monitoring: 'Therapeutic drug monitoring per protocol'
+      };
+    case 'Poor Metabolizer':
+      return {
+        ...base,
+        recommendation: '⚠️ POOR CYP3A METABOLIZER: CYP3A4 reduced and no CYP3A5 - higher tacrolimus exposure',
+        doseAdjustment: 'Standard starting dose per CPIC; expect ~30% higher dose-adjusted troughs than other non-expressors - early dose reduction is often needed',
+        riskLevel: 'warning',
+        monitoring: 'Early trough levels (supratherapeutic concentrations, nephrotoxicity)'
+      };
+    default:
+      return {
+        ...base,
+        recommendation: diplotype.phenotype === 'Normal Metabolizer' || diplotype.phenotype === 'Unknown'
+          ? 'Tacrolimus starting dose is set by CYP3A5 genotype (CPIC)'
+          : `CYP3A4 ${diplotype.phenotype}: higher tacrolimus exposure likely; starting dose is set by CYP3A5 genotype (CPIC)`,
+        riskLevel: 'informational',
+        monitoring: 'Therapeutic drug monitoring per protocol'
+      };
+  }
+}
+
+/**
+ * Statins metabolized by CYP3A4 (simvastatin, atorvastatin, lovastatin)
+ */
+function generateStatinRecommendation(
+  diplotype: CYP3A4Diplotype,
+  metabolism: CombinedCYP3AMetabolism
+): CYP3A4DrugRecommendation {
+  const reduced = diplotype.phenotype === 'Intermediate Metabolizer' || diplotype.phenotype === 'Poor Metabolizer';
+
+  if (!reduced) {
+    return {
+      drug: 'Simvastatin / Atorvastatin / Lovastatin',
+      category: 'Statins',
+      recommendation: '✓ Normal CYP3A4 statin metabolism',
+      doseAdjustment: 'Standard dosing (myopathy risk from SLCO1B1 still applies)',
+      riskLevel: 'normal',
+      cpicGuideline: false
+    };
+  }
+
+  return {
+    drug: 'Simvastatin / Atorvastatin / Lovastatin',
+    category: 'Statins',
+    recommendation: metabolism.clusterPhenotype === 'Poor Metabolizer'
+      ? '⚠️ POOR CYP3A METABOLIZER: Higher statin exposure - lower doses reach lipid targets, myopathy risk adds to SLCO1B1'
+      : `⚠️ CYP3A4 ${diplotype.allele1}/${diplotype.allele2}: Reduced statin clearance - lower doses reach lipid targets`,
+    doseAdjustment: 'Start at a lower dose and titrate to LDL response; avoid the highest simvastatin doses',
+    riskLevel: 'caution',
+    alternativeDrugs: ['Rosuvastatin', 'Pravastatin', 'Pitavastatin'], // Not CYP3A4-dependent
+    monitoring: 'Muscle symptoms and CK if symptomatic',
+    cpicGuideline: false
+  };
+}
+
+/**
+ * Alprazolam (no guideline - informational only)
+ */
+function generateAlprazolamRecommendation(metabolism: CombinedCYP3AMetabolism): CYP3A4DrugRecommendation {
+  const base = {
+    drug: 'Alprazolam (Xanax)',
+    category: 'Benzodiazepines',
+    riskLevel: 'informational' as const,
+    cpicGuideline: false
+  };
+
+  switch (metabolism.clusterPhenotype) {
+    case 'Extensive Metabolizer':
+      return {
+        ...base,
+        recommendation: 'ℹ️ EXTENSIVE CYP3A METABOLIZER: Possibly faster alprazolam clearance and shorter effect',
+        doseAdjustment: 'No formal guideline. Standard dosing; monitor response.'
+      };
+    case 'Poor Metabolizer':
+      return {
+        ...base,
+        recommendation: 'ℹ️ POOR CYP3A METABOLIZER: Possibly higher alprazolam levels and more sedation',
+        doseAdjustment: 'No formal guideline. Consider the lower end of the dose range.'
+      };
+    default:
+      return {
+        ...base,
+        recommendation: 'ℹ️ Alprazolam metabolism via CYP3A4/CYP3A5 - no actionable genotype effect',
+        doseAdjustment: 'Standard dosing'
+      };
+  }
+}
+
+/**
+ * Generate safety alerts
+ */
+function generateSafetyAlerts(metabolism: CombinedCYP3AMetabolism): string[] {
+  if (metabolism.clusterPhenotype === 'Poor Metabolizer') {
+    return [`⚠️ TACROLIMUS/STATINS: CYP3A4 ${metabolism.cyp3a4Diplotype} with CYP3A5 ${metabolism.cyp3a5Diplotype} - poor CYP3A metabolizer, higher exposure to CYP3A substrates`];
+  }
+  return [];
+}
+
+/**
+ * Get provider-specific limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  diplotype: CYP3A4Diplotype
+): string[] {
+  const limitations = [
+    'Only *22 and *20 are interpreted - rare CYP3A4 loss-of-function alleles are not detected',
+    'CYP3A4 activity depends far more on inhibitors (clarithromycin, azoles, grapefruit) and inducers (rifampin, carbamazepine, St John\'s wort) than on genotype',
+    'No CPIC guideline for CYP3A4 alone - statin and alprazolam guidance is informational',
+    ...getProviderCoverageLimitations(provider, 'CYP3A4', genotypes, getTablePositions(ALLELE_TABLE))
+  ];
+
+  if (diplotype.untestedAlleles) {
+    limitations.push(`Not genotyped: CYP3A4 ${diplotype.untestedAlleles.join(', ')} - call may be incomplete`);
+  }
+
+  return limitations;
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(diplotype: CYP3A4Diplotype, metabolism: CombinedCYP3AMetabolism): string {
+  const { allele1, allele2, phenotype, confidence } = diplotype;
+
+  let summary = `CYP3A4 Diplotype: ${allele1}/${allele2}\n`;
+  summary += `Phenotype: ${phenotype}\n`;
+  if (metabolism.cyp3a5Diplotype) {
+    summary += `CYP3A5 Diplotype: ${metabolism.cyp3a5Diplotype}\n`;
+  }
+  summary += `Combined CYP3A Phenotype: ${metabolism.clusterPhenotype}\n`;
+  summary += `Confidence: ${confidence.toUpperCase()}\n\n`;
+
+  summary += metabolism.clinicalConsiderations.join('\n') + '\n';
+
+  return summary;
+}
+
+/**
+ * Main CYP3A4 analysis function - v2 API
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @param cyp3a5Diplotype - Optional CYP3A5 diplotype for the combined CYP3A phenotype
+ * @param medications - Current medications (CYP3A inhibitors and inducers give the effective phenotype)
+ * @returns Comprehensive CYP3A4 analysis results
+ */
+export function analyzeCYP3A4(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme',
+  cyp3a5Diplotype?: { allele1: string; allele2: string; phenotype: string },
+  medications: string[] = []
+): CYP3A4AnalysisResult {
+  const diplotype = determineCYP3A4Diplotype(genotypes);
+  const phenoconversion = calculatePhenoconversion('CYP3A4', diplotype.phenotype, medications);
+  const effective = withEffectivePhenotype(diplotype, phenoconversion);
+  const cyp3aMetabolism = calculateCYP3AMetabolism(effective, cyp3a5Diplotype);
+
+  return {
+    gene: 'CYP3A4',
+    diplotype,
+    phenoconversion,
+    cyp3aMetabolism,
+    drugs: [
+      generateTacrolimusRecommendation(effective, cyp3aMetabolism),
+      generateStatinRecommendation(effective, cyp3aMetabolism),
+      generateAlprazolamRecommendation(cyp3aMetabolism)
+    ],
+    clinicalSummary: generateClinicalSummary(diplotype, calculateCYP3AMetabolism(diplotype, cyp3a5Diplotype)) +
+      formatPhenoconversionSummary(phenoconversion),
+    safetyAlerts: [...generatePhenoconversionAlerts(phenoconversion), ...generateSafetyAlerts(cyp3aMetabolism)],
+    confidence: diplotype.confidence,
+    limitations: getLimitations(provider, genotypes, diplotype),
+    guidelines: {
+      cpic: 'CPIC Guideline for CYP3A5 and Tacrolimus (PMID: 25801146) - CYP3A4*22 noted as a modifier',
+      notes: [
+        'AMP/CPIC clinical genotyping recommendations include CYP3A4*22 (PMID: 37632460)',
+        'CYP3A cluster phenotype after Elens et al. 2013 (CYP3A4*22 with CYP3A5*3)'
+      ]
+    },
+    references: getKBReferences('CYP3A4', [diplotype.allele1, diplotype.allele2])
+  };
+}
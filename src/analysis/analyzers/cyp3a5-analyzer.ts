@@ -41,17 +41,20 @@
  *   • Frequency: 60-90% in most populations
  *   • *3/*3 homozygotes: NO CYP3A5 enzyme (rely 100% on CYP3A4)
  *
- * - CYP3A5*6 (rs10264272): African-specific, no function
- * - CYP3A5*7 (rs41303343): African-specific, no function
+ * - CYP3A5*6 (rs10264272, c.624G>A, forward C>T): exon 7 skipping, no function (~10-15% in Africans)
+ * - CYP3A5*7 (rs41303343, c.1035_1036insT, forward insA): frameshift, no function (~8-10% in Africans)
+ *   • *6 and *7 are absent from most non-African populations, but without them a *1/*6 or
+ *     *1/*7 carrier is read as *1/*1 and a *3/*6 non-expressor as an intermediate expressor
  *
  * COMPLEXITY NOTES:
  * ⚠️ Unlike CYP2D6, CYP3A5 uses EXPRESSION phenotypes, not metabolizer phenotypes:
  * - "Expressor" = *1/*1 (normal CYP3A5 expression)
- * - "Intermediate Expressor" = *1/*3 (reduced CYP3A5 expression)
- * - "Non-expressor" = *3/*3 (NO CYP3A5 expression)
+ * - "Intermediate Expressor" = *1 with one of *3, *6 or *7 (reduced CYP3A5 expression)
+ * - "Non-expressor" = any two of *3, *6 and *7 (NO CYP3A5 expression)
  *
  * ⚠️ NO activity score system (unlike CYP2D6, CYP2C9)
- * ⚠️ CYP3A4 genetic variation also matters but is harder to assess from SNP arrays
+ * ⚠️ CYP3A4*22 also changes CYP3A capacity - the combined CYP3A4/CYP3A5 phenotype is
+ *    reported by the CYP3A4 analyzer
  *
  * CLINICAL IMPACT:
  * - Tacrolimus: CPIC guideline recommends 1.5-2x higher doses for CYP3A5 expressors
@@ -69,7 +72,19 @@
  * - PharmGKB CYP3A5 Summary: PMID 23876845
  */
 
-export type GeneticProvider = 'unknown' | '23andme' | 'ancestrydna';
+import {
+  getProviderCoverageLimitations,
+  PROVIDER_PROFILES,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { auditAlleleDefinitions } from '../core/pgx-knowledge-base';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  readHaplotypePhase,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
 
 /**
  * CYP3A5 star alleles
@@ -82,8 +97,8 @@ export type CYP3A5Allele = '*1' | '*3' | '*6' | '*7' | 'Unknown';
  */
 export type CYP3A5Phenotype =
   | 'Expressor'           // *1/*1 - normal CYP3A5 expression
-  | 'Intermediate Expressor'  // *1/*3 - reduced CYP3A5 expression
-  | 'Non-expressor'       // *3/*3 - NO CYP3A5 expression
+  | 'Intermediate Expressor'  // *1/*3, *1/*6, *1/*7 - reduced CYP3A5 expression
+  | 'Non-expressor'       // *3/*3, *3/*6, *6/*7 ... - NO CYP3A5 expression
   | 'Unknown';
 
 /**
@@ -119,6 +134,7 @@ export interface CYP3A5Diplotype {
   allele2: CYP3A5Allele;
   phenotype: CYP3A5Phenotype;
   confidence?: ConfidenceLevel;
+  untestedAlleles?: string[]; // No-function alleles whose positions were not genotyped
 }
 
 /**
@@ -137,26 +153,25 @@ export interface CYP3A5AnalysisResult {
   };
 }
 
+auditAlleleDefinitions('CYP3A5', [
+  { rsid: 'rs776746', allele: '*3' },
+  { rsid: 'rs10264272', allele: '*6' },
+  { rsid: 'rs41303343', allele: '*7' }
+]);
+
 /**
- * Normalize genotype to canonical form
+ * CYP3A5 allele definitions (GRCh37 forward strand)
+ * CYP3A5 is on the minus strand: forward T = *1 (6986A), C = *3 (6986G)
  */
-function normalizeGenotype(genotype: string | null): string | null {
-  if (!genotype) return null;
-
-  // Remove whitespace and convert to uppercase
-  let normalized = genotype.trim().toUpperCase();
-
-  // Remove separators
-  normalized = normalized.replace(/[\s\-\/]/g, '');
-
-  // Sort alleles alphabetically for consistency
-  if (normalized.length === 2) {
-    const sorted = normalized.split('').sort().join('');
-    return sorted;
-  }
-
-  return normalized;
-}
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'CYP3A5',
+  alleles: [
+    { allele: '*1', variants: {}, function: 'Normal' },
+    { allele: '*3', variants: { rs776746: 'C' }, function: 'No function' },   // g.6986A>G, splicing defect
+    { allele: '*6', variants: { rs10264272: 'T' }, function: 'No function' }, // c.624G>A, exon 7 skipping
+    { allele: '*7', variants: { rs41303343: 'I' }, function: 'No function' }  // c.1035_1036insT, frameshift
+  ]
+};
 
 /**
  * Determine diplotype from genotypes
@@ -164,43 +179,9 @@ function normalizeGenotype(genotype: string | null): string | null {
 function determineDiplotype(
   genotypes: Array<{ rsid: string; genotype: string }>
 ): CYP3A5Diplotype {
-
-  // Extract CYP3A5*3 SNP (most important variant)
-  const rs776746 = genotypes.find(g => g.rsid === 'rs776746')?.genotype || null;
-
-  // Extract African-specific variants (if present)
-  // NOTE: rs10264272 (CYP3A5*6) and rs41303343 (CYP3A5*7) are rare African-specific variants
-  // Currently not analyzed - would require more complex haplotyping
-  // const rs10264272 = genotypes.find(g => g.rsid === 'rs10264272')?.genotype || null;
-  // const rs41303343 = genotypes.find(g => g.rsid === 'rs41303343')?.genotype || null;
-
-  // Initialize default state
-  let allele1: CYP3A5Allele = '*1';
-  let allele2: CYP3A5Allele = '*1';
-
-  // Check CYP3A5*3 (rs776746, g.6986A>G)
-  // A = reference (*1), G = variant (*3)
-  if (rs776746) {
-    const norm = normalizeGenotype(rs776746);
-    if (norm === 'AA') {
-      // *1/*1 - homozygous reference (expressor)
-      allele1 = '*1';
-      allele2 = '*1';
-    } else if (norm === 'AG') {
-      // *1/*3 - heterozygous (intermediate expressor)
-      allele1 = '*1';
-      allele2 = '*3';
-    } else if (norm === 'GG') {
-      // *3/*3 - homozygous variant (non-expressor)
-      allele1 = '*3';
-      allele2 = '*3';
-    }
-  }
-
-  // Check African-specific variants (if present)
-  // These are rare but important for complete analysis
-  // For simplicity, we'll note their presence but not change diplotype
-  // (proper haplotyping would require more complex analysis)
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
+  const [allele1, allele2] = call.candidates[0].alleles as [CYP3A5Allele, CYP3A5Allele];
 
   // Determine phenotype
   const phenotype = diplotypeToPhenotype(allele1, allele2);
@@ -209,7 +190,8 @@ function determineDiplotype(
     allele1,
     allele2,
     phenotype,
-    confidence: determineConfidenceLevel(allele1, allele2, genotypes)
+    confidence: determineConfidenceLevel(allele1, allele2, genotypes),
+    untestedAlleles: call.unresolvedAlleles.length > 0 ? call.unresolvedAlleles : undefined
   };
 }
 
@@ -217,27 +199,16 @@ function determineDiplotype(
  * Map diplotype to phenotype
  */
 function diplotypeToPhenotype(allele1: CYP3A5Allele, allele2: CYP3A5Allele): CYP3A5Phenotype {
-  // *1/*1 = Expressor (normal CYP3A5 expression)
-  if (allele1 === '*1' && allele2 === '*1') {
-    return 'Expressor';
-  }
-
-  // *1/*3 = Intermediate Expressor (reduced CYP3A5 expression)
-  if ((allele1 === '*1' && allele2 === '*3') || (allele1 === '*3' && allele2 === '*1')) {
-    return 'Intermediate Expressor';
-  }
-
-  // *3/*3 = Non-expressor (NO CYP3A5 expression)
-  if (allele1 === '*3' && allele2 === '*3') {
-    return 'Non-expressor';
+  if (allele1 === 'Unknown' || allele2 === 'Unknown') {
+    return 'Unknown';
   }
 
-  // *1/*6, *1/*7, *6/*6, *7/*7, etc. = Non-expressors (rare, African-specific)
-  if ((allele1 === '*6' || allele1 === '*7') || (allele2 === '*6' || allele2 === '*7')) {
-    return 'Non-expressor';
-  }
+  // *3, *6 and *7 are all no-function: expression depends only on the number of *1 alleles
+  const functional = [allele1, allele2].filter(a => a === '*1').length;
 
-  return 'Unknown';
+  if (functional === 2) return 'Expressor';               // *1/*1
+  if (functional === 1) return 'Intermediate Expressor';  // *1/*3, *1/*6, *1/*7
+  return 'Non-expressor';                                 // *3/*3, *3/*6, *6/*7 ...
 }
 
 /**
@@ -423,19 +394,30 @@ function generateTacrolimusRecommendations(phenotype: CYP3A5Phenotype): CYP3A5Dr
 /**
  * Get limitations
  */
-function getLimitations(provider: GeneticProvider): string[] {
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  diplotype: CYP3A5Diplotype
+): string[] {
   const limitations: string[] = [
     '⚠️ NO CPIC guidelines exist for alprazolam, sildenafil, tadalafil, or zolpidem',
     'CYP3A5 recommendations for these drugs are INFORMATIONAL only, not actionable',
-    'CYP3A4 genetic variation also matters but is harder to assess from SNP arrays',
+    'CYP3A4 genetic variation (*22, *20) also matters - see the combined CYP3A4/CYP3A5 phenotype',
     'Most people (60-90%) are CYP3A5 non-expressors (*3/*3) and rely on CYP3A4',
     'Drug-drug interactions with CYP3A4 inhibitors/inducers are more clinically significant'
   ];
 
-  if (provider === '23andme' || provider === 'ancestrydna') {
-    limitations.push('Consumer genetic tests may not include rare CYP3A5 variants (*6, *7)');
+  if (diplotype.untestedAlleles) {
+    limitations.push(
+      `Not genotyped: CYP3A5 ${diplotype.untestedAlleles.join(', ')} - ` +
+      'a carrier of an untested no-function allele is reported one expression class too high'
+    );
+  } else if (PROVIDER_PROFILES[provider].dataType === 'array') {
+    limitations.push('CYP3A5 *6 and *7 array calls are rare-variant calls - confirm a positive result clinically');
   }
 
+  limitations.push(...getProviderCoverageLimitations(provider, 'CYP3A5', genotypes, getTablePositions(ALLELE_TABLE)));
+
   return limitations;
 }
 
@@ -445,7 +427,7 @@ function getLimitations(provider: GeneticProvider): string[] {
 export function analyzeCYP3A5(
   genotypes: Array<{ rsid: string; genotype: string }>,
   
-  _provider: GeneticProvider = '23andme'
+  provider: GeneticProvider = '23andme'
 ): CYP3A5AnalysisResult {
 
   // Determine diplotype
@@ -458,7 +440,7 @@ export function analyzeCYP3A5(
   const confidence = diplotype.confidence || 'low';
 
   // Get limitations
-  const limitations = getLimitations(_provider);
+  const limitations = getLimitations(provider, genotypes, diplotype);
 
   // Generate clinical summary
   const clinicalSummary = generateClinicalSummary(diplotype);
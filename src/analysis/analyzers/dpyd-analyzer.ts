@@ -0,0 +1,392 @@
+/**
+ * DPYD Pharmacogenomics Analyzer v2
+ *
+ * DPYD encodes dihydropyrimidine dehydrogenase (DPD), the rate-limiting enzyme that
+ * inactivates >80% of an administered fluoropyrimidine dose in the liver.
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - DPD deficiency turns standard 5-FU/capecitabine doses into overdoses
+ * - Severe (grade ≥3) toxicity: neutropenia, mucositis, diarrhea, hand-foot syndrome
+ * - Complete deficiency: FATAL toxicity reported after a single standard dose
+ * - Partial deficiency (intermediate metabolizers): ~3-8% of Europeans
+ * - Complete deficiency (poor metabolizers): ~0.1-0.2% of Europeans
+ *
+ * KEY SUBSTRATES:
+ * 🔥 FLUOROURACIL (5-FU, IV):
+ *    - Colorectal, breast, head & neck, gastric, pancreatic cancers
+ * 🔥 CAPECITABINE (Xeloda, oral prodrug of 5-FU):
+ *    - Same toxicity profile - converted to 5-FU in tumor and liver
+ * - Tegafur (not marketed in the US)
+ *
+ * CRITICAL VARIANTS (CPIC activity value):
+ * - DPYD*2A (rs3918290, c.1905+1G>A): Exon 14 skipping, no function (0)
+ * - DPYD*13 (rs55886062, c.1679T>G, p.I560S): No function (0)
+ * - c.2846A>T (rs67376798, p.D949V): Decreased function (0.5)
+ * - c.1129-5923C>G / HapB3 (tagged by rs56038477, c.1236G>A): Decreased function (0.5)
+ *
+ * STRAND NOTE:
+ * DPYD is on the reverse strand of chromosome 1. Consumer arrays report GRCh37 forward-strand
+ * alleles, so the cDNA changes above appear complemented (e.g. *2A c.1905+1G>A is rs3918290 C>T).
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ Activity score = sum of the two allele activity values (0, 0.5, 1 per allele)
+ * ⚠️ Two different variants in unknown phase are assumed to be in trans (CPIC - conservative)
+ * ⚠️ Homozygous c.2846A>T (AS 1.0) may need more than a 50% reduction
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - Only 4 CPIC variants are interpreted - rare deleterious DPYD variants are missed
+ * - A normal result does NOT exclude DPD deficiency (~50% of toxicity unexplained by these variants)
+ *
+ * CLINICAL IMPACT:
+ * - FDA label (fluorouracil, capecitabine): warns of serious and fatal toxicity in DPD deficiency
+ * - EMA (2020): DPD testing recommended before starting fluoropyrimidines
+ *
+ * CPIC GUIDELINES:
+ * - Level A evidence for fluorouracil and capecitabine
+ *
+ * REFERENCES:
+ * - CPIC Guideline DPYD and Fluoropyrimidines 2017: PMID 29152729
+ * - Henricks et al. Lancet Oncol 2018 (genotype-guided dosing): PMID 30348537
+ * - Meulendijks et al. Lancet Oncol 2015 (variant meta-analysis): PMID 26603945
+ * - PharmVar / PharmGKB DPYD: www.pharmgkb.org/gene/PA145
+ */
+
+import {
+  getProviderCoverageLimitations,
+  PROVIDER_PROFILES,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { auditAlleleDefinitions, getKBReferences, resolveAlleleActivity } from '../core/pgx-knowledge-base';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  lowestActivityCandidate,
+  readHaplotypePhase,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
+
+export type DPYDPhenotype =
+  | 'Normal Metabolizer'
+  | 'Intermediate Metabolizer'
+  | 'Poor Metabolizer'
+  | 'Unknown';
+
+export interface DPYDDiplotype {
+  allele1: string;
+  allele2: string;
+  phenotype: DPYDPhenotype;
+  activityScore: number | null; // 0.0 to 2.0; null when no DPYD variant was genotyped
+  confidence: 'high' | 'medium' | 'low';
+  detectedVariants: string[]; // rsIDs carrying a decreased/no-function allele
+  phaseAmbiguity?: boolean; // True if two different variants were assumed to be in trans
+}
+
+export interface DPYDDrugRecommendation {
+  drug: string;
+  category: string;
+  recommendation: string;
+  startingDosePercent: number | null; // % of standard starting dose; null = avoid / undetermined
+  doseAdjustment?: string;
+  riskLevel: 'critical' | 'warning' | 'caution' | 'normal' | 'informational';
+  alternativeDrugs?: string[];
+  monitoring?: string;
+  fdaGuidance: boolean;
+  cpicLevel?: 'A' | 'B' | 'C';
+}
+
+export interface DPYDAnalysisResult {
+  gene: 'DPYD';
+  diplotype: DPYDDiplotype;
+  drugs: DPYDDrugRecommendation[];
+  clinicalSummary: string;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    fda: string[];
+  };
+  references: string[]; // KB evidence for the called alleles
+}
+
+/**
+ * DPYD variant definitions (GRCh37 forward strand)
+ *
+ * Activity values per CPIC 2017 (PMID 29152729):
+ * - *2A, *13: 0.0 (no function)
+ * - c.2846A>T, HapB3: 0.5 (decreased function)
+ * - Reference allele: 1.0
+ *
+ * Values defined in kb-pgx-ultimate.json take precedence (see resolveAlleleActivity)
+ */
+const ALLELE_ACTIVITY: Record<string, number> = resolveAlleleActivity('DPYD', {
+  '*2A': 0.0,
+  '*13': 0.0,
+  'c.2846A>T': 0.5,
+  'HapB3': 0.5
+});
+
+const DPYD_VARIANTS: Array<{ rsid: string; allele: string; variantBase: string; activity: number }> = [
+  { rsid: 'rs3918290', allele: '*2A', variantBase: 'T', activity: ALLELE_ACTIVITY['*2A'] },              // c.1905+1G>A
+  { rsid: 'rs55886062', allele: '*13', variantBase: 'C', activity: ALLELE_ACTIVITY['*13'] },             // c.1679T>G
+  { rsid: 'rs67376798', allele: 'c.2846A>T', variantBase: 'A', activity: ALLELE_ACTIVITY['c.2846A>T'] }, // p.D949V
+  { rsid: 'rs56038477', allele: 'HapB3', variantBase: 'T', activity: ALLELE_ACTIVITY['HapB3'] }          // c.1236G>A (HapB3 tag)
+];
+
+auditAlleleDefinitions('DPYD', DPYD_VARIANTS);
+
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'DPYD',
+  alleles: [
+    { allele: '*1', variants: {}, function: 'Normal', activityScore: 1.0 },
+    ...DPYD_VARIANTS.map(v => ({
+      allele: v.allele,
+      variants: { [v.rsid]: v.variantBase },
+      function: v.activity === 0 ? 'No function' as const : 'Decreased' as const,
+      activityScore: v.activity
+    }))
+  ]
+};
+
+/**
+ * Map activity score to CPIC phenotype (PMID 29152729, Table 1)
+ * - 2.0: Normal Metabolizer
+ * - 1.0-1.5: Intermediate Metabolizer
+ * - 0.0-0.5: Poor Metabolizer
+ */
+function activityScoreToPhenotype(activityScore: number): DPYDPhenotype {
+  if (activityScore >= 2.0) return 'Normal Metabolizer';
+  if (activityScore >= 1.0) return 'Intermediate Metabolizer';
+  return 'Poor Metabolizer';
+}
+
+/**
+ * Determine DPYD diplotype and activity score from genotypes - v2 API
+ *
+ * At least one of the four CPIC variants must be genotyped. Any missing position lowers
+ * confidence to medium, because the untested variant could hide a deficiency allele.
+ */
+export function determineDPYDDiplotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): DPYDDiplotype {
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
+
+  if (call.testedPositions.length === 0) {
+    return {
+      allele1: 'Unknown',
+      allele2: 'Unknown',
+      phenotype: 'Unknown',
+      activityScore: null,
+      confidence: 'low',
+      detectedVariants: []
+    };
+  }
+
+  let confidence: 'high' | 'medium' | 'low' = call.missingPositions.length === 0 ? 'high' : 'medium';
+
+  // Two different variants in unknown phase: CPIC recommends assuming trans (worst case)
+  const phaseAmbiguity = call.observedVariants.length > 1;
+  if (!call.consistent) {
+    confidence = 'medium';
+  }
+
+  // More variant alleles than chromosomes: keep the lowest-activity pair
+  const { alleles, activityScore = 2.0 } = lowestActivityCandidate(call);
+
+  // Report the higher-activity allele first (*1/*2A, HapB3/*2A)
+  const activity = (allele: string) => ALLELE_ACTIVITY[allele] ?? 1.0;
+  const [first, second] = alleles;
+  const [allele1, allele2] = activity(second) >= activity(first) ? [second, first] : [first, second];
+
+  return {
+    allele1,
+    allele2,
+    phenotype: activityScoreToPhenotype(activityScore),
+    activityScore,
+    confidence,
+    detectedVariants: call.observedVariants,
+    phaseAmbiguity: phaseAmbiguity || undefined
+  };
+}
+
+/**
+ * Fluoropyrimidine recommendations (CPIC 2017, PMID 29152729)
+ * Same guidance applies to fluorouracil and capecitabine
+ */
+function generateFluoropyrimidineRecommendations(diplotype: DPYDDiplotype): DPYDDrugRecommendation[] {
+  const { phenotype, activityScore } = diplotype;
+  const drugs = [
+    { drug: 'Fluorouracil (5-FU)', category: 'Antineoplastic (IV fluoropyrimidine)' },
+    { drug: 'Capecitabine (Xeloda)', category: 'Antineoplastic (oral fluoropyrimidine)' }
+  ];
+
+  if (phenotype === 'Poor Metabolizer') {
+    const partialActivity = activityScore !== null && activityScore > 0;
+    return drugs.map(({ drug, category }) => ({
+      drug,
+      category,
+      recommendation: partialActivity
+        ? 'AVOID - complete DPD deficiency likely. If no alternative exists, use a strongly reduced dose with early therapeutic drug monitoring'
+        : 'AVOID - complete DPD deficiency. Fatal toxicity risk at standard doses',
+      startingDosePercent: null,
+      doseAdjustment: partialActivity
+        ? 'Do not start at a standard dose; if unavoidable, start well below 25% of standard dose with 5-FU level monitoring'
+        : 'Contraindicated',
+      riskLevel: 'critical' as const,
+      alternativeDrugs: ['Non-fluoropyrimidine regimen (oncologist-selected)'],
+      monitoring: 'Phenotypic DPD testing (plasma uracil) recommended to confirm',
+      fdaGuidance: true,
+      cpicLevel: 'A' as const
+    }));
+  }
+
+  if (phenotype === 'Intermediate Metabolizer') {
+    return drugs.map(({ drug, category }) => ({
+      drug,
+      category,
+      recommendation: `Reduce starting dose by 50% (activity score ${activityScore?.toFixed(1) ?? 'not tested'}), then titrate by toxicity`,
+      startingDosePercent: 50,
+      doseAdjustment: diplotype.allele1 === 'c.2846A>T' && diplotype.allele2 === 'c.2846A>T'
+        ? '50% starting dose - homozygous c.2846A>T may require a further reduction'
+        : '50% of standard starting dose; increase in later cycles if no toxicity',
+      riskLevel: 'critical' as const,
+      monitoring: 'Close toxicity monitoring in cycle 1-2; consider 5-FU therapeutic drug monitoring',
+      fdaGuidance: true,
+      cpicLevel: 'A' as const
+    }));
+  }
+
+  if (phenotype === 'Unknown') {
+    return drugs.map(({ drug, category }) => ({
+      drug,
+      category,
+      recommendation: 'DPYD not genotyped in this data - request clinical DPYD testing before the first dose',
+      startingDosePercent: null,
+      riskLevel: 'caution' as const,
+      fdaGuidance: true,
+      cpicLevel: 'A' as const
+    }));
+  }
+
+  return drugs.map(({ drug, category }) => ({
+    drug,
+    category,
+    recommendation: 'Standard dosing - no tested DPYD variant detected',
+    startingDosePercent: 100,
+    riskLevel: 'normal' as const,
+    monitoring: 'Standard toxicity monitoring (untested DPYD variants can still cause deficiency)',
+    fdaGuidance: true,
+    cpicLevel: 'A' as const
+  }));
+}
+
+/**
+ * Generate safety alerts
+ */
+function generateSafetyAlerts(diplotype: DPYDDiplotype): string[] {
+  const { phenotype, allele1, allele2, activityScore } = diplotype;
+  const alerts: string[] = [];
+
+  if (phenotype === 'Poor Metabolizer') {
+    alerts.push(`🚨 FLUOROPYRIMIDINES: DPYD ${allele1}/${allele2} (activity score ${activityScore?.toFixed(1) ?? 'not tested'}) - AVOID 5-FU and capecitabine (fatal toxicity risk)`);
+  } else if (phenotype === 'Intermediate Metabolizer') {
+    alerts.push(`🚨 FLUOROPYRIMIDINES: DPYD ${allele1}/${allele2} (activity score ${activityScore?.toFixed(1) ?? 'not tested'}) - start 5-FU/capecitabine at 50% dose`);
+  }
+
+  return alerts;
+}
+
+/**
+ * Get provider-specific limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  diplotype: DPYDDiplotype
+): string[] {
+  const limitations = [
+    'Only the 4 CPIC-actionable DPYD variants are interpreted - rare deleterious variants are not detected',
+    'A normal genotype does NOT rule out DPD deficiency; standard toxicity monitoring is still required',
+    'HapB3 is inferred from the rs56038477 tag SNP, which is in near-complete linkage with c.1129-5923C>G in Europeans',
+    ...getProviderCoverageLimitations(provider, 'DPYD', genotypes, getTablePositions(ALLELE_TABLE))
+  ];
+
+  if (PROVIDER_PROFILES[provider].dataType === 'array') {
+    limitations.push('Consumer array calls for rare variants such as *2A have a meaningful false-positive rate - confirm clinically before changing therapy');
+  }
+
+  if (diplotype.confidence === 'medium' && diplotype.phenotype !== 'Unknown') {
+    limitations.push('Not all 4 CPIC DPYD variants were genotyped - a deficiency allele may have been missed');
+  }
+
+  if (diplotype.phaseAmbiguity) {
+    limitations.push('Two different DPYD variants were found; they are assumed to be on different chromosomes (conservative CPIC approach)');
+  }
+
+  return limitations;
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(diplotype: DPYDDiplotype): string {
+  const { allele1, allele2, phenotype, activityScore, confidence } = diplotype;
+
+  let summary = `DPYD Diplotype: ${allele1}/${allele2}\n`;
+  summary += `Phenotype: ${phenotype}\n`;
+  summary += `Activity Score: ${activityScore?.toFixed(1) ?? 'not tested'}\n`;
+  summary += `Confidence: ${confidence.toUpperCase()}\n\n`;
+
+  summary += `CLINICAL INTERPRETATION:\n`;
+
+  if (phenotype === 'Poor Metabolizer') {
+    summary += `You are predicted to have COMPLETE or near-complete DPD deficiency.\n\n`;
+    summary += `• 5-FU and CAPECITABINE: AVOID - standard doses can cause fatal toxicity\n`;
+    summary += `• Carry this result to every oncology appointment\n`;
+  } else if (phenotype === 'Intermediate Metabolizer') {
+    summary += `You are predicted to have PARTIAL DPD deficiency.\n\n`;
+    summary += `• 5-FU and CAPECITABINE: Start at 50% of the standard dose, then titrate by tolerance\n`;
+    summary += `• Genotype-guided dose reduction lowers severe toxicity to the level of non-carriers\n`;
+  } else if (phenotype === 'Normal Metabolizer') {
+    summary += `No tested DPYD variant was detected. Standard fluoropyrimidine dosing is appropriate,\n`;
+    summary += `but untested variants can still cause DPD deficiency.\n`;
+  } else {
+    summary += `DPYD status could not be determined (no CPIC variant genotyped). Request clinical DPYD testing before any fluoropyrimidine.\n`;
+  }
+
+  return summary;
+}
+
+/**
+ * Main DPYD analysis function - v2 API
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @returns Comprehensive DPYD analysis results
+ */
+export function analyzeDPYD(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme'
+): DPYDAnalysisResult {
+  const diplotype = determineDPYDDiplotype(genotypes);
+
+  return {
+    gene: 'DPYD',
+    diplotype,
+    drugs: generateFluoropyrimidineRecommendations(diplotype),
+    clinicalSummary: generateClinicalSummary(diplotype),
+    safetyAlerts: generateSafetyAlerts(diplotype),
+    confidence: diplotype.confidence,
+    limitations: getLimitations(provider, genotypes, diplotype),
+    guidelines: {
+      cpic: 'CPIC Guideline for DPYD and Fluoropyrimidines (PMID: 29152729)',
+      fda: [
+        'FDA Drug Label: Fluorouracil - Warning for serious and fatal toxicity in DPD deficiency',
+        'FDA Drug Label: Capecitabine - Warning for serious and fatal toxicity in DPD deficiency'
+      ]
+    },
+    references: getKBReferences('DPYD', [diplotype.allele1, diplotype.allele2])
+  };
+}
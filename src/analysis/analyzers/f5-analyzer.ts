@@ -7,8 +7,8 @@
  * 
  * CRITICAL VARIANT: rs6025 (c.1601G>A, R506Q - Factor V Leiden)
  * - Single nucleotide change creates resistance to activated Protein C
- * - Heterozygotes (G/A): 5-7x increased VTE risk
- * - Homozygotes (A/A): 50-80x increased VTE risk
+ * - Heterozygotes (G/A): 3-8x increased VTE risk
+ * - Homozygotes (A/A): 10-80x increased VTE risk
  * - #1 CONTRAINDICATION for estrogen-containing contraceptives
  * 
  * CLINICAL SIGNIFICANCE:
@@ -53,8 +53,22 @@
  * - Homozygote (A/A): ~5-8% per year
  * - WITH estrogen OCPs + heterozygote: ~3% per year
  * - WITH pregnancy + heterozygote: ~2.5% during pregnancy
+ *
+ * RISK MODEL:
+ * - Relative and absolute VTE risk come from core/vte-risk, which also scores prothrombin
+ *   G20210A (F2) and clinical modifiers; contraceptive safety is graded from its estimate
+ * - rs6025 is read as gene-strand G/A or GRCh37 forward-strand C/T (F5 is on the minus strand)
  */
 
+import {
+  calculateVTERisk,
+  formatAnnualRisk,
+  formatRelativeRisk,
+  recalculateVTERisk,
+  type VTERiskEstimate,
+  type VTERiskFactor
+} from '../core/vte-risk';
+
 export interface F5Variant {
   rsid: string;
   name: string;
@@ -66,6 +80,7 @@ export interface F5Variant {
 export interface F5Genotype {
   rs6025: string; // THE critical variant (Factor V Leiden)
   rs6027?: string; // Secondary rare variant
+  leidenCopies: number | null; // Leiden alleles at rs6025 (null = not called)
   thrombophiliaRisk: 'Normal' | 'Elevated' | 'High' | 'Very High';
   vteRiskMultiplier: number;
   confidence: 'high' | 'medium' | 'low';
@@ -131,6 +146,7 @@ export function determineF5Genotype(
     return {
       rs6025: 'Unknown',
       rs6027: rs6027 || undefined,
+      leidenCopies: null,
       thrombophiliaRisk: 'Normal',
       vteRiskMultiplier: 1.0,
       confidence
@@ -139,18 +155,25 @@ export function determineF5Genotype(
 
   const normalized6025 = rs6025.replace('/', '').toUpperCase();
 
+  // Gene strand: A = Leiden; GRCh37 forward strand: T = Leiden
+  const leidenCopies = /^[GA]{2}$/.test(normalized6025)
+    ? normalized6025.split('').filter(a => a === 'A').length
+    : /^[CT]{2}$/.test(normalized6025)
+      ? normalized6025.split('').filter(a => a === 'T').length
+      : null;
+
   // Determine risk based on rs6025 genotype
-  if (normalized6025 === 'AA') {
+  if (leidenCopies === 2) {
     // Homozygous Factor V Leiden - VERY HIGH RISK
     thrombophiliaRisk = 'Very High';
-    vteRiskMultiplier = 50; // 50-80x baseline risk
+    vteRiskMultiplier = 20; // 10-80x baseline risk
     confidence = 'high';
-  } else if (normalized6025 === 'AG' || normalized6025 === 'GA') {
+  } else if (leidenCopies === 1) {
     // Heterozygous Factor V Leiden - ELEVATED RISK
     thrombophiliaRisk = 'Elevated';
-    vteRiskMultiplier = 5; // 5-7x baseline risk
+    vteRiskMultiplier = 5; // 3-8x baseline risk
     confidence = 'high';
-  } else if (normalized6025 === 'GG') {
+  } else if (leidenCopies === 0) {
     // Normal/Wild-type - No Factor V Leiden
     thrombophiliaRisk = 'Normal';
     vteRiskMultiplier = 1.0;
@@ -181,6 +204,7 @@ export function determineF5Genotype(
   return {
     rs6025: rs6025,
     rs6027: rs6027 || undefined,
+    leidenCopies,
     thrombophiliaRisk,
     vteRiskMultiplier,
     confidence
@@ -188,25 +212,47 @@ export function determineF5Genotype(
 }
 
 /**
- * Assess contraceptive safety based on F5 genotype
+ * rs6027 risk factor for the VTE model (scored only without Factor V Leiden, as in determineF5Genotype)
+ */
+export function f5OtherVariantFactors(genotype: F5Genotype): VTERiskFactor[] {
+  if (genotype.leidenCopies || !genotype.rs6027 || genotype.thrombophiliaRisk === 'Normal') return [];
+
+  return [{
+    factor: `F5 rs6027 ${genotype.rs6027}`,
+    relativeRisk: genotype.vteRiskMultiplier >= 20
+      ? { estimate: 20, low: 5, high: 50 }
+      : { estimate: 3, low: 1.5, high: 5 },
+    source: 'Approximate - limited data'
+  }];
+}
+
+/**
+ * Assess contraceptive safety from the VTE risk model
+ *
+ * Each option is graded by the relative risk the patient would have on it (genotype and
+ * current clinical factors included): ≥10x Contraindicated, ≥5x Use Caution. Known carriers
+ * land in Contraindicated for estrogen, matching CDC MEC category 4 for thrombogenic mutations.
  */
 export function assessContraceptiveSafety(
-  thrombophiliaRisk: string
+  vteRisk: VTERiskEstimate
 ): ContraceptiveSafety {
+  const grade = (relativeRisk: number) =>
+    relativeRisk >= 10 ? 'Contraindicated' : relativeRisk >= 5 ? 'Use Caution' : 'Safe';
+
+  const onCombinedPill = recalculateVTERisk(vteRisk, { estrogen: 'combined-oral-contraceptive' });
+  const onOralHRT = recalculateVTERisk(vteRisk, { estrogen: 'oral-hrt' });
+  const withoutEstrogen = recalculateVTERisk(vteRisk, { estrogen: 'none' });
+
   const result: ContraceptiveSafety = {
-    combinedOCPs: 'Safe',
-    progestinOnly: 'Safe',
-    estrogenHRT: 'Safe',
+    combinedOCPs: grade(onCombinedPill.relativeRisk.estimate),
+    progestinOnly: withoutEstrogen.relativeRisk.estimate >= 10 ? 'Use Caution' : 'Safe',
+    estrogenHRT: grade(onOralHRT.relativeRisk.estimate),
     recommendedAlternatives: [],
     fdaBlackBoxApplies: false
   };
+  result.fdaBlackBoxApplies = result.combinedOCPs === 'Contraindicated';
 
-  if (thrombophiliaRisk === 'Very High') {
-    // Homozygous Factor V Leiden
-    result.combinedOCPs = 'Contraindicated';
-    result.estrogenHRT = 'Contraindicated';
-    result.progestinOnly = 'Use Caution';
-    result.fdaBlackBoxApplies = true;
+  if (result.combinedOCPs === 'Contraindicated' && result.progestinOnly === 'Use Caution') {
     result.recommendedAlternatives = [
       'Progestin-only pills (mini-pill)',
       'Progestin IUD (Mirena, Kyleena, Skyla)',
@@ -214,12 +260,7 @@ export function assessContraceptiveSafety(
       'Barrier methods (condoms, diaphragm)',
       'Permanent sterilization if family complete'
     ];
-  } else if (thrombophiliaRisk === 'Elevated' || thrombophiliaRisk === 'High') {
-    // Heterozygous Factor V Leiden
-    result.combinedOCPs = 'Contraindicated';
-    result.estrogenHRT = 'Contraindicated';
-    result.progestinOnly = 'Safe';
-    result.fdaBlackBoxApplies = true;
+  } else if (result.combinedOCPs === 'Contraindicated') {
     result.recommendedAlternatives = [
       'Progestin-only pills (mini-pill) - PREFERRED',
       'Progestin IUD (Mirena, Kyleena, Skyla) - PREFERRED',
@@ -228,12 +269,13 @@ export function assessContraceptiveSafety(
       'Nexplanon (progestin implant)',
       'Depo-Provera (progestin injection) - Use Caution'
     ];
+  } else if (result.combinedOCPs === 'Use Caution') {
+    result.recommendedAlternatives = [
+      'Progestin-only or non-hormonal methods preferred',
+      'If a combined method is chosen: lowest estrogen dose with a levonorgestrel progestin',
+      'Transdermal rather than oral estrogen for HRT'
+    ];
   } else {
-    // Normal genotype
-    result.combinedOCPs = 'Safe';
-    result.estrogenHRT = 'Safe';
-    result.progestinOnly = 'Safe';
-    result.fdaBlackBoxApplies = false;
     result.recommendedAlternatives = [
       'All contraceptive methods appropriate',
       'Choice based on patient preference and other factors'
@@ -244,48 +286,27 @@ export function assessContraceptiveSafety(
 }
 
 /**
- * Generate comprehensive VTE risk assessment
+ * Generate VTE risk assessment from the risk model
  */
-function generateVTERiskAssessment(
-  _vteRiskMultiplier: number,
-  thrombophiliaRisk: string
-) {
-  const baselineRisk = thrombophiliaRisk === 'Very High'
-    ? '5-8% per year (50-80x baseline)'
-    : thrombophiliaRisk === 'Elevated'
-      ? '0.5-0.7% per year (5-7x baseline)'
-      : '0.1% per year (general population)';
-
-  const withOCPs = thrombophiliaRisk === 'Very High'
-    ? '~10-15% per year (EXTREME RISK - CONTRAINDICATED)'
-    : thrombophiliaRisk === 'Elevated'
-      ? '~3% per year (30-35x baseline - CONTRAINDICATED)'
-      : '0.3-0.4% per year (3-4x baseline - acceptable risk)';
-
-  const withPregnancy = thrombophiliaRisk === 'Very High'
-    ? '~10-15% during pregnancy/postpartum (HIGH RISK)'
-    : thrombophiliaRisk === 'Elevated'
-      ? '~2.5% during pregnancy/postpartum (25x baseline)'
-      : '~0.5% during pregnancy/postpartum (5x baseline)';
-
-  const withSurgery = thrombophiliaRisk === 'Very High'
-    ? 'VERY HIGH - Extended prophylaxis essential'
-    : thrombophiliaRisk === 'Elevated'
-      ? 'HIGH - Prophylactic anticoagulation strongly recommended'
-      : 'MODERATE - Standard prophylaxis appropriate';
-
-  const absoluteRiskEstimate = thrombophiliaRisk === 'Very High'
-    ? 'Approximately 5-8 in 100 people with FVL homozygous will develop VTE per year without additional risk factors. With estrogen exposure, risk approaches 10-15%.'
-    : thrombophiliaRisk === 'Elevated'
-      ? 'Approximately 5-7 in 1,000 people with FVL heterozygous will develop VTE per year. With estrogen exposure, risk increases to ~3 in 100.'
-      : 'Approximately 1 in 1,000 people in the general population will develop VTE per year.';
+function generateVTERiskAssessment(vteRisk: VTERiskEstimate) {
+  const scenario = (changes: Parameters<typeof recalculateVTERisk>[1]) => {
+    const risk = recalculateVTERisk(vteRisk, changes);
+    return `${formatAnnualRisk(risk.annualAbsoluteRisk)} - ${formatRelativeRisk(risk.relativeRisk)} baseline`;
+  };
+
+  const current = recalculateVTERisk(vteRisk, {});
+  const carrier = vteRisk.inheritedThrombophilia !== 'None' && vteRisk.inheritedThrombophilia !== 'Unknown';
 
   return {
-    baselineRisk,
-    withOCPs,
-    withPregnancy,
-    withSurgery,
-    absoluteRiskEstimate
+    baselineRisk: scenario({ estrogen: 'none', pregnancy: undefined, recentSurgery: false, immobilized: false }),
+    withOCPs: scenario({ estrogen: 'combined-oral-contraceptive' }),
+    withPregnancy: scenario({ pregnancy: 'pregnant' }),
+    withSurgery: `${scenario({ recentSurgery: true })} - ${carrier
+      ? 'Prophylactic anticoagulation strongly recommended'
+      : 'Standard prophylaxis appropriate'}`,
+    absoluteRiskEstimate: `With current factors: ${formatAnnualRisk(current.annualAbsoluteRisk)} ` +
+      `(${vteRisk.inheritedThrombophilia === 'Unknown' ? 'genotype not tested' : vteRisk.inheritedThrombophilia}; ` +
+      `${current.factors.map(f => f.factor).join(', ') || 'no risk factors'})`
   };
 }
 
@@ -308,7 +329,7 @@ function generateSafetyAlerts(
     alerts.push('⚠️ AVOID: Long-haul flights without prophylaxis, prolonged immobilization');
   } else if (thrombophiliaRisk === 'Elevated' || thrombophiliaRisk === 'High') {
     alerts.push('🚨 HETEROZYGOUS FACTOR V LEIDEN - ELEVATED VTE RISK');
-    alerts.push('🚨 CONTRAINDICATED: Estrogen-containing oral contraceptives (30-35x VTE risk)');
+    alerts.push('🚨 CONTRAINDICATED: Estrogen-containing oral contraceptives (~35x VTE risk)');
     alerts.push('🚨 CONTRAINDICATED: Hormone replacement therapy with estrogen');
     alerts.push('✅ SAFE ALTERNATIVES: Progestin-only contraceptives, copper IUD');
     alerts.push('⚠️ PREGNANCY: May require thromboprophylaxis - discuss with OB-GYN');
@@ -387,22 +408,30 @@ function generateFamilyScreening(thrombophiliaRisk: string): string[] {
 
 /**
  * Main F5 analysis function
+ *
+ * @param rs6025 - Factor V Leiden call (gene or forward strand)
+ * @param rs6027 - Secondary F5 variant call
+ * @param vteRisk - Risk estimate from the thrombophilia panel (F2 and clinical factors);
+ *   without it the model is run on Factor V Leiden alone
  */
 export function analyzeF5(
   rs6025: string | null,
-  rs6027?: string | null
+  rs6027?: string | null,
+  vteRisk?: VTERiskEstimate
 ): F5AnalysisResult {
   // Determine genotype
   const genotype = determineF5Genotype(rs6025, rs6027);
+  const risk = vteRisk ?? calculateVTERisk({
+    factorVLeiden: genotype.leidenCopies,
+    prothrombin: null,
+    other: f5OtherVariantFactors(genotype)
+  });
 
   // Assess contraceptive safety
-  const contraceptiveSafety = assessContraceptiveSafety(genotype.thrombophiliaRisk);
+  const contraceptiveSafety = assessContraceptiveSafety(risk);
 
   // VTE risk assessment
-  const vteRiskAssessment = generateVTERiskAssessment(
-    genotype.vteRiskMultiplier,
-    genotype.thrombophiliaRisk
-  );
+  const vteRiskAssessment = generateVTERiskAssessment(risk);
 
   // Safety alerts
   const safetyAlerts = generateSafetyAlerts(genotype.thrombophiliaRisk, contraceptiveSafety);
@@ -431,9 +460,9 @@ resistance to activated Protein C, a natural anticoagulant, leading to
 increased blood clotting tendency.
 
 ${genotype.thrombophiliaRisk === 'Very High'
-      ? 'You are HOMOZYGOUS for Factor V Leiden (two copies). This confers a 50-80x increased risk of venous thromboembolism (VTE) compared to the general population. Estrogen-containing medications are ABSOLUTELY CONTRAINDICATED.'
+      ? 'You are HOMOZYGOUS for Factor V Leiden (two copies). This confers a 10-80x increased risk of venous thromboembolism (VTE) compared to the general population. Estrogen-containing medications are ABSOLUTELY CONTRAINDICATED.'
       : genotype.thrombophiliaRisk === 'Elevated'
-        ? 'You are HETEROZYGOUS for Factor V Leiden (one copy). This confers a 5-7x increased risk of VTE. While absolute risk remains low (~0.5-0.7% per year), estrogen contraceptives increase this to ~3% per year and are CONTRAINDICATED.'
+        ? 'You are HETEROZYGOUS for Factor V Leiden (one copy). This confers a 3-8x increased risk of VTE. While absolute risk remains low (~0.5-0.7% per year), estrogen contraceptives increase this to ~3% per year and are CONTRAINDICATED.'
         : 'You do NOT carry Factor V Leiden. Your baseline VTE risk is normal (~0.1% per year). All contraceptive options are appropriate from a thrombophilia perspective.'}
 
 CONTRACEPTIVE SAFETY:
@@ -0,0 +1,356 @@
+/**
+ * G6PD Pharmacogenomics Analyzer v2
+ *
+ * G6PD encodes glucose-6-phosphate dehydrogenase, the only source of NADPH in red blood cells.
+ * Deficient red cells cannot withstand oxidant drugs: rasburicase, primaquine, tafenoquine
+ * and dapsone can cause acute, sometimes fatal, hemolytic anemia.
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - The most common enzyme deficiency worldwide (~400 million people)
+ * - X-linked: males are hemizygous (one allele - deficient or normal); heterozygous females
+ *   range from normal to deficient activity depending on X-inactivation
+ * - Rasburicase in a deficient patient causes hemolysis and methemoglobinemia (FDA boxed warning)
+ *
+ * KEY SUBSTRATES:
+ * 🔥 RASBURICASE: Contraindicated in deficiency
+ * 🔥 PRIMAQUINE / TAFENOQUINE: Radical cure of vivax malaria - hemolysis risk
+ * 🔥 DAPSONE: Hemolysis and methemoglobinemia
+ * 🔥 NITROFURANTOIN: Hemolysis reported in deficient patients
+ *
+ * CRITICAL VARIANTS (GRCh37 forward strand - G6PD is on the reverse strand of chrX):
+ * - rs1050828 (c.202G>A, V68M; forward C>T): A- (class III, 10-60% activity) - African ancestry
+ * - rs1050829 (c.376A>G, N126D; forward T>C): A - non-deficient on its own, background of A-
+ * - rs5030868 (c.563C>T, S188F; forward G>A): Mediterranean (class II, <10%) - Mediterranean,
+ *   Middle East, South Asia
+ * - rs72554665 (c.1376G>T; forward C>A): Canton - Southern China, Southeast Asia
+ * - rs72554664 (c.1388G>A; forward C>T): Kaiping - Southern China, Southeast Asia
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ Male X calls arrive as one allele ('T', 23andMe; haploid VCF GT) or as a homozygous pair
+ *    ('TT', AncestryDNA). A heterozygous call can only come from a female
+ * ⚠️ A homozygous variant call is deficient whether it is a hemizygous male or a homozygous
+ *    female, so the status does not depend on knowing the sex
+ * ⚠️ Two different deficient variants in a female are assumed to be in trans (deficient)
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - Over 200 deficient G6PD variants exist; only the most common are on arrays
+ * - Heterozygous females need a quantitative enzyme activity test
+ *
+ * CPIC GUIDELINES:
+ * - Level A: Rasburicase, Primaquine, Tafenoquine, Dapsone (CPIC 2022, G6PD and 60+ drugs)
+ *
+ * REFERENCES:
+ * - CPIC Guideline G6PD 2022: PMID 36049896
+ * - PharmGKB G6PD: www.pharmgkb.org/gene/PA28469
+ */
+
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { extractStrandNormalized } from '../core/strand-normalization';
+import { auditAlleleDefinitions, getKBReferences } from '../core/pgx-knowledge-base';
+
+export type G6PDStatus = 'Normal' | 'Variable' | 'Deficient' | 'Unknown';
+
+export interface G6PDGenotype {
+  alleles: string[];           // One allele when hemizygous, two when diploid ('B' = reference)
+  ploidy: 'hemizygous' | 'diploid' | 'undetermined'; // Undetermined: only homozygous pairs seen
+  status: G6PDStatus;
+  deficientAlleles: string[];  // One entry per deficient copy
+  confidence: 'high' | 'medium' | 'low';
+  detectedVariants: string[];
+  untestedAlleles?: string[];  // Deficient alleles whose position was not genotyped
+}
+
+export interface G6PDDrugRecommendation {
+  drug: string;
+  category: string;
+  recommendation: string;
+  doseAdjustment?: string;
+  riskLevel: 'critical' | 'warning' | 'caution' | 'normal' | 'informational';
+  alternativeDrugs?: string[];
+  monitoring?: string;
+  fdaGuidance: boolean;
+  cpicLevel?: 'A' | 'B' | 'C';
+}
+
+export interface G6PDAnalysisResult {
+  gene: 'G6PD';
+  genotype: G6PDGenotype;
+  drugs: G6PDDrugRecommendation[];
+  clinicalSummary: string;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    fda: string[];
+  };
+  references: string[]; // KB evidence for the called alleles
+}
+
+/**
+ * Deficient G6PD variants (GRCh37 forward strand allele), most frequent first
+ */
+const DEFICIENT_VARIANTS: Array<{ rsid: string; allele: string; variant: string }> = [
+  { rsid: 'rs1050828', allele: 'A-', variant: 'T' },              // c.202G>A
+  { rsid: 'rs5030868', allele: 'Mediterranean', variant: 'A' },   // c.563C>T
+  { rsid: 'rs72554665', allele: 'Canton', variant: 'A' },         // c.1376G>T
+  { rsid: 'rs72554664', allele: 'Kaiping', variant: 'T' }         // c.1388G>A
+];
+
+/** c.376A>G: the non-deficient G6PD A allele, and the background of A- */
+const A_VARIANT = { rsid: 'rs1050829', allele: 'A', variant: 'C' };
+
+auditAlleleDefinitions('G6PD', [...DEFICIENT_VARIANTS, A_VARIANT].map(({ rsid, allele }) => ({ rsid, allele })));
+
+function countAllele(genotype: string, allele: string): number {
+  return genotype.split('').filter(a => a === allele).length;
+}
+
+/**
+ * Determine G6PD genotype and deficiency status - v2 API
+ *
+ * Single-allele calls are read as hemizygous (male). Any heterozygous call means two X
+ * chromosomes. At least one deficient position must be genotyped.
+ */
+export function determineG6PDGenotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): G6PDGenotype {
+  const calls = new Map<string, string>();
+  for (const { rsid } of [...DEFICIENT_VARIANTS, A_VARIANT]) {
+    const call = extractStrandNormalized(genotypes, rsid);
+    if (call) calls.set(rsid, call);
+  }
+
+  const untested = DEFICIENT_VARIANTS.filter(v => !calls.has(v.rsid)).map(v => v.allele);
+  if (untested.length === DEFICIENT_VARIANTS.length) {
+    return {
+      alleles: [],
+      ploidy: 'undetermined',
+      status: 'Unknown',
+      deficientAlleles: [],
+      confidence: 'low',
+      detectedVariants: []
+    };
+  }
+
+  const values = [...calls.values()];
+  const hemizygous = values.some(c => c.length === 1);
+  const heterozygous = values.some(c => c.length === 2 && c[0] !== c[1]);
+  const ploidy: G6PDGenotype['ploidy'] = heterozygous ? 'diploid' : hemizygous ? 'hemizygous' : 'undetermined';
+  // Hemizygous and heterozygous calls in the same file cannot both be right
+  const consistent = !(hemizygous && heterozygous);
+  const copies = ploidy === 'hemizygous' ? 1 : 2;
+
+  const deficientAlleles: string[] = [];
+  const detectedVariants: string[] = [];
+  for (const { rsid, allele, variant } of DEFICIENT_VARIANTS) {
+    const call = calls.get(rsid);
+    if (!call) continue;
+    const n = Math.min(countAllele(call, variant), copies);
+    if (n > 0) detectedVariants.push(rsid);
+    for (let i = 0; i < n; i++) deficientAlleles.push(allele);
+  }
+  deficientAlleles.splice(copies);
+
+  // Remaining chromosomes: G6PD A when c.376G is carried beyond the A- copies, else B
+  const aCall = calls.get(A_VARIANT.rsid);
+  const aCopies = aCall ? countAllele(aCall, A_VARIANT.variant) : 0;
+  if (aCopies > 0) detectedVariants.push(A_VARIANT.rsid);
+  let extraA = Math.max(0, aCopies - deficientAlleles.filter(a => a === 'A-').length);
+  const alleles = [...deficientAlleles];
+  while (alleles.length < copies) {
+    alleles.unshift(extraA-- > 0 ? 'A' : 'B');
+  }
+
+  const status: G6PDStatus =
+    deficientAlleles.length === 0 ? 'Normal'
+      : deficientAlleles.length === copies ? 'Deficient'
+        : 'Variable';
+
+  return {
+    alleles,
+    ploidy,
+    status,
+    deficientAlleles,
+    confidence: untested.length === 0 && consistent ? 'high' : 'medium',
+    detectedVariants,
+    untestedAlleles: untested.length > 0 ? untested : undefined
+  };
+}
+
+function describeGenotype(genotype: G6PDGenotype): string {
+  const label = genotype.alleles.join('/');
+  return genotype.ploidy === 'hemizygous' ? `${label} (hemizygous)` : label;
+}
+
+/**
+ * Drug recommendations (CPIC 2022, PMID 36049896)
+ */
+function generateDrugRecommendations(status: G6PDStatus): G6PDDrugRecommendation[] {
+  const drugs = [
+    {
+      drug: 'Rasburicase (Elitek)',
+      category: 'Uric Acid Lowering (tumor lysis)',
+      deficient: 'CONTRAINDICATED - acute hemolysis and methemoglobinemia (FDA boxed warning)',
+      alternativeDrugs: ['Allopurinol', 'Febuxostat']
+    },
+    {
+      drug: 'Primaquine / Tafenoquine',
+      category: 'Antimalarials (8-aminoquinolines)',
+      deficient: 'AVOID tafenoquine and daily primaquine. Primaquine 0.75 mg/kg once weekly for 8 weeks only under medical supervision',
+      alternativeDrugs: ['Chloroquine or artemisinin combination therapy (no radical cure)']
+    },
+    {
+      drug: 'Dapsone',
+      category: 'Antimicrobials / Dermatology',
+      deficient: 'AVOID - dose-dependent hemolysis and methemoglobinemia',
+      alternativeDrugs: ['Atovaquone (PCP prophylaxis)']
+    },
+    {
+      drug: 'Nitrofurantoin',
+      category: 'Antibiotics (urinary)',
+      deficient: 'Avoid if an alternative exists; if used, monitor for hemolysis',
+      alternativeDrugs: ['Fosfomycin', 'Trimethoprim']
+    }
+  ];
+
+  return drugs.map(({ drug, category, deficient, alternativeDrugs }) => {
+    const base = { drug, category, fdaGuidance: true, cpicLevel: 'A' as const };
+
+    if (status === 'Deficient') {
+      return {
+        ...base,
+        recommendation: `⛔ G6PD DEFICIENT: ${deficient}`,
+        riskLevel: drug === 'Nitrofurantoin' ? 'warning' as const : 'critical' as const,
+        alternativeDrugs,
+        monitoring: 'Hemoglobin, bilirubin, LDH and dark urine after any unavoidable exposure'
+      };
+    }
+
+    if (status === 'Variable') {
+      return {
+        ...base,
+        recommendation: '⚠️ G6PD HETEROZYGOUS: Activity ranges from normal to deficient - measure G6PD enzyme activity before use',
+        doseAdjustment: 'Treat as deficient until a quantitative activity test shows normal activity',
+        riskLevel: 'warning' as const,
+        alternativeDrugs
+      };
+    }
+
+    if (status === 'Unknown') {
+      return {
+        ...base,
+        recommendation: 'G6PD not genotyped in this data - test G6PD activity before use',
+        riskLevel: 'caution' as const
+      };
+    }
+
+    return {
+      ...base,
+      recommendation: 'No tested G6PD deficiency variant - standard use',
+      riskLevel: 'normal' as const,
+      monitoring: 'Untested variants can still cause deficiency - stop the drug if hemolysis occurs'
+    };
+  });
+}
+
+/**
+ * Generate safety alerts
+ */
+function generateSafetyAlerts(genotype: G6PDGenotype): string[] {
+  if (genotype.status === 'Deficient') {
+    return [`⛔ G6PD DEFICIENT (${describeGenotype(genotype)}): AVOID rasburicase, tafenoquine, primaquine and dapsone - acute hemolytic anemia`];
+  }
+  if (genotype.status === 'Variable') {
+    return [`⚠️ G6PD HETEROZYGOUS (${describeGenotype(genotype)}): measure enzyme activity before rasburicase, primaquine, tafenoquine or dapsone`];
+  }
+  return [];
+}
+
+/**
+ * Get provider-specific limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  genotype: G6PDGenotype
+): string[] {
+  const limitations = [
+    'Only A-, Mediterranean, Canton and Kaiping are interpreted - over 200 other deficient G6PD variants are not detected',
+    'Heterozygous females have variable activity (X-inactivation) - only an enzyme activity test can classify them',
+    ...getProviderCoverageLimitations(provider, 'G6PD', genotypes, [...DEFICIENT_VARIANTS, A_VARIANT].map(v => v.rsid))
+  ];
+
+  if (genotype.untestedAlleles) {
+    limitations.push(`Not genotyped: G6PD ${genotype.untestedAlleles.join(', ')} - call may be incomplete`);
+  }
+
+  if (genotype.ploidy === 'undetermined' && genotype.status !== 'Unknown') {
+    limitations.push('X calls reported as allele pairs: a hemizygous male and a homozygous female cannot be told apart (same status)');
+  }
+
+  if (genotype.deficientAlleles.length === 2 && genotype.deficientAlleles[0] !== genotype.deficientAlleles[1]) {
+    limitations.push('Two different deficient variants are assumed to be on different X chromosomes');
+  }
+
+  return limitations;
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(genotype: G6PDGenotype): string {
+  if (genotype.status === 'Unknown') {
+    return 'G6PD Genotype: Unknown\nStatus: Unknown\nConfidence: LOW\n';
+  }
+
+  let summary = `G6PD Genotype: ${describeGenotype(genotype)}\n`;
+  summary += `Status: ${genotype.status}\n`;
+  summary += `Confidence: ${genotype.confidence.toUpperCase()}\n\n`;
+
+  if (genotype.status === 'Deficient') {
+    summary += 'G6PD deficient: oxidant drugs (rasburicase, primaquine, tafenoquine, dapsone) and fava beans can trigger acute hemolysis.\n';
+  } else if (genotype.status === 'Variable') {
+    summary += 'One deficient G6PD allele on two X chromosomes: activity can be anywhere from normal to deficient.\n';
+  } else {
+    summary += 'No tested G6PD deficiency variant.\n';
+  }
+
+  return summary;
+}
+
+/**
+ * Main G6PD analysis function - v2 API
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @returns Comprehensive G6PD analysis results
+ */
+export function analyzeG6PD(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme'
+): G6PDAnalysisResult {
+  const genotype = determineG6PDGenotype(genotypes);
+
+  return {
+    gene: 'G6PD',
+    genotype,
+    drugs: generateDrugRecommendations(genotype.status),
+    clinicalSummary: generateClinicalSummary(genotype),
+    safetyAlerts: generateSafetyAlerts(genotype),
+    confidence: genotype.confidence,
+    limitations: getLimitations(provider, genotypes, genotype),
+    guidelines: {
+      cpic: 'CPIC Guideline for G6PD and Drug Use (PMID: 36049896)',
+      fda: [
+        'FDA Drug Label: Rasburicase - Boxed warning for hemolysis in G6PD deficiency',
+        'FDA Drug Label: Tafenoquine - Contraindicated in G6PD deficiency or unknown status',
+        'FDA Drug Label: Primaquine, Dapsone, Nitrofurantoin - Hemolysis warning in G6PD deficiency'
+      ]
+    },
+    references: getKBReferences('G6PD', genotype.alleles)
+  };
+}
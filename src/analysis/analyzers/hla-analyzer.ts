@@ -0,0 +1,433 @@
+/**
+ * HLA Risk-Allele Screening v2 (tag SNPs)
+ *
+ * HLA class I alleles present drug-modified peptides to T cells. Four of them predict the
+ * most severe immune-mediated drug reactions carried on FDA labels: abacavir hypersensitivity
+ * and carbamazepine / allopurinol / phenytoin SJS-TEN and DRESS.
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - HLA-B*57:01: abacavir hypersensitivity (~50% of carriers) - FDA boxed warning, testing mandatory
+ * - HLA-B*15:02: carbamazepine / oxcarbazepine / phenytoin SJS-TEN (East and Southeast Asians)
+ * - HLA-B*58:01: allopurinol SJS-TEN / DRESS (Han Chinese, Thai, Korean, African ancestry)
+ * - HLA-A*31:01: carbamazepine DRESS and SJS-TEN (Europeans, Japanese)
+ *
+ * TAG SNPs (GRCh37 forward strand):
+ * - rs2395029 (HCP5) G → HLA-B*57:01
+ * - rs3909184 G → HLA-B*15:02
+ * - rs9263726 (PSORS1C1) A → HLA-B*58:01
+ * - rs1061235 (HLA-A 3'UTR) A → HLA-A*31:01
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ HLA genes are the most polymorphic in the genome - SNP arrays cannot type them directly
+ * ⚠️ A tag SNP is only as good as its linkage to the HLA allele in the population it was
+ *    validated in; outside that population both false positives and false negatives occur
+ * ⚠️ A negative tag never clears a patient for abacavir - the label requires HLA typing
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - Results are carrier screens, not HLA types: every positive must be confirmed by direct
+ *   HLA typing, and direct typing is still required before abacavir
+ * - rs1061235 is an A/T SNP: its strand cannot be checked against the KB
+ *
+ * CPIC GUIDELINES:
+ * - Level A: Abacavir (HLA-B*57:01, 2014), Carbamazepine / Oxcarbazepine (HLA-B*15:02,
+ *   HLA-A*31:01, 2017), Allopurinol (HLA-B*58:01, 2015), Phenytoin (HLA-B*15:02, 2020)
+ *
+ * REFERENCES:
+ * - CPIC Guideline HLA-B and Abacavir 2014: PMID 24561393
+ * - CPIC Guideline HLA-B, HLA-A and Carbamazepine/Oxcarbazepine 2017: PMID 29392710
+ * - CPIC Guideline HLA-B and Allopurinol 2015: PMID 26094938
+ * - CPIC Guideline CYP2C9, HLA-B and Phenytoin 2020: PMID 32779747
+ */
+
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { extractStrandNormalized } from '../core/strand-normalization';
+import { auditAlleleDefinitions, getKBReferences } from '../core/pgx-knowledge-base';
+import type { AncestryProportions } from '../core/ancestry-analysis';
+
+export type HLARiskAllele = 'HLA-B*57:01' | 'HLA-B*15:02' | 'HLA-B*58:01' | 'HLA-A*31:01';
+
+export type HLATagStatus = 'Tag Positive' | 'Tag Negative' | 'Not Tested';
+
+export interface HLATagConcordance {
+  population: string;
+  concordance: string;
+}
+
+export interface HLAAlleleScreen {
+  allele: HLARiskAllele;
+  tagSnp: string;
+  genotype: string;                       // Normalized tag genotype, 'Unknown' when not genotyped
+  status: HLATagStatus;
+  tagCopies: number;                      // Copies of the tagging allele
+  validatedForAncestry: boolean | null;   // Tag validated in the predominant ancestry (null if unknown)
+  concordance: HLATagConcordance[];
+  drugs: string[];
+}
+
+export interface HLADrugRecommendation {
+  drug: string;
+  category: string;
+  recommendation: string;
+  riskLevel: 'critical' | 'warning' | 'normal' | 'informational';
+  alleles: HLARiskAllele[];     // Risk alleles behind the recommendation
+  alternativeDrugs?: string[];
+  fdaGuidance: boolean;
+  cpicLevel?: 'A' | 'B' | 'C';
+}
+
+export interface HLAAnalysisResult {
+  gene: 'HLA';
+  alleles: HLAAlleleScreen[];
+  drugs: HLADrugRecommendation[];
+  clinicalSummary: string;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    fda: string[];
+  };
+  references: string[]; // KB evidence for the screened tags
+}
+
+interface HLATagDefinition {
+  allele: HLARiskAllele;
+  gene: 'HLA-A' | 'HLA-B';
+  rsid: string;
+  tagAllele: string;                      // KB forward strand
+  validatedIn: string[];                  // Ancestry panel populations
+  concordance: HLATagConcordance[];
+  drugs: string[];
+}
+
+/**
+ * Published tag SNPs and their concordance with direct HLA typing (population names follow
+ * the ancestry panel)
+ */
+const HLA_TAGS: HLATagDefinition[] = [
+  {
+    allele: 'HLA-B*57:01',
+    gene: 'HLA-B',
+    rsid: 'rs2395029',
+    tagAllele: 'G',
+    validatedIn: ['European'],
+    concordance: [
+      { population: 'European', concordance: '~99% concordant (sensitivity ~95-100%, r² ≈ 1)' },
+      { population: 'Sub-Saharan African', concordance: 'Poor - G also occurs on other HLA-B alleles (low positive predictive value)' },
+      { population: 'East Asian', concordance: 'Not validated - HLA-B*57:01 is rare' },
+      { population: 'South Asian', concordance: 'Moderate - limited validation' }
+    ],
+    drugs: ['Abacavir']
+  },
+  {
+    allele: 'HLA-B*15:02',
+    gene: 'HLA-B',
+    rsid: 'rs3909184',
+    tagAllele: 'G',
+    validatedIn: ['East Asian'],
+    concordance: [
+      { population: 'East Asian', concordance: 'High sensitivity in Han Chinese and Thai; specificity improves with rs2844682' },
+      { population: 'South Asian', concordance: 'Limited validation' },
+      { population: 'European', concordance: 'Not validated - HLA-B*15:02 is very rare' }
+    ],
+    drugs: ['Carbamazepine', 'Oxcarbazepine', 'Phenytoin / Fosphenytoin']
+  },
+  {
+    allele: 'HLA-B*58:01',
+    gene: 'HLA-B',
+    rsid: 'rs9263726',
+    tagAllele: 'A',
+    validatedIn: ['East Asian'],
+    concordance: [
+      { population: 'East Asian', concordance: 'High in Japanese (r² ≈ 1) and Han Chinese' },
+      { population: 'Sub-Saharan African', concordance: 'Not validated' },
+      { population: 'European', concordance: 'Not validated - HLA-B*58:01 ~1%' }
+    ],
+    drugs: ['Allopurinol']
+  },
+  {
+    allele: 'HLA-A*31:01',
+    gene: 'HLA-A',
+    rsid: 'rs1061235',
+    tagAllele: 'A',
+    validatedIn: ['European'],
+    concordance: [
+      { population: 'European', concordance: 'High (r² ≈ 0.9-1)' },
+      { population: 'East Asian', concordance: 'Poor in Japanese and Han Chinese - do not rely on the tag' }
+    ],
+    drugs: ['Carbamazepine']
+  }
+];
+
+auditAlleleDefinitions('HLA-B', HLA_TAGS.filter(t => t.gene === 'HLA-B').map(t => ({ rsid: t.rsid, allele: `${t.allele} proxy` })));
+auditAlleleDefinitions('HLA-A', HLA_TAGS.filter(t => t.gene === 'HLA-A').map(t => ({ rsid: t.rsid, allele: `${t.allele} proxy` })));
+
+/**
+ * Largest population in the ancestry; null when no ancestry is known
+ */
+function predominantPopulation(ancestry?: AncestryProportions): string | null {
+  const ranked = Object.entries(ancestry?.proportions ?? {}).sort(([, a], [, b]) => b - a);
+  return ranked.length > 0 && ranked[0][1] > 0 ? ranked[0][0] : null;
+}
+
+/**
+ * Screen each HLA risk allele through its tag SNP - v2 API
+ */
+export function screenHLAAlleles(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  ancestry?: AncestryProportions
+): HLAAlleleScreen[] {
+  const population = predominantPopulation(ancestry);
+
+  return HLA_TAGS.map(tag => {
+    const genotype = extractStrandNormalized(genotypes, tag.rsid);
+    const tagCopies = genotype ? genotype.split('').filter(a => a === tag.tagAllele).length : 0;
+
+    return {
+      allele: tag.allele,
+      tagSnp: tag.rsid,
+      genotype: genotype ?? 'Unknown',
+      status: !genotype ? 'Not Tested' : tagCopies > 0 ? 'Tag Positive' : 'Tag Negative',
+      tagCopies,
+      validatedForAncestry: population ? tag.validatedIn.includes(population) : null,
+      concordance: tag.concordance,
+      drugs: tag.drugs
+    };
+  });
+}
+
+function isPositive(screens: HLAAlleleScreen[], allele: HLARiskAllele): boolean {
+  return screens.some(s => s.allele === allele && s.status === 'Tag Positive');
+}
+
+function isTested(screens: HLAAlleleScreen[], allele: HLARiskAllele): boolean {
+  return screens.some(s => s.allele === allele && s.status !== 'Not Tested');
+}
+
+/**
+ * Abacavir (CPIC 2014, PMID 24561393)
+ */
+function generateAbacavirRecommendation(screens: HLAAlleleScreen[]): HLADrugRecommendation {
+  const base = {
+    drug: 'Abacavir (Ziagen, Epzicom, Triumeq)',
+    category: 'Antiretrovirals (NRTI)',
+    alleles: ['HLA-B*57:01' as const],
+    fdaGuidance: true,
+    cpicLevel: 'A' as const
+  };
+
+  if (isPositive(screens, 'HLA-B*57:01')) {
+    return {
+      ...base,
+      recommendation: '⛔ HLA-B*57:01 TAG POSITIVE: Abacavir is not recommended (FDA boxed warning, CPIC). Confirm with HLA-B typing before any HIV regimen decision',
+      riskLevel: 'critical',
+      alternativeDrugs: ['Tenofovir-based regimens']
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: isTested(screens, 'HLA-B*57:01')
+      ? 'HLA-B*57:01 tag not detected - direct HLA-B*57:01 typing is still required before abacavir (FDA label)'
+      : 'HLA-B*57:01 tag not genotyped - direct HLA-B*57:01 typing required before abacavir (FDA label)',
+    riskLevel: 'informational'
+  };
+}
+
+/**
+ * Carbamazepine and oxcarbazepine (CPIC 2017, PMID 29392710)
+ */
+function generateCarbamazepineRecommendation(screens: HLAAlleleScreen[]): HLADrugRecommendation {
+  const b1502 = isPositive(screens, 'HLA-B*15:02');
+  const a3101 = isPositive(screens, 'HLA-A*31:01');
+  const base = {
+    drug: 'Carbamazepine (Tegretol) / Oxcarbazepine (Trileptal)',
+    category: 'Anticonvulsants',
+    fdaGuidance: true,
+    cpicLevel: 'A' as const
+  };
+
+  if (b1502) {
+    return {
+      ...base,
+      recommendation: '⛔ HLA-B*15:02 TAG POSITIVE: Avoid carbamazepine and oxcarbazepine in carbamazepine-naive patients (SJS/TEN risk). Confirm with HLA-B typing',
+      riskLevel: 'critical',
+      alleles: a3101 ? ['HLA-B*15:02', 'HLA-A*31:01'] : ['HLA-B*15:02'],
+      alternativeDrugs: ['Levetiracetam', 'Lamotrigine (with caution)', 'Valproate']
+    };
+  }
+
+  if (a3101) {
+    return {
+      ...base,
+      recommendation: '⚠️ HLA-A*31:01 TAG POSITIVE: Avoid carbamazepine if alternatives exist (DRESS, SJS/TEN risk). Confirm with HLA-A typing',
+      riskLevel: 'warning',
+      alleles: ['HLA-A*31:01'],
+      alternativeDrugs: ['Levetiracetam', 'Lamotrigine (with caution)', 'Valproate']
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: 'HLA-B*15:02 and HLA-A*31:01 tags not detected - standard use; tag screening does not replace HLA typing where testing is required',
+    riskLevel: isTested(screens, 'HLA-B*15:02') && isTested(screens, 'HLA-A*31:01') ? 'normal' : 'informational',
+    alleles: ['HLA-B*15:02', 'HLA-A*31:01']
+  };
+}
+
+/**
+ * Phenytoin / fosphenytoin (CPIC 2020, PMID 32779747)
+ */
+function generatePhenytoinRecommendation(screens: HLAAlleleScreen[]): HLADrugRecommendation {
+  const base = {
+    drug: 'Phenytoin / Fosphenytoin (Dilantin)',
+    category: 'Anticonvulsants',
+    alleles: ['HLA-B*15:02' as const],
+    fdaGuidance: true,
+    cpicLevel: 'A' as const
+  };
+
+  if (isPositive(screens, 'HLA-B*15:02')) {
+    return {
+      ...base,
+      recommendation: '⛔ HLA-B*15:02 TAG POSITIVE: Do not start phenytoin unless benefits clearly outweigh SJS/TEN risk (CPIC). Confirm with HLA-B typing',
+      riskLevel: 'critical',
+      alternativeDrugs: ['Levetiracetam', 'Valproate']
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: 'HLA-B*15:02 tag not detected - phenytoin dosing then follows CYP2C9',
+    riskLevel: isTested(screens, 'HLA-B*15:02') ? 'normal' : 'informational'
+  };
+}
+
+/**
+ * Allopurinol (CPIC 2015, PMID 26094938)
+ */
+function generateAllopurinolRecommendation(screens: HLAAlleleScreen[]): HLADrugRecommendation {
+  const base = {
+    drug: 'Allopurinol (Zyloprim)',
+    category: 'Gout / Hyperuricemia',
+    alleles: ['HLA-B*58:01' as const],
+    fdaGuidance: false,
+    cpicLevel: 'A' as const
+  };
+
+  if (isPositive(screens, 'HLA-B*58:01')) {
+    return {
+      ...base,
+      recommendation: '⛔ HLA-B*58:01 TAG POSITIVE: Allopurinol is contraindicated (SJS/TEN, DRESS risk - CPIC). Confirm with HLA-B typing',
+      riskLevel: 'critical',
+      alternativeDrugs: ['Febuxostat', 'Probenecid']
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: 'HLA-B*58:01 tag not detected - standard allopurinol use (start low, titrate)',
+    riskLevel: isTested(screens, 'HLA-B*58:01') ? 'normal' : 'informational'
+  };
+}
+
+/**
+ * Generate safety alerts - one per tag-positive allele
+ */
+function generateSafetyAlerts(screens: HLAAlleleScreen[]): string[] {
+  return screens
+    .filter(s => s.status === 'Tag Positive')
+    .map(s => `⛔ ${s.allele} TAG POSITIVE (${s.tagSnp} ${s.genotype}): ${s.drugs.join(', ')} - severe hypersensitivity risk. Confirm with direct HLA typing`);
+}
+
+/**
+ * Get provider-specific limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  screens: HLAAlleleScreen[]
+): string[] {
+  const limitations = [
+    'HLA alleles are inferred from tag SNPs, not typed - confirm every positive result with direct HLA typing',
+    'A negative tag does not exclude the HLA allele; direct HLA-B*57:01 typing is required before abacavir',
+    ...getProviderCoverageLimitations(provider, 'HLA', genotypes, HLA_TAGS.map(t => t.rsid))
+  ];
+
+  const untested = screens.filter(s => s.status === 'Not Tested');
+  if (untested.length > 0) {
+    limitations.push(`Not genotyped: ${untested.map(s => `${s.allele} (${s.tagSnp})`).join(', ')}`);
+  }
+
+  const unvalidated = screens.filter(s => s.status !== 'Not Tested' && s.validatedForAncestry === false);
+  if (unvalidated.length > 0) {
+    limitations.push(`Tag SNPs not validated for your predominant ancestry: ${unvalidated.map(s => s.allele).join(', ')} - results are less reliable`);
+  }
+
+  return limitations;
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(screens: HLAAlleleScreen[]): string {
+  let summary = 'HLA risk-allele screen (tag SNPs)\n';
+  for (const s of screens) {
+    summary += `${s.allele}: ${s.status}${s.status === 'Not Tested' ? '' : ` (${s.tagSnp} ${s.genotype})`}\n`;
+  }
+
+  const positives = screens.filter(s => s.status === 'Tag Positive');
+  summary += positives.length > 0
+    ? `\n⛔ ${positives.map(s => s.allele).join(', ')} tag positive: avoid ${[...new Set(positives.flatMap(s => s.drugs))].join(', ')} until direct HLA typing rules the allele out.\n`
+    : '\nNo HLA risk-allele tag detected. Tag screening does not replace HLA typing before abacavir.\n';
+
+  return summary;
+}
+
+/**
+ * Main HLA screening function - v2 API
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @param ancestry - Declared or inferred ancestry, to flag tags not validated in it
+ * @returns HLA risk-allele screen with drug recommendations
+ */
+export function analyzeHLA(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme',
+  ancestry?: AncestryProportions
+): HLAAnalysisResult {
+  const screens = screenHLAAlleles(genotypes, ancestry);
+  const tested = screens.filter(s => s.status !== 'Not Tested').length;
+
+  return {
+    gene: 'HLA',
+    alleles: screens,
+    drugs: [
+      generateAbacavirRecommendation(screens),
+      generateCarbamazepineRecommendation(screens),
+      generatePhenytoinRecommendation(screens),
+      generateAllopurinolRecommendation(screens)
+    ],
+    clinicalSummary: generateClinicalSummary(screens),
+    safetyAlerts: generateSafetyAlerts(screens),
+    // Tag SNPs are proxies: never high confidence
+    confidence: tested === screens.length ? 'medium' : 'low',
+    limitations: getLimitations(provider, genotypes, screens),
+    guidelines: {
+      cpic: 'CPIC Guidelines for HLA-B/abacavir (PMID: 24561393), HLA-B/HLA-A/carbamazepine (PMID: 29392710), HLA-B/allopurinol (PMID: 26094938), HLA-B/phenytoin (PMID: 32779747)',
+      fda: [
+        'Abacavir: boxed warning - screen for HLA-B*57:01 before starting',
+        'Carbamazepine: boxed warning - test for HLA-B*15:02 in patients of Asian ancestry',
+        'Phenytoin: consider avoiding in HLA-B*15:02 carriers'
+      ]
+    },
+    references: [
+      ...getKBReferences('HLA-B', HLA_TAGS.filter(t => t.gene === 'HLA-B').map(t => `${t.allele} proxy`)),
+      ...getKBReferences('HLA-A', HLA_TAGS.filter(t => t.gene === 'HLA-A').map(t => `${t.allele} proxy`))
+    ]
+  };
+}
@@ -0,0 +1,452 @@
+/**
+ * NAT2 Pharmacogenomics Analyzer v2
+ *
+ * NAT2 encodes N-acetyltransferase 2, the phase II enzyme that acetylates hydrazine and
+ * arylamine drugs (isoniazid, hydralazine, procainamide, sulfapyridine from sulfasalazine) and
+ * dietary / environmental arylamines (heterocyclic amines from charred meat, tobacco smoke).
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - Trimodal phenotype: rapid, intermediate and slow acetylators
+ * - Slow acetylators: ~50% of Europeans and Africans, ~10% of East Asians
+ * - Slow acetylators have 2-3x higher isoniazid exposure and 3-4x the hepatotoxicity risk
+ * - Rapid acetylators have more treatment failure on intermittent isoniazid regimens
+ *
+ * KEY SUBSTRATES:
+ * 🔥 ISONIAZID: Hepatotoxicity and peripheral neuropathy in slow acetylators
+ * 🔥 HYDRALAZINE / PROCAINAMIDE: Drug-induced lupus in slow acetylators
+ * 🔥 SULFASALAZINE: Sulfapyridine toxicity (GI, headache, hemolysis) in slow acetylators
+ *
+ * CRITICAL VARIANTS (standard 7-SNP panel, GRCh37 forward strand - NAT2 is on the forward strand):
+ * Slow-defining (one per slow allele):
+ * - rs1801280 (c.341T>C, I114T): *5 - most common slow allele in Europeans
+ * - rs1799930 (c.590G>A, R197Q): *6
+ * - rs1799931 (c.857G>A, G286E): *7 - more frequent in East Asians
+ * - rs1801279 (c.191G>A, R64Q): *14 - African ancestry
+ * Activity-neutral (resolve the rapid haplotype):
+ * - rs1041983 (c.282C>T): *13, also on *6A, *7B and *14B
+ * - rs1799929 (c.481C>T): *11, also on *5A/*5B
+ * - rs1208 (c.803A>G): *12, also on *5B
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ Array data is unphased: two different heterozygous slow variants are assumed to be on
+ *    different chromosomes (slow) - they rarely share a haplotype
+ * ⚠️ The reference genome carries the rapid *4 haplotype
+ * ⚠️ rs1799929 and rs1208 usually travel on *5: with rs1801280 untested, *5 is reported as
+ *    unresolved rather than ruled out by an *11/*12 call
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - Rare slow alleles (*17, *19 ...) are not detected
+ * - Acetylator phenotype also depends on age, liver disease and co-medication
+ *
+ * CPIC GUIDELINES:
+ * - NO CPIC guideline for NAT2 - all guidance is informational
+ * - FDA labels (isoniazid, hydralazine, procainamide, sulfasalazine) describe slow-acetylator effects
+ *
+ * REFERENCES:
+ * - Hein 2000 (NAT1/NAT2 molecular genetics): PMID 10667461
+ * - Azuma 2013 (Eur J Clin Pharmacol, NAT2 genotype-guided isoniazid RCT)
+ * - PharmGKB NAT2: www.pharmgkb.org/gene/PA18
+ */
+
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  readHaplotypePhase,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
+import { auditAlleleDefinitions, getKBReferences } from '../core/pgx-knowledge-base';
+
+export type NAT2Phenotype =
+  | 'Rapid Acetylator'
+  | 'Intermediate Acetylator'
+  | 'Slow Acetylator'
+  | 'Unknown';
+
+/**
+ * The one NAT2 interpretation shared by the PGx analyzer and the nutrigenomics detox section
+ */
+export interface NAT2Genotype {
+  allele1: string;
+  allele2: string;
+  phenotype: NAT2Phenotype;
+  acetylatorStatus: 'fast' | 'intermediate' | 'slow' | 'unknown'; // Nutrigenomics detox wording
+  slowAlleles: number;
+  snps: Array<{ rsid: string; change: string; genotype: string }>; // 'Unknown' when not genotyped
+  detectedVariants: string[];
+  confidence: 'high' | 'medium' | 'low';
+  untestedAlleles?: string[]; // Slow alleles whose core position was not genotyped and are not ruled out
+}
+
+export interface NAT2DrugRecommendation {
+  drug: string;
+  category: string;
+  recommendation: string;
+  doseAdjustment?: string;
+  riskLevel: 'warning' | 'caution' | 'normal' | 'informational';
+  monitoring?: string;
+}
+
+export interface NAT2AnalysisResult {
+  gene: 'NAT2';
+  genotype: NAT2Genotype;
+  drugs: NAT2DrugRecommendation[];
+  clinicalSummary: string;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    notes: string[];
+  };
+  references: string[]; // KB evidence for the called alleles
+}
+
+/**
+ * Genotyped NAT2 positions: slow-defining first, then activity-neutral
+ */
+const NAT2_SNPS: Array<{ rsid: string; allele: string; change: string }> = [
+  { rsid: 'rs1801280', allele: '*5', change: 'c.341T>C' },
+  { rsid: 'rs1799930', allele: '*6', change: 'c.590G>A' },
+  { rsid: 'rs1799931', allele: '*7', change: 'c.857G>A' },
+  { rsid: 'rs1801279', allele: '*14', change: 'c.191G>A' },
+  { rsid: 'rs1041983', allele: '*13', change: 'c.282C>T' },
+  { rsid: 'rs1799929', allele: '*11', change: 'c.481C>T' },
+  { rsid: 'rs1208', allele: '*12', change: 'c.803A>G' }
+];
+
+auditAlleleDefinitions('NAT2', NAT2_SNPS.map(({ rsid, allele }) => ({ rsid, allele })));
+
+/**
+ * NAT2 allele definitions (GRCh37 forward strand). Each slow allele is defined by its core
+ * variant and may carry activity-neutral variants (*5A/*5B/*5C, *6A, *7B, *14B); those forms
+ * are listed before the rapid *11, *12 and *13 so an activity-neutral variant is explained
+ * by the slow allele it travels with when the data allow both readings. An untested slow core
+ * position is never inferred from its passenger variants - the allele is reported unresolved.
+ */
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'NAT2',
+  alleles: [
+    { allele: '*4', variants: {}, function: 'Normal' },
+    { allele: '*5', core: ['rs1801280'], variants: { rs1801280: 'C', rs1799929: 'T', rs1208: 'G' }, function: 'Decreased' }, // *5B
+    { allele: '*5', core: ['rs1801280'], variants: { rs1801280: 'C', rs1799929: 'T' }, function: 'Decreased' },              // *5A
+    { allele: '*5', core: ['rs1801280'], variants: { rs1801280: 'C', rs1208: 'G' }, function: 'Decreased' },                 // *5C
+    { allele: '*5', core: ['rs1801280'], variants: { rs1801280: 'C' }, function: 'Decreased' },                              // *5D
+    { allele: '*6', core: ['rs1799930'], variants: { rs1799930: 'A', rs1041983: 'T' }, function: 'Decreased' },             // *6A
+    { allele: '*6', core: ['rs1799930'], variants: { rs1799930: 'A' }, function: 'Decreased' },
+    { allele: '*7', core: ['rs1799931'], variants: { rs1799931: 'A', rs1041983: 'T' }, function: 'Decreased' },             // *7B
+    { allele: '*7', core: ['rs1799931'], variants: { rs1799931: 'A' }, function: 'Decreased' },
+    { allele: '*14', core: ['rs1801279'], variants: { rs1801279: 'A', rs1041983: 'T' }, function: 'Decreased' },            // *14B
+    { allele: '*14', core: ['rs1801279'], variants: { rs1801279: 'A' }, function: 'Decreased' },
+    { allele: '*11', variants: { rs1799929: 'T' }, function: 'Normal' },
+    { allele: '*12', variants: { rs1208: 'G' }, function: 'Normal' },
+    { allele: '*13', variants: { rs1041983: 'T' }, function: 'Normal' }
+  ]
+};
+
+const SLOW_ALLELES = new Set(ALLELE_TABLE.alleles.filter(a => a.function === 'Decreased').map(a => a.allele));
+const SLOW_CORE_POSITIONS = ['rs1801280', 'rs1799930', 'rs1799931', 'rs1801279'];
+const ALLELE_ORDER = [...new Set(ALLELE_TABLE.alleles.map(a => a.allele))];
+
+const ACETYLATOR_STATUS: Record<NAT2Phenotype, NAT2Genotype['acetylatorStatus']> = {
+  'Rapid Acetylator': 'fast',
+  'Intermediate Acetylator': 'intermediate',
+  'Slow Acetylator': 'slow',
+  'Unknown': 'unknown'
+};
+
+/**
+ * Rapid alleles before slow ones, then in definition order (*13/*5, *7/*14)
+ */
+function compareAlleles(a: string, b: string): number {
+  return Number(SLOW_ALLELES.has(a)) - Number(SLOW_ALLELES.has(b)) || ALLELE_ORDER.indexOf(a) - ALLELE_ORDER.indexOf(b);
+}
+
+/**
+ * Determine NAT2 diplotype and acetylator phenotype - v2 API
+ *
+ * The acetylator class counts the slow alleles of the most likely diplotype. With more slow
+ * variants than chromosomes the closest pair is kept and confidence drops to medium.
+ */
+export function determineNAT2Genotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): NAT2Genotype {
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
+
+  const snps = NAT2_SNPS.map(({ rsid, change }) => ({
+    rsid,
+    change,
+    genotype: genotypeSet.get(rsid) ?? 'Unknown'
+  }));
+
+  if (!SLOW_CORE_POSITIONS.some(rsid => genotypeSet.has(rsid))) {
+    return {
+      allele1: 'Unknown',
+      allele2: 'Unknown',
+      phenotype: 'Unknown',
+      acetylatorStatus: 'unknown',
+      slowAlleles: 0,
+      snps,
+      detectedVariants: [],
+      confidence: 'low'
+    };
+  }
+
+  const [allele1, allele2] = [...call.candidates[0].alleles].sort(compareAlleles);
+  const slowAlleles = [allele1, allele2].filter(a => SLOW_ALLELES.has(a)).length;
+  const unresolved = call.unresolvedAlleles.filter(a => SLOW_ALLELES.has(a));
+
+  const phenotype: NAT2Phenotype =
+    slowAlleles === 2 ? 'Slow Acetylator'
+      : slowAlleles === 1 ? 'Intermediate Acetylator'
+        : 'Rapid Acetylator';
+
+  return {
+    allele1,
+    allele2,
+    phenotype,
+    acetylatorStatus: ACETYLATOR_STATUS[phenotype],
+    slowAlleles,
+    snps,
+    detectedVariants: NAT2_SNPS.map(v => v.rsid).filter(rsid => call.observedVariants.includes(rsid)),
+    // Two slow alleles cannot be changed by an untested position
+    confidence: !call.consistent ? 'medium' : unresolved.length === 0 || slowAlleles === 2 ? 'high' : 'medium',
+    untestedAlleles: unresolved.length > 0 ? unresolved : undefined
+  };
+}
+
+/**
+ * Isoniazid (no CPIC guideline - NAT2-guided dosing from Azuma 2013)
+ */
+function generateIsoniazidRecommendation(phenotype: NAT2Phenotype): NAT2DrugRecommendation {
+  const base = {
+    drug: 'Isoniazid',
+    category: 'Antituberculosis'
+  };
+
+  switch (phenotype) {
+    case 'Slow Acetylator':
+      return {
+        ...base,
+        recommendation: '⚠️ SLOW ACETYLATOR: 2-3x higher isoniazid exposure - increased hepatotoxicity and peripheral neuropathy risk',
+        doseAdjustment: 'NAT2-guided regimens use ~2.5 mg/kg/day (standard 5 mg/kg). Pyridoxine (vitamin B6) 25-50 mg daily',
+        riskLevel: 'warning',
+        monitoring: 'Liver function tests monthly; symptoms of neuropathy'
+      };
+    case 'Rapid Acetylator':
+      return {
+        ...base,
+        recommendation: 'RAPID ACETYLATOR: Lower isoniazid exposure - more treatment failure with intermittent (once or twice weekly) regimens',
+        doseAdjustment: 'Prefer daily dosing; NAT2-guided regimens use ~7.5 mg/kg/day',
+        riskLevel: 'caution'
+      };
+    case 'Intermediate Acetylator':
+      return {
+        ...base,
+        recommendation: 'Intermediate acetylator - standard isoniazid dosing',
+        doseAdjustment: 'Standard dose (5 mg/kg/day)',
+        riskLevel: 'normal'
+      };
+    default:
+      return {
+        ...base,
+        recommendation: 'NAT2 acetylator status unknown - standard dosing with liver function monitoring',
+        riskLevel: 'informational'
+      };
+  }
+}
+
+/**
+ * Hydralazine (FDA label - lupus in slow acetylators)
+ */
+function generateHydralazineRecommendation(phenotype: NAT2Phenotype): NAT2DrugRecommendation {
+  const base = {
+    drug: 'Hydralazine',
+    category: 'Antihypertensives'
+  };
+
+  if (phenotype === 'Slow Acetylator') {
+    return {
+      ...base,
+      recommendation: '⚠️ SLOW ACETYLATOR: Higher hydralazine levels - increased risk of drug-induced lupus, especially above 200 mg/day',
+      doseAdjustment: 'Use the lowest effective dose; avoid long-term doses above 200 mg/day',
+      riskLevel: 'caution',
+      monitoring: 'ANA and lupus-like symptoms (arthralgia, rash, serositis)'
+    };
+  }
+
+  if (phenotype === 'Rapid Acetylator') {
+    return {
+      ...base,
+      recommendation: 'RAPID ACETYLATOR: Faster clearance - reduced blood pressure response at usual doses',
+      doseAdjustment: 'Higher doses may be needed - titrate to blood pressure',
+      riskLevel: 'caution'
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: phenotype === 'Unknown'
+      ? 'NAT2 acetylator status unknown - standard dosing'
+      : 'Intermediate acetylator - standard hydralazine dosing',
+    riskLevel: phenotype === 'Unknown' ? 'informational' : 'normal'
+  };
+}
+
+/**
+ * Procainamide (FDA label - lupus in slow acetylators, NAPA in rapid)
+ */
+function generateProcainamideRecommendation(phenotype: NAT2Phenotype): NAT2DrugRecommendation {
+  const base = {
+    drug: 'Procainamide',
+    category: 'Antiarrhythmics'
+  };
+
+  if (phenotype === 'Slow Acetylator') {
+    return {
+      ...base,
+      recommendation: '⚠️ SLOW ACETYLATOR: Lupus-like syndrome develops earlier and more often',
+      riskLevel: 'caution',
+      monitoring: 'ANA during long-term therapy; procainamide plasma levels'
+    };
+  }
+
+  if (phenotype === 'Rapid Acetylator') {
+    return {
+      ...base,
+      recommendation: 'RAPID ACETYLATOR: More N-acetylprocainamide (NAPA) formed - QT prolongation if NAPA accumulates',
+      riskLevel: 'caution',
+      monitoring: 'Procainamide and NAPA levels, especially in renal impairment'
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: phenotype === 'Unknown'
+      ? 'NAT2 acetylator status unknown - monitor procainamide and NAPA levels'
+      : 'Intermediate acetylator - standard procainamide dosing with level monitoring',
+    riskLevel: phenotype === 'Unknown' ? 'informational' : 'normal'
+  };
+}
+
+/**
+ * Sulfasalazine (FDA label - sulfapyridine toxicity in slow acetylators)
+ */
+function generateSulfasalazineRecommendation(phenotype: NAT2Phenotype): NAT2DrugRecommendation {
+  const base = {
+    drug: 'Sulfasalazine',
+    category: 'DMARDs / IBD'
+  };
+
+  if (phenotype === 'Slow Acetylator') {
+    return {
+      ...base,
+      recommendation: '⚠️ SLOW ACETYLATOR: Higher sulfapyridine levels - more nausea, headache and hemolysis',
+      doseAdjustment: 'Start low and titrate slowly; adverse effects are more common above 2 g/day',
+      riskLevel: 'caution',
+      monitoring: 'Full blood count (hemolysis)'
+    };
+  }
+
+  return {
+    ...base,
+    recommendation: phenotype === 'Unknown'
+      ? 'NAT2 acetylator status unknown - standard dosing'
+      : `${phenotype} - standard sulfasalazine dosing`,
+    riskLevel: phenotype === 'Unknown' ? 'informational' : 'normal'
+  };
+}
+
+/**
+ * Generate safety alerts
+ */
+function generateSafetyAlerts(genotype: NAT2Genotype): string[] {
+  if (genotype.phenotype === 'Slow Acetylator') {
+    return [`⚠️ ISONIAZID: NAT2 slow acetylator (${genotype.allele1}/${genotype.allele2}) - increased hepatotoxicity and neuropathy risk; pyridoxine, liver monitoring and a reduced dose`];
+  }
+  return [];
+}
+
+/**
+ * Get provider-specific limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  genotype: NAT2Genotype
+): string[] {
+  const limitations = [
+    'Only *5, *6, *7 and *14 slow alleles are detected - rarer slow alleles are read as rapid',
+    'Array data is unphased - two different slow variants are assumed to be on different chromosomes',
+    ...getProviderCoverageLimitations(provider, 'NAT2', genotypes, getTablePositions(ALLELE_TABLE))
+  ];
+
+  if (genotype.untestedAlleles && genotype.phenotype !== 'Unknown') {
+    limitations.push(`Not genotyped: NAT2 ${genotype.untestedAlleles.join(', ')} - acetylation may be slower than reported`);
+  }
+
+  return limitations;
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(genotype: NAT2Genotype): string {
+  const { allele1, allele2, phenotype, confidence } = genotype;
+
+  let summary = `NAT2 Diplotype: ${allele1}/${allele2}\n`;
+  summary += `Phenotype: ${phenotype}\n`;
+  summary += `Confidence: ${confidence.toUpperCase()}\n\n`;
+
+  if (phenotype === 'Slow Acetylator') {
+    summary += 'Slow acetylator: higher exposure to isoniazid, hydralazine, procainamide and sulfasalazine, and longer exposure to dietary arylamines.\n';
+  } else if (phenotype === 'Rapid Acetylator') {
+    summary += 'Rapid acetylator: faster clearance of isoniazid and hydralazine.\n';
+  } else if (phenotype === 'Intermediate Acetylator') {
+    summary += 'Intermediate acetylator: standard dosing for NAT2 substrates.\n';
+  }
+
+  return summary;
+}
+
+/**
+ * Main NAT2 analysis function - v2 API
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @returns Comprehensive NAT2 analysis results
+ */
+export function analyzeNAT2(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme'
+): NAT2AnalysisResult {
+  const genotype = determineNAT2Genotype(genotypes);
+
+  return {
+    gene: 'NAT2',
+    genotype,
+    drugs: [
+      generateIsoniazidRecommendation(genotype.phenotype),
+      generateHydralazineRecommendation(genotype.phenotype),
+      generateProcainamideRecommendation(genotype.phenotype),
+      generateSulfasalazineRecommendation(genotype.phenotype)
+    ],
+    clinicalSummary: generateClinicalSummary(genotype),
+    safetyAlerts: generateSafetyAlerts(genotype),
+    confidence: genotype.confidence,
+    limitations: getLimitations(provider, genotypes, genotype),
+    guidelines: {
+      cpic: 'No CPIC guideline for NAT2',
+      notes: [
+        'FDA labels for isoniazid, hydralazine, procainamide and sulfasalazine describe slow-acetylator effects',
+        'Acetylator status is shared with the nutrigenomics detoxification section'
+      ]
+    },
+    references: getKBReferences('NAT2', [genotype.allele1, genotype.allele2])
+  };
+}
@@ -0,0 +1,214 @@
+/**
+ * NUDT15 Pharmacogenomics Analyzer v2
+ *
+ * NUDT15 encodes nudix hydrolase 15, which dephosphorylates the active thiopurine metabolites
+ * (thio-dGTP), limiting their incorporation into DNA. Loss of NUDT15 function causes severe,
+ * early-onset myelosuppression on standard thiopurine doses.
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - Explains most thiopurine intolerance in East Asian and Hispanic patients, where TPMT variants are rare
+ * - Risk allele frequency: ~10% East Asians, ~7% Hispanics/Native Americans, <1% Europeans/Africans
+ * - Poor metabolizers: life-threatening leukopenia and alopecia within weeks of a standard dose
+ *
+ * KEY SUBSTRATES:
+ * 🔥 THIOPURINES:
+ *    - Mercaptopurine (ALL maintenance, IBD)
+ *    - Azathioprine (IBD, transplant, autoimmune disease)
+ *    - Thioguanine (AML, ALL)
+ *
+ * CRITICAL VARIANTS:
+ * - NUDT15 c.415C>T (rs116855232, p.R139C): No function - defines *3 and is part of *2
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ *2 (p.R139C + c.55_56insGAGTCG) cannot be distinguished from *3 with this SNP alone;
+ *    both are no-function, so the call is reported as *3
+ * ⚠️ Thiopurine dosing must combine NUDT15 with TPMT - see analyzeTPMT
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - Rare no-function alleles (*4, *5, *6, *9) are not interpreted
+ *
+ * CLINICAL IMPACT:
+ * - FDA labels (mercaptopurine, azathioprine, thioguanine): NUDT15 deficiency testing recommended
+ *   for patients with severe myelosuppression
+ *
+ * CPIC GUIDELINES:
+ * - Level A evidence for mercaptopurine, azathioprine and thioguanine
+ *
+ * REFERENCES:
+ * - CPIC Guideline TPMT/NUDT15 and Thiopurines 2018: PMID 30447069
+ * - Yang et al. Nat Genet 2014 (NUDT15 discovery): PMID 25108385
+ * - Moriyama et al. Nat Genet 2016 (NUDT15 mechanism): PMID 26878724
+ */
+
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { auditAlleleDefinitions, getKBReferences } from '../core/pgx-knowledge-base';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  readHaplotypePhase,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
+
+export type NUDT15Phenotype =
+  | 'Normal Metabolizer'
+  | 'Intermediate Metabolizer'
+  | 'Poor Metabolizer'
+  | 'Unknown';
+
+export interface NUDT15Diplotype {
+  allele1: string;
+  allele2: string;
+  phenotype: NUDT15Phenotype;
+  confidence: 'high' | 'medium' | 'low';
+  detectedVariants: string[];
+}
+
+export interface NUDT15AnalysisResult {
+  gene: 'NUDT15';
+  diplotype: NUDT15Diplotype;
+  clinicalSummary: string;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    fda: string[];
+  };
+  references: string[]; // KB evidence for the called alleles
+}
+
+auditAlleleDefinitions('NUDT15', [
+  { rsid: 'rs116855232', allele: '*3' }
+]);
+
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'NUDT15',
+  alleles: [
+    { allele: '*1', variants: {}, function: 'Normal' },
+    { allele: '*3', variants: { rs116855232: 'T' }, function: 'No function' } // c.415C>T (p.R139C)
+  ]
+};
+
+/**
+ * Determine NUDT15 diplotype from genotypes - v2 API
+ *
+ * rs116855232 (c.415C>T, forward strand C>T) is the only interpreted position and is required.
+ */
+export function determineNUDT15Diplotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): NUDT15Diplotype {
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
+
+  if (call.testedPositions.length === 0) {
+    return {
+      allele1: 'Unknown',
+      allele2: 'Unknown',
+      phenotype: 'Unknown',
+      confidence: 'low',
+      detectedVariants: []
+    };
+  }
+
+  const [allele1, allele2] = call.candidates[0].alleles;
+  const noFunction = [allele1, allele2].filter(a => a !== '*1').length;
+
+  return {
+    allele1,
+    allele2,
+    phenotype: noFunction === 2 ? 'Poor Metabolizer' : noFunction === 1 ? 'Intermediate Metabolizer' : 'Normal Metabolizer',
+    confidence: 'high',
+    detectedVariants: call.observedVariants
+  };
+}
+
+/**
+ * Generate safety alerts
+ */
+function generateSafetyAlerts(diplotype: NUDT15Diplotype): string[] {
+  if (diplotype.phenotype === 'Poor Metabolizer') {
+    return ['🚨 THIOPURINES: NUDT15 poor metabolizer - avoid azathioprine/mercaptopurine for non-malignant conditions; drastically reduced dose for malignancy'];
+  }
+  if (diplotype.phenotype === 'Intermediate Metabolizer') {
+    return ['⚠️ THIOPURINES: NUDT15 intermediate metabolizer - start mercaptopurine/azathioprine at 30-80% of standard dose'];
+  }
+  return [];
+}
+
+/**
+ * Get provider-specific limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>
+): string[] {
+  return [
+    'Only c.415C>T (rs116855232) is interpreted - rare no-function alleles (*4, *5, *6, *9) are not detected',
+    'NUDT15 *2 and *3 share c.415C>T and are both reported as *3 (same no-function classification)',
+    'Thiopurine dosing must also account for TPMT status and should be adjusted by blood counts',
+    ...getProviderCoverageLimitations(provider, 'NUDT15', genotypes, getTablePositions(ALLELE_TABLE))
+  ];
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(diplotype: NUDT15Diplotype): string {
+  const { allele1, allele2, phenotype, confidence } = diplotype;
+
+  let summary = `NUDT15 Diplotype: ${allele1}/${allele2}\n`;
+  summary += `Phenotype: ${phenotype}\n`;
+  summary += `Confidence: ${confidence.toUpperCase()}\n\n`;
+
+  summary += `CLINICAL INTERPRETATION:\n`;
+
+  if (phenotype === 'Poor Metabolizer') {
+    summary += `You carry two no-function NUDT15 alleles. Standard thiopurine doses cause severe, early myelosuppression.\n`;
+  } else if (phenotype === 'Intermediate Metabolizer') {
+    summary += `You carry one no-function NUDT15 allele. Thiopurines need a reduced starting dose.\n`;
+  } else if (phenotype === 'Normal Metabolizer') {
+    summary += `No NUDT15 no-function variant detected. Thiopurine dosing depends on TPMT status.\n`;
+  } else {
+    summary += `NUDT15 status could not be determined (rs116855232 not genotyped).\n`;
+  }
+
+  return summary;
+}
+
+/**
+ * Main NUDT15 analysis function - v2 API
+ *
+ * Drug-level thiopurine guidance combines NUDT15 with TPMT and is produced by analyzeTPMT.
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @returns NUDT15 analysis results
+ */
+export function analyzeNUDT15(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme'
+): NUDT15AnalysisResult {
+  const diplotype = determineNUDT15Diplotype(genotypes);
+
+  return {
+    gene: 'NUDT15',
+    diplotype,
+    clinicalSummary: generateClinicalSummary(diplotype),
+    safetyAlerts: generateSafetyAlerts(diplotype),
+    confidence: diplotype.confidence,
+    limitations: getLimitations(provider, genotypes),
+    guidelines: {
+      cpic: 'CPIC Guideline for TPMT and NUDT15 and Thiopurines (PMID: 30447069)',
+      fda: [
+        'FDA Drug Label: Mercaptopurine - TPMT and NUDT15 deficiency',
+        'FDA Drug Label: Azathioprine - TPMT and NUDT15 deficiency',
+        'FDA Drug Label: Thioguanine - TPMT and NUDT15 deficiency'
+      ]
+    },
+    references: getKBReferences('NUDT15', [diplotype.allele1, diplotype.allele2])
+  };
+}
@@ -2,15 +2,14 @@
  * SLCO1B1 Pharmacogenomics Analyzer v2
  * 
  * FIXES FROM v1:
- * 1. ✅ REMOVED INVALID STAR ALLELES (*1a, *1b, *14, *15, *17, *20, *21)
- *    - Only *1, *5, and *15 are clinically validated by CPIC
+ * 1. ✅ REMOVED INVALID STAR ALLELES (*1a, *1b, *14, *17, *20, *21)
  *    - v1 incorrectly included non-standard alleles
  * 2. ✅ Added genotype normalization (no provider format assumptions)
  * 3. ✅ Proper "Unknown" phenotype handling
- * 4. ✅ Statin-specific risk stratification (atorvastatin, simvastatin differ)
+ * 4. ✅ Per-statin dose ceilings (CPIC 2022) for all seven statins
  * 5. ✅ Added confidence scoring
  * 6. ✅ Enhanced clinical recommendations with CPIC guidelines
- * 7. ✅ Drug-specific myopathy risk quantification
+ * 7. ✅ ABCG2 (rosuvastatin) and CYP2C9 (fluvastatin) in the statin guidance
  * 
  * SLCO1B1 encodes OATP1B1 (Organic Anion Transporting Polypeptide 1B1),
  * a hepatic uptake transporter critical for statin disposition.
@@ -19,24 +18,47 @@
  * - Transports statins from blood INTO liver cells
  * - Reduced function = higher statin blood levels = increased myopathy risk
  * 
- * CRITICAL VARIANT:
- * - SLCO1B1*5 (rs4149056, T>C, p.Val174Ala): ~50% reduced transporter function
+ * CRITICAL VARIANTS (GRCh37 forward strand):
+ * - rs4149056 (c.521T>C, p.Val174Ala): the function-defining variant of *5 and *15
+ * - rs2306283 (c.388A>G, p.Asn130Asp): separates *37 from *1 and *15 from *5
  * 
  * CLINICAL IMPACT:
  * - *5/*5 carriers: 16-17x increased simvastatin myopathy risk
  * - *1/*5 carriers: 4-5x increased simvastatin myopathy risk
  * - FDA warning for simvastatin 80mg (highest myopathy risk)
  * 
- * STAR ALLELE NOMENCLATURE (CPIC):
- * - *1 = Normal function (rs4149056 T/T)
- * - *5 = Decreased function (rs4149056 C/C or T/C)
- * - *15 = Decreased function (includes *5 + other variants)
+ * STAR ALLELE NOMENCLATURE (CPIC 2022):
+ * - *1 = Normal function (c.388A, c.521T)
+ * - *37 = Normal function (c.388G, c.521T; formerly *1B)
+ * - *5 = Decreased function (c.388A, c.521C)
+ * - *15 = Decreased function (c.388G, c.521C)
  * 
- * NOTE: This analyzer uses simplified *1/*5 nomenclature as *15 requires
- * additional variants (rs2306283) not commonly tested.
+ * NOTE: Function depends on c.521T>C only, so the phenotype is called from rs4149056 alone.
+ * Heterozygous at both positions is reported as *1/*15 (*5/*37 is rarer and has the same
+ * phenotype).
+ * 
+ * STATIN GUIDANCE: per-statin ceilings and alternatives come from core/statin-dosing,
+ * combining SLCO1B1 with ABCG2 rs2231142 (rosuvastatin) and CYP2C9 (fluvastatin).
  */
 
-import { extractAndNormalize, type GeneticProvider } from '../utils/genotype-utils';
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  readHaplotypePhase,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
+import { auditAlleleDefinitions, getKBReferences } from '../core/pgx-knowledge-base';
+import {
+  calculateStatinGuidance,
+  determineABCG2Genotype,
+  type ABCG2Genotype,
+  type StatinGuidance
+} from '../core/statin-dosing';
 
 export interface SLCO1B1Diplotype {
   allele1: string;
@@ -44,22 +66,16 @@ export interface SLCO1B1Diplotype {
   phenotype: 'Normal Function' | 'Decreased Function' | 'Poor Function' | 'Unknown';
   functionScore: number; // 0.0 to 2.0 (sum of allele functions)
   confidence: 'high' | 'medium' | 'low';
-}
-
-export interface StatinRecommendation {
-  statin: string;
-  myopathyRisk: 'Normal' | 'Moderately Increased' | 'High' | 'Very High';
-  riskMultiplier: string; // e.g., "4-5x baseline"
-  recommendation: string;
-  doseAdjustment: string;
-  monitoring: string;
-  cpicGuideline: boolean;
+  phaseAmbiguity?: boolean;   // True if *1/*15 vs *5/*37 could not be resolved
+  untestedAlleles?: string[]; // Alleles whose positions were not genotyped
 }
 
 export interface SLCO1B1AnalysisResult {
   gene: 'SLCO1B1';
   diplotype: SLCO1B1Diplotype;
-  drugs: StatinRecommendation[]; // v2 standard: "drugs" not "statinRecommendations"
+  abcg2: ABCG2Genotype;          // Rosuvastatin
+  cyp2c9Phenotype: string | null; // Fluvastatin
+  drugs: StatinGuidance[];       // One entry per statin (v2 standard: "drugs")
   clinicalSummary: string;
   safetyAlerts: string[];
   confidence: 'high' | 'medium' | 'low';
@@ -68,66 +84,52 @@ export interface SLCO1B1AnalysisResult {
     cpic: string;
     fda: string[];
   };
+  references: string[];
 }
 
 /**
  * SLCO1B1 star allele function scores
- * Based on CPIC guidelines (Updated October 2025)
+ * Based on CPIC guidelines (2022 statin update)
  * 
  * CPIC ALLELE ASSIGNMENTS:
- * - *1: Normal Function (Score: 1.0)
- * - *5 (rs4149056 C): No Function (Score: 0.0) 
- * - *15: No Function (Score: 0.0) - includes *5
+ * - *1, *37: Normal Function (Score: 1.0)
+ * - *5, *15 (rs4149056 C): Decreased Function (Score: 0.0)
  * 
  * PHENOTYPE MAPPING:
- * - Score >= 1.5: Normal Function (*1/*1 = 2.0)
- * - Score 0.5-1.0: Decreased Function (*1/*5 = 1.0)
- * - Score < 0.5: Poor Function (*5/*5 = 0.0)
+ * - Score >= 1.5: Normal Function (*1/*1, *1/*37 = 2.0)
+ * - Score 0.5-1.0: Decreased Function (*1/*5, *1/*15 = 1.0)
+ * - Score < 0.5: Poor Function (*5/*5, *5/*15, *15/*15 = 0.0)
  * 
- * Clinical Reference: PMID: 24918167
+ * Clinical Reference: PMID: 35152405
  */
 const ALLELE_FUNCTION: Record<string, number> = {
   '*1': 1.0,  // Normal function
-  '*5': 0.0,  // No function (rs4149056 C allele)
-  '*15': 0.0  // No function (includes *5 + rs2306283)
+  '*37': 1.0, // Normal function (rs2306283 G only)
+  '*5': 0.0,  // Decreased function (rs4149056 C)
+  '*15': 0.0  // Decreased function (rs4149056 C + rs2306283 G)
 };
 
 /**
- * Map rs4149056 genotype to SLCO1B1 star alleles
- * 
- * SIMPLIFIED MAPPING (requires only rs4149056):
- * - T/T = *1/*1 (Normal function)
- * - T/C = *1/*5 (Decreased function)
- * - C/C = *5/*5 (Poor function)
- * 
- * NOTE: *15 detection requires additional variant rs2306283 (not included)
+ * SLCO1B1 allele definitions (GRCh37 forward strand)
+ *
+ * rs4149056 is the core position of every allele, so *1 vs *5 is called without rs2306283
+ * and *15 / *37 are reported as untested. Decreased-function alleles are listed first so
+ * that the *1/*15 vs *5/*37 tie resolves to *1/*15.
  */
-function genotypeToDiplotype(rs4149056Genotype: string): {
-  allele1: string;
-  allele2: string;
-  confidence: 'high' | 'medium' | 'low';
-} {
-  // Handle Unknown
-  if (rs4149056Genotype === 'Unknown') {
-    return { allele1: 'Unknown', allele2: 'Unknown', confidence: 'low' };
-  }
-
-  // Normalize genotype - remove slashes, uppercase
-  const normalized = rs4149056Genotype.replace(/\//g, '').toUpperCase();
-
-  // Map genotype to alleles
-  // T = *1 (normal), C = *5 (decreased)
-  if (normalized === 'TT') {
-    return { allele1: '*1', allele2: '*1', confidence: 'high' };
-  } else if (normalized === 'CT' || normalized === 'TC') {
-    return { allele1: '*1', allele2: '*5', confidence: 'high' };
-  } else if (normalized === 'CC') {
-    return { allele1: '*5', allele2: '*5', confidence: 'high' };
-  }
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'SLCO1B1',
+  alleles: [
+    { allele: '*15', variants: { rs4149056: 'C', rs2306283: 'G' }, function: 'Decreased' },
+    { allele: '*5', variants: { rs4149056: 'C' }, function: 'Decreased' },             // c.521T>C (V174A)
+    { allele: '*37', variants: { rs2306283: 'G' }, core: ['rs2306283'], function: 'Normal' }, // c.388A>G (N130D)
+    { allele: '*1', variants: {}, function: 'Normal' }
+  ]
+};
 
-  // Invalid genotype format
-  return { allele1: 'Unknown', allele2: 'Unknown', confidence: 'low' };
-}
+auditAlleleDefinitions('SLCO1B1', [
+  { rsid: 'rs4149056', allele: '*5' },
+  { rsid: 'rs2306283', allele: '*37' }
+]);
 
 /**
  * Map diplotype to phenotype
@@ -164,155 +166,46 @@ function diplotypeToPhenotype(allele1: string, allele2: string): {
   return { phenotype, functionScore: totalFunction };
 }
 
-/**
- * Generate statin-specific recommendations
- * 
- * STATIN RISK HIERARCHY (by myopathy risk):
- * HIGHEST: Simvastatin 80mg > Simvastatin 40mg > Atorvastatin 80mg
- * MODERATE: Atorvastatin ≤40mg, Lovastatin, Fluvastatin
- * LOWEST: Pravastatin, Rosuvastatin, Pitavastatin
- */
-function generateStatinRecommendations(diplotype: SLCO1B1Diplotype): StatinRecommendation[] {
-  const { phenotype, functionScore: _functionScore, allele1: _allele1, allele2: _allele2 } = diplotype;
-  const recommendations: StatinRecommendation[] = [];
-
-  // Simvastatin (HIGHEST RISK - CPIC actionable)
-  if (phenotype === 'Poor Function') {
-    recommendations.push({
-      statin: 'Simvastatin',
-      myopathyRisk: 'Very High',
-      riskMultiplier: '16-17x baseline risk',
-      recommendation: 'AVOID SIMVASTATIN or prescribe ≤20mg dose with close monitoring',
-      doseAdjustment: 'If used, MAX 20mg/day (avoid 40-80mg doses)',
-      monitoring: 'Baseline CK, monitor closely for muscle pain/weakness',
-      cpicGuideline: true
-    });
-  } else if (phenotype === 'Decreased Function') {
-    recommendations.push({
-      statin: 'Simvastatin',
-      myopathyRisk: 'High',
-      riskMultiplier: '4-5x baseline risk',
-      recommendation: 'LIMIT simvastatin to ≤40mg/day. Consider alternative statin.',
-      doseAdjustment: 'MAX 40mg/day (avoid 80mg dose)',
-      monitoring: 'Baseline CK, monitor for muscle symptoms',
-      cpicGuideline: true
-    });
-  } else if (phenotype === 'Normal Function') {
-    recommendations.push({
-      statin: 'Simvastatin',
-      myopathyRisk: 'Normal',
-      riskMultiplier: 'Baseline risk (~1-5%)',
-      recommendation: 'Standard dosing appropriate (up to 80mg/day)',
-      doseAdjustment: 'No adjustment needed',
-      monitoring: 'Standard monitoring (CK if symptomatic)',
-      cpicGuideline: true
-    });
-  } else {
-    recommendations.push({
-      statin: 'Simvastatin',
-      myopathyRisk: 'Moderately Increased',
-      riskMultiplier: 'Unknown - assume 2-4x risk',
-      recommendation: 'Use conservative dosing (≤40mg/day)',
-      doseAdjustment: 'Start low, avoid 80mg dose',
-      monitoring: 'Baseline CK, close symptom monitoring',
-      cpicGuideline: true
-    });
-  }
-
-  // Atorvastatin (MODERATE RISK)
-  if (phenotype === 'Poor Function') {
-    recommendations.push({
-      statin: 'Atorvastatin',
-      myopathyRisk: 'High',
-      riskMultiplier: '2-3x baseline risk (lower than simvastatin)',
-      recommendation: 'LIMIT to ≤40mg/day OR use alternative statin',
-      doseAdjustment: 'MAX 40mg/day, consider starting at 20mg',
-      monitoring: 'Baseline CK, monitor muscle symptoms',
-      cpicGuideline: false
-    });
-  } else if (phenotype === 'Decreased Function') {
-    recommendations.push({
-      statin: 'Atorvastatin',
-      myopathyRisk: 'Moderately Increased',
-      riskMultiplier: '1.5-2x baseline risk',
-      recommendation: 'Use standard dosing with monitoring. Consider dose limit.',
-      doseAdjustment: 'Consider MAX 40-60mg/day',
-      monitoring: 'Standard monitoring for muscle symptoms',
-      cpicGuideline: false
-    });
-  } else {
-    recommendations.push({
-      statin: 'Atorvastatin',
-      myopathyRisk: 'Normal',
-      riskMultiplier: 'Baseline risk',
-      recommendation: 'Standard dosing appropriate',
-      doseAdjustment: 'No adjustment needed',
-      monitoring: 'Standard monitoring',
-      cpicGuideline: false
-    });
-  }
-
-  // Pravastatin, Rosuvastatin, Pitavastatin (LOW RISK - PREFERRED ALTERNATIVES)
-  if (phenotype === 'Poor Function' || phenotype === 'Decreased Function') {
-    recommendations.push({
-      statin: 'Pravastatin / Rosuvastatin / Pitavastatin',
-      myopathyRisk: 'Normal',
-      riskMultiplier: 'No increased risk (NOT substrates of OATP1B1)',
-      recommendation: 'PREFERRED ALTERNATIVES - No SLCO1B1-related risk',
-      doseAdjustment: 'Standard dosing appropriate',
-      monitoring: 'Standard statin monitoring',
-      cpicGuideline: true
-    });
-  }
-
-  // Lovastatin (Similar to simvastatin, less studied)
-  if (phenotype === 'Poor Function' || phenotype === 'Decreased Function') {
-    recommendations.push({
-      statin: 'Lovastatin',
-      myopathyRisk: phenotype === 'Poor Function' ? 'High' : 'Moderately Increased',
-      riskMultiplier: 'Similar to simvastatin (less data available)',
-      recommendation: 'Use with caution, consider alternatives',
-      doseAdjustment: phenotype === 'Poor Function' ? 'MAX 40mg/day' : 'Consider dose limit',
-      monitoring: 'Close monitoring for muscle symptoms',
-      cpicGuideline: false
-    });
-  }
-
-  return recommendations;
-}
-
 /**
  * Generate safety alerts
  */
-function generateSafetyAlerts(diplotype: SLCO1B1Diplotype): string[] {
+function generateSafetyAlerts(diplotype: SLCO1B1Diplotype, drugs: StatinGuidance[]): string[] {
   const { phenotype, allele1, allele2 } = diplotype;
   const alerts: string[] = [];
 
   if (phenotype === 'Poor Function') {
     alerts.push('🚨 POOR FUNCTION - VERY HIGH MYOPATHY RISK');
     alerts.push(`🚨 Diplotype: ${allele1}/${allele2} - 16-17x risk with simvastatin`);
-    alerts.push('🚨 AVOID SIMVASTATIN or use MAX 20mg/day with close monitoring');
-    alerts.push('⚠️ ATORVASTATIN: Limit to ≤40mg/day');
-    alerts.push('✅ PREFERRED: Pravastatin, rosuvastatin, or pitavastatin (no SLCO1B1 effect)');
-    alerts.push('💡 FDA WARNING: Simvastatin 80mg has highest myopathy risk');
-    alerts.push('💡 INFORM ALL PRESCRIBERS of poor function status');
   } else if (phenotype === 'Decreased Function') {
     alerts.push('⚠️ DECREASED FUNCTION - HIGH MYOPATHY RISK');
     alerts.push(`⚠️ Diplotype: ${allele1}/${allele2} - 4-5x risk with simvastatin`);
-    alerts.push('⚠️ SIMVASTATIN: MAX 40mg/day (avoid 80mg dose)');
-    alerts.push('💡 ATORVASTATIN: Consider dose limit ≤40-60mg/day');
-    alerts.push('✅ PREFERRED: Pravastatin, rosuvastatin, or pitavastatin');
-    alerts.push('💡 INFORM PRESCRIBERS of decreased function status');
   } else if (phenotype === 'Normal Function') {
-    alerts.push('✅ NORMAL FUNCTION - Standard statin dosing appropriate');
+    alerts.push('✅ NORMAL FUNCTION - Standard SLCO1B1 statin dosing appropriate');
     alerts.push(`✅ Diplotype: ${allele1}/${allele2} - No increased myopathy risk`);
-    alerts.push('💡 Still monitor for muscle symptoms (other risk factors exist)');
   } else {
     alerts.push('⚠️ UNKNOWN FUNCTION STATUS');
     alerts.push('⚠️ Use CONSERVATIVE statin dosing');
-    alerts.push('⚠️ SIMVASTATIN: Limit to ≤40mg/day');
     alerts.push('💡 Consider genetic testing for SLCO1B1*5');
-    alerts.push('💡 Monitor closely for muscle symptoms');
+  }
+
+  // Per-statin restrictions, including ABCG2 (rosuvastatin) and CYP2C9 (fluvastatin)
+  for (const d of drugs) {
+    if (d.action === 'Avoid') {
+      alerts.push(`🚨 AVOID ${d.statin.toUpperCase()} (${d.genes.join(' + ')})`);
+    } else if (d.action === 'Limit Dose' && d.cpicClassification !== 'No recommendation') {
+      alerts.push(`⚠️ ${d.statin.toUpperCase()}: MAX ${d.doseCeiling} mg/day starting dose (${d.genes.join(' + ')})`);
+    }
+  }
+
+  const preferred = drugs.filter(d => d.action === 'Standard' && d.myopathyRisk === 'Normal').map(d => d.statin);
+  if (preferred.length > 0 && preferred.length < drugs.length) {
+    alerts.push(`✅ PREFERRED: ${preferred.join(', ')} (no genotype-based restriction)`);
+  }
+
+  if (phenotype === 'Poor Function' || phenotype === 'Decreased Function') {
+    alerts.push(`💡 INFORM PRESCRIBERS of ${phenotype.toLowerCase()} status`);
+  } else {
+    alerts.push('💡 Still monitor for muscle symptoms (other risk factors exist)');
   }
 
   return alerts;
@@ -320,20 +213,39 @@ function generateSafetyAlerts(diplotype: SLCO1B1Diplotype): string[] {
 
 /**
  * Determine SLCO1B1 diplotype from genotypes array - v2 API
+ *
+ * rs4149056 (c.521T>C) is required: it defines function. Without rs2306283 the *5 and *1
+ * calls stand for *5/*15 and *1/*37 (same function).
  */
-function determineSLCO1B1DiplotypeV2(
+export function determineSLCO1B1Diplotype(
   genotypes: Array<{ rsid: string; genotype: string }>
 ): SLCO1B1Diplotype {
-  const rs4149056 = extractAndNormalize(genotypes, 'rs4149056');
-  const alleles = genotypeToDiplotype(rs4149056 || 'Unknown');
-  const phenotypeResult = diplotypeToPhenotype(alleles.allele1, alleles.allele2);
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
+
+  if (!call.testedPositions.includes('rs4149056')) {
+    return {
+      allele1: 'Unknown',
+      allele2: 'Unknown',
+      phenotype: 'Unknown',
+      functionScore: 1.0, // Assume normal for safety
+      confidence: 'low'
+    };
+  }
+
+  // Report in star-number order (*1/*15, *5/*37)
+  const [allele1, allele2] = [...call.candidates[0].alleles]
+    .sort((a, b) => parseInt(a.slice(1), 10) - parseInt(b.slice(1), 10));
+  const phenotypeResult = diplotypeToPhenotype(allele1, allele2);
 
   return {
-    allele1: alleles.allele1,
-    allele2: alleles.allele2,
-    phenotype: phenotypeResult.phenotype as any,
+    allele1,
+    allele2,
+    phenotype: phenotypeResult.phenotype as SLCO1B1Diplotype['phenotype'],
     functionScore: phenotypeResult.functionScore,
-    confidence: alleles.confidence
+    confidence: call.consistent ? 'high' : 'medium',
+    phaseAmbiguity: call.phaseAmbiguous || undefined,
+    untestedAlleles: call.unresolvedAlleles.length > 0 ? call.unresolvedAlleles : undefined
   };
 }
 
@@ -341,25 +253,30 @@ function determineSLCO1B1DiplotypeV2(
  * Main SLCO1B1 analysis function - v2 API
  *
  * @param genotypes - Array of genotype objects from 23andMe
- * @param provider - Data provider ('23andme' or 'unknown')
- * @returns Comprehensive SLCO1B1 analysis results
+ * @param provider - Data provider
+ * @param cyp2c9Diplotype - CYP2C9 call for fluvastatin (from the CYP2C9 analyzer)
+ * @returns Comprehensive SLCO1B1 analysis results with per-statin guidance
  */
 export function analyzeSLCO1B1(
   genotypes: Array<{ rsid: string; genotype: string }>,
-
-  _provider: GeneticProvider = '23andme'
+  provider: GeneticProvider = '23andme',
+  cyp2c9Diplotype?: { allele1: string; allele2: string; phenotype: string }
 ): SLCO1B1AnalysisResult {
   // Determine diplotype
-  const diplotype = determineSLCO1B1DiplotypeV2(genotypes);
+  const diplotype = determineSLCO1B1Diplotype(genotypes);
+  const abcg2 = determineABCG2Genotype(genotypes);
+  const cyp2c9Phenotype = cyp2c9Diplotype && cyp2c9Diplotype.phenotype !== 'Unknown'
+    ? cyp2c9Diplotype.phenotype
+    : null;
 
   // Generate recommendations
-  const statinRecommendations = generateStatinRecommendations(diplotype);
-  const safetyAlerts = generateSafetyAlerts(diplotype);
+  const drugs = calculateStatinGuidance(diplotype.phenotype, abcg2.function, cyp2c9Phenotype);
+  const safetyAlerts = generateSafetyAlerts(diplotype, drugs);
 
   // Clinical summary
   const clinicalSummary = `
 SLCO1B1 TRANSPORTER FUNCTION
-Diplotype: ${diplotype.allele1}/${diplotype.allele2}
+Diplotype: ${diplotype.allele1}/${diplotype.allele2}${diplotype.phaseAmbiguity ? ' (or *5/*37)' : ''}
 Phenotype: ${diplotype.phenotype}
 Function Score: ${diplotype.functionScore.toFixed(2)} (0=none, 2=normal)
 Confidence: ${diplotype.confidence}
@@ -368,55 +285,70 @@ SLCO1B1 encodes OATP1B1, the primary hepatic uptake transporter for statins.
 Reduced function leads to HIGHER statin blood levels and INCREASED myopathy risk.
 
 ${diplotype.phenotype === 'Poor Function'
-      ? 'You have VERY LOW OATP1B1 function (~25-30% of normal). This causes:\n- 16-17x INCREASED MYOPATHY RISK with simvastatin\n- 2-3x increased risk with atorvastatin\n- CPIC recommends AVOIDING simvastatin or using MAX 20mg/day\n- Pravastatin, rosuvastatin, pitavastatin are PREFERRED (no SLCO1B1 effect)'
+      ? 'You have VERY LOW OATP1B1 function (~25-30% of normal). This causes:\n- 16-17x INCREASED MYOPATHY RISK with simvastatin\n- CPIC recommends an ALTERNATIVE to simvastatin and lovastatin\n- Lower starting ceilings for atorvastatin, rosuvastatin, pravastatin, pitavastatin and fluvastatin'
       : diplotype.phenotype === 'Decreased Function'
-        ? 'You have REDUCED OATP1B1 function (~50-75% of normal). This causes:\n- 4-5x INCREASED MYOPATHY RISK with simvastatin\n- 1.5-2x increased risk with atorvastatin\n- CPIC recommends LIMITING simvastatin to MAX 40mg/day\n- Consider pravastatin, rosuvastatin, or pitavastatin'
+        ? 'You have REDUCED OATP1B1 function (~50-75% of normal). This causes:\n- 4-5x INCREASED MYOPATHY RISK with simvastatin\n- CPIC recommends an alternative statin, or simvastatin below 20mg/day\n- Lower starting ceilings for atorvastatin and rosuvastatin'
         : diplotype.phenotype === 'Normal Function'
           ? 'You have NORMAL OATP1B1 function. Standard statin dosing is appropriate.\nNo SLCO1B1-related increase in myopathy risk.'
           : 'Your SLCO1B1 status could not be determined. Use conservative statin dosing.'}
 
-STATIN MYOPATHY RISK SPECTRUM:
-HIGHEST RISK: Simvastatin 80mg (AVOID in poor/decreased function)
-HIGH RISK: Simvastatin 40mg, Atorvastatin 80mg
-MODERATE RISK: Atorvastatin ≤40mg, Lovastatin
-LOW RISK: Pravastatin, Rosuvastatin, Pitavastatin (NOT affected by SLCO1B1)
+PER-STATIN GUIDANCE (CPIC 2022):
+${drugs.map(d => `• ${d.statin}: ${d.action === 'Avoid' ? 'AVOID' : d.doseAdjustment}${d.genes.length > 0 ? ` [${d.genes.join(' + ')}]` : ''}`).join('\n')}
 
 GENOTYPE DETAILS:
-• rs4149056 (SLCO1B1*5): ${diplotype.allele1}/${diplotype.allele2} (${diplotype.confidence} confidence)
+• rs4149056 (c.521T>C) + rs2306283 (c.388A>G): ${diplotype.allele1}/${diplotype.allele2} (${diplotype.confidence} confidence)
+• ABCG2 rs2231142 (Q141K): ${abcg2.rs2231142} - ${abcg2.function}
+• CYP2C9: ${cyp2c9Diplotype ? `${cyp2c9Diplotype.allele1}/${cyp2c9Diplotype.allele2} - ${cyp2c9Diplotype.phenotype}` : 'Not available'}
 
 CLINICAL PEARLS:
 • Simvastatin 80mg has FDA boxed warning for myopathy risk
 • Myopathy symptoms: Muscle pain, weakness, dark urine, CK elevation >10x ULN
-• ~30-50% of patients carry at least one *5 allele (decreased function)
+• ~30-50% of patients carry at least one decreased-function allele (*5 or *15)
 • Pharmacogenetic testing recommended before high-dose simvastatin
   `.trim();
 
   // Limitations
   const limitations = [
-    '23andMe covers only rs4149056 (*5 allele), not rs2306283 required for *15',
-    'Does not detect rare SLCO1B1 variants',
+    'Does not detect rare SLCO1B1 variants or the increased-function *14 and *20 alleles',
     'Myopathy risk affected by other factors: age, medications (fibrates, cyclosporine), renal function',
     'Does not account for drug-drug interactions',
-    'Only applies to statins metabolized by SLCO1B1 (not all statins)'
+    'East Asian ancestry: rosuvastatin label starting dose is 5mg regardless of genotype',
+    ...getProviderCoverageLimitations(provider, 'SLCO1B1', genotypes, getTablePositions(ALLELE_TABLE))
   ];
+  if (diplotype.untestedAlleles) {
+    limitations.push(`rs2306283 not genotyped: ${diplotype.allele1}/${diplotype.allele2} may be ${diplotype.untestedAlleles.join(' or ')} (same function)`);
+  }
+  if (diplotype.phaseAmbiguity) {
+    limitations.push('Heterozygous at c.388A>G and c.521T>C: reported as *1/*15; *5/*37 cannot be excluded without phasing (same decreased function)');
+  }
+  if (abcg2.function === 'Unknown') {
+    limitations.push('ABCG2 rs2231142 not genotyped - rosuvastatin guidance uses SLCO1B1 only');
+  }
+  if (!cyp2c9Phenotype) {
+    limitations.push('CYP2C9 phenotype not available - fluvastatin guidance uses SLCO1B1 only');
+  }
 
   // Guidelines
   const guidelines = {
-    cpic: 'CPIC Guideline for SLCO1B1 and Simvastatin (PMID: 24918167)',
+    cpic: 'CPIC Guideline for SLCO1B1, ABCG2, and CYP2C9 and Statin-Associated Musculoskeletal Symptoms (2022, PMID: 35152405)',
     fda: [
       'FDA Drug Label: Simvastatin - Increased myopathy risk with SLCO1B1*5',
-      'FDA Boxed Warning: Simvastatin 80mg - Increased myopathy/rhabdomyolysis risk'
+      'FDA Boxed Warning: Simvastatin 80mg - Increased myopathy/rhabdomyolysis risk',
+      'FDA Drug Label: Rosuvastatin - 2-fold exposure in Asian patients; start at 5mg'
     ]
   };
 
   return {
     gene: 'SLCO1B1',
     diplotype,
-    drugs: statinRecommendations,
+    abcg2,
+    cyp2c9Phenotype,
+    drugs,
     clinicalSummary,
     safetyAlerts,
     confidence: diplotype.confidence,
     limitations,
-    guidelines
+    guidelines,
+    references: getKBReferences('SLCO1B1', [diplotype.allele1, diplotype.allele2])
   };
 }
@@ -0,0 +1,269 @@
+/**
+ * Inherited Thrombophilia Panel v2 (F5 + F2)
+ *
+ * Combines Factor V Leiden (F5) and prothrombin G20210A (F2) - the two common inherited
+ * thrombophilias - with clinical risk factors into a numeric venous thromboembolism (VTE) risk.
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - Estrogen (combined contraceptives, oral HRT) multiplies the inherited risk; carriers are
+ *   CDC MEC category 4 for combined hormonal contraception
+ * - Compound heterozygotes (FVL + G20210A) carry ~20x risk - more than either alone
+ * - Pregnancy, the postpartum period, surgery and immobilization are transient high-risk windows
+ *
+ * CRITICAL VARIANTS (GRCh37 forward strand):
+ * - F5 rs6025 (c.1601G>A, R506Q; forward C>T): Factor V Leiden - APC resistance
+ * - F2 rs1799963 (c.*97G>A, 3' UTR): prothrombin G20210A - ~30% higher prothrombin
+ * - F5 rs6027: secondary F5 variant, scored only without Factor V Leiden
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ Relative risks are literature ranges; the total range is the product of the factor ranges
+ * ⚠️ Carrier × combined pill is supra-multiplicative and uses the observed joint risk
+ * ⚠️ Without an age the adult population baseline is used
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - Protein C, protein S and antithrombin deficiency and antiphospholipid syndrome are not
+ *   detectable from genotypes
+ * - Personal and family history of VTE outweigh genotype and are not scored
+ *
+ * GUIDELINES:
+ * - No CPIC guideline; CDC US MEC for contraceptive use; ASH 2023 thrombophilia testing guideline
+ *
+ * REFERENCES:
+ * - Bertina 1994 (Factor V Leiden): PMID 8164741
+ * - Poort 1996 (prothrombin G20210A): PMID 8916933
+ * - Emmerich 2001 (compound heterozygotes): PMID 11583299
+ */
+
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { extractStrandNormalized } from '../core/strand-normalization';
+import { auditAlleleDefinitions, getKBReferences } from '../core/pgx-knowledge-base';
+import {
+  calculateVTERisk,
+  formatAnnualRisk,
+  formatRelativeRisk,
+  recalculateVTERisk,
+  type InheritedThrombophilia,
+  type RiskRange,
+  type VTEClinicalFactors,
+  type VTERiskEstimate
+} from '../core/vte-risk';
+import {
+  assessContraceptiveSafety,
+  determineF5Genotype,
+  f5OtherVariantFactors,
+  type ContraceptiveSafety,
+  type F5Genotype
+} from './f5-analyzer';
+
+export interface F2Genotype {
+  rs1799963: string;        // Forward strand G>A
+  prothrombinCopies: number | null;
+  status: 'Normal' | 'Heterozygous' | 'Homozygous' | 'Unknown';
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface VTEScenario {
+  scenario: string;
+  relativeRisk: RiskRange;
+  annualAbsoluteRisk: RiskRange; // Per 1,000 person-years
+}
+
+export interface ThrombophiliaAnalysisResult {
+  gene: 'F5/F2';
+  f5: F5Genotype;
+  f2: F2Genotype;
+  inheritedThrombophilia: InheritedThrombophilia;
+  vteRisk: VTERiskEstimate;      // With the clinical factors provided
+  scenarios: VTEScenario[];      // Same patient with one exposure added
+  contraceptiveSafety: ContraceptiveSafety;
+  clinicalSummary: string;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    notes: string[];
+  };
+  references: string[];
+}
+
+/** Risk alleles (GRCh37 forward strand) */
+const FACTOR_V_LEIDEN = { rsid: 'rs6025', allele: 'Leiden', variant: 'T' };
+const PROTHROMBIN_G20210A = { rsid: 'rs1799963', allele: 'G20210A', variant: 'A' };
+
+auditAlleleDefinitions('F5', [FACTOR_V_LEIDEN]);
+auditAlleleDefinitions('F2', [PROTHROMBIN_G20210A]);
+
+/**
+ * Determine prothrombin G20210A genotype - v2 API
+ */
+export function determineF2Genotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): F2Genotype {
+  const call = extractStrandNormalized(genotypes, PROTHROMBIN_G20210A.rsid);
+  if (!call) {
+    return { rs1799963: 'Unknown', prothrombinCopies: null, status: 'Unknown', confidence: 'low' };
+  }
+
+  const copies = call.split('').filter(a => a === PROTHROMBIN_G20210A.variant).length;
+  return {
+    rs1799963: call,
+    prothrombinCopies: copies,
+    status: copies === 2 ? 'Homozygous' : copies === 1 ? 'Heterozygous' : 'Normal',
+    confidence: 'high'
+  };
+}
+
+/**
+ * Risk of the same patient with one exposure added
+ */
+function generateScenarios(vteRisk: VTERiskEstimate): VTEScenario[] {
+  const scenarios: Array<[string, Partial<VTEClinicalFactors>]> = [
+    ['Current', {}],
+    ['Combined oral contraceptive', { estrogen: 'combined-oral-contraceptive' }],
+    ['Oral estrogen HRT', { estrogen: 'oral-hrt' }],
+    ['Pregnancy', { pregnancy: 'pregnant' }],
+    ['Postpartum', { pregnancy: 'postpartum' }],
+    ['Major surgery', { recentSurgery: true }],
+    ['Immobilization', { immobilized: true }]
+  ];
+
+  return scenarios.map(([scenario, changes]) => {
+    const risk = recalculateVTERisk(vteRisk, changes);
+    return { scenario, relativeRisk: risk.relativeRisk, annualAbsoluteRisk: risk.annualAbsoluteRisk };
+  });
+}
+
+/**
+ * Generate safety alerts
+ */
+function generateSafetyAlerts(
+  vteRisk: VTERiskEstimate,
+  contraceptiveSafety: ContraceptiveSafety
+): string[] {
+  const alerts: string[] = [];
+  const category = vteRisk.inheritedThrombophilia;
+
+  if (category === 'Compound FVL + Prothrombin' || category === 'FVL Homozygous' || category === 'Prothrombin Homozygous') {
+    alerts.push(`🚨 ${category.toUpperCase()} - VTE risk ${formatRelativeRisk(vteRisk.inheritedRelativeRisk)}`);
+  } else if (category === 'FVL Heterozygous' || category === 'Prothrombin Heterozygous') {
+    alerts.push(`⚠️ ${category.toUpperCase()} - VTE risk ${formatRelativeRisk(vteRisk.inheritedRelativeRisk)}`);
+  }
+
+  if (contraceptiveSafety.combinedOCPs === 'Contraindicated') {
+    alerts.push('🚨 CONTRAINDICATED: Estrogen-containing contraceptives');
+  } else if (contraceptiveSafety.combinedOCPs === 'Use Caution') {
+    alerts.push('⚠️ CAUTION: Estrogen-containing contraceptives - progestin-only or non-hormonal preferred');
+  }
+
+  if (vteRisk.relativeRisk.estimate >= 10) {
+    alerts.push(`🚨 Current VTE risk ${formatAnnualRisk(vteRisk.annualAbsoluteRisk)} - consider thromboprophylaxis`);
+  }
+
+  return alerts;
+}
+
+/**
+ * Get analysis limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  vteRisk: VTERiskEstimate
+): string[] {
+  return [
+    'Only Factor V Leiden, prothrombin G20210A and F5 rs6027 are genotyped',
+    'Protein C, protein S and antithrombin deficiency and antiphospholipid syndrome are not detectable from genotypes',
+    'Personal and family history of VTE are not scored and outweigh genotype',
+    'Relative risks are literature estimates; ranges are multiplied and are wide by design',
+    ...vteRisk.assumedInputs.map(input => `Not provided: ${input}`),
+    ...getProviderCoverageLimitations(provider, 'F5', genotypes, [FACTOR_V_LEIDEN.rsid, 'rs6027']),
+    ...getProviderCoverageLimitations(provider, 'F2', genotypes, [PROTHROMBIN_G20210A.rsid])
+  ];
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(
+  f5: F5Genotype,
+  f2: F2Genotype,
+  vteRisk: VTERiskEstimate,
+  scenarios: VTEScenario[]
+): string {
+  let summary = `Factor V Leiden (rs6025): ${f5.rs6025}\n`;
+  summary += `Prothrombin G20210A (rs1799963): ${f2.rs1799963}\n`;
+  summary += `Inherited Thrombophilia: ${vteRisk.inheritedThrombophilia}\n`;
+  summary += `Inherited Relative Risk: ${formatRelativeRisk(vteRisk.inheritedRelativeRisk)}\n\n`;
+
+  summary += `Current VTE risk: ${formatAnnualRisk(vteRisk.annualAbsoluteRisk)}, ${formatRelativeRisk(vteRisk.relativeRisk)} baseline\n`;
+  summary += vteRisk.factors.length > 0
+    ? `Factors: ${vteRisk.factors.map(f => `${f.factor} ${f.relativeRisk.estimate}x`).join(', ')}\n\n`
+    : 'Factors: none\n\n';
+
+  summary += 'IF EXPOSED:\n';
+  for (const s of scenarios.slice(1)) {
+    summary += `• ${s.scenario}: ${formatAnnualRisk(s.annualAbsoluteRisk)} (${formatRelativeRisk(s.relativeRisk)})\n`;
+  }
+
+  return summary;
+}
+
+/**
+ * Main thrombophilia panel function - v2 API
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @param clinical - Optional clinical risk factors
+ * @returns Thrombophilia genotypes, numeric VTE risk and contraceptive safety
+ */
+export function analyzeThrombophilia(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme',
+  clinical: VTEClinicalFactors = {}
+): ThrombophiliaAnalysisResult {
+  const f5 = determineF5Genotype(
+    extractStrandNormalized(genotypes, FACTOR_V_LEIDEN.rsid),
+    genotypes.find(g => g.rsid === 'rs6027')?.genotype || null
+  );
+  const f2 = determineF2Genotype(genotypes);
+
+  const vteRisk = calculateVTERisk(
+    { factorVLeiden: f5.leidenCopies, prothrombin: f2.prothrombinCopies, other: f5OtherVariantFactors(f5) },
+    clinical
+  );
+  const scenarios = generateScenarios(vteRisk);
+  const contraceptiveSafety = assessContraceptiveSafety(vteRisk);
+
+  const confidence = f5.confidence === 'high' && f2.confidence === 'high'
+    ? 'high'
+    : f5.confidence === 'high' || f2.confidence === 'high' ? 'medium' : 'low';
+
+  return {
+    gene: 'F5/F2',
+    f5,
+    f2,
+    inheritedThrombophilia: vteRisk.inheritedThrombophilia,
+    vteRisk,
+    scenarios,
+    contraceptiveSafety,
+    clinicalSummary: generateClinicalSummary(f5, f2, vteRisk, scenarios),
+    safetyAlerts: generateSafetyAlerts(vteRisk, contraceptiveSafety),
+    confidence,
+    limitations: getLimitations(provider, genotypes, vteRisk),
+    guidelines: {
+      cpic: 'No CPIC guideline for F5/F2',
+      notes: [
+        'CDC US MEC: combined hormonal contraception category 4 with known thrombogenic mutations',
+        'ASH 2023: thrombophilia testing guideline for VTE management decisions'
+      ]
+    },
+    references: [
+      ...getKBReferences('F5', f5.leidenCopies ? ['Leiden'] : undefined),
+      ...getKBReferences('F2', f2.prothrombinCopies ? ['G20210A'] : undefined)
+    ]
+  };
+}
@@ -0,0 +1,431 @@
+/**
+ * TPMT Pharmacogenomics Analyzer v2
+ *
+ * TPMT encodes thiopurine S-methyltransferase, which inactivates thiopurines by S-methylation.
+ * Reduced TPMT activity shunts more drug into cytotoxic thioguanine nucleotides (TGNs).
+ *
+ * CRITICAL CLINICAL CONTEXT:
+ * - Intermediate metabolizers (one no-function allele): ~10% of Europeans and Africans
+ * - Poor metabolizers (two no-function alleles): ~0.3% (1 in 300)
+ * - Poor metabolizers on standard doses: life-threatening myelosuppression
+ *
+ * KEY SUBSTRATES:
+ * 🔥 THIOPURINES:
+ *    - Mercaptopurine (ALL maintenance, IBD)
+ *    - Azathioprine (IBD, transplant, autoimmune disease)
+ *    - Thioguanine (AML, ALL)
+ *
+ * CRITICAL VARIANTS (GRCh37 forward strand - TPMT is on the reverse strand):
+ * - TPMT*2 (rs1800462, c.238G>C, forward C>G): No function (rare, mainly European)
+ * - TPMT*3B (rs1800460, c.460G>A, forward C>T): No function
+ * - TPMT*3C (rs1142345, c.719A>G, forward T>C): No function (most common allele in Africans/East Asians)
+ * - TPMT*3A = *3B + *3C in cis: No function (most common allele in Europeans, ~5%)
+ *
+ * COMPLEXITY NOTES:
+ * ⚠️ Heterozygous at both rs1800460 and rs1142345 is called *1/*3A (cis, IM) - the *3B/*3C
+ *    (trans, PM) interpretation is possible but very rare
+ * ⚠️ Thiopurine starting doses depend on BOTH TPMT and NUDT15 (CPIC 2018)
+ *
+ * 🚨 LIMITATIONS OF SNP-ARRAY DATA:
+ * - Rare no-function alleles (*4, *11, *29 ...) are not interpreted
+ * - Recent red blood cell transfusion invalidates phenotypic (enzyme activity) testing, not genotyping
+ *
+ * CLINICAL IMPACT:
+ * - FDA labels (mercaptopurine, azathioprine, thioguanine): TPMT testing recommended;
+ *   homozygous deficiency requires substantial dose reduction
+ *
+ * CPIC GUIDELINES:
+ * - Level A evidence for mercaptopurine, azathioprine and thioguanine
+ *
+ * REFERENCES:
+ * - CPIC Guideline TPMT/NUDT15 and Thiopurines 2018: PMID 30447069
+ * - Relling et al. (TPMT original CPIC guideline): PMID 21270794
+ * - PharmVar / PharmGKB TPMT: www.pharmgkb.org/gene/PA356
+ */
+
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { auditAlleleDefinitions, getKBReferences } from '../core/pgx-knowledge-base';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  readHaplotypePhase,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
+
+export type TPMTPhenotype =
+  | 'Normal Metabolizer'
+  | 'Intermediate Metabolizer'
+  | 'Poor Metabolizer'
+  | 'Unknown';
+
+export interface TPMTDiplotype {
+  allele1: string;
+  allele2: string;
+  phenotype: TPMTPhenotype;
+  confidence: 'high' | 'medium' | 'low';
+  detectedVariants: string[];
+  phaseAmbiguity?: boolean; // True if *1/*3A vs *3B/*3C could not be resolved
+}
+
+export interface CombinedThiopurineDosing {
+  tpmtDiplotype: string;
+  nudt15Diplotype: string | null;
+  combinedPhenotype:
+    | 'Normal Metabolizer'
+    | 'Intermediate Metabolizer'
+    | 'Compound Intermediate Metabolizer'
+    | 'Poor Metabolizer'
+    | 'Unknown';
+  limitingGene: 'TPMT' | 'NUDT15' | 'both' | null;
+  startingDose: {
+    mercaptopurine: string;
+    azathioprine: string;
+    thioguanine: string;
+  };
+  clinicalConsiderations: string[];
+}
+
+export interface ThiopurineDrugRecommendation {
+  drug: string;
+  category: string;
+  recommendation: string;
+  doseAdjustment?: string;
+  riskLevel: 'critical' | 'warning' | 'caution' | 'normal' | 'informational';
+  alternativeDrugs?: string[];
+  monitoring?: string;
+  fdaGuidance: boolean;
+  cpicLevel?: 'A' | 'B' | 'C';
+}
+
+export interface TPMTAnalysisResult {
+  gene: 'TPMT';
+  diplotype: TPMTDiplotype;
+  drugs: ThiopurineDrugRecommendation[];
+  clinicalSummary: string;
+  thiopurineDosing: CombinedThiopurineDosing;
+  safetyAlerts: string[];
+  confidence: 'high' | 'medium' | 'low';
+  limitations: string[];
+  guidelines: {
+    cpic: string;
+    fda: string[];
+  };
+  references: string[]; // KB evidence for the called alleles
+}
+
+auditAlleleDefinitions('TPMT', [
+  { rsid: 'rs1800462', allele: '*2' },
+  { rsid: 'rs1800460', allele: '*3B' },
+  { rsid: 'rs1142345', allele: '*3C' }
+]);
+
+/**
+ * TPMT allele definitions (GRCh37 forward strand). *3A carries both c.460G>A and c.719A>G;
+ * it is listed before *3B/*3C so a double heterozygote reads *1/*3A (cis is far more common
+ * than trans) with *3B/*3C as the alternative.
+ */
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'TPMT',
+  alleles: [
+    { allele: '*1', variants: {}, function: 'Normal' },
+    { allele: '*2', variants: { rs1800462: 'G' }, function: 'No function' },                  // c.238G>C
+    { allele: '*3A', variants: { rs1800460: 'T', rs1142345: 'C' }, function: 'No function' }, // c.460G>A + c.719A>G
+    { allele: '*3B', variants: { rs1800460: 'T' }, function: 'No function' },                 // c.460G>A
+    { allele: '*3C', variants: { rs1142345: 'C' }, function: 'No function' }                  // c.719A>G
+  ]
+};
+
+/**
+ * Determine TPMT diplotype from genotypes - v2 API
+ *
+ * rs1142345 (*3C) is required: it is part of both *3A and *3C, which together account for
+ * most no-function alleles in every population. Missing *2 or *3B positions lower confidence.
+ */
+export function determineTPMTDiplotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): TPMTDiplotype {
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
+
+  if (!call.testedPositions.includes('rs1142345')) {
+    return {
+      allele1: 'Unknown',
+      allele2: 'Unknown',
+      phenotype: 'Unknown',
+      confidence: 'low',
+      detectedVariants: []
+    };
+  }
+
+  const confidence: 'high' | 'medium' | 'low' =
+    call.missingPositions.length === 0 && call.consistent ? 'high' : 'medium';
+
+  const [allele1, allele2] = call.candidates[0].alleles;
+  const noFunction = [allele1, allele2].filter(a => a !== '*1').length;
+
+  return {
+    allele1,
+    allele2,
+    phenotype: noFunction === 2 ? 'Poor Metabolizer' : noFunction === 1 ? 'Intermediate Metabolizer' : 'Normal Metabolizer',
+    confidence,
+    detectedVariants: call.observedVariants,
+    phaseAmbiguity: call.phaseAmbiguous || undefined
+  };
+}
+
+/**
+ * Combine TPMT and NUDT15 into thiopurine starting doses (CPIC 2018, PMID 30447069, Table 2)
+ *
+ * The more deficient gene drives the recommendation; two intermediate genes compound.
+ */
+function calculateThiopurineDosing(
+  tpmtDiplotype: TPMTDiplotype,
+  nudt15Diplotype?: { allele1: string; allele2: string; phenotype: string }
+): CombinedThiopurineDosing {
+  const tpmt = tpmtDiplotype.phenotype;
+  const nudt15 = nudt15Diplotype?.phenotype;
+  const considerations: string[] = [];
+
+  const tpmtPoor = tpmt === 'Poor Metabolizer';
+  const nudt15Poor = nudt15 === 'Poor Metabolizer';
+  const tpmtInt = tpmt === 'Intermediate Metabolizer';
+  const nudt15Int = nudt15 === 'Intermediate Metabolizer';
+
+  let combinedPhenotype: CombinedThiopurineDosing['combinedPhenotype'];
+  let limitingGene: CombinedThiopurineDosing['limitingGene'] = null;
+  let startingDose: CombinedThiopurineDosing['startingDose'];
+
+  if (tpmtPoor || nudt15Poor) {
+    combinedPhenotype = 'Poor Metabolizer';
+    limitingGene = tpmtPoor && nudt15Poor ? 'both' : tpmtPoor ? 'TPMT' : 'NUDT15';
+    startingDose = tpmtPoor
+      ? {
+          mercaptopurine: 'Malignancy: reduce daily dose 10-fold and give 3 times weekly. Non-malignant: use an alternative agent',
+          azathioprine: 'Non-malignant: use an alternative agent. Malignancy: reduce daily dose 10-fold, 3 times weekly',
+          thioguanine: 'Reduce daily dose 10-fold and give 3 times weekly'
+        }
+      : {
+          mercaptopurine: 'Malignancy: start at 10 mg/m²/day. Non-malignant: use an alternative agent',
+          azathioprine: 'Non-malignant: use an alternative agent. Malignancy: start at 10% of the standard dose',
+          thioguanine: 'Start at 25% of the standard dose'
+        };
+    considerations.push('🚨 Life-threatening myelosuppression expected at standard doses');
+    considerations.push('⚠️ Allow 4-6 weeks at each dose before increasing (steady state)');
+  } else if (tpmtInt && nudt15Int) {
+    combinedPhenotype = 'Compound Intermediate Metabolizer';
+    limitingGene = 'both';
+    startingDose = {
+      mercaptopurine: 'Start below the single-gene range - 30% of the standard dose or less',
+      azathioprine: 'Start below the single-gene range - 30% of the standard dose or less',
+      thioguanine: 'Start at 50% of the standard dose or less'
+    };
+    considerations.push('⚠️ Deficiency in both genes compounds - dose reductions beyond single-gene IM are usually needed');
+    considerations.push('⚠️ Weekly blood counts during titration');
+  } else if (tpmtInt || nudt15Int) {
+    combinedPhenotype = 'Intermediate Metabolizer';
+    limitingGene = tpmtInt ? 'TPMT' : 'NUDT15';
+    startingDose = {
+      mercaptopurine: '30-80% of the standard dose (if standard start is ≥75 mg/m²/day or ≥1.5 mg/kg/day)',
+      azathioprine: '30-80% of the standard dose (if standard start is 2-3 mg/kg/day)',
+      thioguanine: '50-80% of the standard dose (if standard start is ≥40-60 mg/m²/day)'
+    };
+    considerations.push('⚠️ Adjust by blood counts; allow 2-4 weeks at each dose before increasing');
+  } else if (tpmt === 'Unknown' || nudt15 === 'Unknown') {
+    combinedPhenotype = 'Unknown';
+    startingDose = {
+      mercaptopurine: 'Cannot be determined - request clinical TPMT/NUDT15 testing',
+      azathioprine: 'Cannot be determined - request clinical TPMT/NUDT15 testing',
+      thioguanine: 'Cannot be determined - request clinical TPMT/NUDT15 testing'
+    };
+    considerations.push('💡 TPMT and NUDT15 testing recommended before thiopurine therapy');
+  } else {
+    combinedPhenotype = 'Normal Metabolizer';
+    startingDose = {
+      mercaptopurine: 'Standard starting dose (e.g. 75 mg/m²/day or 1.5 mg/kg/day)',
+      azathioprine: 'Standard starting dose (2-3 mg/kg/day)',
+      thioguanine: 'Standard starting dose'
+    };
+    considerations.push('✅ Normal TPMT activity - standard thiopurine dosing');
+  }
+
+  if (!nudt15Diplotype) {
+    considerations.push('💡 NUDT15 not tested - essential for patients of East Asian or Hispanic ancestry');
+  }
+
+  return {
+    tpmtDiplotype: `${tpmtDiplotype.allele1}/${tpmtDiplotype.allele2}`,
+    nudt15Diplotype: nudt15Diplotype ? `${nudt15Diplotype.allele1}/${nudt15Diplotype.allele2}` : null,
+    combinedPhenotype,
+    limitingGene,
+    startingDose,
+    clinicalConsiderations: considerations
+  };
+}
+
+/**
+ * Thiopurine drug recommendations from the combined TPMT/NUDT15 dosing
+ */
+function generateThiopurineRecommendations(dosing: CombinedThiopurineDosing): ThiopurineDrugRecommendation[] {
+  const { combinedPhenotype, startingDose } = dosing;
+
+  const riskLevel: ThiopurineDrugRecommendation['riskLevel'] =
+    combinedPhenotype === 'Poor Metabolizer' || combinedPhenotype === 'Compound Intermediate Metabolizer'
+      ? 'critical'
+      : combinedPhenotype === 'Intermediate Metabolizer'
+        ? 'warning'
+        : combinedPhenotype === 'Unknown'
+          ? 'caution'
+          : 'normal';
+
+  const recommendation =
+    combinedPhenotype === 'Poor Metabolizer'
+      ? 'AVOID standard dosing - drastically reduced dose for malignancy, alternative agent otherwise'
+      : combinedPhenotype === 'Compound Intermediate Metabolizer'
+        ? 'Substantially reduced starting dose - TPMT and NUDT15 both reduced'
+        : combinedPhenotype === 'Intermediate Metabolizer'
+          ? `Reduced starting dose (${dosing.limitingGene} intermediate metabolizer)`
+          : combinedPhenotype === 'Unknown'
+            ? 'Genotype incomplete - clinical TPMT/NUDT15 testing recommended before starting'
+            : 'Standard dosing';
+
+  const monitoring = riskLevel === 'normal'
+    ? 'Standard CBC monitoring'
+    : 'CBC weekly during titration, then per protocol';
+
+  return [
+    {
+      drug: 'Mercaptopurine (Purixan)',
+      category: 'Antineoplastic / Immunosuppressant',
+      recommendation,
+      doseAdjustment: startingDose.mercaptopurine,
+      riskLevel,
+      monitoring,
+      fdaGuidance: true,
+      cpicLevel: 'A'
+    },
+    {
+      drug: 'Azathioprine (Imuran)',
+      category: 'Immunosuppressant',
+      recommendation,
+      doseAdjustment: startingDose.azathioprine,
+      riskLevel,
+      alternativeDrugs: combinedPhenotype === 'Poor Metabolizer'
+        ? ['Mycophenolate', 'Methotrexate', 'Biologic therapy (indication-dependent)']
+        : undefined,
+      monitoring,
+      fdaGuidance: true,
+      cpicLevel: 'A'
+    },
+    {
+      drug: 'Thioguanine (Tabloid)',
+      category: 'Antineoplastic',
+      recommendation,
+      doseAdjustment: startingDose.thioguanine,
+      riskLevel,
+      monitoring,
+      fdaGuidance: true,
+      cpicLevel: 'A'
+    }
+  ];
+}
+
+/**
+ * Generate safety alerts
+ */
+function generateSafetyAlerts(diplotype: TPMTDiplotype): string[] {
+  if (diplotype.phenotype === 'Poor Metabolizer') {
+    return [`🚨 THIOPURINES: TPMT ${diplotype.allele1}/${diplotype.allele2} poor metabolizer - 10-fold dose reduction 3x weekly or alternative agent (life-threatening myelosuppression)`];
+  }
+  if (diplotype.phenotype === 'Intermediate Metabolizer') {
+    return [`⚠️ THIOPURINES: TPMT ${diplotype.allele1}/${diplotype.allele2} intermediate metabolizer - start at 30-80% of standard dose`];
+  }
+  return [];
+}
+
+/**
+ * Get provider-specific limitations
+ */
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  diplotype: TPMTDiplotype
+): string[] {
+  const limitations = [
+    'Only *2, *3A, *3B and *3C are interpreted - rare no-function TPMT alleles are not detected',
+    'Thiopurine toxicity also depends on NUDT15, drug interactions (allopurinol, febuxostat) and indication',
+    ...getProviderCoverageLimitations(provider, 'TPMT', genotypes, getTablePositions(ALLELE_TABLE))
+  ];
+
+  if (diplotype.confidence === 'medium' && diplotype.phenotype !== 'Unknown') {
+    limitations.push('Not all TPMT positions (*2 rs1800462, *3B rs1800460) were genotyped - call may be incomplete');
+  }
+
+  if (diplotype.phaseAmbiguity) {
+    limitations.push('Heterozygous at both *3B and *3C positions: reported as *1/*3A (cis); the rare *3B/*3C (trans, poor metabolizer) cannot be excluded without phasing');
+  }
+
+  return limitations;
+}
+
+/**
+ * Generate clinical summary
+ */
+function generateClinicalSummary(diplotype: TPMTDiplotype, dosing: CombinedThiopurineDosing): string {
+  const { allele1, allele2, phenotype, confidence } = diplotype;
+
+  let summary = `TPMT Diplotype: ${allele1}/${allele2}\n`;
+  summary += `Phenotype: ${phenotype}\n`;
+  if (dosing.nudt15Diplotype) {
+    summary += `NUDT15 Diplotype: ${dosing.nudt15Diplotype}\n`;
+  }
+  summary += `Combined Thiopurine Phenotype: ${dosing.combinedPhenotype}\n`;
+  summary += `Confidence: ${confidence.toUpperCase()}\n\n`;
+
+  summary += `THIOPURINE STARTING DOSES (CPIC):\n`;
+  summary += `• Mercaptopurine: ${dosing.startingDose.mercaptopurine}\n`;
+  summary += `• Azathioprine: ${dosing.startingDose.azathioprine}\n`;
+  summary += `• Thioguanine: ${dosing.startingDose.thioguanine}\n`;
+
+  return summary;
+}
+
+/**
+ * Main TPMT analysis function - v2 API
+ *
+ * @param genotypes - Array of genotype objects
+ * @param provider - Data provider
+ * @param nudt15Diplotype - Optional NUDT15 diplotype for combined thiopurine dosing
+ * @returns Comprehensive TPMT analysis results
+ */
+export function analyzeTPMT(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  provider: GeneticProvider = '23andme',
+  nudt15Diplotype?: { allele1: string; allele2: string; phenotype: string }
+): TPMTAnalysisResult {
+  const diplotype = determineTPMTDiplotype(genotypes);
+  const thiopurineDosing = calculateThiopurineDosing(diplotype, nudt15Diplotype);
+
+  return {
+    gene: 'TPMT',
+    diplotype,
+    drugs: generateThiopurineRecommendations(thiopurineDosing),
+    clinicalSummary: generateClinicalSummary(diplotype, thiopurineDosing),
+    thiopurineDosing,
+    safetyAlerts: generateSafetyAlerts(diplotype),
+    confidence: diplotype.confidence,
+    limitations: getLimitations(provider, genotypes, diplotype),
+    guidelines: {
+      cpic: 'CPIC Guideline for TPMT and NUDT15 and Thiopurines (PMID: 30447069)',
+      fda: [
+        'FDA Drug Label: Mercaptopurine - TPMT and NUDT15 deficiency',
+        'FDA Drug Label: Azathioprine - TPMT and NUDT15 deficiency',
+        'FDA Drug Label: Thioguanine - TPMT and NUDT15 deficiency'
+      ]
+    },
+    references: getKBReferences('TPMT', [diplotype.allele1, diplotype.allele2])
+  };
+}
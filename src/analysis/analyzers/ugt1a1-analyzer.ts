@@ -23,7 +23,19 @@
  * - Cabotegravir: UGT1A1/1A9 metabolism (FDA label)
  */
 
-export type GeneticProvider = 'unknown' | '23andme' | 'ancestrydna';
+import {
+  getProviderCoverageLimitations,
+  PROVIDER_PROFILES,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import {
+  buildGenotypeSet,
+  callDiplotypes,
+  getTablePositions,
+  lowestActivityCandidate,
+  readHaplotypePhase,
+  type AlleleDefinitionTable
+} from '../core/star-allele-engine';
 
 /**
  * UGT1A1 star alleles
@@ -94,86 +106,35 @@ export interface UGT1A1AnalysisResult {
 }
 
 /**
- * Normalize genotype to canonical form
+ * UGT1A1 allele definitions (GRCh37 forward strand)
+ * Note: rs8175347 (*28 TA repeat) is not reliably detected on SNP arrays and is not defined
  */
-function normalizeGenotype(genotype: string | null): string | null {
-  if (!genotype) return null;
-
-  // Remove whitespace and convert to uppercase
-  let normalized = genotype.trim().toUpperCase();
-
-  // Handle different formats
-  normalized = normalized.replace(/[\s\-\/]/g, '');
-
-  // Sort alleles alphabetically for consistency (e.g., "TC" -> "CT")
-  if (normalized.length === 2) {
-    const sorted = normalized.split('').sort().join('');
-    return sorted;
-  }
-
-  return normalized;
-}
+const ALLELE_TABLE: AlleleDefinitionTable = {
+  gene: 'UGT1A1',
+  alleles: [
+    { allele: '*1', variants: {}, function: 'Normal', activityScore: 1.0 },
+    { allele: '*6', variants: { rs4148323: 'A' }, function: 'Decreased', activityScore: 0.3 }, // G71R, G>A
+    { allele: '*27', variants: { rs887829: 'T' }, function: 'Decreased', activityScore: 0.5 }  // C>T
+  ]
+};
 
 /**
  * Determine diplotype from genotypes
+ *
+ * *6 and *27 on different chromosomes are called as *6/*27; with more variant alleles than
+ * chromosomes the lowest-activity pair is kept.
  */
 function determineDiplotype(
   genotypes: Array<{ rsid: string; genotype: string }>
 ): UGT1A1Diplotype {
-
-  // Extract relevant SNPs
-  const rs4148323 = genotypes.find(g => g.rsid === 'rs4148323')?.genotype || null;
-  const rs887829 = genotypes.find(g => g.rsid === 'rs887829')?.genotype || null;
-  // Note: rs8175347 is the TA repeat - not reliably detected on SNP arrays
-
-  // Determine alleles
-  let allele1: UGT1A1Allele = '*1';
-  let allele2: UGT1A1Allele = '*1';
-  let activity1 = 1.0;
-  let activity2 = 1.0;
-
-  // Check *6 (rs4148323)
-  if (rs4148323) {
-    const norm = normalizeGenotype(rs4148323);
-    if (norm === 'AG') {
-      allele1 = '*1';
-      allele2 = '*6';
-      activity1 = 1.0;
-      activity2 = 0.3;
-    } else if (norm === 'AA') {
-      allele1 = '*6';
-      allele2 = '*6';
-      activity1 = 0.3;
-      activity2 = 0.3;
-    }
-  }
-
-  // Check *27 (rs887829) - only if not already assigned
-  if (rs887829 && allele1 === '*1' && allele2 === '*1') {
-    const norm = normalizeGenotype(rs887829);
-    if (norm === 'CT') {
-      allele1 = '*1';
-      allele2 = '*27';
-      activity1 = 1.0;
-      activity2 = 0.5;
-    } else if (norm === 'TT') {
-      allele1 = '*27';
-      allele2 = '*27';
-      activity1 = 0.5;
-      activity2 = 0.5;
-    }
-  }
-
-  // Calculate activity score
-  const activityScore = activity1 + activity2;
-
-  // Determine phenotype
-  const phenotype = activityScoreToPhenotype(activityScore);
+  const genotypeSet = buildGenotypeSet(genotypes, ALLELE_TABLE);
+  const call = callDiplotypes(ALLELE_TABLE, genotypeSet, { phase: readHaplotypePhase(genotypes, genotypeSet) });
+  const { alleles, activityScore = 2.0 } = lowestActivityCandidate(call);
 
   return {
-    allele1,
-    allele2,
-    phenotype,
+    allele1: alleles[0] as UGT1A1Allele,
+    allele2: alleles[1] as UGT1A1Allele,
+    phenotype: activityScoreToPhenotype(activityScore),
     activityScore
   };
 }
@@ -401,17 +362,26 @@ function determineConfidence(
 /**
  * Get limitations
  */
-function getLimitations(provider: GeneticProvider): string[] {
+function getLimitations(
+  provider: GeneticProvider,
+  genotypes: Array<{ rsid: string; genotype: string }>
+): string[] {
   const limitations: string[] = [
     '⚠️ UGT1A1*28 (TA repeat) is NOT reliably detected on SNP arrays - requires separate testing',
     'Most consumer tests only detect *6 and *27, not *28',
     'True Gilbert syndrome diagnosis requires *28/*28 genotyping'
   ];
 
-  if (provider === '23andme' || provider === 'ancestrydna') {
+  if (PROVIDER_PROFILES[provider].dataType === 'array') {
     limitations.push('Consumer genetic tests may miss rare/novel UGT1A1 variants');
   }
 
+  if (provider === 'vcf') {
+    limitations.push('The *28 TA repeat (rs8175347) is an indel and is not read from VCF SNV records');
+  }
+
+  limitations.push(...getProviderCoverageLimitations(provider, 'UGT1A1', genotypes, getTablePositions(ALLELE_TABLE)));
+
   return limitations;
 }
 
@@ -421,7 +391,7 @@ function getLimitations(provider: GeneticProvider): string[] {
 export function analyzeUGT1A1(
   genotypes: Array<{ rsid: string; genotype: string }>,
 
-  _provider: GeneticProvider = '23andme'
+  provider: GeneticProvider = '23andme'
 ): UGT1A1AnalysisResult {
 
   // Determine diplotype
@@ -437,10 +407,10 @@ export function analyzeUGT1A1(
   const safetyAlerts = generateSafetyAlerts(diplotype);
 
   // Determine confidence
-  const confidence = determineConfidence(diplotype, _provider, genotypes);
+  const confidence = determineConfidence(diplotype, provider, genotypes);
 
   // Get limitations
-  const limitations = getLimitations(_provider);
+  const limitations = getLimitations(provider, genotypes);
 
   // Generate clinical summary
   const clinicalSummary = generateClinicalSummary(diplotype, gilbertSyndrome);
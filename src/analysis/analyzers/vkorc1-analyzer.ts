@@ -19,9 +19,9 @@
  * - Lower VKORC1 expression = MORE warfarin sensitivity = LOWER dose needed
  * 
  * CRITICAL VARIANT:
- * - rs9923231 (G>A, -1639G>A promoter variant): Controls VKORC1 expression
- *   - G/G = High expression (LOW sensitivity) - requires HIGH warfarin dose
- *   - A/A = Low expression (HIGH sensitivity) - requires LOW warfarin dose
+ * - rs9923231 (-1639G>A promoter variant; forward strand C>T): Controls VKORC1 expression
+ *   - C/C (-1639 G/G) = High expression (LOW sensitivity) - requires HIGH warfarin dose
+ *   - T/T (-1639 A/A) = Low expression (HIGH sensitivity) - requires LOW warfarin dose
  * 
  * CLINICAL IMPACT:
  * - Accounts for 25-30% of warfarin dose variability (CYP2C9 = 10-15%)
@@ -32,12 +32,25 @@
  * - A/A genotype: ~2-3mg/day warfarin
  * - A/G genotype: ~4-5mg/day warfarin
  * - G/G genotype: ~6-7mg/day warfarin
+ * - Estimates come from the IWPC algorithm in core/warfarin-dosing (VKORC1, CYP2C9, CYP4F2,
+ *   age, height, weight, race, amiodarone, enzyme inducers); the combined risk grade uses the
+ *   same model
  */
 
-import { extractAndNormalize, type GeneticProvider } from '../utils/genotype-utils';
+import {
+  getProviderCoverageLimitations,
+  type GeneticProvider
+} from '../utils/genotype-utils';
+import { extractStrandNormalized } from '../core/strand-normalization';
+import {
+  calculateWarfarinDose,
+  formatWarfarinDose,
+  type WarfarinClinicalFactors,
+  type WarfarinDoseEstimate
+} from '../core/warfarin-dosing';
 
 export interface VKORC1Genotype {
-  rs9923231: string; // G>A variant
+  rs9923231: string; // Forward strand C>T (-1639G>A)
   phenotype: 'High Sensitivity' | 'Intermediate Sensitivity' | 'Low Sensitivity' | 'Unknown';
   sensitivityScore: number; // 1.0 = low sensitivity, 3.0 = high sensitivity
   confidence: 'high' | 'medium' | 'low';
@@ -45,17 +58,20 @@ export interface VKORC1Genotype {
 
 export interface WarfarinDosingGuidance {
   estimatedDose: string;
+  weeklyDose: number; // mg/week, IWPC with CPIC adjustments
   doseRange: string;
   titrationProtocol: string;
   inrTarget: string;
   inrMonitoring: string;
   timeToTherapeutic: string;
+  model: WarfarinDoseEstimate;
 }
 
 export interface CombinedWarfarinRisk {
   vkorc1Genotype: string;
   cyp2c9Diplotype: string | null;
   combinedRisk: 'Normal' | 'Moderate' | 'High' | 'Very High';
+  doseFraction: number; // IWPC dose relative to VKORC1 G/G, CYP2C9 *1/*1
   bleedingRiskMultiplier: string;
   overAnticoagulationRisk: string;
   clinicalConsiderations: string[];
@@ -86,10 +102,10 @@ export interface VKORC1AnalysisResult {
 /**
  * Map rs9923231 genotype to warfarin sensitivity phenotype
  * 
- * GENOTYPE → PHENOTYPE:
- * - G/G = Low sensitivity (high VKORC1 expression, needs HIGH warfarin dose)
- * - A/G = Intermediate sensitivity (medium VKORC1 expression, needs MEDIUM dose)
- * - A/A = High sensitivity (low VKORC1 expression, needs LOW warfarin dose)
+ * GENOTYPE → PHENOTYPE (GRCh37 forward strand; VKORC1 is on the minus strand):
+ * - C/C (-1639 G/G) = Low sensitivity (high VKORC1 expression, needs HIGH warfarin dose)
+ * - C/T (-1639 G/A) = Intermediate sensitivity (medium VKORC1 expression, needs MEDIUM dose)
+ * - T/T (-1639 A/A) = High sensitivity (low VKORC1 expression, needs LOW warfarin dose)
  */
 function genotypeToPhenotype(rs9923231Genotype: string): {
   phenotype: string;
@@ -108,21 +124,21 @@ function genotypeToPhenotype(rs9923231Genotype: string): {
   const normalized = rs9923231Genotype.replace(/\//g, '').toUpperCase();
 
   // Map genotype to sensitivity
-  // G = low sensitivity (high expression)
-  // A = high sensitivity (low expression)
-  if (normalized === 'GG') {
+  // C (-1639G) = low sensitivity (high expression)
+  // T (-1639A) = high sensitivity (low expression)
+  if (normalized === 'CC') {
     return {
       phenotype: 'Low Sensitivity',
       sensitivityScore: 1.0,
       confidence: 'high'
     };
-  } else if (normalized === 'AG' || normalized === 'GA') {
+  } else if (normalized === 'CT' || normalized === 'TC') {
     return {
       phenotype: 'Intermediate Sensitivity',
       sensitivityScore: 2.0,
       confidence: 'high'
     };
-  } else if (normalized === 'AA') {
+  } else if (normalized === 'TT') {
     return {
       phenotype: 'High Sensitivity',
       sensitivityScore: 3.0,
@@ -139,205 +155,118 @@ function genotypeToPhenotype(rs9923231Genotype: string): {
 }
 
 /**
- * Generate warfarin dosing guidance based on VKORC1 genotype alone
- * 
- * NOTE: Clinical dosing should combine VKORC1 + CYP2C9 + clinical factors
+ * Grade the combined VKORC1 + CYP2C9 risk from the IWPC genotype dose fraction
+ *
+ * The fraction is the patient's dose divided by the dose for VKORC1 G/G, CYP2C9 *1/*1 at the
+ * same age, size and medications, so covariates do not shift the grade.
  */
-function generateWarfarinDosing(
-  vkorc1Genotype: VKORC1Genotype,
-  cyp2c9Diplotype?: { allele1: string; allele2: string; phenotype: string }
-): WarfarinDosingGuidance {
-  const { phenotype } = vkorc1Genotype;
-
-  // Base dosing on VKORC1 alone (if CYP2C9 not provided)
-  if (!cyp2c9Diplotype) {
-    if (phenotype === 'High Sensitivity') {
-      return {
-        estimatedDose: '2-3mg/day',
-        doseRange: '1.5-3.5mg/day',
-        titrationProtocol: 'Start 2mg/day, increase by 0.5-1mg every 5-7 days based on INR',
-        inrTarget: '2.0-3.0 (standard)',
-        inrMonitoring: 'Check INR every 2-3 days for first 2 weeks, then weekly',
-        timeToTherapeutic: '7-14 days (faster than typical due to low dose)'
-      };
-    } else if (phenotype === 'Intermediate Sensitivity') {
-      return {
-        estimatedDose: '4-5mg/day',
-        doseRange: '3.5-5.5mg/day',
-        titrationProtocol: 'Start 4-5mg/day, adjust by 1-2mg weekly based on INR',
-        inrTarget: '2.0-3.0 (standard)',
-        inrMonitoring: 'Check INR every 3-4 days for first 2 weeks, then weekly',
-        timeToTherapeutic: '10-14 days (standard timeframe)'
-      };
-    } else if (phenotype === 'Low Sensitivity') {
-      return {
-        estimatedDose: '6-7mg/day',
-        doseRange: '5.5-8mg/day',
-        titrationProtocol: 'Start 6-7mg/day, may need higher doses. Adjust by 2-3mg weekly.',
-        inrTarget: '2.0-3.0 (standard)',
-        inrMonitoring: 'Check INR every 3-4 days for first 2 weeks, then weekly',
-        timeToTherapeutic: '14-21 days (slower due to higher doses needed)'
-      };
-    } else {
-      return {
-        estimatedDose: '5mg/day (standard)',
-        doseRange: '3-7mg/day',
-        titrationProtocol: 'Use standard INR-guided titration protocol',
-        inrTarget: '2.0-3.0 (standard)',
-        inrMonitoring: 'Standard protocol: weekly INR for first month',
-        timeToTherapeutic: '10-14 days (standard)'
-      };
-    }
-  }
-
-  // Combined VKORC1 + CYP2C9 dosing (CLINICAL STANDARD)
-  const { phenotype: cyp2c9Phenotype } = cyp2c9Diplotype;
-
-  // Combined dosing matrix (simplified CPIC approach)
-  const hasSlowMetabolism = cyp2c9Phenotype === 'Intermediate Metabolizer' || cyp2c9Phenotype === 'Poor Metabolizer';
+function riskFromDoseFraction(fraction: number): CombinedWarfarinRisk['combinedRisk'] {
+  if (fraction >= 0.7) return 'Normal';
+  if (fraction >= 0.5) return 'Moderate';
+  if (fraction >= 0.3) return 'High';
+  return 'Very High';
+}
 
-  if (phenotype === 'High Sensitivity') {
-    if (hasSlowMetabolism) {
-      // HIGH VKORC1 sensitivity + SLOW CYP2C9 = VERY LOW DOSE
-      return {
-        estimatedDose: '0.5-2mg/day',
-        doseRange: '0.5-2.5mg/day',
-        titrationProtocol: 'Start 0.5-1mg/day, increase by 0.5mg every 7 days. VERY SLOW titration.',
-        inrTarget: '2.0-3.0 (standard)',
-        inrMonitoring: 'Check INR every 2-3 days for first 3 weeks (high bleeding risk)',
-        timeToTherapeutic: '14-21 days (very conservative approach)'
-      };
-    } else {
-      // HIGH VKORC1 sensitivity + NORMAL CYP2C9
-      return {
-        estimatedDose: '2-3mg/day',
-        doseRange: '1.5-3.5mg/day',
-        titrationProtocol: 'Start 2mg/day, increase by 0.5-1mg every 5-7 days',
-        inrTarget: '2.0-3.0 (standard)',
-        inrMonitoring: 'Check INR every 2-3 days for first 2 weeks',
-        timeToTherapeutic: '7-14 days'
-      };
-    }
-  } else if (phenotype === 'Intermediate Sensitivity') {
-    if (hasSlowMetabolism) {
-      // INTERMEDIATE VKORC1 + SLOW CYP2C9 = REDUCED DOSE
-      return {
-        estimatedDose: '2.5-4mg/day',
-        doseRange: '2-4.5mg/day',
-        titrationProtocol: 'Start 2.5-3mg/day, increase by 1mg every 5-7 days',
-        inrTarget: '2.0-3.0 (standard)',
-        inrMonitoring: 'Check INR every 3 days for first 2 weeks',
-        timeToTherapeutic: '10-14 days'
-      };
-    } else {
-      // INTERMEDIATE VKORC1 + NORMAL CYP2C9
-      return {
-        estimatedDose: '4-5mg/day',
-        doseRange: '3.5-5.5mg/day',
-        titrationProtocol: 'Start 4-5mg/day, adjust by 1-2mg weekly',
-        inrTarget: '2.0-3.0 (standard)',
-        inrMonitoring: 'Check INR every 3-4 days for first 2 weeks',
-        timeToTherapeutic: '10-14 days'
-      };
-    }
-  } else if (phenotype === 'Low Sensitivity') {
-    if (hasSlowMetabolism) {
-      // LOW VKORC1 sensitivity + SLOW CYP2C9 = STANDARD-ISH DOSE
-      return {
-        estimatedDose: '4-6mg/day',
-        doseRange: '3.5-6.5mg/day',
-        titrationProtocol: 'Start 5mg/day, adjust by 1-2mg weekly',
-        inrTarget: '2.0-3.0 (standard)',
-        inrMonitoring: 'Check INR every 3-4 days for first 2 weeks',
-        timeToTherapeutic: '10-14 days'
-      };
-    } else {
-      // LOW VKORC1 sensitivity + NORMAL CYP2C9 = HIGH DOSE
-      return {
-        estimatedDose: '6-7mg/day',
-        doseRange: '5.5-8mg/day',
-        titrationProtocol: 'Start 6-7mg/day, may need higher. Adjust by 2-3mg weekly.',
-        inrTarget: '2.0-3.0 (standard)',
-        inrMonitoring: 'Check INR every 3-4 days for first 2 weeks',
-        timeToTherapeutic: '14-21 days'
-      };
+/**
+ * Generate warfarin dosing guidance from the IWPC estimate
+ *
+ * NOTE: The estimate is a starting point - maintenance dose is always INR-guided
+ */
+function generateWarfarinDosing(estimate: WarfarinDoseEstimate): WarfarinDosingGuidance {
+  const risk = riskFromDoseFraction(estimate.genotypeDoseFraction);
+  // IWPC mean absolute error ~8.5 mg/week
+  const low = Math.max((estimate.weeklyDose - 8.5) / 7, 0.5);
+  const high = (estimate.weeklyDose + 8.5) / 7;
+
+  const protocol = {
+    'Very High': {
+      titrationProtocol: 'Start at the estimated dose without loading, increase by 0.5mg no more than weekly. VERY SLOW titration.',
+      inrMonitoring: 'Check INR every 2-3 days for first 3 weeks (high bleeding risk)',
+      timeToTherapeutic: '14-21 days (very conservative approach)'
+    },
+    'High': {
+      titrationProtocol: 'Start at the estimated dose, increase by 0.5-1mg every 5-7 days based on INR',
+      inrMonitoring: 'Check INR every 2-3 days for first 2 weeks, then weekly',
+      timeToTherapeutic: '10-14 days'
+    },
+    'Moderate': {
+      titrationProtocol: 'Start at the estimated dose, adjust by 1mg every 5-7 days based on INR',
+      inrMonitoring: 'Check INR every 3 days for first 2 weeks, then weekly',
+      timeToTherapeutic: '10-14 days'
+    },
+    'Normal': {
+      titrationProtocol: estimate.genotypeDoseFraction > 1.1
+        ? 'Start at the estimated dose, may need higher. Adjust by 1-2mg weekly based on INR.'
+        : 'Start at the estimated dose, adjust by 1-2mg weekly based on INR',
+      inrMonitoring: 'Check INR every 3-4 days for first 2 weeks, then weekly',
+      timeToTherapeutic: estimate.genotypeDoseFraction > 1.1
+        ? '14-21 days (slower due to higher doses needed)'
+        : '10-14 days (standard timeframe)'
     }
-  }
+  }[risk];
 
-  // Unknown
   return {
-    estimatedDose: '5mg/day (standard)',
-    doseRange: '3-7mg/day',
-    titrationProtocol: 'Use standard INR-guided protocol',
+    estimatedDose: formatWarfarinDose(estimate),
+    weeklyDose: estimate.weeklyDose,
+    doseRange: `${low.toFixed(1)}-${high.toFixed(1)}mg/day (IWPC estimate ±8.5 mg/week)`,
+    ...protocol,
     inrTarget: '2.0-3.0 (standard)',
-    inrMonitoring: 'Weekly INR for first month',
-    timeToTherapeutic: '10-14 days'
+    model: estimate
   };
 }
 
 /**
- * Calculate combined VKORC1 + CYP2C9 bleeding risk
+ * Calculate combined VKORC1 + CYP2C9 bleeding risk from the dosing model
  */
 function calculateCombinedRisk(
   vkorc1Genotype: VKORC1Genotype,
+  estimate: WarfarinDoseEstimate,
   cyp2c9Diplotype?: { allele1: string; allele2: string; phenotype: string }
 ): CombinedWarfarinRisk {
-  if (!cyp2c9Diplotype) {
-    return {
-      vkorc1Genotype: vkorc1Genotype.rs9923231,
-      cyp2c9Diplotype: null,
-      combinedRisk: 'Moderate',
-      bleedingRiskMultiplier: 'Unknown - CYP2C9 not tested',
-      overAnticoagulationRisk: 'VKORC1 alone: monitor closely',
-      clinicalConsiderations: [
-        'CYP2C9 testing recommended for comprehensive warfarin risk assessment',
-        'Combined VKORC1 + CYP2C9 explains ~40-50% of dose variability',
-        'Clinical factors (age, weight, drug interactions) also important'
-      ]
-    };
-  }
-
-  const { allele1, allele2, phenotype } = cyp2c9Diplotype;
-  const vkorc1High = vkorc1Genotype.phenotype === 'High Sensitivity';
-  const vkorc1Int = vkorc1Genotype.phenotype === 'Intermediate Sensitivity';
-  const cyp2c9Poor = phenotype === 'Poor Metabolizer';
-  const cyp2c9Int = phenotype === 'Intermediate Metabolizer';
-
-  let combinedRisk: 'Normal' | 'Moderate' | 'High' | 'Very High' = 'Normal';
-  let bleedingRiskMultiplier = 'Baseline (1x)';
-  let overAnticoagulationRisk = 'Normal';
+  const combinedRisk = riskFromDoseFraction(estimate.genotypeDoseFraction);
+  const dose = formatWarfarinDose(estimate);
+  const percent = Math.round(estimate.genotypeDoseFraction * 100);
   const considerations: string[] = [];
 
-  // Risk stratification matrix
-  if (vkorc1High && cyp2c9Poor) {
-    combinedRisk = 'Very High';
+  let bleedingRiskMultiplier: string;
+  let overAnticoagulationRisk: string;
+  if (combinedRisk === 'Very High') {
     bleedingRiskMultiplier = '5-8x baseline risk';
-    overAnticoagulationRisk = 'VERY HIGH - requires 0.5-2mg/day dosing';
+    overAnticoagulationRisk = `VERY HIGH - requires ${dose}`;
     considerations.push('⚠️ HIGHEST RISK COMBINATION - requires very low doses');
-    considerations.push('⚠️ Start 0.5-1mg/day, titrate extremely slowly');
+    considerations.push('⚠️ Do not load; titrate extremely slowly');
     considerations.push('⚠️ INR every 2-3 days for first 3 weeks');
-  } else if ((vkorc1High && cyp2c9Int) || (vkorc1Int && cyp2c9Poor)) {
-    combinedRisk = 'High';
+  } else if (combinedRisk === 'High') {
     bleedingRiskMultiplier = '3-5x baseline risk';
-    overAnticoagulationRisk = 'HIGH - requires 2-4mg/day dosing';
+    overAnticoagulationRisk = `HIGH - requires ${dose}`;
     considerations.push('⚠️ HIGH RISK - requires reduced dosing and close monitoring');
-    considerations.push('⚠️ Start 2-3mg/day, titrate slowly');
     considerations.push('⚠️ Frequent INR monitoring (every 2-3 days initially)');
-  } else if (vkorc1High || cyp2c9Poor || (vkorc1Int && cyp2c9Int)) {
-    combinedRisk = 'Moderate';
+  } else if (combinedRisk === 'Moderate') {
     bleedingRiskMultiplier = '2-3x baseline risk';
-    overAnticoagulationRisk = 'MODERATE - requires 2.5-5mg/day dosing';
+    overAnticoagulationRisk = `MODERATE - requires ${dose}`;
     considerations.push('⚠️ MODERATE RISK - dose adjustment recommended');
     considerations.push('💡 More frequent monitoring than standard protocol');
   } else {
-    combinedRisk = 'Normal';
     bleedingRiskMultiplier = 'Baseline (1-2% per year)';
-    overAnticoagulationRisk = 'Normal - standard 5mg/day starting dose appropriate';
+    overAnticoagulationRisk = `Normal - ${dose}`;
     considerations.push('✅ Normal pharmacogenetic risk profile');
-    considerations.push('💡 Standard warfarin dosing and monitoring appropriate');
     considerations.push('💡 Still requires INR monitoring (other factors affect response)');
   }
 
+  considerations.push(`💡 Genotype dose: ${percent}% of a VKORC1 G/G, CYP2C9 *1/*1 patient with the same clinical factors (IWPC)`);
+  for (const adjustment of estimate.adjustments) {
+    considerations.push(`💡 ${adjustment.reason}: ${adjustment.source}`);
+  }
+  if (estimate.gage) {
+    considerations.push(`💡 Gage algorithm: ${(estimate.gage.weeklyDose / 7).toFixed(1)} mg/day (${estimate.gage.weeklyDose.toFixed(1)} mg/week)`);
+  }
+  if (estimate.assumedInputs.length > 0) {
+    considerations.push(`💡 Not provided, reference values used: ${estimate.assumedInputs.join(', ')}`);
+  }
+  if (!cyp2c9Diplotype) {
+    considerations.push('CYP2C9 testing recommended for comprehensive warfarin risk assessment');
+  }
+
   // Add CPIC guidance note
   if (combinedRisk === 'Very High' || combinedRisk === 'High') {
     considerations.push('📋 CPIC guidelines recommend pharmacogenetic-guided dosing');
@@ -345,8 +274,9 @@ function calculateCombinedRisk(
 
   return {
     vkorc1Genotype: vkorc1Genotype.rs9923231,
-    cyp2c9Diplotype: `${allele1}/${allele2}`,
+    cyp2c9Diplotype: cyp2c9Diplotype ? `${cyp2c9Diplotype.allele1}/${cyp2c9Diplotype.allele2}` : null,
     combinedRisk,
+    doseFraction: estimate.genotypeDoseFraction,
     bleedingRiskMultiplier,
     overAnticoagulationRisk,
     clinicalConsiderations: considerations
@@ -358,25 +288,27 @@ function calculateCombinedRisk(
  */
 function generateSafetyAlerts(
   vkorc1Genotype: VKORC1Genotype,
-  combinedRisk: CombinedWarfarinRisk | null
+  combinedRisk: CombinedWarfarinRisk | null,
+  warfarinDosing: WarfarinDosingGuidance
 ): string[] {
+  const dose = warfarinDosing.estimatedDose;
   const alerts: string[] = [];
   const { phenotype } = vkorc1Genotype;
 
   // VKORC1-specific alerts
   if (phenotype === 'High Sensitivity') {
-    alerts.push('🚨 HIGH WARFARIN SENSITIVITY - Requires LOW dose (2-3mg/day)');
+    alerts.push('🚨 HIGH WARFARIN SENSITIVITY - Requires LOW dose');
     alerts.push('🚨 VKORC1 A/A genotype - low enzyme expression');
-    alerts.push('⚠️ Start 2mg/day or LOWER (not standard 5mg/day)');
+    alerts.push(`⚠️ Start at ${dose} (not standard 5mg/day)`);
     alerts.push('⚠️ Over-anticoagulation risk - requires close INR monitoring');
   } else if (phenotype === 'Intermediate Sensitivity') {
-    alerts.push('⚠️ INTERMEDIATE WARFARIN SENSITIVITY - Requires MEDIUM dose (4-5mg/day)');
+    alerts.push('⚠️ INTERMEDIATE WARFARIN SENSITIVITY - Requires MEDIUM dose');
     alerts.push('💡 VKORC1 A/G genotype - intermediate enzyme expression');
-    alerts.push('💡 Start 4-5mg/day with standard monitoring');
+    alerts.push(`💡 Start at ${dose} with standard monitoring`);
   } else if (phenotype === 'Low Sensitivity') {
-    alerts.push('💡 LOW WARFARIN SENSITIVITY - May require HIGH dose (6-7mg/day)');
+    alerts.push('💡 LOW WARFARIN SENSITIVITY - May require HIGH dose');
     alerts.push('💡 VKORC1 G/G genotype - high enzyme expression');
-    alerts.push('💡 May need 6-7mg/day or higher to achieve therapeutic INR');
+    alerts.push(`💡 May need ${dose} or higher to achieve therapeutic INR`);
   } else {
     alerts.push('⚠️ UNKNOWN VKORC1 STATUS - Use conservative dosing');
     alerts.push('💡 Consider VKORC1 genetic testing for personalized dosing');
@@ -388,7 +320,7 @@ function generateSafetyAlerts(
       alerts.push('');
       alerts.push('🚨🚨 VERY HIGH COMBINED RISK (VKORC1 + CYP2C9)');
       alerts.push('🚨 5-8x INCREASED BLEEDING RISK');
-      alerts.push('🚨 Requires VERY LOW doses (0.5-2mg/day)');
+      alerts.push(`🚨 Requires VERY LOW doses (${dose})`);
       alerts.push('🚨 Consider alternative anticoagulant (DOAC) if appropriate');
     } else if (combinedRisk.combinedRisk === 'High') {
       alerts.push('');
@@ -414,7 +346,7 @@ function generateSafetyAlerts(
 function determineVKORC1GenotypeV2(
   genotypes: Array<{ rsid: string; genotype: string }>
 ): VKORC1Genotype {
-  const rs9923231 = extractAndNormalize(genotypes, 'rs9923231');
+  const rs9923231 = extractStrandNormalized(genotypes, 'rs9923231');
   const phenotypeResult = genotypeToPhenotype(rs9923231 || 'Unknown');
 
   return {
@@ -429,26 +361,35 @@ function determineVKORC1GenotypeV2(
  * Main VKORC1 analysis function - v2 API
  *
  * @param genotypes - Array of genotype objects from 23andMe
- * @param provider - Data provider ('23andme' or 'unknown')
+ * @param provider - Data provider
  * @param cyp2c9Diplotype - Optional CYP2C9 diplotype for combined risk assessment
+ * @param clinical - Optional clinical covariates for the IWPC dose estimate
  * @returns Comprehensive VKORC1 analysis results
  */
 export function analyzeVKORC1(
   genotypes: Array<{ rsid: string; genotype: string }>,
-  _provider: GeneticProvider = '23andme',
-  cyp2c9Diplotype?: { allele1: string; allele2: string; phenotype: string }
+  provider: GeneticProvider = '23andme',
+  cyp2c9Diplotype?: { allele1: string; allele2: string; phenotype: string },
+  clinical: WarfarinClinicalFactors = {}
 ): VKORC1AnalysisResult {
   // Determine genotype
   const genotype = determineVKORC1GenotypeV2(genotypes);
 
+  // Dose model shared by dosing guidance and combined risk
+  const estimate = calculateWarfarinDose(
+    genotypes,
+    cyp2c9Diplotype && cyp2c9Diplotype.phenotype !== 'Unknown' ? cyp2c9Diplotype : null,
+    clinical
+  );
+
   // Generate dosing guidance
-  const warfarinDosing = generateWarfarinDosing(genotype, cyp2c9Diplotype);
+  const warfarinDosing = generateWarfarinDosing(estimate);
 
   // Calculate combined risk
-  const combinedRisk = calculateCombinedRisk(genotype, cyp2c9Diplotype);
+  const combinedRisk = calculateCombinedRisk(genotype, estimate, cyp2c9Diplotype);
 
   // Generate alerts
-  const safetyAlerts = generateSafetyAlerts(genotype, combinedRisk);
+  const safetyAlerts = generateSafetyAlerts(genotype, combinedRisk, warfarinDosing);
 
   // Clinical summary
   const clinicalSummary = `
@@ -482,6 +423,7 @@ COMBINED PHARMACOGENETICS:
 • CYP2C9: ${cyp2c9Diplotype.allele1}/${cyp2c9Diplotype.allele2} (${cyp2c9Diplotype.phenotype})
 • Combined Risk: ${combinedRisk?.combinedRisk}
 • Bleeding Risk: ${combinedRisk?.bleedingRiskMultiplier}
+• IWPC Estimate: ${warfarinDosing.estimatedDose}
 
 Together, VKORC1 and CYP2C9 explain ~40-50% of warfarin dose variability.
 The remaining variability comes from clinical factors (age, weight, diet, medications).
@@ -500,9 +442,9 @@ CLINICAL PEARLS:
     drug: 'Warfarin',
     category: 'Anticoagulant',
     recommendation: genotype.phenotype === 'High Sensitivity'
-      ? 'REDUCE starting dose by 50-70%. Start at 2-3mg/day.'
+      ? `REDUCE starting dose by 50-70%. Start at ${warfarinDosing.estimatedDose}.`
       : genotype.phenotype === 'Intermediate Sensitivity'
-        ? 'REDUCE starting dose by 20-40%. Start at 3.5-4.5mg/day.'
+        ? `REDUCE starting dose by 20-40%. Start at ${warfarinDosing.estimatedDose}.`
         : genotype.phenotype === 'Low Sensitivity'
           ? 'MAY REQUIRE INCREASED dose. Standard 5mg/day may be insufficient.'
           : 'Use standard dosing with close monitoring',
@@ -513,10 +455,14 @@ CLINICAL PEARLS:
   // Limitations
   const limitations = [
     'VKORC1 accounts for only 25-30% of warfarin dose variability',
-    'Does not account for CYP2C9 metabolism (~10-15% variability)',
+    ...(cyp2c9Diplotype ? [] : ['Does not account for CYP2C9 metabolism (~10-15% variability)']),
     'Clinical factors also critical: age, weight, vitamin K intake, drug interactions',
+    ...(estimate.assumedInputs.length > 0
+      ? [`Dose estimate uses reference values for: ${estimate.assumedInputs.join(', ')}`]
+      : []),
     'Does not detect rare VKORC1 variants',
-    '23andMe covers only rs9923231 (primary variant)'
+    'Only rs9923231 (primary variant) is interpreted',
+    ...getProviderCoverageLimitations(provider, 'VKORC1', genotypes, ['rs9923231'])
   ];
 
   // Guidelines
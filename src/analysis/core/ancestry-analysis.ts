@@ -0,0 +1,277 @@
+/**
+ * ANCESTRY COMPOSITION ESTIMATION
+ * Offline admixture estimation from a bundled panel of ancestry-informative markers (AIMs)
+ *
+ * Method:
+ * - Each AIM in src/data/ancestry-aim-panel.json carries the frequency of one allele in every
+ *   reference population
+ * - Admixture proportions q are the maximum-likelihood solution of
+ *     L(q) = Π_markers f^g (1 - f)^(2 - g),  f = Σ_k q_k p_k
+ *   (g = copies of the panel allele, p_k = its frequency in population k), found by EM with the
+ *   population frequencies held fixed (supervised projection, as in frappe / ADMIXTURE -supervised)
+ * - 95% confidence intervals come from a bootstrap over markers with a seeded PRNG, so the same
+ *   data always gives the same intervals
+ *
+ * Version: 1.0.0
+ */
+
+import panelData from '../../data/ancestry-aim-panel.json';
+import { AncestryPanelFileSchema, type AncestryMarker } from '../schemas/kb-schemas';
+
+export interface AncestryComponent {
+  population: string;
+  percentage: number;
+  confidence: [number, number]; // 95% bootstrap interval, in percent
+}
+
+export interface AncestryEstimate {
+  status: 'estimated' | 'insufficient_data';
+  components: AncestryComponent[]; // Sorted by percentage, largest first
+  markersUsed: number;
+  markersInPanel: number;
+  bootstrapReplicates: number;
+  logLikelihood: number | null;
+  panelVersion: string;
+  limitations: string[];
+}
+
+export interface AncestryPanel {
+  version: string;
+  populations: string[];
+  markers: AncestryMarker[];
+}
+
+export interface AncestryEstimationOptions {
+  bootstrapReplicates?: number;
+  seed?: number;
+}
+
+/**
+ * Ancestry used to weight population allele frequencies
+ */
+export interface AncestryProportions {
+  source: 'declared' | 'inferred';
+  proportions: Record<string, number>; // Panel population → fraction (0-1)
+}
+
+/** Fewer genotyped markers than this cannot separate the reference populations */
+export const MIN_ANCESTRY_MARKERS = 6;
+
+const DEFAULT_BOOTSTRAP_REPLICATES = 200;
+const DEFAULT_SEED = 20240601;
+const MAX_EM_ITERATIONS = 1000;
+const EM_TOLERANCE = 1e-7;
+
+// Fixed allele frequencies of 0 or 1 would make a single discordant genotype impossible
+const FREQUENCY_FLOOR = 0.01;
+
+interface Observation {
+  alleleCount: number;   // Copies of the panel allele (0-2)
+  frequencies: number[]; // Panel allele frequency per population, floored
+}
+
+/**
+ * Validate an ancestry panel file
+ *
+ * @param data - Raw panel JSON (defaults to the bundled ancestry-aim-panel.json)
+ * @throws ZodError if the panel does not match the schema
+ */
+export function loadAncestryPanel(data: unknown = panelData): AncestryPanel {
+  const file = AncestryPanelFileSchema.parse(data);
+
+  return {
+    version: file.panel_version,
+    populations: file.populations,
+    markers: file.markers
+  };
+}
+
+let cachedPanel: AncestryPanel | null = null;
+
+/**
+ * Get the bundled AIM panel (validated once, then cached)
+ */
+export function getAncestryPanel(): AncestryPanel {
+  if (!cachedPanel) {
+    cachedPanel = loadAncestryPanel();
+  }
+  return cachedPanel;
+}
+
+/**
+ * Copies of the panel allele in a genotype, or null for no-calls and alleles outside the panel
+ */
+function countPanelAllele(marker: AncestryMarker, genotype: string): number | null {
+  const alleles = genotype.replace(/\s/g, '').toUpperCase().split('');
+
+  if (alleles.length !== 2) return null;
+  if (!alleles.every(a => a === marker.allele || a === marker.other_allele)) return null;
+
+  return alleles.filter(a => a === marker.allele).length;
+}
+
+/**
+ * Maximum-likelihood admixture proportions by EM with fixed population frequencies
+ */
+function estimateProportions(
+  observations: Observation[],
+  populationCount: number
+): { proportions: number[]; logLikelihood: number } {
+  let q = new Array(populationCount).fill(1 / populationCount);
+
+  for (let iteration = 0; iteration < MAX_EM_ITERATIONS; iteration++) {
+    const next = new Array(populationCount).fill(0);
+
+    for (const { alleleCount, frequencies } of observations) {
+      const f = frequencies.reduce((sum, p, k) => sum + q[k] * p, 0);
+
+      for (let k = 0; k < populationCount; k++) {
+        next[k] += alleleCount * (q[k] * frequencies[k]) / f;
+        next[k] += (2 - alleleCount) * (q[k] * (1 - frequencies[k])) / (1 - f);
+      }
+    }
+
+    const total = 2 * observations.length;
+    const updated = next.map(v => v / total);
+    const change = Math.max(...updated.map((v, k) => Math.abs(v - q[k])));
+    q = updated;
+
+    if (change < EM_TOLERANCE) break;
+  }
+
+  const logLikelihood = observations.reduce((sum, { alleleCount, frequencies }) => {
+    const f = frequencies.reduce((acc, p, k) => acc + q[k] * p, 0);
+    return sum + alleleCount * Math.log(f) + (2 - alleleCount) * Math.log(1 - f);
+  }, 0);
+
+  return { proportions: q, logLikelihood };
+}
+
+/**
+ * Seeded PRNG (mulberry32) for reproducible bootstrap intervals
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  const index = (sorted.length - 1) * fraction;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+function getLimitations(markersUsed: number, markersInPanel: number): string[] {
+  return [
+    `Estimated from ${markersUsed} of ${markersInPanel} ancestry-informative markers - continental resolution only`,
+    'Reference populations are continental groups; admixture within a continent is not resolved',
+    'Proportions describe genetic similarity to modern reference groups, not lineage or ethnic identity'
+  ];
+}
+
+/**
+ * Main ancestry estimation function
+ *
+ * @param genotypes - rsID → genotype record
+ * @param options - Bootstrap replicates and PRNG seed
+ * @returns Admixture proportions with 95% bootstrap confidence intervals
+ */
+export function estimateAncestry(
+  genotypes: Record<string, string>,
+  options: AncestryEstimationOptions = {}
+): AncestryEstimate {
+  const panel = getAncestryPanel();
+  const replicates = options.bootstrapReplicates ?? DEFAULT_BOOTSTRAP_REPLICATES;
+
+  const observations: Observation[] = [];
+  for (const marker of panel.markers) {
+    const genotype = genotypes[marker.rsid];
+    if (!genotype) continue;
+
+    const alleleCount = countPanelAllele(marker, genotype);
+    if (alleleCount === null) continue;
+
+    observations.push({
+      alleleCount,
+      frequencies: panel.populations.map(p =>
+        Math.min(Math.max(marker.frequencies[p], FREQUENCY_FLOOR), 1 - FREQUENCY_FLOOR)
+      )
+    });
+  }
+
+  const base = {
+    markersUsed: observations.length,
+    markersInPanel: panel.markers.length,
+    panelVersion: panel.version,
+    limitations: getLimitations(observations.length, panel.markers.length)
+  };
+
+  if (observations.length < MIN_ANCESTRY_MARKERS) {
+    return {
+      ...base,
+      status: 'insufficient_data',
+      components: [],
+      bootstrapReplicates: 0,
+      logLikelihood: null
+    };
+  }
+
+  const { proportions, logLikelihood } = estimateProportions(observations, panel.populations.length);
+
+  // Bootstrap over markers
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+  const samples: number[][] = panel.populations.map(() => []);
+
+  for (let r = 0; r < replicates; r++) {
+    const resampled = observations.map(() => observations[Math.floor(random() * observations.length)]);
+    const { proportions: bootstrap } = estimateProportions(resampled, panel.populations.length);
+    bootstrap.forEach((q, k) => samples[k].push(q));
+  }
+
+  const components: AncestryComponent[] = panel.populations.map((population, k) => {
+    const sorted = [...samples[k]].sort((a, b) => a - b);
+    const percentage = round1(proportions[k] * 100);
+
+    const confidence: [number, number] = sorted.length > 0
+      ? [
+          Math.min(round1(percentile(sorted, 0.025) * 100), percentage),
+          Math.max(round1(percentile(sorted, 0.975) * 100), percentage)
+        ]
+      : [percentage, percentage];
+
+    return { population, percentage, confidence };
+  });
+
+  return {
+    ...base,
+    status: 'estimated',
+    components: components.sort((a, b) => b.percentage - a.percentage),
+    bootstrapReplicates: replicates,
+    logLikelihood
+  };
+}
+
+/**
+ * Admixture proportions of an estimate as population weights
+ *
+ * @returns null when there were too few markers to estimate ancestry
+ */
+export function getAncestryProportions(estimate: AncestryEstimate): AncestryProportions | null {
+  if (estimate.status !== 'estimated') return null;
+
+  return {
+    source: 'inferred',
+    proportions: Object.fromEntries(estimate.components.map(c => [c.population, c.percentage / 100]))
+  };
+}
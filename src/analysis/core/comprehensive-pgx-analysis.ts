@@ -8,40 +8,83 @@
  * - Each gene analyzer is called directly
  * - Results are combined into a comprehensive object
  * - Critical safety findings are extracted
- * - Drug-drug interactions are identified
+ * - Drug-drug-gene interactions: CYP inhibitors and inducers in the current medications
+ *   give an effective phenotype that drives each CYP analyzer's recommendations
+ * - Medication review: current and planned medications checked against every analyzer
  */
 
 import { analyzeCYP2C9, type CYP2C9AnalysisResult } from '../analyzers/cyp2c9-analyzer';
+import { analyzeCYP2C19, type CYP2C19AnalysisResult } from '../analyzers/cyp2c19-analyzer';
 import { analyzeVKORC1, type VKORC1AnalysisResult } from '../analyzers/vkorc1-analyzer';
 import { analyzeSLCO1B1, type SLCO1B1AnalysisResult } from '../analyzers/slco1b1-analyzer';
 import { analyzeF5, type F5AnalysisResult } from '../analyzers/f5-analyzer';
-import { analyzeCYP2D6, type CYP2D6AnalysisResult } from '../analyzers/cyp2d6-analyzer';
+import { analyzeThrombophilia, type ThrombophiliaAnalysisResult } from '../analyzers/thrombophilia-analyzer';
+import {
+  analyzeCYP2D6,
+  type CYP2D6AnalysisResult,
+  type CYP2D6StructuralVariants
+} from '../analyzers/cyp2d6-analyzer';
 import { analyzeUGT1A1, type UGT1A1AnalysisResult } from '../analyzers/ugt1a1-analyzer';
 import { analyzeCYP3A5, type CYP3A5AnalysisResult } from '../analyzers/cyp3a5-analyzer';
+import { analyzeCYP3A4, type CYP3A4AnalysisResult } from '../analyzers/cyp3a4-analyzer';
+import { analyzeCYP2B6, type CYP2B6AnalysisResult } from '../analyzers/cyp2b6-analyzer';
+import { analyzeCYP1A2, type CYP1A2AnalysisResult } from '../analyzers/cyp1a2-analyzer';
+import { analyzeNAT2, type NAT2AnalysisResult } from '../analyzers/nat2-analyzer';
+import { analyzeDPYD, type DPYDAnalysisResult } from '../analyzers/dpyd-analyzer';
+import { analyzeTPMT, type TPMTAnalysisResult } from '../analyzers/tpmt-analyzer';
+import { analyzeNUDT15, type NUDT15AnalysisResult } from '../analyzers/nudt15-analyzer';
+import { analyzeHLA, type HLAAnalysisResult } from '../analyzers/hla-analyzer';
+import { analyzeG6PD, type G6PDAnalysisResult } from '../analyzers/g6pd-analyzer';
+import { getKBMismatches, getPGxKnowledgeBase } from './pgx-knowledge-base';
+import { iwpcRaceFromAncestry, type WarfarinClinicalFactors } from './warfarin-dosing';
+import { formatAnnualRisk, formatRelativeRisk, type VTEClinicalFactors } from './vte-risk';
+import { extractStrandNormalized } from './strand-normalization';
+import type { Phenoconversion } from './phenoconversion';
+import { mentionsMedication } from './drug-dictionary';
+import { reviewMedications, type MedicationReview } from './medication-review';
+import type { AncestryProportions } from './ancestry-analysis';
+import type { KnowledgeBaseStatus } from '../schemas/kb-schemas';
+import type { GeneticProvider, RawGenotype } from '../utils/genotype-utils';
 
 export interface ComprehensivePGxResult {
   // Core CYP enzymes
   cyp2d6?: CYP2D6AnalysisResult;
   cyp2c9?: CYP2C9AnalysisResult;
-  cyp2c19?: any; // TODO: Add CYP2C19 analyzer
-  cyp3a4?: any;  // TODO: Add CYP3A4 analyzer
+  cyp2c19?: CYP2C19AnalysisResult;
+  cyp3a4?: CYP3A4AnalysisResult;  // Includes combined CYP3A4/CYP3A5 phenotype
   cyp3a5?: CYP3A5AnalysisResult;
-  cyp2b6?: any;  // TODO: Add CYP2B6 analyzer
-  cyp1a2?: any;  // TODO: Add CYP1A2 analyzer
+  cyp2b6?: CYP2B6AnalysisResult;
+  cyp1a2?: CYP1A2AnalysisResult;  // Inducibility; shared with the nutrigenomics caffeine finding
 
   // Other pharmacogenes
   vkorc1?: VKORC1AnalysisResult;
   slco1b1?: SLCO1B1AnalysisResult;
   f5?: F5AnalysisResult;
+  thrombophilia?: ThrombophiliaAnalysisResult; // F5 + F2 panel with numeric VTE risk
   ugt1a1?: UGT1A1AnalysisResult;
+  nat2?: NAT2AnalysisResult;      // Acetylator status; shared with the nutrigenomics detox section
 
   // Critical safety genes
   criticalSafety?: {
-    dpyd?: any[];    // TODO: Add DPYD analyzer
-    tpmt?: any[];    // TODO: Add TPMT analyzer
-    nudt15?: any[];  // TODO: Add NUDT15 analyzer
+    dpyd?: DPYDAnalysisResult;
+    tpmt?: TPMTAnalysisResult;     // Includes combined TPMT + NUDT15 thiopurine dosing
+    nudt15?: NUDT15AnalysisResult;
+    hla?: HLAAnalysisResult;       // Tag-SNP screen for B*57:01, B*15:02, B*58:01, A*31:01
+    g6pd?: G6PDAnalysisResult;     // X-linked: hemizygous male calls read as one allele
   };
 
+  // CYP enzymes with an inhibitor or inducer in the current medications
+  phenoconversion?: Phenoconversion[];
+
+  // Personal medication list checked against every analyzer (when medications are given)
+  medicationReview?: MedicationReview;
+
+  // Knowledge base used by the analyzers, with any KB / analyzer disagreements
+  knowledgeBase?: KnowledgeBaseStatus;
+
+  // Caveats about the input file itself (e.g. VCF build or missing gVCF blocks)
+  dataLimitations?: string[];
+
   // Summary
   summary: {
     genesAnalyzed: string[];
@@ -51,6 +94,24 @@ export interface ComprehensivePGxResult {
   };
 }
 
+/**
+ * Data beyond the SNP calls that some analyzers can use
+ */
+export interface PGxAnalysisOptions {
+  cyp2d6Structural?: CYP2D6StructuralVariants; // Copy number / hybrids (report, CNV file, VCF)
+  phasedGenotypes?: RawGenotype[];              // Phased VCF calls (haplotype order for star-allele calls)
+  ancestry?: AncestryProportions;               // Declared or inferred; weights haplotype frequencies
+  smoker?: boolean;                             // Current smoking status (CYP1A2 induction)
+  warfarin?: WarfarinClinicalFactors;           // Age, size, race, interacting drugs (IWPC dose)
+  vte?: VTEClinicalFactors;                     // Age, BMI, pregnancy, surgery, estrogen (VTE risk)
+  medications?: string[];                       // Current medications (phenoconversion, review)
+  plannedMedications?: string[];                // Medications being considered (review only)
+  dataLimitations?: string[];                   // Import caveats for the source file (VCF import)
+}
+
+/** IWPC enzyme inducers */
+const WARFARIN_ENZYME_INDUCERS = ['carbamazepine', 'phenytoin', 'rifampin'];
+
 /**
  * Main comprehensive PGx analysis function
  *
@@ -58,7 +119,8 @@ export interface ComprehensivePGxResult {
  */
 export function analyzeComprehensivePGx(
   genotypes: Array<{ rsid: string; genotype: string }>,
-  provider: '23andme' | 'unknown' = '23andme'
+  provider: GeneticProvider = '23andme',
+  options: PGxAnalysisOptions = {}
 ): ComprehensivePGxResult {
 
   const genesAnalyzed: string[] = [];
@@ -66,6 +128,31 @@ export function analyzeComprehensivePGx(
   let totalDrugsAffected = 0;
   let highConfidenceResults = 0;
 
+  const medications = options.medications ?? [];
+
+  // Phased VCF rows replace the unphased calls so the star-allele engine sees haplotype order
+  if (options.phasedGenotypes?.length) {
+    const phased = new Map(options.phasedGenotypes.filter(g => g.phased).map(g => [g.rsid, g]));
+    genotypes = genotypes.map(g => phased.get(g.rsid) ?? g);
+  }
+
+  // Warfarin covariates: smoking status, race and interacting drugs fall back to the shared options
+  const warfarinFactors: WarfarinClinicalFactors = {
+    ...options.warfarin,
+    smoker: options.warfarin?.smoker ?? options.smoker,
+    race: options.warfarin?.race ?? iwpcRaceFromAncestry(options.ancestry),
+    amiodarone: options.warfarin?.amiodarone
+      ?? (options.medications ? medications.some(m => mentionsMedication(m, 'amiodarone')) : undefined),
+    enzymeInducer: options.warfarin?.enzymeInducer
+      ?? (options.medications ? medications.some(m => WARFARIN_ENZYME_INDUCERS.some(d => mentionsMedication(m, d))) : undefined)
+  };
+
+  // VTE risk modifiers: smoking status falls back to the shared options
+  const vteFactors: VTEClinicalFactors = {
+    ...options.vte,
+    smoker: options.vte?.smoker ?? options.smoker
+  };
+
   // ============================================================================
   // CYP2D6 - Amphetamines, Codeine, Antidepressants, Antipsychotics
   // ============================================================================
@@ -73,7 +160,7 @@ export function analyzeComprehensivePGx(
   let cyp2d6Result: CYP2D6AnalysisResult | undefined;
 
   try {
-    cyp2d6Result = analyzeCYP2D6(genotypes, provider);
+    cyp2d6Result = analyzeCYP2D6(genotypes, provider, options.cyp2d6Structural, options.ancestry, medications);
     genesAnalyzed.push('CYP2D6');
     totalDrugsAffected += cyp2d6Result.drugs.length;
 
@@ -96,7 +183,7 @@ export function analyzeComprehensivePGx(
   let cyp2c9Result: CYP2C9AnalysisResult | undefined;
 
   try {
-    cyp2c9Result = analyzeCYP2C9(genotypes, provider);
+    cyp2c9Result = analyzeCYP2C9(genotypes, provider, warfarinFactors, medications);
     genesAnalyzed.push('CYP2C9');
     totalDrugsAffected += cyp2c9Result.drugs.length;
 
@@ -112,6 +199,75 @@ export function analyzeComprehensivePGx(
     console.error('CYP2C9 analysis failed:', error);
   }
 
+  // ============================================================================
+  // CYP2C19 - Clopidogrel, SSRIs, PPIs, Voriconazole
+  // ============================================================================
+
+  let cyp2c19Result: CYP2C19AnalysisResult | undefined;
+
+  try {
+    cyp2c19Result = analyzeCYP2C19(genotypes, provider, medications);
+    genesAnalyzed.push('CYP2C19');
+    totalDrugsAffected += cyp2c19Result.drugs.length;
+
+    if (cyp2c19Result.confidence === 'high') {
+      highConfidenceResults++;
+    }
+
+    // Extract critical warnings
+    if (cyp2c19Result.safetyAlerts.length > 0) {
+      criticalWarnings.push(...cyp2c19Result.safetyAlerts);
+    }
+  } catch (error) {
+    console.error('CYP2C19 analysis failed:', error);
+  }
+
+  // ============================================================================
+  // CYP2B6 - Efavirenz, Methadone, Bupropion
+  // ============================================================================
+
+  let cyp2b6Result: CYP2B6AnalysisResult | undefined;
+
+  try {
+    cyp2b6Result = analyzeCYP2B6(genotypes, provider, medications);
+    genesAnalyzed.push('CYP2B6');
+    totalDrugsAffected += cyp2b6Result.drugs.length;
+
+    if (cyp2b6Result.confidence === 'high') {
+      highConfidenceResults++;
+    }
+
+    // Extract critical warnings
+    if (cyp2b6Result.safetyAlerts.length > 0) {
+      criticalWarnings.push(...cyp2b6Result.safetyAlerts);
+    }
+  } catch (error) {
+    console.error('CYP2B6 analysis failed:', error);
+  }
+
+  // ============================================================================
+  // CYP1A2 - Clozapine, Olanzapine, Caffeine (inducibility)
+  // ============================================================================
+
+  let cyp1a2Result: CYP1A2AnalysisResult | undefined;
+
+  try {
+    cyp1a2Result = analyzeCYP1A2(genotypes, provider, options.smoker);
+    genesAnalyzed.push('CYP1A2');
+    totalDrugsAffected += cyp1a2Result.drugs.length;
+
+    if (cyp1a2Result.confidence === 'high') {
+      highConfidenceResults++;
+    }
+
+    // Extract critical warnings
+    if (cyp1a2Result.safetyAlerts.length > 0) {
+      criticalWarnings.push(...cyp1a2Result.safetyAlerts);
+    }
+  } catch (error) {
+    console.error('CYP1A2 analysis failed:', error);
+  }
+
   // ============================================================================
   // VKORC1 - Warfarin Sensitivity
   // ============================================================================
@@ -126,7 +282,8 @@ export function analyzeComprehensivePGx(
         allele1: cyp2c9Result.diplotype.allele1,
         allele2: cyp2c9Result.diplotype.allele2,
         phenotype: cyp2c9Result.diplotype.phenotype
-      } : undefined
+      } : undefined,
+      warfarinFactors
     );
     genesAnalyzed.push('VKORC1');
 
@@ -143,52 +300,68 @@ export function analyzeComprehensivePGx(
   }
 
   // ============================================================================
-  // SLCO1B1 - Statin Myopathy Risk
+  // SLCO1B1 (+ ABCG2, CYP2C9) - Statin Myopathy Risk, Per-Statin Dose Ceilings
   // ============================================================================
 
   let slco1b1Result: SLCO1B1AnalysisResult | undefined;
 
   try {
-    slco1b1Result = analyzeSLCO1B1(genotypes, provider);
+    // Fluvastatin guidance follows the effective CYP2C9 phenotype
+    slco1b1Result = analyzeSLCO1B1(
+      genotypes,
+      provider,
+      cyp2c9Result ? { ...cyp2c9Result.diplotype, phenotype: cyp2c9Result.phenoconversion.effectivePhenotype } : undefined
+    );
     genesAnalyzed.push('SLCO1B1');
+    if (slco1b1Result.abcg2.function !== 'Unknown') {
+      genesAnalyzed.push('ABCG2');
+    }
     totalDrugsAffected += slco1b1Result.drugs.length;
 
     if (slco1b1Result.confidence === 'high') {
       highConfidenceResults++;
     }
 
-    // Extract critical warnings - check simvastatin risk
-    // SLCO1B1 uses 'statin' property, not 'drug'
-    const simvastatinRec = slco1b1Result.drugs.find((d: any) =>
-      d?.statin?.toLowerCase().includes('simvastatin')
-    );
-    if (simvastatinRec && simvastatinRec.myopathyRisk === 'Very High') {
-      criticalWarnings.push(`SLCO1B1: High statin myopathy risk`);
+    // Extract critical warnings - statins to avoid
+    const avoided = slco1b1Result.drugs.filter(d => d.action === 'Avoid');
+    if (avoided.length > 0) {
+      criticalWarnings.push(`SLCO1B1: High statin myopathy risk - AVOID ${avoided.map(d => d.statin.toLowerCase()).join(', ')}`);
     }
   } catch (error) {
     console.error('SLCO1B1 analysis failed:', error);
   }
 
   // ============================================================================
-  // F5 (Factor V Leiden) - Thrombophilia, OCP Safety
+  // F5 (Factor V Leiden) + F2 (Prothrombin) - Thrombophilia, VTE Risk, OCP Safety
   // ============================================================================
 
   let f5Result: F5AnalysisResult | undefined;
+  let thrombophiliaResult: ThrombophiliaAnalysisResult | undefined;
 
   try {
-    const rs6025 = genotypes.find(g => g.rsid === 'rs6025')?.genotype || null;
+    thrombophiliaResult = analyzeThrombophilia(genotypes, provider, vteFactors);
+    const rs6025 = extractStrandNormalized(genotypes, 'rs6025');
     const rs6027 = genotypes.find(g => g.rsid === 'rs6027')?.genotype || null;
-    f5Result = analyzeF5(rs6025, rs6027);
+    f5Result = analyzeF5(rs6025, rs6027, thrombophiliaResult.vteRisk);
     genesAnalyzed.push('F5');
+    if (thrombophiliaResult.f2.status !== 'Unknown') {
+      genesAnalyzed.push('F2');
+    }
 
-    if (f5Result.genotype.confidence === 'high') {
+    if (thrombophiliaResult.confidence === 'high') {
       highConfidenceResults++;
     }
 
     // Extract critical warnings
-    if (f5Result.genotype.thrombophiliaRisk !== 'Normal') {
-      const riskLevel = f5Result.genotype.vteRiskMultiplier > 20 ? '80x' : '5-7x';
-      criticalWarnings.push(`⛔ FACTOR V LEIDEN DETECTED: ${riskLevel} clotting risk - AVOID estrogen-containing contraceptives`);
+    const { vteRisk, contraceptiveSafety } = thrombophiliaResult;
+    if (!['None', 'Unknown'].includes(vteRisk.inheritedThrombophilia)) {
+      criticalWarnings.push(
+        `⛔ ${vteRisk.inheritedThrombophilia.toUpperCase()}: ${formatRelativeRisk(vteRisk.inheritedRelativeRisk)} clotting risk - ` +
+        `estrogen-containing contraceptives ${contraceptiveSafety.combinedOCPs.toLowerCase()}`
+      );
+    }
+    if (vteRisk.relativeRisk.estimate >= 10) {
+      criticalWarnings.push(`⛔ HIGH CURRENT VTE RISK: ${formatAnnualRisk(vteRisk.annualAbsoluteRisk)} - consider thromboprophylaxis`);
     }
   } catch (error) {
     console.error('F5 analysis failed:', error);
@@ -217,6 +390,29 @@ export function analyzeComprehensivePGx(
     console.error('UGT1A1 analysis failed:', error);
   }
 
+  // ============================================================================
+  // NAT2 - Isoniazid, Hydralazine, Procainamide, Sulfasalazine (acetylator status)
+  // ============================================================================
+
+  let nat2Result: NAT2AnalysisResult | undefined;
+
+  try {
+    nat2Result = analyzeNAT2(genotypes, provider);
+    genesAnalyzed.push('NAT2');
+    totalDrugsAffected += nat2Result.drugs.length;
+
+    if (nat2Result.confidence === 'high') {
+      highConfidenceResults++;
+    }
+
+    // Extract critical warnings
+    if (nat2Result.safetyAlerts.length > 0) {
+      criticalWarnings.push(...nat2Result.safetyAlerts);
+    }
+  } catch (error) {
+    console.error('NAT2 analysis failed:', error);
+  }
+
   // ============================================================================
   // CYP3A5 - Alprazolam, Sildenafil, Zolpidem, Tacrolimus
   // ============================================================================
@@ -238,10 +434,165 @@ export function analyzeComprehensivePGx(
     console.error('CYP3A5 analysis failed:', error);
   }
 
+  // ============================================================================
+  // CYP3A4 (+ CYP3A5 cluster) - Tacrolimus, Statins, Alprazolam
+  // ============================================================================
+
+  let cyp3a4Result: CYP3A4AnalysisResult | undefined;
+
+  try {
+    // Pass CYP3A5 diplotype for the combined CYP3A phenotype
+    cyp3a4Result = analyzeCYP3A4(
+      genotypes,
+      provider,
+      cyp3a5Result ? {
+        allele1: cyp3a5Result.diplotype.allele1,
+        allele2: cyp3a5Result.diplotype.allele2,
+        phenotype: cyp3a5Result.diplotype.phenotype
+      } : undefined,
+      medications
+    );
+    genesAnalyzed.push('CYP3A4');
+    totalDrugsAffected += cyp3a4Result.drugs.length;
+
+    if (cyp3a4Result.confidence === 'high') {
+      highConfidenceResults++;
+    }
+
+    // Extract critical warnings
+    if (cyp3a4Result.safetyAlerts.length > 0) {
+      criticalWarnings.push(...cyp3a4Result.safetyAlerts);
+    }
+  } catch (error) {
+    console.error('CYP3A4 analysis failed:', error);
+  }
+
+  // ============================================================================
+  // DPYD - Fluoropyrimidines (5-FU, Capecitabine)
+  // ============================================================================
+
+  let dpydResult: DPYDAnalysisResult | undefined;
+
+  try {
+    dpydResult = analyzeDPYD(genotypes, provider);
+    genesAnalyzed.push('DPYD');
+    totalDrugsAffected += dpydResult.drugs.length;
+
+    if (dpydResult.confidence === 'high') {
+      highConfidenceResults++;
+    }
+
+    // Extract critical warnings
+    if (dpydResult.safetyAlerts.length > 0) {
+      criticalWarnings.push(...dpydResult.safetyAlerts);
+    }
+  } catch (error) {
+    console.error('DPYD analysis failed:', error);
+  }
+
+  // ============================================================================
+  // NUDT15 + TPMT - Thiopurines (Mercaptopurine, Azathioprine, Thioguanine)
+  // ============================================================================
+
+  let nudt15Result: NUDT15AnalysisResult | undefined;
+
+  try {
+    nudt15Result = analyzeNUDT15(genotypes, provider);
+    genesAnalyzed.push('NUDT15');
+
+    if (nudt15Result.confidence === 'high') {
+      highConfidenceResults++;
+    }
+
+    // Extract critical warnings
+    if (nudt15Result.safetyAlerts.length > 0) {
+      criticalWarnings.push(...nudt15Result.safetyAlerts);
+    }
+  } catch (error) {
+    console.error('NUDT15 analysis failed:', error);
+  }
+
+  let tpmtResult: TPMTAnalysisResult | undefined;
+
+  try {
+    // Pass NUDT15 diplotype for combined thiopurine dosing
+    tpmtResult = analyzeTPMT(
+      genotypes,
+      provider,
+      nudt15Result ? {
+        allele1: nudt15Result.diplotype.allele1,
+        allele2: nudt15Result.diplotype.allele2,
+        phenotype: nudt15Result.diplotype.phenotype
+      } : undefined
+    );
+    genesAnalyzed.push('TPMT');
+    totalDrugsAffected += tpmtResult.drugs.length;
+
+    if (tpmtResult.confidence === 'high') {
+      highConfidenceResults++;
+    }
+
+    // Extract critical warnings
+    if (tpmtResult.safetyAlerts.length > 0) {
+      criticalWarnings.push(...tpmtResult.safetyAlerts);
+    }
+  } catch (error) {
+    console.error('TPMT analysis failed:', error);
+  }
+
+  // ============================================================================
+  // HLA - Abacavir, Carbamazepine, Phenytoin, Allopurinol (tag SNPs)
+  // ============================================================================
+
+  let hlaResult: HLAAnalysisResult | undefined;
+
+  try {
+    hlaResult = analyzeHLA(genotypes, provider, options.ancestry);
+    genesAnalyzed.push('HLA');
+    totalDrugsAffected += hlaResult.drugs.length;
+
+    if (hlaResult.confidence === 'high') {
+      highConfidenceResults++;
+    }
+
+    // Extract critical warnings
+    if (hlaResult.safetyAlerts.length > 0) {
+      criticalWarnings.push(...hlaResult.safetyAlerts);
+    }
+  } catch (error) {
+    console.error('HLA analysis failed:', error);
+  }
+
+  // ============================================================================
+  // G6PD - Rasburicase, Primaquine, Dapsone (Hemolysis)
+  // ============================================================================
+
+  let g6pdResult: G6PDAnalysisResult | undefined;
+
+  try {
+    g6pdResult = analyzeG6PD(genotypes, provider);
+    genesAnalyzed.push('G6PD');
+    totalDrugsAffected += g6pdResult.drugs.length;
+
+    if (g6pdResult.confidence === 'high') {
+      highConfidenceResults++;
+    }
+
+    // Extract critical warnings
+    if (g6pdResult.safetyAlerts.length > 0) {
+      criticalWarnings.push(...g6pdResult.safetyAlerts);
+    }
+  } catch (error) {
+    console.error('G6PD analysis failed:', error);
+  }
+
   // ============================================================================
   // SUMMARY
   // ============================================================================
 
+  const phenoconversion = [cyp2d6Result, cyp2c19Result, cyp2c9Result, cyp2b6Result, cyp3a4Result]
+    .flatMap(result => result && result.phenoconversion.interactions.length > 0 ? [result.phenoconversion] : []);
+
   const summary = {
     genesAnalyzed,
     criticalWarnings,
@@ -249,16 +600,47 @@ export function analyzeComprehensivePGx(
     highConfidenceResults
   };
 
-  return {
+  const result: ComprehensivePGxResult = {
     cyp2d6: cyp2d6Result,
     cyp2c9: cyp2c9Result,
+    cyp2c19: cyp2c19Result,
+    cyp2b6: cyp2b6Result,
+    cyp1a2: cyp1a2Result,
     vkorc1: vkorc1Result,
     slco1b1: slco1b1Result,
     f5: f5Result,
+    thrombophilia: thrombophiliaResult,
     ugt1a1: ugt1a1Result,
+    nat2: nat2Result,
+    cyp3a4: cyp3a4Result,
     cyp3a5: cyp3a5Result,
+    criticalSafety: {
+      dpyd: dpydResult,
+      tpmt: tpmtResult,
+      nudt15: nudt15Result,
+      hla: hlaResult,
+      g6pd: g6pdResult
+    },
+    phenoconversion,
+    knowledgeBase: {
+      version: getPGxKnowledgeBase().version,
+      referenceBuild: getPGxKnowledgeBase().referenceBuild,
+      mismatches: getKBMismatches()
+    },
+    dataLimitations: options.dataLimitations,
     summary
   };
+
+  // ============================================================================
+  // MEDICATION REVIEW
+  // ============================================================================
+
+  const plannedMedications = options.plannedMedications ?? [];
+  if (medications.length > 0 || plannedMedications.length > 0) {
+    result.medicationReview = reviewMedications(result, medications, plannedMedications);
+  }
+
+  return result;
 }
 
 /**
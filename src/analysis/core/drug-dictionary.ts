@@ -0,0 +1,244 @@
+/**
+ * DRUG DICTIONARY
+ * Generic names, brand names and synonyms for the drugs the analyzers give guidance on and the
+ * CYP inhibitors and inducers used for phenoconversion
+ *
+ * Method:
+ * - Every drug is keyed by its lowercase generic name; brand names and common synonyms map to
+ *   it (Adderall → amphetamine, Prozac → fluoxetine)
+ * - Names match as whole words, case-insensitively, anywhere in free text, so medication list
+ *   entries ("Lipitor 20 mg at night") and analyzer drug labels ("Clopidogrel (Plavix)")
+ *   resolve the same way
+ * - A name inside a longer matched name is dropped ("estradiol" in "ethinyl estradiol")
+ * - Drug classes ("Tricyclic Antidepressants") expand to their members only when the text
+ *   names no member drug itself
+ * - Combination products resolve to their pharmacogenomically relevant component(s)
+ *
+ * References: FDA Orange Book proprietary names; RxNorm brand-to-ingredient relationships
+ *
+ * Version: 1.0.0
+ */
+
+/** Brand names and synonyms by generic name */
+const DRUG_NAMES: Record<string, string[]> = {
+  // Analgesics and opioids
+  codeine: ['tylenol with codeine', 'tylenol #3', 'tylenol #4'],
+  tramadol: ['ultram', 'conzip'],
+  methadone: ['dolophine', 'methadose'],
+  ibuprofen: ['advil', 'motrin', 'nurofen'],
+  celecoxib: ['celebrex'],
+  flurbiprofen: ['ansaid'],
+  meloxicam: ['mobic'],
+
+  // Antidepressants and psychiatric drugs
+  amitriptyline: ['elavil'],
+  nortriptyline: ['pamelor', 'aventyl'],
+  imipramine: ['tofranil'],
+  desipramine: ['norpramin'],
+  clomipramine: ['anafranil'],
+  doxepin: ['sinequan', 'silenor'],
+  trimipramine: ['surmontil'],
+  citalopram: ['celexa'],
+  escitalopram: ['lexapro', 'cipralex'],
+  sertraline: ['zoloft'],
+  fluoxetine: ['prozac', 'sarafem'],
+  paroxetine: ['paxil', 'pexeva', 'seroxat'],
+  fluvoxamine: ['luvox'],
+  duloxetine: ['cymbalta'],
+  bupropion: ['wellbutrin', 'zyban', 'aplenzin', 'forfivo'],
+  nefazodone: ['serzone'],
+  moclobemide: ['manerix', 'aurorix'],
+  risperidone: ['risperdal'],
+  aripiprazole: ['abilify'],
+  haloperidol: ['haldol'],
+  olanzapine: ['zyprexa'],
+  clozapine: ['clozaril'],
+  alprazolam: ['xanax'],
+  zolpidem: ['ambien', 'stilnox'],
+  clobazam: ['onfi', 'sympazan'],
+  modafinil: ['provigil'],
+
+  // Stimulants
+  amphetamine: ['adderall', 'mydayis', 'evekeo', 'adzenys', 'dyanavel', 'amphetamine salts'],
+  dextroamphetamine: ['dexedrine', 'zenzedi', 'procentra'],
+  lisdexamfetamine: ['vyvanse', 'elvanse'],
+
+  // Cardiovascular
+  clopidogrel: ['plavix'],
+  ticlopidine: ['ticlid'],
+  warfarin: ['coumadin', 'jantoven'],
+  simvastatin: ['zocor'],
+  atorvastatin: ['lipitor'],
+  rosuvastatin: ['crestor'],
+  pravastatin: ['pravachol'],
+  pitavastatin: ['livalo', 'zypitamag'],
+  lovastatin: ['mevacor', 'altoprev'],
+  fluvastatin: ['lescol'],
+  metoprolol: ['lopressor', 'toprol'],
+  carvedilol: ['coreg'],
+  propranolol: ['inderal'],
+  amiodarone: ['cordarone', 'pacerone', 'nexterone'],
+  quinidine: [],
+  procainamide: [],
+  hydralazine: ['apresoline', 'bidil'],
+  diltiazem: ['cardizem', 'tiazac'],
+  verapamil: ['calan', 'verelan', 'isoptin'],
+  ranolazine: ['ranexa'],
+  bosentan: ['tracleer'],
+  mirabegron: ['myrbetriq'],
+  sildenafil: ['viagra', 'revatio'],
+  tadalafil: ['cialis', 'adcirca'],
+
+  // Anticonvulsants
+  phenytoin: ['dilantin', 'phenytek'],
+  fosphenytoin: ['cerebyx'],
+  carbamazepine: ['tegretol', 'carbatrol', 'equetro'],
+  oxcarbazepine: ['trileptal', 'oxtellar'],
+  phenobarbital: ['luminal'],
+  primidone: ['mysoline'],
+  felbamate: ['felbatol'],
+
+  // Gastrointestinal
+  omeprazole: ['prilosec', 'losec'],
+  esomeprazole: ['nexium'],
+  lansoprazole: ['prevacid'],
+  dexlansoprazole: ['dexilant'],
+  pantoprazole: ['protonix'],
+  rabeprazole: ['aciphex'],
+  cimetidine: ['tagamet'],
+  aprepitant: ['emend'],
+  sulfasalazine: ['azulfidine'],
+
+  // Anti-infectives
+  voriconazole: ['vfend'],
+  fluconazole: ['diflucan'],
+  itraconazole: ['sporanox'],
+  ketoconazole: ['nizoral'],
+  posaconazole: ['noxafil'],
+  miconazole: ['monistat', 'oravig'],
+  terbinafine: ['lamisil'],
+  clarithromycin: ['biaxin'],
+  erythromycin: ['ery-tab', 'erythrocin'],
+  ciprofloxacin: ['cipro'],
+  rifampin: ['rifampicin', 'rifadin', 'rimactane'],
+  isoniazid: ['nydrazid'],
+  nitrofurantoin: ['macrobid', 'macrodantin'],
+  dapsone: ['aczone'],
+  primaquine: [],
+  tafenoquine: ['krintafel', 'arakoda'],
+  efavirenz: ['sustiva', 'atripla', 'symfi'],
+  nevirapine: ['viramune'],
+  abacavir: ['ziagen', 'epzicom', 'triumeq', 'trizivir'],
+  cabotegravir: ['apretude', 'vocabria', 'cabenuva'],
+  ritonavir: ['norvir', 'paxlovid', 'kaletra'],
+  cobicistat: ['tybost', 'stribild', 'genvoya', 'prezcobix', 'evotaz'],
+
+  // Oncology and immunology
+  tamoxifen: ['nolvadex', 'soltamox'],
+  fluorouracil: ['5-fu', '5-fluorouracil', 'adrucil', 'efudex'],
+  capecitabine: ['xeloda'],
+  irinotecan: ['camptosar', 'onivyde'],
+  belinostat: ['beleodaq'],
+  nilotinib: ['tasigna'],
+  abiraterone: ['zytiga', 'yonsa'],
+  apalutamide: ['erleada'],
+  enzalutamide: ['xtandi'],
+  mercaptopurine: ['purixan', 'purinethol', '6-mp'],
+  azathioprine: ['imuran', 'azasan'],
+  thioguanine: ['tabloid', '6-tg'],
+  tacrolimus: ['prograf', 'envarsus', 'astagraf'],
+  rasburicase: ['elitek', 'fasturtec'],
+  allopurinol: ['zyloprim', 'aloprim'],
+
+  // Endocrine
+  glipizide: ['glucotrol'],
+  glyburide: ['glibenclamide', 'diabeta', 'glynase'],
+  cinacalcet: ['sensipar'],
+  'ethinyl estradiol': [
+    'combined oral contraceptive', 'combined pill', 'birth control pill',
+    'yaz', 'yasmin', 'loestrin', 'sprintec', 'ortho tri-cyclen', 'nuvaring', 'xulane'
+  ],
+  norethindrone: ['norethisterone', 'progestin-only pill', 'minipill', 'micronor', 'camila', 'errin'],
+  estradiol: ['estrace', 'climara', 'vivelle', 'estrogel'],
+  'conjugated estrogens': ['premarin'],
+
+  // Other
+  diphenhydramine: ['benadryl'],
+  disulfiram: ['antabuse'],
+  grapefruit: [],
+  "st john's wort": ["st. john's wort", "saint john's wort", 'hypericum']
+};
+
+/** Classes named in drug labels without their members */
+const DRUG_CLASSES: Record<string, string[]> = {
+  'tricyclic antidepressants': ['amitriptyline', 'clomipramine', 'desipramine', 'doxepin', 'imipramine', 'nortriptyline', 'trimipramine'],
+  'amphetamines': ['amphetamine', 'dextroamphetamine', 'lisdexamfetamine']
+};
+
+interface DrugMention {
+  drugs: string[];
+  isClass: boolean;
+  start: number;
+  end: number;
+}
+
+/** [term, generic names, class?] for every generic, synonym and class name */
+const TERMS: Array<[string, string[], boolean]> = [
+  ...Object.entries(DRUG_NAMES).flatMap(([generic, synonyms]) =>
+    [generic, ...synonyms].map(term => [term, [generic], false] as [string, string[], boolean])
+  ),
+  ...Object.entries(DRUG_CLASSES).map(([term, members]) => [term, members, true] as [string, string[], boolean])
+];
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[‘’]/g, "'");
+}
+
+function termPattern(term: string, flags = ''): RegExp {
+  return new RegExp(`(?<![a-z])${escapeRegExp(term)}(?![a-z])`, flags);
+}
+
+function findMentions(text: string): DrugMention[] {
+  const entry = normalize(text);
+  const mentions: DrugMention[] = [];
+
+  for (const [term, drugs, isClass] of TERMS) {
+    for (const match of entry.matchAll(termPattern(term, 'g'))) {
+      mentions.push({ drugs, isClass, start: match.index!, end: match.index! + term.length });
+    }
+  }
+
+  return mentions.filter(m => !mentions.some(other =>
+    other !== m && other.start <= m.start && other.end >= m.end && other.end - other.start > m.end - m.start
+  ));
+}
+
+/**
+ * Generic names in free text (a medication list entry or an analyzer drug label), in order
+ *
+ * @param text - e.g. "Adderall XR 20 mg", "Tricyclic Antidepressants (Amitriptyline, Nortriptyline)"
+ * @returns Lowercase generic names; empty when no known drug is named
+ */
+export function resolveDrugNames(text: string): string[] {
+  const mentions = findMentions(text).sort((a, b) => a.start - b.start);
+  const named = mentions.filter(m => !m.isClass).flatMap(m => m.drugs);
+  const drugs = mentions.some(m => m.isClass) && named.length === 0
+    ? mentions.flatMap(m => m.drugs)
+    : named;
+
+  return [...new Set(drugs)];
+}
+
+/**
+ * Whether a medication list entry names a drug by generic, brand or synonym
+ *
+ * @param medication - Entry as given ("Prozac 20 mg")
+ * @param generic - Lowercase generic name ("fluoxetine")
+ */
+export function mentionsMedication(medication: string, generic: string): boolean {
+  return resolveDrugNames(medication).includes(generic);
+}
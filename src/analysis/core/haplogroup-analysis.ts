@@ -0,0 +1,253 @@
+/**
+ * HAPLOGROUP CALLING - mtDNA (maternal) AND Y-DNA (paternal)
+ * Walks the bundled phylogenies in src/data/haplogroup-tree.json using the MT and Y rows of
+ * consumer raw data files
+ *
+ * Method:
+ * - mtDNA markers are matched by rCRS position on the MT chromosome, Y markers by rsID or
+ *   GRCh37 position on the Y chromosome
+ * - Starting at the root, the walk descends into the child clade with the best support
+ *   (derived calls minus non-derived calls) as long as its support outweighs contradiction
+ * - The deepest clade reached is reported with the markers that support and contradict the path
+ * - Samples without Y calls (XX, or Y rows reported as no-calls) get a 'no_y_data' state
+ *
+ * Version: 1.0.0
+ */
+
+import treeData from '../../data/haplogroup-tree.json';
+import {
+  HaplogroupTreeFileSchema,
+  type HaplogroupMarker,
+  type HaplogroupNode
+} from '../schemas/kb-schemas';
+
+export interface PositionedGenotype {
+  rsid: string;
+  chromosome: string;
+  position: number;
+  genotype: string;
+}
+
+export interface HaplogroupCall {
+  status: 'called' | 'no_data' | 'no_y_data';
+  haplogroup: string | null;  // Deepest supported clade
+  path: string[];             // Root → haplogroup
+  supportingMarkers: string[];
+  contradictingMarkers: string[];
+  markersTested: number;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface HaplogroupResult {
+  maternal: HaplogroupCall;
+  paternal: HaplogroupCall;
+  treeVersion: string;
+  limitations: string[];
+}
+
+export interface HaplogroupTree {
+  version: string;
+  mt: HaplogroupNode;
+  y: HaplogroupNode;
+}
+
+/** Below this fraction of called Y rows the Y calls are treated as array noise in an XX sample */
+export const MIN_Y_CALL_RATE = 0.1;
+
+const MT_CHROMOSOMES = ['MT', 'M', '26'];
+const Y_CHROMOSOMES = ['Y', '24'];
+
+/**
+ * Validate a haplogroup tree file
+ *
+ * @param data - Raw tree JSON (defaults to the bundled haplogroup-tree.json)
+ * @throws ZodError if the tree does not match the schema
+ */
+export function loadHaplogroupTree(data: unknown = treeData): HaplogroupTree {
+  const file = HaplogroupTreeFileSchema.parse(data);
+
+  return {
+    version: file.tree_version,
+    mt: file.mt,
+    y: file.y
+  };
+}
+
+let cachedTree: HaplogroupTree | null = null;
+
+/**
+ * Get the bundled haplogroup tree (validated once, then cached)
+ */
+export function getHaplogroupTree(): HaplogroupTree {
+  if (!cachedTree) {
+    cachedTree = loadHaplogroupTree();
+  }
+  return cachedTree;
+}
+
+function normalizeChromosome(chromosome: string): string {
+  return chromosome.replace(/^chr/i, '').toUpperCase();
+}
+
+/**
+ * Haploid allele of an MT/Y call: 'A' (23andMe) or 'AA' (AncestryDNA, VCF).
+ * No-calls and heterozygous calls (heteroplasmy, array noise) return null.
+ */
+function haploidAllele(genotype: string): string | null {
+  const alleles = genotype.replace(/\s/g, '').toUpperCase().split('');
+
+  if (alleles.length === 0 || alleles.length > 2) return null;
+  if (!alleles.every(a => a === alleles[0])) return null;
+
+  return /^[ACGT]$/.test(alleles[0]) ? alleles[0] : null;
+}
+
+/**
+ * Haploid calls of one chromosome, indexed by position and rsID
+ */
+interface ChromosomeCalls {
+  byPosition: Map<number, string>;
+  byRsid: Map<string, string>;
+  rows: number;
+}
+
+function collectCalls(genotypes: PositionedGenotype[], chromosomes: string[]): ChromosomeCalls {
+  const calls: ChromosomeCalls = { byPosition: new Map(), byRsid: new Map(), rows: 0 };
+
+  for (const g of genotypes) {
+    if (!chromosomes.includes(normalizeChromosome(g.chromosome))) continue;
+    calls.rows++;
+
+    const allele = haploidAllele(g.genotype);
+    if (!allele) continue;
+
+    if (Number.isFinite(g.position)) calls.byPosition.set(g.position, allele);
+    if (g.rsid.startsWith('rs')) calls.byRsid.set(g.rsid, allele);
+  }
+
+  return calls;
+}
+
+function observedAllele(marker: HaplogroupMarker, calls: ChromosomeCalls): string | null {
+  if (marker.rsid && calls.byRsid.has(marker.rsid)) return calls.byRsid.get(marker.rsid)!;
+  if (marker.position !== undefined && calls.byPosition.has(marker.position)) {
+    return calls.byPosition.get(marker.position)!;
+  }
+  return null;
+}
+
+function markerLabel(marker: HaplogroupMarker): string {
+  return marker.name ?? `${marker.position}${marker.derived}`;
+}
+
+interface NodeEvidence {
+  node: HaplogroupNode;
+  supporting: string[];
+  contradicting: string[];
+}
+
+function scoreNode(node: HaplogroupNode, calls: ChromosomeCalls): NodeEvidence {
+  const evidence: NodeEvidence = { node, supporting: [], contradicting: [] };
+
+  for (const marker of node.markers) {
+    const allele = observedAllele(marker, calls);
+    if (allele === null) continue;
+
+    if (allele === marker.derived) evidence.supporting.push(markerLabel(marker));
+    else evidence.contradicting.push(markerLabel(marker));
+  }
+
+  return evidence;
+}
+
+/**
+ * Walk a tree from the root, descending into the best-supported child clade
+ */
+function walkTree(root: HaplogroupNode, calls: ChromosomeCalls): HaplogroupCall {
+  const path = [root.name];
+  const supportingMarkers: string[] = [];
+  const contradictingMarkers: string[] = [];
+  let markersTested = 0;
+  let deepest: NodeEvidence | null = null;
+  let node = root;
+
+  while (node.children && node.children.length > 0) {
+    const scored = node.children.map(child => scoreNode(child, calls));
+    markersTested += scored.reduce((sum, e) => sum + e.supporting.length + e.contradicting.length, 0);
+
+    const best = scored
+      .filter(e => e.supporting.length > 0 && e.supporting.length > e.contradicting.length)
+      .sort((a, b) =>
+        (b.supporting.length - b.contradicting.length) - (a.supporting.length - a.contradicting.length) ||
+        b.supporting.length - a.supporting.length
+      )[0];
+
+    if (!best) break;
+
+    path.push(best.node.name);
+    supportingMarkers.push(...best.supporting);
+    contradictingMarkers.push(...best.contradicting);
+    deepest = best;
+    node = best.node;
+  }
+
+  let confidence: HaplogroupCall['confidence'] = 'low';
+  if (deepest && contradictingMarkers.length === 0) {
+    confidence = deepest.supporting.length >= 2 || path.length > 2 ? 'high' : 'medium';
+  } else if (deepest) {
+    confidence = 'medium';
+  }
+
+  return {
+    status: markersTested > 0 ? 'called' : 'no_data',
+    haplogroup: markersTested > 0 ? path[path.length - 1] : null,
+    path,
+    supportingMarkers,
+    contradictingMarkers,
+    markersTested,
+    confidence
+  };
+}
+
+function getLimitations(): string[] {
+  return [
+    'Backbone trees resolve major clades only - full-sequence tests give finer subclades',
+    'mtDNA calls use the MT probes present on the genotyping array; recurrent mutations can place a sample in a sibling clade',
+    'Y-DNA calling needs Y chromosome rows; XX samples have no paternal haplogroup'
+  ];
+}
+
+/**
+ * Main haplogroup calling function
+ *
+ * @param genotypes - Parsed raw data rows including MT and Y chromosome calls
+ * @returns Maternal (mtDNA) and paternal (Y-DNA) haplogroup calls
+ */
+export function callHaplogroups(genotypes: PositionedGenotype[]): HaplogroupResult {
+  const tree = getHaplogroupTree();
+
+  const mtCalls = collectCalls(genotypes, MT_CHROMOSOMES);
+  const yCalls = collectCalls(genotypes, Y_CHROMOSOMES);
+
+  const yCalled = Math.max(yCalls.byPosition.size, yCalls.byRsid.size);
+  const hasYData = yCalled > 0 && yCalled / yCalls.rows >= MIN_Y_CALL_RATE;
+
+  const paternal: HaplogroupCall = hasYData
+    ? walkTree(tree.y, yCalls)
+    : {
+        status: 'no_y_data',
+        haplogroup: null,
+        path: [],
+        supportingMarkers: [],
+        contradictingMarkers: [],
+        markersTested: 0,
+        confidence: 'low'
+      };
+
+  return {
+    maternal: walkTree(tree.mt, mtCalls),
+    paternal,
+    treeVersion: tree.version,
+    limitations: getLimitations()
+  };
+}
@@ -5,10 +5,22 @@
  * Version: 1.0.0-integrated
  */
 
-import { analyzeComprehensivePGx, genotypeRecordToArray, type PGxResult } from './comprehensive-pgx-analysis';
+import {
+  analyzeComprehensivePGx,
+  genotypeRecordToArray,
+  type PGxAnalysisOptions,
+  type PGxResult
+} from './comprehensive-pgx-analysis';
 import { analyzeNutrigenomics, NutrigenomicsResult } from './nutrigenomics-analysis';
+import { normalizeGenotypeRecord, type StrandNormalizationSummary } from './strand-normalization';
+import { estimateAncestry, getAncestryProportions } from './ancestry-analysis';
+import { formatAnnualRisk, formatRelativeRisk } from './vte-risk';
+import { describeEffectivePhenotype } from './phenoconversion';
+import type { GeneticProvider } from '../utils/genotype-utils';
 
 export interface IntegratedDNAAnalysis {
+  provider: GeneticProvider;
+  strand: StrandNormalizationSummary;
   pgx: PGxResult;
   nutrigenomics: NutrigenomicsResult;
   summary: {
@@ -46,12 +58,27 @@ export interface ActionItem {
 
 /**
  * Main integrated analysis function
+ *
+ * @param genotypes - rsID → genotype record
+ * @param provider - Raw data provider (drives provider-specific coverage limitations)
+ * @param options - Data beyond the SNP calls (e.g. CYP2D6 copy number); ancestry is inferred
+ *                  from the genotypes when not supplied
  */
-export function analyzeCompleteDNA(genotypes: Record<string, string>): IntegratedDNAAnalysis {
+export function analyzeCompleteDNA(
+  genotypes: Record<string, string>,
+  provider: GeneticProvider = '23andme',
+  options: PGxAnalysisOptions = {}
+): IntegratedDNAAnalysis {
+  // Put every call on the KB strand before either module reads it
+  const { genotypes: normalized, summary: strand } = normalizeGenotypeRecord(genotypes);
+
   // Run both analyses
-  const genotypeArray = genotypeRecordToArray(genotypes);
-  const pgxResults = analyzeComprehensivePGx(genotypeArray);
-  const nutriResults = analyzeNutrigenomics(genotypes);
+  const genotypeArray = genotypeRecordToArray(normalized);
+  const ancestry = options.ancestry
+    ?? getAncestryProportions(estimateAncestry(normalized, { bootstrapReplicates: 0 }))
+    ?? undefined;
+  const pgxResults = analyzeComprehensivePGx(genotypeArray, provider, { ...options, ancestry });
+  const nutriResults = analyzeNutrigenomics(normalized);
 
   // Combine critical findings
   const criticalFindings = combineCriticalFindings(pgxResults, nutriResults);
@@ -68,6 +95,8 @@ export function analyzeCompleteDNA(genotypes: Record<string, string>): Integrate
   };
 
   return {
+    provider,
+    strand,
     pgx: pgxResults,
     nutrigenomics: nutriResults,
     summary,
@@ -86,44 +115,83 @@ function combineCriticalFindings(
   const findings: CombinedCriticalFinding[] = [];
 
   // PGx critical findings
-  if (pgx.criticalSafety) {
-    pgx.criticalSafety.dpyd?.forEach(variant => {
-      if (variant.activityScore < 1.0) {
-        findings.push({
-          source: 'pgx',
-          priority: 'critical',
-          category: 'Pharmacogenomics - Drug Safety',
-          finding: `DPYD ${variant.allele} - 5-FU/Capecitabine FATAL TOXICITY RISK`,
-          action: 'NEVER prescribe 5-FU, capecitabine without dose adjustment. FDA MANDATORY testing.',
-          variants: [variant.rsid || 'DPYD']
-        });
-      }
+  const dpyd = pgx.criticalSafety?.dpyd;
+  if (dpyd && (dpyd.diplotype.phenotype === 'Poor Metabolizer' || dpyd.diplotype.phenotype === 'Intermediate Metabolizer')) {
+    const dpydPoor = dpyd.diplotype.phenotype === 'Poor Metabolizer';
+    findings.push({
+      source: 'pgx',
+      priority: 'critical',
+      category: 'Pharmacogenomics - Drug Safety',
+      finding: `DPYD ${dpyd.diplotype.allele1}/${dpyd.diplotype.allele2} (Activity Score ${dpyd.diplotype.activityScore?.toFixed(1) ?? 'not tested'}) - 5-FU/Capecitabine ${dpydPoor ? 'FATAL' : 'SEVERE'} TOXICITY RISK`,
+      action: dpydPoor
+        ? 'AVOID 5-FU and capecitabine. If no alternative exists, strongly reduced dose with therapeutic drug monitoring only.'
+        : 'Start 5-FU/capecitabine at 50% of the standard dose and titrate by toxicity (CPIC).',
+      variants: dpyd.diplotype.detectedVariants
+    });
+  }
+
+  const tpmt = pgx.criticalSafety?.tpmt;
+  const nudt15 = pgx.criticalSafety?.nudt15;
+  const thiopurine = tpmt?.thiopurineDosing;
+  if (thiopurine && thiopurine.combinedPhenotype !== 'Normal Metabolizer' && thiopurine.combinedPhenotype !== 'Unknown') {
+    const genes = [
+      tpmt.diplotype.phenotype !== 'Normal Metabolizer' && tpmt.diplotype.phenotype !== 'Unknown' ? `TPMT ${thiopurine.tpmtDiplotype}` : null,
+      nudt15 && nudt15.diplotype.phenotype !== 'Normal Metabolizer' && nudt15.diplotype.phenotype !== 'Unknown' ? `NUDT15 ${thiopurine.nudt15Diplotype}` : null
+    ].filter(Boolean).join(' + ');
+    const thiopurinePoor = thiopurine.combinedPhenotype === 'Poor Metabolizer';
+    findings.push({
+      source: 'pgx',
+      priority: thiopurinePoor || thiopurine.combinedPhenotype === 'Compound Intermediate Metabolizer' ? 'critical' : 'high',
+      category: 'Pharmacogenomics - Drug Safety',
+      finding: `${genes} - Thiopurine ${thiopurinePoor ? 'LIFE-THREATENING' : 'SEVERE'} TOXICITY RISK (${thiopurine.combinedPhenotype})`,
+      action: `Mercaptopurine: ${thiopurine.startingDose.mercaptopurine}. Azathioprine: ${thiopurine.startingDose.azathioprine}.`,
+      variants: [...tpmt.diplotype.detectedVariants, ...(nudt15?.diplotype.detectedVariants ?? [])]
+    });
+  }
+
+  const hla = pgx.criticalSafety?.hla;
+  hla?.alleles.filter(screen => screen.status === 'Tag Positive').forEach(screen => {
+    findings.push({
+      source: 'pgx',
+      priority: 'critical',
+      category: 'Pharmacogenomics - Drug Safety',
+      finding: `${screen.allele} TAG POSITIVE (${screen.tagSnp} ${screen.genotype}) - ${screen.drugs.join(', ')} SEVERE HYPERSENSITIVITY RISK`,
+      action: `Avoid ${screen.drugs.join(', ')} until direct HLA typing rules ${screen.allele} out.${screen.validatedForAncestry === false ? ' Tag SNP not validated for this ancestry.' : ''}`,
+      variants: [screen.tagSnp]
     });
+  });
 
-    pgx.criticalSafety.nudt15?.forEach(variant => {
-      if (variant.activityScore < 1.0) {
-        findings.push({
-          source: 'pgx',
-          priority: 'critical',
-          category: 'Pharmacogenomics - Drug Safety',
-          finding: `NUDT15 ${variant.allele} - Thiopurine SEVERE TOXICITY RISK`,
-          action: 'Reduce thiopurine dose by 30-80% or avoid. Early leukopenia risk.',
-          variants: [variant.rsid || 'NUDT15']
-        });
-      }
+  const g6pd = pgx.criticalSafety?.g6pd;
+  if (g6pd && (g6pd.genotype.status === 'Deficient' || g6pd.genotype.status === 'Variable')) {
+    const g6pdDeficient = g6pd.genotype.status === 'Deficient';
+    findings.push({
+      source: 'pgx',
+      priority: g6pdDeficient ? 'critical' : 'high',
+      category: 'Pharmacogenomics - Drug Safety',
+      finding: `G6PD ${g6pd.genotype.alleles.join('/')} (${g6pd.genotype.status}) - Rasburicase/Primaquine/Dapsone HEMOLYSIS RISK`,
+      action: g6pdDeficient
+        ? 'AVOID rasburicase, tafenoquine, primaquine and dapsone. Avoid fava beans.'
+        : 'Measure G6PD enzyme activity before rasburicase, primaquine, tafenoquine or dapsone.',
+      variants: g6pd.genotype.detectedVariants
     });
+  }
 
-    pgx.criticalSafety.tpmt?.forEach(variant => {
-      if (variant.activityScore < 1.0) {
-        findings.push({
-          source: 'pgx',
-          priority: 'critical',
-          category: 'Pharmacogenomics - Drug Safety',
-          finding: `TPMT ${variant.allele} - Thiopurine LIFE-THREATENING TOXICITY`,
-          action: 'Avoid thiopurines or use 5-10% of normal dose. Myelosuppression risk.',
-          variants: [variant.rsid || 'TPMT']
-        });
-      }
+  const thrombophilia = pgx.thrombophilia;
+  if (thrombophilia && !['None', 'Unknown'].includes(thrombophilia.inheritedThrombophilia)) {
+    const { vteRisk, contraceptiveSafety } = thrombophilia;
+    const highRisk = vteRisk.inheritedRelativeRisk.estimate >= 10 || vteRisk.relativeRisk.estimate >= 10;
+    findings.push({
+      source: 'pgx',
+      priority: highRisk ? 'critical' : 'high',
+      category: 'Pharmacogenomics - Drug Safety',
+      finding: `${thrombophilia.inheritedThrombophilia} - VTE risk ${formatRelativeRisk(vteRisk.relativeRisk)}, ${formatAnnualRisk(vteRisk.annualAbsoluteRisk)}`,
+      action: contraceptiveSafety.combinedOCPs === 'Contraindicated'
+        ? 'AVOID estrogen-containing contraceptives and oral HRT. Use progestin-only or non-hormonal methods; consider thromboprophylaxis around surgery, immobilization and postpartum.'
+        : 'Prefer progestin-only or non-hormonal contraception; consider thromboprophylaxis around surgery, immobilization and postpartum.',
+      variants: [
+        ...(thrombophilia.f5.leidenCopies ? ['rs6025'] : []),
+        ...(thrombophilia.f2.prothrombinCopies ? ['rs1799963'] : [])
+      ]
     });
   }
 
@@ -267,12 +335,13 @@ function generateActionPlan(
   }
 
   // PGx: Medication review
-  if (pgx.cyp2d6?.diplotype.phenotype === 'Poor Metabolizer' || pgx.cyp2d6?.diplotype.phenotype === 'Ultrarapid Metabolizer') {
+  const cyp2d6Phenotype = pgx.cyp2d6?.phenoconversion.effectivePhenotype;
+  if (pgx.cyp2d6 && (cyp2d6Phenotype === 'Poor Metabolizer' || cyp2d6Phenotype === 'Ultrarapid Metabolizer')) {
     shortTerm.push({
       category: 'Medication Review',
       action: 'Schedule pharmacist consult to review all medications',
       timeframe: '1 month',
-      rationale: `CYP2D6 ${pgx.cyp2d6.diplotype.phenotype} - affects 25% of prescriptions`,
+      rationale: `CYP2D6 ${describeEffectivePhenotype(pgx.cyp2d6.phenoconversion)} - affects 25% of prescriptions`,
       source: 'pgx'
     });
   }
@@ -329,7 +398,7 @@ function generateActionPlan(
 /**
  * Count unique genes analyzed across both modules
  */
-function countUniqueGenes(pgx: PGxResult, _nutri: NutrigenomicsResult): number {
+function countUniqueGenes(pgx: PGxResult, nutri: NutrigenomicsResult): number {
   const genes = new Set<string>();
 
   // PGx genes
@@ -337,24 +406,27 @@ function countUniqueGenes(pgx: PGxResult, _nutri: NutrigenomicsResult): number {
   if (pgx.cyp2c19) genes.add('CYP2C19');
   if (pgx.cyp2c9) genes.add('CYP2C9');
   if (pgx.cyp2b6) genes.add('CYP2B6');
+  if (pgx.cyp1a2) genes.add('CYP1A2');
+  if (pgx.nat2) genes.add('NAT2');
+  if (pgx.cyp3a4) genes.add('CYP3A4');
   if (pgx.cyp3a5) genes.add('CYP3A5');
 
   // Add more PGx genes from critical safety
   if (pgx.criticalSafety?.dpyd) genes.add('DPYD');
   if (pgx.criticalSafety?.nudt15) genes.add('NUDT15');
   if (pgx.criticalSafety?.tpmt) genes.add('TPMT');
+  if (pgx.criticalSafety?.hla) {
+    genes.add('HLA-A');
+    genes.add('HLA-B');
+  }
+  if (pgx.criticalSafety?.g6pd) genes.add('G6PD');
+  if (pgx.thrombophilia?.f5.leidenCopies != null) genes.add('F5');
+  if (pgx.thrombophilia?.f2.prothrombinCopies != null) genes.add('F2');
 
-  // Nutrigenomics genes (estimate based on analysis)
-  const nutriGenes = [
-    'FUT2', 'MTHFR', 'BCMO1', 'CYP2R1', 'GC', 'VDR',
-    'HFE', 'FTO', 'TCF7L2', 'APOA2', 'CYP1A2', 'ALDH2',
-    'ADH1B', 'TAS2R38', 'OR6A2', 'SOD2', 'FADS1', 'FADS2',
-    'APOE', 'APOA5', 'CETP', 'LPL', 'IL6', 'IL10', 'CRP',
-    'GSTP1', 'NAT2', 'PON1', 'NQO1', 'MTRR', 'MTR',
-    'SLCO1B1', 'ABCG2', 'CLOCK', 'MAOA', 'XPC'
-  ];
-
-  nutriGenes.forEach(g => genes.add(g));
+  // Nutrigenomics genes with a genotyped KB variant
+  nutri.kbCategories.forEach(category =>
+    category.variants.forEach(v => genes.add(v.gene))
+  );
 
   return genes.size;
 }
@@ -409,7 +481,7 @@ export function generateExecutiveSummary(analysis: IntegratedDNAAnalysis): strin
     lines.push(`CYP2C9: ${analysis.pgx.cyp2c9.diplotype.phenotype} (Activity Score: ${analysis.pgx.cyp2c9.diplotype.activityScore})`);
   }
   if (analysis.pgx.cyp2c19) {
-    lines.push(`CYP2C19: ${analysis.pgx.cyp2c19.phenotype}`);
+    lines.push(`CYP2C19: ${analysis.pgx.cyp2c19.diplotype.phenotype} (${analysis.pgx.cyp2c19.diplotype.allele1}/${analysis.pgx.cyp2c19.diplotype.allele2}, Activity Score: ${analysis.pgx.cyp2c19.diplotype.activityScore ?? 'not tested'})`);
   }
   lines.push('');
 
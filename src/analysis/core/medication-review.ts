@@ -0,0 +1,446 @@
+/**
+ * MEDICATION REVIEW
+ * Checks a personal list of current and planned medications against every analyzer and gives
+ * one prioritized report
+ *
+ * Method:
+ * - Drug-centric index: every drug recommendation from every analyzer, keyed by generic name
+ *   through the drug dictionary (a label such as "Amphetamines (Adderall, Vyvanse)" indexes
+ *   under each generic it names)
+ * - Each finding gets a severity (the analyzer's risk level, bleeding risk, statin action or
+ *   contraceptive safety) and an action (Avoid, Reduce Dose, Increase Dose, Use With Caution,
+ *   Standard) from the structured fields where the analyzer has them, otherwise from the
+ *   recommendation wording
+ * - Medications resolve by generic or brand name; the combined recommendation leads with the
+ *   most severe finding across genes
+ * - Conflicts: one gene calls for a higher dose while another calls for a lower dose or
+ *   avoidance, or the lead finding suggests an alternative that another gene says to avoid
+ * - Moderate and strong CYP inhibitors and inducers are reported with the phenotype they give
+ *   (current medications) or would affect (planned medications)
+ * - Entries are ordered by severity; names the dictionary does not know are listed separately
+ *
+ * References: CPIC guidelines (cpicpgx.org); FDA Table of Pharmacogenomic Biomarkers in Drug
+ * Labeling; FDA Drug Development and Drug Interactions table
+ *
+ * Version: 1.0.0
+ */
+
+import type { ComprehensivePGxResult } from './comprehensive-pgx-analysis';
+import type { CYP2C9DrugRecommendation } from '../analyzers/cyp2c9-analyzer';
+import { resolveDrugNames } from './drug-dictionary';
+import {
+  findCYPModulators,
+  type MedicationInteraction,
+  type Phenoconversion,
+  type PhenoconversionEnzyme
+} from './phenoconversion';
+
+export type DrugSeverity = 'critical' | 'warning' | 'caution' | 'informational' | 'normal';
+
+export type DrugAction = 'Avoid' | 'Reduce Dose' | 'Increase Dose' | 'Use With Caution' | 'Standard';
+
+export interface DrugFinding {
+  drug: string;             // Drug entry as the analyzer reports it
+  gene: string;
+  phenotype: string;        // Effective phenotype where current medications convert it
+  recommendation: string;
+  doseAdjustment?: string;
+  severity: DrugSeverity;
+  action: DrugAction;
+  alternatives: string[];
+}
+
+/** Analyzer findings by lowercase generic name */
+export type DrugIndex = Record<string, DrugFinding[]>;
+
+export interface MedicationReviewEntry {
+  medication: string;                    // Entry as given
+  status: 'current' | 'planned';
+  drugs: string[];                       // Generic names resolved from the entry
+  genes: string[];
+  findings: DrugFinding[];               // Most severe first
+  interactions: MedicationInteraction[]; // CYP inhibition or induction by this medication
+  severity: DrugSeverity;
+  action: DrugAction;
+  recommendation: string;                // Combined across genes
+  conflicts: string[];
+  notes: string[];                       // Phenotype effects of the interactions
+}
+
+export interface MedicationReview {
+  entries: MedicationReviewEntry[];      // Highest severity first
+  unrecognized: string[];                // Not in the drug dictionary
+  summary: string;
+}
+
+const SEVERITY_RANK: Record<DrugSeverity, number> = { normal: 0, informational: 1, caution: 2, warning: 3, critical: 4 };
+
+const ACTION_RANK: Record<DrugAction, number> = {
+  'Standard': 0,
+  'Use With Caution': 1,
+  'Increase Dose': 2,
+  'Reduce Dose': 3,
+  'Avoid': 4
+};
+
+const SEVERITY_ICON: Record<DrugSeverity, string> = {
+  critical: '🚨',
+  warning: '⚠️',
+  caution: '💡',
+  informational: 'ℹ️',
+  normal: '✅'
+};
+
+const AVOID_WORDING = /\bavoid\b|contraindicated|do not use|not recommended|(choose|select) an alternative|switch to/i;
+const REDUCE_WORDING = /reduce (the )?(starting )?(daily )?dose|reduce by|dose reduction|\d+% reduction|lower (starting )?dose|\d+(-\d+)?% of (the )?(normal|standard|usual)/i;
+const INCREASE_WORDING = /increased? (the )?(starting )?(daily )?dose|increasing the dose|higher (starting )?doses?\b|dose increases/i;
+
+/**
+ * Action from the recommendation wording (analyzers without a structured action)
+ *
+ * The lead clause ("🚨 AVOID CODEINE - ...") decides first; in the remaining text a dose change
+ * outranks "avoid", which there usually names a different drug ("Avoid meloxicam and piroxicam")
+ */
+function actionFromWording(severity: DrugSeverity, recommendation: string, doseAdjustment?: string): DrugAction {
+  if (severity === 'normal') return 'Standard';
+
+  const lead = recommendation.split(/[.:;]| - /)[0];
+  if (AVOID_WORDING.test(lead)) return 'Avoid';
+  if (REDUCE_WORDING.test(lead)) return 'Reduce Dose';
+  if (INCREASE_WORDING.test(lead)) return 'Increase Dose';
+
+  const wording = [recommendation, doseAdjustment].filter(Boolean).join(' ');
+  if (REDUCE_WORDING.test(wording)) return 'Reduce Dose';
+  if (INCREASE_WORDING.test(wording)) return 'Increase Dose';
+  if (AVOID_WORDING.test(wording)) return 'Avoid';
+  return severity === 'informational' ? 'Standard' : 'Use With Caution';
+}
+
+/** CYP3A5 and UGT1A1 use 'moderate' / 'standard' for caution / normal */
+function fromRiskLevel(level: DrugSeverity | 'moderate' | 'standard'): DrugSeverity {
+  if (level === 'moderate') return 'caution';
+  if (level === 'standard') return 'normal';
+  return level;
+}
+
+function finding(
+  gene: string,
+  phenotype: string,
+  drug: { drug: string; recommendation: string; doseAdjustment?: string; alternativeDrugs?: string[] },
+  severity: DrugSeverity,
+  action: DrugAction = actionFromWording(severity, drug.recommendation, drug.doseAdjustment)
+): DrugFinding {
+  return {
+    drug: drug.drug,
+    gene,
+    phenotype,
+    recommendation: drug.recommendation,
+    ...(drug.doseAdjustment ? { doseAdjustment: drug.doseAdjustment } : {}),
+    severity,
+    action,
+    alternatives: drug.alternativeDrugs ?? []
+  };
+}
+
+/**
+ * Every drug recommendation in a comprehensive result, as one flat list
+ */
+function collectFindings(result: ComprehensivePGxResult): DrugFinding[] {
+  const findings: DrugFinding[] = [];
+  const { cyp2d6, cyp2c19, cyp2c9, cyp2b6, cyp3a4, cyp3a5, cyp1a2, vkorc1, slco1b1, ugt1a1, nat2, thrombophilia } = result;
+  const { dpyd, tpmt, nudt15, hla, g6pd } = result.criticalSafety ?? {};
+
+  // CYP enzymes with phenoconversion: guidance follows the effective phenotype
+  for (const r of [cyp2d6, cyp2c19, cyp2b6, cyp3a4]) {
+    if (!r) continue;
+    findings.push(...r.drugs.map(d => finding(r.gene, r.phenoconversion.effectivePhenotype, d, d.riskLevel)));
+  }
+
+  if (cyp2c9) {
+    const bleeding: Record<CYP2C9DrugRecommendation['bleedingRisk'], DrugSeverity> = {
+      'Normal': 'normal',
+      'Increased': 'caution',
+      'High': 'warning',
+      'Very High': 'critical'
+    };
+    findings.push(...cyp2c9.drugs.map(d => finding('CYP2C9', cyp2c9.phenoconversion.effectivePhenotype, d, bleeding[d.bleedingRisk])));
+  }
+
+  if (cyp3a5) {
+    findings.push(...cyp3a5.drugs.map(d => finding('CYP3A5', cyp3a5.diplotype.phenotype, d, fromRiskLevel(d.riskLevel))));
+  }
+
+  if (cyp1a2) {
+    findings.push(...cyp1a2.drugs.map(d => finding('CYP1A2', cyp1a2.genotype.inducibility, d, d.riskLevel)));
+  }
+
+  if (vkorc1) {
+    const { phenotype } = vkorc1.genotype;
+    const severity: DrugSeverity = phenotype === 'High Sensitivity'
+      ? 'warning'
+      : phenotype === 'Unknown' ? 'informational' : 'caution';
+    findings.push(...vkorc1.drugs.map(d => finding('VKORC1', phenotype, { ...d, doseAdjustment: d.doseGuidance }, severity)));
+  }
+
+  // Statins carry a structured action
+  if (slco1b1) {
+    for (const d of slco1b1.drugs) {
+      const severity: DrugSeverity = d.action === 'Avoid'
+        ? 'warning'
+        : d.action === 'Limit Dose' ? 'caution' : d.myopathyRisk === 'Normal' ? 'normal' : 'informational';
+      const action: DrugAction = d.action === 'Avoid' ? 'Avoid' : d.action === 'Limit Dose' ? 'Reduce Dose' : 'Standard';
+      findings.push(finding(
+        d.genes.length > 0 ? d.genes.join(' + ') : 'SLCO1B1',
+        slco1b1.diplotype.phenotype,
+        { drug: d.statin, recommendation: d.recommendation, doseAdjustment: d.doseAdjustment, alternativeDrugs: d.alternatives },
+        severity,
+        action
+      ));
+    }
+  }
+
+  if (ugt1a1) {
+    findings.push(...ugt1a1.drugs.map(d => finding('UGT1A1', ugt1a1.diplotype.phenotype, d, fromRiskLevel(d.riskLevel))));
+  }
+
+  if (nat2) {
+    findings.push(...nat2.drugs.map(d => finding('NAT2', nat2.genotype.phenotype, d, d.riskLevel)));
+  }
+
+  // DPYD starting dose is structured: null with a critical risk means avoid
+  if (dpyd) {
+    for (const d of dpyd.drugs) {
+      const action = d.startingDosePercent === null
+        ? d.riskLevel === 'critical' ? 'Avoid' : undefined
+        : d.startingDosePercent < 100 ? 'Reduce Dose' : 'Standard';
+      findings.push(finding('DPYD', dpyd.diplotype.phenotype, d, d.riskLevel, action));
+    }
+  }
+
+  if (tpmt) {
+    findings.push(...tpmt.drugs.map(d =>
+      finding(nudt15 ? 'TPMT + NUDT15' : 'TPMT', tpmt.thiopurineDosing.combinedPhenotype, d, d.riskLevel)
+    ));
+  }
+
+  if (hla) {
+    for (const d of hla.drugs) {
+      const phenotype = d.alleles
+        .map(allele => `${allele} ${hla.alleles.find(s => s.allele === allele)?.status ?? 'Not Tested'}`)
+        .join(', ');
+      findings.push(finding('HLA', phenotype, d, d.riskLevel));
+    }
+  }
+
+  if (g6pd) {
+    findings.push(...g6pd.drugs.map(d => finding('G6PD', g6pd.genotype.status, d, d.riskLevel)));
+  }
+
+  // Hormonal contraception and HRT from the thrombophilia panel
+  if (thrombophilia && thrombophilia.inheritedThrombophilia !== 'Unknown') {
+    const safety = thrombophilia.contraceptiveSafety;
+    const hormonal: Array<[string, 'Safe' | 'Use Caution' | 'Contraindicated']> = [
+      ['Combined hormonal contraceptives (ethinyl estradiol)', safety.combinedOCPs],
+      ['Progestin-only contraceptives (norethindrone)', safety.progestinOnly],
+      ['Estrogen HRT (estradiol, conjugated estrogens)', safety.estrogenHRT]
+    ];
+    for (const [drug, status] of hormonal) {
+      const severity: DrugSeverity = status === 'Contraindicated' ? 'critical' : status === 'Use Caution' ? 'caution' : 'normal';
+      const action: DrugAction = status === 'Contraindicated' ? 'Avoid' : status === 'Use Caution' ? 'Use With Caution' : 'Standard';
+      findings.push(finding('F5 + F2', thrombophilia.inheritedThrombophilia, {
+        drug,
+        recommendation: status === 'Safe'
+          ? 'No genotype-based restriction'
+          : `${status.toUpperCase()} - ${thrombophilia.inheritedThrombophilia}: estrogen raises VTE risk further`,
+        alternativeDrugs: status === 'Safe' ? [] : safety.recommendedAlternatives
+      }, severity, action));
+    }
+  }
+
+  return findings;
+}
+
+function byPriority(a: DrugFinding, b: DrugFinding): number {
+  return SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || ACTION_RANK[b.action] - ACTION_RANK[a.action];
+}
+
+/**
+ * Drug-centric index over all analyzer outputs
+ *
+ * @param result - Comprehensive PGx result
+ * @returns Findings by lowercase generic name, most severe first
+ */
+export function buildDrugIndex(result: ComprehensivePGxResult): DrugIndex {
+  const index: DrugIndex = {};
+
+  for (const f of collectFindings(result)) {
+    for (const drug of resolveDrugNames(f.drug)) {
+      (index[drug] ??= []).push(f);
+    }
+  }
+
+  for (const findings of Object.values(index)) {
+    findings.sort(byPriority);
+  }
+  return index;
+}
+
+/**
+ * Opposing dose directions across genes, and suggested alternatives another gene says to avoid
+ */
+function findConflicts(findings: DrugFinding[], index: DrugIndex): string[] {
+  const conflicts: string[] = [];
+
+  const higher = findings.filter(f => f.action === 'Increase Dose');
+  const lower = findings.filter(f => f.action === 'Reduce Dose' || f.action === 'Avoid');
+  for (const up of higher) {
+    for (const down of lower.filter(f => f.gene !== up.gene)) {
+      conflicts.push(`${up.gene} (${up.phenotype}): ${up.action.toLowerCase()} vs ${down.gene} (${down.phenotype}): ${down.action.toLowerCase()}`);
+    }
+  }
+
+  const lead = findings[0];
+  if (lead && lead.action !== 'Standard') {
+    for (const alternative of lead.alternatives) {
+      const flagged = resolveDrugNames(alternative)
+        .flatMap(drug => index[drug] ?? [])
+        .find(f => f.action === 'Avoid' && f.gene !== lead.gene);
+      if (flagged) {
+        conflicts.push(`Suggested alternative ${alternative} (${lead.gene}) should be avoided per ${flagged.gene} (${flagged.phenotype})`);
+      }
+    }
+  }
+
+  return [...new Set(conflicts)];
+}
+
+function enzymePhenoconversion(result: ComprehensivePGxResult, enzyme: PhenoconversionEnzyme): Phenoconversion | undefined {
+  const results = { CYP2D6: result.cyp2d6, CYP2C19: result.cyp2c19, CYP2C9: result.cyp2c9, CYP3A4: result.cyp3a4, CYP2B6: result.cyp2b6 };
+  return results[enzyme]?.phenoconversion;
+}
+
+/**
+ * Phenotype effect of a medication that inhibits or induces a CYP enzyme
+ */
+function interactionNote(
+  interaction: MedicationInteraction,
+  status: MedicationReviewEntry['status'],
+  result: ComprehensivePGxResult
+): string {
+  const { drug, enzyme, effect, strength } = interaction;
+  const description = `${drug} is a ${strength} ${enzyme} ${effect}`;
+  const phenoconversion = enzymePhenoconversion(result, enzyme);
+  if (!phenoconversion) return `${description} - ${enzyme} not analyzed`;
+
+  if (status === 'planned') {
+    return `${description} - starting it would change guidance for ${enzyme} substrates (currently ${phenoconversion.effectivePhenotype})`;
+  }
+  if (phenoconversion.converted) {
+    return `${description} - effective ${phenoconversion.effectivePhenotype} (genetic ${phenoconversion.geneticPhenotype})`;
+  }
+  return `${description} - ${phenoconversion.geneticPhenotype} unchanged`;
+}
+
+function reviewEntry(
+  medication: string,
+  status: MedicationReviewEntry['status'],
+  drugs: string[],
+  index: DrugIndex,
+  result: ComprehensivePGxResult
+): MedicationReviewEntry {
+  const findings = [...new Set(drugs.flatMap(drug => index[drug] ?? []))].sort(byPriority);
+  const interactions = findCYPModulators([medication]).filter(i => i.strength !== 'weak');
+  const conflicts = findConflicts(findings, index);
+  const notes = interactions.map(i => interactionNote(i, status, result));
+  const genes = [...new Set(findings.filter(f => f.severity !== 'normal').map(f => f.gene))];
+
+  const lead = findings[0];
+  let severity: DrugSeverity = lead?.severity ?? 'normal';
+  let action: DrugAction = findings.reduce<DrugAction>((worst, f) => ACTION_RANK[f.action] > ACTION_RANK[worst] ? f.action : worst, 'Standard');
+  let recommendation: string;
+
+  if (!lead) {
+    recommendation = 'No pharmacogenomic guidance for this drug from the analyzed genes';
+  } else if (conflicts.some(c => !c.startsWith('Suggested alternative'))) {
+    severity = SEVERITY_RANK[severity] < SEVERITY_RANK.warning ? 'warning' : severity;
+    recommendation = `Conflicting genetic guidance across ${genes.join(', ')} - weigh the findings together with the prescriber before dosing`;
+  } else {
+    const others = genes.filter(g => g !== lead.gene);
+    recommendation = `${lead.gene}: ${lead.recommendation}${others.length > 0 ? ` (also affected by ${others.join(', ')})` : ''}`;
+  }
+
+  // A medication that converts a phenotype changes the guidance for other drugs
+  const converting = status === 'current' && interactions.some(i => enzymePhenoconversion(result, i.enzyme)?.converted);
+  if (converting || (status === 'planned' && interactions.length > 0)) {
+    severity = SEVERITY_RANK[severity] < SEVERITY_RANK.caution ? 'caution' : severity;
+    if (action === 'Standard') action = 'Use With Caution';
+  }
+
+  return {
+    medication,
+    status,
+    drugs,
+    genes: genes.length > 0 ? genes : [...new Set(findings.map(f => f.gene))],
+    findings,
+    interactions,
+    severity,
+    action,
+    recommendation,
+    conflicts,
+    notes
+  };
+}
+
+/**
+ * Plain-text report, highest severity first
+ */
+function formatMedicationReview(entries: MedicationReviewEntry[], unrecognized: string[]): string {
+  let summary = `MEDICATION REVIEW (${entries.length + unrecognized.length} medications)\n`;
+
+  for (const entry of entries) {
+    summary += `\n${SEVERITY_ICON[entry.severity]} ${entry.medication}${entry.status === 'planned' ? ' (planned)' : ''} - ${entry.action}\n`;
+    summary += `  ${entry.recommendation}\n`;
+    if (entry.genes.length > 0) summary += `  Genes: ${entry.genes.join(', ')}\n`;
+    for (const conflict of entry.conflicts) summary += `  ⚡ Conflict: ${conflict}\n`;
+    for (const note of entry.notes) summary += `  💊 ${note}\n`;
+  }
+
+  if (unrecognized.length > 0) {
+    summary += `\nNot recognized (no pharmacogenomic data): ${unrecognized.join(', ')}\n`;
+  }
+
+  return summary;
+}
+
+/**
+ * Check current and planned medications against every analyzer
+ *
+ * @param result - Comprehensive PGx result (run with the current medications for phenoconversion)
+ * @param current - Current medications as entered (generic or brand names, optional dose text)
+ * @param planned - Medications being considered
+ */
+export function reviewMedications(
+  result: ComprehensivePGxResult,
+  current: string[],
+  planned: string[] = []
+): MedicationReview {
+  const index = buildDrugIndex(result);
+  const entries: MedicationReviewEntry[] = [];
+  const unrecognized: string[] = [];
+
+  const lists: Array<[string[], MedicationReviewEntry['status']]> = [[current, 'current'], [planned, 'planned']];
+  for (const [medications, status] of lists) {
+    for (const medication of medications.map(m => m.trim()).filter(Boolean)) {
+      const drugs = resolveDrugNames(medication);
+      if (drugs.length === 0) {
+        unrecognized.push(medication);
+      } else {
+        entries.push(reviewEntry(medication, status, drugs, index, result));
+      }
+    }
+  }
+
+  entries.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity] || ACTION_RANK[b.action] - ACTION_RANK[a.action]);
+
+  return { entries, unrecognized, summary: formatMedicationReview(entries, unrecognized) };
+}
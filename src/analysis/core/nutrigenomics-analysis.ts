@@ -6,6 +6,16 @@
  * Version: 2.0.0-ultimate
  */
 
+import {
+  getNutrigenomicsKnowledgeBase,
+  getVariantCategory,
+  OTHER_CATEGORY
+} from './nutrigenomics-knowledge-base';
+import type { NutrigenomicsKBVariant } from '../schemas/kb-schemas';
+import { normalizeGenotypeStrand, type StrandStatus } from '../utils/genotype-utils';
+import { determineCYP1A2Genotype } from '../analyzers/cyp1a2-analyzer';
+import { determineNAT2Genotype } from '../analyzers/nat2-analyzer';
+
 export interface NutrigenomicsResult {
   categories: {
     vitamins: VitaminAnalysis;
@@ -16,6 +26,12 @@ export interface NutrigenomicsResult {
     omega: OmegaAnalysis;
     taste: TasteAnalysis;
   };
+  kbCategories: KBCategoryResult[];
+  kbCoverage: {
+    version: string;
+    variantsInKB: number;
+    variantsFound: number;
+  };
   criticalFindings: CriticalFinding[];
   recommendations: DietaryRecommendation[];
   supplements: SupplementRecommendation[];
@@ -154,6 +170,38 @@ export interface TasteAnalysis {
   };
 }
 
+export interface KBVariantFinding {
+  rsid: string;
+  gene: string;
+  trait: string;
+  subcategory: string;
+  genotype: string;          // On the KB strand when the call could be strand-checked
+  reportedGenotype: string;  // As read from the raw data file
+  strand: StrandStatus;
+  riskAllele: string | null;
+  riskAlleleCount: number | null;
+  status: 'homozygous_risk' | 'heterozygous' | 'no_risk_allele' | 'indeterminate';
+  interpretation: string;
+  effect: string;
+  clinicalAction?: string;
+  recommendations: string[];
+  evidence: Array<{
+    pmid: string;
+    studyType: string;
+    n: number;
+    replicated?: boolean;
+  }>;
+  evidenceLevel: 'High' | 'Moderate' | 'Low' | null;
+  confidence: 'High' | 'Moderate' | 'Low';
+}
+
+export interface KBCategoryResult {
+  category: string;
+  description: string;
+  variantsInKB: number;
+  variants: KBVariantFinding[];
+}
+
 export interface CriticalFinding {
   priority: 'critical' | 'high' | 'moderate';
   category: string;
@@ -197,6 +245,8 @@ export function analyzeNutrigenomics(genotypes: Record<string, string>): Nutrige
     genotype: genotype.replace(/\s/g, '').toUpperCase()
   }));
 
+  const kbCategories = interpretKBVariants(genotypeList);
+
   return {
     categories: {
       vitamins: analyzeVitamins(genotypeList),
@@ -207,6 +257,12 @@ export function analyzeNutrigenomics(genotypes: Record<string, string>): Nutrige
       omega: analyzeOmega(genotypeList),
       taste: analyzeTaste(genotypeList)
     },
+    kbCategories,
+    kbCoverage: {
+      version: getNutrigenomicsKnowledgeBase().version,
+      variantsInKB: getNutrigenomicsKnowledgeBase().variants.length,
+      variantsFound: kbCategories.reduce((sum, c) => sum + c.variants.length, 0)
+    },
     criticalFindings: getCriticalFindings(genotypeList),
     recommendations: getDietaryRecommendations(genotypeList),
     supplements: getSupplementRecommendations(genotypeList)
@@ -591,14 +647,13 @@ function analyzeFoodIntolerances(genotypes: Genotype[]): FoodIntoleranceAnalysis
     lactoseRecommendations = ['No genetic lactose intolerance', 'Dairy digestion is fine'];
   }
 
-  // Caffeine
-  const cyp1a2 = getGenotype(genotypes, 'rs762551');
-  let caffeineMetabolizer: 'slow' | 'intermediate' | 'fast' | 'unknown' = 'unknown';
+  // Caffeine - same CYP1A2 interpretation as the PGx analyzer
+  const cyp1a2 = determineCYP1A2Genotype(genotypes);
+  const caffeineMetabolizer = cyp1a2.caffeineMetabolizer;
   let cardioRisk: 'high_with_intake' | 'neutral' | 'protective' = 'neutral';
   let caffeineRecommendations: string[] = [];
 
-  if (cyp1a2 === 'CC') {
-    caffeineMetabolizer = 'slow';
+  if (caffeineMetabolizer === 'slow') {
     cardioRisk = 'high_with_intake';
     caffeineRecommendations = [
       '⚠️ SLOW CAFFEINE METABOLIZER',
@@ -609,11 +664,9 @@ function analyzeFoodIntolerances(genotypes: Genotype[]): FoodIntoleranceAnalysis
       'May experience jitters, anxiety, insomnia',
       'Consider decaf or tea'
     ];
-  } else if (cyp1a2 === 'AC') {
-    caffeineMetabolizer = 'intermediate';
+  } else if (caffeineMetabolizer === 'intermediate') {
     caffeineRecommendations = ['Moderate intake: 2-3 cups daily OK', 'Monitor for symptoms'];
-  } else if (cyp1a2 === 'AA') {
-    caffeineMetabolizer = 'fast';
+  } else if (caffeineMetabolizer === 'fast') {
     cardioRisk = 'protective';
     caffeineRecommendations = [
       'FAST CAFFEINE METABOLIZER',
@@ -674,7 +727,7 @@ function analyzeFoodIntolerances(genotypes: Genotype[]): FoodIntoleranceAnalysis
     caffeine: {
       metabolizer: caffeineMetabolizer,
       cardiovascularRisk: cardioRisk,
-      genotype: cyp1a2 || 'unknown',
+      genotype: cyp1a2.rs762551 === 'Unknown' ? 'unknown' : cyp1a2.rs762551,
       recommendations: caffeineRecommendations
     },
     alcohol: {
@@ -709,6 +762,26 @@ function analyzeDetoxification(genotypes: Genotype[]): DetoxAnalysis {
     methylationRecommendations = ['Consider methylfolate 400mcg', 'B-vitamin support'];
   }
 
+  // Acetylation - same NAT2 interpretation as the PGx analyzer
+  const nat2 = determineNAT2Genotype(genotypes);
+  let phase2Recommendations = ['Limit charred/well-done meat', 'Support Phase II enzymes'];
+
+  if (nat2.acetylatorStatus === 'slow') {
+    phase2Recommendations = [
+      '⚠️ SLOW ACETYLATOR (NAT2)',
+      'Limit well-done/charred meat (heterocyclic amines)',
+      'Avoid smoking (higher bladder cancer risk)',
+      'Reduce aromatic amine exposure (hair dyes, industrial solvents)',
+      'Tell your doctor before isoniazid, hydralazine or sulfasalazine'
+    ];
+  } else if (nat2.acetylatorStatus === 'fast') {
+    phase2Recommendations = [
+      'RAPID ACETYLATOR (NAT2)',
+      'Limit well-done/charred meat (rapid acetylators activate heterocyclic amines)',
+      'Isoniazid and hydralazine are cleared faster'
+    ];
+  }
+
   return {
     methylation: {
       status: methylationStatus,
@@ -722,9 +795,11 @@ function analyzeDetoxification(genotypes: Genotype[]): DetoxAnalysis {
       recommendations: ['NAC 600-1200mg for glutathione support', 'Cruciferous vegetables']
     },
     phase2: {
-      nat2Status: 'unknown',
-      variants: [],
-      recommendations: ['Limit charred/well-done meat', 'Support Phase II enzymes']
+      nat2Status: nat2.acetylatorStatus,
+      variants: nat2.snps
+        .filter(snp => snp.genotype !== 'Unknown')
+        .map(snp => ({ rsid: snp.rsid, genotype: snp.genotype, interpretation: `NAT2 ${snp.change}` })),
+      recommendations: phase2Recommendations
     }
   };
 }
@@ -984,3 +1059,94 @@ function getSupplementRecommendations(genotypes: Genotype[]): SupplementRecommen
 
   return supplements;
 }
+
+/**
+ * KB Variant Interpretation
+ *
+ * Reports every kb-nutrigenomics-complete-125.json variant present in the data, grouped by KB
+ * category (in KB order), with the KB's interpretation, evidence and confidence attached.
+ * Categories with no genotyped variant are kept so coverage is visible.
+ */
+export function interpretKBVariants(genotypes: Genotype[]): KBCategoryResult[] {
+  const kb = getNutrigenomicsKnowledgeBase();
+
+  const results: KBCategoryResult[] = kb.categories.map(c => ({
+    category: c.name,
+    description: c.description,
+    variantsInKB: 0,
+    variants: []
+  }));
+  const other: KBCategoryResult = {
+    category: OTHER_CATEGORY,
+    description: 'Variants outside the KB categories',
+    variantsInKB: 0,
+    variants: []
+  };
+
+  for (const variant of kb.variants) {
+    const categoryName = getVariantCategory(variant);
+    const category = results.find(c => c.category === categoryName) ?? other;
+    category.variantsInKB++;
+
+    const genotype = getGenotype(genotypes, variant.rsid);
+    if (!genotype || !/^[ACGT]{1,2}$/.test(genotype)) continue; // no-call or indel
+
+    category.variants.push(interpretKBVariant(variant, genotype));
+  }
+
+  return other.variantsInKB > 0 ? [...results, other] : results;
+}
+
+/**
+ * Risk allele from the KB text ('A (ALDH2*2)' → 'A'); null for 'Varies', 'None (...)', etc.
+ */
+function parseRiskAllele(variant: NutrigenomicsKBVariant): string | null {
+  const match = variant.interpretation.risk_allele.match(/^([ACGT])\b/);
+  if (!match) return null;
+
+  const allele = match[1];
+  return allele === variant.ref || allele === variant.alt ? allele : null;
+}
+
+function interpretKBVariant(variant: NutrigenomicsKBVariant, genotype: string): KBVariantFinding {
+  const riskAllele = parseRiskAllele(variant);
+  const strand = normalizeGenotypeStrand(genotype, variant);
+
+  // Opposite-strand calls are complemented; calls matching neither strand cannot be scored
+  const alleles = strand.normalized?.split('') ?? null;
+  const riskAlleleCount = riskAllele && alleles
+    ? alleles.filter(a => a === riskAllele).length
+    : null;
+
+  let status: KBVariantFinding['status'] = 'indeterminate';
+  if (alleles && riskAlleleCount !== null) {
+    if (riskAlleleCount === 0) status = 'no_risk_allele';
+    else if (riskAlleleCount === alleles.length) status = 'homozygous_risk';
+    else status = 'heterozygous';
+  }
+
+  return {
+    rsid: variant.rsid,
+    gene: variant.gene,
+    trait: variant.trait,
+    subcategory: variant.subcategory,
+    genotype: strand.normalized ?? genotype,
+    reportedGenotype: genotype,
+    strand: strand.status,
+    riskAllele,
+    riskAlleleCount,
+    status,
+    interpretation: variant.interpretation.plain_language,
+    effect: variant.interpretation.effect,
+    clinicalAction: variant.interpretation.clinical_action,
+    recommendations: variant.interpretation.recommendations,
+    evidence: variant.evidence.map(e => ({
+      pmid: e.pmid,
+      studyType: e.study_type,
+      n: e.n,
+      replicated: e.replicated
+    })),
+    evidenceLevel: variant.evidence_level ?? null,
+    confidence: variant.confidence
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * NUTRIGENOMICS KNOWLEDGE BASE LOADER
+ *
+ * Typed, Zod-validated access to src/data/kb-nutrigenomics-complete-125.json.
+ *
+ * Architecture:
+ * - The KB file is validated once and indexed by rsID
+ * - The KB lists its report categories ('Vitamin Metabolism (D, B12, ...)') but variants only
+ *   carry a subcategory ('Vitamin D'), so SUBCATEGORY_CATEGORIES assigns each subcategory to a
+ *   KB category. Subcategories without a category are reported under OTHER_CATEGORY.
+ */
+
+import kbData from '../../data/kb-nutrigenomics-complete-125.json';
+import {
+  NutrigenomicsKBFileSchema,
+  type NutrigenomicsKBVariant
+} from '../schemas/kb-schemas';
+
+export interface NutrigenomicsKBCategory {
+  name: string;        // 'Vitamin Metabolism'
+  description: string; // Full KB label, e.g. 'Vitamin Metabolism (D, B12, Folate/B9, A, E, K, B6)'
+}
+
+export interface NutrigenomicsKnowledgeBase {
+  version: string;
+  referenceBuild: string;
+  categories: NutrigenomicsKBCategory[];
+  variants: NutrigenomicsKBVariant[];
+  byRsid: Map<string, NutrigenomicsKBVariant>;
+}
+
+export const OTHER_CATEGORY = 'Other';
+
+/**
+ * KB subcategory → KB category name
+ */
+export const SUBCATEGORY_CATEGORIES: Record<string, string> = {
+  'Vitamin D': 'Vitamin Metabolism',
+  'Vitamin B12': 'Vitamin Metabolism',
+  'Folate/B9': 'Vitamin Metabolism',
+  'Vitamin A': 'Vitamin Metabolism',
+  'Vitamin B6': 'Vitamin Metabolism',
+  'Vitamin K': 'Vitamin Metabolism',
+  'Iron': 'Mineral Metabolism',
+  'Calcium': 'Mineral Metabolism',
+  'Mineral Metabolism': 'Mineral Metabolism',
+  'Hormones': 'Mineral Metabolism',
+  'Weight Management': 'Macronutrient Response',
+  'Appetite': 'Macronutrient Response',
+  'Metabolism': 'Macronutrient Response',
+  'Carbohydrate Metabolism': 'Macronutrient Response',
+  'Fat Metabolism': 'Macronutrient Response',
+  'Lactose': 'Food Intolerances',
+  'Caffeine': 'Food Intolerances',
+  'Alcohol': 'Food Intolerances',
+  'Taste': 'Food Intolerances',
+  'Lipid Metabolism': 'Lipid Metabolism',
+  'Methylation': 'Detoxification',
+  'Detox': 'Detoxification',
+  'Detoxification': 'Detoxification',
+  'Phase II Detox': 'Detoxification',
+  'Essential Fatty Acids': 'Omega Fatty Acids',
+  'Inflammation': 'Inflammation & Cytokines',
+  'Cytokines': 'Inflammation & Cytokines',
+  'Antioxidants': 'Oxidative Stress & Antioxidants',
+  'Circadian Rhythm': 'Circadian Rhythm',
+  'DNA Repair': 'DNA Repair',
+  'Behavioral': 'Behavioral & Neurotransmitters'
+};
+
+/**
+ * Split a KB category label into its name and description
+ */
+function toCategory(label: string): NutrigenomicsKBCategory {
+  const name = label.split(' (')[0].trim();
+  return { name, description: label };
+}
+
+/**
+ * Validate and index a nutrigenomics knowledge base file
+ *
+ * @param data - Raw KB JSON (defaults to the bundled kb-nutrigenomics-complete-125.json)
+ * @throws ZodError if the KB does not match the schema
+ */
+export function loadNutrigenomicsKnowledgeBase(data: unknown = kbData): NutrigenomicsKnowledgeBase {
+  const file = NutrigenomicsKBFileSchema.parse(data);
+
+  return {
+    version: file.kb_version,
+    referenceBuild: file.reference_build,
+    categories: file.categories.map(toCategory),
+    variants: file.variants,
+    byRsid: new Map(file.variants.map(v => [v.rsid, v]))
+  };
+}
+
+let cachedKB: NutrigenomicsKnowledgeBase | null = null;
+
+/**
+ * Get the bundled nutrigenomics knowledge base (validated once, then cached)
+ */
+export function getNutrigenomicsKnowledgeBase(): NutrigenomicsKnowledgeBase {
+  if (!cachedKB) {
+    cachedKB = loadNutrigenomicsKnowledgeBase();
+  }
+  return cachedKB;
+}
+
+/**
+ * KB category name of a variant, or OTHER_CATEGORY if its subcategory is not assigned
+ */
+export function getVariantCategory(variant: NutrigenomicsKBVariant): string {
+  return SUBCATEGORY_CATEGORIES[variant.subcategory] ?? OTHER_CATEGORY;
+}
@@ -4,6 +4,9 @@
 // Drop this into your project and call analyzePGx(genotypes) to get results
 // ============================================================================
 
+import { getReferenceAlleles } from './strand-normalization';
+import { buildGenotypeSet, callDiplotypes, type AlleleDefinitionTable } from './star-allele-engine';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -104,7 +107,7 @@ const GENE_DEFINITIONS: Record<string, {
       { allele: "*1", function: "Normal", definingVariants: [] },
       { allele: "*2", function: "Decreased", definingVariants: ["rs1799853"] },
       { allele: "*3", function: "No function", definingVariants: ["rs1057910"] },
-      { allele: "*5", function: "No function", definingVariants: ["rs28371686"] },
+      { allele: "*5", function: "Decreased", definingVariants: ["rs28371686"] },
       { allele: "*6", function: "No function", definingVariants: ["rs9332131"] },
       { allele: "*8", function: "Decreased", definingVariants: ["rs7900194"] },
       { allele: "*11", function: "Decreased", definingVariants: ["rs28371685"] },
@@ -118,6 +121,8 @@ const GENE_DEFINITIONS: Record<string, {
     alleles: [
       { allele: "*1", function: "Normal", definingVariants: [] },
       { allele: "*3", function: "No function", definingVariants: ["rs776746"] },
+      { allele: "*6", function: "No function", definingVariants: ["rs10264272"] },
+      { allele: "*7", function: "No function", definingVariants: ["rs41303343"] },
     ]
   },
 
@@ -188,6 +193,7 @@ const GENE_DEFINITIONS: Record<string, {
       { allele: "*5", function: "Decreased", definingVariants: ["rs1801280"] },
       { allele: "*6", function: "Decreased", definingVariants: ["rs1799930"] },
       { allele: "*7", function: "Decreased", definingVariants: ["rs1799931"] },
+      { allele: "*14", function: "Decreased", definingVariants: ["rs1801279"] },
     ]
   },
 
@@ -197,8 +203,9 @@ const GENE_DEFINITIONS: Record<string, {
     hasCNV: false,
     alleles: [
       { allele: "*1", function: "Normal", definingVariants: [] },
-      { allele: "*6", function: "Decreased", definingVariants: ["rs3745274"] },
       { allele: "*18", function: "No function", definingVariants: ["rs28399499"] },
+      { allele: "*6", function: "Decreased", definingVariants: ["rs3745274", "rs2279343"] },
+      { allele: "*9", function: "Decreased", definingVariants: ["rs3745274"] },
     ]
   },
 
@@ -407,44 +414,46 @@ const DRUG_DB: DrugRecommendation[] = [
 // DIPLOTYPE INFERENCE ENGINE
 // ============================================================================
 
-function inferDiplotype(gene: string, genotypes: Map<string, Genotype>): Diplotype | null {
+/**
+ * Engine table for a gene: each defining rsID carries the KB alt allele ('D' for deletions,
+ * 'I' for insertions).
+ * Alleles with a defining rsID outside the KB cannot be matched and are left out.
+ */
+function toAlleleDefinitionTable(gene: string): AlleleDefinitionTable {
   const geneDefinition = GENE_DEFINITIONS[gene];
-  if (!geneDefinition) return null;
-
-  const matchedAlleles: string[] = [];
+  const alleles: AlleleDefinitionTable['alleles'] = [];
 
   for (const allele of geneDefinition.alleles) {
-    if (allele.allele.includes("*1") && allele.definingVariants.length === 0) {
-      continue; // Handle reference allele last
+    const variants: Record<string, string> = {};
+    for (const rsid of allele.definingVariants) {
+      const alleles = getReferenceAlleles(rsid);
+      if (alleles) variants[rsid] = alleles.alt === 'del' ? 'D' : alleles.ref === 'del' ? 'I' : alleles.alt;
     }
+    if (Object.keys(variants).length !== allele.definingVariants.length) continue;
 
-    const allVariantsPresent = allele.definingVariants.every(rsid => {
-      const genotype = genotypes.get(rsid);
-      if (!genotype) return false;
-      // Check if homozygous for alt or heterozygous
-      const bases = genotype.genotype.split('');
-      return bases.some(b => b !== genotype.genotype[0] || genotype.genotype.length === 1);
+    alleles.push({
+      allele: allele.allele,
+      variants,
+      function: allele.function,
+      activityScore: allele.activityScore
     });
-
-    if (allVariantsPresent) {
-      matchedAlleles.push(allele.allele);
-    }
   }
 
-  // Default to *1 if no variants found
-  if (matchedAlleles.length === 0) {
-    matchedAlleles.push("*1", "*1");
-  } else if (matchedAlleles.length === 1) {
-    matchedAlleles.push("*1");
-  }
+  return { gene, alleles };
+}
+
+function inferDiplotype(gene: string, genotypes: Map<string, Genotype>): Diplotype | null {
+  if (!GENE_DEFINITIONS[gene]) return null;
 
-  matchedAlleles.sort();
+  const table = toAlleleDefinitionTable(gene);
+  const rows = [...genotypes].map(([rsid, { genotype }]) => ({ rsid, genotype }));
+  const [allele1, allele2] = callDiplotypes(table, buildGenotypeSet(rows, table)).candidates[0].alleles;
 
   return {
     gene,
-    allele1: matchedAlleles[0] || "*1",
-    allele2: matchedAlleles[1] || "*1",
-    diplotype: `${matchedAlleles[0] || "*1"}/${matchedAlleles[1] || "*1"}`
+    allele1,
+    allele2,
+    diplotype: `${allele1}/${allele2}`
   };
 }
 
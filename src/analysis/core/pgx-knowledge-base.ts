@@ -0,0 +1,277 @@
+/**
+ * PGx KNOWLEDGE BASE LOADER
+ *
+ * Typed, Zod-validated access to src/data/kb-pgx-ultimate.json.
+ *
+ * Architecture:
+ * - The KB file is validated once and indexed by rsID and by gene + star allele
+ * - Analyzers resolve their allele activity tables through resolveAlleleActivity():
+ *   KB values take precedence, the analyzer's CPIC table fills alleles the KB does not define
+ * - Analyzers declare their rsID → allele definitions through auditAlleleDefinitions()
+ * - Every disagreement between the KB and an analyzer is recorded and exposed through
+ *   getKBMismatches(), so a KB update never silently diverges from the calling logic
+ */
+
+import kbData from '../../data/kb-pgx-ultimate.json';
+import {
+  PGxKnowledgeBaseFileSchema,
+  type KBAlleleFunction,
+  type KBEvidence,
+  type KBEvidenceLevel,
+  type KBMismatch,
+  type KBVariant
+} from '../schemas/kb-schemas';
+
+export type { KBMismatch };
+
+export interface KBAlleleDefinition {
+  gene: string;
+  starAllele: string;
+  rsid: string;
+  function: KBAlleleFunction | null;
+  activityScore: number | null;
+  evidenceLevel: KBEvidenceLevel | null;
+  cpicLevel: string | null;
+  evidence: KBEvidence[];
+}
+
+export interface PGxKnowledgeBase {
+  version: string;
+  referenceBuild: string;
+  variants: KBVariant[];
+  byRsid: Map<string, KBVariant>;
+  alleles: Map<string, Map<string, KBAlleleDefinition>>; // gene → star allele → definition
+}
+
+/**
+ * Star allele labels that name a single allele. Composite or descriptive labels
+ * ('*14A/*14B', '*3A (component) / *3C', 'Haplotype marker') are not indexed.
+ */
+function isSingleAlleleLabel(label: string): boolean {
+  return !/[/()\s]/.test(label);
+}
+
+/**
+ * Extract the star allele definition of a variant, from the top-level fields or risk_model
+ */
+function toAlleleDefinition(variant: KBVariant): KBAlleleDefinition | null {
+  const starAllele = variant.star_allele ?? variant.risk_model?.star_allele;
+
+  if (!starAllele || !isSingleAlleleLabel(starAllele)) {
+    return null;
+  }
+
+  return {
+    gene: variant.gene,
+    starAllele,
+    rsid: variant.rsid,
+    function: variant.function ?? variant.risk_model?.function ?? null,
+    activityScore: variant.activity_score ?? variant.risk_model?.activity_score ?? null,
+    evidenceLevel: variant.evidence_level ?? null,
+    cpicLevel: variant.cpic_level ?? null,
+    evidence: variant.evidence
+  };
+}
+
+/**
+ * Validate and index a knowledge base file
+ *
+ * @param data - Raw KB JSON (defaults to the bundled kb-pgx-ultimate.json)
+ * @throws ZodError if the KB does not match the schema
+ */
+export function loadPGxKnowledgeBase(data: unknown = kbData): PGxKnowledgeBase {
+  const file = PGxKnowledgeBaseFileSchema.parse(data);
+
+  const byRsid = new Map<string, KBVariant>();
+  const alleles = new Map<string, Map<string, KBAlleleDefinition>>();
+
+  for (const variant of file.variants) {
+    byRsid.set(variant.rsid, variant);
+
+    const definition = toAlleleDefinition(variant);
+    if (!definition) continue;
+
+    if (!alleles.has(variant.gene)) {
+      alleles.set(variant.gene, new Map());
+    }
+    const geneAlleles = alleles.get(variant.gene)!;
+
+    // First definition wins - later rows for the same allele are usually sub-variants
+    if (!geneAlleles.has(definition.starAllele)) {
+      geneAlleles.set(definition.starAllele, definition);
+    }
+  }
+
+  return {
+    version: file.kb_version,
+    referenceBuild: file.reference_build,
+    variants: file.variants,
+    byRsid,
+    alleles
+  };
+}
+
+let cachedKB: PGxKnowledgeBase | null = null;
+
+/**
+ * Get the bundled knowledge base (validated once, then cached)
+ */
+export function getPGxKnowledgeBase(): PGxKnowledgeBase {
+  if (!cachedKB) {
+    cachedKB = loadPGxKnowledgeBase();
+  }
+  return cachedKB;
+}
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+/**
+ * Look up a variant by rsID
+ */
+export function getKBVariant(rsid: string): KBVariant | undefined {
+  return getPGxKnowledgeBase().byRsid.get(rsid);
+}
+
+/**
+ * All KB variants for a gene
+ */
+export function getKBGeneVariants(gene: string): KBVariant[] {
+  return getPGxKnowledgeBase().variants.filter(v => v.gene === gene);
+}
+
+/**
+ * Look up a star allele definition for a gene
+ */
+export function getKBAllele(gene: string, starAllele: string): KBAlleleDefinition | undefined {
+  return getPGxKnowledgeBase().alleles.get(gene)?.get(starAllele);
+}
+
+/**
+ * Allele function from the KB, or null if the KB does not define the allele
+ */
+export function getKBAlleleFunction(gene: string, starAllele: string): KBAlleleFunction | null {
+  return getKBAllele(gene, starAllele)?.function ?? null;
+}
+
+/**
+ * Allele activity value from the KB, or null if the KB does not define one
+ */
+export function getKBActivityScore(gene: string, starAllele: string): number | null {
+  return getKBAllele(gene, starAllele)?.activityScore ?? null;
+}
+
+/**
+ * KB evidence for a gene as 'PMID: <id> - <description>' strings
+ *
+ * @param gene - Gene symbol
+ * @param alleles - Optional star alleles to restrict to (e.g. the called diplotype)
+ */
+export function getKBReferences(gene: string, alleles?: string[]): string[] {
+  const geneAlleles = getPGxKnowledgeBase().alleles.get(gene);
+  if (!geneAlleles) return [];
+
+  const references = new Map<string, string>();
+
+  for (const definition of geneAlleles.values()) {
+    if (alleles && !alleles.includes(definition.starAllele)) continue;
+
+    for (const evidence of definition.evidence) {
+      if (!references.has(evidence.pmid)) {
+        references.set(
+          evidence.pmid,
+          `PMID: ${evidence.pmid} - ${gene} ${definition.starAllele} ${evidence.study_type} (n=${evidence.n})`
+        );
+      }
+    }
+  }
+
+  return [...references.values()];
+}
+
+// =============================================================================
+// ANALYZER CONSISTENCY
+// =============================================================================
+
+const mismatches = new Map<string, KBMismatch>();
+
+function recordMismatch(mismatch: KBMismatch): void {
+  mismatches.set(`${mismatch.gene}|${mismatch.allele}|${mismatch.rsid ?? ''}|${mismatch.field}`, mismatch);
+}
+
+/**
+ * Resolve an analyzer's allele activity table against the KB
+ *
+ * KB activity values override the analyzer's defaults so a KB update changes results without
+ * code edits. Alleles the KB does not score keep the analyzer's value. Every override is
+ * recorded as a mismatch.
+ *
+ * @param gene - Gene symbol as used in the KB
+ * @param defaults - Analyzer's CPIC activity table (star allele → activity value)
+ * @returns Resolved activity table
+ */
+export function resolveAlleleActivity(
+  gene: string,
+  defaults: Record<string, number>
+): Record<string, number> {
+  const resolved: Record<string, number> = { ...defaults };
+
+  for (const [allele, analyzerValue] of Object.entries(defaults)) {
+    const kbValue = getKBActivityScore(gene, allele);
+
+    if (kbValue !== null && kbValue !== analyzerValue) {
+      resolved[allele] = kbValue;
+      recordMismatch({
+        gene,
+        allele,
+        rsid: getKBAllele(gene, allele)?.rsid,
+        field: 'activityScore',
+        kbValue,
+        analyzerValue,
+        resolution: 'kb'
+      });
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Check an analyzer's rsID → star allele definitions against the KB
+ *
+ * Allele definitions drive the analyzer's calling logic, so the analyzer's naming is kept and
+ * disagreements are only recorded.
+ *
+ * @param gene - Gene symbol as used in the KB
+ * @param definitions - rsID and the star allele the analyzer assigns to its variant allele
+ */
+export function auditAlleleDefinitions(
+  gene: string,
+  definitions: Array<{ rsid: string; allele: string }>
+): void {
+  for (const { rsid, allele } of definitions) {
+    const variant = getKBVariant(rsid);
+    if (!variant) continue;
+
+    const definition = toAlleleDefinition(variant);
+    if (definition && definition.starAllele !== allele) {
+      recordMismatch({
+        gene,
+        allele,
+        rsid,
+        field: 'starAllele',
+        kbValue: definition.starAllele,
+        analyzerValue: allele,
+        resolution: 'analyzer'
+      });
+    }
+  }
+}
+
+/**
+ * All KB / analyzer disagreements recorded so far
+ */
+export function getKBMismatches(): KBMismatch[] {
+  return [...mismatches.values()];
+}
@@ -0,0 +1,272 @@
+/**
+ * PHENOCONVERSION
+ * Drug-drug-gene interactions: CYP inhibitors and inducers in the current medication list turn
+ * the genetic metabolizer phenotype into an effective phenotype
+ *
+ * Method:
+ * - Bundled table of strong, moderate and weak inhibitors and inducers for CYP2D6, CYP2C19,
+ *   CYP2C9, CYP3A4 and CYP2B6 (FDA clinical index drugs and examples)
+ * - Activity-score genes (CYP2D6, CYP2C9): a strong inhibitor multiplies the activity score by
+ *   0, a moderate inhibitor by 0.5; the analyzer's own cut-offs give the effective phenotype
+ * - Other genes: a strong inhibitor gives a poor metabolizer, a moderate inhibitor one class lower
+ * - A strong inducer gives one class higher (up to the highest class the gene defines), only when
+ *   no moderate or strong inhibitor of the same enzyme is taken
+ * - Weak inhibitors and inducers are listed but do not change the phenotype
+ * - A strong inhibitor gives a poor metabolizer even when the genotype is unknown
+ * - Medications match by generic or brand name anywhere in the entry ("Prozac 20 mg daily"),
+ *   through the drug dictionary
+ * - CYP1A2 is left to the smoking-status input: its genotype sets inducibility, not a
+ *   metabolizer phenotype
+ *
+ * References: FDA Drug Development and Drug Interactions - Table of Substrates, Inhibitors and
+ * Inducers; CPIC/DPWG CYP2D6 genotype-to-phenotype consensus (Caudle 2020, PMID 31647186)
+ *
+ * Version: 1.0.0
+ */
+
+import { resolveDrugNames } from './drug-dictionary';
+
+export type PhenoconversionEnzyme = 'CYP2D6' | 'CYP2C19' | 'CYP2C9' | 'CYP3A4' | 'CYP2B6';
+
+export type InteractionStrength = 'strong' | 'moderate' | 'weak';
+
+export interface MedicationInteraction {
+  medication: string;         // Entry as given in the medication list
+  drug: string;               // Matched generic name
+  enzyme: PhenoconversionEnzyme;
+  effect: 'inhibitor' | 'inducer';
+  strength: InteractionStrength;
+}
+
+export interface Phenoconversion {
+  enzyme: PhenoconversionEnzyme;
+  geneticPhenotype: string;
+  effectivePhenotype: string;      // Drives the drug recommendations and safety alerts
+  geneticActivityScore?: number;
+  effectiveActivityScore?: number;
+  converted: boolean;              // Effective phenotype differs from the genetic one
+  interactions: MedicationInteraction[];
+  explanation: string;
+}
+
+type ModulatorTable = Record<
+  PhenoconversionEnzyme,
+  Record<MedicationInteraction['effect'], Partial<Record<InteractionStrength, string[]>>>
+>;
+
+/** Inhibitors and inducers by enzyme and strength (FDA DDI table, clinical index drugs and examples) */
+const CYP_MODULATORS: ModulatorTable = {
+  CYP2D6: {
+    inhibitor: {
+      strong: ['bupropion', 'fluoxetine', 'paroxetine', 'quinidine', 'terbinafine'],
+      moderate: ['abiraterone', 'cinacalcet', 'duloxetine', 'mirabegron'],
+      weak: ['celecoxib', 'cimetidine', 'clobazam', 'diphenhydramine', 'escitalopram', 'ritonavir', 'sertraline', 'verapamil']
+    },
+    inducer: {} // Not inducible
+  },
+  CYP2C19: {
+    inhibitor: {
+      strong: ['fluconazole', 'fluoxetine', 'fluvoxamine', 'ticlopidine'],
+      moderate: ['esomeprazole', 'felbamate', 'moclobemide', 'omeprazole'],
+      weak: ['cimetidine', 'ketoconazole']
+    },
+    inducer: {
+      strong: ['rifampin'],
+      moderate: ['apalutamide', 'efavirenz', 'enzalutamide', 'phenytoin']
+    }
+  },
+  CYP2C9: {
+    inhibitor: {
+      moderate: ['amiodarone', 'felbamate', 'fluconazole', 'miconazole'],
+      weak: ['disulfiram', 'fluvastatin', 'fluvoxamine', 'voriconazole']
+    },
+    inducer: {
+      moderate: ['apalutamide', 'enzalutamide', 'rifampin']
+    }
+  },
+  CYP3A4: {
+    inhibitor: {
+      strong: ['clarithromycin', 'cobicistat', 'itraconazole', 'ketoconazole', 'nefazodone', 'posaconazole', 'ritonavir', 'voriconazole'],
+      moderate: ['aprepitant', 'ciprofloxacin', 'diltiazem', 'erythromycin', 'fluconazole', 'grapefruit', 'verapamil'],
+      weak: ['cimetidine', 'fluvoxamine', 'ranolazine']
+    },
+    inducer: {
+      strong: ['apalutamide', 'carbamazepine', 'enzalutamide', 'phenytoin', 'rifampin', "st john's wort"],
+      moderate: ['bosentan', 'efavirenz', 'phenobarbital', 'primidone'],
+      weak: ['modafinil']
+    }
+  },
+  CYP2B6: {
+    inhibitor: {
+      weak: ['clopidogrel', 'ticlopidine', 'voriconazole']
+    },
+    inducer: {
+      moderate: ['carbamazepine', 'efavirenz', 'rifampin'],
+      weak: ['nevirapine', 'ritonavir']
+    }
+  }
+};
+
+/** Metabolizer classes from lowest to highest activity */
+const PHENOTYPE_LADDER: Record<PhenoconversionEnzyme, string[]> = {
+  CYP2D6: ['Poor Metabolizer', 'Intermediate Metabolizer', 'Normal Metabolizer', 'Ultrarapid Metabolizer'],
+  CYP2C19: ['Poor Metabolizer', 'Intermediate Metabolizer', 'Normal Metabolizer', 'Rapid Metabolizer', 'Ultrarapid Metabolizer'],
+  CYP2C9: ['Poor Metabolizer', 'Intermediate Metabolizer', 'Normal Metabolizer'],
+  CYP3A4: ['Poor Metabolizer', 'Intermediate Metabolizer', 'Normal Metabolizer'],
+  CYP2B6: ['Poor Metabolizer', 'Intermediate Metabolizer', 'Normal Metabolizer', 'Rapid Metabolizer', 'Ultrarapid Metabolizer']
+};
+
+const STRENGTH_RANK: Record<InteractionStrength, number> = { weak: 0, moderate: 1, strong: 2 };
+
+/** Activity-score multiplier per inhibitor strength */
+const INHIBITOR_MULTIPLIER: Record<InteractionStrength, number> = { strong: 0, moderate: 0.5, weak: 1 };
+
+/**
+ * Inhibitors and inducers in a medication list, strongest first
+ *
+ * @param medications - Current medications as entered (generic or brand names, optional dose text)
+ * @param enzyme - Limit to one enzyme
+ */
+export function findCYPModulators(
+  medications: string[],
+  enzyme?: PhenoconversionEnzyme
+): MedicationInteraction[] {
+  const enzymes = enzyme ? [enzyme] : (Object.keys(CYP_MODULATORS) as PhenoconversionEnzyme[]);
+  const resolved = medications.map(medication => ({ medication, drugs: resolveDrugNames(medication) }));
+  const interactions: MedicationInteraction[] = [];
+
+  for (const e of enzymes) {
+    for (const effect of ['inhibitor', 'inducer'] as const) {
+      for (const [strength, drugs] of Object.entries(CYP_MODULATORS[e][effect]) as Array<[InteractionStrength, string[]]>) {
+        for (const drug of drugs) {
+          const match = resolved.find(r => r.drugs.includes(drug));
+          if (match) {
+            interactions.push({ medication: match.medication, drug, enzyme: e, effect, strength });
+          }
+        }
+      }
+    }
+  }
+
+  return interactions.sort((a, b) => STRENGTH_RANK[b.strength] - STRENGTH_RANK[a.strength]);
+}
+
+function strongest(
+  interactions: MedicationInteraction[],
+  effect: MedicationInteraction['effect']
+): InteractionStrength | null {
+  const matching = interactions.filter(i => i.effect === effect);
+  return matching.length > 0 ? matching[0].strength : null;
+}
+
+function describeInteractions(interactions: MedicationInteraction[]): string {
+  return interactions.map(i => `${i.drug} (${i.strength} ${i.effect})`).join(', ');
+}
+
+/**
+ * Genetic phenotype → effective phenotype for the current medications
+ *
+ * @param enzyme - Enzyme the phenotype belongs to
+ * @param geneticPhenotype - Phenotype called from the genotypes
+ * @param medications - Current medications
+ * @param activity - Activity score and the analyzer's score → phenotype cut-offs (CYP2D6, CYP2C9)
+ */
+export function calculatePhenoconversion(
+  enzyme: PhenoconversionEnzyme,
+  geneticPhenotype: string,
+  medications: string[] = [],
+  activity?: { score: number; toPhenotype: (score: number) => string }
+): Phenoconversion {
+  const interactions = findCYPModulators(medications, enzyme);
+  const inhibitor = strongest(interactions, 'inhibitor');
+  const inducer = strongest(interactions, 'inducer');
+  const ladder = PHENOTYPE_LADDER[enzyme];
+  const rung = ladder.indexOf(geneticPhenotype);
+
+  let effectivePhenotype = geneticPhenotype;
+  let effectiveActivityScore = activity?.score;
+
+  if (inhibitor === 'strong' || (inhibitor === 'moderate' && rung >= 0)) {
+    if (activity) {
+      effectiveActivityScore = rung >= 0 ? activity.score * INHIBITOR_MULTIPLIER[inhibitor] : 0;
+      effectivePhenotype = activity.toPhenotype(effectiveActivityScore);
+    } else {
+      effectivePhenotype = inhibitor === 'strong' ? ladder[0] : ladder[Math.max(rung - 1, 0)];
+    }
+  } else if (inducer === 'strong' && rung >= 0) {
+    effectivePhenotype = ladder[Math.min(rung + 1, ladder.length - 1)];
+  }
+
+  const converted = effectivePhenotype !== geneticPhenotype;
+  let explanation: string;
+  if (interactions.length === 0) {
+    explanation = `No ${enzyme} inhibitors or inducers in the medication list`;
+  } else if (converted) {
+    explanation = `${describeInteractions(interactions)}: effective ${effectivePhenotype} (genetic ${geneticPhenotype})`;
+  } else {
+    explanation = `${describeInteractions(interactions)}: ${geneticPhenotype} unchanged`;
+  }
+
+  return {
+    enzyme,
+    geneticPhenotype,
+    effectivePhenotype,
+    geneticActivityScore: activity?.score,
+    effectiveActivityScore,
+    converted,
+    interactions,
+    explanation
+  };
+}
+
+/**
+ * Diplotype with the effective phenotype (and activity score) in place of the genetic one
+ */
+export function withEffectivePhenotype<T extends { phenotype: string }>(diplotype: T, phenoconversion: Phenoconversion): T {
+  if (!phenoconversion.converted) return diplotype;
+  return {
+    ...diplotype,
+    phenotype: phenoconversion.effectivePhenotype as T['phenotype'],
+    ...(phenoconversion.effectiveActivityScore !== undefined ? { activityScore: phenoconversion.effectiveActivityScore } : {})
+  };
+}
+
+/**
+ * Effective phenotype, with the genetic one when a medication converts it
+ */
+export function describeEffectivePhenotype(phenoconversion: Phenoconversion): string {
+  return phenoconversion.converted
+    ? `${phenoconversion.effectivePhenotype} (genetic: ${phenoconversion.geneticPhenotype})`
+    : phenoconversion.geneticPhenotype;
+}
+
+/**
+ * Safety alerts for a phenoconversion (empty without moderate or strong interactions)
+ */
+export function generatePhenoconversionAlerts(phenoconversion: Phenoconversion): string[] {
+  const { enzyme, interactions, converted, geneticPhenotype, effectivePhenotype } = phenoconversion;
+  const relevant = interactions.filter(i => i.strength !== 'weak');
+  if (relevant.length === 0) return [];
+
+  if (converted) {
+    return [`⚠️ PHENOCONVERSION ${enzyme}: ${describeInteractions(relevant)} - effective ${effectivePhenotype} (genetic ${geneticPhenotype}); drug guidance uses the effective phenotype`];
+  }
+  return [`💡 ${enzyme}: ${describeInteractions(relevant)} - ${geneticPhenotype} unchanged; monitor response to ${enzyme} substrates`];
+}
+
+/**
+ * Clinical summary section (empty when no interacting medications were found)
+ */
+export function formatPhenoconversionSummary(phenoconversion: Phenoconversion): string {
+  if (phenoconversion.interactions.length === 0) return '';
+
+  let summary = `\nMEDICATION INTERACTIONS (${phenoconversion.enzyme}):\n`;
+  for (const i of phenoconversion.interactions) {
+    summary += `• ${i.medication}: ${i.strength} ${i.enzyme} ${i.effect}\n`;
+  }
+  summary += phenoconversion.converted
+    ? `Effective Phenotype: ${phenoconversion.effectivePhenotype} (genetic ${phenoconversion.geneticPhenotype}) - drug guidance uses the effective phenotype\n`
+    : `Effective Phenotype: ${phenoconversion.effectivePhenotype} (unchanged)\n`;
+
+  return summary;
+}
@@ -0,0 +1,291 @@
+/**
+ * STAR ALLELE ENGINE
+ * Table-driven diplotype calling shared by the gene analyzers
+ *
+ * Method:
+ * - Each gene supplies an allele definition table: the variant allele every star allele
+ *   carries at each position on the GRCh37 forward strand ('D' for the deletion allele of an
+ *   indel locus). The reference allele is the entry without variants
+ * - Calls are read into a GenotypeSet (strand-normalized bases, I/D calls for indels) and
+ *   reduced to copies of each variant allele per position
+ * - Every allele pair predicts a number of variant copies per position; pairs are scored by
+ *   their mismatches against the observed copies and the pairs with the fewest are kept
+ *   (zero when the data are consistent)
+ * - Pair priors are Hardy-Weinberg products of the haplotype frequencies when the caller
+ *   supplies them, uniform otherwise. Ties keep definition order, so tables list the more
+ *   severe alleles first
+ * - An allele is only paired when its core positions were genotyped. Alleles with an untested
+ *   core position that the tested positions do not exclude are reported as unresolved
+ * - Phased heterozygous calls (VCF 'a|b') in one phase set must sit on the two haplotypes of
+ *   the pair in a single orientation; a pair that cannot place them counts one mismatch per
+ *   phase set, so phase rules out cis/trans alternatives that unphased data leave open
+ *
+ * Required positions, confidence and worst-case selection stay with each analyzer.
+ *
+ * Version: 1.0.0
+ */
+
+import { complementGenotype, extractIndelGenotype } from '../utils/genotype-utils';
+import { extractStrandNormalized } from './strand-normalization';
+
+export type AlleleFunction = 'Normal' | 'Increased' | 'Decreased' | 'No function' | 'Unknown';
+
+export interface AlleleDefinition {
+  allele: string;
+  variants: Record<string, string>; // rsID → variant allele carried by the haplotype
+  core?: string[];                  // Positions that must be genotyped (default: every variant position)
+  function?: AlleleFunction;
+  activityScore?: number;
+  share?: number;                   // Fraction of the allele's frequency carried by this form (default 1)
+}
+
+/**
+ * Star alleles of one gene. An allele may have several forms (entries with the same name);
+ * they are merged into one diplotype after calling.
+ */
+export interface AlleleDefinitionTable {
+  gene: string;
+  alleles: AlleleDefinition[];
+}
+
+/** Normalized calls at the table positions (rsID → call); untested positions are absent */
+export type GenotypeSet = Map<string, string>;
+
+/** Phased heterozygous calls at the table positions: alleles in haplotype order, by phase set */
+export type HaplotypePhase = Map<string, { haplotypes: [string, string]; phaseSet: string }>;
+
+export interface CandidateDiplotype {
+  alleles: [string, string];
+  diplotype: string;
+  posterior: number;
+  activityScore?: number; // Sum of the allele activity scores, when both are defined
+}
+
+export interface StarAlleleCall {
+  gene: string;
+  candidates: CandidateDiplotype[]; // Most probable first
+  consistent: boolean;              // False when no pair explains every call (closest pairs are kept)
+  phaseAmbiguous: boolean;          // More than one candidate diplotype
+  matchedDefinitions: string[];     // Non-reference alleles in any candidate, in definition order
+  observedVariants: string[];       // Positions carrying at least one variant allele
+  testedPositions: string[];
+  missingPositions: string[];
+  unresolvedAlleles: string[];      // Alleles that could not be tested and are not ruled out
+}
+
+export interface DiplotypeCallOptions {
+  frequency?: (definition: AlleleDefinition) => number; // Haplotype frequency of an allele form
+  phase?: HaplotypePhase;                               // Phased calls from readHaplotypePhase
+}
+
+const INDEL_ALLELES = new Set(['D', 'I']);
+
+/**
+ * Every position of a table, in definition order
+ */
+export function getTablePositions(table: AlleleDefinitionTable): string[] {
+  return [...new Set(table.alleles.flatMap(a => Object.keys(a.variants)))];
+}
+
+/**
+ * Read the table positions from raw genotypes: indel loci as sorted I/D calls, all other
+ * positions strand-normalized against the knowledge bases
+ */
+export function buildGenotypeSet(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  table: AlleleDefinitionTable
+): GenotypeSet {
+  const indels = new Set(
+    table.alleles.flatMap(a => Object.entries(a.variants))
+      .filter(([, allele]) => INDEL_ALLELES.has(allele))
+      .map(([rsid]) => rsid)
+  );
+
+  const set: GenotypeSet = new Map();
+  for (const rsid of getTablePositions(table)) {
+    const call = indels.has(rsid)
+      ? extractIndelGenotype(genotypes, rsid)
+      : extractStrandNormalized(genotypes, rsid);
+    if (call) set.set(rsid, call);
+  }
+  return set;
+}
+
+/**
+ * Haplotype order of the phased heterozygous calls in a GenotypeSet
+ *
+ * Phased rows (VCF GT 'a|b') list their alleles in haplotype order; the first allele is
+ * matched to the normalized call directly or on the opposite strand. Rows without a phase
+ * set (PS) share one set, as in the VCF specification.
+ */
+export function readHaplotypePhase(
+  genotypes: Array<{ rsid: string; genotype: string; phased?: boolean; phaseSet?: string }>,
+  genotypeSet: GenotypeSet
+): HaplotypePhase {
+  const phase: HaplotypePhase = new Map();
+
+  for (const [rsid, call] of genotypeSet) {
+    if (call.length !== 2 || call[0] === call[1]) continue;
+    const row = genotypes.find(g => g.rsid === rsid && g.phased);
+    if (!row) continue;
+
+    const reported = row.genotype.trim().toUpperCase()[0];
+    const first = call.includes(reported) ? reported : complementGenotype(reported);
+    if (!call.includes(first)) continue;
+
+    const second = call[0] === first ? call[1] : call[0];
+    phase.set(rsid, { haplotypes: [first, second], phaseSet: row.phaseSet ?? '' });
+  }
+
+  return phase;
+}
+
+/**
+ * Phase sets a pair cannot place on its two haplotypes in one orientation
+ */
+function countPhaseConflicts(
+  a: AlleleDefinition,
+  b: AlleleDefinition,
+  phase: HaplotypePhase,
+  variantAlleles: Map<string, Set<string>>
+): number {
+  // Whether a haplotype carries the observed allele: its own variant, or the reference allele
+  // where it defines none
+  const carries = (haplotype: AlleleDefinition, rsid: string, allele: string) =>
+    haplotype.variants[rsid] === allele ||
+    (haplotype.variants[rsid] === undefined && !variantAlleles.get(rsid)?.has(allele));
+
+  const sets = new Map<string, Array<[string, [string, string]]>>();
+  for (const [rsid, { haplotypes, phaseSet }] of phase) {
+    sets.set(phaseSet, [...(sets.get(phaseSet) ?? []), [rsid, haplotypes]]);
+  }
+
+  let conflicts = 0;
+  for (const calls of sets.values()) {
+    if (calls.length < 2) continue;
+    const fits = (first: AlleleDefinition, second: AlleleDefinition) =>
+      calls.every(([rsid, [h1, h2]]) => carries(first, rsid, h1) && carries(second, rsid, h2));
+    if (!fits(a, b) && !fits(b, a)) conflicts++;
+  }
+  return conflicts;
+}
+
+function countCopies(call: string, allele: string): number {
+  return call.split('').filter(a => a === allele).length;
+}
+
+/**
+ * Call every diplotype consistent with the genotypes (and their phase, when supplied)
+ *
+ * @param table - Allele definitions, most severe alleles first
+ * @param genotypeSet - Calls from buildGenotypeSet
+ * @param options - Haplotype frequencies for the pair prior (uniform when omitted) and phased calls
+ * @throws Error if the table has no reference allele (an entry without variants)
+ */
+export function callDiplotypes(
+  table: AlleleDefinitionTable,
+  genotypeSet: GenotypeSet,
+  options: DiplotypeCallOptions = {}
+): StarAlleleCall {
+  if (!table.alleles.some(a => Object.keys(a.variants).length === 0)) {
+    throw new Error(`${table.gene} allele table has no reference allele`);
+  }
+
+  const positions = getTablePositions(table);
+  const tested = positions.filter(rsid => genotypeSet.has(rsid));
+
+  // Variant alleles defined at each tested position, with their observed copies
+  const sites: Array<{ rsid: string; allele: string; copies: number }> = [];
+  for (const rsid of tested) {
+    const alleles = new Set(table.alleles.map(a => a.variants[rsid]).filter(Boolean));
+    for (const allele of alleles) {
+      sites.push({ rsid, allele, copies: countCopies(genotypeSet.get(rsid)!, allele) });
+    }
+  }
+
+  const variantAlleles = new Map<string, Set<string>>();
+  for (const site of sites) {
+    variantAlleles.set(site.rsid, (variantAlleles.get(site.rsid) ?? new Set()).add(site.allele));
+  }
+
+  const isCallable = (a: AlleleDefinition) => (a.core ?? Object.keys(a.variants)).every(rsid => genotypeSet.has(rsid));
+  const callable = table.alleles.filter(isCallable);
+
+  const scored: Array<{ pair: [AlleleDefinition, AlleleDefinition]; mismatches: number; prior: number }> = [];
+  for (let i = 0; i < callable.length; i++) {
+    for (let j = i; j < callable.length; j++) {
+      const [a, b] = [callable[i], callable[j]];
+
+      let mismatches = 0;
+      for (const site of sites) {
+        const expected = (a.variants[site.rsid] === site.allele ? 1 : 0) + (b.variants[site.rsid] === site.allele ? 1 : 0);
+        mismatches += Math.abs(expected - site.copies);
+      }
+      if (options.phase && options.phase.size > 1) {
+        mismatches += countPhaseConflicts(a, b, options.phase, variantAlleles);
+      }
+
+      const prior = options.frequency
+        ? options.frequency(a) * (a.share ?? 1) * options.frequency(b) * (b.share ?? 1) * (i === j ? 1 : 2)
+        : 1;
+      scored.push({ pair: [a, b], mismatches, prior });
+    }
+  }
+
+  const fewest = Math.min(...scored.map(s => s.mismatches));
+  const kept = scored.filter(s => s.mismatches === fewest);
+  const total = kept.reduce((sum, s) => sum + s.prior, 0);
+
+  // Forms of the same allele collapse into one diplotype
+  const merged = new Map<string, CandidateDiplotype>();
+  for (const s of kept) {
+    const [a, b] = s.pair;
+    const diplotype = `${a.allele}/${b.allele}`;
+    const candidate = merged.get(diplotype) ?? {
+      alleles: [a.allele, b.allele],
+      diplotype,
+      posterior: 0,
+      activityScore: a.activityScore !== undefined && b.activityScore !== undefined
+        ? a.activityScore + b.activityScore
+        : undefined
+    };
+    candidate.posterior += total > 0 ? s.prior / total : 1 / kept.length;
+    merged.set(diplotype, candidate);
+  }
+
+  const candidates = [...merged.values()].sort((x, y) => y.posterior - x.posterior);
+  const inCandidates = new Set(candidates.flatMap(c => c.alleles));
+
+  // Untested alleles whose tested positions all carry their variant allele
+  const unresolved = table.alleles.filter(a =>
+    !isCallable(a) &&
+    Object.entries(a.variants).every(([rsid, allele]) =>
+      !genotypeSet.has(rsid) || countCopies(genotypeSet.get(rsid)!, allele) > 0
+    )
+  );
+
+  return {
+    gene: table.gene,
+    candidates,
+    consistent: fewest === 0,
+    phaseAmbiguous: candidates.length > 1,
+    matchedDefinitions: [...new Set(
+      table.alleles
+        .filter(a => Object.keys(a.variants).length > 0 && inCandidates.has(a.allele))
+        .map(a => a.allele)
+    )],
+    observedVariants: [...new Set(sites.filter(s => s.copies > 0).map(s => s.rsid))],
+    testedPositions: tested,
+    missingPositions: positions.filter(rsid => !genotypeSet.has(rsid)),
+    unresolvedAlleles: [...new Set(unresolved.map(a => a.allele))].filter(a => !inCandidates.has(a))
+  };
+}
+
+/**
+ * Candidate with the lowest activity score (worst case for dosing); ties keep posterior order
+ */
+export function lowestActivityCandidate(call: StarAlleleCall): CandidateDiplotype {
+  return call.candidates.reduce((worst, c) =>
+    (c.activityScore ?? Infinity) < (worst.activityScore ?? Infinity) ? c : worst
+  );
+}
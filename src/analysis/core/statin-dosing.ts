@@ -0,0 +1,254 @@
+/**
+ * STATIN DOSING
+ * CPIC 2022 statin recommendations from SLCO1B1, ABCG2 and CYP2C9, one entry per statin
+ *
+ * Method:
+ * - SLCO1B1 function (from the SLCO1B1 analyzer) applies to all seven statins; ABCG2
+ *   rs2231142 (Q141K) to rosuvastatin only; CYP2C9 to fluvastatin only
+ * - Rosuvastatin takes the lower of its SLCO1B1 and ABCG2 ceilings
+ * - Fluvastatin is avoided when reduced SLCO1B1 function and a reduced CYP2C9 metabolizer
+ *   phenotype occur together
+ * - Ceilings are starting doses in mg/day (0 = avoid); alternatives are the statins with no
+ *   genotype-based restriction for the same patient, most potent first
+ * - Genes that were not genotyped add no restriction, except SLCO1B1 where simvastatin and
+ *   lovastatin keep a conservative 40 mg ceiling
+ *
+ * References: CPIC SLCO1B1, ABCG2 and CYP2C9 and statin-associated musculoskeletal symptoms
+ * 2022 (PMID 35152405); CPIC SLCO1B1 and simvastatin 2014 (PMID 24918167)
+ *
+ * Version: 1.0.0
+ */
+
+import { extractStrandNormalized } from './strand-normalization';
+
+export type StatinName =
+  | 'Simvastatin'
+  | 'Atorvastatin'
+  | 'Rosuvastatin'
+  | 'Pravastatin'
+  | 'Pitavastatin'
+  | 'Lovastatin'
+  | 'Fluvastatin';
+
+export type TransporterFunction = 'Normal Function' | 'Decreased Function' | 'Poor Function' | 'Unknown';
+
+export interface ABCG2Genotype {
+  rs2231142: string; // Forward strand G>T (T = Q141K)
+  function: TransporterFunction;
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface StatinGuidance {
+  statin: StatinName;
+  genes: string[];                // Genes behind the recommendation
+  action: 'Standard' | 'Limit Dose' | 'Avoid';
+  myopathyRisk: 'Normal' | 'Moderately Increased' | 'High' | 'Very High';
+  doseCeiling: number | null;     // Starting dose ceiling in mg/day (0 = avoid, null = none)
+  labelMaxDose: number;           // mg/day
+  recommendation: string;
+  doseAdjustment: string;
+  alternatives: string[];
+  monitoring: string;
+  cpicClassification: 'Strong' | 'Moderate' | 'Optional' | 'No recommendation';
+  cpicGuideline: boolean;
+}
+
+/** Labeled maximum daily doses; statins listed from most to least potent */
+const STATINS: Array<{ statin: StatinName; labelMaxDose: number }> = [
+  { statin: 'Rosuvastatin', labelMaxDose: 40 },
+  { statin: 'Atorvastatin', labelMaxDose: 80 },
+  { statin: 'Pitavastatin', labelMaxDose: 4 },
+  { statin: 'Simvastatin', labelMaxDose: 40 }, // 80 mg only if already tolerated for 12 months
+  { statin: 'Pravastatin', labelMaxDose: 80 },
+  { statin: 'Lovastatin', labelMaxDose: 80 },
+  { statin: 'Fluvastatin', labelMaxDose: 80 }
+];
+
+type GuidanceRule = Pick<StatinGuidance, 'action' | 'myopathyRisk' | 'doseCeiling' | 'recommendation' | 'cpicClassification'>;
+
+const STANDARD: GuidanceRule = {
+  action: 'Standard',
+  myopathyRisk: 'Normal',
+  doseCeiling: null,
+  recommendation: 'Prescribe the desired starting dose and adjust per disease-specific guidelines',
+  cpicClassification: 'Strong'
+};
+
+/** Desired starting dose, with increased myopathy risk above a dose */
+function aware(above: number, classification: GuidanceRule['cpicClassification'] = 'Moderate'): GuidanceRule {
+  return {
+    action: 'Standard',
+    myopathyRisk: 'Moderately Increased',
+    doseCeiling: null,
+    recommendation: `Prescribe the desired starting dose; myopathy risk is increased especially above ${above} mg/day`,
+    cpicClassification: classification
+  };
+}
+
+function limit(ceiling: number, risk: StatinGuidance['myopathyRisk'], classification: GuidanceRule['cpicClassification'] = 'Moderate'): GuidanceRule {
+  return {
+    action: 'Limit Dose',
+    myopathyRisk: risk,
+    doseCeiling: ceiling,
+    recommendation: `Start at ≤${ceiling} mg/day; if a higher dose is needed for the LDL-C goal, use an alternative statin or combination therapy`,
+    cpicClassification: classification
+  };
+}
+
+function avoid(reason: string, classification: GuidanceRule['cpicClassification'] = 'Strong'): GuidanceRule {
+  return {
+    action: 'Avoid',
+    myopathyRisk: 'Very High',
+    doseCeiling: 0,
+    recommendation: `Prescribe an alternative statin depending on the desired potency (${reason})`,
+    cpicClassification: classification
+  };
+}
+
+/** SLCO1B1 rules per statin (CPIC 2022 Table 2) */
+function slco1b1Rule(statin: StatinName, slco1b1: TransporterFunction): GuidanceRule {
+  if (slco1b1 === 'Normal Function') return STANDARD;
+
+  if (slco1b1 === 'Unknown') {
+    return statin === 'Simvastatin' || statin === 'Lovastatin'
+      ? {
+          ...limit(40, 'Moderately Increased'),
+          recommendation: 'SLCO1B1 not genotyped - use ≤40 mg/day until function is known',
+          cpicClassification: 'No recommendation'
+        }
+      : { ...STANDARD, cpicClassification: 'No recommendation' };
+  }
+
+  const poor = slco1b1 === 'Poor Function';
+  switch (statin) {
+    case 'Simvastatin':
+      return poor
+        ? avoid('poor SLCO1B1 function')
+        : {
+            ...limit(20, 'High', 'Strong'),
+            recommendation: 'Prescribe an alternative statin depending on the desired potency; if simvastatin is warranted, keep the dose below 20 mg/day'
+          };
+    case 'Lovastatin':
+      return poor
+        ? avoid('poor SLCO1B1 function')
+        : {
+            ...limit(20, 'High', 'Strong'),
+            recommendation: 'Prescribe an alternative statin depending on the desired potency; if lovastatin is warranted, limit to ≤20 mg/day'
+          };
+    case 'Atorvastatin':
+      return poor ? limit(20, 'High') : limit(40, 'Moderately Increased');
+    case 'Rosuvastatin':
+      return poor ? limit(10, 'High') : limit(20, 'Moderately Increased');
+    case 'Pravastatin':
+      return poor ? limit(40, 'Moderately Increased') : aware(40);
+    case 'Pitavastatin':
+      return poor ? limit(1, 'Moderately Increased') : aware(1);
+    case 'Fluvastatin':
+      return poor ? limit(40, 'Moderately Increased') : aware(40);
+  }
+}
+
+/** ABCG2 rule for rosuvastatin */
+function abcg2Rule(abcg2: TransporterFunction): GuidanceRule {
+  if (abcg2 === 'Poor Function') return limit(10, 'Moderately Increased');
+  return STANDARD;
+}
+
+/** CYP2C9 rule for fluvastatin */
+function cyp2c9Rule(phenotype: string | null): GuidanceRule {
+  if (phenotype === 'Poor Metabolizer') return limit(20, 'High');
+  if (phenotype === 'Intermediate Metabolizer') return aware(40);
+  return STANDARD;
+}
+
+const ACTION_RANK = { 'Standard': 0, 'Limit Dose': 1, 'Avoid': 2 };
+const RISK_RANK = { 'Normal': 0, 'Moderately Increased': 1, 'High': 2, 'Very High': 3 };
+
+/**
+ * Keep the most restrictive of several gene rules (lowest ceiling, highest risk)
+ */
+function combineRules(rules: Array<GuidanceRule & { gene: string }>): GuidanceRule & { genes: string[] } {
+  const restrictive = rules.filter(r => r.action !== 'Standard' || r.myopathyRisk !== 'Normal');
+  if (restrictive.length === 0) return { ...rules[0], genes: [] };
+
+  const worst = restrictive.reduce((a, b) => {
+    if (ACTION_RANK[b.action] !== ACTION_RANK[a.action]) return ACTION_RANK[b.action] > ACTION_RANK[a.action] ? b : a;
+    if ((b.doseCeiling ?? Infinity) !== (a.doseCeiling ?? Infinity)) return (b.doseCeiling ?? Infinity) < (a.doseCeiling ?? Infinity) ? b : a;
+    return RISK_RANK[b.myopathyRisk] > RISK_RANK[a.myopathyRisk] ? b : a;
+  });
+
+  return {
+    ...worst,
+    myopathyRisk: restrictive.reduce((risk, r) => RISK_RANK[r.myopathyRisk] > RISK_RANK[risk] ? r.myopathyRisk : risk, worst.myopathyRisk),
+    genes: [...new Set(restrictive.map(r => r.gene))]
+  };
+}
+
+/**
+ * Determine ABCG2 rs2231142 (Q141K) function
+ */
+export function determineABCG2Genotype(
+  genotypes: Array<{ rsid: string; genotype: string }>
+): ABCG2Genotype {
+  const call = extractStrandNormalized(genotypes, 'rs2231142');
+  if (!call) return { rs2231142: 'Unknown', function: 'Unknown', confidence: 'low' };
+
+  const copies = call.split('').filter(a => a === 'T').length;
+  return {
+    rs2231142: call,
+    function: copies === 2 ? 'Poor Function' : copies === 1 ? 'Decreased Function' : 'Normal Function',
+    confidence: 'high'
+  };
+}
+
+/**
+ * Per-statin guidance for one patient
+ *
+ * @param slco1b1 - SLCO1B1 function phenotype
+ * @param abcg2 - ABCG2 function (rosuvastatin)
+ * @param cyp2c9Phenotype - CYP2C9 metabolizer phenotype (fluvastatin); null when not available
+ */
+export function calculateStatinGuidance(
+  slco1b1: TransporterFunction,
+  abcg2: TransporterFunction,
+  cyp2c9Phenotype: string | null
+): StatinGuidance[] {
+  const rules = STATINS.map(({ statin, labelMaxDose }) => {
+    const geneRules = [{ ...slco1b1Rule(statin, slco1b1), gene: 'SLCO1B1' }];
+    if (statin === 'Rosuvastatin') geneRules.push({ ...abcg2Rule(abcg2), gene: 'ABCG2' });
+    if (statin === 'Fluvastatin') geneRules.push({ ...cyp2c9Rule(cyp2c9Phenotype), gene: 'CYP2C9' });
+
+    const reducedSLCO1B1 = slco1b1 === 'Decreased Function' || slco1b1 === 'Poor Function';
+    const reducedCYP2C9 = cyp2c9Phenotype === 'Intermediate Metabolizer' || cyp2c9Phenotype === 'Poor Metabolizer';
+    const rule = statin === 'Fluvastatin' && reducedSLCO1B1 && reducedCYP2C9
+      ? { ...avoid('reduced SLCO1B1 function with reduced CYP2C9 metabolism', 'Moderate'), genes: ['SLCO1B1', 'CYP2C9'] }
+      : combineRules(geneRules);
+
+    return { statin, labelMaxDose, rule };
+  });
+
+  const unrestricted = rules
+    .filter(r => r.rule.action === 'Standard')
+    .map(r => r.statin);
+
+  return rules.map(({ statin, labelMaxDose, rule }) => ({
+    statin,
+    genes: rule.genes,
+    action: rule.action,
+    myopathyRisk: rule.myopathyRisk,
+    doseCeiling: rule.doseCeiling,
+    labelMaxDose,
+    recommendation: rule.recommendation,
+    doseAdjustment: rule.action === 'Avoid'
+      ? 'Avoid'
+      : rule.doseCeiling !== null
+        ? `MAX ${rule.doseCeiling} mg/day starting dose (label maximum ${labelMaxDose} mg/day)`
+        : `No genotype-based ceiling (label maximum ${labelMaxDose} mg/day)`,
+    alternatives: rule.action === 'Standard' ? [] : unrestricted.filter(s => s !== statin),
+    monitoring: rule.myopathyRisk === 'Normal'
+      ? 'Standard monitoring (CK if symptomatic)'
+      : 'Baseline CK; review muscle symptoms at each dose change',
+    cpicClassification: rule.cpicClassification,
+    cpicGuideline: true
+  }));
+}
@@ -0,0 +1,171 @@
+/**
+ * STRAND-AWARE GENOTYPE NORMALIZATION
+ * Checks raw genotype calls against the ref/alt alleles of the bundled knowledge bases
+ *
+ * Method:
+ * - Reference alleles come from kb-pgx-ultimate.json, then kb-nutrigenomics-complete-125.json
+ *   (GRCh37 forward strand); indel and repeat loci are passed through unchecked
+ * - Calls on the opposite strand (some AncestryDNA and VCF exports) are complemented
+ * - A/T and C/G SNPs cannot be strand-resolved and are used as reported, flagged ambiguous
+ * - Calls matching neither strand are invalid and dropped, so analyzers treat the position
+ *   as untested rather than misreading it
+ * - Every complemented, ambiguous or rejected call is recorded with its provenance
+ *
+ * Version: 1.0.0
+ */
+
+import { getPGxKnowledgeBase } from './pgx-knowledge-base';
+import { getNutrigenomicsKnowledgeBase } from './nutrigenomics-knowledge-base';
+import {
+  extractGenotype,
+  isSingleNucleotideVariant,
+  normalizeGenotype,
+  normalizeGenotypeStrand,
+  type ReferenceAlleles,
+  type StrandStatus
+} from '../utils/genotype-utils';
+
+export type ReferenceSource = 'pgx-kb' | 'nutrigenomics-kb';
+
+export interface KBReferenceAlleles extends ReferenceAlleles {
+  source: ReferenceSource;
+}
+
+export interface StrandProvenance {
+  rsid: string;
+  reportedGenotype: string;
+  genotype: string | null; // Genotype used for analysis (null = excluded)
+  status: StrandStatus;
+  ref: string;
+  alt: string;
+  source: ReferenceSource;
+  note: string;
+}
+
+export interface StrandNormalizationSummary {
+  checked: number;   // Calls with single-nucleotide KB alleles
+  forward: number;
+  reverse: number;
+  ambiguous: number;
+  invalid: number;
+  provenance: StrandProvenance[]; // Every complemented, ambiguous or rejected call
+}
+
+let cachedReferences: Map<string, KBReferenceAlleles> | null = null;
+
+function getReferenceIndex(): Map<string, KBReferenceAlleles> {
+  if (!cachedReferences) {
+    cachedReferences = new Map();
+
+    for (const v of getPGxKnowledgeBase().variants) {
+      if (!cachedReferences.has(v.rsid)) {
+        cachedReferences.set(v.rsid, { ref: v.ref, alt: v.alt, source: 'pgx-kb' });
+      }
+    }
+    for (const v of getNutrigenomicsKnowledgeBase().variants) {
+      if (!cachedReferences.has(v.rsid)) {
+        cachedReferences.set(v.rsid, { ref: v.ref, alt: v.alt, source: 'nutrigenomics-kb' });
+      }
+    }
+  }
+  return cachedReferences;
+}
+
+/**
+ * KB ref/alt for an rsID, or null when no KB defines it
+ */
+export function getReferenceAlleles(rsid: string): KBReferenceAlleles | null {
+  return getReferenceIndex().get(rsid) ?? null;
+}
+
+function provenanceNote(status: StrandStatus, alleles: ReferenceAlleles): string {
+  switch (status) {
+    case 'reverse':
+      return `Reported on the opposite strand - complemented to match ${alleles.ref}/${alleles.alt}`;
+    case 'ambiguous':
+      return `${alleles.ref}/${alleles.alt} SNP reads the same on both strands - used as reported`;
+    case 'invalid':
+      return `Alleles match neither strand of ${alleles.ref}/${alleles.alt} - excluded from analysis`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Strand-check one call against the KB
+ *
+ * @returns Provenance of the call, or null when the rsID has no single-nucleotide KB alleles
+ */
+export function normalizeToKBStrand(rsid: string, genotype: string): StrandProvenance | null {
+  const alleles = getReferenceAlleles(rsid);
+  if (!alleles || !isSingleNucleotideVariant(alleles)) return null;
+
+  const result = normalizeGenotypeStrand(genotype, alleles);
+
+  return {
+    rsid,
+    reportedGenotype: genotype,
+    genotype: result.normalized,
+    status: result.status,
+    ref: alleles.ref,
+    alt: alleles.alt,
+    source: alleles.source,
+    note: provenanceNote(result.status, alleles)
+  };
+}
+
+/**
+ * Extract a genotype and normalize it onto the KB strand (drop-in for extractAndNormalize)
+ *
+ * @param genotypes - Array of genotype objects
+ * @param rsid - RS identifier to find
+ * @returns Normalized genotype on the KB strand, or null (missing, no-call or invalid)
+ */
+export function extractStrandNormalized(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  rsid: string
+): string | null {
+  const raw = extractGenotype(genotypes, rsid);
+  if (raw === null) return null;
+
+  const checked = normalizeToKBStrand(rsid, raw);
+  return checked ? checked.genotype : normalizeGenotype(raw);
+}
+
+/**
+ * Normalize a whole rsID → genotype record onto the KB strand
+ *
+ * Reverse-strand calls are complemented, invalid calls removed; rsIDs outside the KBs and
+ * no-calls are passed through unchanged.
+ */
+export function normalizeGenotypeRecord(genotypes: Record<string, string>): {
+  genotypes: Record<string, string>;
+  summary: StrandNormalizationSummary;
+} {
+  const normalized: Record<string, string> = {};
+  const summary: StrandNormalizationSummary = {
+    checked: 0,
+    forward: 0,
+    reverse: 0,
+    ambiguous: 0,
+    invalid: 0,
+    provenance: []
+  };
+
+  for (const [rsid, genotype] of Object.entries(genotypes)) {
+    const checked = normalizeToKBStrand(rsid, genotype);
+
+    if (!checked || checked.status === 'no_call') {
+      normalized[rsid] = genotype;
+      continue;
+    }
+
+    summary.checked++;
+    summary[checked.status]++;
+
+    if (checked.genotype !== null) normalized[rsid] = checked.genotype;
+    if (checked.status !== 'forward') summary.provenance.push(checked);
+  }
+
+  return { genotypes: normalized, summary };
+}
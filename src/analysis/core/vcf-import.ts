@@ -0,0 +1,151 @@
+/**
+ * VCF IMPORT AGAINST THE KNOWLEDGE BASES
+ * Turns a lab VCF/gVCF into raw data rows the analysis modules can read
+ *
+ * Method:
+ * - Records are parsed with vcf-parser.ts (sample selection, multi-allelic ALT, phased GT,
+ *   quality thresholds)
+ * - Records with ID '.' are named by chromosome:position against the PGx and nutrigenomics KBs
+ * - KB loci inside a gVCF reference block are emitted as hom-ref calls (KB ref allele twice,
+ *   'II' for deletions, 'DD' for insertions); KB loci with neither a record nor a block stay absent, i.e. not
+ *   covered
+ * - KB positions are GRCh37: GRCh38 files keep their own IDs, but no position lookup or
+ *   reference-block fill is attempted
+ *
+ * Version: 1.0.0
+ */
+
+import { getPGxKnowledgeBase } from './pgx-knowledge-base';
+import { getNutrigenomicsKnowledgeBase } from './nutrigenomics-knowledge-base';
+import { isSingleNucleotideVariant, type RawGenotype } from '../utils/genotype-utils';
+import {
+  DEFAULT_VCF_THRESHOLDS,
+  detectReferenceBuild,
+  findReferenceBlock,
+  indexReferenceBlocks,
+  parseVCF,
+  type VCFParseOptions,
+  type VCFParseResult
+} from '../utils/vcf-parser';
+
+export interface KBLocus {
+  rsid: string;
+  chromosome: string;
+  position: number; // GRCh37
+  ref: string;
+  alt: string;
+}
+
+export interface VCFImportResult extends VCFParseResult {
+  referenceCalls: number; // KB loci called hom-ref from reference blocks
+  limitations: string[];
+}
+
+export type VCFImportOptions = Omit<VCFParseOptions, 'rsidAt'>;
+
+let cachedLoci: Map<string, KBLocus> | null = null;
+
+function locusKey(chromosome: string, position: number): string {
+  return `${chromosome.toUpperCase()}:${position}`;
+}
+
+function getKBLociIndex(): Map<string, KBLocus> {
+  if (!cachedLoci) {
+    cachedLoci = new Map();
+
+    const variants = [...getPGxKnowledgeBase().variants, ...getNutrigenomicsKnowledgeBase().variants];
+    for (const v of variants) {
+      const key = locusKey(v.chr, v.pos);
+      if (!cachedLoci.has(key)) {
+        cachedLoci.set(key, { rsid: v.rsid, chromosome: v.chr, position: v.pos, ref: v.ref, alt: v.alt });
+      }
+    }
+  }
+  return cachedLoci;
+}
+
+/**
+ * rsID of the KB locus at a GRCh37 position, or null
+ */
+export function getKBRsidAt(chromosome: string, position: number): string | null {
+  return getKBLociIndex().get(locusKey(chromosome, position))?.rsid ?? null;
+}
+
+/**
+ * Hom-ref call for a KB locus: the ref base twice for SNVs, 'II' (no deletion) for deletions,
+ * 'DD' (no insertion) for insertions, null for loci whose reference allele cannot be written
+ * as a call
+ */
+function referenceGenotype(locus: KBLocus): string | null {
+  if (isSingleNucleotideVariant(locus)) return locus.ref + locus.ref;
+  if (locus.alt === 'del') return 'II';
+  return locus.ref === 'del' ? 'DD' : null;
+}
+
+function getLimitations(result: VCFParseResult, options: VCFImportOptions): string[] {
+  const limitations: string[] = [];
+  const thresholds = { ...DEFAULT_VCF_THRESHOLDS, ...options.thresholds };
+
+  if (result.samples.length > 1) {
+    limitations.push(`Multi-sample VCF: only sample ${result.sample} (of ${result.samples.length}) was analyzed`);
+  }
+  if (result.referenceBuild === 'GRCh38') {
+    limitations.push('VCF is aligned to GRCh38 - records without rsIDs cannot be matched to the GRCh37 knowledge bases');
+  } else if (result.referenceBuild === 'unknown') {
+    limitations.push('VCF header does not declare a reference build - positions were assumed to be GRCh37');
+  }
+  if (result.stats.filtered > 0) {
+    limitations.push(
+      `${result.stats.filtered} calls failed quality thresholds (FILTER${thresholds.requirePass ? '=PASS' : ''}, ` +
+      `GQ ≥ ${thresholds.minGQ}, DP ≥ ${thresholds.minDP}) and are treated as untested`
+    );
+  }
+  if (result.referenceBlocks.length === 0) {
+    limitations.push('No gVCF reference blocks - positions absent from the VCF cannot be distinguished from uncovered positions');
+  }
+
+  return limitations;
+}
+
+/**
+ * Parse a VCF/gVCF and resolve its records against the knowledge bases
+ *
+ * @param content - VCF file contents
+ * @param options - Sample selection and quality thresholds
+ * @throws Error if the requested sample is not in the file
+ */
+export function importVCF(content: string, options: VCFImportOptions = {}): VCFImportResult {
+  const onGRCh37 = detectReferenceBuild(content) !== 'GRCh38';
+  const result = parseVCF(content, {
+    ...options,
+    rsidAt: onGRCh37 ? getKBRsidAt : undefined
+  });
+
+  let referenceCalls = 0;
+  if (onGRCh37 && result.referenceBlocks.length > 0) {
+    const seen = new Set(result.genotypes.map(g => g.rsid));
+    const blocks = indexReferenceBlocks(result.referenceBlocks);
+    const fills: RawGenotype[] = [];
+
+    for (const locus of getKBLociIndex().values()) {
+      const homRef = referenceGenotype(locus);
+      if (seen.has(locus.rsid) || !homRef) continue;
+      if (!findReferenceBlock(blocks, locus.chromosome, locus.position)) continue;
+
+      fills.push({
+        rsid: locus.rsid,
+        chromosome: locus.chromosome,
+        position: locus.position,
+        genotype: homRef
+      });
+      referenceCalls++;
+    }
+    result.genotypes.push(...fills);
+  }
+
+  return {
+    ...result,
+    referenceCalls,
+    limitations: getLimitations(result, options)
+  };
+}
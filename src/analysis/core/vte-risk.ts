@@ -0,0 +1,247 @@
+/**
+ * VTE RISK MODEL
+ * Relative and absolute venous thromboembolism risk from inherited thrombophilia and clinical factors
+ *
+ * Method:
+ * - Baseline: age-banded first-VTE incidence per 1,000 person-years for a non-carrier with no
+ *   risk factors
+ * - Inherited: Factor V Leiden (F5 rs6025) and prothrombin G20210A (F2 rs1799963); compound
+ *   heterozygotes use the observed joint risk rather than the product
+ * - Clinical: estrogen exposure, pregnancy/postpartum, recent surgery, immobilization, BMI and
+ *   smoking, combined multiplicatively
+ * - Carrier × combined oral contraceptive is supra-multiplicative; the observed joint risk is
+ *   used and the excess appears as an interaction factor
+ * - Every factor carries a point estimate and a literature range; the range of the total is the
+ *   product of the factor ranges, so it is wide by design
+ * - Pregnancy, surgery and immobilization are transient: their absolute risk is a rate over the
+ *   exposure period, expressed per 1,000 person-years
+ *
+ * References: Poort 1996 (PMID 8916933); Vandenbroucke 1994 (PMID 7914958); Emmerich 2001
+ * (PMID 11583299); Heit, Arterioscler Thromb Vasc Biol 2008 (incidence by age)
+ *
+ * Version: 1.0.0
+ */
+
+export type InheritedThrombophilia =
+  | 'None'
+  | 'FVL Heterozygous'
+  | 'FVL Homozygous'
+  | 'Prothrombin Heterozygous'
+  | 'Prothrombin Homozygous'
+  | 'Compound FVL + Prothrombin'
+  | 'Unknown';
+
+export type EstrogenExposure = 'none' | 'combined-oral-contraceptive' | 'oral-hrt' | 'transdermal-hrt';
+
+/**
+ * Clinical risk modifiers (all optional)
+ */
+export interface VTEClinicalFactors {
+  age?: number;                          // Years
+  bmi?: number;                          // kg/m²
+  smoker?: boolean;
+  pregnancy?: 'pregnant' | 'postpartum'; // Postpartum = first 12 weeks
+  recentSurgery?: boolean;               // Major surgery in the last 6 weeks
+  immobilized?: boolean;                 // Bed rest ≥3 days, plaster cast, long-haul travel
+  estrogen?: EstrogenExposure;
+}
+
+export interface RiskRange {
+  estimate: number;
+  low: number;
+  high: number;
+}
+
+export interface VTERiskFactor {
+  factor: string;
+  relativeRisk: RiskRange;
+  source: string;
+}
+
+export interface InheritedThrombophiliaInput {
+  factorVLeiden: number | null; // Copies of rs6025 Leiden allele (null = not genotyped)
+  prothrombin: number | null;   // Copies of rs1799963 A allele
+  other?: VTERiskFactor[];      // Further inherited factors scored by the caller
+}
+
+export interface VTERiskEstimate {
+  inheritedThrombophilia: InheritedThrombophilia;
+  inherited: InheritedThrombophiliaInput;
+  clinical: VTEClinicalFactors;
+  factors: VTERiskFactor[];         // Everything multiplied into relativeRisk
+  inheritedRelativeRisk: RiskRange; // Genetic factors only
+  relativeRisk: RiskRange;          // vs. a non-carrier of the same age with no risk factors
+  baselineAnnualRisk: RiskRange;    // Per 1,000 person-years
+  annualAbsoluteRisk: RiskRange;    // Per 1,000 person-years
+  assumedInputs: string[];
+}
+
+const range = (estimate: number, low: number, high: number): RiskRange => ({ estimate, low, high });
+
+/** First-VTE incidence per 1,000 person-years by age */
+const BASELINE_BY_AGE: Array<{ maxAge: number; risk: RiskRange }> = [
+  { maxAge: 40, risk: range(0.3, 0.1, 0.5) },
+  { maxAge: 60, risk: range(1, 0.5, 1.5) },
+  { maxAge: 80, risk: range(3, 2, 5) },
+  { maxAge: Infinity, risk: range(7, 5, 10) }
+];
+const ADULT_BASELINE = range(1, 0.5, 1.5); // Adult population average, age unknown
+
+const INHERITED_RISK: Record<Exclude<InheritedThrombophilia, 'None' | 'Unknown'>, VTERiskFactor> = {
+  'FVL Heterozygous': { factor: 'Factor V Leiden heterozygous', relativeRisk: range(5, 3, 8), source: 'Case-control meta-analyses' },
+  'FVL Homozygous': { factor: 'Factor V Leiden homozygous', relativeRisk: range(20, 10, 80), source: 'Case-control meta-analyses' },
+  'Prothrombin Heterozygous': { factor: 'Prothrombin G20210A heterozygous', relativeRisk: range(3, 2, 4), source: 'Poort 1996' },
+  'Prothrombin Homozygous': { factor: 'Prothrombin G20210A homozygous', relativeRisk: range(7, 3, 20), source: 'Case-control meta-analyses' },
+  'Compound FVL + Prothrombin': { factor: 'Compound heterozygous FVL + prothrombin G20210A', relativeRisk: range(20, 11, 36), source: 'Emmerich 2001' }
+};
+
+const ESTROGEN_RISK: Record<Exclude<EstrogenExposure, 'none'>, VTERiskFactor> = {
+  'combined-oral-contraceptive': { factor: 'Combined oral contraceptive', relativeRisk: range(3.5, 3, 4), source: 'Cohort and case-control studies' },
+  'oral-hrt': { factor: 'Oral estrogen HRT', relativeRisk: range(2, 1.5, 3), source: 'WHI and observational studies' },
+  'transdermal-hrt': { factor: 'Transdermal estrogen HRT', relativeRisk: range(1, 0.9, 1.2), source: 'ESTHER study' }
+};
+
+/** Observed joint risk of a carrier on a combined oral contraceptive */
+const COC_JOINT_RISK: Partial<Record<InheritedThrombophilia, { joint: RiskRange; source: string }>> = {
+  'FVL Heterozygous': { joint: range(35, 15, 80), source: 'Vandenbroucke 1994' },
+  'Prothrombin Heterozygous': { joint: range(16, 5, 50), source: 'Case-control studies' }
+};
+
+const CLINICAL_RISK = {
+  pregnant: { factor: 'Pregnancy', relativeRisk: range(5, 4, 6), source: 'Population cohorts' },
+  postpartum: { factor: 'Postpartum (first 12 weeks)', relativeRisk: range(20, 15, 35), source: 'Population cohorts' },
+  surgery: { factor: 'Major surgery (last 6 weeks)', relativeRisk: range(20, 10, 70), source: 'Million Women Study' },
+  immobilized: { factor: 'Immobilization', relativeRisk: range(5, 2, 10), source: 'Case-control studies' },
+  obese: { factor: 'BMI ≥30', relativeRisk: range(2.5, 2, 3), source: 'Case-control meta-analyses' },
+  overweight: { factor: 'BMI 25-29.9', relativeRisk: range(1.7, 1.4, 2), source: 'Case-control meta-analyses' },
+  smoker: { factor: 'Current smoking', relativeRisk: range(1.3, 1.2, 1.5), source: 'Meta-analysis' }
+} satisfies Record<string, VTERiskFactor>;
+
+function multiply(ranges: RiskRange[]): RiskRange {
+  return ranges.reduce(
+    (total, r) => range(total.estimate * r.estimate, total.low * r.low, total.high * r.high),
+    range(1, 1, 1)
+  );
+}
+
+function round(r: RiskRange): RiskRange {
+  const digits = (value: number) => value >= 10 ? 0 : value >= 1 ? 1 : 2;
+  const fix = (value: number) => Number(value.toFixed(digits(value)));
+  return range(fix(r.estimate), fix(r.low), fix(r.high));
+}
+
+/**
+ * Classify the F5/F2 genotype combination
+ */
+export function classifyInheritedThrombophilia(input: InheritedThrombophiliaInput): InheritedThrombophilia {
+  const { factorVLeiden: fvl, prothrombin: pt } = input;
+  if (fvl === null && pt === null) return 'Unknown';
+  if ((fvl ?? 0) > 0 && (pt ?? 0) > 0) return 'Compound FVL + Prothrombin';
+  if (fvl === 2) return 'FVL Homozygous';
+  if (fvl === 1) return 'FVL Heterozygous';
+  if (pt === 2) return 'Prothrombin Homozygous';
+  if (pt === 1) return 'Prothrombin Heterozygous';
+  return 'None';
+}
+
+function inheritedFactors(input: InheritedThrombophiliaInput, category: InheritedThrombophilia): VTERiskFactor[] {
+  const factors: VTERiskFactor[] = [];
+
+  if (category === 'Compound FVL + Prothrombin') {
+    // The joint estimate is for double heterozygotes; homozygous components multiply in
+    if (input.factorVLeiden === 1 && input.prothrombin === 1) {
+      factors.push(INHERITED_RISK[category]);
+    } else {
+      factors.push(INHERITED_RISK[input.factorVLeiden === 2 ? 'FVL Homozygous' : 'FVL Heterozygous']);
+      factors.push(INHERITED_RISK[input.prothrombin === 2 ? 'Prothrombin Homozygous' : 'Prothrombin Heterozygous']);
+    }
+  } else if (category !== 'None' && category !== 'Unknown') {
+    factors.push(INHERITED_RISK[category]);
+  }
+
+  return [...factors, ...(input.other ?? [])];
+}
+
+/**
+ * Calculate VTE relative and absolute risk
+ *
+ * @param inherited - F5/F2 allele counts from the genotype file
+ * @param clinical - Clinical modifiers; without an age the adult population baseline is used
+ */
+export function calculateVTERisk(
+  inherited: InheritedThrombophiliaInput,
+  clinical: VTEClinicalFactors = {}
+): VTERiskEstimate {
+  const assumedInputs: string[] = [];
+  const category = classifyInheritedThrombophilia(inherited);
+  const genetic = inheritedFactors(inherited, category);
+
+  if (inherited.factorVLeiden === null) assumedInputs.push('Factor V Leiden (rs6025 not genotyped)');
+  if (inherited.prothrombin === null) assumedInputs.push('Prothrombin G20210A (rs1799963 not genotyped)');
+
+  const exposures: VTERiskFactor[] = [];
+  if (clinical.estrogen && clinical.estrogen !== 'none') {
+    const estrogen = ESTROGEN_RISK[clinical.estrogen];
+    exposures.push(estrogen);
+
+    const joint = clinical.estrogen === 'combined-oral-contraceptive' ? COC_JOINT_RISK[category] : undefined;
+    if (joint) {
+      const separate = multiply([INHERITED_RISK[category as keyof typeof INHERITED_RISK].relativeRisk, estrogen.relativeRisk]);
+      exposures.push({
+        factor: `${category} × combined oral contraceptive interaction`,
+        relativeRisk: range(joint.joint.estimate / separate.estimate, joint.joint.low / separate.low, joint.joint.high / separate.high),
+        source: `${joint.source}: observed joint risk ~${joint.joint.estimate}x`
+      });
+    }
+  }
+  if (clinical.pregnancy) exposures.push(CLINICAL_RISK[clinical.pregnancy]);
+  if (clinical.recentSurgery) exposures.push(CLINICAL_RISK.surgery);
+  if (clinical.immobilized) exposures.push(CLINICAL_RISK.immobilized);
+  if (clinical.bmi !== undefined && clinical.bmi >= 30) exposures.push(CLINICAL_RISK.obese);
+  else if (clinical.bmi !== undefined && clinical.bmi >= 25) exposures.push(CLINICAL_RISK.overweight);
+  if (clinical.smoker) exposures.push(CLINICAL_RISK.smoker);
+
+  if (clinical.age === undefined) assumedInputs.push('age (adult population baseline)');
+  const baseline = clinical.age === undefined
+    ? ADULT_BASELINE
+    : BASELINE_BY_AGE.find(band => clinical.age! < band.maxAge)!.risk;
+
+  const factors = [...genetic, ...exposures];
+  const relativeRisk = multiply(factors.map(f => f.relativeRisk));
+
+  return {
+    inheritedThrombophilia: category,
+    inherited,
+    clinical,
+    factors: factors.map(f => ({ ...f, relativeRisk: round(f.relativeRisk) })),
+    inheritedRelativeRisk: round(multiply(genetic.map(f => f.relativeRisk))),
+    relativeRisk: round(relativeRisk),
+    baselineAnnualRisk: baseline,
+    annualAbsoluteRisk: round(multiply([baseline, relativeRisk])),
+    assumedInputs
+  };
+}
+
+/**
+ * Recalculate an estimate with different clinical factors (e.g. "if started on a combined pill")
+ */
+export function recalculateVTERisk(
+  estimate: VTERiskEstimate,
+  changes: Partial<VTEClinicalFactors>
+): VTERiskEstimate {
+  return calculateVTERisk(estimate.inherited, { ...estimate.clinical, ...changes });
+}
+
+/**
+ * '35x (15-80x)'
+ */
+export function formatRelativeRisk(r: RiskRange): string {
+  return `${r.estimate}x (${r.low}-${r.high}x)`;
+}
+
+/**
+ * '1.8 per 1,000/year (0.5-6)'
+ */
+export function formatAnnualRisk(r: RiskRange): string {
+  return `${r.estimate} per 1,000/year (${r.low}-${r.high})`;
+}
@@ -0,0 +1,318 @@
+/**
+ * WARFARIN DOSING
+ * IWPC and Gage pharmacogenetic dose algorithms shared by the VKORC1 and CYP2C9 analyzers
+ *
+ * Method:
+ * - IWPC (NEJM 2009): sqrt(weekly dose) = 5.6044 + the terms below. Age is in whole decades;
+ *   VKORC1 and CYP2C9 have explicit "unknown" terms, so a dose is always produced
+ * - Gage (Clin Pharmacol Ther 2008): ln(daily dose) = 0.9751 + the terms below, with body
+ *   surface area (DuBois) and target INR. It has no unknown-genotype terms and is only
+ *   reported when VKORC1 and CYP2C9 are both called
+ * - CPIC 2017 adjustments are applied to the IWPC dose: CYP2C9 *5/*6/*8/*11 (not in either
+ *   algorithm) lower it, CYP4F2 *3 (rs2108622 T) raises it in non-African ancestry
+ * - Missing covariates are taken from a reference adult (60 years, 170 cm, 75 kg, White, no
+ *   interacting drugs) and listed in assumedInputs
+ * - genotypeDoseFraction compares the dose with the same patient carrying VKORC1 G/G,
+ *   CYP2C9 *1/*1 and CYP4F2 C/C; CombinedWarfarinRisk is graded from it
+ *
+ * References: IWPC NEJM 2009 (PMID 19228618); Gage 2008 (PMID 18305455); CPIC warfarin 2017
+ * (PMID 28198005)
+ *
+ * Version: 1.0.0
+ */
+
+import { extractStrandNormalized } from './strand-normalization';
+import type { AncestryProportions } from './ancestry-analysis';
+
+export type IWPCRace = 'White' | 'Asian' | 'Black or African American' | 'Missing or Mixed';
+
+/**
+ * Clinical covariates of the dose algorithms (all optional)
+ */
+export interface WarfarinClinicalFactors {
+  age?: number;            // Years
+  heightCm?: number;
+  weightKg?: number;
+  race?: IWPCRace;
+  amiodarone?: boolean;
+  enzymeInducer?: boolean; // Carbamazepine, phenytoin, rifampin
+  smoker?: boolean;        // Gage
+  targetINR?: number;      // Gage (default 2.5)
+  dvtPe?: boolean;         // Gage: venous thromboembolism as the indication
+}
+
+export interface WarfarinModelTerm {
+  term: string;
+  value: number;        // Covariate value (1/0 for indicator terms)
+  coefficient: number;
+  contribution: number; // coefficient × value
+  assumed?: boolean;    // Covariate not provided - reference value used
+}
+
+export interface WarfarinAlgorithmResult {
+  algorithm: 'IWPC' | 'Gage';
+  scale: 'sqrt(mg/week)' | 'ln(mg/day)';
+  terms: WarfarinModelTerm[]; // First term is the intercept
+  linearPredictor: number;
+  weeklyDose: number;         // mg/week, before CPIC adjustments
+}
+
+export interface WarfarinDoseAdjustment {
+  reason: string;
+  factor: number; // Multiplier on the IWPC dose
+  source: string;
+}
+
+export interface WarfarinDoseEstimate {
+  vkorc1Genotype: string | null; // rs9923231, forward strand
+  cyp2c9Diplotype: string | null;
+  cyp4f2Genotype: string | null; // rs2108622, forward strand
+  iwpc: WarfarinAlgorithmResult;
+  gage: WarfarinAlgorithmResult | null;
+  adjustments: WarfarinDoseAdjustment[];
+  weeklyDose: number;            // IWPC with adjustments, mg/week
+  dailyDose: number;             // mg/day
+  genotypeDoseFraction: number;  // Dose relative to a reference-genotype patient
+  assumedInputs: string[];
+}
+
+const REFERENCE_PATIENT = { age: 60, heightCm: 170, weightKg: 75 };
+const DEFAULT_TARGET_INR = 2.5;
+
+/** IWPC CYP2C9 terms; *1/*1 is the reference */
+const IWPC_CYP2C9: Record<string, number> = {
+  '*1/*2': -0.5211,
+  '*1/*3': -0.9357,
+  '*2/*2': -1.0616,
+  '*2/*3': -1.9206,
+  '*3/*3': -2.3312
+};
+
+const IWPC_RACE: Record<IWPCRace, number> = {
+  'White': 0,
+  'Asian': -0.1092,
+  'Black or African American': -0.2760,
+  'Missing or Mixed': -0.1032
+};
+
+/** Decreased-function alleles outside both algorithms (CPIC 2017, African ancestry) */
+const CPIC_CYP2C9_ALLELES = ['*5', '*6', '*8', '*11'];
+const CYP2C9_ALLELES = ['*1', '*2', '*3', ...CPIC_CYP2C9_ALLELES];
+
+/** Ancestry panel population → IWPC race category */
+const ANCESTRY_RACE: Record<string, IWPCRace> = {
+  'European': 'White',
+  'East Asian': 'Asian',
+  'South Asian': 'Asian',
+  'Sub-Saharan African': 'Black or African American'
+};
+
+/**
+ * IWPC race category from an ancestry estimate
+ *
+ * A population counts only when it makes up at least 80% of the ancestry; anything else is
+ * 'Missing or Mixed', the IWPC category for admixed and unreported patients.
+ */
+export function iwpcRaceFromAncestry(ancestry?: AncestryProportions): IWPCRace | undefined {
+  const ranked = Object.entries(ancestry?.proportions ?? {}).sort(([, a], [, b]) => b - a);
+  if (ranked.length === 0) return undefined;
+
+  const [population, share] = ranked[0];
+  return share >= 0.8 ? ANCESTRY_RACE[population] ?? 'Missing or Mixed' : 'Missing or Mixed';
+}
+
+function term(name: string, value: number, coefficient: number, assumed?: boolean): WarfarinModelTerm {
+  return { term: name, value, coefficient, contribution: coefficient * value, ...(assumed ? { assumed } : {}) };
+}
+
+function countAllele(genotype: string | null, allele: string): number {
+  return genotype ? genotype.split('').filter(a => a === allele).length : 0;
+}
+
+function round(value: number, digits = 1): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+interface ModelInputs {
+  vkorc1: string | null;                      // rs9923231 genotype (T = -1639A)
+  cyp2c9: [string, string] | null;            // Alleles as used by the algorithms (*1, *2, *3)
+  age: number;
+  heightCm: number;
+  weightKg: number;
+  race: IWPCRace;
+  amiodarone: boolean;
+  enzymeInducer: boolean;
+  smoker: boolean;
+  targetINR: number;
+  dvtPe: boolean;
+  assumed: Set<string>;
+}
+
+function runIWPC(inputs: ModelInputs): WarfarinAlgorithmResult {
+  const { vkorc1, cyp2c9, assumed } = inputs;
+  const lowDoseAlleles = countAllele(vkorc1, 'T');
+  const diplotype = cyp2c9 ? [...cyp2c9].sort().join('/') : null;
+
+  const terms = [
+    term('Intercept', 1, 5.6044),
+    term('Age (decades)', Math.floor(inputs.age / 10), -0.2614, assumed.has('age')),
+    term('Height (cm)', inputs.heightCm, 0.0087, assumed.has('height')),
+    term('Weight (kg)', inputs.weightKg, 0.0128, assumed.has('weight')),
+    vkorc1 === null
+      ? term('VKORC1 genotype unknown', 1, -0.4854)
+      : lowDoseAlleles === 2
+        ? term('VKORC1 -1639 A/A', 1, -1.6974)
+        : term('VKORC1 -1639 A/G', lowDoseAlleles, -0.8677),
+    diplotype === null
+      ? term('CYP2C9 genotype unknown', 1, -0.2188)
+      : term(`CYP2C9 ${diplotype}`, IWPC_CYP2C9[diplotype] !== undefined ? 1 : 0, IWPC_CYP2C9[diplotype] ?? 0),
+    term(`Race: ${inputs.race}`, inputs.race === 'White' ? 0 : 1, IWPC_RACE[inputs.race], assumed.has('race')),
+    term('Enzyme inducer', inputs.enzymeInducer ? 1 : 0, 1.1816, assumed.has('enzymeInducer')),
+    term('Amiodarone', inputs.amiodarone ? 1 : 0, -0.5503, assumed.has('amiodarone'))
+  ];
+
+  const linearPredictor = terms.reduce((sum, t) => sum + t.contribution, 0);
+  return {
+    algorithm: 'IWPC',
+    scale: 'sqrt(mg/week)',
+    terms,
+    linearPredictor,
+    weeklyDose: Math.max(linearPredictor, 0) ** 2
+  };
+}
+
+function runGage(inputs: ModelInputs): WarfarinAlgorithmResult | null {
+  const { vkorc1, cyp2c9, assumed } = inputs;
+  if (vkorc1 === null || cyp2c9 === null) return null;
+
+  const bsa = 0.007184 * inputs.weightKg ** 0.425 * inputs.heightCm ** 0.725;
+  const terms = [
+    term('Intercept', 1, 0.9751),
+    term('VKORC1 -1639 A alleles', countAllele(vkorc1, 'T'), -0.3238),
+    term('Body surface area (m²)', bsa, 0.4317, assumed.has('height') || assumed.has('weight')),
+    term('CYP2C9*3 alleles', cyp2c9.filter(a => a === '*3').length, -0.4008),
+    term('Age (years)', inputs.age, -0.00745, assumed.has('age')),
+    term('CYP2C9*2 alleles', cyp2c9.filter(a => a === '*2').length, -0.2066),
+    term('Target INR', inputs.targetINR, 0.2029, assumed.has('targetINR')),
+    term('Amiodarone', inputs.amiodarone ? 1 : 0, -0.2538, assumed.has('amiodarone')),
+    term('Smoker', inputs.smoker ? 1 : 0, 0.0922, assumed.has('smoker')),
+    term('African-American race', inputs.race === 'Black or African American' ? 1 : 0, -0.0901, assumed.has('race')),
+    term('DVT/PE indication', inputs.dvtPe ? 1 : 0, 0.0664, assumed.has('dvtPe'))
+  ];
+
+  const linearPredictor = terms.reduce((sum, t) => sum + t.contribution, 0);
+  return {
+    algorithm: 'Gage',
+    scale: 'ln(mg/day)',
+    terms,
+    linearPredictor,
+    weeklyDose: Math.exp(linearPredictor) * 7
+  };
+}
+
+/**
+ * CPIC 2017 adjustments for variants outside the algorithms
+ */
+function cpicAdjustments(
+  cpicAlleles: string[],
+  cyp4f2: string | null,
+  race: IWPCRace
+): WarfarinDoseAdjustment[] {
+  const adjustments: WarfarinDoseAdjustment[] = [];
+
+  if (cpicAlleles.length > 0) {
+    adjustments.push({
+      reason: `CYP2C9 ${cpicAlleles.join('/')} not in the IWPC algorithm`,
+      factor: cpicAlleles.length > 1 ? 0.7 : 0.8,
+      source: `CPIC 2017: reduce the calculated dose by ${cpicAlleles.length > 1 ? '20-40%' : '15-30%'}`
+    });
+  }
+
+  const cyp4f2Copies = countAllele(cyp4f2, 'T');
+  if (cyp4f2Copies > 0 && race !== 'Black or African American') {
+    adjustments.push({
+      reason: `CYP4F2 *3 (rs2108622 ${cyp4f2})`,
+      factor: cyp4f2Copies > 1 ? 1.1 : 1.05,
+      source: 'CPIC 2017: increase the calculated dose by 5-10% (non-African ancestry)'
+    });
+  }
+
+  return adjustments;
+}
+
+/**
+ * Estimate the warfarin maintenance dose - IWPC with CPIC 2017 adjustments, and Gage
+ *
+ * @param genotypes - Array of genotype objects (VKORC1 rs9923231 and CYP4F2 rs2108622 are read here)
+ * @param cyp2c9 - CYP2C9 diplotype from the CYP2C9 analyzer; null or unknown alleles use the
+ *   IWPC "unknown" term
+ * @param clinical - Clinical covariates; missing ones come from the reference adult
+ */
+export function calculateWarfarinDose(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  cyp2c9: { allele1: string; allele2: string } | null,
+  clinical: WarfarinClinicalFactors = {}
+): WarfarinDoseEstimate {
+  const vkorc1 = extractStrandNormalized(genotypes, 'rs9923231');
+  const cyp4f2 = extractStrandNormalized(genotypes, 'rs2108622');
+
+  const called = cyp2c9 && CYP2C9_ALLELES.includes(cyp2c9.allele1) && CYP2C9_ALLELES.includes(cyp2c9.allele2)
+    ? [cyp2c9.allele1, cyp2c9.allele2]
+    : null;
+  const cpicAlleles = called ? called.filter(a => CPIC_CYP2C9_ALLELES.includes(a)) : [];
+  const algorithmAlleles = called
+    ? called.map(a => CPIC_CYP2C9_ALLELES.includes(a) ? '*1' : a) as [string, string]
+    : null;
+
+  const assumed = new Set<string>();
+  const pick = <T>(name: string, value: T | undefined, fallback: T): T => {
+    if (value !== undefined) return value;
+    assumed.add(name);
+    return fallback;
+  };
+
+  const inputs: ModelInputs = {
+    vkorc1,
+    cyp2c9: algorithmAlleles,
+    age: pick('age', clinical.age, REFERENCE_PATIENT.age),
+    heightCm: pick('height', clinical.heightCm, REFERENCE_PATIENT.heightCm),
+    weightKg: pick('weight', clinical.weightKg, REFERENCE_PATIENT.weightKg),
+    race: pick('race', clinical.race, 'White'),
+    amiodarone: pick('amiodarone', clinical.amiodarone, false),
+    enzymeInducer: pick('enzymeInducer', clinical.enzymeInducer, false),
+    smoker: pick('smoker', clinical.smoker, false),
+    targetINR: pick('targetINR', clinical.targetINR, DEFAULT_TARGET_INR),
+    dvtPe: pick('dvtPe', clinical.dvtPe, false),
+    assumed
+  };
+
+  const iwpc = runIWPC(inputs);
+  const adjustments = cpicAdjustments(cpicAlleles, cyp4f2, inputs.race);
+  const weeklyDose = adjustments.reduce((dose, a) => dose * a.factor, iwpc.weeklyDose);
+
+  const reference = runIWPC({ ...inputs, vkorc1: 'CC', cyp2c9: ['*1', '*1'] });
+
+  return {
+    vkorc1Genotype: vkorc1,
+    cyp2c9Diplotype: called ? called.join('/') : null,
+    cyp4f2Genotype: cyp4f2,
+    iwpc,
+    gage: runGage(inputs),
+    adjustments,
+    weeklyDose: round(weeklyDose),
+    dailyDose: round(weeklyDose / 7, 2),
+    genotypeDoseFraction: reference.weeklyDose > 0 ? round(weeklyDose / reference.weeklyDose, 2) : 1,
+    assumedInputs: [...assumed]
+  };
+}
+
+/**
+ * One-line description of the estimate, e.g. '3.2 mg/day (22.4 mg/week, IWPC)'
+ */
+export function formatWarfarinDose(estimate: WarfarinDoseEstimate): string {
+  const basis = estimate.assumedInputs.some(i => ['age', 'height', 'weight'].includes(i))
+    ? 'IWPC, reference age/height/weight'
+    : 'IWPC';
+  return `${estimate.dailyDose.toFixed(1)} mg/day (${estimate.weeklyDose.toFixed(1)} mg/week, ${basis})`;
+}
@@ -0,0 +1,237 @@
+/**
+ * Knowledge Base Schemas - Zod Validation
+ *
+ * Schemas for src/data/kb-pgx-ultimate.json, src/data/kb-nutrigenomics-complete-125.json,
+ * src/data/ancestry-aim-panel.json and src/data/haplogroup-tree.json. Each knowledge base is validated once at load time so analyzers can rely on its shape when
+ * querying allele function, activity scores, interpretations and evidence.
+ *
+ * Star allele data lives either on the variant itself (star_allele / function / activity_score)
+ * or, for variants curated later, in a nested risk_model object. Both forms are accepted.
+ */
+
+import { z } from 'zod';
+
+// =============================================================================
+// COMMON SCHEMAS
+// =============================================================================
+
+export const KBEvidenceLevelSchema = z.enum(['High', 'Moderate', 'Low']);
+
+export const KBAlleleFunctionSchema = z.enum([
+    'Normal',
+    'Increased',
+    'Decreased',
+    'No function',
+    'Variable'
+]);
+
+export const KBEvidenceSchema = z.object({
+    pmid: z.string().regex(/^\d+$/, 'PMID must be numeric'),
+    study_type: z.string(),
+    n: z.number().int().nonnegative(),
+    replicated: z.boolean(),
+});
+
+export const KBInterpretationSchema = z.object({
+    plain_language: z.string(),
+    clinical_action: z.string().optional(),
+    limitations: z.array(z.string()),
+});
+
+export const KBRiskModelSchema = z.object({
+    type: z.literal('star_allele'),
+    star_allele: z.string(),
+    function: KBAlleleFunctionSchema,
+    activity_score: z.number().min(0).optional(),
+});
+
+// =============================================================================
+// VARIANT SCHEMA
+// =============================================================================
+
+export const KBVariantSchema = z.object({
+    rsid: z.string().regex(/^rs\d+$/, 'Must be valid rsID format'),
+    chr: z.string(),
+    pos: z.number().int().positive(),
+    ref: z.string(),
+    alt: z.string(),
+    category: z.array(z.string()),
+    gene: z.string(),
+    star_allele: z.string().nullable().optional(),
+    function: KBAlleleFunctionSchema.nullable().optional(),
+    activity_score: z.number().min(0).nullable().optional(),
+    trait: z.string(),
+    clinical_significance: z.string().optional(),
+    evidence_level: KBEvidenceLevelSchema.optional(),
+    drugs_affected: z.array(z.string()).optional(),
+    interpretation: KBInterpretationSchema,
+    evidence: z.array(KBEvidenceSchema),
+    confidence: KBEvidenceLevelSchema,
+    cpic_level: z.enum(['A', 'B', 'C', 'D']).optional(),
+    dpwg_level: z.string().optional(),
+    fda_label: z.boolean().optional(),
+    fda_required_testing: z.boolean().optional(),
+    risk_model: KBRiskModelSchema.optional(),
+});
+
+// =============================================================================
+// KNOWLEDGE BASE SCHEMA
+// =============================================================================
+
+export const PGxKnowledgeBaseFileSchema = z.object({
+    kb_version: z.string(),
+    reference_build: z.string(),
+    build_date: z.string(),
+    description: z.string(),
+    methodology: z.string(),
+    coverage: z.record(z.string(), z.number()),
+    genes_covered: z.number().int(),
+    variants: z.array(KBVariantSchema).min(1),
+});
+
+// =============================================================================
+// NUTRIGENOMICS KNOWLEDGE BASE SCHEMAS
+// =============================================================================
+
+export const NutrigenomicsKBEvidenceSchema = z.object({
+    pmid: z.string().regex(/^\d+$/, 'PMID must be numeric'),
+    study_type: z.string(),
+    n: z.number().int().nonnegative(),
+    replicated: z.boolean().optional(),
+});
+
+export const NutrigenomicsKBInterpretationSchema = z.object({
+    plain_language: z.string(),
+    risk_allele: z.string(),
+    effect: z.string(),
+    clinical_action: z.string().optional(),
+    frequency: z.string().optional(),
+    recommendations: z.array(z.string()),
+});
+
+export const NutrigenomicsKBVariantSchema = z.object({
+    rsid: z.string().regex(/^rs\d+$/, 'Must be valid rsID format'),
+    chr: z.string(),
+    pos: z.coerce.number().int().positive(),
+    ref: z.string().regex(/^[ACGT]$/, 'Must be a single nucleotide'),
+    alt: z.string().regex(/^[ACGT]$/, 'Must be a single nucleotide'),
+    gene: z.string(),
+    trait: z.string(),
+    category: z.array(z.string()).optional(),
+    subcategory: z.string(),
+    clinical_significance: z.string().optional(),
+    evidence_level: KBEvidenceLevelSchema.optional(),
+    interpretation: NutrigenomicsKBInterpretationSchema,
+    evidence: z.array(NutrigenomicsKBEvidenceSchema),
+    confidence: KBEvidenceLevelSchema,
+});
+
+export const NutrigenomicsKBFileSchema = z.object({
+    kb_version: z.string(),
+    reference_build: z.string(),
+    build_date: z.string(),
+    description: z.string(),
+    total_variants: z.number().int(),
+    categories: z.array(z.string()).min(1),
+    variants: z.array(NutrigenomicsKBVariantSchema).min(1),
+});
+
+// =============================================================================
+// ANCESTRY PANEL SCHEMAS
+// =============================================================================
+
+export const AncestryMarkerSchema = z.object({
+    rsid: z.string().regex(/^rs\d+$/, 'Must be valid rsID format'),
+    chr: z.string(),
+    pos: z.number().int().positive(),
+    gene: z.string(),
+    allele: z.string().regex(/^[ACGT]$/, 'Must be a single nucleotide'),
+    other_allele: z.string().regex(/^[ACGT]$/, 'Must be a single nucleotide'),
+    description: z.string(),
+    frequencies: z.record(z.string(), z.number().min(0).max(1)),
+});
+
+export const AncestryPanelFileSchema = z.object({
+    panel_version: z.string(),
+    reference_build: z.string(),
+    description: z.string(),
+    populations: z.array(z.string()).min(2),
+    markers: z.array(AncestryMarkerSchema).min(1),
+}).refine(
+    panel => panel.markers.every(m => panel.populations.every(p => p in m.frequencies)),
+    { message: 'Every marker needs an allele frequency for every population', path: ['markers'] }
+);
+
+// =============================================================================
+// HAPLOGROUP TREE SCHEMAS
+// =============================================================================
+
+export const HaplogroupMarkerSchema = z.object({
+    name: z.string().optional(),
+    position: z.number().int().positive().optional(),
+    rsid: z.string().regex(/^rs\d+$/, 'Must be valid rsID format').optional(),
+    derived: z.string().regex(/^[ACGT]$/, 'Must be a single nucleotide'),
+}).refine(
+    marker => marker.position !== undefined || marker.rsid !== undefined,
+    { message: 'Marker needs a position or an rsID' }
+);
+
+export interface HaplogroupNode {
+    name: string;
+    markers: z.infer<typeof HaplogroupMarkerSchema>[];
+    children?: HaplogroupNode[];
+}
+
+export const HaplogroupNodeSchema: z.ZodType<HaplogroupNode> = z.lazy(() =>
+    z.object({
+        name: z.string(),
+        markers: z.array(HaplogroupMarkerSchema),
+        children: z.array(HaplogroupNodeSchema).optional(),
+    })
+);
+
+export const HaplogroupTreeFileSchema = z.object({
+    tree_version: z.string(),
+    description: z.string(),
+    mt: HaplogroupNodeSchema,
+    y: HaplogroupNodeSchema,
+});
+
+// =============================================================================
+// ANALYZER CONSISTENCY SCHEMAS
+// =============================================================================
+
+export const KBMismatchSchema = z.object({
+    gene: z.string(),
+    allele: z.string(),
+    rsid: z.string().optional(),
+    field: z.enum(['activityScore', 'starAllele']),
+    kbValue: z.union([z.string(), z.number()]).nullable(),
+    analyzerValue: z.union([z.string(), z.number()]).nullable(),
+    resolution: z.enum(['kb', 'analyzer']),
+});
+
+export const KnowledgeBaseStatusSchema = z.object({
+    version: z.string(),
+    referenceBuild: z.string(),
+    mismatches: z.array(KBMismatchSchema),
+});
+
+// =============================================================================
+// TYPE EXPORTS (inferred from schemas)
+// =============================================================================
+
+export type KBEvidenceLevel = z.infer<typeof KBEvidenceLevelSchema>;
+export type KBAlleleFunction = z.infer<typeof KBAlleleFunctionSchema>;
+export type KBEvidence = z.infer<typeof KBEvidenceSchema>;
+export type KBVariant = z.infer<typeof KBVariantSchema>;
+export type PGxKnowledgeBaseFile = z.infer<typeof PGxKnowledgeBaseFileSchema>;
+export type NutrigenomicsKBEvidence = z.infer<typeof NutrigenomicsKBEvidenceSchema>;
+export type NutrigenomicsKBVariant = z.infer<typeof NutrigenomicsKBVariantSchema>;
+export type NutrigenomicsKBFile = z.infer<typeof NutrigenomicsKBFileSchema>;
+export type AncestryMarker = z.infer<typeof AncestryMarkerSchema>;
+export type AncestryPanelFile = z.infer<typeof AncestryPanelFileSchema>;
+export type HaplogroupMarker = z.infer<typeof HaplogroupMarkerSchema>;
+export type HaplogroupTreeFile = z.infer<typeof HaplogroupTreeFileSchema>;
+export type KBMismatch = z.infer<typeof KBMismatchSchema>;
+export type KnowledgeBaseStatus = z.infer<typeof KnowledgeBaseStatusSchema>;
@@ -11,6 +11,8 @@
  */
 
 import { z } from 'zod';
+import { KnowledgeBaseStatusSchema } from './kb-schemas';
+import { GENETIC_PROVIDERS } from '../utils/genotype-utils';
 
 // =============================================================================
 // COMMON SCHEMAS
@@ -25,9 +27,9 @@ import { z } from 'zod';
 export const ConfidenceLevelSchema = z.enum(['high', 'medium', 'low']);
 
 /**
- * Data provider for genotype source
+ * Data provider for genotype source (see PROVIDER_PROFILES in genotype-utils)
  */
-export const GeneticProviderSchema = z.enum(['23andme', 'unknown']);
+export const GeneticProviderSchema = z.enum(GENETIC_PROVIDERS);
 
 /**
  * Clinical reference with PMID or URL
@@ -88,19 +90,55 @@ export const VKORC1GenotypeSchema = z.object({
     confidence: ConfidenceLevelSchema,
 });
 
+export const WarfarinModelTermSchema = z.object({
+    term: z.string(),
+    value: z.number(),
+    coefficient: z.number(),
+    contribution: z.number(),
+    assumed: z.boolean().optional(),
+});
+
+export const WarfarinAlgorithmResultSchema = z.object({
+    algorithm: z.enum(['IWPC', 'Gage']),
+    scale: z.enum(['sqrt(mg/week)', 'ln(mg/day)']),
+    terms: z.array(WarfarinModelTermSchema),
+    linearPredictor: z.number(),
+    weeklyDose: z.number().nonnegative(),
+});
+
+export const WarfarinDoseEstimateSchema = z.object({
+    vkorc1Genotype: z.string().nullable(),
+    cyp2c9Diplotype: z.string().nullable(),
+    cyp4f2Genotype: z.string().nullable(),
+    iwpc: WarfarinAlgorithmResultSchema,
+    gage: WarfarinAlgorithmResultSchema.nullable(),
+    adjustments: z.array(z.object({
+        reason: z.string(),
+        factor: z.number().positive(),
+        source: z.string(),
+    })),
+    weeklyDose: z.number().nonnegative(),
+    dailyDose: z.number().nonnegative(),
+    genotypeDoseFraction: z.number().nonnegative(),
+    assumedInputs: z.array(z.string()),
+});
+
 export const WarfarinDosingGuidanceSchema = z.object({
     estimatedDose: z.string(),
+    weeklyDose: z.number().nonnegative(),
     doseRange: z.string(),
     titrationProtocol: z.string(),
     inrTarget: z.string(),
     inrMonitoring: z.string(),
     timeToTherapeutic: z.string(),
+    model: WarfarinDoseEstimateSchema,
 });
 
 export const CombinedWarfarinRiskSchema = z.object({
     vkorc1Genotype: z.string(),
     cyp2c9Diplotype: z.string().nullable(),
     combinedRisk: z.enum(['Normal', 'Moderate', 'High', 'Very High']),
+    doseFraction: z.number().nonnegative(),
     bleedingRiskMultiplier: z.string(),
     overAnticoagulationRisk: z.string(),
     clinicalConsiderations: z.array(z.string()),
@@ -132,6 +170,70 @@ export const VKORC1AnalysisResultSchema = z.object({
     guidelines: VKORC1GuidelinesSchema,
 });
 
+// =============================================================================
+// PHENOCONVERSION SCHEMAS (drug-drug-gene interactions)
+// =============================================================================
+
+export const PhenoconversionEnzymeSchema = z.enum(['CYP2D6', 'CYP2C19', 'CYP2C9', 'CYP3A4', 'CYP2B6']);
+
+export const MedicationInteractionSchema = z.object({
+    medication: z.string(),
+    drug: z.string(),
+    enzyme: PhenoconversionEnzymeSchema,
+    effect: z.enum(['inhibitor', 'inducer']),
+    strength: z.enum(['strong', 'moderate', 'weak']),
+});
+
+export const PhenoconversionSchema = z.object({
+    enzyme: PhenoconversionEnzymeSchema,
+    geneticPhenotype: z.string(),
+    effectivePhenotype: z.string(),
+    geneticActivityScore: z.number().min(0).optional(),
+    effectiveActivityScore: z.number().min(0).optional(),
+    converted: z.boolean(),
+    interactions: z.array(MedicationInteractionSchema),
+    explanation: z.string(),
+});
+
+// =============================================================================
+// MEDICATION REVIEW SCHEMAS
+// =============================================================================
+
+export const DrugSeveritySchema = z.enum(['critical', 'warning', 'caution', 'informational', 'normal']);
+
+export const DrugActionSchema = z.enum(['Avoid', 'Reduce Dose', 'Increase Dose', 'Use With Caution', 'Standard']);
+
+export const DrugFindingSchema = z.object({
+    drug: z.string(),
+    gene: z.string(),
+    phenotype: z.string(),
+    recommendation: z.string(),
+    doseAdjustment: z.string().optional(),
+    severity: DrugSeveritySchema,
+    action: DrugActionSchema,
+    alternatives: z.array(z.string()),
+});
+
+export const MedicationReviewEntrySchema = z.object({
+    medication: z.string().min(1),
+    status: z.enum(['current', 'planned']),
+    drugs: z.array(z.string()).min(1),
+    genes: z.array(z.string()),
+    findings: z.array(DrugFindingSchema),
+    interactions: z.array(MedicationInteractionSchema),
+    severity: DrugSeveritySchema,
+    action: DrugActionSchema,
+    recommendation: z.string(),
+    conflicts: z.array(z.string()),
+    notes: z.array(z.string()),
+});
+
+export const MedicationReviewSchema = z.object({
+    entries: z.array(MedicationReviewEntrySchema),
+    unrecognized: z.array(z.string()),
+    summary: z.string(),
+});
+
 // =============================================================================
 // CYP2C9 SCHEMAS
 // =============================================================================
@@ -143,12 +245,24 @@ export const CYP2C9PhenotypeSchema = z.enum([
     'Unknown'
 ]);
 
+export const CYP2C9StarAlleleSchema = z.enum([
+    '*1',
+    '*2',
+    '*3',
+    '*5',
+    '*6',
+    '*8',
+    '*11',
+    'Unknown'
+]);
+
 export const CYP2C9DiplotypeSchema = z.object({
-    allele1: z.string().regex(/^\*\d+[A-Z]?$/, 'Must be valid star allele'),
-    allele2: z.string().regex(/^\*\d+[A-Z]?$/, 'Must be valid star allele'),
+    allele1: CYP2C9StarAlleleSchema,
+    allele2: CYP2C9StarAlleleSchema,
     phenotype: CYP2C9PhenotypeSchema,
     activityScore: z.number().min(0).max(2),
     confidence: ConfidenceLevelSchema,
+    untestedAlleles: z.array(CYP2C9StarAlleleSchema).optional(),
 });
 
 export const BleedingRiskSchema = z.enum([
@@ -171,6 +285,7 @@ export const CYP2C9DrugRecommendationSchema = z.object({
 
 export const CYP2C9WarfarinDosingSchema = z.object({
     recommendedDose: z.string(),
+    weeklyDose: z.number().nonnegative(),
     titrationGuidance: z.string(),
     inrMonitoring: z.string(),
     bleedingRiskCategory: z.string(),
@@ -184,6 +299,7 @@ export const CYP2C9GuidelinesSchema = z.object({
 export const CYP2C9AnalysisResultSchema = z.object({
     gene: z.literal('CYP2C9'),
     diplotype: CYP2C9DiplotypeSchema,
+    phenoconversion: PhenoconversionSchema,
     drugs: z.array(CYP2C9DrugRecommendationSchema),
     clinicalSummary: z.string(),
     warfarinDosing: CYP2C9WarfarinDosingSchema,
@@ -193,6 +309,56 @@ export const CYP2C9AnalysisResultSchema = z.object({
     guidelines: CYP2C9GuidelinesSchema,
 });
 
+// =============================================================================
+// CYP2C19 SCHEMAS
+// =============================================================================
+
+export const CYP2C19PhenotypeSchema = z.enum([
+    'Ultrarapid Metabolizer',
+    'Rapid Metabolizer',
+    'Normal Metabolizer',
+    'Intermediate Metabolizer',
+    'Poor Metabolizer',
+    'Unknown'
+]);
+
+export const CYP2C19DiplotypeSchema = z.object({
+    allele1: z.string(),
+    allele2: z.string(),
+    phenotype: CYP2C19PhenotypeSchema,
+    activityScore: z.number().min(0).max(3).nullable(), // *17/*17 = 3.0; null when not genotyped
+    confidence: ConfidenceLevelSchema,
+    phaseAmbiguity: z.boolean().optional(),
+});
+
+export const CYP2C19DrugRecommendationSchema = z.object({
+    drug: z.string(),
+    category: z.string(),
+    recommendation: z.string(),
+    doseAdjustment: z.string().optional(),
+    riskLevel: z.enum(['critical', 'warning', 'caution', 'normal', 'informational']),
+    alternativeDrugs: z.array(z.string()).optional(),
+    monitoring: z.string().optional(),
+    fdaGuidance: z.boolean(),
+    cpicLevel: z.enum(['A', 'B', 'C']).optional(),
+});
+
+export const CYP2C19AnalysisResultSchema = z.object({
+    gene: z.literal('CYP2C19'),
+    diplotype: CYP2C19DiplotypeSchema,
+    phenoconversion: PhenoconversionSchema,
+    drugs: z.array(CYP2C19DrugRecommendationSchema),
+    clinicalSummary: z.string(),
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+    guidelines: z.object({
+        cpic: z.string(),
+        fda: z.array(z.string()),
+    }),
+    references: z.array(z.string()),
+});
+
 // =============================================================================
 // CYP2D6 SCHEMAS
 // =============================================================================
@@ -213,12 +379,27 @@ export const CYP2D6RiskLevelSchema = z.enum([
     'informational'
 ]);
 
+export const CYP2D6CandidateDiplotypeSchema = z.object({
+    diplotype: z.string(),
+    activityScore: z.number().min(0),
+    phenotype: CYP2D6PhenotypeSchema,
+    posterior: z.number().min(0).max(1),
+});
+
 export const CYP2D6DiplotypeSchema = z.object({
     allele1: z.string(),
     allele2: z.string(),
     phenotype: CYP2D6PhenotypeSchema,
     activityScore: z.number().min(0).max(4), // Can be >2 for gene duplications
     confidence: ConfidenceLevelSchema,
+    phaseAmbiguity: z.boolean().optional(),
+    possibleDiplotypes: z.array(z.string()).optional(),
+    candidates: z.array(CYP2D6CandidateDiplotypeSchema).optional(),
+    phenotypeDiscordance: z.number().min(0).max(1).optional(),
+    ancestrySource: z.enum(['declared', 'inferred', 'none']).optional(),
+    unexplainedCalls: z.boolean().optional(),
+    structuralSource: z.enum(['none', 'clinical_report', 'cnv_file', 'vcf']).optional(),
+    copyNumber: z.number().int().min(0).optional(),
 });
 
 export const CYP2D6DrugRecommendationSchema = z.object({
@@ -236,6 +417,7 @@ export const CYP2D6DrugRecommendationSchema = z.object({
 export const CYP2D6AnalysisResultSchema = z.object({
     gene: z.literal('CYP2D6'),
     diplotype: CYP2D6DiplotypeSchema,
+    phenoconversion: PhenoconversionSchema,
     drugs: z.array(CYP2D6DrugRecommendationSchema),
     clinicalSummary: z.string(),
     safetyAlerts: z.array(z.string()),
@@ -243,6 +425,137 @@ export const CYP2D6AnalysisResultSchema = z.object({
     limitations: z.array(z.string()),
 });
 
+// =============================================================================
+// CYP2B6 SCHEMAS
+// =============================================================================
+
+export const CYP2B6PhenotypeSchema = z.enum([
+    'Ultrarapid Metabolizer',
+    'Rapid Metabolizer',
+    'Normal Metabolizer',
+    'Intermediate Metabolizer',
+    'Poor Metabolizer',
+    'Unknown'
+]);
+
+export const CYP2B6DiplotypeSchema = z.object({
+    allele1: z.string(),
+    allele2: z.string(),
+    phenotype: CYP2B6PhenotypeSchema,
+    confidence: ConfidenceLevelSchema,
+    detectedVariants: z.array(z.string()),
+    phaseAmbiguity: z.boolean().optional(),
+    untestedAlleles: z.array(z.string()).optional(),
+});
+
+export const CYP2B6DrugRecommendationSchema = z.object({
+    drug: z.string(),
+    category: z.string(),
+    recommendation: z.string(),
+    doseAdjustment: z.string().optional(),
+    riskLevel: z.enum(['warning', 'caution', 'normal', 'informational']),
+    alternativeDrugs: z.array(z.string()).optional(),
+    monitoring: z.string().optional(),
+    cpicLevel: z.enum(['A', 'B', 'C']).optional(),
+});
+
+export const CYP2B6AnalysisResultSchema = z.object({
+    gene: z.literal('CYP2B6'),
+    diplotype: CYP2B6DiplotypeSchema,
+    phenoconversion: PhenoconversionSchema,
+    drugs: z.array(CYP2B6DrugRecommendationSchema),
+    clinicalSummary: z.string(),
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+});
+
+// =============================================================================
+// CYP1A2 SCHEMAS
+// =============================================================================
+
+export const CYP1A2InducibilitySchema = z.enum([
+    'Highly Inducible',
+    'Intermediate Inducibility',
+    'Non-Inducible',
+    'Unknown'
+]);
+
+export const CYP1A2GenotypeSchema = z.object({
+    rs762551: z.string(),
+    rs2069514: z.string(),
+    inducibility: CYP1A2InducibilitySchema,
+    caffeineMetabolizer: z.enum(['fast', 'intermediate', 'slow', 'unknown']),
+    detectedAlleles: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+});
+
+export const CYP1A2DrugRecommendationSchema = z.object({
+    drug: z.string(),
+    category: z.string(),
+    recommendation: z.string(),
+    doseAdjustment: z.string().optional(),
+    riskLevel: z.enum(['caution', 'normal', 'informational']),
+    monitoring: z.string().optional(),
+});
+
+export const CYP1A2AnalysisResultSchema = z.object({
+    gene: z.literal('CYP1A2'),
+    genotype: CYP1A2GenotypeSchema,
+    smoker: z.boolean().optional(),
+    drugs: z.array(CYP1A2DrugRecommendationSchema),
+    clinicalSummary: z.string(),
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+});
+
+// =============================================================================
+// NAT2 SCHEMAS
+// =============================================================================
+
+export const NAT2PhenotypeSchema = z.enum([
+    'Rapid Acetylator',
+    'Intermediate Acetylator',
+    'Slow Acetylator',
+    'Unknown'
+]);
+
+export const NAT2GenotypeSchema = z.object({
+    allele1: z.string(),
+    allele2: z.string(),
+    phenotype: NAT2PhenotypeSchema,
+    acetylatorStatus: z.enum(['fast', 'intermediate', 'slow', 'unknown']),
+    slowAlleles: z.number().int().min(0).max(2),
+    snps: z.array(z.object({
+        rsid: z.string(),
+        change: z.string(),
+        genotype: z.string(),
+    })),
+    detectedVariants: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    untestedAlleles: z.array(z.string()).optional(),
+});
+
+export const NAT2DrugRecommendationSchema = z.object({
+    drug: z.string(),
+    category: z.string(),
+    recommendation: z.string(),
+    doseAdjustment: z.string().optional(),
+    riskLevel: z.enum(['warning', 'caution', 'normal', 'informational']),
+    monitoring: z.string().optional(),
+});
+
+export const NAT2AnalysisResultSchema = z.object({
+    gene: z.literal('NAT2'),
+    genotype: NAT2GenotypeSchema,
+    drugs: z.array(NAT2DrugRecommendationSchema),
+    clinicalSummary: z.string(),
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+});
+
 // =============================================================================
 // SLCO1B1 SCHEMAS
 // =============================================================================
@@ -262,16 +575,27 @@ export const MyopathyRiskSchema = z.enum([
     'Very High'
 ]);
 
-export const StatinRecommendationSchema = z.object({
-    statin: z.string(),
+export const StatinGuidanceSchema = z.object({
+    statin: z.enum([
+        'Simvastatin',
+        'Atorvastatin',
+        'Rosuvastatin',
+        'Pravastatin',
+        'Pitavastatin',
+        'Lovastatin',
+        'Fluvastatin'
+    ]),
+    genes: z.array(z.string()),
+    action: z.enum(['Standard', 'Limit Dose', 'Avoid']),
     myopathyRisk: MyopathyRiskSchema,
+    doseCeiling: z.number().min(0).nullable(),
+    labelMaxDose: z.number().positive(),
     recommendation: z.string(),
     doseAdjustment: z.string(),
-    maxDose: z.string().optional(),
-    alternatives: z.array(z.string()).optional(),
-    monitoring: z.string().optional(),
-    fdaLabel: z.boolean(),
-    cpicLevel: z.enum(['A', 'B', 'C']).optional(),
+    alternatives: z.array(z.string()),
+    monitoring: z.string(),
+    cpicClassification: z.enum(['Strong', 'Moderate', 'Optional', 'No recommendation']),
+    cpicGuideline: z.boolean(),
 });
 
 export const SLCO1B1DiplotypeSchema = z.object({
@@ -280,16 +604,359 @@ export const SLCO1B1DiplotypeSchema = z.object({
     phenotype: SLCO1B1PhenotypeSchema,
     functionScore: z.number().min(0).max(2),
     confidence: ConfidenceLevelSchema,
+    phaseAmbiguity: z.boolean().optional(),
+    untestedAlleles: z.array(z.string()).optional(),
+});
+
+export const ABCG2GenotypeSchema = z.object({
+    rs2231142: z.string(),
+    function: z.enum(['Normal Function', 'Decreased Function', 'Poor Function', 'Unknown']),
+    confidence: ConfidenceLevelSchema,
 });
 
 export const SLCO1B1AnalysisResultSchema = z.object({
     gene: z.literal('SLCO1B1'),
     diplotype: SLCO1B1DiplotypeSchema,
-    drugs: z.array(StatinRecommendationSchema),
+    abcg2: ABCG2GenotypeSchema,
+    cyp2c9Phenotype: z.string().nullable(),
+    drugs: z.array(StatinGuidanceSchema).length(7),
+    clinicalSummary: z.string(),
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+    guidelines: z.object({
+        cpic: z.string(),
+        fda: z.array(z.string()),
+    }),
+    references: z.array(z.string()),
+});
+
+// =============================================================================
+// CYP3A4 SCHEMAS (with combined CYP3A4/CYP3A5 phenotype)
+// =============================================================================
+
+export const CYP3A4PhenotypeSchema = z.enum([
+    'Normal Metabolizer',
+    'Intermediate Metabolizer',
+    'Poor Metabolizer',
+    'Unknown'
+]);
+
+export const CYP3A4DiplotypeSchema = z.object({
+    allele1: z.string(),
+    allele2: z.string(),
+    phenotype: CYP3A4PhenotypeSchema,
+    activityScore: z.number().min(0).max(2).nullable(),
+    confidence: ConfidenceLevelSchema,
+    untestedAlleles: z.array(z.string()).optional(),
+});
+
+export const CombinedCYP3AMetabolismSchema = z.object({
+    cyp3a4Diplotype: z.string(),
+    cyp3a5Diplotype: z.string().nullable(),
+    clusterPhenotype: z.enum([
+        'Extensive Metabolizer',
+        'Intermediate Metabolizer',
+        'Poor Metabolizer',
+        'Unknown'
+    ]),
+    clinicalConsiderations: z.array(z.string()),
+});
+
+export const CYP3A4DrugRecommendationSchema = z.object({
+    drug: z.string(),
+    category: z.string(),
+    recommendation: z.string(),
+    doseAdjustment: z.string().optional(),
+    riskLevel: z.enum(['warning', 'caution', 'normal', 'informational']),
+    alternativeDrugs: z.array(z.string()).optional(),
+    monitoring: z.string().optional(),
+    cpicGuideline: z.boolean(),
+});
+
+export const CYP3A4AnalysisResultSchema = z.object({
+    gene: z.literal('CYP3A4'),
+    diplotype: CYP3A4DiplotypeSchema,
+    phenoconversion: PhenoconversionSchema,
+    cyp3aMetabolism: CombinedCYP3AMetabolismSchema,
+    drugs: z.array(CYP3A4DrugRecommendationSchema),
+    clinicalSummary: z.string(),
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+});
+
+// =============================================================================
+// THROMBOPHILIA SCHEMAS (F5 + F2, numeric VTE risk)
+// =============================================================================
+
+export const RiskRangeSchema = z.object({
+    estimate: z.number().min(0),
+    low: z.number().min(0),
+    high: z.number().min(0),
+});
+
+export const InheritedThrombophiliaSchema = z.enum([
+    'None',
+    'FVL Heterozygous',
+    'FVL Homozygous',
+    'Prothrombin Heterozygous',
+    'Prothrombin Homozygous',
+    'Compound FVL + Prothrombin',
+    'Unknown'
+]);
+
+export const VTEClinicalFactorsSchema = z.object({
+    age: z.number().min(0).optional(),
+    bmi: z.number().positive().optional(),
+    smoker: z.boolean().optional(),
+    pregnancy: z.enum(['pregnant', 'postpartum']).optional(),
+    recentSurgery: z.boolean().optional(),
+    immobilized: z.boolean().optional(),
+    estrogen: z.enum(['none', 'combined-oral-contraceptive', 'oral-hrt', 'transdermal-hrt']).optional(),
+});
+
+export const VTERiskFactorSchema = z.object({
+    factor: z.string(),
+    relativeRisk: RiskRangeSchema,
+    source: z.string(),
+});
+
+export const VTERiskEstimateSchema = z.object({
+    inheritedThrombophilia: InheritedThrombophiliaSchema,
+    inherited: z.object({
+        factorVLeiden: z.number().int().min(0).max(2).nullable(),
+        prothrombin: z.number().int().min(0).max(2).nullable(),
+        other: z.array(VTERiskFactorSchema).optional(),
+    }),
+    clinical: VTEClinicalFactorsSchema,
+    factors: z.array(VTERiskFactorSchema),
+    inheritedRelativeRisk: RiskRangeSchema,
+    relativeRisk: RiskRangeSchema,
+    baselineAnnualRisk: RiskRangeSchema,
+    annualAbsoluteRisk: RiskRangeSchema,
+    assumedInputs: z.array(z.string()),
+});
+
+export const F2GenotypeSchema = z.object({
+    rs1799963: z.string(),
+    prothrombinCopies: z.number().int().min(0).max(2).nullable(),
+    status: z.enum(['Normal', 'Heterozygous', 'Homozygous', 'Unknown']),
+    confidence: ConfidenceLevelSchema,
+});
+
+export const ContraceptiveSafetySchema = z.object({
+    combinedOCPs: z.enum(['Safe', 'Use Caution', 'Contraindicated']),
+    progestinOnly: z.enum(['Safe', 'Use Caution']),
+    estrogenHRT: z.enum(['Safe', 'Use Caution', 'Contraindicated']),
+    recommendedAlternatives: z.array(z.string()),
+    fdaBlackBoxApplies: z.boolean(),
+});
+
+export const ThrombophiliaAnalysisResultSchema = z.object({
+    gene: z.literal('F5/F2'),
+    f5: z.object({
+        rs6025: z.string(),
+        rs6027: z.string().optional(),
+        leidenCopies: z.number().int().min(0).max(2).nullable(),
+        thrombophiliaRisk: z.enum(['Normal', 'Elevated', 'High', 'Very High']),
+        vteRiskMultiplier: z.number().min(0),
+        confidence: ConfidenceLevelSchema,
+    }),
+    f2: F2GenotypeSchema,
+    inheritedThrombophilia: InheritedThrombophiliaSchema,
+    vteRisk: VTERiskEstimateSchema,
+    scenarios: z.array(z.object({
+        scenario: z.string(),
+        relativeRisk: RiskRangeSchema,
+        annualAbsoluteRisk: RiskRangeSchema,
+    })),
+    contraceptiveSafety: ContraceptiveSafetySchema,
     clinicalSummary: z.string(),
     safetyAlerts: z.array(z.string()),
     confidence: ConfidenceLevelSchema,
     limitations: z.array(z.string()),
+    guidelines: z.object({
+        cpic: z.string(),
+        notes: z.array(z.string()),
+    }),
+    references: z.array(z.string()),
+});
+
+// =============================================================================
+// CRITICAL SAFETY SCHEMAS (DPYD, TPMT, NUDT15)
+// =============================================================================
+
+export const MetabolizerPhenotypeSchema = z.enum([
+    'Normal Metabolizer',
+    'Intermediate Metabolizer',
+    'Poor Metabolizer',
+    'Unknown'
+]);
+
+export const SafetyDrugRecommendationSchema = z.object({
+    drug: z.string(),
+    category: z.string(),
+    recommendation: z.string(),
+    doseAdjustment: z.string().optional(),
+    riskLevel: z.enum(['critical', 'warning', 'caution', 'normal', 'informational']),
+    alternativeDrugs: z.array(z.string()).optional(),
+    monitoring: z.string().optional(),
+    fdaGuidance: z.boolean(),
+    cpicLevel: z.enum(['A', 'B', 'C']).optional(),
+});
+
+export const CriticalSafetyGuidelinesSchema = z.object({
+    cpic: z.string(),
+    fda: z.array(z.string()),
+});
+
+export const DPYDDiplotypeSchema = z.object({
+    allele1: z.string(),
+    allele2: z.string(),
+    phenotype: MetabolizerPhenotypeSchema,
+    activityScore: z.number().min(0).max(2).nullable(), // null when no DPYD variant was genotyped
+    confidence: ConfidenceLevelSchema,
+    detectedVariants: z.array(z.string()),
+    phaseAmbiguity: z.boolean().optional(),
+});
+
+export const DPYDDrugRecommendationSchema = SafetyDrugRecommendationSchema.extend({
+    startingDosePercent: z.number().min(0).max(100).nullable(),
+});
+
+export const DPYDAnalysisResultSchema = z.object({
+    gene: z.literal('DPYD'),
+    diplotype: DPYDDiplotypeSchema,
+    drugs: z.array(DPYDDrugRecommendationSchema),
+    clinicalSummary: z.string(),
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+    guidelines: CriticalSafetyGuidelinesSchema,
+    references: z.array(z.string()),
+});
+
+export const TPMTDiplotypeSchema = z.object({
+    allele1: z.string(),
+    allele2: z.string(),
+    phenotype: MetabolizerPhenotypeSchema,
+    confidence: ConfidenceLevelSchema,
+    detectedVariants: z.array(z.string()),
+    phaseAmbiguity: z.boolean().optional(),
+});
+
+export const CombinedThiopurineDosingSchema = z.object({
+    tpmtDiplotype: z.string(),
+    nudt15Diplotype: z.string().nullable(),
+    combinedPhenotype: z.enum([
+        'Normal Metabolizer',
+        'Intermediate Metabolizer',
+        'Compound Intermediate Metabolizer',
+        'Poor Metabolizer',
+        'Unknown'
+    ]),
+    limitingGene: z.enum(['TPMT', 'NUDT15', 'both']).nullable(),
+    startingDose: z.object({
+        mercaptopurine: z.string(),
+        azathioprine: z.string(),
+        thioguanine: z.string(),
+    }),
+    clinicalConsiderations: z.array(z.string()),
+});
+
+export const TPMTAnalysisResultSchema = z.object({
+    gene: z.literal('TPMT'),
+    diplotype: TPMTDiplotypeSchema,
+    drugs: z.array(SafetyDrugRecommendationSchema),
+    clinicalSummary: z.string(),
+    thiopurineDosing: CombinedThiopurineDosingSchema,
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+    guidelines: CriticalSafetyGuidelinesSchema,
+    references: z.array(z.string()),
+});
+
+export const NUDT15DiplotypeSchema = z.object({
+    allele1: z.string(),
+    allele2: z.string(),
+    phenotype: MetabolizerPhenotypeSchema,
+    confidence: ConfidenceLevelSchema,
+    detectedVariants: z.array(z.string()),
+});
+
+export const NUDT15AnalysisResultSchema = z.object({
+    gene: z.literal('NUDT15'),
+    diplotype: NUDT15DiplotypeSchema,
+    clinicalSummary: z.string(),
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+    guidelines: CriticalSafetyGuidelinesSchema,
+    references: z.array(z.string()),
+});
+
+export const HLARiskAlleleSchema = z.enum(['HLA-B*57:01', 'HLA-B*15:02', 'HLA-B*58:01', 'HLA-A*31:01']);
+
+export const HLAAlleleScreenSchema = z.object({
+    allele: HLARiskAlleleSchema,
+    tagSnp: z.string(),
+    genotype: z.string(),
+    status: z.enum(['Tag Positive', 'Tag Negative', 'Not Tested']),
+    tagCopies: z.number().int().min(0).max(2),
+    validatedForAncestry: z.boolean().nullable(),
+    concordance: z.array(z.object({
+        population: z.string(),
+        concordance: z.string(),
+    })),
+    drugs: z.array(z.string()),
+});
+
+export const HLADrugRecommendationSchema = SafetyDrugRecommendationSchema.extend({
+    alleles: z.array(HLARiskAlleleSchema),
+});
+
+export const HLAAnalysisResultSchema = z.object({
+    gene: z.literal('HLA'),
+    alleles: z.array(HLAAlleleScreenSchema),
+    drugs: z.array(HLADrugRecommendationSchema),
+    clinicalSummary: z.string(),
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+    guidelines: CriticalSafetyGuidelinesSchema,
+    references: z.array(z.string()),
+});
+
+export const G6PDGenotypeSchema = z.object({
+    alleles: z.array(z.string()).max(2),
+    ploidy: z.enum(['hemizygous', 'diploid', 'undetermined']),
+    status: z.enum(['Normal', 'Variable', 'Deficient', 'Unknown']),
+    deficientAlleles: z.array(z.string()).max(2),
+    confidence: ConfidenceLevelSchema,
+    detectedVariants: z.array(z.string()),
+    untestedAlleles: z.array(z.string()).optional(),
+});
+
+export const G6PDAnalysisResultSchema = z.object({
+    gene: z.literal('G6PD'),
+    genotype: G6PDGenotypeSchema,
+    drugs: z.array(SafetyDrugRecommendationSchema),
+    clinicalSummary: z.string(),
+    safetyAlerts: z.array(z.string()),
+    confidence: ConfidenceLevelSchema,
+    limitations: z.array(z.string()),
+    guidelines: CriticalSafetyGuidelinesSchema,
+    references: z.array(z.string()),
+});
+
+export const CriticalSafetySchema = z.object({
+    dpyd: DPYDAnalysisResultSchema.optional(),
+    tpmt: TPMTAnalysisResultSchema.optional(),
+    nudt15: NUDT15AnalysisResultSchema.optional(),
+    hla: HLAAnalysisResultSchema.optional(),
+    g6pd: G6PDAnalysisResultSchema.optional(),
 });
 
 // =============================================================================
@@ -307,11 +974,32 @@ export const ComprehensivePGxResultSchema = z.object({
     // Individual gene results (all optional)
     cyp2d6: CYP2D6AnalysisResultSchema.optional(),
     cyp2c9: CYP2C9AnalysisResultSchema.optional(),
+    cyp2c19: CYP2C19AnalysisResultSchema.optional(),
+    cyp2b6: CYP2B6AnalysisResultSchema.optional(),
+    cyp1a2: CYP1A2AnalysisResultSchema.optional(),
+    cyp3a4: CYP3A4AnalysisResultSchema.optional(),
     cyp3a5: z.any().optional(), // TODO: Add CYP3A5 schema
     vkorc1: VKORC1AnalysisResultSchema.optional(),
     slco1b1: SLCO1B1AnalysisResultSchema.optional(),
+    nat2: NAT2AnalysisResultSchema.optional(),
     ugt1a1: z.any().optional(), // TODO: Add UGT1A1 schema
     f5: z.any().optional(), // TODO: Add F5 schema
+    thrombophilia: ThrombophiliaAnalysisResultSchema.optional(),
+
+    // Critical safety genes
+    criticalSafety: CriticalSafetySchema.optional(),
+
+    // CYP enzymes with an inhibitor or inducer in the current medications
+    phenoconversion: z.array(PhenoconversionSchema).optional(),
+
+    // Personal medication list checked against every analyzer
+    medicationReview: MedicationReviewSchema.optional(),
+
+    // Knowledge base version and KB / analyzer mismatches
+    knowledgeBase: KnowledgeBaseStatusSchema.optional(),
+
+    // Caveats about the input file itself (VCF import)
+    dataLimitations: z.array(z.string()).optional(),
 
     // Summary
     summary: ComprehensivePGxSummarySchema,
@@ -331,30 +1019,81 @@ export type ApiMetadata = z.infer<typeof ApiMetadataSchema>;
 export type GenotypeInput = z.infer<typeof GenotypeInputSchema>;
 export type NormalizedGenotype = z.infer<typeof NormalizedGenotypeSchema>;
 
+export type MedicationInteraction = z.infer<typeof MedicationInteractionSchema>;
+export type Phenoconversion = z.infer<typeof PhenoconversionSchema>;
+
+export type DrugFinding = z.infer<typeof DrugFindingSchema>;
+export type MedicationReviewEntry = z.infer<typeof MedicationReviewEntrySchema>;
+export type MedicationReview = z.infer<typeof MedicationReviewSchema>;
+
 export type VKORC1Phenotype = z.infer<typeof VKORC1PhenotypeSchema>;
 export type VKORC1Genotype = z.infer<typeof VKORC1GenotypeSchema>;
+export type WarfarinDoseEstimate = z.infer<typeof WarfarinDoseEstimateSchema>;
 export type WarfarinDosingGuidance = z.infer<typeof WarfarinDosingGuidanceSchema>;
 export type CombinedWarfarinRisk = z.infer<typeof CombinedWarfarinRiskSchema>;
 export type VKORC1AnalysisResult = z.infer<typeof VKORC1AnalysisResultSchema>;
 
 export type CYP2C9Phenotype = z.infer<typeof CYP2C9PhenotypeSchema>;
+export type CYP2C9StarAllele = z.infer<typeof CYP2C9StarAlleleSchema>;
 export type CYP2C9Diplotype = z.infer<typeof CYP2C9DiplotypeSchema>;
 export type BleedingRisk = z.infer<typeof BleedingRiskSchema>;
 export type CYP2C9DrugRecommendation = z.infer<typeof CYP2C9DrugRecommendationSchema>;
 export type CYP2C9AnalysisResult = z.infer<typeof CYP2C9AnalysisResultSchema>;
 
+export type CYP2C19Phenotype = z.infer<typeof CYP2C19PhenotypeSchema>;
+export type CYP2C19Diplotype = z.infer<typeof CYP2C19DiplotypeSchema>;
+export type CYP2C19DrugRecommendation = z.infer<typeof CYP2C19DrugRecommendationSchema>;
+export type CYP2C19AnalysisResult = z.infer<typeof CYP2C19AnalysisResultSchema>;
+
 export type CYP2D6Phenotype = z.infer<typeof CYP2D6PhenotypeSchema>;
 export type CYP2D6Diplotype = z.infer<typeof CYP2D6DiplotypeSchema>;
 export type CYP2D6RiskLevel = z.infer<typeof CYP2D6RiskLevelSchema>;
 export type CYP2D6DrugRecommendation = z.infer<typeof CYP2D6DrugRecommendationSchema>;
 export type CYP2D6AnalysisResult = z.infer<typeof CYP2D6AnalysisResultSchema>;
 
+export type CYP2B6Phenotype = z.infer<typeof CYP2B6PhenotypeSchema>;
+export type CYP2B6Diplotype = z.infer<typeof CYP2B6DiplotypeSchema>;
+export type CYP2B6DrugRecommendation = z.infer<typeof CYP2B6DrugRecommendationSchema>;
+export type CYP2B6AnalysisResult = z.infer<typeof CYP2B6AnalysisResultSchema>;
+
+export type CYP1A2Inducibility = z.infer<typeof CYP1A2InducibilitySchema>;
+export type CYP1A2Genotype = z.infer<typeof CYP1A2GenotypeSchema>;
+export type CYP1A2DrugRecommendation = z.infer<typeof CYP1A2DrugRecommendationSchema>;
+export type CYP1A2AnalysisResult = z.infer<typeof CYP1A2AnalysisResultSchema>;
+
+export type NAT2Phenotype = z.infer<typeof NAT2PhenotypeSchema>;
+export type NAT2Genotype = z.infer<typeof NAT2GenotypeSchema>;
+export type NAT2DrugRecommendation = z.infer<typeof NAT2DrugRecommendationSchema>;
+export type NAT2AnalysisResult = z.infer<typeof NAT2AnalysisResultSchema>;
+
 export type SLCO1B1Phenotype = z.infer<typeof SLCO1B1PhenotypeSchema>;
 export type SLCO1B1Diplotype = z.infer<typeof SLCO1B1DiplotypeSchema>;
 export type MyopathyRisk = z.infer<typeof MyopathyRiskSchema>;
-export type StatinRecommendation = z.infer<typeof StatinRecommendationSchema>;
+export type StatinGuidance = z.infer<typeof StatinGuidanceSchema>;
+export type ABCG2Genotype = z.infer<typeof ABCG2GenotypeSchema>;
 export type SLCO1B1AnalysisResult = z.infer<typeof SLCO1B1AnalysisResultSchema>;
 
+export type CYP3A4Phenotype = z.infer<typeof CYP3A4PhenotypeSchema>;
+export type CYP3A4Diplotype = z.infer<typeof CYP3A4DiplotypeSchema>;
+export type CombinedCYP3AMetabolism = z.infer<typeof CombinedCYP3AMetabolismSchema>;
+export type CYP3A4AnalysisResult = z.infer<typeof CYP3A4AnalysisResultSchema>;
+
+export type RiskRange = z.infer<typeof RiskRangeSchema>;
+export type VTERiskEstimate = z.infer<typeof VTERiskEstimateSchema>;
+export type F2Genotype = z.infer<typeof F2GenotypeSchema>;
+export type ThrombophiliaAnalysisResult = z.infer<typeof ThrombophiliaAnalysisResultSchema>;
+
+export type MetabolizerPhenotype = z.infer<typeof MetabolizerPhenotypeSchema>;
+export type DPYDAnalysisResult = z.infer<typeof DPYDAnalysisResultSchema>;
+export type CombinedThiopurineDosing = z.infer<typeof CombinedThiopurineDosingSchema>;
+export type TPMTAnalysisResult = z.infer<typeof TPMTAnalysisResultSchema>;
+export type NUDT15AnalysisResult = z.infer<typeof NUDT15AnalysisResultSchema>;
+export type HLAAlleleScreen = z.infer<typeof HLAAlleleScreenSchema>;
+export type HLAAnalysisResult = z.infer<typeof HLAAnalysisResultSchema>;
+export type G6PDGenotype = z.infer<typeof G6PDGenotypeSchema>;
+export type G6PDAnalysisResult = z.infer<typeof G6PDAnalysisResultSchema>;
+export type CriticalSafety = z.infer<typeof CriticalSafetySchema>;
+
 export type ComprehensivePGxSummary = z.infer<typeof ComprehensivePGxSummarySchema>;
 export type ComprehensivePGxResult = z.infer<typeof ComprehensivePGxResultSchema>;
 
@@ -370,6 +1109,14 @@ export function validateVKORC1Result(data: unknown): VKORC1AnalysisResult {
     return VKORC1AnalysisResultSchema.parse(data);
 }
 
+/**
+ * Validate a warfarin dose estimate
+ * @throws ZodError if validation fails
+ */
+export function validateWarfarinDoseEstimate(data: unknown): WarfarinDoseEstimate {
+    return WarfarinDoseEstimateSchema.parse(data);
+}
+
 /**
  * Validate a CYP2C9 analysis result
  * @throws ZodError if validation fails
@@ -378,6 +1125,118 @@ export function validateCYP2C9Result(data: unknown): CYP2C9AnalysisResult {
     return CYP2C9AnalysisResultSchema.parse(data);
 }
 
+/**
+ * Validate a CYP2C19 analysis result
+ * @throws ZodError if validation fails
+ */
+export function validateCYP2C19Result(data: unknown): CYP2C19AnalysisResult {
+    return CYP2C19AnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate a CYP2B6 analysis result
+ * @throws ZodError if validation fails
+ */
+export function validateCYP2B6Result(data: unknown): CYP2B6AnalysisResult {
+    return CYP2B6AnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate a CYP1A2 analysis result
+ * @throws ZodError if validation fails
+ */
+export function validateCYP1A2Result(data: unknown): CYP1A2AnalysisResult {
+    return CYP1A2AnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate a NAT2 analysis result
+ * @throws ZodError if validation fails
+ */
+export function validateNAT2Result(data: unknown): NAT2AnalysisResult {
+    return NAT2AnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate an SLCO1B1 analysis result (including per-statin guidance)
+ * @throws ZodError if validation fails
+ */
+export function validateSLCO1B1Result(data: unknown): SLCO1B1AnalysisResult {
+    return SLCO1B1AnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate a CYP3A4 analysis result (including the combined CYP3A4/CYP3A5 phenotype)
+ * @throws ZodError if validation fails
+ */
+export function validateCYP3A4Result(data: unknown): CYP3A4AnalysisResult {
+    return CYP3A4AnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate a medication review
+ * @throws ZodError if validation fails
+ */
+export function validateMedicationReview(data: unknown): MedicationReview {
+    return MedicationReviewSchema.parse(data);
+}
+
+/**
+ * Validate a VTE risk estimate
+ * @throws ZodError if validation fails
+ */
+export function validateVTERiskEstimate(data: unknown): VTERiskEstimate {
+    return VTERiskEstimateSchema.parse(data);
+}
+
+/**
+ * Validate an F5/F2 thrombophilia panel result
+ * @throws ZodError if validation fails
+ */
+export function validateThrombophiliaResult(data: unknown): ThrombophiliaAnalysisResult {
+    return ThrombophiliaAnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate a DPYD analysis result
+ * @throws ZodError if validation fails
+ */
+export function validateDPYDResult(data: unknown): DPYDAnalysisResult {
+    return DPYDAnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate a TPMT analysis result (including combined thiopurine dosing)
+ * @throws ZodError if validation fails
+ */
+export function validateTPMTResult(data: unknown): TPMTAnalysisResult {
+    return TPMTAnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate a NUDT15 analysis result
+ * @throws ZodError if validation fails
+ */
+export function validateNUDT15Result(data: unknown): NUDT15AnalysisResult {
+    return NUDT15AnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate an HLA tag-SNP screening result
+ * @throws ZodError if validation fails
+ */
+export function validateHLAResult(data: unknown): HLAAnalysisResult {
+    return HLAAnalysisResultSchema.parse(data);
+}
+
+/**
+ * Validate a G6PD analysis result
+ * @throws ZodError if validation fails
+ */
+export function validateG6PDResult(data: unknown): G6PDAnalysisResult {
+    return G6PDAnalysisResultSchema.parse(data);
+}
+
 /**
  * Validate comprehensive PGx result
  * @throws ZodError if validation fails
@@ -1,13 +1,99 @@
 /**
  * Genotype Normalization Utilities
  *
- * Simplified for 23andMe-only data processing.
- * Handles genotype format normalization and validation.
+ * Provider model, raw data parsing and genotype normalization.
  *
- * All data is from 23andMe raw data files (forward strand, GRCh37).
+ * Supported raw data formats (all forward strand):
+ * - 23andMe: tab-separated rsid/chromosome/position/genotype, GRCh37
+ * - AncestryDNA: tab-separated with allele1/allele2 columns, chromosomes 23-26, no-call '0'
+ * - MyHeritage: quoted CSV (RSID,CHROMOSOME,POSITION,RESULT) after '#' comments, GRCh37
+ * - FamilyTreeDNA: the same CSV layout without the MyHeritage comment block, GRCh37
+ * - Living DNA: 23andMe-style tab-separated file with a Living DNA comment header, GRCh37
+ * - Whole-genome VCF (Nebula, Dante Labs, ...): first sample's GT, GRCh37 or GRCh38 (see vcf-parser.ts)
  */
 
-export type GeneticProvider = '23andme' | 'unknown';
+import { parseVCF } from './vcf-parser';
+
+export const GENETIC_PROVIDERS = [
+  '23andme',
+  'ancestrydna',
+  'myheritage',
+  'ftdna',
+  'livingdna',
+  'vcf',
+  'unknown'
+] as const;
+
+export type GeneticProvider = typeof GENETIC_PROVIDERS[number];
+
+export interface ProviderProfile {
+  name: string;
+  platform: string;
+  dataType: 'array' | 'sequencing' | 'unknown';
+  referenceBuild: string;
+}
+
+export const PROVIDER_PROFILES: Record<GeneticProvider, ProviderProfile> = {
+  '23andme': {
+    name: '23andMe',
+    platform: 'Illumina OmniExpress (v3/v4) or Global Screening Array (v5) with custom content',
+    dataType: 'array',
+    referenceBuild: 'GRCh37'
+  },
+  ancestrydna: {
+    name: 'AncestryDNA',
+    platform: 'Illumina custom genealogy array (OmniExpress-derived)',
+    dataType: 'array',
+    referenceBuild: 'GRCh37'
+  },
+  myheritage: {
+    name: 'MyHeritage',
+    platform: 'Illumina Global Screening Array',
+    dataType: 'array',
+    referenceBuild: 'GRCh37'
+  },
+  ftdna: {
+    name: 'FamilyTreeDNA',
+    platform: 'Illumina OmniExpress (pre-2019) or Global Screening Array',
+    dataType: 'array',
+    referenceBuild: 'GRCh37'
+  },
+  livingdna: {
+    name: 'Living DNA',
+    platform: 'Illumina Global Screening Array',
+    dataType: 'array',
+    referenceBuild: 'GRCh37'
+  },
+  vcf: {
+    name: 'Whole-genome VCF',
+    platform: 'Whole-genome sequencing',
+    dataType: 'sequencing',
+    referenceBuild: 'GRCh37 or GRCh38'
+  },
+  unknown: {
+    name: 'Unknown provider',
+    platform: 'Unknown',
+    dataType: 'unknown',
+    referenceBuild: 'unknown'
+  }
+};
+
+/**
+ * One row of a raw data file
+ */
+export interface RawGenotype {
+  rsid: string;
+  chromosome: string;
+  position: number;
+  genotype: string; // '--' for no-calls
+  phased?: boolean;  // VCF phased GT: alleles are in haplotype order
+  phaseSet?: string; // VCF PS field
+}
+
+export interface ParsedRawData {
+  provider: GeneticProvider;
+  genotypes: RawGenotype[];
+}
 
 export interface GenotypeNormalizationResult {
   normalized: string | null; // Normalized genotype (e.g., "AG") or null if invalid
@@ -15,37 +101,253 @@ export interface GenotypeNormalizationResult {
   rawInput: string;
 }
 
+// Header lines inspected for provider detection
+const HEADER_LINES = 50;
+
+const CSV_HEADER = /^"?rsid"?,"?chromosome"?,"?position"?,"?result"?/i;
+const ANCESTRY_HEADER = /^rsid\tchromosome\tposition\tallele1\tallele2/i;
+
+// AncestryDNA numbers the sex chromosomes, pseudoautosomal region and mtDNA
+const ANCESTRY_CHROMOSOMES: Record<string, string> = { '23': 'X', '24': 'Y', '25': 'XY', '26': 'MT' };
+
 /**
- * Detect genetic data provider from file format or metadata
- * Simplified for 23andMe-only support
+ * Detect genetic data provider from the file header
+ *
+ * Comment lines naming the company are checked first; files without one (FamilyTreeDNA,
+ * stripped exports) are recognised by their column layout.
  */
 export function detectProvider(rawData: string): GeneticProvider {
-  const lowerData = rawData.toLowerCase();
+  const lines = rawData.split(/\r?\n/, HEADER_LINES);
+  const header = lines.join('\n').toLowerCase();
 
-  if (lowerData.includes('23andme') || lowerData.includes('23-and-me')) {
-    return '23andme';
-  }
+  if (header.includes('##fileformat=vcf')) return 'vcf';
+  if (header.includes('myheritage')) return 'myheritage';
+  if (header.includes('ancestrydna')) return 'ancestrydna';
+  if (header.includes('living dna') || header.includes('livingdna')) return 'livingdna';
+  if (header.includes('familytreedna') || header.includes('family tree dna')) return 'ftdna';
+  if (header.includes('23andme') || header.includes('23-and-me')) return '23andme';
+
+  const firstDataLine = lines.find(l => !l.startsWith('#') && l.trim() !== '');
+  if (!firstDataLine) return 'unknown';
+
+  if (CSV_HEADER.test(firstDataLine)) return 'ftdna';
+  if (ANCESTRY_HEADER.test(firstDataLine)) return 'ancestrydna';
+  if (firstDataLine.startsWith('#CHROM')) return 'vcf';
+
+  const columns = firstDataLine.split('\t');
+  if (columns.length === 4 && /^(rs|i)\d+/.test(columns[0])) return '23andme';
 
   return 'unknown';
 }
 
+function dataLines(content: string): string[] {
+  return content.split(/\r?\n/).filter(l => l.trim() !== '' && !l.startsWith('#'));
+}
+
+function toPosition(value: string): number {
+  return parseInt(value.trim(), 10);
+}
+
+/**
+ * 23andMe and Living DNA: rsid, chromosome, position, genotype (tab-separated)
+ */
+export function parseTabGenotypeFile(content: string): RawGenotype[] {
+  const genotypes: RawGenotype[] = [];
+
+  for (const line of dataLines(content)) {
+    const parts = line.split('\t');
+    if (parts.length < 4 || /^rsid$/i.test(parts[0].trim())) continue;
+
+    genotypes.push({
+      rsid: parts[0].trim(),
+      chromosome: parts[1].trim(),
+      position: toPosition(parts[2]),
+      genotype: parts[3].trim()
+    });
+  }
+
+  return genotypes;
+}
+
+/**
+ * AncestryDNA: rsid, chromosome, position, allele1, allele2 (tab-separated).
+ * No-calls ('0') become '--' and numbered chromosomes 23-26 become X, Y, XY and MT.
+ */
+export function parseAncestryDNAFile(content: string): RawGenotype[] {
+  const genotypes: RawGenotype[] = [];
+
+  for (const line of dataLines(content)) {
+    const parts = line.split('\t');
+    if (parts.length < 5 || /^rsid$/i.test(parts[0].trim())) continue;
+
+    const allele1 = parts[3].trim();
+    const allele2 = parts[4].trim();
+    const chromosome = parts[1].trim();
+
+    genotypes.push({
+      rsid: parts[0].trim(),
+      chromosome: ANCESTRY_CHROMOSOMES[chromosome] ?? chromosome,
+      position: toPosition(parts[2]),
+      genotype: allele1 === '0' || allele2 === '0' ? '--' : allele1 + allele2
+    });
+  }
+
+  return genotypes;
+}
+
+/**
+ * MyHeritage and FamilyTreeDNA: "RSID","CHROMOSOME","POSITION","RESULT" (CSV, optionally quoted)
+ */
+export function parseCsvGenotypeFile(content: string): RawGenotype[] {
+  const genotypes: RawGenotype[] = [];
+
+  for (const line of dataLines(content)) {
+    if (CSV_HEADER.test(line)) continue;
+
+    const parts = line.split(',').map(p => p.trim().replace(/^"|"$/g, ''));
+    if (parts.length < 4) continue;
+
+    genotypes.push({
+      rsid: parts[0],
+      chromosome: parts[1],
+      position: toPosition(parts[2]),
+      genotype: parts[3]
+    });
+  }
+
+  return genotypes;
+}
+
+const PROVIDER_PARSERS: Record<GeneticProvider, (content: string) => RawGenotype[]> = {
+  '23andme': parseTabGenotypeFile,
+  ancestrydna: parseAncestryDNAFile,
+  myheritage: parseCsvGenotypeFile,
+  ftdna: parseCsvGenotypeFile,
+  livingdna: parseTabGenotypeFile,
+  vcf: content => parseVCF(content).genotypes,
+  unknown: () => []
+};
+
+/**
+ * Parse a raw data file with the parser for its provider
+ *
+ * @param content - Raw file contents
+ * @param provider - Provider override (detected from the header when omitted)
+ * @returns Detected provider and parsed rows (empty for unrecognised formats)
+ */
+export function parseRawData(content: string, provider: GeneticProvider = detectProvider(content)): ParsedRawData {
+  return { provider, genotypes: PROVIDER_PARSERS[provider](content) };
+}
+
+export interface CoverageOptions {
+  structuralVariants?: boolean; // Gene has clinically relevant deletions/duplications/hybrids
+}
+
 /**
- * Simple genotype normalization for 23andMe data
+ * Analyzed positions with a usable call, and those without one
+ */
+export interface PositionCoverage {
+  tested: string[];
+  untested: string[];
+}
+
+/**
+ * Split an analyzer's positions into tested and untested (missing rows and no-calls)
+ *
+ * @param genotypes - Array of genotype objects
+ * @param positions - rsids the analyzer reads
+ */
+export function getPositionCoverage(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  positions: string[]
+): PositionCoverage {
+  const tested = positions.filter(rsid => extractIndelGenotype(genotypes, rsid) ?? extractAndNormalize(genotypes, rsid));
+  return { tested, untested: positions.filter(rsid => !tested.includes(rsid)) };
+}
+
+/**
+ * Why positions are untested on each platform
+ */
+function describeUntested(provider: GeneticProvider, gene: string, untested: string): string {
+  const profile = PROVIDER_PROFILES[provider];
+
+  switch (provider) {
+    case '23andme':
+      return `${gene} ${untested} are not on your 23andMe chip version (v3/v4 OmniExpress or v5 GSA) - alleles defined there are untested, not normal`;
+    case 'ancestrydna':
+      return `${gene} ${untested} are not on the AncestryDNA genealogy array - alleles defined there are untested, not normal`;
+    case 'myheritage':
+    case 'ftdna':
+    case 'livingdna':
+      return `${gene} ${untested} are not in your ${profile.name} file (${profile.platform}) - alleles defined there are untested, not normal`;
+    case 'vcf':
+      return `${gene} ${untested} have no VCF record and stay untested - only gVCF reference blocks are read as homozygous reference`;
+    default:
+      return `Data provider not recognised - ${gene} ${untested} are untested`;
+  }
+}
+
+/**
+ * Provider-specific coverage caveats for one gene: the analyzed positions the data tested and
+ * did not test, and what each platform can miss beyond them
+ *
+ * @param provider - Data provider
+ * @param gene - Gene symbol used in the messages
+ * @param genotypes - Array of genotype objects
+ * @param positions - rsids the analyzer reads for this gene
+ * @param options - Gene characteristics that change what each platform can see
+ */
+export function getProviderCoverageLimitations(
+  provider: GeneticProvider,
+  gene: string,
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  positions: string[],
+  options: CoverageOptions = {}
+): string[] {
+  const profile = PROVIDER_PROFILES[provider];
+  const { tested, untested } = getPositionCoverage(genotypes, positions);
+
+  const limitations = [
+    `${profile.name} tested ${gene} at ${tested.length > 0 ? tested.join(', ') : 'none of the analyzed positions'}`
+  ];
+  if (untested.length > 0) {
+    limitations.push(describeUntested(provider, gene, untested.join(', ')));
+  }
+
+  switch (provider) {
+    case 'myheritage':
+    case 'ftdna':
+    case 'livingdna':
+      limitations.push(`${profile.name} (${profile.platform}): rare-variant array calls have a high false-positive rate - confirm rare ${gene} findings clinically`);
+      break;
+    case 'vcf':
+      if (options.structuralVariants) {
+        limitations.push(`${gene} deletions, duplications and hybrid alleles need a dedicated copy-number caller and are not read from SNV records`);
+      }
+      break;
+  }
+  return limitations;
+}
+
+/**
+ * Simple genotype normalization for raw data genotypes
  *
  * Handles:
  * - Case normalization (ct -> CT)
  * - Whitespace removal (C T -> CT)
  * - Alphabetical sorting (GA -> AG, TC -> CT)
  * - No-call handling (--, II, DD, null -> null)
+ * - Single-allele hemizygous calls (X in males, Y, MT) are kept as one allele
  *
  * Examples:
  * - "ct" -> "CT"
  * - "C T" -> "CT"
  * - "GA" -> "AG" (sorted)
+ * - "T" -> "T" (hemizygous)
  * - "--" -> null
  * - null -> null
  *
- * @param genotype - Raw genotype from 23andMe file
+ * @param genotype - Raw genotype from a raw data file
  * @returns Normalized genotype string or null if invalid
  */
 export function normalizeGenotype(genotype: string | null | undefined): string | null {
@@ -70,13 +372,13 @@ export function normalizeGenotype(genotype: string | null | undefined): string |
   // Remove whitespace and convert to uppercase
   const cleaned = trimmed.replace(/\s+/g, '').toUpperCase();
 
-  // Validate length (should be 2 characters for SNPs)
-  if (cleaned.length !== 2) {
+  // Validate length: 2 characters for diploid SNPs, 1 for hemizygous calls
+  if (cleaned.length !== 1 && cleaned.length !== 2) {
     return null;
   }
 
   // Validate characters (A, T, C, G only)
-  const validChars = /^[ATCG]{2}$/;
+  const validChars = /^[ATCG]{1,2}$/;
   if (!validChars.test(cleaned)) {
     return null;
   }
@@ -90,7 +392,7 @@ export function normalizeGenotype(genotype: string | null | undefined): string |
 /**
  * Normalize genotype with detailed result information
  *
- * @param genotype - Raw genotype string from 23andMe
+ * @param genotype - Raw genotype string from a raw data file
  * @returns Normalization result with validation status
  */
 export function normalizeGenotypeDetailed(
@@ -106,6 +408,90 @@ export function normalizeGenotypeDetailed(
   };
 }
 
+export type StrandStatus = 'forward' | 'reverse' | 'ambiguous' | 'invalid' | 'no_call';
+
+/**
+ * Reference and alternate allele of a SNV, on the strand the analysis expects
+ */
+export interface ReferenceAlleles {
+  ref: string;
+  alt: string;
+}
+
+export interface StrandNormalizationResult {
+  normalized: string | null; // Sorted genotype on the reference strand, or null
+  status: StrandStatus;
+  rawInput: string;
+}
+
+const COMPLEMENT: Record<string, string> = { A: 'T', T: 'A', C: 'G', G: 'C' };
+
+/**
+ * Complement every allele of a genotype ('AG' -> 'TC')
+ */
+export function complementGenotype(genotype: string): string {
+  return genotype.split('').map(a => COMPLEMENT[a] ?? a).join('');
+}
+
+/**
+ * True for single-nucleotide ref/alt pairs (indel and repeat loci cannot be strand-checked)
+ */
+export function isSingleNucleotideVariant(alleles: ReferenceAlleles): boolean {
+  return /^[ACGT]$/.test(alleles.ref) && /^[ACGT]$/.test(alleles.alt);
+}
+
+/**
+ * A/T and C/G SNPs read the same on both strands, so the strand cannot be inferred
+ */
+export function isPalindromicSNP(alleles: ReferenceAlleles): boolean {
+  return COMPLEMENT[alleles.ref] === alleles.alt;
+}
+
+/**
+ * Normalize a genotype onto the strand of a reference allele pair
+ *
+ * - forward: alleles are ref/alt as reported
+ * - reverse: alleles match after complementing (opposite-strand report) - complemented
+ * - ambiguous: A/T or C/G SNP - kept as reported, strand unverifiable
+ * - invalid: alleles match neither strand - normalized is null
+ * - no_call: '--', '00', 'II'/'DD' or empty
+ *
+ * Single-allele (hemizygous) calls are checked the same way.
+ *
+ * @param genotype - Raw genotype from a raw data file
+ * @param alleles - Single-nucleotide ref/alt from the knowledge base
+ */
+export function normalizeGenotypeStrand(
+  genotype: string | null | undefined,
+  alleles: ReferenceAlleles
+): StrandNormalizationResult {
+  const rawInput = genotype ? String(genotype) : '';
+  const cleaned = rawInput.replace(/\s+/g, '').toUpperCase();
+
+  const normalized = normalizeGenotype(genotype);
+
+  if (normalized === null) {
+    const status = cleaned === '' || /^[-0.]+$/.test(cleaned) || cleaned === 'II' || cleaned === 'DD'
+      ? 'no_call'
+      : 'invalid';
+    return { normalized: null, status, rawInput };
+  }
+
+  const valid = new Set([alleles.ref, alleles.alt]);
+  const onStrand = (g: string) => g.split('').every(a => valid.has(a));
+
+  if (onStrand(normalized)) {
+    return { normalized, status: isPalindromicSNP(alleles) ? 'ambiguous' : 'forward', rawInput };
+  }
+
+  const complemented = complementGenotype(normalized).split('').sort().join('');
+  if (onStrand(complemented)) {
+    return { normalized: complemented, status: 'reverse', rawInput };
+  }
+
+  return { normalized: null, status: 'invalid', rawInput };
+}
+
 /**
  * Extract a specific genotype from an array by rsid
  *
@@ -136,6 +522,22 @@ export function extractAndNormalize(
   return normalizeGenotype(raw);
 }
 
+/**
+ * Extract an indel call in the 23andMe I/D convention ('I' = longer allele, 'D' = shorter)
+ *
+ * @param genotypes - Array of genotype objects
+ * @param rsid - RS identifier of an insertion/deletion locus
+ * @returns 'II', 'DI' or 'DD', or null if missing, no-call or reported as bases
+ */
+export function extractIndelGenotype(
+  genotypes: Array<{ rsid: string; genotype: string }>,
+  rsid: string
+): string | null {
+  const raw = extractGenotype(genotypes, rsid)?.trim().toUpperCase();
+  if (!raw || !/^[DI]{2}$/.test(raw)) return null;
+  return raw.split('').sort().join('');
+}
+
 /**
  * Validate that a genotype array has the minimum required SNPs
  *
@@ -0,0 +1,386 @@
+/**
+ * VCF Parser
+ *
+ * Reads single- and multi-sample VCF 4.x files from WGS/WES pipelines and gVCFs.
+ *
+ * - Sample selection by name or column index (first sample by default)
+ * - Multi-allelic ALT: GT indices are resolved against REF + every ALT allele
+ * - Indels are reported with the 23andMe convention: 'I' = longer allele, 'D' = shorter allele
+ * - Phased GTs ('0|1') keep their haplotype order and phase set (PS); the star-allele engine
+ *   uses them to rule out diplotypes the phase contradicts
+ * - gVCF reference blocks (<NON_REF> / <*> with END) are kept as covered intervals, so a
+ *   hom-ref position can be told apart from one that was not sequenced
+ * - Calls failing FILTER, QUAL, GQ or DP thresholds become no-calls ('--')
+ * - Records without an ID can be named through an rsID lookup by chromosome and position
+ * - Copy-number records (<CNV>, <DEL>, <DUP>) are returned as intervals with their copy number
+ */
+
+import type { RawGenotype } from './genotype-utils';
+
+export type ReferenceBuild = 'GRCh37' | 'GRCh38' | 'unknown';
+
+export interface VCFQualityThresholds {
+  requirePass: boolean; // FILTER must be PASS (or '.')
+  minQual: number;      // Site QUAL; missing QUAL passes
+  minGQ: number;        // Sample GQ; missing GQ passes
+  minDP: number;        // Sample DP (MIN_DP for reference blocks); missing DP passes
+}
+
+export const DEFAULT_VCF_THRESHOLDS: VCFQualityThresholds = {
+  requirePass: true,
+  minQual: 0,
+  minGQ: 20,
+  minDP: 10
+};
+
+export interface VCFParseOptions {
+  sample?: string | number; // Sample name or 0-based sample column index
+  thresholds?: Partial<VCFQualityThresholds>;
+  rsidAt?: (chromosome: string, position: number) => string | null; // For records with ID '.'
+}
+
+/**
+ * Interval the selected sample is confidently homozygous reference over (1-based, inclusive)
+ */
+export interface ReferenceBlock {
+  chromosome: string;
+  start: number;
+  end: number;
+  ref: string; // Reference base at start
+}
+
+/**
+ * Copy-number call from a <CNV>, <DEL> or <DUP> record (1-based, inclusive)
+ */
+export interface CopyNumberRecord {
+  id: string | null;
+  chromosome: string;
+  start: number;
+  end: number;
+  copyNumber: number; // FORMAT CN, or derived from the GT of a <DEL>
+}
+
+export interface VCFParseStats {
+  records: number;
+  snvs: number;
+  indels: number;
+  multiAllelic: number;
+  phased: number;
+  noCalls: number;
+  filtered: number;        // Calls set to '--' by the quality thresholds
+  referenceBlocks: number;
+  skipped: number;         // MNPs, complex alleles and records without GT
+  rsidsAssigned: number;   // IDs filled in by position lookup
+}
+
+export interface VCFParseResult {
+  samples: string[];
+  sample: string | null; // Selected sample (null for sites-only VCFs)
+  referenceBuild: ReferenceBuild;
+  genotypes: RawGenotype[];
+  referenceBlocks: ReferenceBlock[];
+  copyNumberRecords: CopyNumberRecord[];
+  stats: VCFParseStats;
+}
+
+// chr1 length identifies the assembly when ##reference does not name it
+const CHR1_LENGTHS: Record<string, ReferenceBuild> = {
+  '249250621': 'GRCh37',
+  '248956422': 'GRCh38'
+};
+
+const SYMBOLIC_ALLELE = /^<.*>$/;
+const COPY_NUMBER_ALLELE = /^<(CNV|DEL|DUP)(:[^>]*)?>$/;
+
+/**
+ * Reference build from the ##reference and ##contig header lines
+ */
+export function detectReferenceBuild(content: string): ReferenceBuild {
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.startsWith('##')) break;
+
+    const lower = line.toLowerCase();
+    if (!lower.startsWith('##reference') && !lower.startsWith('##contig')) continue;
+
+    if (/grch38|hg38|hs38/.test(lower)) return 'GRCh38';
+    if (/grch37|hg19|hs37|b37|human_g1k_v37/.test(lower)) return 'GRCh37';
+
+    const chr1 = line.match(/ID=(?:chr)?1,.*length=(\d+)/i);
+    if (chr1 && CHR1_LENGTHS[chr1[1]]) return CHR1_LENGTHS[chr1[1]];
+  }
+
+  return 'unknown';
+}
+
+function parseInfo(info: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  if (info === '.') return fields;
+
+  for (const entry of info.split(';')) {
+    const [key, value = ''] = entry.split('=');
+    fields[key] = value;
+  }
+  return fields;
+}
+
+function parseSampleFields(format: string, sample: string): Record<string, string> {
+  const keys = format.split(':');
+  const values = sample.split(':');
+  return Object.fromEntries(keys.map((key, i) => [key, values[i] ?? '.']));
+}
+
+function belowThreshold(value: string | undefined, minimum: number): boolean {
+  if (value === undefined || value === '.' || value === '') return false;
+  const number = parseFloat(value);
+  return Number.isFinite(number) && number < minimum;
+}
+
+function passesQuality(
+  filter: string,
+  qual: string,
+  fields: Record<string, string>,
+  thresholds: VCFQualityThresholds
+): boolean {
+  if (thresholds.requirePass && filter !== 'PASS' && filter !== '.') return false;
+  if (belowThreshold(qual, thresholds.minQual)) return false;
+  if (belowThreshold(fields.GQ, thresholds.minGQ)) return false;
+  return !belowThreshold(fields.MIN_DP ?? fields.DP, thresholds.minDP);
+}
+
+/**
+ * Allele codes of a record: bases for SNVs, 'I'/'D' for indels, null for alleles that cannot
+ * be reported (symbolic <NON_REF>, MNPs, mixed SNV/indel sites)
+ */
+function encodeAlleles(ref: string, alts: string[]): { codes: Array<string | null>; type: 'snv' | 'indel' } | null {
+  const concrete = alts.filter(a => !SYMBOLIC_ALLELE.test(a) && a !== '*');
+  if (concrete.length === 0) return null;
+
+  if (ref.length === 1 && concrete.every(a => a.length === 1)) {
+    const codes = [ref, ...alts].map(a => (/^[ACGT]$/i.test(a) ? a.toUpperCase() : null));
+    return { codes, type: 'snv' };
+  }
+
+  const insertions = concrete.every(a => a.length > ref.length);
+  const deletions = concrete.every(a => a.length < ref.length);
+  if (!insertions && !deletions) return null;
+
+  const altCode = insertions ? 'I' : 'D';
+  const codes = [
+    insertions ? 'D' : 'I',
+    ...alts.map(a => (a === '*' ? 'D' : SYMBOLIC_ALLELE.test(a) ? null : altCode))
+  ];
+  return { codes, type: 'indel' };
+}
+
+/**
+ * Copy number of a structural record: FORMAT CN when present, otherwise two minus the number
+ * of deleted alleles for <DEL>. Duplications without CN are unknown.
+ */
+function copyNumberOf(alts: string[], indices: string[], fields: Record<string, string>): number | null {
+  const cn = parseInt(fields.CN ?? '', 10);
+  if (Number.isFinite(cn)) return cn;
+
+  if (indices.some(i => i === '.')) return null;
+  const called = indices.map(i => (i === '0' ? null : alts[parseInt(i, 10) - 1]));
+  if (!called.every(a => a === null || a.startsWith('<DEL'))) return null;
+
+  return 2 - called.filter(a => a !== null).length;
+}
+
+function selectSampleColumn(samples: string[], sample: string | number | undefined): number {
+  if (sample === undefined) return 0;
+
+  const index = typeof sample === 'number' ? sample : samples.indexOf(sample);
+  if (index < 0 || index >= samples.length) {
+    throw new Error(`Sample "${sample}" not found in VCF (samples: ${samples.join(', ') || 'none'})`);
+  }
+  return index;
+}
+
+function pickId(id: string): string | null {
+  if (id === '.' || id === '') return null;
+  const ids = id.split(';');
+  return ids.find(i => i.startsWith('rs')) ?? ids[0];
+}
+
+/**
+ * Parse a VCF or gVCF file for one sample
+ *
+ * @param content - VCF file contents
+ * @param options - Sample selection, quality thresholds and rsID lookup
+ * @throws Error if the requested sample is not in the file
+ */
+export function parseVCF(content: string, options: VCFParseOptions = {}): VCFParseResult {
+  const thresholds = { ...DEFAULT_VCF_THRESHOLDS, ...options.thresholds };
+  const genotypes: RawGenotype[] = [];
+  const referenceBlocks: ReferenceBlock[] = [];
+  const copyNumberRecords: CopyNumberRecord[] = [];
+  const stats: VCFParseStats = {
+    records: 0,
+    snvs: 0,
+    indels: 0,
+    multiAllelic: 0,
+    phased: 0,
+    noCalls: 0,
+    filtered: 0,
+    referenceBlocks: 0,
+    skipped: 0,
+    rsidsAssigned: 0
+  };
+
+  let samples: string[] = [];
+  let column = 9;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.startsWith('##') || line.trim() === '') continue;
+
+    if (line.startsWith('#CHROM')) {
+      samples = line.split('\t').slice(9).map(s => s.trim());
+      column = 9 + selectSampleColumn(samples, options.sample);
+      continue;
+    }
+
+    const parts = line.split('\t');
+    if (parts.length <= column || parts.length < 10) continue;
+    stats.records++;
+
+    const [chrom, pos, id, ref, alt, qual, filter, info, format] = parts;
+    const fields = parseSampleFields(format, parts[column]);
+    const chromosome = chrom.replace(/^chr/i, '');
+    const position = parseInt(pos, 10);
+
+    const gt = fields.GT ?? '.';
+    const phased = gt.includes('|');
+    const indices = gt.split(/[/|]/);
+    const alts = alt === '.' ? [] : alt.split(',');
+    const passed = passesQuality(filter, qual, fields, thresholds);
+
+    // Copy-number callers may report CN without a GT
+    if (alts.some(a => COPY_NUMBER_ALLELE.test(a))) {
+      const copyNumber = copyNumberOf(alts, indices, fields);
+      if (passed && copyNumber !== null) {
+        copyNumberRecords.push({
+          id: pickId(id),
+          chromosome,
+          start: position,
+          end: parseInt(parseInfo(info).END ?? pos, 10),
+          copyNumber
+        });
+      }
+      continue;
+    }
+
+    if (fields.GT === undefined) {
+      stats.skipped++;
+      continue;
+    }
+
+    // gVCF reference block or all-sites hom-ref record
+    if (alts.every(a => SYMBOLIC_ALLELE.test(a))) {
+      if (!passed || !indices.every(i => i === '0')) continue;
+
+      const end = parseInt(parseInfo(info).END ?? pos, 10);
+      referenceBlocks.push({ chromosome, start: position, end, ref: ref.toUpperCase() });
+      stats.referenceBlocks++;
+      continue;
+    }
+
+    const encoded = encodeAlleles(ref, alts);
+    if (!encoded) {
+      stats.skipped++;
+      continue;
+    }
+
+    if (encoded.type === 'snv') stats.snvs++;
+    else stats.indels++;
+    if (alts.filter(a => !SYMBOLIC_ALLELE.test(a)).length > 1) stats.multiAllelic++;
+
+    let rsid = pickId(id);
+    if (!rsid && options.rsidAt) {
+      rsid = options.rsidAt(chromosome, position);
+      if (rsid) stats.rsidsAssigned++;
+    }
+
+    const called = indices.map(i => (i === '.' ? null : encoded.codes[parseInt(i, 10)] ?? null));
+    let genotype = called.every(a => a !== null) ? called.join('') : '--';
+
+    if (genotype === '--') {
+      stats.noCalls++;
+    } else if (!passed) {
+      genotype = '--';
+      stats.filtered++;
+    }
+
+    const row: RawGenotype = {
+      rsid: rsid ?? `${chromosome}:${position}`,
+      chromosome,
+      position,
+      genotype
+    };
+    if (phased && genotype !== '--') {
+      row.phased = true;
+      if (fields.PS && fields.PS !== '.') row.phaseSet = fields.PS;
+      stats.phased++;
+    }
+    genotypes.push(row);
+  }
+
+  return {
+    samples,
+    sample: samples[column - 9] ?? null,
+    referenceBuild: detectReferenceBuild(content),
+    genotypes,
+    referenceBlocks,
+    copyNumberRecords,
+    stats
+  };
+}
+
+/**
+ * Reference blocks by chromosome, sorted by start, for position lookups
+ */
+export type ReferenceBlockIndex = Map<string, ReferenceBlock[]>;
+
+/**
+ * Group reference blocks by chromosome and sort them by start
+ */
+export function indexReferenceBlocks(blocks: ReferenceBlock[]): ReferenceBlockIndex {
+  const index: ReferenceBlockIndex = new Map();
+  for (const block of blocks) {
+    const chromosomeBlocks = index.get(block.chromosome);
+    if (chromosomeBlocks) chromosomeBlocks.push(block);
+    else index.set(block.chromosome, [block]);
+  }
+  for (const chromosomeBlocks of index.values()) {
+    chromosomeBlocks.sort((a, b) => a.start - b.start);
+  }
+  return index;
+}
+
+/**
+ * Reference block covering a position, if any (binary search; gVCF blocks do not overlap)
+ */
+export function findReferenceBlock(
+  index: ReferenceBlockIndex,
+  chromosome: string,
+  position: number
+): ReferenceBlock | null {
+  const blocks = index.get(chromosome);
+  if (!blocks) return null;
+
+  // Last block starting at or before the position
+  let low = 0;
+  let high = blocks.length - 1;
+  let candidate = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (blocks[mid].start <= position) {
+      candidate = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return candidate >= 0 && blocks[candidate].end >= position ? blocks[candidate] : null;
+}
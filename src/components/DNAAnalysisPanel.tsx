@@ -7,22 +7,36 @@
 
 import React, { useState } from 'react';
 import { analyzeCompleteDNA, IntegratedDNAAnalysis, generateExecutiveSummary } from '../analysis/core/integrated-dna-analysis';
+import type { ComprehensivePGxResult } from '../analysis/core/comprehensive-pgx-analysis';
+import { describeEffectivePhenotype } from '../analysis/core/phenoconversion';
+import { PGxPanel } from './PGxPanel';
 
 interface DNAAnalysisPanelProps {
   genotypes: Record<string, string>;
+  /** Precomputed analysis (e.g. from the upload pipeline) - skips re-running analyzeCompleteDNA */
+  analysis?: IntegratedDNAAnalysis;
   userInfo?: {
     name?: string;
     age?: number;
     medications?: string[];
+    plannedMedications?: string[];
   };
 }
 
-export function DNAAnalysisPanel({ genotypes, userInfo }: DNAAnalysisPanelProps) {
+export function DNAAnalysisPanel({ genotypes, analysis: precomputed, userInfo }: DNAAnalysisPanelProps) {
   const [activeTab, setActiveTab] = useState<'overview' | 'pgx' | 'nutrigenomics' | 'action-plan'>('overview');
   const [showExecutiveSummary, setShowExecutiveSummary] = useState(false);
   
   // Run complete analysis
-  const analysis = React.useMemo(() => analyzeCompleteDNA(genotypes), [genotypes]);
+  const analysis = React.useMemo(
+    () => precomputed ?? analyzeCompleteDNA(genotypes, undefined, {
+      warfarin: { age: userInfo?.age },
+      vte: { age: userInfo?.age },
+      medications: userInfo?.medications,
+      plannedMedications: userInfo?.plannedMedications
+    }),
+    [genotypes, precomputed, userInfo?.age, userInfo?.medications, userInfo?.plannedMedications]
+  );
   const execSummary = React.useMemo(() => generateExecutiveSummary(analysis), [analysis]);
   
   return (
@@ -164,14 +178,14 @@ function OverviewTab({ analysis }: { analysis: IntegratedDNAAnalysis }) {
           <div className="insight-card">
             <h4>💊 Pharmacogenomics</h4>
             {analysis.pgx.cyp2d6 && (
-              <p><strong>CYP2D6:</strong> {analysis.pgx.cyp2d6.diplotype.phenotype}</p>
+              <p><strong>CYP2D6:</strong> {describeEffectivePhenotype(analysis.pgx.cyp2d6.phenoconversion)}</p>
             )}
             {analysis.pgx.cyp2c19 && (
-              <p><strong>CYP2C19:</strong> {analysis.pgx.cyp2c19.diplotype?.phenotype || 'Unknown'}</p>
+              <p><strong>CYP2C19:</strong> {describeEffectivePhenotype(analysis.pgx.cyp2c19.phenoconversion)}</p>
             )}
-            {analysis.pgx.criticalSafety && (
+            {analysis.pgx.criticalSafety?.dpyd && (
               <p className="safety-note">
-                {analysis.pgx.criticalSafety.dpyd?.length || 0} DPYD variants detected
+                DPYD: {analysis.pgx.criticalSafety.dpyd.diplotype.phenotype} (Activity Score {analysis.pgx.criticalSafety.dpyd.diplotype.activityScore?.toFixed(1) ?? 'not tested'})
               </p>
             )}
           </div>
@@ -222,77 +236,49 @@ function OverviewTab({ analysis }: { analysis: IntegratedDNAAnalysis }) {
 
 /**
  * PHARMACOGENOMICS TAB
+ * Critical safety genes first, then the v2 per-gene results via PGxPanel
  */
-function PharmacogenomicsTab({ pgx }: { pgx: any }) {
+function PharmacogenomicsTab({ pgx }: { pgx: ComprehensivePGxResult }) {
   return (
     <div className="pgx-tab">
-      <h2>💊 Pharmacogenomics Analysis</h2>
-      
       {/* Critical Safety Section */}
       {pgx.criticalSafety && (
         <div className="section critical-safety">
           <h3>⛔ Critical Drug Safety</h3>
           
-          {pgx.criticalSafety.dpyd && pgx.criticalSafety.dpyd.length > 0 && (
+          {pgx.criticalSafety.dpyd && pgx.criticalSafety.dpyd.safetyAlerts.length > 0 && (
             <div className="safety-card critical">
               <h4>DPYD - 5-FU/Capecitabine</h4>
-              <p className="warning">FATAL TOXICITY RISK - FDA MANDATORY TESTING</p>
-              {pgx.criticalSafety.dpyd.map((v: any, idx: number) => (
-                <div key={idx} className="variant">
-                  <p><strong>Allele:</strong> {v.allele}</p>
-                  <p><strong>Activity Score:</strong> {v.activityScore}</p>
-                  <p><strong>Action:</strong> Dose reduce or avoid 5-FU/capecitabine</p>
-                </div>
-              ))}
+              <p className="warning">SEVERE TO FATAL TOXICITY RISK - CPIC LEVEL A</p>
+              <div className="variant">
+                <p><strong>Diplotype:</strong> {pgx.criticalSafety.dpyd.diplotype.allele1}/{pgx.criticalSafety.dpyd.diplotype.allele2}</p>
+                <p><strong>Activity Score:</strong> {pgx.criticalSafety.dpyd.diplotype.activityScore?.toFixed(1) ?? 'not tested'}</p>
+                {pgx.criticalSafety.dpyd.drugs.map((d, idx) => (
+                  <p key={idx}><strong>{d.drug}:</strong> {d.recommendation}</p>
+                ))}
+              </div>
             </div>
           )}
-          
-          {/* Similar for NUDT15, TPMT, etc. */}
-        </div>
-      )}
-      
-      {/* CYP2D6 Section */}
-      {pgx.cyp2d6 && (
-        <div className="section">
-          <h3>CYP2D6 - Drug Metabolism</h3>
-          <div className={`cyp-card phenotype-${pgx.cyp2d6.phenotype.toLowerCase().replace(' ', '-')}`}>
-            <h4>Phenotype: {pgx.cyp2d6.phenotype}</h4>
-            <p><strong>Activity Score:</strong> {pgx.cyp2d6.activityScore}</p>
-            <p><strong>Diplotype:</strong> {pgx.cyp2d6.diplotype}</p>
-            
-            <div className="affected-drugs">
-              <h5>Affected Medications:</h5>
-              <ul>
-                <li>Codeine, Tramadol (may not work if PM)</li>
-                <li>Tamoxifen (reduced efficacy if PM)</li>
-                <li>SSRIs, TCAs (dose adjustment needed)</li>
-                <li>Antipsychotics (dose adjustment needed)</li>
-              </ul>
-            </div>
-            
-            <div className="recommendations">
-              <h5>Recommendations:</h5>
-              <ul>
-                {pgx.cyp2d6.phenotype === 'Poor Metabolizer' && (
-                  <>
-                    <li>Avoid codeine, tramadol (no pain relief)</li>
-                    <li>Tamoxifen: Consider alternative therapy</li>
-                    <li>Antidepressants: Start 50% dose, titrate slowly</li>
-                  </>
-                )}
-                {pgx.cyp2d6.phenotype === 'Ultra-Rapid Metabolizer' && (
-                  <>
-                    <li>Codeine: High overdose risk, avoid</li>
-                    <li>SSRIs may not work well, consider higher doses</li>
-                  </>
+
+          {pgx.criticalSafety.tpmt && pgx.criticalSafety.tpmt.drugs.some(d => d.riskLevel === 'critical' || d.riskLevel === 'warning') && (
+            <div className="safety-card critical">
+              <h4>TPMT / NUDT15 - Thiopurines</h4>
+              <p className="warning">{pgx.criticalSafety.tpmt.thiopurineDosing.combinedPhenotype.toUpperCase()}</p>
+              <div className="variant">
+                <p><strong>TPMT:</strong> {pgx.criticalSafety.tpmt.thiopurineDosing.tpmtDiplotype}</p>
+                {pgx.criticalSafety.tpmt.thiopurineDosing.nudt15Diplotype && (
+                  <p><strong>NUDT15:</strong> {pgx.criticalSafety.tpmt.thiopurineDosing.nudt15Diplotype}</p>
                 )}
-              </ul>
+                <p><strong>Mercaptopurine:</strong> {pgx.criticalSafety.tpmt.thiopurineDosing.startingDose.mercaptopurine}</p>
+                <p><strong>Azathioprine:</strong> {pgx.criticalSafety.tpmt.thiopurineDosing.startingDose.azathioprine}</p>
+                <p><strong>Thioguanine:</strong> {pgx.criticalSafety.tpmt.thiopurineDosing.startingDose.thioguanine}</p>
+              </div>
             </div>
-          </div>
+          )}
         </div>
       )}
       
-      {/* Add similar sections for CYP2C19, CYP2C9, etc. */}
+      <PGxPanel result={pgx} />
     </div>
   );
 }
@@ -441,7 +427,40 @@ function NutrigenomicsTab({ nutri }: { nutri: any }) {
         )}
       </div>
       
-      {/* Add sections for Macronutrients, Omega, Taste, etc. */}
+      {/* Knowledge base variants by category */}
+      <div className="section">
+        <h3 onClick={() => setExpandedSection(expandedSection === 'kb' ? null : 'kb')} className="collapsible">
+          📚 All Variants by Category ({nutri.kbCoverage.variantsFound}/{nutri.kbCoverage.variantsInKB}) {expandedSection === 'kb' ? '▼' : '▶'}
+        </h3>
+
+        {expandedSection === 'kb' && (
+          <div className="expanded-content">
+            {nutri.kbCategories.map((category: any) => (
+              <details key={category.category} className="kb-category">
+                <summary>
+                  {category.category} ({category.variants.length}/{category.variantsInKB})
+                </summary>
+                {category.variants.map((v: any) => (
+                  <div key={v.rsid} className={`kb-variant-card status-${v.status}`}>
+                    <h4>{v.gene} - {v.trait}</h4>
+                    <p><strong>{v.rsid}:</strong> {v.genotype} ({v.status.replace(/_/g, ' ')})</p>
+                    <p>{v.interpretation}</p>
+                    {v.clinicalAction && <p><strong>Action:</strong> {v.clinicalAction}</p>}
+                    <ul>
+                      {v.recommendations.map((rec: string, idx: number) => (
+                        <li key={idx}>{rec}</li>
+                      ))}
+                    </ul>
+                    <p className="evidence">
+                      <strong>Confidence:</strong> {v.confidence} | {v.evidence.map((e: any) => `PMID ${e.pmid} (${e.studyType}, n=${e.n})`).join('; ')}
+                    </p>
+                  </div>
+                ))}
+              </details>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 }
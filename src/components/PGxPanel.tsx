@@ -2,10 +2,14 @@
 // Uses external CSS for styling to maintain medical-grade code quality
 import React from 'react';
 import { analyzeComprehensivePGx, type ComprehensivePGxResult } from '../analysis/core/comprehensive-pgx-analysis';
+import { formatAnnualRisk, formatRelativeRisk } from '../analysis/core/vte-risk';
+import { describeEffectivePhenotype } from '../analysis/core/phenoconversion';
 import './PGxPanel.css';
 
 interface PGxPanelProps {
-  genotypes: Map<string, { rsid: string; genotype: string }>;
+  genotypes?: Map<string, { rsid: string; genotype: string }>;
+  /** Precomputed result (e.g. from analyzeCompleteDNA) - skips re-running the analyzers */
+  result?: ComprehensivePGxResult;
 }
 
 /**
@@ -42,8 +46,8 @@ function extractGeneResults(result: ComprehensivePGxResult): GeneCardData[] {
     genes.push({
       gene: 'CYP2D6',
       diplotype: `${result.cyp2d6.diplotype.allele1}/${result.cyp2d6.diplotype.allele2}`,
-      phenotype: result.cyp2d6.diplotype.phenotype,
-      activityScore: result.cyp2d6.diplotype.activityScore,
+      phenotype: describeEffectivePhenotype(result.cyp2d6.phenoconversion),
+      activityScore: result.cyp2d6.phenoconversion.effectiveActivityScore ?? result.cyp2d6.diplotype.activityScore,
       drugs: result.cyp2d6.drugs.map(d => ({
         drug: d.drug,
         recommendation: d.recommendation,
@@ -60,8 +64,8 @@ function extractGeneResults(result: ComprehensivePGxResult): GeneCardData[] {
     genes.push({
       gene: 'CYP2C9',
       diplotype: `${result.cyp2c9.diplotype.allele1}/${result.cyp2c9.diplotype.allele2}`,
-      phenotype: result.cyp2c9.diplotype.phenotype,
-      activityScore: result.cyp2c9.diplotype.activityScore,
+      phenotype: describeEffectivePhenotype(result.cyp2c9.phenoconversion),
+      activityScore: result.cyp2c9.phenoconversion.effectiveActivityScore ?? result.cyp2c9.diplotype.activityScore,
       drugs: result.cyp2c9.drugs.map(d => ({
         drug: d.drug,
         recommendation: d.recommendation,
@@ -72,6 +76,57 @@ function extractGeneResults(result: ComprehensivePGxResult): GeneCardData[] {
     });
   }
 
+  // CYP2C19 - Critical for clopidogrel, SSRIs, PPIs, voriconazole
+  // CPIC Level A - PMID: 35034351, 37032427, 32770672
+  if (result.cyp2c19) {
+    genes.push({
+      gene: 'CYP2C19',
+      diplotype: `${result.cyp2c19.diplotype.allele1}/${result.cyp2c19.diplotype.allele2}`,
+      phenotype: describeEffectivePhenotype(result.cyp2c19.phenoconversion),
+      drugs: result.cyp2c19.drugs.map(d => ({
+        drug: d.drug,
+        recommendation: d.recommendation,
+        isHighRisk: d.riskLevel === 'critical' || d.riskLevel === 'warning'
+      })),
+      warnings: result.cyp2c19.safetyAlerts || [],
+      confidence: result.cyp2c19.confidence
+    });
+  }
+
+  // CYP2B6 - Critical for efavirenz; methadone, bupropion
+  // CPIC Level A - PMID: 31006110
+  if (result.cyp2b6) {
+    genes.push({
+      gene: 'CYP2B6',
+      diplotype: `${result.cyp2b6.diplotype.allele1}/${result.cyp2b6.diplotype.allele2}`,
+      phenotype: describeEffectivePhenotype(result.cyp2b6.phenoconversion),
+      drugs: result.cyp2b6.drugs.map(d => ({
+        drug: d.drug,
+        recommendation: d.recommendation,
+        isHighRisk: d.riskLevel === 'warning' || d.riskLevel === 'caution'
+      })),
+      warnings: result.cyp2b6.safetyAlerts || [],
+      confidence: result.cyp2b6.confidence
+    });
+  }
+
+  // CYP1A2 - Inducibility (smoking); clozapine, olanzapine
+  // No CPIC guideline - informational
+  if (result.cyp1a2) {
+    genes.push({
+      gene: 'CYP1A2',
+      diplotype: result.cyp1a2.genotype.rs762551,
+      phenotype: result.cyp1a2.genotype.inducibility,
+      drugs: result.cyp1a2.drugs.map(d => ({
+        drug: d.drug,
+        recommendation: d.recommendation,
+        isHighRisk: d.riskLevel === 'caution'
+      })),
+      warnings: result.cyp1a2.safetyAlerts || [],
+      confidence: result.cyp1a2.confidence
+    });
+  }
+
   // CYP3A5 - Important for tacrolimus dosing
   // CPIC Level A - PMID: 25801146
   if (result.cyp3a5) {
@@ -89,6 +144,23 @@ function extractGeneResults(result: ComprehensivePGxResult): GeneCardData[] {
     });
   }
 
+  // CYP3A4 - Combined CYP3A4/CYP3A5 phenotype for tacrolimus, statins
+  // AMP/CPIC genotyping recommendations - PMID: 37632460
+  if (result.cyp3a4) {
+    genes.push({
+      gene: 'CYP3A4',
+      diplotype: `${result.cyp3a4.diplotype.allele1}/${result.cyp3a4.diplotype.allele2}`,
+      phenotype: `${describeEffectivePhenotype(result.cyp3a4.phenoconversion)} (CYP3A: ${result.cyp3a4.cyp3aMetabolism.clusterPhenotype})`,
+      drugs: result.cyp3a4.drugs.map(d => ({
+        drug: d.drug,
+        recommendation: d.recommendation,
+        isHighRisk: d.riskLevel === 'warning'
+      })),
+      warnings: result.cyp3a4.safetyAlerts || [],
+      confidence: result.cyp3a4.confidence
+    });
+  }
+
   // VKORC1 - Critical for warfarin sensitivity
   // CPIC Level A (with CYP2C9) - PMID: 21716271
   if (result.vkorc1) {
@@ -106,17 +178,17 @@ function extractGeneResults(result: ComprehensivePGxResult): GeneCardData[] {
     });
   }
 
-  // SLCO1B1 - Critical for statin myopathy risk
-  // CPIC Level A - PMID: 24918167
+  // SLCO1B1 (+ ABCG2, CYP2C9) - Critical for statin myopathy risk
+  // CPIC Level A - PMID: 35152405
   if (result.slco1b1) {
     genes.push({
-      gene: 'SLCO1B1',
+      gene: result.slco1b1.abcg2.function !== 'Unknown' ? 'SLCO1B1 + ABCG2' : 'SLCO1B1',
       diplotype: `${result.slco1b1.diplotype.allele1}/${result.slco1b1.diplotype.allele2}`,
       phenotype: result.slco1b1.diplotype.phenotype,
       drugs: result.slco1b1.drugs.map(d => ({
         drug: d.statin,
-        recommendation: d.recommendation,
-        isHighRisk: d.myopathyRisk === 'High' || d.myopathyRisk === 'Very High'
+        recommendation: d.action === 'Standard' ? d.recommendation : `${d.doseAdjustment} - ${d.recommendation}`,
+        isHighRisk: d.action !== 'Standard'
       })),
       warnings: result.slco1b1.safetyAlerts || [],
       confidence: result.slco1b1.confidence
@@ -141,6 +213,23 @@ function extractGeneResults(result: ComprehensivePGxResult): GeneCardData[] {
     });
   }
 
+  // NAT2 - Acetylator status; isoniazid, hydralazine, procainamide, sulfasalazine
+  // No CPIC guideline - FDA label statements
+  if (result.nat2) {
+    genes.push({
+      gene: 'NAT2',
+      diplotype: `${result.nat2.genotype.allele1}/${result.nat2.genotype.allele2}`,
+      phenotype: result.nat2.genotype.phenotype,
+      drugs: result.nat2.drugs.map(d => ({
+        drug: d.drug,
+        recommendation: d.recommendation,
+        isHighRisk: d.riskLevel === 'warning'
+      })),
+      warnings: result.nat2.safetyAlerts,
+      confidence: result.nat2.confidence
+    });
+  }
+
   // F5 (Factor V Leiden) - Thrombophilia risk
   // ClinVar: VCV000015164 - rs6025
   if (result.f5) {
@@ -159,6 +248,102 @@ function extractGeneResults(result: ComprehensivePGxResult): GeneCardData[] {
     });
   }
 
+  // F2 (Prothrombin G20210A) + numeric VTE risk for the F5/F2 panel
+  if (result.thrombophilia) {
+    const { f2, scenarios, safetyAlerts, confidence } = result.thrombophilia;
+    genes.push({
+      gene: 'F2 (Prothrombin) + VTE Risk',
+      diplotype: f2.rs1799963,
+      phenotype: result.thrombophilia.inheritedThrombophilia,
+      drugs: scenarios.map(s => ({
+        drug: s.scenario,
+        recommendation: `VTE risk ${formatAnnualRisk(s.annualAbsoluteRisk)} - ${formatRelativeRisk(s.relativeRisk)} baseline`,
+        isHighRisk: s.relativeRisk.estimate >= 10
+      })),
+      warnings: safetyAlerts,
+      confidence
+    });
+  }
+
+  // DPYD - Fluoropyrimidine toxicity (5-FU, capecitabine)
+  // CPIC Level A - PMID: 29152729
+  const dpyd = result.criticalSafety?.dpyd;
+  if (dpyd) {
+    genes.push({
+      gene: 'DPYD',
+      diplotype: `${dpyd.diplotype.allele1}/${dpyd.diplotype.allele2}`,
+      phenotype: dpyd.diplotype.phenotype,
+      activityScore: dpyd.diplotype.activityScore ?? undefined,
+      drugs: dpyd.drugs.map(d => ({
+        drug: d.drug,
+        recommendation: d.recommendation,
+        isHighRisk: d.riskLevel === 'critical' || d.riskLevel === 'warning'
+      })),
+      warnings: dpyd.safetyAlerts || [],
+      confidence: dpyd.confidence
+    });
+  }
+
+  // TPMT + NUDT15 - Thiopurine toxicity (combined dosing)
+  // CPIC Level A - PMID: 30447069
+  const tpmt = result.criticalSafety?.tpmt;
+  if (tpmt) {
+    const nudt15 = result.criticalSafety?.nudt15;
+    genes.push({
+      gene: nudt15 ? 'TPMT / NUDT15' : 'TPMT',
+      diplotype: nudt15
+        ? `${tpmt.thiopurineDosing.tpmtDiplotype} | ${tpmt.thiopurineDosing.nudt15Diplotype}`
+        : tpmt.thiopurineDosing.tpmtDiplotype,
+      phenotype: tpmt.thiopurineDosing.combinedPhenotype,
+      drugs: tpmt.drugs.map(d => ({
+        drug: d.drug,
+        recommendation: d.doseAdjustment ?? d.recommendation,
+        isHighRisk: d.riskLevel === 'critical' || d.riskLevel === 'warning'
+      })),
+      warnings: [...tpmt.safetyAlerts, ...(nudt15?.safetyAlerts ?? [])],
+      confidence: tpmt.confidence
+    });
+  }
+
+  // HLA - Abacavir, carbamazepine, phenytoin, allopurinol hypersensitivity (tag SNPs)
+  // CPIC Level A - PMIDs: 24561393, 29392710, 26094938
+  const hla = result.criticalSafety?.hla;
+  if (hla) {
+    const positive = hla.alleles.filter(a => a.status === 'Tag Positive').map(a => a.allele);
+    genes.push({
+      gene: 'HLA',
+      diplotype: hla.alleles.map(a => `${a.tagSnp} ${a.genotype}`).join(', '),
+      phenotype: positive.length > 0 ? `High Risk: ${positive.join(', ')} tag positive` : 'No risk-allele tag detected',
+      drugs: hla.drugs.map(d => ({
+        drug: d.drug,
+        recommendation: d.recommendation,
+        isHighRisk: d.riskLevel === 'critical' || d.riskLevel === 'warning'
+      })),
+      warnings: hla.safetyAlerts,
+      confidence: hla.confidence
+    });
+  }
+
+  // G6PD - Rasburicase, primaquine, dapsone hemolysis (X-linked)
+  // CPIC Level A - PMID: 36049896
+  const g6pd = result.criticalSafety?.g6pd;
+  if (g6pd) {
+    genes.push({
+      gene: 'G6PD',
+      diplotype: g6pd.genotype.ploidy === 'hemizygous'
+        ? `${g6pd.genotype.alleles.join('/')} (hemizygous)`
+        : g6pd.genotype.alleles.join('/'),
+      phenotype: g6pd.genotype.status,
+      drugs: g6pd.drugs.map(d => ({
+        drug: d.drug,
+        recommendation: d.recommendation,
+        isHighRisk: d.riskLevel === 'critical' || d.riskLevel === 'warning'
+      })),
+      warnings: g6pd.safetyAlerts,
+      confidence: g6pd.confidence
+    });
+  }
+
   return genes;
 }
 
@@ -170,7 +355,10 @@ function isAbnormalPhenotype(phenotype: string): boolean {
     phenotype.includes('Ultrarapid') ||
     phenotype.includes('Non-expressor') ||
     phenotype.includes('High') ||
-    phenotype.includes('Decreased');
+    phenotype.includes('Decreased') ||
+    phenotype.includes('Slow') ||
+    phenotype === 'Deficient' ||
+    phenotype === 'Variable';
 }
 
 /**
@@ -184,10 +372,17 @@ function getConfidenceClass(confidence: string): string {
   }
 }
 
-export function PGxPanel({ genotypes }: PGxPanelProps) {
+/**
+ * Medication review entries shown with the high-risk styling
+ */
+function isHighRiskSeverity(severity: string): boolean {
+  return severity === 'critical' || severity === 'warning';
+}
+
+export function PGxPanel({ genotypes, result }: PGxPanelProps) {
   const comprehensiveResult = React.useMemo(
-    () => analyzeComprehensivePGx(mapToArray(genotypes), '23andme'),
-    [genotypes]
+    () => result ?? analyzeComprehensivePGx(mapToArray(genotypes ?? new Map()), '23andme'),
+    [genotypes, result]
   );
 
   const results = React.useMemo(
@@ -196,6 +391,8 @@ export function PGxPanel({ genotypes }: PGxPanelProps) {
   );
 
   const criticalWarnings = comprehensiveResult.summary.criticalWarnings;
+  const medicationReview = comprehensiveResult.medicationReview;
+  const dataLimitations = comprehensiveResult.dataLimitations ?? [];
 
   return (
     <div className="pgx-panel">
@@ -243,6 +440,51 @@ export function PGxPanel({ genotypes }: PGxPanelProps) {
         </div>
       )}
 
+      {/* Data Limitations */}
+      {dataLimitations.length > 0 && (
+        <div className="pgx-data-limitations">
+          <h2 className="pgx-data-limitations-title">Data Limitations</h2>
+          {dataLimitations.map((limitation, i) => (
+            <div key={i} className="pgx-data-limitation-item">
+              {limitation}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Medication Review */}
+      {medicationReview && (
+        <div className="pgx-medication-review">
+          <h2 className="pgx-medication-review-title">📋 Medication Review</h2>
+          <p className="pgx-medication-review-summary">
+            {medicationReview.entries.length + medicationReview.unrecognized.length} medications reviewed,{' '}
+            {medicationReview.entries.filter(e => e.conflicts.length > 0).length} with conflicting guidance
+          </p>
+          {medicationReview.entries.map((entry, i) => (
+            <div
+              key={i}
+              className={`pgx-drug-item ${isHighRiskSeverity(entry.severity) ? 'pgx-drug-item--high-risk' : 'pgx-drug-item--normal'}`}
+            >
+              <div className="pgx-drug-name">
+                {entry.medication} ({entry.status}) - {entry.action}
+              </div>
+              {entry.genes.length > 0 && (
+                <div className="pgx-medication-review-genes">Genes: {entry.genes.join(', ')}</div>
+              )}
+              <div className="pgx-drug-recommendation">{entry.recommendation}</div>
+              {[...entry.conflicts, ...entry.notes].map((line, j) => (
+                <div key={j} className="pgx-drug-recommendation">{line}</div>
+              ))}
+            </div>
+          ))}
+          {medicationReview.unrecognized.length > 0 && (
+            <p className="pgx-medication-review-summary">
+              Not recognized (no pharmacogenomic data): {medicationReview.unrecognized.join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Gene Cards */}
       <div className="pgx-gene-grid">
         {results.map(result => (
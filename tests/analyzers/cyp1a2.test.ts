@@ -0,0 +1,143 @@
+/**
+ * CYP1A2 ANALYZER TESTS
+ *
+ * Test suite for the CYP1A2 analyzer following v2 test patterns.
+ *
+ * Gene: CYP1A2 (Cytochrome P450 1A2)
+ * Key Variants: -163C>A (rs762551) - *1F inducibility; -3860G>A (rs2069514) - *1C
+ * Phenotypes: Highly Inducible, Intermediate Inducibility, Non-Inducible (no CPIC guideline)
+ *
+ * Test Structure (4 sections):
+ * 1. Inducibility Calling
+ * 2. Clozapine and Olanzapine (smoking)
+ * 3. Shared Caffeine Interpretation
+ * 4. Schema Validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeCYP1A2 } from '@analysis/analyzers/cyp1a2-analyzer';
+import { analyzeNutrigenomics } from '@analysis/core/nutrigenomics-analysis';
+import { validateCYP1A2Result } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+function panel(rs762551: string, rs2069514 = 'GG') {
+  return createTestGenotypes([
+    { rsid: 'rs762551', genotype: rs762551 },
+    { rsid: 'rs2069514', genotype: rs2069514 }
+  ]);
+}
+
+describe('CYP1A2 Analyzer', () => {
+  // ============================================================================
+  // SECTION 1: INDUCIBILITY CALLING
+  // ============================================================================
+
+  describe('Inducibility Calling', () => {
+    it.each([
+      ['AA', 'Highly Inducible', 'fast'],
+      ['AC', 'Intermediate Inducibility', 'intermediate'],
+      ['CC', 'Non-Inducible', 'slow']
+    ])('should call rs762551 %s as %s', (rs762551, inducibility, caffeine) => {
+      const result = analyzeCYP1A2(panel(rs762551));
+
+      expect(result.genotype.inducibility).toBe(inducibility);
+      expect(result.genotype.caffeineMetabolizer).toBe(caffeine);
+      expect(result.confidence).toBe('high');
+    });
+
+    it('should read reverse-strand calls', () => {
+      expect(analyzeCYP1A2(panel('TT')).genotype.inducibility).toBe('Highly Inducible');
+    });
+
+    it('should lower a highly inducible call for *1C carriers', () => {
+      const result = analyzeCYP1A2(panel('AA', 'GA'));
+
+      expect(result.genotype.inducibility).toBe('Intermediate Inducibility');
+      expect(result.genotype.detectedAlleles).toEqual(['*1F', '*1C']);
+    });
+
+    it('should report medium confidence when rs2069514 is missing', () => {
+      const result = analyzeCYP1A2(createTestGenotypes([{ rsid: 'rs762551', genotype: 'AA' }]));
+
+      expect(result.genotype.inducibility).toBe('Highly Inducible');
+      expect(result.confidence).toBe('medium');
+      expect(result.limitations.some(l => l.includes('rs2069514'))).toBe(true);
+    });
+
+    it('should return Unknown without rs762551', () => {
+      const result = analyzeCYP1A2(createTestGenotypes([{ rsid: 'rs2069514', genotype: 'GG' }]));
+
+      expect(result.genotype.inducibility).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: CLOZAPINE AND OLANZAPINE
+  // ============================================================================
+
+  describe('Clozapine and Olanzapine (smoking)', () => {
+    it('should warn highly inducible smokers about levels rising after quitting', () => {
+      const result = analyzeCYP1A2(panel('AA'), '23andme', true);
+      const clozapine = result.drugs.find(d => d.drug.startsWith('Clozapine'))!;
+      const olanzapine = result.drugs.find(d => d.drug.startsWith('Olanzapine'))!;
+
+      expect(clozapine.riskLevel).toBe('caution');
+      expect(clozapine.doseAdjustment).toContain('smoking stops');
+      expect(olanzapine.riskLevel).toBe('caution');
+      expect(result.safetyAlerts).toHaveLength(1);
+    });
+
+    it('should not alert highly inducible non-smokers', () => {
+      const result = analyzeCYP1A2(panel('AA'), '23andme', false);
+
+      expect(result.safetyAlerts).toEqual([]);
+      expect(result.drugs.every(d => d.riskLevel === 'informational')).toBe(true);
+    });
+
+    it('should flag higher clozapine levels for non-inducible genotypes', () => {
+      const clozapine = analyzeCYP1A2(panel('CC')).drugs.find(d => d.drug.startsWith('Clozapine'))!;
+
+      expect(clozapine.riskLevel).toBe('caution');
+      expect(clozapine.recommendation).toContain('NON-INDUCIBLE');
+    });
+
+    it('should note when smoking status is unknown', () => {
+      const result = analyzeCYP1A2(panel('AC'));
+
+      expect(result.smoker).toBeUndefined();
+      expect(result.limitations.some(l => l.includes('Smoking status not provided'))).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: SHARED CAFFEINE INTERPRETATION
+  // ============================================================================
+
+  describe('Shared Caffeine Interpretation', () => {
+    it.each(['AA', 'AC', 'CC', 'TT'])('should give nutrigenomics the same caffeine call for %s', rs762551 => {
+      const pgx = analyzeCYP1A2(panel(rs762551));
+      const caffeine = analyzeNutrigenomics({ rs762551, rs2069514: 'GG' }).categories.foodIntolerances.caffeine;
+
+      expect(caffeine.metabolizer).toBe(pgx.genotype.caffeineMetabolizer);
+      expect(caffeine.genotype).toBe(pgx.genotype.rs762551);
+    });
+
+    it('should mark slow metabolizers as at cardiovascular risk with high intake', () => {
+      const caffeine = analyzeNutrigenomics({ rs762551: 'CC' }).categories.foodIntolerances.caffeine;
+
+      expect(caffeine.cardiovascularRisk).toBe('high_with_intake');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it('should produce results that pass the CYP1A2 schema', () => {
+      expect(() => validateCYP1A2Result(analyzeCYP1A2(panel('AA'), '23andme', true))).not.toThrow();
+      expect(() => validateCYP1A2Result(analyzeCYP1A2([]))).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * CYP2B6 ANALYZER TESTS
+ *
+ * Test suite for the CYP2B6 analyzer following v2 test patterns.
+ *
+ * Gene: CYP2B6 (Cytochrome P450 2B6)
+ * Key Variants: c.516G>T (rs3745274) and c.785A>G (rs2279343) - *6, *9, *4;
+ *               c.983T>C (rs28399499) - *18; c.-82T>C (rs34223104) - *22
+ * Phenotypes: Ultrarapid, Rapid, Normal, Intermediate, Poor Metabolizer (CPIC 2019)
+ *
+ * Test Structure (4 sections):
+ * 1. Diplotype Calling
+ * 2. Efavirenz Dosing
+ * 3. Methadone and Bupropion
+ * 4. Schema Validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeCYP2B6 } from '@analysis/analyzers/cyp2b6-analyzer';
+import { validateCYP2B6Result } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+function panel(rs3745274: string, rs2279343: string, rs28399499 = 'TT', rs34223104 = 'TT') {
+  return createTestGenotypes([
+    { rsid: 'rs3745274', genotype: rs3745274 },
+    { rsid: 'rs2279343', genotype: rs2279343 },
+    { rsid: 'rs28399499', genotype: rs28399499 },
+    { rsid: 'rs34223104', genotype: rs34223104 }
+  ]);
+}
+
+describe('CYP2B6 Analyzer', () => {
+  // ============================================================================
+  // SECTION 1: DIPLOTYPE CALLING
+  // ============================================================================
+
+  describe('Diplotype Calling', () => {
+    it.each([
+      [panel('GG', 'AA'), '*1/*1', 'Normal Metabolizer'],
+      [panel('GT', 'AG'), '*1/*6', 'Intermediate Metabolizer'],
+      [panel('TT', 'GG'), '*6/*6', 'Poor Metabolizer'],
+      [panel('GT', 'AA'), '*1/*9', 'Intermediate Metabolizer'],
+      [panel('GG', 'AG'), '*1/*4', 'Rapid Metabolizer'],
+      [panel('GG', 'GG'), '*4/*4', 'Ultrarapid Metabolizer'],
+      [panel('GT', 'GG'), '*4/*6', 'Intermediate Metabolizer'],
+      [panel('GG', 'AA', 'CT'), '*1/*18', 'Intermediate Metabolizer'],
+      [panel('GT', 'AG', 'CT'), '*6/*18', 'Poor Metabolizer'],
+      [panel('GG', 'AA', 'TT', 'CT'), '*1/*22', 'Rapid Metabolizer']
+    ])('should call %# as %s (%s)', (genotypes, diplotype, phenotype) => {
+      const result = analyzeCYP2B6(genotypes);
+
+      expect(`${result.diplotype.allele1}/${result.diplotype.allele2}`).toBe(diplotype);
+      expect(result.diplotype.phenotype).toBe(phenotype);
+      expect(result.confidence).toBe('high');
+    });
+
+    it('should flag *1/*6 vs *4/*9 phase ambiguity without changing the phenotype', () => {
+      const result = analyzeCYP2B6(panel('GT', 'AG'));
+
+      expect(result.diplotype.phaseAmbiguity).toBe(true);
+      expect(result.limitations.some(l => l.includes('*4/*9'))).toBe(true);
+    });
+
+    it('should call *9 and lower confidence when c.785A>G was not genotyped', () => {
+      const result = analyzeCYP2B6(createTestGenotypes([{ rsid: 'rs3745274', genotype: 'GT' }]));
+
+      expect(`${result.diplotype.allele1}/${result.diplotype.allele2}`).toBe('*1/*9');
+      expect(result.diplotype.phenotype).toBe('Intermediate Metabolizer');
+      expect(result.confidence).toBe('medium');
+      expect(result.diplotype.untestedAlleles).toContain('*6');
+    });
+
+    it('should return Unknown with low confidence when rs3745274 is missing', () => {
+      const result = analyzeCYP2B6(createTestGenotypes([{ rsid: 'rs2279343', genotype: 'AG' }]));
+
+      expect(result.diplotype.phenotype).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: EFAVIRENZ DOSING
+  // ============================================================================
+
+  describe('Efavirenz Dosing (CPIC Level A)', () => {
+    function efavirenz(genotypes: ReturnType<typeof panel>) {
+      return analyzeCYP2B6(genotypes).drugs.find(d => d.drug.startsWith('Efavirenz'))!;
+    }
+
+    it('should suggest 400 or 200 mg/day for poor metabolizers with a safety alert', () => {
+      const result = analyzeCYP2B6(panel('TT', 'GG'));
+      const rec = result.drugs.find(d => d.drug.startsWith('Efavirenz'))!;
+
+      expect(rec.doseAdjustment).toContain('400 or 200 mg/day');
+      expect(rec.riskLevel).toBe('warning');
+      expect(rec.cpicLevel).toBe('A');
+      expect(result.safetyAlerts).toHaveLength(1);
+    });
+
+    it('should suggest 400 mg/day for intermediate metabolizers', () => {
+      const rec = efavirenz(panel('GT', 'AG'));
+
+      expect(rec.doseAdjustment).toContain('400 mg/day');
+      expect(rec.riskLevel).toBe('caution');
+    });
+
+    it.each([
+      [panel('GG', 'AA')],
+      [panel('GG', 'GG')]
+    ])('should keep 600 mg/day for normal and faster metabolizers (%#)', (genotypes) => {
+      const rec = efavirenz(genotypes);
+
+      expect(rec.doseAdjustment).toContain('600 mg/day');
+      expect(rec.riskLevel).toBe('normal');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: METHADONE AND BUPROPION
+  // ============================================================================
+
+  describe('Methadone and Bupropion (informational)', () => {
+    it('should note slower methadone clearance and QT monitoring for poor metabolizers', () => {
+      const methadone = analyzeCYP2B6(panel('TT', 'GG')).drugs.find(d => d.drug === 'Methadone')!;
+
+      expect(methadone.riskLevel).toBe('informational');
+      expect(methadone.recommendation).toContain('(S)-methadone');
+      expect(methadone.monitoring).toContain('QT');
+    });
+
+    it('should note reduced hydroxybupropion for intermediate metabolizers', () => {
+      const bupropion = analyzeCYP2B6(panel('GT', 'AG')).drugs.find(d => d.drug.startsWith('Bupropion'))!;
+
+      expect(bupropion.riskLevel).toBe('informational');
+      expect(bupropion.recommendation).toContain('hydroxybupropion');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it('should produce results that pass the CYP2B6 schema', () => {
+      expect(() => validateCYP2B6Result(analyzeCYP2B6(panel('GT', 'AG', 'CT')))).not.toThrow();
+    });
+  });
+});
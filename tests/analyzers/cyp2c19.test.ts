@@ -0,0 +1,250 @@
+/**
+ * CYP2C19 ANALYZER TESTS
+ *
+ * Test suite for the CYP2C19 analyzer following v2 test patterns.
+ *
+ * Gene: CYP2C19 (Cytochrome P450 2C19)
+ * Key Variants:
+ * - CYP2C19*2 (rs4244285, c.681G>A) - no function
+ * - CYP2C19*3 (rs4986893, c.636G>A) - no function
+ * - CYP2C19*17 (rs12248560, c.-806C>T) - increased function
+ * Phenotypes: Ultrarapid, Rapid, Normal, Intermediate, Poor Metabolizer
+ *
+ * Clinical Significance:
+ * - Clopidogrel activation (CPIC Level A, FDA boxed warning)
+ * - Citalopram/escitalopram/sertraline (CPIC Level A)
+ * - PPIs and voriconazole (CPIC Level A)
+ *
+ * Test Structure (8 sections):
+ * 1. Basic Functionality
+ * 2. Diplotype Calling
+ * 3. Missing Data & Confidence
+ * 4. Drug Recommendations - Clopidogrel
+ * 5. Drug Recommendations - Voriconazole & SSRIs
+ * 6. Safety Alerts & Limitations
+ * 7. Schema Validation
+ * 8. Comprehensive Integration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeCYP2C19 } from '@analysis/analyzers/cyp2c19-analyzer';
+import { analyzeComprehensivePGx } from '@analysis/core/comprehensive-pgx-analysis';
+import { validateCYP2C19Result } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+function genotypesFor(rs4244285: string, rs4986893: string, rs12248560: string) {
+  return createTestGenotypes([
+    { rsid: 'rs4244285', genotype: rs4244285 },
+    { rsid: 'rs4986893', genotype: rs4986893 },
+    { rsid: 'rs12248560', genotype: rs12248560 }
+  ]);
+}
+
+describe('CYP2C19 Analyzer', () => {
+  // ============================================================================
+  // SECTION 1: BASIC FUNCTIONALITY
+  // ============================================================================
+
+  describe('Basic Functionality', () => {
+    it('should return valid result structure for CYP2C19*1/*1 (Normal Metabolizer)', () => {
+      const result = analyzeCYP2C19(genotypesFor('GG', 'GG', 'CC'), '23andme');
+
+      expect(result.gene).toBe('CYP2C19');
+      expect(result.diplotype.allele1).toBe('*1');
+      expect(result.diplotype.allele2).toBe('*1');
+      expect(result.diplotype.phenotype).toBe('Normal Metabolizer');
+      expect(result.diplotype.activityScore).toBe(2.0);
+      expect(result.confidence).toBe('high');
+      expect(result.drugs.length).toBeGreaterThan(0);
+      expect(result.guidelines.cpic).toBeDefined();
+      expect(result.clinicalSummary).toContain('CYP2C19 Diplotype: *1/*1');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: DIPLOTYPE CALLING
+  // ============================================================================
+
+  describe('Diplotype Calling', () => {
+    it.each([
+      ['GA', 'GG', 'CC', '*1', '*2', 'Intermediate Metabolizer', 1.0],
+      ['AA', 'GG', 'CC', '*2', '*2', 'Poor Metabolizer', 0.0],
+      ['GA', 'GA', 'CC', '*2', '*3', 'Poor Metabolizer', 0.0],
+      ['GG', 'GG', 'CT', '*1', '*17', 'Rapid Metabolizer', 2.5],
+      ['GG', 'GG', 'TT', '*17', '*17', 'Ultrarapid Metabolizer', 3.0],
+      ['GA', 'GG', 'CT', '*2', '*17', 'Intermediate Metabolizer', 1.5]
+    ])(
+      'rs4244285=%s rs4986893=%s rs12248560=%s → %s/%s (%s)',
+      (rs4244285, rs4986893, rs12248560, allele1, allele2, phenotype, activityScore) => {
+        const result = analyzeCYP2C19(genotypesFor(rs4244285, rs4986893, rs12248560));
+
+        expect(result.diplotype.allele1).toBe(allele1);
+        expect(result.diplotype.allele2).toBe(allele2);
+        expect(result.diplotype.phenotype).toBe(phenotype);
+        expect(result.diplotype.activityScore).toBe(activityScore);
+      }
+    );
+
+    it('should accept unsorted genotype strings', () => {
+      const result = analyzeCYP2C19(genotypesFor('AG', 'GG', 'TC'));
+
+      expect(result.diplotype.allele1).toBe('*2');
+      expect(result.diplotype.allele2).toBe('*17');
+    });
+
+    it('should flag phase ambiguity when more than two variant alleles are present', () => {
+      const result = analyzeCYP2C19(genotypesFor('GA', 'GA', 'CT'));
+
+      expect(result.diplotype.phaseAmbiguity).toBe(true);
+      expect(result.diplotype.phenotype).toBe('Poor Metabolizer');
+      expect(result.confidence).toBe('medium');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: MISSING DATA & CONFIDENCE
+  // ============================================================================
+
+  describe('Missing Data & Confidence', () => {
+    it('should return Unknown with low confidence when rs4244285 is missing', () => {
+      const result = analyzeCYP2C19(createTestGenotypes([
+        { rsid: 'rs12248560', genotype: 'CT' }
+      ]));
+
+      expect(result.diplotype.phenotype).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+    });
+
+    it('should not report an activity score when rs4244285 is missing', () => {
+      const result = analyzeCYP2C19(createTestGenotypes([
+        { rsid: 'rs12248560', genotype: 'CT' }
+      ]));
+
+      expect(result.diplotype.activityScore).toBeNull();
+      expect(result.clinicalSummary).toContain('Activity Score: not tested');
+      expect(() => validateCYP2C19Result(result)).not.toThrow();
+    });
+
+    it('should treat no-calls as missing data', () => {
+      const result = analyzeCYP2C19(genotypesFor('--', 'GG', 'CC'));
+
+      expect(result.diplotype.phenotype).toBe('Unknown');
+    });
+
+    it('should reduce confidence to medium when *3 or *17 positions are missing', () => {
+      const result = analyzeCYP2C19(createTestGenotypes([
+        { rsid: 'rs4244285', genotype: 'GG' }
+      ]));
+
+      expect(result.diplotype.phenotype).toBe('Normal Metabolizer');
+      expect(result.confidence).toBe('medium');
+      expect(result.limitations.some(l => l.includes('rs12248560'))).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: DRUG RECOMMENDATIONS - CLOPIDOGREL
+  // ============================================================================
+
+  describe('Drug Recommendations - Clopidogrel', () => {
+    it('should flag clopidogrel as critical for poor metabolizers', () => {
+      const result = analyzeCYP2C19(genotypesFor('AA', 'GG', 'CC'));
+      const clopidogrel = result.drugs.find(d => d.drug.includes('Clopidogrel'));
+
+      expect(clopidogrel?.riskLevel).toBe('critical');
+      expect(clopidogrel?.alternativeDrugs).toEqual(expect.arrayContaining(['Ticagrelor']));
+      expect(clopidogrel?.fdaGuidance).toBe(true);
+    });
+
+    it('should flag clopidogrel as warning for intermediate metabolizers', () => {
+      const result = analyzeCYP2C19(genotypesFor('GA', 'GG', 'CC'));
+      const clopidogrel = result.drugs.find(d => d.drug.includes('Clopidogrel'));
+
+      expect(clopidogrel?.riskLevel).toBe('warning');
+    });
+
+    it('should allow standard clopidogrel dosing for rapid metabolizers', () => {
+      const result = analyzeCYP2C19(genotypesFor('GG', 'GG', 'CT'));
+      const clopidogrel = result.drugs.find(d => d.drug.includes('Clopidogrel'));
+
+      expect(clopidogrel?.riskLevel).toBe('normal');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 5: DRUG RECOMMENDATIONS - VORICONAZOLE & SSRIs
+  // ============================================================================
+
+  describe('Drug Recommendations - Voriconazole & SSRIs', () => {
+    it('should warn about voriconazole for ultrarapid metabolizers', () => {
+      const result = analyzeCYP2C19(genotypesFor('GG', 'GG', 'TT'));
+      const voriconazole = result.drugs.find(d => d.drug.includes('Voriconazole'));
+
+      expect(voriconazole?.riskLevel).toBe('warning');
+    });
+
+    it('should recommend citalopram dose reduction for poor metabolizers', () => {
+      const result = analyzeCYP2C19(genotypesFor('AA', 'GG', 'CC'));
+      const citalopram = result.drugs.find(d => d.drug.includes('Citalopram'));
+
+      expect(citalopram).toBeDefined();
+      expect(citalopram?.doseAdjustment).toBeDefined();
+    });
+  });
+
+  // ============================================================================
+  // SECTION 6: SAFETY ALERTS & LIMITATIONS
+  // ============================================================================
+
+  describe('Safety Alerts & Limitations', () => {
+    it('should emit a clopidogrel safety alert for poor metabolizers', () => {
+      const result = analyzeCYP2C19(genotypesFor('AA', 'GG', 'CC'));
+
+      expect(result.safetyAlerts.some(a => a.includes('CLOPIDOGREL'))).toBe(true);
+    });
+
+    it('should emit no safety alerts for normal metabolizers', () => {
+      const result = analyzeCYP2C19(genotypesFor('GG', 'GG', 'CC'));
+
+      expect(result.safetyAlerts).toHaveLength(0);
+    });
+
+    it('should always mention untested rare alleles', () => {
+      const result = analyzeCYP2C19(genotypesFor('GG', 'GG', 'CC'));
+
+      expect(result.limitations.some(l => l.includes('rare'))).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 7: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it.each([
+      ['GG', 'GG', 'CC'],
+      ['AA', 'GG', 'CC'],
+      ['GG', 'GG', 'TT'],
+      ['GA', 'GA', 'CT'],
+      ['--', '--', '--']
+    ])('should produce a schema-valid result for %s/%s/%s', (a, b, c) => {
+      const result = analyzeCYP2C19(genotypesFor(a, b, c));
+
+      expect(() => validateCYP2C19Result(result)).not.toThrow();
+    });
+  });
+
+  // ============================================================================
+  // SECTION 8: COMPREHENSIVE INTEGRATION
+  // ============================================================================
+
+  describe('Comprehensive Integration', () => {
+    it('should be included in analyzeComprehensivePGx', () => {
+      const result = analyzeComprehensivePGx(genotypesFor('AA', 'GG', 'CC'));
+
+      expect(result.cyp2c19?.diplotype.phenotype).toBe('Poor Metabolizer');
+      expect(result.summary.genesAnalyzed).toContain('CYP2C19');
+      expect(result.summary.criticalWarnings.some(w => w.includes('CLOPIDOGREL'))).toBe(true);
+    });
+  });
+});
@@ -89,19 +89,22 @@ describe('CYP2C9 Analyzer', () => {
   // ==========================================================================
 
   describe('Edge Cases', () => {
-    it('should handle missing rs1799853 data', () => {
-      const genotypes = [createTestGenotype('rs1057910', 'AA')];
+    it('should return a low-confidence partial call when rs1799853 is missing', () => {
+      const genotypes = [createTestGenotype('rs1057910', 'AC')];
       const result = analyzeCYP2C9(genotypes);
 
-      expect(result.phenotype).toBe('Unknown');
+      expect(result.diplotype).toBe('*1/*3');
+      expect(result.phenotype).toBe('Intermediate Metabolizer');
+      expect(result.confidence).toBe('low');
       expect(result).toHaveProperty('warning');
     });
 
-    it('should handle missing rs1057910 data', () => {
+    it('should return a low-confidence partial call when rs1057910 is missing', () => {
       const genotypes = [createTestGenotype('rs1799853', 'CC')];
       const result = analyzeCYP2C9(genotypes);
 
-      expect(result.phenotype).toBe('Unknown');
+      expect(result.diplotype).toBe('*1/*1');
+      expect(result.confidence).toBe('low');
       expect(result).toHaveProperty('warning');
     });
 
@@ -137,6 +140,81 @@ describe('CYP2C9 Analyzer', () => {
     });
   });
 
+  // ==========================================================================
+  // AFRICAN-ANCESTRY ALLELES
+  // ==========================================================================
+
+  describe('African-Ancestry Alleles', () => {
+    const FULL_PANEL = [
+      createTestGenotype('rs1799853', 'CC'),
+      createTestGenotype('rs1057910', 'AA'),
+      createTestGenotype('rs28371686', 'CC'),
+      createTestGenotype('rs9332131', 'II'),
+      createTestGenotype('rs7900194', 'GG'),
+      createTestGenotype('rs28371685', 'CC'),
+    ];
+
+    function withCall(rsid: string, genotype: string) {
+      return FULL_PANEL.map(g => (g.rsid === rsid ? createTestGenotype(rsid, genotype) : g));
+    }
+
+    it('should call *1/*1 with high confidence when every position is genotyped', () => {
+      const result = analyzeCYP2C9(FULL_PANEL);
+
+      expect(result.diplotype).toBe('*1/*1');
+      expect(result.confidence).toBe('high');
+    });
+
+    it.each([
+      ['rs28371686', 'CG', '*1/*5', 1.5],
+      ['rs9332131', 'DI', '*1/*6', 1.0],
+      ['rs7900194', 'AG', '*1/*8', 1.5],
+      ['rs28371685', 'CT', '*1/*11', 1.5],
+    ])('should call %s %s as %s', (rsid, genotype, diplotype, activityScore) => {
+      const result = analyzeCYP2C9(withCall(rsid, genotype));
+
+      expect(result.diplotype).toBe(diplotype);
+      expect(result.activityScore).toBe(activityScore);
+      expect(result.phenotype).toBe('Intermediate Metabolizer');
+    });
+
+    it('should call compound heterozygotes with *2/*3 and the new alleles', () => {
+      const result = analyzeCYP2C9([
+        ...withCall('rs7900194', 'AG').filter(g => g.rsid !== 'rs1057910'),
+        createTestGenotype('rs1057910', 'AC'),
+      ]);
+
+      expect(result.diplotype).toBe('*3/*8');
+      expect(result.activityScore).toBe(0.5);
+      expect(result.phenotype).toBe('Poor Metabolizer');
+    });
+
+    it('should lower confidence to medium when only the African-ancestry positions are missing', () => {
+      const result = analyzeCYP2C9(CYP2C9_TEST_GENOTYPES.wildtype);
+
+      expect(result.diplotype).toBe('*1/*1');
+      expect(result.confidence).toBe('medium');
+      expect(result.clinicalSummary).toContain('Partial call: *5, *6, *8, *11 not genotyped');
+    });
+
+    it('should add the CPIC algorithm adjustment to warfarin guidance for *8', () => {
+      const result = analyzeCYP2C9(withCall('rs7900194', 'AG'));
+      const warfarin = result.drugs.find(d => d.drug === 'warfarin');
+
+      expect(warfarin?.doseAdjustment).toContain('15-30%');
+    });
+
+    it('should base NSAID and phenytoin guidance on the activity score', () => {
+      const poor = analyzeCYP2C9([
+        ...withCall('rs9332131', 'DD'),
+      ]);
+
+      expect(poor.phenotype).toBe('Poor Metabolizer');
+      expect(poor.drugs.find(d => d.drug === 'ibuprofen')?.message).toContain('25-50%');
+      expect(poor.drugs.find(d => d.drug === 'phenytoin')?.message).toContain('50%');
+    });
+  });
+
   // ==========================================================================
   // PROVIDER-SPECIFIC FORMATS
   // ==========================================================================
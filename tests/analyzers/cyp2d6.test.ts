@@ -22,7 +22,7 @@ import { createTestGenotype, assertAnalyzerResult } from '../test-utils';
  */
 
 // Import actual analyzer
-import { analyzeCYP2D6 } from '@analysis/analyzers/cyp2d6-analyzer';
+import { analyzeCYP2D6, getCYP2D6StructuralFromVCF } from '@analysis/analyzers/cyp2d6-analyzer';
 
 describe('CYP2D6 Analyzer', () => {
   // ==========================================================================
@@ -84,7 +84,7 @@ describe('CYP2D6 Analyzer', () => {
         createTestGenotype('rs3892097', 'GG'),  // Not *4
         createTestGenotype('rs5030655', 'GG'),  // Not *6
         createTestGenotype('rs28371725', 'CC'), // Not *41
-        createTestGenotype('rs1065852', 'GT'),  // Heterozygous *10 (G ref, T alt)
+        createTestGenotype('rs1065852', 'AG'),  // Heterozygous *10 (forward G ref, A alt)
       ];
 
       const result = analyzeCYP2D6(genotypes);
@@ -185,21 +185,74 @@ describe('CYP2D6 Analyzer', () => {
   // ==========================================================================
 
   describe('Compound Heterozygotes', () => {
-    it('should analyze *4/*10 correctly', () => {
+    it('should resolve *4 and *10 markers as one *4 haplotype in cis', () => {
       const genotypes = [
-        createTestGenotype('rs3892097', 'GA'),  // Heterozygous *4
-        createTestGenotype('rs1065852', 'GT'),  // Heterozygous *10
+        createTestGenotype('rs3892097', 'GA'),  // Heterozygous 1846G>A
+        createTestGenotype('rs1065852', 'AG'),  // Heterozygous 100C>T - carried by *4 as well as *10
         createTestGenotype('rs5030655', 'GG'),
         createTestGenotype('rs28371725', 'CC'),
       ];
 
       const result = analyzeCYP2D6(genotypes);
 
-      expect(result.diplotype.allele1).toBe('*4');
-      expect(result.diplotype.allele2).toBe('*10');
-      expect(result.diplotype.activityScore).toBe(0.25); // 0 + 0.25
-      expect(result.diplotype.phaseAmbiguity).toBe(true); // Two heterozygous variants
-      expect(result.diplotype.confidence).toBe('medium');
+      expect(result.diplotype.allele1).toBe('*1');
+      expect(result.diplotype.allele2).toBe('*4');
+      expect(result.diplotype.activityScore).toBe(1.0);
+      expect(result.diplotype.phaseAmbiguity).toBe(true);
+      expect(result.diplotype.candidates.map(c => c.diplotype)).toEqual(['*1/*4', '*4/*10']);
+      expect(result.diplotype.candidates[0].posterior).toBeGreaterThan(0.9);
+      expect(result.diplotype.phenotypeDiscordance).toBe(0); // Both candidates are IM
+      expect(result.diplotype.confidence).toBe('high');
+    });
+
+    it('should call *4/*41 when no single haplotype carries both variants', () => {
+      const genotypes = [
+        createTestGenotype('rs3892097', 'GA'),  // Heterozygous *4
+        createTestGenotype('rs28371725', 'CT'), // Heterozygous *41
+      ];
+
+      const result = analyzeCYP2D6(genotypes);
+
+      expect(`${result.diplotype.allele1}/${result.diplotype.allele2}`).toBe('*4/*41');
+      expect(result.diplotype.activityScore).toBe(0.5);
+      expect(result.diplotype.candidates).toHaveLength(1);
+      expect(result.diplotype.candidates[0].posterior).toBeCloseTo(1);
+      expect(result.diplotype.phaseAmbiguity).toBeUndefined();
+    });
+
+    it.each([
+      ['AG', '*1/*41', 1.5],
+      ['AA', '*2/*41', 1.5]
+    ])('should read *41 against rs16947 %s as %s', (rs16947, diplotype, score) => {
+      const result = analyzeCYP2D6([
+        createTestGenotype('rs16947', rs16947),    // 2850C>T, carried by *2 and *41
+        createTestGenotype('rs28371725', 'CT'),
+      ]);
+
+      expect(`${result.diplotype.allele1}/${result.diplotype.allele2}`).toBe(diplotype);
+      expect(result.diplotype.activityScore).toBe(score);
+    });
+
+    it('should call *3, *6 and *9 from I/D indel calls', () => {
+      const result = analyzeCYP2D6([
+        createTestGenotype('rs35742686', 'DI'), // *3
+        createTestGenotype('rs5030655', 'II'),  // Not *6
+        createTestGenotype('rs5030656', 'ID'),  // *9
+      ]);
+
+      expect(`${result.diplotype.allele1}/${result.diplotype.allele2}`).toBe('*3/*9');
+      expect(result.diplotype.activityScore).toBe(0.5);
+      expect(result.diplotype.phenotype).toBe('Intermediate Metabolizer');
+    });
+
+    it('should call *29 on a *2 background', () => {
+      const result = analyzeCYP2D6([
+        createTestGenotype('rs59421388', 'CT'),
+        createTestGenotype('rs16947', 'AA'),
+      ]);
+
+      expect(`${result.diplotype.allele1}/${result.diplotype.allele2}`).toBe('*2/*29');
+      expect(result.diplotype.activityScore).toBe(1.5);
     });
 
     it.skip('should analyze *4/*5 (poor metabolizer) correctly', () => {
@@ -221,33 +274,163 @@ describe('CYP2D6 Analyzer', () => {
   // ==========================================================================
 
   describe('Phase Ambiguity', () => {
-    it('should handle ambiguous diplotypes appropriately', () => {
-      // When we can't determine which variants are on the same chromosome
+    // 1846G>A and 100C>T heterozygous: *1/*4, or *4 without 100C>T in trans with *10
+    const CIS_OR_TRANS = [
+      createTestGenotype('rs3892097', 'CT'),
+      createTestGenotype('rs1065852', 'AG'),
+    ];
+
+    it('should rank candidate diplotypes by haplotype frequency for the declared ancestry', () => {
+      const european = analyzeCYP2D6(CIS_OR_TRANS, '23andme', undefined, { source: 'declared', proportions: { European: 1 } });
+      const eastAsian = analyzeCYP2D6(CIS_OR_TRANS, '23andme', undefined, { source: 'declared', proportions: { 'East Asian': 1 } });
+
+      // *10 is common in East Asians, so the trans arrangement gains weight
+      expect(eastAsian.diplotype.candidates[1].diplotype).toBe('*4/*10');
+      expect(eastAsian.diplotype.candidates[1].posterior).toBeGreaterThan(european.diplotype.candidates[1].posterior);
+      expect(eastAsian.diplotype.candidates.reduce((sum, c) => sum + c.posterior, 0)).toBeCloseTo(1);
+
+      expect(european.diplotype.confidence).toBe('high');
+      expect(eastAsian.diplotype.confidence).toBe('medium');
+      expect(eastAsian.diplotype.possibleDiplotypes).toEqual(['*1/*4', '*4/*10']);
+      expect(eastAsian.diplotype.ancestrySource).toBe('declared');
+      expect(eastAsian.clinicalSummary).toContain('*4/*10: 13.');
+    });
+
+    it('should report the probability that the phenotype class differs', () => {
+      // *4/*4 contradicts the *41 call and *4/*41 the homozygous *4 call: both stay candidates
       const genotypes = [
-        createTestGenotype('rs3892097', 'GA'),  // Heterozygous *4
-        createTestGenotype('rs28371725', 'CT'), // Heterozygous *41
+        createTestGenotype('rs3892097', 'TT'),
+        createTestGenotype('rs28371725', 'CT'),
       ];
 
-      const result = analyzeCYP2D6(genotypes);
+      const european = analyzeCYP2D6(genotypes, '23andme', undefined, { source: 'inferred', proportions: { European: 1 } });
+      const southAsian = analyzeCYP2D6(genotypes, '23andme', undefined, { source: 'inferred', proportions: { 'South Asian': 1 } });
 
-      // Should acknowledge ambiguity
-      expect(result.diplotype.phaseAmbiguity).toBe(true);
-      expect(result.diplotype.possibleDiplotypes).toBeInstanceOf(Array);
-      expect(result.diplotype.possibleDiplotypes!.length).toBeGreaterThan(1);
-      expect(result.diplotype.confidence).toBe('medium');
+      expect(european.diplotype.unexplainedCalls).toBe(true);
+      expect(european.diplotype.confidence).toBe('low');
+      expect(european.diplotype.candidates.map(c => c.phenotype).sort()).toEqual(['Intermediate Metabolizer', 'Poor Metabolizer']);
+      expect(european.diplotype.phenotypeDiscordance).toBeGreaterThan(0.4);
+      expect(european.clinicalSummary).toContain('probability the true phenotype class differs');
+
+      // *41 is more common than *4 in South Asians
+      expect(`${southAsian.diplotype.allele1}/${southAsian.diplotype.allele2}`).toBe('*4/*41');
+      expect(southAsian.diplotype.phenotypeDiscordance).toBeCloseTo(1 - southAsian.diplotype.candidates[0].posterior);
+      expect(southAsian.limitations.some(l => l.includes('closest diplotypes'))).toBe(true);
     });
 
-    it('should provide conservative recommendation when ambiguous', () => {
-      const genotypes = [
-        createTestGenotype('rs3892097', 'GA'),  // Heterozygous *4
-        createTestGenotype('rs28371725', 'CT'), // Heterozygous *41
-      ];
+    it('should weight populations equally without ancestry and say so', () => {
+      const result = analyzeCYP2D6(CIS_OR_TRANS);
 
-      const result = analyzeCYP2D6(genotypes);
+      expect(result.diplotype.ancestrySource).toBe('none');
+      expect(result.limitations.some(l => l.includes('phase') && l.includes('weighted equally'))).toBe(true);
+    });
+  });
 
-      // Should flag phase ambiguity in limitations
-      expect(result.limitations.some(l => l.includes('phase') || l.includes('ambiguity'))).toBe(true);
-      expect(result.diplotype.phaseAmbiguity).toBe(true);
+  // ==========================================================================
+  // STRUCTURAL VARIANTS (COPY NUMBER, HYBRIDS)
+  // ==========================================================================
+
+  describe('Structural Variants', () => {
+    const WILDTYPE = [createTestGenotype('rs3892097', 'CC'), createTestGenotype('rs1065852', 'GG')];
+
+    it('should report SNP-only calls without structural data', () => {
+      const result = analyzeCYP2D6(WILDTYPE);
+
+      expect(result.diplotype.structuralSource).toBe('none');
+      expect(result.diplotype.copyNumber).toBeUndefined();
+      expect(result.limitations.some(l => l.includes('cannot detect gene deletions'))).toBe(true);
+    });
+
+    it('should call an Ultrarapid Metabolizer from a duplication', () => {
+      const result = analyzeCYP2D6(WILDTYPE, '23andme', { source: 'clinical_report', copyNumber: 3 });
+
+      expect(result.diplotype.allele1).toBe('*1x2');
+      expect(result.diplotype.activityScore).toBe(3.0);
+      expect(result.diplotype.phenotype).toBe('Ultrarapid Metabolizer');
+      expect(result.diplotype.structuralSource).toBe('clinical_report');
+      expect(result.diplotype.copyNumber).toBe(3);
+      expect(result.safetyAlerts.some(a => a.includes('NEVER USE CODEINE'))).toBe(true);
+    });
+
+    it('should multiply the activity of the reported duplicated allele', () => {
+      const genotypes = [createTestGenotype('rs3892097', 'CT'), createTestGenotype('rs1065852', 'GG')];
+
+      const functional = analyzeCYP2D6(genotypes, '23andme', { source: 'cnv_file', copyNumber: 3 });
+      const noFunction = analyzeCYP2D6(genotypes, '23andme', { source: 'cnv_file', copyNumber: 3, duplicatedAllele: '*4' });
+
+      // Unknown duplicated allele: the functional copy is assumed duplicated, alternative listed
+      expect(`${functional.diplotype.allele1}/${functional.diplotype.allele2}`).toBe('*1x2/*4');
+      expect(functional.diplotype.activityScore).toBe(2.0);
+      expect(functional.diplotype.possibleDiplotypes).toEqual(['*1x2/*4', '*1/*4x2']);
+      expect(functional.diplotype.confidence).toBe('medium');
+
+      expect(`${noFunction.diplotype.allele1}/${noFunction.diplotype.allele2}`).toBe('*1/*4x2');
+      expect(noFunction.diplotype.activityScore).toBe(1.0);
+      expect(noFunction.diplotype.phenotype).toBe('Intermediate Metabolizer');
+    });
+
+    it('should place a reported *2 duplication on the *1 call', () => {
+      const result = analyzeCYP2D6(WILDTYPE, '23andme', { source: 'clinical_report', duplicatedAllele: '*2' });
+
+      expect(`${result.diplotype.allele1}/${result.diplotype.allele2}`).toBe('*2x2/*1');
+      expect(result.diplotype.copyNumber).toBe(3);
+    });
+
+    it.each([
+      [1, [createTestGenotype('rs3892097', 'CC')], '*1/*5', 1.0, 'Intermediate Metabolizer'],
+      [1, [createTestGenotype('rs3892097', 'TT')], '*4/*5', 0.0, 'Poor Metabolizer'],
+      [0, [createTestGenotype('rs3892097', 'CC')], '*5/*5', 0.0, 'Poor Metabolizer']
+    ])('should read copy number %i with %j as %s', (copyNumber, genotypes, diplotype, score, phenotype) => {
+      const result = analyzeCYP2D6(genotypes, '23andme', { source: 'vcf', copyNumber });
+
+      expect(`${result.diplotype.allele1}/${result.diplotype.allele2}`).toBe(diplotype);
+      expect(result.diplotype.activityScore).toBe(score);
+      expect(result.diplotype.phenotype).toBe(phenotype);
+    });
+
+    it('should lower confidence for a heterozygous call on a single gene copy', () => {
+      const result = analyzeCYP2D6([createTestGenotype('rs3892097', 'CT')], '23andme', { source: 'vcf', deletion: true });
+
+      expect(`${result.diplotype.allele1}/${result.diplotype.allele2}`).toBe('*4/*5');
+      expect(result.diplotype.confidence).toBe('low');
+    });
+
+    it('should score *36+*10 and *13 hybrids', () => {
+      const tandem = analyzeCYP2D6(
+        [createTestGenotype('rs1065852', 'AG')],
+        '23andme',
+        { source: 'clinical_report', hybrids: ['*36'] }
+      );
+      const conversion = analyzeCYP2D6(WILDTYPE, '23andme', { source: 'clinical_report', copyNumber: 1, hybrids: ['*13'] });
+
+      expect(`${tandem.diplotype.allele1}/${tandem.diplotype.allele2}`).toBe('*1/*36+*10');
+      expect(tandem.diplotype.activityScore).toBe(1.25);
+
+      expect(`${conversion.diplotype.allele1}/${conversion.diplotype.allele2}`).toBe('*1/*13');
+      expect(conversion.diplotype.activityScore).toBe(1.0);
+    });
+
+    it('should record where the structural data came from', () => {
+      const result = analyzeCYP2D6(WILDTYPE, 'vcf', { source: 'vcf', copyNumber: 3, reference: 'CNV_22_42522501' });
+
+      expect(result.clinicalSummary).toContain('Copy Number: 3 (VCF copy-number record)');
+      expect(result.limitations.some(l => l.includes('CNV_22_42522501'))).toBe(true);
+      expect(result.limitations.some(l => l.includes('copy-number caller'))).toBe(false);
+    });
+
+    it('should read CYP2D6 copy number from overlapping VCF CNV records', () => {
+      const records = [
+        { id: null, chromosome: '22', start: 42100000, end: 42140000, copyNumber: 1 },
+        { id: 'cnv1', chromosome: '22', start: 42520000, end: 42530000, copyNumber: 3 }
+      ];
+
+      expect(getCYP2D6StructuralFromVCF(records, 'GRCh37')).toEqual({ source: 'vcf', copyNumber: 3, reference: 'cnv1' });
+      expect(getCYP2D6StructuralFromVCF(records, 'GRCh38')).toEqual({
+        source: 'vcf',
+        copyNumber: 1,
+        reference: 'chr22:42100000-42140000'
+      });
+      expect(getCYP2D6StructuralFromVCF([], 'GRCh37')).toBeNull();
     });
   });
 
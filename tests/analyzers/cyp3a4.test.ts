@@ -0,0 +1,164 @@
+/**
+ * CYP3A4 ANALYZER TESTS
+ *
+ * Test suite for the CYP3A4 analyzer following v2 test patterns.
+ *
+ * Gene: CYP3A4 (Cytochrome P450 3A4)
+ * Key Variants: *22 (rs35599367, decreased function), *20 (rs67666821, no function)
+ * Phenotypes: Normal, Intermediate, Poor Metabolizer; combined CYP3A cluster with CYP3A5
+ *
+ * Test Structure (4 sections):
+ * 1. Diplotype Calling
+ * 2. Combined CYP3A4/CYP3A5 Phenotype
+ * 3. Drug Recommendations
+ * 4. Schema Validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeCYP3A4 } from '@analysis/analyzers/cyp3a4-analyzer';
+import { analyzeCYP3A5 } from '@analysis/analyzers/cyp3a5-analyzer';
+import { validateCYP3A4Result } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+function withCYP3A5(cyp3a4: Array<{ rsid: string; genotype: string }>, rs776746: string) {
+  const cyp3a5 = analyzeCYP3A5(createTestGenotypes([{ rsid: 'rs776746', genotype: rs776746 }]));
+  return analyzeCYP3A4(createTestGenotypes(cyp3a4), '23andme', cyp3a5.diplotype);
+}
+
+describe('CYP3A4 Analyzer', () => {
+  // ============================================================================
+  // SECTION 1: DIPLOTYPE CALLING
+  // ============================================================================
+
+  describe('Diplotype Calling', () => {
+    it.each([
+      ['GG', '*1', '*1', 'Normal Metabolizer'],
+      ['AG', '*1', '*22', 'Intermediate Metabolizer'],
+      ['CT', '*1', '*22', 'Intermediate Metabolizer'], // Reported on the gene (reverse) strand
+      ['AA', '*22', '*22', 'Intermediate Metabolizer']
+    ])('rs35599367 %s → %s/%s (%s)', (genotype, allele1, allele2, phenotype) => {
+      const result = analyzeCYP3A4(createTestGenotypes([{ rsid: 'rs35599367', genotype }]));
+
+      expect(result.gene).toBe('CYP3A4');
+      expect(result.diplotype.allele1).toBe(allele1);
+      expect(result.diplotype.allele2).toBe(allele2);
+      expect(result.diplotype.phenotype).toBe(phenotype);
+    });
+
+    it('should call *20/*22 as a poor metabolizer', () => {
+      const result = analyzeCYP3A4(createTestGenotypes([
+        { rsid: 'rs35599367', genotype: 'AG' },
+        { rsid: 'rs67666821', genotype: 'DI' }
+      ]));
+
+      expect(result.diplotype.allele1).toBe('*20');
+      expect(result.diplotype.allele2).toBe('*22');
+      expect(result.diplotype.activityScore).toBe(0.5);
+      expect(result.diplotype.phenotype).toBe('Poor Metabolizer');
+      expect(result.confidence).toBe('high');
+    });
+
+    it('should lower confidence to medium when *20 was not genotyped', () => {
+      const result = analyzeCYP3A4(createTestGenotypes([{ rsid: 'rs35599367', genotype: 'GG' }]));
+
+      expect(result.confidence).toBe('medium');
+      expect(result.diplotype.untestedAlleles).toEqual(['*20']);
+      expect(result.limitations.some(l => l.includes('Not genotyped: CYP3A4 *20'))).toBe(true);
+    });
+
+    it('should return Unknown with low confidence when rs35599367 is missing', () => {
+      const result = analyzeCYP3A4(createTestGenotypes([{ rsid: 'rs776746', genotype: 'GG' }]));
+
+      expect(result.diplotype.phenotype).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: COMBINED CYP3A4/CYP3A5 PHENOTYPE
+  // ============================================================================
+
+  describe('Combined CYP3A4/CYP3A5 Phenotype', () => {
+    it.each([
+      ['GG', 'AA', 'Extensive Metabolizer'],       // CYP3A5 *1/*1, CYP3A4 *1/*1
+      ['GG', 'AG', 'Extensive Metabolizer'],       // CYP3A5 *1/*3, CYP3A4 *1/*1
+      ['AG', 'AA', 'Intermediate Metabolizer'],    // CYP3A5 expressor, CYP3A4*22
+      ['GG', 'GG', 'Intermediate Metabolizer'],    // CYP3A5 *3/*3, CYP3A4 *1/*1
+      ['AG', 'GG', 'Poor Metabolizer']             // CYP3A5 *3/*3, CYP3A4*22
+    ])('CYP3A4 rs35599367 %s with CYP3A5 rs776746 %s → %s', (rs35599367, rs776746, cluster) => {
+      const result = withCYP3A5([{ rsid: 'rs35599367', genotype: rs35599367 }], rs776746);
+
+      expect(result.cyp3aMetabolism.clusterPhenotype).toBe(cluster);
+    });
+
+    it('should report the cluster as Unknown without a CYP3A5 diplotype', () => {
+      const result = analyzeCYP3A4(createTestGenotypes([{ rsid: 'rs35599367', genotype: 'AG' }]));
+
+      expect(result.cyp3aMetabolism.clusterPhenotype).toBe('Unknown');
+      expect(result.cyp3aMetabolism.cyp3a5Diplotype).toBeNull();
+      expect(result.cyp3aMetabolism.clinicalConsiderations[0]).toContain('CYP3A5 not tested');
+    });
+
+    it('should treat a CYP3A5 *1/*6 carrier as an expressor', () => {
+      const cyp3a5 = analyzeCYP3A5(createTestGenotypes([
+        { rsid: 'rs776746', genotype: 'AA' },
+        { rsid: 'rs10264272', genotype: 'CT' }
+      ]));
+      const result = analyzeCYP3A4(
+        createTestGenotypes([{ rsid: 'rs35599367', genotype: 'GG' }]),
+        '23andme',
+        cyp3a5.diplotype
+      );
+
+      expect(result.cyp3aMetabolism.cyp3a5Diplotype).toBe('*1/*6');
+      expect(result.cyp3aMetabolism.clusterPhenotype).toBe('Extensive Metabolizer');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: DRUG RECOMMENDATIONS
+  // ============================================================================
+
+  describe('Drug Recommendations', () => {
+    it('should flag tacrolimus, statins and a safety alert for poor CYP3A metabolizers', () => {
+      const result = withCYP3A5([{ rsid: 'rs35599367', genotype: 'AG' }], 'GG');
+      const tacrolimus = result.drugs.find(d => d.drug.startsWith('Tacrolimus'));
+      const statins = result.drugs.find(d => d.category === 'Statins');
+
+      expect(tacrolimus?.riskLevel).toBe('warning');
+      expect(tacrolimus?.recommendation).toContain('POOR CYP3A METABOLIZER');
+      expect(statins?.riskLevel).toBe('caution');
+      expect(statins?.alternativeDrugs).toContain('Rosuvastatin');
+      expect(result.safetyAlerts).toHaveLength(1);
+    });
+
+    it('should follow the CPIC expressor dose for extensive metabolizers', () => {
+      const result = withCYP3A5([{ rsid: 'rs35599367', genotype: 'GG' }], 'AA');
+      const tacrolimus = result.drugs.find(d => d.drug.startsWith('Tacrolimus'));
+
+      expect(tacrolimus?.doseAdjustment).toContain('1.5-2x');
+      expect(result.drugs.find(d => d.category === 'Statins')?.riskLevel).toBe('normal');
+      expect(result.safetyAlerts).toHaveLength(0);
+    });
+
+    it('should keep alprazolam guidance informational', () => {
+      const result = withCYP3A5([{ rsid: 'rs35599367', genotype: 'AG' }], 'GG');
+      const alprazolam = result.drugs.find(d => d.drug.startsWith('Alprazolam'));
+
+      expect(alprazolam?.riskLevel).toBe('informational');
+      expect(alprazolam?.cpicGuideline).toBe(false);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it('should produce results that pass the CYP3A4 schema', () => {
+      const result = withCYP3A5([{ rsid: 'rs35599367', genotype: 'AG' }], 'GG');
+
+      expect(() => validateCYP3A4Result(result)).not.toThrow();
+    });
+  });
+});
@@ -132,6 +132,40 @@ describe('CYP3A5 Analyzer', () => {
     });
   });
 
+  describe('Diplotype Calling - *6 and *7 Alleles (African ancestry)', () => {
+    it.each([
+      [[{ rsid: 'rs776746', genotype: 'AA' }, { rsid: 'rs10264272', genotype: 'CT' }], '*1', '*6', 'Intermediate Expressor'],
+      [[{ rsid: 'rs776746', genotype: 'AA' }, { rsid: 'rs41303343', genotype: 'DI' }], '*1', '*7', 'Intermediate Expressor'],
+      [[{ rsid: 'rs776746', genotype: 'AG' }, { rsid: 'rs10264272', genotype: 'CT' }], '*3', '*6', 'Non-expressor'],
+      [[{ rsid: 'rs10264272', genotype: 'CT' }, { rsid: 'rs41303343', genotype: 'DI' }, { rsid: 'rs776746', genotype: 'AA' }], '*6', '*7', 'Non-expressor']
+    ])('should call %j as %s/%s', (genotypes, allele1, allele2, phenotype) => {
+      const result = analyzeCYP3A5(createTestGenotypes(genotypes), '23andme');
+
+      expect(result.diplotype.allele1).toBe(allele1);
+      expect(result.diplotype.allele2).toBe(allele2);
+      expect(result.diplotype.phenotype).toBe(phenotype);
+      expect(result.confidence).toBe('high');
+    });
+
+    it('should list *6 and *7 as untested when only rs776746 was genotyped', () => {
+      const result = analyzeCYP3A5(createTestGenotypes([{ rsid: 'rs776746', genotype: 'AA' }]), '23andme');
+
+      expect(result.diplotype.untestedAlleles).toEqual(['*6', '*7']);
+      expect(result.limitations.some(lim => lim.includes('Not genotyped: CYP3A5 *6, *7'))).toBe(true);
+    });
+
+    it('should not report untested alleles when every position was genotyped', () => {
+      const result = analyzeCYP3A5(createTestGenotypes([
+        { rsid: 'rs776746', genotype: 'AG' },
+        { rsid: 'rs10264272', genotype: 'CC' },
+        { rsid: 'rs41303343', genotype: 'DD' }
+      ]), '23andme');
+
+      expect(result.diplotype.untestedAlleles).toBeUndefined();
+      expect(result.diplotype.phenotype).toBe('Intermediate Expressor');
+    });
+  });
+
   // ============================================================================
   // SECTION 3: PHENOTYPE DETERMINATION
   // ============================================================================
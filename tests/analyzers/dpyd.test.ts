@@ -0,0 +1,198 @@
+/**
+ * DPYD ANALYZER TESTS
+ *
+ * Test suite for the DPYD analyzer following v2 test patterns.
+ *
+ * Gene: DPYD (Dihydropyrimidine Dehydrogenase)
+ * Key Variants (GRCh37 forward strand):
+ * - DPYD*2A (rs3918290 C>T) - no function (0)
+ * - DPYD*13 (rs55886062 A>C) - no function (0)
+ * - c.2846A>T (rs67376798 T>A) - decreased function (0.5)
+ * - HapB3 (rs56038477 C>T) - decreased function (0.5)
+ * Phenotypes: Normal (AS 2), Intermediate (AS 1-1.5), Poor (AS 0-0.5)
+ *
+ * Clinical Significance:
+ * - Fluorouracil and capecitabine (CPIC Level A)
+ *
+ * Test Structure (6 sections):
+ * 1. Activity Score & Phenotype
+ * 2. Compound Heterozygotes
+ * 3. Missing Data & Confidence
+ * 4. Dose Guidance
+ * 5. Schema Validation
+ * 6. Critical Findings Integration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeDPYD } from '@analysis/analyzers/dpyd-analyzer';
+import { analyzeCompleteDNA } from '@analysis/core/integrated-dna-analysis';
+import { validateDPYDResult } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+function genotypesFor(star2A: string, star13: string, c2846: string, hapB3: string) {
+  return createTestGenotypes([
+    { rsid: 'rs3918290', genotype: star2A },
+    { rsid: 'rs55886062', genotype: star13 },
+    { rsid: 'rs67376798', genotype: c2846 },
+    { rsid: 'rs56038477', genotype: hapB3 }
+  ]);
+}
+
+const REFERENCE = genotypesFor('CC', 'AA', 'TT', 'CC');
+
+describe('DPYD Analyzer', () => {
+  // ============================================================================
+  // SECTION 1: ACTIVITY SCORE & PHENOTYPE
+  // ============================================================================
+
+  describe('Activity Score & Phenotype', () => {
+    it.each([
+      ['CC', 'AA', 'TT', 'CC', '*1', '*1', 2.0, 'Normal Metabolizer'],
+      ['CT', 'AA', 'TT', 'CC', '*1', '*2A', 1.0, 'Intermediate Metabolizer'],
+      ['CC', 'AC', 'TT', 'CC', '*1', '*13', 1.0, 'Intermediate Metabolizer'],
+      ['CC', 'AA', 'AT', 'CC', '*1', 'c.2846A>T', 1.5, 'Intermediate Metabolizer'],
+      ['CC', 'AA', 'TT', 'CT', '*1', 'HapB3', 1.5, 'Intermediate Metabolizer'],
+      ['CC', 'AA', 'AA', 'CC', 'c.2846A>T', 'c.2846A>T', 1.0, 'Intermediate Metabolizer'],
+      ['TT', 'AA', 'TT', 'CC', '*2A', '*2A', 0.0, 'Poor Metabolizer']
+    ])(
+      '%s/%s/%s/%s → %s/%s (AS %s, %s)',
+      (star2A, star13, c2846, hapB3, allele1, allele2, activityScore, phenotype) => {
+        const result = analyzeDPYD(genotypesFor(star2A, star13, c2846, hapB3));
+
+        expect(result.gene).toBe('DPYD');
+        expect(result.diplotype.allele1).toBe(allele1);
+        expect(result.diplotype.allele2).toBe(allele2);
+        expect(result.diplotype.activityScore).toBe(activityScore);
+        expect(result.diplotype.phenotype).toBe(phenotype);
+      }
+    );
+  });
+
+  // ============================================================================
+  // SECTION 2: COMPOUND HETEROZYGOTES
+  // ============================================================================
+
+  describe('Compound Heterozygotes', () => {
+    it('should assume trans for two different variants (conservative)', () => {
+      const result = analyzeDPYD(genotypesFor('CT', 'AA', 'AT', 'CC'));
+
+      expect(result.diplotype.allele1).toBe('c.2846A>T');
+      expect(result.diplotype.allele2).toBe('*2A');
+      expect(result.diplotype.activityScore).toBe(0.5);
+      expect(result.diplotype.phenotype).toBe('Poor Metabolizer');
+      expect(result.diplotype.phaseAmbiguity).toBe(true);
+      expect(result.diplotype.detectedVariants).toEqual(['rs3918290', 'rs67376798']);
+    });
+
+    it('should keep the two lowest-activity alleles when more than two are detected', () => {
+      const result = analyzeDPYD(genotypesFor('CT', 'AA', 'AT', 'CT'));
+
+      expect(result.diplotype.activityScore).toBe(0.5);
+      expect(result.confidence).toBe('medium');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: MISSING DATA & CONFIDENCE
+  // ============================================================================
+
+  describe('Missing Data & Confidence', () => {
+    it('should return Unknown with low confidence when no DPYD variant is genotyped', () => {
+      const result = analyzeDPYD(createTestGenotypes([{ rsid: 'rs4244285', genotype: 'GG' }]));
+
+      expect(result.diplotype.phenotype).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+      expect(result.drugs.every(d => d.riskLevel === 'caution')).toBe(true);
+    });
+
+    it('should not report an activity score when no DPYD variant is genotyped', () => {
+      const result = analyzeDPYD(createTestGenotypes([{ rsid: 'rs4244285', genotype: 'GG' }]));
+
+      expect(result.diplotype.activityScore).toBeNull();
+      expect(result.clinicalSummary).toContain('Activity Score: not tested');
+      expect(() => validateDPYDResult(result)).not.toThrow();
+    });
+
+    it('should reduce confidence to medium when some variants are missing', () => {
+      const result = analyzeDPYD(createTestGenotypes([{ rsid: 'rs3918290', genotype: 'CC' }]));
+
+      expect(result.diplotype.phenotype).toBe('Normal Metabolizer');
+      expect(result.confidence).toBe('medium');
+      expect(result.limitations.some(l => l.includes('Not all 4'))).toBe(true);
+    });
+
+    it('should report high confidence with all four variants typed', () => {
+      expect(analyzeDPYD(REFERENCE).confidence).toBe('high');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: DOSE GUIDANCE
+  // ============================================================================
+
+  describe('Dose Guidance', () => {
+    it('should recommend a 50% starting dose for intermediate metabolizers', () => {
+      const result = analyzeDPYD(genotypesFor('CT', 'AA', 'TT', 'CC'));
+
+      expect(result.drugs).toHaveLength(2);
+      result.drugs.forEach(drug => {
+        expect(drug.startingDosePercent).toBe(50);
+        expect(drug.riskLevel).toBe('critical');
+      });
+      expect(result.safetyAlerts[0]).toContain('50%');
+    });
+
+    it('should recommend avoiding fluoropyrimidines for poor metabolizers', () => {
+      const result = analyzeDPYD(genotypesFor('TT', 'AA', 'TT', 'CC'));
+
+      result.drugs.forEach(drug => {
+        expect(drug.startingDosePercent).toBeNull();
+        expect(drug.recommendation).toContain('AVOID');
+      });
+      expect(result.safetyAlerts[0]).toContain('AVOID');
+    });
+
+    it('should allow full dose for normal metabolizers with no safety alerts', () => {
+      const result = analyzeDPYD(REFERENCE);
+
+      result.drugs.forEach(drug => expect(drug.startingDosePercent).toBe(100));
+      expect(result.safetyAlerts).toHaveLength(0);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 5: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it.each([
+      ['CC', 'AA', 'TT', 'CC'],
+      ['CT', 'AA', 'AT', 'CC'],
+      ['TT', 'AA', 'TT', 'CC'],
+      ['--', '--', '--', '--']
+    ])('should produce a schema-valid result for %s/%s/%s/%s', (a, b, c, d) => {
+      expect(() => validateDPYDResult(analyzeDPYD(genotypesFor(a, b, c, d)))).not.toThrow();
+    });
+  });
+
+  // ============================================================================
+  // SECTION 6: CRITICAL FINDINGS INTEGRATION
+  // ============================================================================
+
+  describe('Critical Findings Integration', () => {
+    it('should propagate a DPYD intermediate metabolizer into critical findings', () => {
+      const analysis = analyzeCompleteDNA({ rs3918290: 'CT', rs55886062: 'AA', rs67376798: 'TT', rs56038477: 'CC' });
+      const finding = analysis.criticalFindings.find(f => f.finding.startsWith('DPYD'));
+
+      expect(analysis.pgx.criticalSafety?.dpyd?.diplotype.phenotype).toBe('Intermediate Metabolizer');
+      expect(finding?.priority).toBe('critical');
+      expect(finding?.variants).toEqual(['rs3918290']);
+    });
+
+    it('should not raise a DPYD finding for normal metabolizers', () => {
+      const analysis = analyzeCompleteDNA({ rs3918290: 'CC', rs55886062: 'AA', rs67376798: 'TT', rs56038477: 'CC' });
+
+      expect(analysis.criticalFindings.some(f => f.finding.startsWith('DPYD'))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * G6PD ANALYZER TESTS
+ *
+ * Test suite for the G6PD analyzer following v2 test patterns.
+ *
+ * Gene: G6PD (Glucose-6-phosphate dehydrogenase, X-linked)
+ * Key Variants (forward strand): rs1050828 T - A-; rs1050829 C - A; rs5030868 A - Mediterranean;
+ *   rs72554665 A - Canton; rs72554664 T - Kaiping
+ * Status: Normal, Variable (heterozygous female), Deficient
+ *
+ * Test Structure (5 sections):
+ * 1. Hemizygous Calls
+ * 2. Diploid Calls
+ * 3. Drug Recommendations
+ * 4. Critical Findings Integration
+ * 5. Schema Validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeG6PD } from '@analysis/analyzers/g6pd-analyzer';
+import { analyzeCompleteDNA } from '@analysis/core/integrated-dna-analysis';
+import { validateG6PDResult } from '@analysis/schemas/pgx-schemas';
+import { normalizeGenotype } from '@analysis/utils/genotype-utils';
+import { createTestGenotypes } from '@tests/test-utils';
+
+function panel(rs1050828: string, rs1050829: string, rs5030868: string, rs72554665?: string, rs72554664?: string) {
+  return createTestGenotypes([
+    { rsid: 'rs1050828', genotype: rs1050828 },
+    { rsid: 'rs1050829', genotype: rs1050829 },
+    { rsid: 'rs5030868', genotype: rs5030868 },
+    ...(rs72554665 ? [{ rsid: 'rs72554665', genotype: rs72554665 }] : []),
+    ...(rs72554664 ? [{ rsid: 'rs72554664', genotype: rs72554664 }] : [])
+  ]);
+}
+
+describe('G6PD Analyzer', () => {
+  // ============================================================================
+  // SECTION 1: HEMIZYGOUS CALLS
+  // ============================================================================
+
+  describe('Hemizygous Calls', () => {
+    it('should keep single-allele calls instead of dropping them', () => {
+      expect(normalizeGenotype('T')).toBe('T');
+      expect(normalizeGenotype('t')).toBe('T');
+      expect(normalizeGenotype('-')).toBeNull();
+    });
+
+    it('should call a reference male as normal', () => {
+      const result = analyzeG6PD(panel('C', 'T', 'G', 'C', 'C'));
+
+      expect(result.genotype).toMatchObject({ alleles: ['B'], ploidy: 'hemizygous', status: 'Normal' });
+      expect(result.confidence).toBe('high');
+      expect(result.safetyAlerts).toEqual([]);
+    });
+
+    it('should call an A- male as deficient', () => {
+      const result = analyzeG6PD(panel('T', 'C', 'G', 'C', 'C'));
+
+      expect(result.genotype).toMatchObject({ alleles: ['A-'], status: 'Deficient' });
+      expect(result.genotype.detectedVariants).toEqual(['rs1050828', 'rs1050829']);
+      expect(result.safetyAlerts[0]).toContain('A- (hemizygous)');
+    });
+
+    it('should call a G6PD A (non-deficient) male as normal', () => {
+      expect(analyzeG6PD(panel('C', 'C', 'G', 'C', 'C')).genotype).toMatchObject({ alleles: ['A'], status: 'Normal' });
+    });
+
+    it('should read reverse-strand single-allele calls', () => {
+      expect(analyzeG6PD(panel('C', 'T', 'T', 'C', 'C')).genotype).toMatchObject({ alleles: ['Mediterranean'], status: 'Deficient' });
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: DIPLOID CALLS
+  // ============================================================================
+
+  describe('Diploid Calls', () => {
+    it('should call a heterozygous female as variable', () => {
+      const result = analyzeG6PD(panel('CT', 'CT', 'GG', 'CC', 'CC'));
+
+      expect(result.genotype).toMatchObject({ alleles: ['B', 'A-'], ploidy: 'diploid', status: 'Variable' });
+      expect(result.safetyAlerts[0]).toContain('measure enzyme activity');
+    });
+
+    it('should call homozygous variant pairs deficient without knowing the sex', () => {
+      const result = analyzeG6PD(panel('CC', 'TT', 'AA', 'CC', 'CC'));
+
+      expect(result.genotype).toMatchObject({ alleles: ['Mediterranean', 'Mediterranean'], ploidy: 'undetermined', status: 'Deficient' });
+      expect(result.limitations.some(l => l.includes('cannot be told apart'))).toBe(true);
+    });
+
+    it('should call compound heterozygotes deficient', () => {
+      const result = analyzeG6PD(panel('CT', 'CT', 'AG', 'CC', 'CC'));
+
+      expect(result.genotype).toMatchObject({ alleles: ['A-', 'Mediterranean'], status: 'Deficient' });
+      expect(result.limitations.some(l => l.includes('different X chromosomes'))).toBe(true);
+    });
+
+    it('should report untested deficient alleles with medium confidence', () => {
+      const result = analyzeG6PD(panel('CC', 'TT', 'GG'));
+
+      expect(result.genotype.status).toBe('Normal');
+      expect(result.genotype.untestedAlleles).toEqual(['Canton', 'Kaiping']);
+      expect(result.confidence).toBe('medium');
+    });
+
+    it('should return Unknown when no deficiency position is genotyped', () => {
+      const result = analyzeG6PD(createTestGenotypes([{ rsid: 'rs1050829', genotype: 'CT' }]));
+
+      expect(result.genotype.status).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: DRUG RECOMMENDATIONS
+  // ============================================================================
+
+  describe('Drug Recommendations', () => {
+    it('should contraindicate rasburicase for deficient patients', () => {
+      const drugs = analyzeG6PD(panel('T', 'C', 'G')).drugs;
+      const rasburicase = drugs.find(d => d.drug.startsWith('Rasburicase'))!;
+
+      expect(rasburicase.riskLevel).toBe('critical');
+      expect(rasburicase.recommendation).toContain('CONTRAINDICATED');
+      expect(drugs.find(d => d.drug === 'Nitrofurantoin')!.riskLevel).toBe('warning');
+    });
+
+    it('should require an activity test for heterozygous females', () => {
+      const drugs = analyzeG6PD(panel('CT', 'CT', 'GG')).drugs;
+
+      expect(drugs.every(d => d.riskLevel === 'warning')).toBe(true);
+      expect(drugs[0].recommendation).toContain('measure G6PD enzyme activity');
+    });
+
+    it('should allow standard use for normal results', () => {
+      const drugs = analyzeG6PD(panel('C', 'T', 'G', 'C', 'C')).drugs;
+
+      expect(drugs.map(d => d.drug)).toEqual(['Rasburicase (Elitek)', 'Primaquine / Tafenoquine', 'Dapsone', 'Nitrofurantoin']);
+      expect(drugs.every(d => d.riskLevel === 'normal')).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: CRITICAL FINDINGS INTEGRATION
+  // ============================================================================
+
+  describe('Critical Findings Integration', () => {
+    it('should add a critical finding for a deficient male', () => {
+      const analysis = analyzeCompleteDNA({ rs1050828: 'T', rs1050829: 'C', rs5030868: 'G' });
+      const finding = analysis.criticalFindings.find(f => f.finding.startsWith('G6PD'))!;
+
+      expect(finding.priority).toBe('critical');
+      expect(finding.variants).toContain('rs1050828');
+      expect(analysis.pgx.criticalSafety?.g6pd).toBeDefined();
+    });
+
+    it('should add a high-priority finding for a heterozygous female', () => {
+      const analysis = analyzeCompleteDNA({ rs1050828: 'CT', rs1050829: 'CT', rs5030868: 'GG' });
+
+      expect(analysis.criticalFindings.find(f => f.finding.startsWith('G6PD'))!.priority).toBe('high');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 5: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it('should produce results that pass the G6PD schema', () => {
+      expect(() => validateG6PDResult(analyzeG6PD(panel('T', 'C', 'G')))).not.toThrow();
+      expect(() => validateG6PDResult(analyzeG6PD(panel('CT', 'CT', 'AG')))).not.toThrow();
+      expect(() => validateG6PDResult(analyzeG6PD([]))).not.toThrow();
+    });
+  });
+});
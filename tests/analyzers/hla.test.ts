@@ -0,0 +1,160 @@
+/**
+ * HLA SCREENING TESTS
+ *
+ * Test suite for the HLA tag-SNP screen following v2 test patterns.
+ *
+ * Genes: HLA-B, HLA-A (inferred from tag SNPs, not typed)
+ * Tags: rs2395029 G - B*57:01; rs3909184 G - B*15:02; rs9263726 A - B*58:01;
+ *       rs1061235 A - A*31:01
+ *
+ * Test Structure (4 sections):
+ * 1. Tag-SNP Screening
+ * 2. Drug Recommendations
+ * 3. Critical Findings Integration
+ * 4. Schema Validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeHLA } from '@analysis/analyzers/hla-analyzer';
+import { analyzeCompleteDNA } from '@analysis/core/integrated-dna-analysis';
+import { validateHLAResult } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+function panel(rs2395029 = 'TT', rs3909184 = 'AA', rs9263726 = 'GG', rs1061235 = 'TT') {
+  return createTestGenotypes([
+    { rsid: 'rs2395029', genotype: rs2395029 },
+    { rsid: 'rs3909184', genotype: rs3909184 },
+    { rsid: 'rs9263726', genotype: rs9263726 },
+    { rsid: 'rs1061235', genotype: rs1061235 }
+  ]);
+}
+
+function screen(result: ReturnType<typeof analyzeHLA>, allele: string) {
+  return result.alleles.find(a => a.allele === allele)!;
+}
+
+describe('HLA Screening', () => {
+  // ============================================================================
+  // SECTION 1: TAG-SNP SCREENING
+  // ============================================================================
+
+  describe('Tag-SNP Screening', () => {
+    it('should report every tag negative for reference genotypes', () => {
+      const result = analyzeHLA(panel());
+
+      expect(result.alleles.map(a => a.status)).toEqual(['Tag Negative', 'Tag Negative', 'Tag Negative', 'Tag Negative']);
+      expect(result.safetyAlerts).toEqual([]);
+      expect(result.confidence).toBe('medium');
+    });
+
+    it.each([
+      [panel('GT'), 'HLA-B*57:01'],
+      [panel('TT', 'AG'), 'HLA-B*15:02'],
+      [panel('TT', 'AA', 'AG'), 'HLA-B*58:01'],
+      [panel('TT', 'AA', 'GG', 'AT'), 'HLA-A*31:01']
+    ])('should flag %# as %s tag positive', (genotypes, allele) => {
+      const result = analyzeHLA(genotypes);
+
+      expect(screen(result, allele).status).toBe('Tag Positive');
+      expect(screen(result, allele).tagCopies).toBe(1);
+      expect(result.safetyAlerts).toHaveLength(1);
+      expect(result.safetyAlerts[0]).toContain('Confirm with direct HLA typing');
+    });
+
+    it('should report untested tags and lower confidence', () => {
+      const result = analyzeHLA(createTestGenotypes([{ rsid: 'rs2395029', genotype: 'TT' }]));
+
+      expect(screen(result, 'HLA-B*15:02').status).toBe('Not Tested');
+      expect(result.confidence).toBe('low');
+      expect(result.limitations.some(l => l.includes('Not genotyped: HLA-B*15:02 (rs3909184)'))).toBe(true);
+    });
+
+    it('should flag tags not validated for the predominant ancestry', () => {
+      const result = analyzeHLA(panel('GT'), '23andme', {
+        source: 'declared',
+        proportions: { 'East Asian': 0.9, 'European': 0.1 }
+      });
+
+      expect(screen(result, 'HLA-B*57:01').validatedForAncestry).toBe(false);
+      expect(screen(result, 'HLA-B*15:02').validatedForAncestry).toBe(true);
+      expect(result.limitations.some(l => l.includes('not validated for your predominant ancestry'))).toBe(true);
+    });
+
+    it('should state concordance by population', () => {
+      const concordance = screen(analyzeHLA(panel()), 'HLA-B*57:01').concordance;
+
+      expect(concordance.map(c => c.population)).toContain('European');
+      expect(concordance.map(c => c.population)).toContain('Sub-Saharan African');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: DRUG RECOMMENDATIONS
+  // ============================================================================
+
+  describe('Drug Recommendations', () => {
+    it('should still require HLA typing before abacavir when the tag is negative', () => {
+      const abacavir = analyzeHLA(panel()).drugs.find(d => d.drug.startsWith('Abacavir'))!;
+
+      expect(abacavir.riskLevel).toBe('informational');
+      expect(abacavir.recommendation).toContain('still required');
+    });
+
+    it('should advise against abacavir for B*57:01 tag carriers', () => {
+      const abacavir = analyzeHLA(panel('GG')).drugs.find(d => d.drug.startsWith('Abacavir'))!;
+
+      expect(abacavir.riskLevel).toBe('critical');
+      expect(abacavir.fdaGuidance).toBe(true);
+    });
+
+    it('should rate B*15:02 above A*31:01 for carbamazepine', () => {
+      const carbamazepine = (genotypes: ReturnType<typeof panel>) =>
+        analyzeHLA(genotypes).drugs.find(d => d.drug.startsWith('Carbamazepine'))!;
+
+      expect(carbamazepine(panel('TT', 'AA', 'GG', 'AT')).riskLevel).toBe('warning');
+      expect(carbamazepine(panel('TT', 'AG', 'GG', 'AT'))).toMatchObject({
+        riskLevel: 'critical',
+        alleles: ['HLA-B*15:02', 'HLA-A*31:01']
+      });
+    });
+
+    it('should contraindicate allopurinol for B*58:01 tag carriers', () => {
+      const allopurinol = analyzeHLA(panel('TT', 'AA', 'AA')).drugs.find(d => d.drug.startsWith('Allopurinol'))!;
+
+      expect(allopurinol.riskLevel).toBe('critical');
+      expect(allopurinol.alternativeDrugs).toContain('Febuxostat');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: CRITICAL FINDINGS INTEGRATION
+  // ============================================================================
+
+  describe('Critical Findings Integration', () => {
+    it('should add a critical finding for each tag-positive allele', () => {
+      const analysis = analyzeCompleteDNA({ rs2395029: 'GT', rs3909184: 'AG', rs9263726: 'GG', rs1061235: 'TT' });
+      const hlaFindings = analysis.criticalFindings.filter(f => f.finding.startsWith('HLA-'));
+
+      expect(hlaFindings.map(f => f.variants[0])).toEqual(['rs2395029', 'rs3909184']);
+      expect(hlaFindings.every(f => f.priority === 'critical')).toBe(true);
+      expect(analysis.pgx.criticalSafety?.hla).toBeDefined();
+    });
+
+    it('should add no HLA finding when every tag is negative', () => {
+      const analysis = analyzeCompleteDNA({ rs2395029: 'TT', rs3909184: 'AA', rs9263726: 'GG', rs1061235: 'TT' });
+
+      expect(analysis.criticalFindings.filter(f => f.finding.startsWith('HLA-'))).toEqual([]);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it('should produce results that pass the HLA schema', () => {
+      expect(() => validateHLAResult(analyzeHLA(panel('GT', 'AG')))).not.toThrow();
+      expect(() => validateHLAResult(analyzeHLA([]))).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * NAT2 ANALYZER TESTS
+ *
+ * Test suite for the NAT2 analyzer following v2 test patterns.
+ *
+ * Gene: NAT2 (N-acetyltransferase 2)
+ * Key Variants: rs1801280 C - *5; rs1799930 A - *6; rs1799931 A - *7; rs1801279 A - *14;
+ *   activity-neutral rs1041983 (*13), rs1799929 (*11), rs1208 (*12)
+ * Phenotypes: Rapid, Intermediate, Slow Acetylator (no CPIC guideline)
+ *
+ * Test Structure (4 sections):
+ * 1. Acetylator Calling
+ * 2. Drug Recommendations
+ * 3. Shared Detox Interpretation
+ * 4. Schema Validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeNAT2 } from '@analysis/analyzers/nat2-analyzer';
+import { analyzeNutrigenomics } from '@analysis/core/nutrigenomics-analysis';
+import { validateNAT2Result } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+const REFERENCE: Record<string, string> = {
+  rs1801280: 'TT',
+  rs1799930: 'GG',
+  rs1799931: 'GG',
+  rs1801279: 'GG',
+  rs1041983: 'CC',
+  rs1799929: 'CC',
+  rs1208: 'AA'
+};
+
+function record(overrides: Record<string, string> = {}) {
+  return { ...REFERENCE, ...overrides };
+}
+
+function panel(overrides: Record<string, string> = {}) {
+  return createTestGenotypes(Object.entries(record(overrides)).map(([rsid, genotype]) => ({ rsid, genotype })));
+}
+
+describe('NAT2 Analyzer', () => {
+  // ============================================================================
+  // SECTION 1: ACETYLATOR CALLING
+  // ============================================================================
+
+  describe('Acetylator Calling', () => {
+    it('should call the reference panel *4/*4 rapid', () => {
+      const result = analyzeNAT2(panel());
+
+      expect(result.genotype).toMatchObject({ allele1: '*4', allele2: '*4', phenotype: 'Rapid Acetylator', slowAlleles: 0 });
+      expect(result.confidence).toBe('high');
+    });
+
+    it.each([
+      [{ rs1801280: 'TC', rs1799929: 'CT', rs1208: 'AG' }, '*4', '*5', 'Intermediate Acetylator'],
+      [{ rs1799930: 'GA', rs1041983: 'CT' }, '*4', '*6', 'Intermediate Acetylator'],
+      [{ rs1801280: 'CC', rs1799929: 'TT', rs1208: 'GG' }, '*5', '*5', 'Slow Acetylator'],
+      [{ rs1801280: 'TC', rs1799930: 'GA' }, '*5', '*6', 'Slow Acetylator'],
+      [{ rs1799931: 'AA' }, '*7', '*7', 'Slow Acetylator'],
+      [{ rs1801279: 'GA', rs1799931: 'GA' }, '*7', '*14', 'Slow Acetylator']
+    ])('should call %j as %s/%s', (overrides, allele1, allele2, phenotype) => {
+      const result = analyzeNAT2(panel(overrides));
+
+      expect(result.genotype).toMatchObject({ allele1, allele2, phenotype });
+    });
+
+    it('should name rapid haplotypes from activity-neutral variants', () => {
+      expect(analyzeNAT2(panel({ rs1208: 'AG' })).genotype).toMatchObject({ allele1: '*4', allele2: '*12', phenotype: 'Rapid Acetylator' });
+      expect(analyzeNAT2(panel({ rs1801280: 'TC', rs1799929: 'CT', rs1041983: 'CT' })).genotype)
+        .toMatchObject({ allele1: '*13', allele2: '*5', phenotype: 'Intermediate Acetylator' });
+    });
+
+    it('should read reverse-strand calls', () => {
+      expect(analyzeNAT2(panel({ rs1801280: 'GG', rs1799929: 'AA', rs1208: 'CC' })).genotype.phenotype).toBe('Slow Acetylator');
+    });
+
+    it('should lower confidence and list untested slow alleles', () => {
+      const result = analyzeNAT2(createTestGenotypes([
+        { rsid: 'rs1801280', genotype: 'TC' },
+        { rsid: 'rs1799930', genotype: 'GG' }
+      ]));
+
+      expect(result.genotype.phenotype).toBe('Intermediate Acetylator');
+      expect(result.genotype.untestedAlleles).toEqual(['*7', '*14']);
+      expect(result.confidence).toBe('medium');
+    });
+
+    it('should report *5 as unresolved instead of calling *11/*12 when rs1801280 is untested', () => {
+      const { rs1801280: _, ...withoutCore } = record({ rs1799929: 'CT', rs1208: 'AG' });
+      const result = analyzeNAT2(createTestGenotypes(Object.entries(withoutCore).map(([rsid, genotype]) => ({ rsid, genotype }))));
+
+      expect(result.genotype.untestedAlleles).toEqual(['*5']);
+      expect(result.confidence).toBe('medium');
+      expect(result.limitations.some(l => l.includes('Not genotyped: NAT2 *5'))).toBe(true);
+    });
+
+    it('should keep the closest slow pair when more slow variants than chromosomes are called', () => {
+      const result = analyzeNAT2(panel({ rs1801280: 'TC', rs1799930: 'GA', rs1799931: 'GA' }));
+
+      expect(result.genotype).toMatchObject({ phenotype: 'Slow Acetylator', slowAlleles: 2 });
+      expect(result.confidence).toBe('medium');
+    });
+
+    it('should keep high confidence for two slow alleles with untested positions', () => {
+      expect(analyzeNAT2(createTestGenotypes([{ rsid: 'rs1801280', genotype: 'CC' }])).confidence).toBe('high');
+    });
+
+    it('should return Unknown without any slow-defining position', () => {
+      const result = analyzeNAT2(createTestGenotypes([{ rsid: 'rs1208', genotype: 'AG' }]));
+
+      expect(result.genotype.phenotype).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: DRUG RECOMMENDATIONS
+  // ============================================================================
+
+  describe('Drug Recommendations', () => {
+    it('should warn slow acetylators about isoniazid', () => {
+      const result = analyzeNAT2(panel({ rs1801280: 'CC' }));
+      const isoniazid = result.drugs.find(d => d.drug === 'Isoniazid')!;
+
+      expect(isoniazid.riskLevel).toBe('warning');
+      expect(isoniazid.doseAdjustment).toContain('2.5 mg/kg');
+      expect(result.safetyAlerts).toHaveLength(1);
+    });
+
+    it('should flag lupus risk for hydralazine and procainamide in slow acetylators', () => {
+      const drugs = analyzeNAT2(panel({ rs1799931: 'AA' })).drugs;
+
+      expect(drugs.find(d => d.drug === 'Hydralazine')!.recommendation).toContain('lupus');
+      expect(drugs.find(d => d.drug === 'Procainamide')!.recommendation).toContain('Lupus');
+      expect(drugs.find(d => d.drug === 'Sulfasalazine')!.riskLevel).toBe('caution');
+    });
+
+    it('should flag reduced isoniazid exposure for rapid acetylators', () => {
+      const result = analyzeNAT2(panel());
+
+      expect(result.drugs.find(d => d.drug === 'Isoniazid')!.riskLevel).toBe('caution');
+      expect(result.safetyAlerts).toEqual([]);
+    });
+
+    it('should give standard dosing for intermediate acetylators', () => {
+      const drugs = analyzeNAT2(panel({ rs1799930: 'GA' })).drugs;
+
+      expect(drugs.every(d => d.riskLevel === 'normal')).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: SHARED DETOX INTERPRETATION
+  // ============================================================================
+
+  describe('Shared Detox Interpretation', () => {
+    it.each([
+      [{}, 'fast'],
+      [{ rs1799930: 'GA' }, 'intermediate'],
+      [{ rs1801280: 'TC', rs1799931: 'GA' }, 'slow']
+    ])('should give the detox section the same acetylator status for %j', (overrides, status) => {
+      const pgx = analyzeNAT2(panel(overrides));
+      const phase2 = analyzeNutrigenomics(record(overrides)).categories.detoxification.phase2;
+
+      expect(phase2.nat2Status).toBe(status);
+      expect(phase2.nat2Status).toBe(pgx.genotype.acetylatorStatus);
+      expect(phase2.variants).toHaveLength(7);
+    });
+
+    it('should report unknown acetylation without NAT2 data', () => {
+      const phase2 = analyzeNutrigenomics({ rs1801133: 'AG' }).categories.detoxification.phase2;
+
+      expect(phase2.nat2Status).toBe('unknown');
+      expect(phase2.variants).toEqual([]);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it('should produce results that pass the NAT2 schema', () => {
+      expect(() => validateNAT2Result(analyzeNAT2(panel({ rs1801280: 'TC', rs1799930: 'GA' })))).not.toThrow();
+      expect(() => validateNAT2Result(analyzeNAT2([]))).not.toThrow();
+    });
+  });
+});
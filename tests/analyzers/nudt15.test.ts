@@ -0,0 +1,77 @@
+/**
+ * NUDT15 ANALYZER TESTS
+ *
+ * Test suite for the NUDT15 analyzer following v2 test patterns.
+ *
+ * Gene: NUDT15 (Nudix Hydrolase 15)
+ * Key Variant: c.415C>T (rs116855232, p.R139C) - no function (*3, part of *2)
+ * Phenotypes: Normal, Intermediate, Poor Metabolizer
+ *
+ * Test Structure (3 sections):
+ * 1. Diplotype Calling
+ * 2. Safety Alerts
+ * 3. Schema Validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeNUDT15 } from '@analysis/analyzers/nudt15-analyzer';
+import { validateNUDT15Result } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+describe('NUDT15 Analyzer', () => {
+  // ============================================================================
+  // SECTION 1: DIPLOTYPE CALLING
+  // ============================================================================
+
+  describe('Diplotype Calling', () => {
+    it.each([
+      ['CC', '*1', '*1', 'Normal Metabolizer'],
+      ['CT', '*1', '*3', 'Intermediate Metabolizer'],
+      ['TC', '*1', '*3', 'Intermediate Metabolizer'],
+      ['TT', '*3', '*3', 'Poor Metabolizer']
+    ])('rs116855232 %s → %s/%s (%s)', (genotype, allele1, allele2, phenotype) => {
+      const result = analyzeNUDT15(createTestGenotypes([{ rsid: 'rs116855232', genotype }]));
+
+      expect(result.gene).toBe('NUDT15');
+      expect(result.diplotype.allele1).toBe(allele1);
+      expect(result.diplotype.allele2).toBe(allele2);
+      expect(result.diplotype.phenotype).toBe(phenotype);
+      expect(result.confidence).toBe('high');
+    });
+
+    it('should return Unknown with low confidence when rs116855232 is missing', () => {
+      const result = analyzeNUDT15(createTestGenotypes([{ rsid: 'rs1142345', genotype: 'TT' }]));
+
+      expect(result.diplotype.phenotype).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: SAFETY ALERTS
+  // ============================================================================
+
+  describe('Safety Alerts', () => {
+    it('should alert for poor and intermediate metabolizers only', () => {
+      const poor = analyzeNUDT15(createTestGenotypes([{ rsid: 'rs116855232', genotype: 'TT' }]));
+      const intermediate = analyzeNUDT15(createTestGenotypes([{ rsid: 'rs116855232', genotype: 'CT' }]));
+      const normal = analyzeNUDT15(createTestGenotypes([{ rsid: 'rs116855232', genotype: 'CC' }]));
+
+      expect(poor.safetyAlerts[0]).toContain('poor metabolizer');
+      expect(intermediate.safetyAlerts[0]).toContain('30-80%');
+      expect(normal.safetyAlerts).toHaveLength(0);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it.each(['CC', 'CT', 'TT', '--'])('should produce a schema-valid result for %s', (genotype) => {
+      const result = analyzeNUDT15(createTestGenotypes([{ rsid: 'rs116855232', genotype }]));
+
+      expect(() => validateNUDT15Result(result)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * SLCO1B1 ANALYZER TESTS
+ *
+ * Test suite for the SLCO1B1 analyzer and its per-statin guidance (CPIC 2022).
+ *
+ * Genes: SLCO1B1 (OATP1B1), ABCG2 (rosuvastatin), CYP2C9 (fluvastatin)
+ * Key Variants (forward strand): rs4149056 C - c.521T>C (*5, *15); rs2306283 G - c.388A>G (*37, *15);
+ *   rs2231142 T - ABCG2 Q141K
+ * Phenotypes: Normal Function, Decreased Function, Poor Function
+ *
+ * Test Structure (6 sections):
+ * 1. Diplotype Calls
+ * 2. SLCO1B1 Statin Guidance
+ * 3. ABCG2 and Rosuvastatin
+ * 4. CYP2C9 and Fluvastatin
+ * 5. Comprehensive Analysis Integration
+ * 6. Schema Validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeSLCO1B1, determineSLCO1B1Diplotype } from '@analysis/analyzers/slco1b1-analyzer';
+import { calculateStatinGuidance } from '@analysis/core/statin-dosing';
+import { analyzeComprehensivePGx } from '@analysis/core/comprehensive-pgx-analysis';
+import { validateSLCO1B1Result } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+function slco1b1(rs4149056: string, rs2306283?: string, extra: Array<{ rsid: string; genotype: string }> = []) {
+  return createTestGenotypes([
+    { rsid: 'rs4149056', genotype: rs4149056 },
+    ...(rs2306283 ? [{ rsid: 'rs2306283', genotype: rs2306283 }] : []),
+    ...extra
+  ]);
+}
+
+function guidanceFor(result: ReturnType<typeof analyzeSLCO1B1>, statin: string) {
+  return result.drugs.find(d => d.statin === statin)!;
+}
+
+describe('SLCO1B1 Analyzer', () => {
+  // ============================================================================
+  // SECTION 1: DIPLOTYPE CALLS
+  // ============================================================================
+
+  describe('Diplotype Calls', () => {
+    it.each([
+      ['TT', 'AA', '*1/*1', 'Normal Function'],
+      ['TT', 'AG', '*1/*37', 'Normal Function'],
+      ['TT', 'GG', '*37/*37', 'Normal Function'],
+      ['TC', 'AA', '*1/*5', 'Decreased Function'],
+      ['TC', 'AG', '*1/*15', 'Decreased Function'],
+      ['TC', 'GG', '*15/*37', 'Decreased Function'],
+      ['CC', 'AG', '*5/*15', 'Poor Function'],
+      ['CC', 'GG', '*15/*15', 'Poor Function']
+    ])('should call rs4149056 %s with rs2306283 %s as %s (%s)', (rs4149056, rs2306283, diplotype, phenotype) => {
+      const result = determineSLCO1B1Diplotype(slco1b1(rs4149056, rs2306283));
+
+      expect(`${result.allele1}/${result.allele2}`).toBe(diplotype);
+      expect(result.phenotype).toBe(phenotype);
+      expect(result.confidence).toBe('high');
+    });
+
+    it('should flag *1/*15 vs *5/*37 as phase-ambiguous', () => {
+      const result = analyzeSLCO1B1(slco1b1('TC', 'AG'));
+
+      expect(result.diplotype.phaseAmbiguity).toBe(true);
+      expect(result.limitations.some(l => l.includes('*5/*37'))).toBe(true);
+    });
+
+    it('should call function from rs4149056 alone and list *15/*37 as untested', () => {
+      const result = determineSLCO1B1Diplotype(slco1b1('TC'));
+
+      expect(result).toMatchObject({ allele1: '*1', allele2: '*5', phenotype: 'Decreased Function', confidence: 'high' });
+      expect(result.untestedAlleles).toEqual(expect.arrayContaining(['*15', '*37']));
+    });
+
+    it('should not call a diplotype from rs2306283 alone', () => {
+      const result = determineSLCO1B1Diplotype(createTestGenotypes([{ rsid: 'rs2306283', genotype: 'GG' }]));
+
+      expect(result).toMatchObject({ allele1: 'Unknown', phenotype: 'Unknown', confidence: 'low' });
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: SLCO1B1 STATIN GUIDANCE
+  // ============================================================================
+
+  describe('SLCO1B1 Statin Guidance', () => {
+    it('should give one entry per statin', () => {
+      const result = analyzeSLCO1B1(slco1b1('TT', 'AA'));
+
+      expect(result.drugs.map(d => d.statin).sort()).toEqual([
+        'Atorvastatin', 'Fluvastatin', 'Lovastatin', 'Pitavastatin', 'Pravastatin', 'Rosuvastatin', 'Simvastatin'
+      ]);
+      expect(result.drugs.every(d => d.action === 'Standard' && d.doseCeiling === null)).toBe(true);
+    });
+
+    it('should set CPIC ceilings for decreased function', () => {
+      const result = analyzeSLCO1B1(slco1b1('TC', 'AG'));
+
+      expect(guidanceFor(result, 'Simvastatin')).toMatchObject({ action: 'Limit Dose', doseCeiling: 20, cpicClassification: 'Strong' });
+      expect(guidanceFor(result, 'Atorvastatin').doseCeiling).toBe(40);
+      expect(guidanceFor(result, 'Rosuvastatin').doseCeiling).toBe(20);
+      expect(guidanceFor(result, 'Pravastatin')).toMatchObject({ action: 'Standard', myopathyRisk: 'Moderately Increased' });
+    });
+
+    it('should avoid simvastatin and lovastatin in poor function and offer unrestricted alternatives', () => {
+      const result = analyzeSLCO1B1(slco1b1('CC', 'GG'));
+      const simvastatin = guidanceFor(result, 'Simvastatin');
+
+      expect(simvastatin).toMatchObject({ action: 'Avoid', myopathyRisk: 'Very High', doseCeiling: 0 });
+      expect(guidanceFor(result, 'Lovastatin').action).toBe('Avoid');
+      expect(guidanceFor(result, 'Atorvastatin').doseCeiling).toBe(20);
+      expect(guidanceFor(result, 'Rosuvastatin').doseCeiling).toBe(10);
+      expect(guidanceFor(result, 'Pitavastatin').doseCeiling).toBe(1);
+      expect(simvastatin.alternatives).toEqual(
+        result.drugs.filter(d => d.action === 'Standard').map(d => d.statin)
+      );
+    });
+
+    it('should keep a conservative simvastatin ceiling when SLCO1B1 is not genotyped', () => {
+      const guidance = calculateStatinGuidance('Unknown', 'Unknown', null);
+
+      expect(guidance.find(d => d.statin === 'Simvastatin')).toMatchObject({ doseCeiling: 40, cpicClassification: 'No recommendation' });
+      expect(guidance.find(d => d.statin === 'Rosuvastatin')!.action).toBe('Standard');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: ABCG2 AND ROSUVASTATIN
+  // ============================================================================
+
+  describe('ABCG2 and Rosuvastatin', () => {
+    it('should limit rosuvastatin to 10 mg for ABCG2 poor function only', () => {
+      const het = analyzeSLCO1B1(slco1b1('TT', 'AA', [{ rsid: 'rs2231142', genotype: 'GT' }]));
+      const hom = analyzeSLCO1B1(slco1b1('TT', 'AA', [{ rsid: 'rs2231142', genotype: 'TT' }]));
+
+      expect(het.abcg2.function).toBe('Decreased Function');
+      expect(guidanceFor(het, 'Rosuvastatin').action).toBe('Standard');
+      expect(guidanceFor(hom, 'Rosuvastatin')).toMatchObject({ doseCeiling: 10, genes: ['ABCG2'] });
+      expect(guidanceFor(hom, 'Atorvastatin').action).toBe('Standard');
+    });
+
+    it('should take the lower ceiling with decreased SLCO1B1 and poor ABCG2', () => {
+      const result = analyzeSLCO1B1(slco1b1('TC', 'AA', [{ rsid: 'rs2231142', genotype: 'TT' }]));
+
+      expect(guidanceFor(result, 'Rosuvastatin')).toMatchObject({ doseCeiling: 10, genes: ['SLCO1B1', 'ABCG2'] });
+    });
+
+    it('should read ABCG2 on the reverse strand', () => {
+      expect(analyzeSLCO1B1(slco1b1('TT', 'AA', [{ rsid: 'rs2231142', genotype: 'AA' }])).abcg2.function).toBe('Poor Function');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: CYP2C9 AND FLUVASTATIN
+  // ============================================================================
+
+  describe('CYP2C9 and Fluvastatin', () => {
+    it.each([
+      ['Normal Function', 'Intermediate Metabolizer', 'Standard', null],
+      ['Normal Function', 'Poor Metabolizer', 'Limit Dose', 20],
+      ['Poor Function', 'Normal Metabolizer', 'Limit Dose', 40],
+      ['Decreased Function', 'Intermediate Metabolizer', 'Avoid', 0]
+    ] as const)('should grade fluvastatin for SLCO1B1 %s with CYP2C9 %s', (slco1b1Function, cyp2c9, action, ceiling) => {
+      const fluvastatin = calculateStatinGuidance(slco1b1Function, 'Unknown', cyp2c9).find(d => d.statin === 'Fluvastatin')!;
+
+      expect(fluvastatin).toMatchObject({ action, doseCeiling: ceiling });
+    });
+
+    it('should ignore an unknown CYP2C9 phenotype', () => {
+      const result = analyzeSLCO1B1(slco1b1('TT', 'AA'), '23andme', { allele1: 'Unknown', allele2: 'Unknown', phenotype: 'Unknown' });
+
+      expect(result.cyp2c9Phenotype).toBeNull();
+      expect(result.limitations.some(l => l.includes('CYP2C9 phenotype not available'))).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 5: COMPREHENSIVE ANALYSIS INTEGRATION
+  // ============================================================================
+
+  describe('Comprehensive Analysis Integration', () => {
+    it('should pass the CYP2C9 call to the statin guidance', () => {
+      const result = analyzeComprehensivePGx(slco1b1('TC', 'AG', [
+        { rsid: 'rs1799853', genotype: 'CC' },
+        { rsid: 'rs1057910', genotype: 'AC' }
+      ]));
+
+      expect(result.slco1b1?.cyp2c9Phenotype).toBe('Intermediate Metabolizer');
+      expect(result.slco1b1?.drugs.find(d => d.statin === 'Fluvastatin')!.action).toBe('Avoid');
+    });
+
+    it('should warn about the statins to avoid', () => {
+      const result = analyzeComprehensivePGx(slco1b1('CC', 'AA', [{ rsid: 'rs2231142', genotype: 'GT' }]));
+
+      expect(result.summary.criticalWarnings).toContain('SLCO1B1: High statin myopathy risk - AVOID simvastatin, lovastatin');
+      expect(result.summary.genesAnalyzed).toEqual(expect.arrayContaining(['SLCO1B1', 'ABCG2']));
+    });
+  });
+
+  // ============================================================================
+  // SECTION 6: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it('should produce results that pass the SLCO1B1 schema', () => {
+      expect(() => validateSLCO1B1Result(analyzeSLCO1B1(slco1b1('TC', 'AG', [{ rsid: 'rs2231142', genotype: 'TT' }])))).not.toThrow();
+      expect(() => validateSLCO1B1Result(analyzeSLCO1B1(slco1b1('CC')))).not.toThrow();
+      expect(() => validateSLCO1B1Result(analyzeSLCO1B1([]))).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * THROMBOPHILIA PANEL TESTS
+ *
+ * Test suite for the F5/F2 thrombophilia panel and its VTE risk model.
+ *
+ * Genes: F5 (Factor V Leiden), F2 (prothrombin G20210A)
+ * Key Variants (forward strand): rs6025 T - Factor V Leiden; rs1799963 A - G20210A
+ * Categories: None, FVL/Prothrombin Heterozygous/Homozygous, Compound FVL + Prothrombin
+ *
+ * Test Structure (6 sections):
+ * 1. Genotype Calls and Compound Genotypes
+ * 2. Numeric VTE Risk
+ * 3. Clinical Modifiers
+ * 4. Contraceptive Safety
+ * 5. Comprehensive and Integrated Analysis
+ * 6. Schema Validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeThrombophilia } from '@analysis/analyzers/thrombophilia-analyzer';
+import { analyzeF5 } from '@analysis/analyzers/f5-analyzer';
+import { calculateVTERisk } from '@analysis/core/vte-risk';
+import { analyzeComprehensivePGx } from '@analysis/core/comprehensive-pgx-analysis';
+import { analyzeCompleteDNA } from '@analysis/core/integrated-dna-analysis';
+import { validateThrombophiliaResult, validateVTERiskEstimate } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+function panel(rs6025: string, rs1799963: string) {
+  return createTestGenotypes([
+    { rsid: 'rs6025', genotype: rs6025 },
+    { rsid: 'rs1799963', genotype: rs1799963 }
+  ]);
+}
+
+describe('Thrombophilia Panel', () => {
+  // ============================================================================
+  // SECTION 1: GENOTYPE CALLS AND COMPOUND GENOTYPES
+  // ============================================================================
+
+  describe('Genotype Calls and Compound Genotypes', () => {
+    it.each([
+      ['CC', 'GG', 'None'],
+      ['CT', 'GG', 'FVL Heterozygous'],
+      ['TT', 'GG', 'FVL Homozygous'],
+      ['CC', 'GA', 'Prothrombin Heterozygous'],
+      ['CC', 'AA', 'Prothrombin Homozygous'],
+      ['CT', 'GA', 'Compound FVL + Prothrombin'],
+      ['TT', 'GA', 'Compound FVL + Prothrombin']
+    ])('should classify rs6025 %s with rs1799963 %s as %s', (f5, f2, category) => {
+      expect(analyzeThrombophilia(panel(f5, f2)).inheritedThrombophilia).toBe(category);
+    });
+
+    it('should read F5 on the gene strand and F2 on the reverse strand', () => {
+      const result = analyzeThrombophilia(panel('AG', 'CT'));
+
+      expect(result.f5.leidenCopies).toBe(1);
+      expect(result.f2).toMatchObject({ rs1799963: 'AG', prothrombinCopies: 1, status: 'Heterozygous' });
+      expect(result.inheritedThrombophilia).toBe('Compound FVL + Prothrombin');
+    });
+
+    it('should report Unknown and flag missing genotypes', () => {
+      const result = analyzeThrombophilia([]);
+
+      expect(result.inheritedThrombophilia).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+      expect(result.vteRisk.assumedInputs).toEqual(expect.arrayContaining([
+        expect.stringContaining('rs6025'),
+        expect.stringContaining('rs1799963')
+      ]));
+    });
+
+    it('should multiply component risks when a compound genotype includes a homozygote', () => {
+      const result = analyzeThrombophilia(panel('TT', 'GA'));
+
+      expect(result.vteRisk.inheritedRelativeRisk).toEqual({ estimate: 60, low: 20, high: 320 });
+      expect(result.safetyAlerts[0]).toContain('COMPOUND FVL + PROTHROMBIN');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: NUMERIC VTE RISK
+  // ============================================================================
+
+  describe('Numeric VTE Risk', () => {
+    it('should give a non-carrier the age baseline with no multiplier', () => {
+      const { vteRisk } = analyzeThrombophilia(panel('CC', 'GG'), '23andme', { age: 30 });
+
+      expect(vteRisk.relativeRisk).toEqual({ estimate: 1, low: 1, high: 1 });
+      expect(vteRisk.annualAbsoluteRisk).toEqual({ estimate: 0.3, low: 0.1, high: 0.5 });
+      expect(vteRisk.assumedInputs).toEqual([]);
+    });
+
+    it('should use the published compound heterozygote risk', () => {
+      const { vteRisk } = analyzeThrombophilia(panel('CT', 'GA'), '23andme', { age: 50 });
+
+      expect(vteRisk.relativeRisk).toEqual({ estimate: 20, low: 11, high: 36 });
+      expect(vteRisk.annualAbsoluteRisk).toEqual({ estimate: 20, low: 5.5, high: 54 });
+    });
+
+    it('should use the observed joint risk for Factor V Leiden on a combined pill', () => {
+      const risk = calculateVTERisk(
+        { factorVLeiden: 1, prothrombin: 0 },
+        { age: 25, estrogen: 'combined-oral-contraceptive' }
+      );
+
+      expect(risk.relativeRisk).toEqual({ estimate: 35, low: 15, high: 80 });
+      expect(risk.factors.map(f => f.factor)).toContain('FVL Heterozygous × combined oral contraceptive interaction');
+    });
+
+    it('should report scenarios for the same patient with one exposure added', () => {
+      const { scenarios } = analyzeThrombophilia(panel('CC', 'GA'), '23andme', { age: 30 });
+
+      expect(scenarios[0]).toMatchObject({ scenario: 'Current', relativeRisk: { estimate: 3 } });
+      expect(scenarios.find(s => s.scenario === 'Combined oral contraceptive')!.relativeRisk.estimate).toBe(16);
+      expect(scenarios.find(s => s.scenario === 'Postpartum')!.relativeRisk.estimate).toBe(60);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: CLINICAL MODIFIERS
+  // ============================================================================
+
+  describe('Clinical Modifiers', () => {
+    it('should multiply age, BMI, smoking, surgery and immobilization into the estimate', () => {
+      const risk = calculateVTERisk(
+        { factorVLeiden: 0, prothrombin: 0 },
+        { age: 65, bmi: 32, smoker: true, recentSurgery: true, immobilized: true }
+      );
+
+      expect(risk.factors.map(f => f.factor)).toEqual([
+        'Major surgery (last 6 weeks)',
+        'Immobilization',
+        'BMI ≥30',
+        'Current smoking'
+      ]);
+      expect(risk.relativeRisk.estimate).toBe(325);
+      expect(risk.baselineAnnualRisk.estimate).toBe(3);
+    });
+
+    it('should rank transdermal below oral estrogen', () => {
+      const inherited = { factorVLeiden: 1, prothrombin: 0 };
+      const oral = calculateVTERisk(inherited, { estrogen: 'oral-hrt' });
+      const transdermal = calculateVTERisk(inherited, { estrogen: 'transdermal-hrt' });
+
+      expect(transdermal.relativeRisk.estimate).toBeLessThan(oral.relativeRisk.estimate);
+    });
+
+    it('should take smoking status from the shared options', () => {
+      const result = analyzeComprehensivePGx(panel('CC', 'GG'), '23andme', { smoker: true });
+
+      expect(result.thrombophilia?.vteRisk.factors.map(f => f.factor)).toContain('Current smoking');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: CONTRACEPTIVE SAFETY
+  // ============================================================================
+
+  describe('Contraceptive Safety', () => {
+    it('should contraindicate combined pills for carriers', () => {
+      const result = analyzeThrombophilia(panel('CC', 'GA'));
+
+      expect(result.contraceptiveSafety.combinedOCPs).toBe('Contraindicated');
+      expect(result.contraceptiveSafety.progestinOnly).toBe('Safe');
+      expect(result.contraceptiveSafety.fdaBlackBoxApplies).toBe(true);
+    });
+
+    it('should grade a non-carrier from clinical factors', () => {
+      const none = analyzeThrombophilia(panel('CC', 'GG'), '23andme', { age: 30 });
+      const obese = analyzeThrombophilia(panel('CC', 'GG'), '23andme', { age: 30, bmi: 35 });
+      const postpartum = analyzeThrombophilia(panel('CC', 'GG'), '23andme', { age: 30, pregnancy: 'postpartum' });
+
+      expect(none.contraceptiveSafety.combinedOCPs).toBe('Safe');
+      expect(obese.contraceptiveSafety.combinedOCPs).toBe('Use Caution');
+      expect(postpartum.contraceptiveSafety).toMatchObject({ combinedOCPs: 'Contraindicated', progestinOnly: 'Use Caution' });
+    });
+
+    it('should build the F5 risk assessment from the panel estimate', () => {
+      const { vteRisk } = analyzeThrombophilia(panel('CT', 'GA'), '23andme', { age: 30 });
+      const f5 = analyzeF5('CT', null, vteRisk);
+
+      expect(f5.contraceptiveSafety.combinedOCPs).toBe('Contraindicated');
+      expect(f5.vteRiskAssessment.absoluteRiskEstimate).toContain('Compound FVL + Prothrombin');
+      expect(f5.vteRiskAssessment.withOCPs).toMatch(/per 1,000\/year/);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 5: COMPREHENSIVE AND INTEGRATED ANALYSIS
+  // ============================================================================
+
+  describe('Comprehensive and Integrated Analysis', () => {
+    it('should run the panel and pass its risk to the F5 result', () => {
+      const result = analyzeComprehensivePGx(panel('CT', 'GA'), '23andme', { vte: { age: 30 } });
+
+      expect(result.thrombophilia?.inheritedThrombophilia).toBe('Compound FVL + Prothrombin');
+      expect(result.summary.genesAnalyzed).toEqual(expect.arrayContaining(['F5', 'F2']));
+      expect(result.summary.criticalWarnings.some(w => w.includes('COMPOUND FVL + PROTHROMBIN: 20x (11-36x)'))).toBe(true);
+      expect(result.f5?.vteRiskAssessment.absoluteRiskEstimate).toContain('Compound FVL + Prothrombin');
+    });
+
+    it('should add a critical finding for high-risk genotypes', () => {
+      const analysis = analyzeCompleteDNA({ rs6025: 'CT', rs1799963: 'GA' });
+      const finding = analysis.criticalFindings.find(f => f.finding.startsWith('Compound FVL + Prothrombin'))!;
+
+      expect(finding.priority).toBe('critical');
+      expect(finding.variants).toEqual(['rs6025', 'rs1799963']);
+    });
+
+    it('should add a high-priority finding for a single heterozygote', () => {
+      const analysis = analyzeCompleteDNA({ rs6025: 'CC', rs1799963: 'GA' });
+
+      expect(analysis.criticalFindings.find(f => f.finding.startsWith('Prothrombin Heterozygous'))!.priority).toBe('high');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 6: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it('should produce results that pass the thrombophilia schemas', () => {
+      expect(() => validateThrombophiliaResult(analyzeThrombophilia(panel('CT', 'GA'), '23andme', { age: 40, bmi: 28 }))).not.toThrow();
+      expect(() => validateThrombophiliaResult(analyzeThrombophilia([]))).not.toThrow();
+      expect(() => validateVTERiskEstimate(calculateVTERisk({ factorVLeiden: 2, prothrombin: null }, { estrogen: 'oral-hrt' }))).not.toThrow();
+      expect(() => validateThrombophiliaResult(analyzeComprehensivePGx(panel('TT', 'GG')).thrombophilia)).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * TPMT ANALYZER TESTS
+ *
+ * Test suite for the TPMT analyzer and combined TPMT + NUDT15 thiopurine dosing.
+ *
+ * Gene: TPMT (Thiopurine S-methyltransferase)
+ * Key Variants (GRCh37 forward strand):
+ * - TPMT*2 (rs1800462 C>G)
+ * - TPMT*3B (rs1800460 C>T)
+ * - TPMT*3C (rs1142345 T>C)
+ * - TPMT*3A = *3B + *3C in cis
+ * Phenotypes: Normal, Intermediate, Poor Metabolizer
+ *
+ * Clinical Significance:
+ * - Mercaptopurine, azathioprine, thioguanine (CPIC Level A, with NUDT15)
+ *
+ * Test Structure (6 sections):
+ * 1. Diplotype Calling
+ * 2. Missing Data & Confidence
+ * 3. Combined Thiopurine Dosing
+ * 4. Drug Recommendations
+ * 5. Schema Validation
+ * 6. Critical Findings Integration
+ */
+
+import { describe, it, expect } from 'vitest';
+import { analyzeTPMT } from '@analysis/analyzers/tpmt-analyzer';
+import { analyzeCompleteDNA } from '@analysis/core/integrated-dna-analysis';
+import { validateTPMTResult } from '@analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+function genotypesFor(star2: string, star3B: string, star3C: string) {
+  return createTestGenotypes([
+    { rsid: 'rs1800462', genotype: star2 },
+    { rsid: 'rs1800460', genotype: star3B },
+    { rsid: 'rs1142345', genotype: star3C }
+  ]);
+}
+
+const NUDT15_NORMAL = { allele1: '*1', allele2: '*1', phenotype: 'Normal Metabolizer' };
+const NUDT15_INTERMEDIATE = { allele1: '*1', allele2: '*3', phenotype: 'Intermediate Metabolizer' };
+const NUDT15_POOR = { allele1: '*3', allele2: '*3', phenotype: 'Poor Metabolizer' };
+
+describe('TPMT Analyzer', () => {
+  // ============================================================================
+  // SECTION 1: DIPLOTYPE CALLING
+  // ============================================================================
+
+  describe('Diplotype Calling', () => {
+    it.each([
+      ['CC', 'CC', 'TT', '*1', '*1', 'Normal Metabolizer'],
+      ['CG', 'CC', 'TT', '*1', '*2', 'Intermediate Metabolizer'],
+      ['CC', 'CT', 'TT', '*1', '*3B', 'Intermediate Metabolizer'],
+      ['CC', 'CC', 'CT', '*1', '*3C', 'Intermediate Metabolizer'],
+      ['CC', 'CC', 'CC', '*3C', '*3C', 'Poor Metabolizer'],
+      ['CC', 'TT', 'CC', '*3A', '*3A', 'Poor Metabolizer'],
+      ['CC', 'CT', 'CC', '*3A', '*3C', 'Poor Metabolizer']
+    ])('%s/%s/%s → %s/%s (%s)', (star2, star3B, star3C, allele1, allele2, phenotype) => {
+      const result = analyzeTPMT(genotypesFor(star2, star3B, star3C));
+
+      expect(result.gene).toBe('TPMT');
+      expect(result.diplotype.allele1).toBe(allele1);
+      expect(result.diplotype.allele2).toBe(allele2);
+      expect(result.diplotype.phenotype).toBe(phenotype);
+    });
+
+    it('should call double heterozygotes *1/*3A and flag phase ambiguity', () => {
+      const result = analyzeTPMT(genotypesFor('CC', 'CT', 'CT'));
+
+      expect(result.diplotype.allele1).toBe('*1');
+      expect(result.diplotype.allele2).toBe('*3A');
+      expect(result.diplotype.phenotype).toBe('Intermediate Metabolizer');
+      expect(result.diplotype.phaseAmbiguity).toBe(true);
+      expect(result.limitations.some(l => l.includes('*3B/*3C'))).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 2: MISSING DATA & CONFIDENCE
+  // ============================================================================
+
+  describe('Missing Data & Confidence', () => {
+    it('should return Unknown with low confidence when rs1142345 is missing', () => {
+      const result = analyzeTPMT(createTestGenotypes([{ rsid: 'rs1800460', genotype: 'CC' }]));
+
+      expect(result.diplotype.phenotype).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+    });
+
+    it('should reduce confidence to medium when *2 or *3B positions are missing', () => {
+      const result = analyzeTPMT(createTestGenotypes([{ rsid: 'rs1142345', genotype: 'TT' }]));
+
+      expect(result.diplotype.phenotype).toBe('Normal Metabolizer');
+      expect(result.confidence).toBe('medium');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 3: COMBINED THIOPURINE DOSING
+  // ============================================================================
+
+  describe('Combined Thiopurine Dosing', () => {
+    it('should give standard dosing when both genes are normal', () => {
+      const result = analyzeTPMT(genotypesFor('CC', 'CC', 'TT'), '23andme', NUDT15_NORMAL);
+
+      expect(result.thiopurineDosing.combinedPhenotype).toBe('Normal Metabolizer');
+      expect(result.thiopurineDosing.nudt15Diplotype).toBe('*1/*1');
+      expect(result.thiopurineDosing.limitingGene).toBeNull();
+    });
+
+    it('should reduce dose when only NUDT15 is intermediate', () => {
+      const result = analyzeTPMT(genotypesFor('CC', 'CC', 'TT'), '23andme', NUDT15_INTERMEDIATE);
+
+      expect(result.thiopurineDosing.combinedPhenotype).toBe('Intermediate Metabolizer');
+      expect(result.thiopurineDosing.limitingGene).toBe('NUDT15');
+      expect(result.thiopurineDosing.startingDose.mercaptopurine).toContain('30-80%');
+    });
+
+    it('should compound TPMT and NUDT15 intermediate metabolizers', () => {
+      const result = analyzeTPMT(genotypesFor('CC', 'CT', 'CT'), '23andme', NUDT15_INTERMEDIATE);
+
+      expect(result.thiopurineDosing.combinedPhenotype).toBe('Compound Intermediate Metabolizer');
+      expect(result.thiopurineDosing.limitingGene).toBe('both');
+    });
+
+    it('should use NUDT15-specific poor metabolizer dosing', () => {
+      const result = analyzeTPMT(genotypesFor('CC', 'CC', 'TT'), '23andme', NUDT15_POOR);
+
+      expect(result.thiopurineDosing.combinedPhenotype).toBe('Poor Metabolizer');
+      expect(result.thiopurineDosing.startingDose.mercaptopurine).toContain('10 mg/m²/day');
+    });
+
+    it('should use TPMT-specific poor metabolizer dosing', () => {
+      const result = analyzeTPMT(genotypesFor('CC', 'TT', 'CC'), '23andme', NUDT15_NORMAL);
+
+      expect(result.thiopurineDosing.limitingGene).toBe('TPMT');
+      expect(result.thiopurineDosing.startingDose.mercaptopurine).toContain('10-fold');
+    });
+
+    it('should note missing NUDT15 data', () => {
+      const result = analyzeTPMT(genotypesFor('CC', 'CC', 'TT'));
+
+      expect(result.thiopurineDosing.nudt15Diplotype).toBeNull();
+      expect(result.thiopurineDosing.clinicalConsiderations.some(c => c.includes('NUDT15 not tested'))).toBe(true);
+    });
+  });
+
+  // ============================================================================
+  // SECTION 4: DRUG RECOMMENDATIONS
+  // ============================================================================
+
+  describe('Drug Recommendations', () => {
+    it('should cover mercaptopurine, azathioprine and thioguanine', () => {
+      const result = analyzeTPMT(genotypesFor('CC', 'CC', 'TT'), '23andme', NUDT15_NORMAL);
+
+      expect(result.drugs.map(d => d.drug.split(' ')[0])).toEqual(['Mercaptopurine', 'Azathioprine', 'Thioguanine']);
+      expect(result.drugs.every(d => d.riskLevel === 'normal')).toBe(true);
+    });
+
+    it('should mark thiopurines critical for poor metabolizers and list alternatives', () => {
+      const result = analyzeTPMT(genotypesFor('CC', 'TT', 'CC'), '23andme', NUDT15_NORMAL);
+      const azathioprine = result.drugs.find(d => d.drug.startsWith('Azathioprine'));
+
+      expect(azathioprine?.riskLevel).toBe('critical');
+      expect(azathioprine?.alternativeDrugs).toBeDefined();
+      expect(result.safetyAlerts[0]).toContain('poor metabolizer');
+    });
+  });
+
+  // ============================================================================
+  // SECTION 5: SCHEMA VALIDATION
+  // ============================================================================
+
+  describe('Schema Validation', () => {
+    it.each([
+      [genotypesFor('CC', 'CC', 'TT'), NUDT15_NORMAL],
+      [genotypesFor('CC', 'CT', 'CT'), NUDT15_INTERMEDIATE],
+      [genotypesFor('CC', 'TT', 'CC'), NUDT15_POOR],
+      [genotypesFor('--', '--', '--'), undefined]
+    ])('should produce a schema-valid result (case %#)', (genotypes, nudt15) => {
+      expect(() => validateTPMTResult(analyzeTPMT(genotypes, '23andme', nudt15))).not.toThrow();
+    });
+  });
+
+  // ============================================================================
+  // SECTION 6: CRITICAL FINDINGS INTEGRATION
+  // ============================================================================
+
+  describe('Critical Findings Integration', () => {
+    it('should raise one combined thiopurine finding for TPMT + NUDT15 intermediate metabolizers', () => {
+      const analysis = analyzeCompleteDNA({
+        rs1800462: 'CC', rs1800460: 'CT', rs1142345: 'CT', rs116855232: 'CT'
+      });
+      const findings = analysis.criticalFindings.filter(f => f.finding.includes('Thiopurine'));
+
+      expect(findings).toHaveLength(1);
+      expect(findings[0].priority).toBe('critical');
+      expect(findings[0].finding).toContain('TPMT *1/*3A + NUDT15 *1/*3');
+      expect(findings[0].variants).toEqual(['rs1800460', 'rs1142345', 'rs116855232']);
+    });
+
+    it('should raise a high-priority finding for a single intermediate gene', () => {
+      const analysis = analyzeCompleteDNA({
+        rs1800462: 'CC', rs1800460: 'CC', rs1142345: 'CT', rs116855232: 'CC'
+      });
+      const finding = analysis.criticalFindings.find(f => f.finding.includes('Thiopurine'));
+
+      expect(finding?.priority).toBe('high');
+      expect(finding?.finding).toContain('TPMT *1/*3C');
+    });
+  });
+});
@@ -155,6 +155,20 @@ describe('UGT1A1 Analyzer', () => {
       expect(result.diplotype.phenotype).toBe('Intermediate Metabolizer');
       expect(result.diplotype.activityScore).toBe(1.0);
     });
+
+    it('should call *6/*27 when both variants are heterozygous', () => {
+      const genotypes = createTestGenotypes([
+        { rsid: 'rs4148323', genotype: 'GA' },
+        { rsid: 'rs887829', genotype: 'CT' }
+      ]);
+
+      const result = analyzeUGT1A1(genotypes);
+
+      expect(result.diplotype.allele1).toBe('*6');
+      expect(result.diplotype.allele2).toBe('*27');
+      expect(result.diplotype.activityScore).toBeCloseTo(0.8);
+      expect(result.diplotype.phenotype).toBe('Poor Metabolizer');
+    });
   });
 
   // ==========================================================================
@@ -29,7 +29,7 @@ describe('VKORC1 Analyzer', () => {
       const result = analyzeVKORC1([VKORC1_TEST_GENOTYPES.GG]);
 
       expect(result.gene).toBe('VKORC1');
-      expect(result.genotype.rs9923231).toBe('GG');
+      expect(result.genotype.rs9923231).toBe('CC'); // Reported on the GRCh37 forward strand
       expect(result.genotype.phenotype).toBe('Low Sensitivity');
       expect(result.confidence).toBe('high');
     });
@@ -37,7 +37,7 @@ describe('VKORC1 Analyzer', () => {
     it('should analyze AG genotype (intermediate sensitivity) correctly', () => {
       const result = analyzeVKORC1([VKORC1_TEST_GENOTYPES.AG]);
 
-      expect(result.genotype.rs9923231).toBe('AG');
+      expect(result.genotype.rs9923231).toBe('CT');
       expect(result.genotype.phenotype).toBe('Intermediate Sensitivity');
     });
 
@@ -45,7 +45,7 @@ describe('VKORC1 Analyzer', () => {
       // AA = High sensitivity = needs LOW warfarin doses to avoid bleeding
       const result = analyzeVKORC1([VKORC1_TEST_GENOTYPES.AA]);
 
-      expect(result.genotype.rs9923231).toBe('AA');
+      expect(result.genotype.rs9923231).toBe('TT');
       expect(result.genotype.phenotype).toBe('High Sensitivity');
     });
   });
@@ -184,12 +184,29 @@ describe('VKORC1 Analyzer', () => {
   });
 
   describe('Genotype Normalization', () => {
-    it('should normalize GA to AG', () => {
-      // Genotype normalization sorts alphabetically: GA -> AG
+    it('should normalize GA to the forward-strand CT', () => {
+      // -1639G>A notation is the minus strand: GA is complemented and sorted -> CT
       const result = analyzeVKORC1([{ rsid: 'rs9923231', genotype: 'GA' }]);
 
-      expect(result.genotype.rs9923231).toBe('AG');
+      expect(result.genotype.rs9923231).toBe('CT');
       expect(result.genotype.phenotype).toBe('Intermediate Sensitivity');
     });
+
+    it.each([
+      ['CC', 'Low Sensitivity'],
+      ['TC', 'Intermediate Sensitivity'],
+      ['TT', 'High Sensitivity']
+    ])('should read forward-strand %s as %s', (genotype, phenotype) => {
+      const result = analyzeVKORC1([{ rsid: 'rs9923231', genotype }]);
+
+      expect(result.genotype.phenotype).toBe(phenotype);
+    });
+
+    it('should treat a call matching neither strand as missing', () => {
+      const result = analyzeVKORC1([{ rsid: 'rs9923231', genotype: 'AC' }]);
+
+      expect(result.genotype.rs9923231).toBe('Unknown');
+      expect(result.confidence).toBe('low');
+    });
   });
 });
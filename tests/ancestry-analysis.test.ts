@@ -0,0 +1,176 @@
+/**
+ * Ancestry Composition Estimation Tests
+ *
+ * Validates the AIM panel and the maximum-likelihood admixture estimator with bootstrap
+ * confidence intervals.
+ *
+ * Test Strategy:
+ * 1. Panel validation
+ * 2. Single-population and admixed individuals
+ * 3. Confidence intervals and reproducibility
+ * 4. Missing data
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ZodError } from 'zod';
+import panelData from '@/data/ancestry-aim-panel.json';
+import {
+    estimateAncestry,
+    getAncestryPanel,
+    loadAncestryPanel,
+    MIN_ANCESTRY_MARKERS,
+    type AncestryEstimate
+} from '@/analysis/core/ancestry-analysis';
+
+/**
+ * Most likely genotype at every marker for an individual drawn from one population
+ */
+function modalGenotypes(population: string): Record<string, string> {
+    const genotypes: Record<string, string> = {};
+    for (const marker of getAncestryPanel().markers) {
+        const count = Math.round(2 * marker.frequencies[population]);
+        genotypes[marker.rsid] = marker.allele.repeat(count) + marker.other_allele.repeat(2 - count);
+    }
+    return genotypes;
+}
+
+/**
+ * One allele from each population's majority allele (a first-generation admixed individual)
+ */
+function admixedGenotypes(populationA: string, populationB: string): Record<string, string> {
+    const genotypes: Record<string, string> = {};
+    for (const marker of getAncestryPanel().markers) {
+        const pick = (p: string) => marker.frequencies[p] >= 0.5 ? marker.allele : marker.other_allele;
+        genotypes[marker.rsid] = pick(populationA) + pick(populationB);
+    }
+    return genotypes;
+}
+
+function percentageOf(estimate: AncestryEstimate, population: string): number {
+    return estimate.components.find(c => c.population === population)?.percentage ?? 0;
+}
+
+// =============================================================================
+// PANEL
+// =============================================================================
+
+describe('Ancestry Estimation - Panel', () => {
+    it('should validate the bundled AIM panel', () => {
+        const panel = getAncestryPanel();
+
+        expect(panel.populations).toEqual([
+            'European', 'Sub-Saharan African', 'East Asian', 'South Asian', 'Indigenous Americas'
+        ]);
+        expect(panel.markers.length).toBeGreaterThanOrEqual(MIN_ANCESTRY_MARKERS);
+    });
+
+    it('should reject a panel with a missing population frequency', () => {
+        const invalid = structuredClone(panelData) as { markers: Array<{ frequencies: Record<string, number> }> };
+        delete invalid.markers[0].frequencies['East Asian'];
+
+        expect(() => loadAncestryPanel(invalid)).toThrow(ZodError);
+    });
+});
+
+// =============================================================================
+// ESTIMATION
+// =============================================================================
+
+describe('Ancestry Estimation - Admixture Proportions', () => {
+    it.each([
+        'European',
+        'Sub-Saharan African',
+        'East Asian',
+        'South Asian'
+    ])('should assign a typical %s genome mostly to that population', population => {
+        const estimate = estimateAncestry(modalGenotypes(population));
+
+        expect(estimate.status).toBe('estimated');
+        expect(estimate.components[0].population).toBe(population);
+        expect(estimate.components[0].percentage).toBeGreaterThan(70);
+    });
+
+    it('should split a European x Sub-Saharan African individual between both', () => {
+        const estimate = estimateAncestry(admixedGenotypes('European', 'Sub-Saharan African'));
+
+        expect(percentageOf(estimate, 'European')).toBeGreaterThan(30);
+        expect(percentageOf(estimate, 'Sub-Saharan African')).toBeGreaterThan(30);
+        expect(percentageOf(estimate, 'East Asian')).toBeLessThan(15);
+    });
+
+    it('should return proportions that sum to 100%', () => {
+        const estimate = estimateAncestry(admixedGenotypes('East Asian', 'European'));
+        const total = estimate.components.reduce((sum, c) => sum + c.percentage, 0);
+
+        expect(total).toBeCloseTo(100, 0);
+    });
+
+    it('should sort components largest first', () => {
+        const { components } = estimateAncestry(modalGenotypes('East Asian'));
+
+        for (let i = 1; i < components.length; i++) {
+            expect(components[i - 1].percentage).toBeGreaterThanOrEqual(components[i].percentage);
+        }
+    });
+
+    it('should report a finite log-likelihood', () => {
+        expect(Number.isFinite(estimateAncestry(modalGenotypes('European')).logLikelihood)).toBe(true);
+    });
+});
+
+// =============================================================================
+// CONFIDENCE INTERVALS
+// =============================================================================
+
+describe('Ancestry Estimation - Bootstrap Confidence Intervals', () => {
+    it('should bracket every estimate with its 95% interval', () => {
+        const estimate = estimateAncestry(admixedGenotypes('European', 'South Asian'));
+
+        expect(estimate.bootstrapReplicates).toBe(200);
+        for (const { percentage, confidence } of estimate.components) {
+            expect(confidence[0]).toBeLessThanOrEqual(percentage);
+            expect(confidence[1]).toBeGreaterThanOrEqual(percentage);
+            expect(confidence[0]).toBeGreaterThanOrEqual(0);
+            expect(confidence[1]).toBeLessThanOrEqual(100);
+        }
+    });
+
+    it('should be reproducible for the same seed', () => {
+        const genotypes = admixedGenotypes('East Asian', 'Sub-Saharan African');
+
+        expect(estimateAncestry(genotypes, { seed: 7 })).toEqual(estimateAncestry(genotypes, { seed: 7 }));
+    });
+
+    it('should honour the requested number of replicates', () => {
+        const estimate = estimateAncestry(modalGenotypes('European'), { bootstrapReplicates: 25 });
+
+        expect(estimate.bootstrapReplicates).toBe(25);
+    });
+});
+
+// =============================================================================
+// MISSING DATA
+// =============================================================================
+
+describe('Ancestry Estimation - Missing Data', () => {
+    it('should not estimate with too few markers', () => {
+        const estimate = estimateAncestry({ rs1426654: 'AA', rs2814778: 'TT' });
+
+        expect(estimate.status).toBe('insufficient_data');
+        expect(estimate.components).toEqual([]);
+        expect(estimate.markersUsed).toBe(2);
+        expect(estimate.logLikelihood).toBeNull();
+    });
+
+    it('should skip no-calls and alleles outside the panel', () => {
+        const genotypes = {
+            ...modalGenotypes('European'),
+            rs1426654: '--',
+            rs2814778: 'AG'
+        };
+        const estimate = estimateAncestry(genotypes);
+
+        expect(estimate.markersUsed).toBe(estimate.markersInPanel - 2);
+        expect(estimate.limitations[0]).toContain(`${estimate.markersUsed} of ${estimate.markersInPanel}`);
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * Raw Data Provider Tests
+ *
+ * Validates header-based provider detection, the per-provider raw data parsers and the
+ * provider-specific coverage limitations reported by the analyzers.
+ *
+ * Test Strategy:
+ * 1. Provider detection from file headers and column layouts
+ * 2. Parsing of every supported format into rsid/chromosome/position/genotype rows
+ * 3. Provider-specific limitations in analyzer results
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    detectProvider,
+    getProviderCoverageLimitations,
+    parseRawData,
+    GENETIC_PROVIDERS,
+    PROVIDER_PROFILES,
+    type GeneticProvider
+} from '@/analysis/utils/genotype-utils';
+import { GeneticProviderSchema } from '@/analysis/schemas/pgx-schemas';
+import { analyzeCYP2D6 } from '@/analysis/analyzers/cyp2d6-analyzer';
+import { analyzeDPYD } from '@/analysis/analyzers/dpyd-analyzer';
+import { analyzeUGT1A1 } from '@/analysis/analyzers/ugt1a1-analyzer';
+import { createTestGenotypes } from '@tests/test-utils';
+
+const TWENTY_THREE_AND_ME = [
+    '# This data file generated by 23andMe at: Mon Jan 01 00:00:00 2024',
+    '# rsid\tchromosome\tposition\tgenotype',
+    'rs4244285\t10\t96541616\tAG',
+    'i6010053\tMT\t3010\tA',
+    'rs12248560\t10\t96521657\t--'
+].join('\n');
+
+const ANCESTRY_DNA = [
+    '#AncestryDNA raw data download',
+    '#This file was generated by AncestryDNA at: 01/01/2024 00:00:00 UTC',
+    'rsid\tchromosome\tposition\tallele1\tallele2',
+    'rs4244285\t10\t96541616\tA\tG',
+    'rs2032652\t24\t21869271\tT\tT',
+    'rs12248560\t10\t96521657\t0\t0'
+].join('\r\n');
+
+const MY_HERITAGE = [
+    '# MyHeritage DNA raw data.',
+    '# This file was generated on 2024-01-01',
+    'RSID,CHROMOSOME,POSITION,RESULT',
+    '"rs4244285","10","96541616","AG"',
+    '"rs12248560","10","96521657","--"'
+].join('\n');
+
+const FTDNA = [
+    'RSID,CHROMOSOME,POSITION,RESULT',
+    '"rs4244285","10","96541616","AG"',
+    '"rs1057910","10","96741053","AA"'
+].join('\n');
+
+const LIVING_DNA = [
+    '# Living DNA customer genotype data download file version: 1.0.1',
+    '# rsid\tchromosome\tposition\tgenotype',
+    'rs4244285\t10\t96541616\tAG'
+].join('\n');
+
+const NEBULA_VCF = [
+    '##fileformat=VCFv4.2',
+    '##reference=GRCh38',
+    '#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tNG1234',
+    'chr10\t94781859\trs4244285\tG\tA\t50\tPASS\t.\tGT:DP\t0/1:30',
+    'chr10\t94761900\trs12248560\tC\tT\t50\tPASS\t.\tGT:DP\t1|1:28',
+    'chr10\t94762000\t.\tC\tG,T\t50\tPASS\t.\tGT\t1/2',
+    'chr10\t94762100\trs0000001\tCA\tC\t50\tPASS\t.\tGT\t0/1',
+    'chrM\t3010\trs2853499\tG\tA\t50\tPASS\t.\tGT\t1',
+    'chr10\t94762200\trs0000002\tA\tG\t50\tPASS\t.\tGT\t./.'
+].join('\n');
+
+// =============================================================================
+// DETECTION
+// =============================================================================
+
+describe('Raw Data Providers - Detection', () => {
+    it.each<[string, string, GeneticProvider]>([
+        ['23andMe', TWENTY_THREE_AND_ME, '23andme'],
+        ['AncestryDNA', ANCESTRY_DNA, 'ancestrydna'],
+        ['MyHeritage', MY_HERITAGE, 'myheritage'],
+        ['FamilyTreeDNA', FTDNA, 'ftdna'],
+        ['Living DNA', LIVING_DNA, 'livingdna'],
+        ['whole-genome VCF', NEBULA_VCF, 'vcf']
+    ])('should detect a %s file', (_label, content, provider) => {
+        expect(detectProvider(content)).toBe(provider);
+    });
+
+    it('should detect a 23andMe layout without the comment header', () => {
+        expect(detectProvider('rs4244285\t10\t96541616\tAG\n')).toBe('23andme');
+    });
+
+    it('should return unknown for unrecognised content', () => {
+        expect(detectProvider('hello,world\n1,2\n')).toBe('unknown');
+        expect(parseRawData('hello,world\n1,2\n').genotypes).toEqual([]);
+    });
+
+    it('should keep the provider enum, profiles and schema in sync', () => {
+        expect(Object.keys(PROVIDER_PROFILES).sort()).toEqual([...GENETIC_PROVIDERS].sort());
+        for (const provider of GENETIC_PROVIDERS) {
+            expect(GeneticProviderSchema.parse(provider)).toBe(provider);
+        }
+    });
+});
+
+// =============================================================================
+// PARSING
+// =============================================================================
+
+describe('Raw Data Providers - Parsing', () => {
+    it('should parse 23andMe rows including i-prefixed probes and no-calls', () => {
+        const { provider, genotypes } = parseRawData(TWENTY_THREE_AND_ME);
+
+        expect(provider).toBe('23andme');
+        expect(genotypes).toEqual([
+            { rsid: 'rs4244285', chromosome: '10', position: 96541616, genotype: 'AG' },
+            { rsid: 'i6010053', chromosome: 'MT', position: 3010, genotype: 'A' },
+            { rsid: 'rs12248560', chromosome: '10', position: 96521657, genotype: '--' }
+        ]);
+    });
+
+    it('should join AncestryDNA allele columns and map numbered chromosomes', () => {
+        const { genotypes } = parseRawData(ANCESTRY_DNA);
+
+        expect(genotypes).toEqual([
+            { rsid: 'rs4244285', chromosome: '10', position: 96541616, genotype: 'AG' },
+            { rsid: 'rs2032652', chromosome: 'Y', position: 21869271, genotype: 'TT' },
+            { rsid: 'rs12248560', chromosome: '10', position: 96521657, genotype: '--' }
+        ]);
+    });
+
+    it.each([
+        ['MyHeritage', MY_HERITAGE],
+        ['FamilyTreeDNA', FTDNA]
+    ])('should parse quoted %s CSV rows', (_label, content) => {
+        const { genotypes } = parseRawData(content);
+
+        expect(genotypes[0]).toEqual({ rsid: 'rs4244285', chromosome: '10', position: 96541616, genotype: 'AG' });
+        expect(genotypes).toHaveLength(2);
+    });
+
+    it('should parse Living DNA rows', () => {
+        const { provider, genotypes } = parseRawData(LIVING_DNA);
+
+        expect(provider).toBe('livingdna');
+        expect(genotypes).toEqual([
+            { rsid: 'rs4244285', chromosome: '10', position: 96541616, genotype: 'AG' }
+        ]);
+    });
+
+    it('should translate VCF GT indices into alleles', () => {
+        const { genotypes } = parseRawData(NEBULA_VCF);
+        const byId = Object.fromEntries(genotypes.map(g => [g.rsid, g]));
+
+        expect(byId.rs4244285).toEqual({ rsid: 'rs4244285', chromosome: '10', position: 94781859, genotype: 'GA' });
+        expect(byId.rs12248560.genotype).toBe('TT');
+        expect(byId['10:94762000'].genotype).toBe('GT');
+        expect(byId.rs2853499).toEqual({ rsid: 'rs2853499', chromosome: 'M', position: 3010, genotype: 'A' });
+        expect(byId.rs0000002.genotype).toBe('--');
+    });
+
+    it('should report VCF indel records with I/D allele codes', () => {
+        const { genotypes } = parseRawData(NEBULA_VCF);
+
+        expect(genotypes.find(g => g.rsid === 'rs0000001')?.genotype).toBe('ID');
+    });
+
+    it('should honour an explicit provider override', () => {
+        expect(parseRawData(FTDNA, 'myheritage').provider).toBe('myheritage');
+    });
+});
+
+// =============================================================================
+// COVERAGE LIMITATIONS
+// =============================================================================
+
+describe('Raw Data Providers - Coverage Limitations', () => {
+    it('should give every provider its own coverage caveat', () => {
+        const genotypes = createTestGenotypes([{ rsid: 'rs4244285', genotype: 'GG' }, { rsid: 'rs4986893', genotype: '--' }]);
+        const caveats = GENETIC_PROVIDERS.map(p => getProviderCoverageLimitations(p, 'CYP2C19', genotypes, ['rs4244285', 'rs4986893']).join(' '));
+
+        expect(caveats.every(c => c.includes('CYP2C19'))).toBe(true);
+        expect(new Set(caveats).size).toBe(GENETIC_PROVIDERS.length);
+        expect(caveats.find((_, i) => GENETIC_PROVIDERS[i] === 'myheritage')).toContain('Global Screening Array');
+    });
+
+    it('should list the tested and untested positions of a gene', () => {
+        const genotypes = createTestGenotypes([{ rsid: 'rs4244285', genotype: 'GG' }, { rsid: 'rs4986893', genotype: '--' }]);
+        const [tested, untested] = getProviderCoverageLimitations('23andme', 'CYP2C19', genotypes, ['rs4244285', 'rs4986893', 'rs12248560']);
+
+        expect(tested).toBe('23andMe tested CYP2C19 at rs4244285');
+        expect(untested).toContain('CYP2C19 rs4986893, rs12248560 are not on your 23andMe chip version');
+    });
+
+    it('should warn about structural variants only for whole-genome VCF', () => {
+        const genotypes = createTestGenotypes([{ rsid: 'rs3892097', genotype: 'CC' }]);
+
+        const fromVcf = analyzeCYP2D6(genotypes, 'vcf');
+        const fromArray = analyzeCYP2D6(genotypes, 'myheritage');
+
+        expect(fromVcf.limitations.some(l => l.includes('copy-number caller'))).toBe(true);
+        expect(fromArray.limitations.some(l => l.includes('copy-number caller'))).toBe(false);
+    });
+
+    it('should note AncestryDNA pharmacogenomic coverage gaps', () => {
+        const result = analyzeDPYD(createTestGenotypes([{ rsid: 'rs3918290', genotype: 'CC' }]), 'ancestrydna');
+
+        expect(result.limitations.some(l => l.includes('AncestryDNA'))).toBe(true);
+        expect(result.limitations.some(l => l.includes('false-positive'))).toBe(true);
+    });
+
+    it('should not apply array false-positive caveats to sequencing data', () => {
+        const result = analyzeDPYD(createTestGenotypes([{ rsid: 'rs3918290', genotype: 'CC' }]), 'vcf');
+
+        expect(result.limitations.some(l => l.includes('Consumer array'))).toBe(false);
+        expect(result.limitations.some(l => l.includes('have no VCF record and stay untested'))).toBe(true);
+        expect(result.limitations.some(l => l.includes('assumed reference'))).toBe(false);
+    });
+
+    it('should explain that UGT1A1*28 is not read from VCF SNV records', () => {
+        const result = analyzeUGT1A1(createTestGenotypes([{ rsid: 'rs4148323', genotype: 'GG' }]), 'vcf');
+
+        expect(result.limitations.some(l => l.includes('rs8175347') && l.includes('VCF'))).toBe(true);
+    });
+});
@@ -0,0 +1,205 @@
+/**
+ * Haplogroup Calling Tests
+ *
+ * Validates the mtDNA / Y-DNA tree walk over MT and Y chromosome rows from raw data files.
+ *
+ * Test Strategy:
+ * 1. Tree validation
+ * 2. mtDNA calls (deepest clade, contradictions, provider formats)
+ * 3. Y-DNA calls and the "no Y data" state
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ZodError } from 'zod';
+import treeData from '@/data/haplogroup-tree.json';
+import {
+    callHaplogroups,
+    loadHaplogroupTree,
+    type PositionedGenotype
+} from '@/analysis/core/haplogroup-analysis';
+
+/**
+ * MT rows from '<position><allele>' specs, 23andMe style (single allele, i-prefixed probe IDs)
+ */
+function mtRows(specs: string[], chromosome = 'MT', diploid = false): PositionedGenotype[] {
+    return specs.map(spec => {
+        const position = parseInt(spec.slice(0, -1), 10);
+        const allele = spec.slice(-1);
+        return {
+            rsid: `i${position}`,
+            chromosome,
+            position,
+            genotype: diploid ? allele + allele : allele
+        };
+    });
+}
+
+function yRows(calls: Array<[string, string]>, chromosome = 'Y'): PositionedGenotype[] {
+    return calls.map(([rsid, genotype], index) => ({
+        rsid,
+        chromosome,
+        position: 2_700_000 + index,
+        genotype
+    }));
+}
+
+const N_MARKERS = ['8701A', '9540T', '10398A', '10873T', '15301G'];
+const M_MARKERS = ['10400T', '14783C', '15043A'];
+const M_ANCESTRAL = ['10400C', '14783T', '15043G'];
+const R_MARKERS = ['12705C', '16223C'];
+
+const H1A_SAMPLE = [
+    ...N_MARKERS, ...M_ANCESTRAL, ...R_MARKERS,
+    '73A', '11719G', '14766C', '2706A', '7028C', '3010A', '16162G',
+    '4216T', '11467A', '6776T'
+];
+
+// =============================================================================
+// TREE
+// =============================================================================
+
+describe('Haplogroup Calling - Tree', () => {
+    it('should validate the bundled tree', () => {
+        const tree = loadHaplogroupTree();
+
+        expect(tree.mt.name).toBe('L');
+        expect(tree.y.name).toBe('A0-T');
+    });
+
+    it('should reject a marker without a position or rsID', () => {
+        const invalid = structuredClone(treeData) as { mt: { children: Array<{ markers: unknown[] }> } };
+        invalid.mt.children[0].markers.push({ derived: 'A' });
+
+        expect(() => loadHaplogroupTree(invalid)).toThrow(ZodError);
+    });
+});
+
+// =============================================================================
+// mtDNA
+// =============================================================================
+
+describe('Haplogroup Calling - mtDNA', () => {
+    it('should return the deepest supported clade with its path', () => {
+        const { maternal } = callHaplogroups(mtRows(H1A_SAMPLE));
+
+        expect(maternal.status).toBe('called');
+        expect(maternal.haplogroup).toBe('H1a');
+        expect(maternal.path).toEqual(['L', 'N', 'R', 'R0', 'HV', 'H', 'H1', 'H1a']);
+        expect(maternal.supportingMarkers).toEqual(expect.arrayContaining(['7028C', '3010A', '16162G']));
+        expect(maternal.contradictingMarkers).toEqual([]);
+        expect(maternal.confidence).toBe('high');
+    });
+
+    it('should stop where the next clade is not supported', () => {
+        const sample = H1A_SAMPLE.map(m => (m === '3010A' ? '3010G' : m)).filter(m => m !== '16162G');
+        const { maternal } = callHaplogroups(mtRows(sample));
+
+        expect(maternal.haplogroup).toBe('H');
+    });
+
+    it('should report markers that contradict the called path', () => {
+        // J carries a back-mutation at 10398 (A → G), one of the N-defining positions
+        const sample = [
+            ...N_MARKERS.map(m => (m === '10398A' ? '10398G' : m)),
+            ...R_MARKERS,
+            '4216C', '11251G', '15452A', '12612G', '13708A', '16069T', '462T', '3010A', '185A', '228A'
+        ];
+        const { maternal } = callHaplogroups(mtRows(sample));
+
+        expect(maternal.haplogroup).toBe('J1c');
+        expect(maternal.supportingMarkers).toContain('10398G');
+        expect(maternal.contradictingMarkers).toEqual(['10398A']);
+        expect(maternal.confidence).toBe('medium');
+    });
+
+    it('should read AncestryDNA MT rows (chromosome 26, doubled alleles)', () => {
+        const sample = [...M_MARKERS, '10873C', '4883T', '5178A', '16362C', '3010A', '8414T', '14668T'];
+        const { maternal } = callHaplogroups(mtRows(sample, '26', true));
+
+        expect(maternal.haplogroup).toBe('D4');
+        expect(maternal.path).toEqual(['L', 'M', 'D', 'D4']);
+    });
+
+    it('should stay at the root when neither M nor N is supported', () => {
+        const { maternal } = callHaplogroups(mtRows(['8701G', '9540C', '10873C', '10400C', '14783T']));
+
+        expect(maternal.status).toBe('called');
+        expect(maternal.haplogroup).toBe('L');
+        expect(maternal.confidence).toBe('low');
+    });
+
+    it('should ignore heterozygous and no-call MT rows', () => {
+        const rows = mtRows(H1A_SAMPLE).map(r =>
+            r.position === 16162 ? { ...r, genotype: 'AG' } : r.position === 3010 ? { ...r, genotype: '--' } : r
+        );
+        const { maternal } = callHaplogroups(rows);
+
+        expect(maternal.haplogroup).toBe('H');
+    });
+
+    it('should report no data without MT rows', () => {
+        const { maternal } = callHaplogroups([{ rsid: 'rs671', chromosome: '12', position: 112241766, genotype: 'GG' }]);
+
+        expect(maternal.status).toBe('no_data');
+        expect(maternal.haplogroup).toBeNull();
+    });
+});
+
+// =============================================================================
+// Y-DNA
+// =============================================================================
+
+describe('Haplogroup Calling - Y-DNA', () => {
+    it('should call R-P312 from rsID-matched Y SNPs', () => {
+        const { paternal } = callHaplogroups(yRows([
+            ['rs2032652', 'T'],  // M89
+            ['rs3900', 'G'],     // M9
+            ['rs9786184', 'A'],  // M343
+            ['rs9786153', 'C'],  // M269
+            ['rs34276300', 'A'], // P312
+            ['rs16981293', 'C'], // U106 ancestral
+            ['rs2032597', 'A']   // M170 ancestral
+        ]));
+
+        expect(paternal.status).toBe('called');
+        expect(paternal.haplogroup).toBe('R-P312');
+        expect(paternal.path).toEqual(['A0-T', 'F-M89', 'K-M9', 'R-M343', 'R-M269', 'R-P312']);
+        expect(paternal.supportingMarkers).toEqual(['M89', 'M9', 'M343', 'M269', 'P312']);
+    });
+
+    it('should read AncestryDNA Y rows (chromosome 24, doubled alleles)', () => {
+        const { paternal } = callHaplogroups(yRows([
+            ['rs9306841', 'GG'], // M96
+            ['rs9785659', 'GG'], // M2
+            ['rs2032652', 'CC']  // M89 ancestral
+        ], '24'));
+
+        expect(paternal.haplogroup).toBe('E-M2');
+    });
+
+    it.each([
+        ['23andMe', '--'],
+        ['AncestryDNA', '00']
+    ])('should report no Y data for an XX %s file', (_provider, noCall) => {
+        const rows = [
+            ...mtRows(H1A_SAMPLE),
+            ...yRows([['rs2032652', noCall], ['rs3900', noCall], ['rs9786153', noCall]])
+        ];
+        const { maternal, paternal } = callHaplogroups(rows);
+
+        expect(paternal.status).toBe('no_y_data');
+        expect(paternal.haplogroup).toBeNull();
+        expect(maternal.haplogroup).toBe('H1a');
+    });
+
+    it('should treat sparse Y calls in an XX sample as noise', () => {
+        const noCalls: Array<[string, string]> = Array.from({ length: 30 }, (_, i) => [`i70${i}`, '--']);
+        const { paternal } = callHaplogroups(yRows([['rs2032652', 'T'], ...noCalls]));
+
+        expect(paternal.status).toBe('no_y_data');
+    });
+
+    it('should report no Y data without Y rows', () => {
+        expect(callHaplogroups(mtRows(H1A_SAMPLE)).paternal.status).toBe('no_y_data');
+    });
+});
@@ -0,0 +1,179 @@
+/**
+ * Medication Review Tests
+ *
+ * Validates the personal medication review: brand and generic names resolve through the drug
+ * dictionary, every analyzer's drug guidance is indexed by generic name, and each current or
+ * planned medication gets one combined, prioritized entry with conflicts across genes.
+ *
+ * Test Strategy:
+ * 1. Drug dictionary
+ * 2. Drug index
+ * 3. Medication review
+ * 4. Comprehensive analysis integration
+ * 5. Schema validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { resolveDrugNames, mentionsMedication } from '@/analysis/core/drug-dictionary';
+import { buildDrugIndex, reviewMedications } from '@/analysis/core/medication-review';
+import { analyzeComprehensivePGx } from '@/analysis/core/comprehensive-pgx-analysis';
+import { analyzeCompleteDNA } from '@/analysis/core/integrated-dna-analysis';
+import { validateComprehensivePGxResult, validateMedicationReview } from '@/analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+const GENOTYPES = createTestGenotypes([
+    { rsid: 'rs4244285', genotype: 'GG' },
+    { rsid: 'rs1799853', genotype: 'CC' },
+    { rsid: 'rs1057910', genotype: 'AA' },
+    { rsid: 'rs9923231', genotype: 'CT' },
+    { rsid: 'rs4149056', genotype: 'CC' },
+    { rsid: 'rs6025', genotype: 'CT' }
+]);
+
+describe('Medication Review', () => {
+    // ============================================================================
+    // SECTION 1: DRUG DICTIONARY
+    // ============================================================================
+
+    describe('Drug Dictionary', () => {
+        it('should resolve brand names to generics', () => {
+            expect(resolveDrugNames('Adderall XR 20 mg')).toEqual(['amphetamine']);
+            expect(resolveDrugNames('PROZAC 20mg')).toEqual(['fluoxetine']);
+            expect(resolveDrugNames('Lipitor at night')).toEqual(['atorvastatin']);
+            expect(mentionsMedication('Plavix 75 mg', 'clopidogrel')).toBe(true);
+        });
+
+        it('should drop a name contained in a longer matched name', () => {
+            expect(resolveDrugNames('Ethinyl Estradiol 30 mcg')).toEqual(['ethinyl estradiol']);
+            expect(resolveDrugNames('estradiol patch')).toEqual(['estradiol']);
+        });
+
+        it('should expand a drug class only when no member is named', () => {
+            expect(resolveDrugNames('Tricyclic Antidepressants')).toHaveLength(7);
+            expect(resolveDrugNames('Tricyclic Antidepressants (Amitriptyline, Nortriptyline)')).toEqual(['amitriptyline', 'nortriptyline']);
+        });
+
+        it('should resolve nothing for unknown drugs', () => {
+            expect(resolveDrugNames('lisinopril 10 mg')).toEqual([]);
+            expect(resolveDrugNames('')).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // SECTION 2: DRUG INDEX
+    // ============================================================================
+
+    describe('Drug Index', () => {
+        const result = analyzeComprehensivePGx(GENOTYPES);
+        const index = buildDrugIndex(result);
+
+        it('should index every CYP drug label under a generic name', () => {
+            const labels = [result.cyp2d6, result.cyp2c19, result.cyp2c9, result.cyp3a4]
+                .flatMap(r => r?.drugs ?? [])
+                .map(d => d.drug);
+
+            expect(labels.length).toBeGreaterThan(0);
+            expect(labels.filter(label => resolveDrugNames(label).length === 0)).toEqual([]);
+        });
+
+        it('should index statin and warfarin guidance under the generic names', () => {
+            expect(index.simvastatin[0]).toMatchObject({ gene: 'SLCO1B1', action: 'Avoid' });
+            expect(index.warfarin.map(f => f.gene)).toEqual(expect.arrayContaining(['CYP2C9', 'VKORC1']));
+        });
+
+        it('should put the most severe finding first', () => {
+            const rank = ['normal', 'informational', 'caution', 'warning', 'critical'];
+
+            for (const findings of Object.values(index)) {
+                const ranks = findings.map(f => rank.indexOf(f.severity));
+                expect(ranks).toEqual([...ranks].sort((a, b) => b - a));
+            }
+        });
+    });
+
+    // ============================================================================
+    // SECTION 3: MEDICATION REVIEW
+    // ============================================================================
+
+    describe('Medication Review', () => {
+        it('should order entries by severity and list unrecognized medications', () => {
+            const result = analyzeComprehensivePGx(GENOTYPES);
+            const review = reviewMedications(result, ['lisinopril 10 mg', 'Zocor 40 mg', 'Yaz']);
+
+            expect(review.entries.map(e => e.medication)).toEqual(['Yaz', 'Zocor 40 mg']);
+            expect(review.entries[0]).toMatchObject({ severity: 'critical', action: 'Avoid' });
+            expect(review.entries[1]).toMatchObject({ action: 'Avoid', genes: ['SLCO1B1'] });
+            expect(review.unrecognized).toEqual(['lisinopril 10 mg']);
+            expect(review.summary).toContain('Not recognized (no pharmacogenomic data): lisinopril 10 mg');
+        });
+
+        it('should flag conflicting warfarin dose guidance across genes', () => {
+            const result = analyzeComprehensivePGx(createTestGenotypes([
+                { rsid: 'rs9923231', genotype: 'CC' },
+                { rsid: 'rs1799853', genotype: 'CC' },
+                { rsid: 'rs1057910', genotype: 'CC' }
+            ]));
+            const [entry] = reviewMedications(result, ['Coumadin']).entries;
+
+            expect(entry.drugs).toEqual(['warfarin']);
+            expect(entry.conflicts.length).toBeGreaterThan(0);
+            expect(entry.recommendation).toContain('Conflicting genetic guidance');
+            expect(['warning', 'critical']).toContain(entry.severity);
+        });
+
+        it('should report phenoconversion differently for current and planned medications', () => {
+            const current = analyzeComprehensivePGx(GENOTYPES, '23andme', { medications: ['Prilosec'] });
+            const planned = analyzeComprehensivePGx(GENOTYPES, '23andme', { plannedMedications: ['Prilosec'] });
+            const currentEntry = current.medicationReview!.entries[0];
+            const plannedEntry = planned.medicationReview!.entries[0];
+
+            expect(currentEntry.status).toBe('current');
+            expect(currentEntry.notes[0]).toContain('effective Intermediate Metabolizer');
+            expect(plannedEntry.status).toBe('planned');
+            expect(plannedEntry.notes[0]).toContain('would change guidance');
+            expect(planned.cyp2c19?.phenoconversion.converted).toBe(false);
+        });
+    });
+
+    // ============================================================================
+    // SECTION 4: COMPREHENSIVE ANALYSIS INTEGRATION
+    // ============================================================================
+
+    describe('Comprehensive Analysis Integration', () => {
+        it('should phenoconvert from a brand name in the medication list', () => {
+            const result = analyzeComprehensivePGx([], '23andme', { medications: ['Prozac 20 mg'], plannedMedications: ['Tylenol #3'] });
+            const codeine = result.medicationReview!.entries.find(e => e.drugs.includes('codeine'))!;
+
+            expect(result.cyp2d6?.phenoconversion.effectivePhenotype).toBe('Poor Metabolizer');
+            expect(codeine).toMatchObject({ status: 'planned', severity: 'critical' });
+        });
+
+        it('should key the pharmacist consult on the effective CYP2D6 phenotype', () => {
+            const consult = (medications: string[]) => analyzeCompleteDNA({}, '23andme', { medications })
+                .actionPlan.shortTerm.find(a => a.category === 'Medication Review');
+
+            expect(consult()).toBeUndefined();
+            expect(consult(['Prozac 20 mg'])?.rationale).toContain('Poor Metabolizer (genetic: Normal Metabolizer)');
+        });
+
+                it('should omit the review without medications', () => {
+            expect(analyzeComprehensivePGx(GENOTYPES).medicationReview).toBeUndefined();
+        });
+    });
+
+    // ============================================================================
+    // SECTION 5: SCHEMA VALIDATION
+    // ============================================================================
+
+    describe('Schema Validation', () => {
+        it('should produce reviews that pass the schemas', () => {
+            const result = analyzeComprehensivePGx(GENOTYPES, '23andme', {
+                medications: ['Prozac', 'Zocor', 'metformin'],
+                plannedMedications: ['Plavix', 'Coumadin']
+            });
+
+            expect(() => validateMedicationReview(result.medicationReview)).not.toThrow();
+            expect(() => validateComprehensivePGxResult(result)).not.toThrow();
+        });
+    });
+});
@@ -0,0 +1,228 @@
+/**
+ * Nutrigenomics Knowledge Base Tests
+ *
+ * Validates the kb-nutrigenomics-complete-125.json loader and the KB-driven variant interpreter
+ * that reports every KB variant found in the data, grouped by KB category.
+ *
+ * Test Strategy:
+ * 1. Loading and category assignment
+ * 2. Risk allele counting, strand handling and indeterminate calls
+ * 3. Grouping, coverage and evidence
+ * 4. Integration with analyzeNutrigenomics / analyzeCompleteDNA
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ZodError } from 'zod';
+import kbData from '@/data/kb-nutrigenomics-complete-125.json';
+import {
+    loadNutrigenomicsKnowledgeBase,
+    getNutrigenomicsKnowledgeBase,
+    getVariantCategory,
+    OTHER_CATEGORY
+} from '@/analysis/core/nutrigenomics-knowledge-base';
+import {
+    analyzeNutrigenomics,
+    interpretKBVariants,
+    type KBCategoryResult
+} from '@/analysis/core/nutrigenomics-analysis';
+import { analyzeCompleteDNA } from '@/analysis/core/integrated-dna-analysis';
+
+function findVariant(categories: KBCategoryResult[], rsid: string) {
+    return categories.flatMap(c => c.variants).find(v => v.rsid === rsid);
+}
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+describe('Nutrigenomics Knowledge Base - Loading', () => {
+    it('should validate the bundled knowledge base', () => {
+        const kb = getNutrigenomicsKnowledgeBase();
+
+        expect(kb.version).toBe('5.0.0-ultimate-complete-125');
+        expect(kb.variants).toHaveLength(90);
+        expect(kb.byRsid.get('rs671')?.gene).toBe('ALDH2');
+        expect(kb.categories).toHaveLength(12);
+    });
+
+    it('should coerce string positions to numbers', () => {
+        expect(getNutrigenomicsKnowledgeBase().byRsid.get('rs4784744')?.pos).toBe(16917741);
+    });
+
+    it('should reject a knowledge base with a multi-base allele', () => {
+        const invalid = structuredClone(kbData);
+        invalid.variants[0].alt = 'TT';
+
+        expect(() => loadNutrigenomicsKnowledgeBase(invalid)).toThrow(ZodError);
+    });
+
+    it('should split category labels into name and description', () => {
+        const vitamins = getNutrigenomicsKnowledgeBase().categories[0];
+
+        expect(vitamins.name).toBe('Vitamin Metabolism');
+        expect(vitamins.description).toBe('Vitamin Metabolism (D, B12, Folate/B9, A, E, K, B6)');
+    });
+
+    it('should assign subcategories only to categories the KB defines', () => {
+        const names = getNutrigenomicsKnowledgeBase().categories.map(c => c.name);
+
+        for (const variant of getNutrigenomicsKnowledgeBase().variants) {
+            const category = getVariantCategory(variant);
+            if (category !== OTHER_CATEGORY) {
+                expect(names).toContain(category);
+            }
+        }
+    });
+
+    it('should agree with the category tagged on the variant itself', () => {
+        const names = getNutrigenomicsKnowledgeBase().categories.map(c => c.name);
+
+        for (const variant of getNutrigenomicsKnowledgeBase().variants) {
+            const tagged = variant.category?.find(c => names.includes(c));
+            if (tagged) {
+                expect(getVariantCategory(variant)).toBe(tagged);
+            }
+        }
+    });
+
+    it.each([
+        ['rs1801260', 'Circadian Rhythm'],
+        ['rs2228001', 'DNA Repair'],
+        ['rs4880', 'Oxidative Stress & Antioxidants'],
+        ['rs6323', 'Behavioral & Neurotransmitters'],
+        ['rs1800795', 'Inflammation & Cytokines'],
+        ['rs174537', 'Omega Fatty Acids'],
+        ['rs17822931', OTHER_CATEGORY]
+    ])('%s should be reported under %s', (rsid, category) => {
+        const variant = getNutrigenomicsKnowledgeBase().byRsid.get(rsid)!;
+
+        expect(getVariantCategory(variant)).toBe(category);
+    });
+});
+
+// =============================================================================
+// INTERPRETATION
+// =============================================================================
+
+describe('Nutrigenomics Knowledge Base - Interpretation', () => {
+    it.each([
+        // rs671 ALDH2 G>A, risk allele A
+        ['rs671', 'AA', 2, 'homozygous_risk'],
+        ['rs671', 'GA', 1, 'heterozygous'],
+        ['rs671', 'GG', 0, 'no_risk_allele'],
+        // rs429358 APOE T>C, risk allele C (ε4)
+        ['rs429358', 'CT', 1, 'heterozygous'],
+        // rs6323 MAOA (X-linked) hemizygous call
+        ['rs6323', 'T', 1, 'homozygous_risk']
+    ])('%s %s → %s risk allele(s), %s', (rsid, genotype, count, status) => {
+        const finding = findVariant(interpretKBVariants([{ rsid, genotype }]), rsid);
+
+        expect(finding?.riskAlleleCount).toBe(count);
+        expect(finding?.status).toBe(status);
+    });
+
+    it.each([
+        ['rs17300539', 'AG', 'risk allele "Varies"'],
+        ['rs7412', 'CT', 'risk allele "None (T is protective)"'],
+        ['rs671', 'AT', 'alleles match neither strand of the KB ref/alt']
+    ])('%s %s should be indeterminate (%s)', (rsid, genotype) => {
+        const finding = findVariant(interpretKBVariants([{ rsid, genotype }]), rsid);
+
+        expect(finding?.status).toBe('indeterminate');
+        expect(finding?.riskAlleleCount).toBeNull();
+    });
+
+    it('should complement calls reported on the opposite strand', () => {
+        // rs671 ALDH2 G>A reported as its complement
+        const finding = findVariant(interpretKBVariants([{ rsid: 'rs671', genotype: 'CT' }]), 'rs671');
+
+        expect(finding?.genotype).toBe('AG');
+        expect(finding?.reportedGenotype).toBe('CT');
+        expect(finding?.strand).toBe('reverse');
+        expect(finding?.status).toBe('heterozygous');
+    });
+
+    it('should flag A/T and C/G SNPs as strand-ambiguous', () => {
+        // rs9939609 FTO T>A
+        const finding = findVariant(interpretKBVariants([{ rsid: 'rs9939609', genotype: 'AA' }]), 'rs9939609');
+
+        expect(finding?.strand).toBe('ambiguous');
+        expect(finding?.genotype).toBe('AA');
+    });
+
+    it('should skip no-calls and indels', () => {
+        const categories = interpretKBVariants([
+            { rsid: 'rs671', genotype: '--' },
+            { rsid: 'rs429358', genotype: 'DI' }
+        ]);
+
+        expect(categories.every(c => c.variants.length === 0)).toBe(true);
+    });
+
+    it('should attach KB interpretation, evidence and confidence', () => {
+        const finding = findVariant(interpretKBVariants([{ rsid: 'rs1558902', genotype: 'AA' }]), 'rs1558902');
+
+        expect(finding).toMatchObject({
+            gene: 'FTO',
+            riskAllele: 'A',
+            confidence: 'High',
+            evidenceLevel: 'High',
+            evidence: [{ pmid: '20565855', studyType: 'Intervention', n: 500, replicated: true }]
+        });
+        expect(finding?.clinicalAction).toContain('High-protein diet');
+        expect(finding?.recommendations.length).toBeGreaterThan(0);
+    });
+});
+
+// =============================================================================
+// GROUPING & COVERAGE
+// =============================================================================
+
+describe('Nutrigenomics Knowledge Base - Grouping', () => {
+    it('should keep every KB category in KB order, with Other last', () => {
+        const categories = interpretKBVariants([]);
+        const kbNames = getNutrigenomicsKnowledgeBase().categories.map(c => c.name);
+
+        expect(categories.map(c => c.category)).toEqual([...kbNames, OTHER_CATEGORY]);
+        expect(categories.reduce((sum, c) => sum + c.variantsInKB, 0)).toBe(90);
+    });
+
+    it('should report every KB variant present in the data', () => {
+        const genotypes = getNutrigenomicsKnowledgeBase().variants.map(v => ({
+            rsid: v.rsid,
+            genotype: v.ref + v.alt
+        }));
+        const categories = interpretKBVariants(genotypes);
+
+        categories.forEach(c => expect(c.variants).toHaveLength(c.variantsInKB));
+    });
+});
+
+// =============================================================================
+// INTEGRATION
+// =============================================================================
+
+describe('Nutrigenomics Knowledge Base - Integration', () => {
+    it('should expose KB categories and coverage on the nutrigenomics result', () => {
+        const result = analyzeNutrigenomics({ rs1801260: 'TC', rs2228001: 'tt', rs12345: 'AA' });
+
+        expect(result.kbCoverage).toEqual({
+            version: '5.0.0-ultimate-complete-125',
+            variantsInKB: 90,
+            variantsFound: 2
+        });
+        expect(result.kbCategories.find(c => c.category === 'Circadian Rhythm')?.variants[0].status)
+            .toBe('heterozygous');
+        expect(result.kbCategories.find(c => c.category === 'DNA Repair')?.variants[0].genotype)
+            .toBe('TT');
+    });
+
+    it('should count nutrigenomics genes from genotyped KB variants', () => {
+        const analysis = analyzeCompleteDNA({ rs671: 'GA', rs1229984: 'CT', rs4880: 'AG' });
+
+        // ALDH2, ADH1B, SOD2
+        expect(analysis.summary.totalGenesAnalyzed).toBeGreaterThanOrEqual(3);
+        expect(analyzeCompleteDNA({}).summary.totalGenesAnalyzed)
+            .toBeLessThan(analysis.summary.totalGenesAnalyzed);
+    });
+});
@@ -0,0 +1,174 @@
+/**
+ * PGx Knowledge Base Loader Tests
+ *
+ * Validates the Zod-validated kb-pgx-ultimate.json loader and the consistency checks between
+ * the knowledge base and the gene analyzers.
+ *
+ * Test Strategy:
+ * 1. Loading and schema validation
+ * 2. Allele function / activity score / reference queries
+ * 3. Activity table resolution (KB takes precedence)
+ * 4. KB / analyzer mismatch reporting
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ZodError } from 'zod';
+import kbData from '@/data/kb-pgx-ultimate.json';
+import {
+    loadPGxKnowledgeBase,
+    getPGxKnowledgeBase,
+    getKBVariant,
+    getKBGeneVariants,
+    getKBAllele,
+    getKBAlleleFunction,
+    getKBActivityScore,
+    getKBReferences,
+    resolveAlleleActivity,
+    getKBMismatches
+} from '@/analysis/core/pgx-knowledge-base';
+import { analyzeComprehensivePGx } from '@/analysis/core/comprehensive-pgx-analysis';
+import { KnowledgeBaseStatusSchema } from '@/analysis/schemas/kb-schemas';
+
+// =============================================================================
+// LOADING
+// =============================================================================
+
+describe('PGx Knowledge Base - Loading', () => {
+    it('should validate and index the bundled knowledge base', () => {
+        const kb = getPGxKnowledgeBase();
+
+        expect(kb.version).toBe('5.0.0-ultimate-professional');
+        expect(kb.referenceBuild).toBe('GRCh37');
+        expect(kb.variants).toHaveLength(121);
+        expect(kb.byRsid.size).toBe(121);
+    });
+
+    it('should cache the bundled knowledge base', () => {
+        expect(getPGxKnowledgeBase()).toBe(getPGxKnowledgeBase());
+    });
+
+    it('should reject a knowledge base with an invalid rsID', () => {
+        const invalid = structuredClone(kbData);
+        invalid.variants[0].rsid = 'not-an-rsid';
+
+        expect(() => loadPGxKnowledgeBase(invalid)).toThrow(ZodError);
+    });
+
+    it('should reject a knowledge base with an unknown allele function', () => {
+        const invalid = structuredClone(kbData) as { variants: Array<Record<string, unknown>> };
+        const index = invalid.variants.findIndex(v => v.rsid === 'rs1799853');
+        invalid.variants[index].function = 'Sort of working';
+
+        expect(() => loadPGxKnowledgeBase(invalid)).toThrow(ZodError);
+    });
+
+    it('should not index composite star allele labels', () => {
+        const kb = getPGxKnowledgeBase();
+
+        for (const geneAlleles of kb.alleles.values()) {
+            for (const allele of geneAlleles.keys()) {
+                expect(allele).not.toMatch(/[/()\s]/);
+            }
+        }
+    });
+});
+
+// =============================================================================
+// QUERIES
+// =============================================================================
+
+describe('PGx Knowledge Base - Queries', () => {
+    it('should look up variants by rsID and gene', () => {
+        expect(getKBVariant('rs4244285')?.gene).toBe('CYP2C19');
+        expect(getKBVariant('rs0')).toBeUndefined();
+        expect(getKBGeneVariants('DPYD').length).toBeGreaterThan(0);
+        expect(getKBGeneVariants('DPYD').every(v => v.gene === 'DPYD')).toBe(true);
+    });
+
+    it.each([
+        { gene: 'CYP2C9', allele: '*2', fn: 'Decreased', score: 0.5 },
+        { gene: 'CYP2C9', allele: '*3', fn: 'No function', score: 0 },
+        { gene: 'CYP2C19', allele: '*2', fn: 'No function', score: 0 },
+        { gene: 'CYP2C19', allele: '*17', fn: 'Increased', score: 1.5 },
+    ])('$gene $allele should be $fn with activity $score', ({ gene, allele, fn, score }) => {
+        expect(getKBAlleleFunction(gene, allele)).toBe(fn);
+        expect(getKBActivityScore(gene, allele)).toBe(score);
+    });
+
+    it('should read allele data from the nested risk_model', () => {
+        const hapB3 = getKBAllele('DPYD', 'HapB3');
+
+        expect(hapB3?.rsid).toBe('rs56038477');
+        expect(hapB3?.activityScore).toBe(0.5);
+    });
+
+    it('should return null for alleles the KB does not define', () => {
+        expect(getKBAllele('CYP2C9', '*99')).toBeUndefined();
+        expect(getKBAlleleFunction('CYP2C9', '*99')).toBeNull();
+        expect(getKBActivityScore('NOTAGENE', '*1')).toBeNull();
+    });
+
+    it('should return PMID references for a gene', () => {
+        const references = getKBReferences('CYP2C19');
+
+        expect(references.length).toBeGreaterThan(0);
+        references.forEach(ref => expect(ref).toMatch(/^PMID: \d+ - CYP2C19 /));
+    });
+
+    it('should restrict references to the requested alleles', () => {
+        const all = getKBReferences('CYP2C19');
+        const star2 = getKBReferences('CYP2C19', ['*2']);
+
+        expect(star2.length).toBeGreaterThan(0);
+        expect(star2.length).toBeLessThanOrEqual(all.length);
+        star2.forEach(ref => expect(ref).toContain('CYP2C19 *2 '));
+        expect(getKBReferences('CYP2C19', ['*1'])).toEqual([]);
+    });
+});
+
+// =============================================================================
+// ANALYZER CONSISTENCY
+// =============================================================================
+
+describe('PGx Knowledge Base - Analyzer Consistency', () => {
+    it('should let KB activity values override analyzer defaults and record the mismatch', () => {
+        const resolved = resolveAlleleActivity('CYP2C9', { '*1': 1, '*2': 0.25, '*3': 0 });
+
+        expect(resolved).toEqual({ '*1': 1, '*2': 0.5, '*3': 0 });
+        expect(getKBMismatches()).toContainEqual({
+            gene: 'CYP2C9',
+            allele: '*2',
+            rsid: 'rs1799853',
+            field: 'activityScore',
+            kbValue: 0.5,
+            analyzerValue: 0.25,
+            resolution: 'kb'
+        });
+    });
+
+    it('should keep analyzer values for alleles the KB does not score', () => {
+        const resolved = resolveAlleleActivity('CYP2C19', { '*1': 1, '*35': 1 });
+
+        expect(resolved).toEqual({ '*1': 1, '*35': 1 });
+    });
+
+    it('should report analyzer star allele naming that differs from the KB', () => {
+        const mismatch = getKBMismatches().find(m => m.gene === 'NUDT15' && m.field === 'starAllele');
+
+        expect(mismatch).toMatchObject({
+            rsid: 'rs116855232',
+            kbValue: '*2',
+            analyzerValue: '*3',
+            resolution: 'analyzer'
+        });
+    });
+
+    it('should surface the KB version and mismatches on the comprehensive result', () => {
+        const result = analyzeComprehensivePGx([{ rsid: 'rs1799853', genotype: 'CT' }], '23andme');
+
+        expect(result.knowledgeBase?.version).toBe('5.0.0-ultimate-professional');
+        expect(result.knowledgeBase?.referenceBuild).toBe('GRCh37');
+        expect(result.knowledgeBase?.mismatches).toEqual(getKBMismatches());
+        expect(KnowledgeBaseStatusSchema.safeParse(result.knowledgeBase).success).toBe(true);
+    });
+});
@@ -0,0 +1,222 @@
+/**
+ * Phenoconversion Tests
+ *
+ * Validates the drug-drug-gene interaction engine: CYP inhibitors and inducers found in the
+ * current medication list convert the genetic phenotype into an effective phenotype, and the
+ * CYP analyzers recompute their drug recommendations and safety alerts from it.
+ *
+ * Test Strategy:
+ * 1. Medication matching
+ * 2. Phenoconversion rules (activity score and phenotype ladder)
+ * 3. Analyzer integration
+ * 4. Comprehensive analysis integration
+ * 5. Schema validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    calculatePhenoconversion,
+    findCYPModulators
+} from '@/analysis/core/phenoconversion';
+import { analyzeCYP2D6 } from '@/analysis/analyzers/cyp2d6-analyzer';
+import { analyzeCYP2C19 } from '@/analysis/analyzers/cyp2c19-analyzer';
+import { analyzeCYP2C9 } from '@/analysis/analyzers/cyp2c9-analyzer';
+import { analyzeCYP3A4 } from '@/analysis/analyzers/cyp3a4-analyzer';
+import { analyzeComprehensivePGx } from '@/analysis/core/comprehensive-pgx-analysis';
+import { validateComprehensivePGxResult } from '@/analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+const CYP2C19_NM = createTestGenotypes([{ rsid: 'rs4244285', genotype: 'GG' }]);
+const CYP2C9_NM = createTestGenotypes([
+    { rsid: 'rs1799853', genotype: 'CC' },
+    { rsid: 'rs1057910', genotype: 'AA' }
+]);
+const CYP3A4_NM = createTestGenotypes([{ rsid: 'rs35599367', genotype: 'GG' }]);
+
+describe('Phenoconversion', () => {
+    // ============================================================================
+    // SECTION 1: MEDICATION MATCHING
+    // ============================================================================
+
+    describe('Medication Matching', () => {
+        it('should match generic and brand names case-insensitively', () => {
+            const drugs = (medication: string) => findCYPModulators([medication]).map(i => i.drug);
+
+            expect(drugs('Fluoxetine 20 mg daily')).toContain('fluoxetine');
+            expect(drugs('PROZAC')).toContain('fluoxetine');
+            expect(drugs('esomeprazole 40 mg')).not.toContain('omeprazole');
+            expect(drugs('St John’s Wort extract')).toContain("st john's wort");
+        });
+
+        it('should list modulators strongest first across enzymes', () => {
+            const interactions = findCYPModulators(['sertraline 50 mg', 'Fluoxetine']);
+
+            expect(interactions[0]).toMatchObject({ drug: 'fluoxetine', strength: 'strong', effect: 'inhibitor' });
+            expect(interactions.map(i => i.enzyme)).toEqual(expect.arrayContaining(['CYP2D6', 'CYP2C19']));
+            expect(interactions.find(i => i.drug === 'sertraline')!.strength).toBe('weak');
+        });
+
+        it('should find nothing in an unrelated medication list', () => {
+            expect(findCYPModulators(['lisinopril 10 mg', 'metformin'])).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // SECTION 2: PHENOCONVERSION RULES
+    // ============================================================================
+
+    describe('Phenoconversion Rules', () => {
+        const toPhenotype = (score: number) => score === 0 ? 'Poor Metabolizer' : score < 1.25 ? 'Intermediate Metabolizer' : 'Normal Metabolizer';
+
+        it('should zero the activity score for a strong inhibitor', () => {
+            const p = calculatePhenoconversion('CYP2D6', 'Normal Metabolizer', ['paroxetine'], { score: 2, toPhenotype });
+
+            expect(p).toMatchObject({ effectivePhenotype: 'Poor Metabolizer', effectiveActivityScore: 0, converted: true });
+        });
+
+        it('should halve the activity score for a moderate inhibitor', () => {
+            const p = calculatePhenoconversion('CYP2D6', 'Normal Metabolizer', ['duloxetine 60 mg'], { score: 2, toPhenotype });
+
+            expect(p).toMatchObject({ effectivePhenotype: 'Intermediate Metabolizer', effectiveActivityScore: 1, converted: true });
+        });
+
+        it('should list weak inhibitors without converting', () => {
+            const p = calculatePhenoconversion('CYP2D6', 'Normal Metabolizer', ['sertraline'], { score: 2, toPhenotype });
+
+            expect(p.converted).toBe(false);
+            expect(p.interactions).toHaveLength(1);
+        });
+
+        it('should step along the phenotype ladder without an activity score', () => {
+            expect(calculatePhenoconversion('CYP2C19', 'Normal Metabolizer', ['omeprazole']).effectivePhenotype).toBe('Intermediate Metabolizer');
+            expect(calculatePhenoconversion('CYP2C19', 'Rapid Metabolizer', ['fluvoxamine']).effectivePhenotype).toBe('Poor Metabolizer');
+            expect(calculatePhenoconversion('CYP2C19', 'Normal Metabolizer', ['rifampin']).effectivePhenotype).toBe('Rapid Metabolizer');
+            expect(calculatePhenoconversion('CYP3A4', 'Normal Metabolizer', ['carbamazepine']).effectivePhenotype).toBe('Normal Metabolizer');
+        });
+
+        it('should let an inhibitor outweigh an inducer', () => {
+            const p = calculatePhenoconversion('CYP2C19', 'Normal Metabolizer', ['rifampin', 'omeprazole']);
+
+            expect(p.effectivePhenotype).toBe('Intermediate Metabolizer');
+        });
+
+        it('should apply only strong inhibitors to an unknown genotype', () => {
+            expect(calculatePhenoconversion('CYP2C19', 'Unknown', ['fluconazole']).effectivePhenotype).toBe('Poor Metabolizer');
+            expect(calculatePhenoconversion('CYP2C19', 'Unknown', ['omeprazole']).converted).toBe(false);
+        });
+    });
+
+    // ============================================================================
+    // SECTION 3: ANALYZER INTEGRATION
+    // ============================================================================
+
+    describe('Analyzer Integration', () => {
+        it('should avoid codeine in a genetic CYP2D6 normal metabolizer taking fluoxetine', () => {
+            const result = analyzeCYP2D6([], '23andme', undefined, undefined, ['Fluoxetine 20 mg']);
+
+            expect(result.diplotype.phenotype).toBe('Normal Metabolizer');
+            expect(result.phenoconversion).toMatchObject({ effectivePhenotype: 'Poor Metabolizer', converted: true });
+            expect(result.drugs.find(d => d.drug === 'Codeine')!.riskLevel).toBe('critical');
+            expect(result.safetyAlerts[0]).toContain('PHENOCONVERSION CYP2D6');
+            expect(result.clinicalSummary).toContain('MEDICATION INTERACTIONS (CYP2D6)');
+        });
+
+        it('should leave CYP2D6 guidance genetic without interacting medications', () => {
+            const result = analyzeCYP2D6([], '23andme', undefined, undefined, ['lisinopril']);
+
+            expect(result.phenoconversion.converted).toBe(false);
+            expect(result.drugs.find(d => d.drug === 'Codeine')).toBeUndefined();
+            expect(result.clinicalSummary).not.toContain('MEDICATION INTERACTIONS');
+        });
+
+        it('should recompute clopidogrel guidance from the effective CYP2C19 phenotype', () => {
+            const genetic = analyzeCYP2C19(CYP2C19_NM);
+            const converted = analyzeCYP2C19(CYP2C19_NM, '23andme', ['fluvoxamine 100 mg']);
+            const clopidogrel = (r: typeof genetic) => r.drugs.find(d => d.drug.startsWith('Clopidogrel'))!;
+
+            expect(converted.diplotype.phenotype).toBe('Normal Metabolizer');
+            expect(converted.phenoconversion.effectivePhenotype).toBe('Poor Metabolizer');
+            expect(clopidogrel(converted).recommendation).not.toBe(clopidogrel(genetic).recommendation);
+            expect(converted.safetyAlerts[0]).toContain('PHENOCONVERSION CYP2C19');
+        });
+
+        it('should halve the CYP2C9 activity score with fluconazole', () => {
+            const result = analyzeCYP2C9(CYP2C9_NM, '23andme', {}, ['fluconazole 150 mg']);
+
+            expect(result.phenoconversion).toMatchObject({
+                geneticActivityScore: 2,
+                effectiveActivityScore: 1,
+                effectivePhenotype: 'Intermediate Metabolizer'
+            });
+        });
+
+        it('should convert CYP3A4 with a strong inhibitor and keep weak ones advisory', () => {
+            const strong = analyzeCYP3A4(CYP3A4_NM, '23andme', undefined, ['clarithromycin']);
+            const weak = analyzeCYP3A4(CYP3A4_NM, '23andme', undefined, ['cimetidine']);
+
+            expect(strong.phenoconversion.effectivePhenotype).toBe('Poor Metabolizer');
+            expect(strong.safetyAlerts.some(a => a.includes('PHENOCONVERSION CYP3A4'))).toBe(true);
+            expect(weak.phenoconversion.converted).toBe(false);
+            expect(weak.safetyAlerts.some(a => a.includes('CYP3A4: cimetidine'))).toBe(false);
+        });
+    });
+
+    // ============================================================================
+    // SECTION 4: COMPREHENSIVE ANALYSIS INTEGRATION
+    // ============================================================================
+
+    describe('Comprehensive Analysis Integration', () => {
+        const genotypes = createTestGenotypes([
+            { rsid: 'rs4244285', genotype: 'GG' },
+            { rsid: 'rs1799853', genotype: 'CC' },
+            { rsid: 'rs1057910', genotype: 'AA' },
+            { rsid: 'rs9923231', genotype: 'CT' },
+            { rsid: 'rs4149056', genotype: 'TC' }
+        ]);
+
+        it('should collect the enzymes with interacting medications', () => {
+            const result = analyzeComprehensivePGx(genotypes, '23andme', { medications: ['Omeprazole 20 mg', 'Amiodarone'] });
+            const enzymes = result.phenoconversion?.map(p => p.enzyme);
+
+            expect(enzymes).toEqual(expect.arrayContaining(['CYP2C19', 'CYP2C9']));
+            expect(result.summary.criticalWarnings.some(w => w.includes('PHENOCONVERSION CYP2C19'))).toBe(true);
+        });
+
+        it('should take amiodarone for the IWPC model from the medication list', () => {
+            const withList = analyzeComprehensivePGx(genotypes, '23andme', { medications: ['amiodarone 200 mg'] });
+            const without = analyzeComprehensivePGx(genotypes);
+
+            expect(withList.vkorc1!.warfarinDosing.model.assumedInputs).not.toContain('amiodarone');
+            expect(without.vkorc1!.warfarinDosing.model.assumedInputs).toContain('amiodarone');
+            expect(withList.vkorc1!.warfarinDosing.weeklyDose).toBeLessThan(without.vkorc1!.warfarinDosing.weeklyDose);
+        });
+
+        it('should pass the effective CYP2C9 phenotype to the statin guidance', () => {
+            const result = analyzeComprehensivePGx(genotypes, '23andme', { medications: ['fluconazole'] });
+
+            expect(result.cyp2c9?.diplotype.phenotype).toBe('Normal Metabolizer');
+            expect(result.slco1b1?.cyp2c9Phenotype).toBe('Intermediate Metabolizer');
+            expect(result.slco1b1?.drugs.find(d => d.statin === 'Fluvastatin')!.action).toBe('Avoid');
+        });
+    });
+
+    // ============================================================================
+    // SECTION 5: SCHEMA VALIDATION
+    // ============================================================================
+
+    describe('Schema Validation', () => {
+        it('should produce results that pass the comprehensive schema', () => {
+            const genotypes = createTestGenotypes([
+                { rsid: 'rs4244285', genotype: 'GA' },
+                { rsid: 'rs1057910', genotype: 'AC' },
+                { rsid: 'rs35599367', genotype: 'GG' }
+            ]);
+            const result = analyzeComprehensivePGx(genotypes, '23andme', {
+                medications: ['paroxetine', 'fluconazole', 'rifampin', 'ritonavir']
+            });
+
+            expect(result.phenoconversion?.length).toBeGreaterThan(0);
+            expect(() => validateComprehensivePGxResult(result)).not.toThrow();
+        });
+    });
+});
@@ -0,0 +1,237 @@
+/**
+ * Star Allele Engine Tests
+ *
+ * Validates table-driven diplotype calling: reading calls into a GenotypeSet, enumerating
+ * every compatible diplotype, priors from haplotype frequencies, and reporting alleles that
+ * missing positions leave unresolved.
+ *
+ * Test Strategy:
+ * 1. GenotypeSet construction (strand normalization, indel loci, untested positions)
+ * 2. Diplotype enumeration (unique calls, phase ambiguity, inconsistent data)
+ * 3. Missing positions and unresolved alleles
+ * 4. Phased calls (haplotype order, phase sets, opposite strand)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildGenotypeSet,
+    callDiplotypes,
+    getTablePositions,
+    lowestActivityCandidate,
+    readHaplotypePhase,
+    type AlleleDefinitionTable
+} from '@/analysis/core/star-allele-engine';
+
+// TPMT: *3A carries both *3B and *3C positions
+const TPMT: AlleleDefinitionTable = {
+    gene: 'TPMT',
+    alleles: [
+        { allele: '*1', variants: {} },
+        { allele: '*2', variants: { rs1800462: 'G' } },
+        { allele: '*3A', variants: { rs1800460: 'T', rs1142345: 'C' } },
+        { allele: '*3B', variants: { rs1800460: 'T' } },
+        { allele: '*3C', variants: { rs1142345: 'C' } }
+    ]
+};
+
+const CYP2C19: AlleleDefinitionTable = {
+    gene: 'CYP2C19',
+    alleles: [
+        { allele: '*1', variants: {}, activityScore: 1.0 },
+        { allele: '*2', variants: { rs4244285: 'A' }, activityScore: 0 },
+        { allele: '*17', variants: { rs12248560: 'T' }, activityScore: 1.5 }
+    ]
+};
+
+function genotypeSet(table: AlleleDefinitionTable, calls: Record<string, string>) {
+    return buildGenotypeSet(Object.entries(calls).map(([rsid, genotype]) => ({ rsid, genotype })), table);
+}
+
+// =============================================================================
+// GENOTYPE SET
+// =============================================================================
+
+describe('Star Allele Engine - Genotype Set', () => {
+    it('should list every table position once, in definition order', () => {
+        expect(getTablePositions(TPMT)).toEqual(['rs1800462', 'rs1800460', 'rs1142345']);
+    });
+
+    it('should strand-normalize SNV calls and leave untested positions out', () => {
+        const set = genotypeSet(TPMT, { rs1142345: 'AG', rs1800460: '--' }); // *3C het on the reverse strand
+
+        expect([...set]).toEqual([['rs1142345', 'CT']]);
+    });
+
+    it('should read indel loci as sorted I/D calls', () => {
+        const table: AlleleDefinitionTable = {
+            gene: 'CYP2D6',
+            alleles: [{ allele: '*1', variants: {} }, { allele: '*6', variants: { rs5030655: 'D' } }]
+        };
+
+        expect(genotypeSet(table, { rs5030655: 'ID' }).get('rs5030655')).toBe('DI');
+        expect(genotypeSet(table, { rs5030655: 'AG' }).has('rs5030655')).toBe(false);
+    });
+});
+
+// =============================================================================
+// DIPLOTYPE ENUMERATION
+// =============================================================================
+
+describe('Star Allele Engine - Diplotypes', () => {
+    it('should call the reference diplotype when no variant is observed', () => {
+        const call = callDiplotypes(TPMT, genotypeSet(TPMT, { rs1800462: 'CC', rs1800460: 'CC', rs1142345: 'TT' }));
+
+        expect(call.candidates.map(c => c.diplotype)).toEqual(['*1/*1']);
+        expect(call.consistent).toBe(true);
+        expect(call.matchedDefinitions).toEqual([]);
+        expect(call.observedVariants).toEqual([]);
+    });
+
+    it('should list every diplotype compatible with a double heterozygote', () => {
+        const call = callDiplotypes(TPMT, genotypeSet(TPMT, { rs1800462: 'CC', rs1800460: 'CT', rs1142345: 'CT' }));
+
+        expect(call.candidates.map(c => c.diplotype)).toEqual(['*1/*3A', '*3B/*3C']);
+        expect(call.candidates.map(c => c.posterior)).toEqual([0.5, 0.5]);
+        expect(call.phaseAmbiguous).toBe(true);
+        expect(call.matchedDefinitions).toEqual(['*3A', '*3B', '*3C']);
+        expect(call.observedVariants).toEqual(['rs1800460', 'rs1142345']);
+    });
+
+    it('should weight candidates by Hardy-Weinberg priors when frequencies are given', () => {
+        const frequencies: Record<string, number> = { '*1': 0.9, '*2': 0.01, '*3A': 0.04, '*3B': 0.002, '*3C': 0.005 };
+        const call = callDiplotypes(
+            TPMT,
+            genotypeSet(TPMT, { rs1800462: 'CC', rs1800460: 'CT', rs1142345: 'CT' }),
+            { frequency: a => frequencies[a.allele] }
+        );
+
+        // 2·0.9·0.04 = 0.072 against 2·0.002·0.005 = 0.00002
+        expect(call.candidates[0].diplotype).toBe('*1/*3A');
+        expect(call.candidates[0].posterior).toBeGreaterThan(0.999);
+    });
+
+    it('should merge forms of the same allele into one candidate', () => {
+        const table: AlleleDefinitionTable = {
+            gene: 'CYP2D6',
+            alleles: [
+                { allele: '*1', variants: {} },
+                { allele: '*4', core: ['rs3892097'], variants: { rs3892097: 'T', rs1065852: 'A' }, share: 0.9 },
+                { allele: '*4', core: ['rs3892097'], variants: { rs3892097: 'T' }, share: 0.1 },
+                { allele: '*10', variants: { rs1065852: 'A' } }
+            ]
+        };
+        const call = callDiplotypes(table, genotypeSet(table, { rs3892097: 'CT', rs1065852: 'AG' }), {
+            frequency: a => ({ '*1': 0.35, '*4': 0.18, '*10': 0.02 } as Record<string, number>)[a.allele]
+        });
+
+        expect(call.candidates.map(c => c.diplotype)).toEqual(['*1/*4', '*4/*10']);
+        expect(call.candidates.reduce((sum, c) => sum + c.posterior, 0)).toBeCloseTo(1);
+    });
+
+    it('should keep the closest pairs when there are more variant alleles than chromosomes', () => {
+        const call = callDiplotypes(CYP2C19, genotypeSet(CYP2C19, { rs4244285: 'AA', rs12248560: 'CT' }));
+
+        expect(call.consistent).toBe(false);
+        expect(call.candidates.map(c => c.diplotype)).toEqual(['*2/*2', '*2/*17']);
+        expect(lowestActivityCandidate(call)).toMatchObject({ diplotype: '*2/*2', activityScore: 0 });
+    });
+
+    it('should sum allele activity scores for each candidate', () => {
+        const call = callDiplotypes(CYP2C19, genotypeSet(CYP2C19, { rs4244285: 'GA', rs12248560: 'CT' }));
+
+        expect(call.candidates).toEqual([
+            { alleles: ['*2', '*17'], diplotype: '*2/*17', posterior: 1, activityScore: 1.5 }
+        ]);
+    });
+
+    it('should reject a table without a reference allele', () => {
+        const table: AlleleDefinitionTable = { gene: 'X', alleles: [{ allele: '*2', variants: { rs1: 'A' } }] };
+
+        expect(() => callDiplotypes(table, new Map())).toThrow('no reference allele');
+    });
+});
+
+// =============================================================================
+// MISSING POSITIONS
+// =============================================================================
+
+describe('Star Allele Engine - Missing Positions', () => {
+    it('should flag alleles that an untested position leaves open', () => {
+        const call = callDiplotypes(TPMT, genotypeSet(TPMT, { rs1800462: 'CC', rs1142345: 'CT' }));
+
+        expect(call.candidates.map(c => c.diplotype)).toEqual(['*1/*3C']);
+        expect(call.missingPositions).toEqual(['rs1800460']);
+        expect(call.unresolvedAlleles).toEqual(['*3A', '*3B']);
+    });
+
+    it('should rule out untested alleles whose tested positions are reference', () => {
+        const call = callDiplotypes(TPMT, genotypeSet(TPMT, { rs1800462: 'CC', rs1142345: 'TT' }));
+
+        expect(call.candidates.map(c => c.diplotype)).toEqual(['*1/*1']);
+        expect(call.unresolvedAlleles).toEqual(['*3B']);
+    });
+
+    it('should report every allele as unresolved when nothing was tested', () => {
+        const call = callDiplotypes(CYP2C19, new Map());
+
+        expect(call.testedPositions).toEqual([]);
+        expect(call.candidates.map(c => c.diplotype)).toEqual(['*1/*1']);
+        expect(call.unresolvedAlleles).toEqual(['*2', '*17']);
+    });
+});
+
+// =============================================================================
+// PHASED CALLS
+// =============================================================================
+
+describe('Star Allele Engine - Phased Calls', () => {
+    function phasedCall(rows: Array<{ rsid: string; genotype: string; phased?: boolean; phaseSet?: string }>) {
+        const set = buildGenotypeSet(rows, TPMT);
+        return callDiplotypes(TPMT, set, { phase: readHaplotypePhase(rows, set) });
+    }
+
+    it('should resolve a cis double heterozygote to *1/*3A', () => {
+        const call = phasedCall([
+            { rsid: 'rs1800460', genotype: 'CT', phased: true, phaseSet: '100' },
+            { rsid: 'rs1142345', genotype: 'TC', phased: true, phaseSet: '100' }
+        ]);
+
+        expect(call.candidates.map(c => c.diplotype)).toEqual(['*1/*3A']);
+        expect(call.phaseAmbiguous).toBe(false);
+    });
+
+    it('should resolve a trans double heterozygote to *3B/*3C', () => {
+        const call = phasedCall([
+            { rsid: 'rs1800460', genotype: 'CT', phased: true, phaseSet: '100' },
+            { rsid: 'rs1142345', genotype: 'CT', phased: true, phaseSet: '100' }
+        ]);
+
+        expect(call.candidates.map(c => c.diplotype)).toEqual(['*3B/*3C']);
+        expect(call.consistent).toBe(true);
+    });
+
+    it('should stay ambiguous across different phase sets or unphased rows', () => {
+        const splitSets = phasedCall([
+            { rsid: 'rs1800460', genotype: 'CT', phased: true, phaseSet: '100' },
+            { rsid: 'rs1142345', genotype: 'TC', phased: true, phaseSet: '200' }
+        ]);
+        const unphased = phasedCall([
+            { rsid: 'rs1800460', genotype: 'CT' },
+            { rsid: 'rs1142345', genotype: 'TC' }
+        ]);
+
+        expect(splitSets.phaseAmbiguous).toBe(true);
+        expect(unphased.phaseAmbiguous).toBe(true);
+    });
+
+    it('should read haplotype order from reverse-strand rows', () => {
+        const rows = [
+            { rsid: 'rs1800460', genotype: 'GA', phased: true },
+            { rsid: 'rs1142345', genotype: 'GA', phased: true }
+        ];
+        const phase = readHaplotypePhase(rows, buildGenotypeSet(rows, TPMT));
+
+        expect(phase.get('rs1800460')?.haplotypes).toEqual(['C', 'T']);
+        expect(phase.get('rs1142345')?.haplotypes).toEqual(['C', 'T']);
+    });
+});
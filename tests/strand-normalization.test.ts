@@ -0,0 +1,119 @@
+/**
+ * Strand Normalization Tests
+ *
+ * Validates that raw calls are checked against the knowledge base ref/alt alleles, complemented
+ * when reported on the opposite strand, and flagged when the strand cannot be resolved.
+ *
+ * Test Strategy:
+ * 1. Single-call strand resolution (forward, reverse, ambiguous, invalid, no-call)
+ * 2. Record-level normalization with provenance
+ * 3. Knowledge base loci that are indels or absent pass through unchecked
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    complementGenotype,
+    isPalindromicSNP,
+    normalizeGenotypeStrand,
+    type StrandStatus
+} from '@/analysis/utils/genotype-utils';
+import {
+    extractStrandNormalized,
+    getReferenceAlleles,
+    normalizeGenotypeRecord,
+    normalizeToKBStrand
+} from '@/analysis/core/strand-normalization';
+
+// =============================================================================
+// SINGLE CALLS
+// =============================================================================
+
+describe('Strand Normalization - Single Calls', () => {
+    it('should complement each allele', () => {
+        expect(complementGenotype('AG')).toBe('TC');
+        expect(complementGenotype('T')).toBe('A');
+    });
+
+    it.each<[string, string | null, StrandStatus]>([
+        ['CT', 'CT', 'forward'],
+        ['TC', 'CT', 'forward'],
+        ['AG', 'CT', 'reverse'],
+        ['GG', 'CC', 'reverse'],
+        ['AC', null, 'invalid'],
+        ['--', null, 'no_call'],
+        ['T', 'T', 'forward']
+    ])('should read %s on a C/T site as %s (%s)', (genotype, normalized, status) => {
+        const result = normalizeGenotypeStrand(genotype, { ref: 'C', alt: 'T' });
+
+        expect(result.normalized).toBe(normalized);
+        expect(result.status).toBe(status);
+        expect(result.rawInput).toBe(genotype);
+    });
+
+    it('should flag A/T and C/G SNPs as ambiguous and keep the call as reported', () => {
+        expect(isPalindromicSNP({ ref: 'T', alt: 'A' })).toBe(true);
+        expect(isPalindromicSNP({ ref: 'C', alt: 'T' })).toBe(false);
+
+        const result = normalizeGenotypeStrand('TA', { ref: 'T', alt: 'A' });
+
+        expect(result.normalized).toBe('AT');
+        expect(result.status).toBe('ambiguous');
+    });
+
+    it('should use the PGx KB ahead of the nutrigenomics KB', () => {
+        expect(getReferenceAlleles('rs3892097')).toEqual({ ref: 'C', alt: 'T', source: 'pgx-kb' });
+        expect(getReferenceAlleles('rs4880')?.source).toBe('nutrigenomics-kb');
+        expect(getReferenceAlleles('rs0000000')).toBeNull();
+    });
+
+    it('should complement a coding-strand CYP2D6*4 call', () => {
+        const result = normalizeToKBStrand('rs3892097', 'GA');
+
+        expect(result?.genotype).toBe('CT');
+        expect(result?.status).toBe('reverse');
+        expect(result?.note).toContain('complemented');
+    });
+
+    it('should drop invalid calls so analyzers treat them as untested', () => {
+        expect(extractStrandNormalized([{ rsid: 'rs3892097', genotype: 'AC' }], 'rs3892097')).toBeNull();
+    });
+});
+
+// =============================================================================
+// RECORDS
+// =============================================================================
+
+describe('Strand Normalization - Records', () => {
+    it('should normalize a record and record provenance for non-forward calls', () => {
+        const { genotypes, summary } = normalizeGenotypeRecord({
+            rs3892097: 'CC',     // forward
+            rs9923231: 'GA',     // VKORC1 -1639 notation (minus strand)
+            rs67376798: 'AT',    // DPYD A/T SNP
+            rs4244285: 'AC',     // matches neither strand of G/A
+            rs1065852: '--'      // no-call
+        });
+
+        expect(genotypes).toEqual({
+            rs3892097: 'CC',
+            rs9923231: 'CT',
+            rs67376798: 'AT',
+            rs1065852: '--'
+        });
+        expect(summary).toMatchObject({ checked: 4, forward: 1, reverse: 1, ambiguous: 1, invalid: 1 });
+        expect(summary.provenance.map(p => [p.rsid, p.status])).toEqual([
+            ['rs9923231', 'reverse'],
+            ['rs67376798', 'ambiguous'],
+            ['rs4244285', 'invalid']
+        ]);
+    });
+
+    it('should pass through indel loci and rsIDs outside the knowledge bases', () => {
+        const { genotypes, summary } = normalizeGenotypeRecord({
+            rs5030655: 'DI',
+            rs99999999: 'GG'
+        });
+
+        expect(genotypes).toEqual({ rs5030655: 'DI', rs99999999: 'GG' });
+        expect(summary.checked).toBe(0);
+    });
+});
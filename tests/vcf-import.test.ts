@@ -0,0 +1,274 @@
+/**
+ * VCF Import Tests
+ *
+ * Validates lab VCF/gVCF ingestion: sample selection, multi-allelic and indel records, phased
+ * genotypes, quality thresholds, gVCF reference blocks and rsID lookup by position.
+ *
+ * Test Strategy:
+ * 1. Record parsing (samples, multi-allelic ALT, indels, phasing, copy-number records)
+ * 2. Quality thresholds
+ * 3. Knowledge base resolution (rsID by position, hom-ref from reference blocks, GRCh38)
+ *    and reference block lookup
+ * 4. Phased calls in star-allele calling
+ * 5. Import limitations in the analysis result
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectReferenceBuild, findReferenceBlock, indexReferenceBlocks, parseVCF } from '@/analysis/utils/vcf-parser';
+import { getKBRsidAt, importVCF } from '@/analysis/core/vcf-import';
+import { analyzeCompleteDNA } from '@/analysis/core/integrated-dna-analysis';
+
+const HEADER = [
+    '##fileformat=VCFv4.2',
+    '##reference=file:///ref/human_g1k_v37.fasta',
+    '##contig=<ID=10,length=135534747>'
+];
+
+function vcf(samples: string[], records: string[], header = HEADER): string {
+    return [
+        ...header,
+        ['#CHROM', 'POS', 'ID', 'REF', 'ALT', 'QUAL', 'FILTER', 'INFO', 'FORMAT', ...samples].join('\t'),
+        ...records
+    ].join('\n');
+}
+
+function record(fields: Array<string | number>): string {
+    return fields.join('\t');
+}
+
+const TRIO = vcf(['proband', 'mother', 'father'], [
+    record(['10', 96541616, 'rs4244285', 'G', 'A', 99, 'PASS', '.', 'GT:GQ:DP', '0/1:99:35', '0/0:99:30', '1/1:99:28']),
+    record(['10', 96521657, 'rs12248560', 'C', 'T', 99, 'PASS', '.', 'GT:GQ:DP', '0|1:99:40', '0/0:99:30', '0/0:99:31'])
+]);
+
+// =============================================================================
+// RECORD PARSING
+// =============================================================================
+
+describe('VCF Import - Records', () => {
+    it('should read the first sample by default and any sample on request', () => {
+        const first = parseVCF(TRIO);
+        const father = parseVCF(TRIO, { sample: 'father' });
+        const mother = parseVCF(TRIO, { sample: 1 });
+
+        expect(first.samples).toEqual(['proband', 'mother', 'father']);
+        expect(first.sample).toBe('proband');
+        expect(first.genotypes[0].genotype).toBe('GA');
+        expect(father.genotypes[0].genotype).toBe('AA');
+        expect(mother.sample).toBe('mother');
+        expect(mother.genotypes[0].genotype).toBe('GG');
+    });
+
+    it('should reject a sample that is not in the file', () => {
+        expect(() => parseVCF(TRIO, { sample: 'sibling' })).toThrow('Sample "sibling" not found');
+    });
+
+    it('should resolve multi-allelic GT indices against every ALT allele', () => {
+        const result = parseVCF(vcf(['S1'], [
+            record(['10', 100, 'rs1', 'C', 'G,T', 60, 'PASS', '.', 'GT', '1/2']),
+            record(['10', 200, 'rs2', 'C', 'G,T', 60, 'PASS', '.', 'GT', '0/2'])
+        ]));
+
+        expect(result.genotypes.map(g => g.genotype)).toEqual(['GT', 'CT']);
+        expect(result.stats.multiAllelic).toBe(2);
+    });
+
+    it('should code insertions and deletions as I/D', () => {
+        const result = parseVCF(vcf(['S1'], [
+            record(['22', 42524175, 'rs5030655', 'CA', 'C', 60, 'PASS', '.', 'GT', '0/1']),
+            record(['1', 300, 'rs3', 'A', 'AT', 60, 'PASS', '.', 'GT', '1/1']),
+            record(['1', 400, 'rs4', 'AC', 'GT', 60, 'PASS', '.', 'GT', '0/1'])
+        ]));
+
+        expect(result.genotypes.map(g => [g.rsid, g.genotype])).toEqual([
+            ['rs5030655', 'ID'],
+            ['rs3', 'II']
+        ]);
+        expect(result.stats).toMatchObject({ indels: 2, skipped: 1 });
+    });
+
+    it('should keep phased alleles in haplotype order with their phase set', () => {
+        const result = parseVCF(vcf(['S1'], [
+            record(['22', 42523943, 'rs1065852', 'G', 'A', 60, 'PASS', '.', 'GT:PS', '1|0:42523000']),
+            record(['22', 42524947, 'rs3892097', 'C', 'T', 60, 'PASS', '.', 'GT', '0/1'])
+        ]));
+
+        expect(result.genotypes[0]).toMatchObject({ genotype: 'AG', phased: true, phaseSet: '42523000' });
+        expect(result.genotypes[1].phased).toBeUndefined();
+        expect(result.stats.phased).toBe(1);
+    });
+
+    it('should collect copy-number records from <CNV> and <DEL> ALTs', () => {
+        const result = parseVCF(vcf(['S1'], [
+            record(['22', 42522000, 'CNV1', 'N', '<CNV>', 60, 'PASS', 'END=42527000;SVTYPE=CNV', 'CN', '3']),
+            record(['22', 42600000, '.', 'N', '<DEL>', 60, 'PASS', 'END=42610000;SVTYPE=DEL', 'GT', '0/1']),
+            record(['22', 42700000, '.', 'N', '<DUP>', 60, 'PASS', 'END=42710000;SVTYPE=DUP', 'GT', '0/1'])
+        ]));
+
+        expect(result.copyNumberRecords).toEqual([
+            { id: 'CNV1', chromosome: '22', start: 42522000, end: 42527000, copyNumber: 3 },
+            { id: null, chromosome: '22', start: 42600000, end: 42610000, copyNumber: 1 }
+        ]);
+        expect(result.genotypes).toEqual([]);
+    });
+
+    it.each([
+        ['##reference=GRCh38.p14', 'GRCh38'],
+        ['##contig=<ID=chr1,length=248956422>', 'GRCh38'],
+        ['##reference=hg19.fa', 'GRCh37'],
+        ['##source=unknown', 'unknown']
+    ])('should read %s as %s', (line, build) => {
+        expect(detectReferenceBuild(`##fileformat=VCFv4.2\n${line}\n#CHROM\tPOS`)).toBe(build);
+    });
+});
+
+// =============================================================================
+// QUALITY THRESHOLDS
+// =============================================================================
+
+describe('VCF Import - Quality Thresholds', () => {
+    const LOW_QUALITY = vcf(['S1'], [
+        record(['10', 1, 'rs10', 'C', 'T', 60, 'LowQual', '.', 'GT:GQ:DP', '0/1:99:30']),
+        record(['10', 2, 'rs11', 'C', 'T', 60, 'PASS', '.', 'GT:GQ:DP', '0/1:12:30']),
+        record(['10', 3, 'rs12', 'C', 'T', 60, 'PASS', '.', 'GT:GQ:DP', '0/1:99:4']),
+        record(['10', 4, 'rs13', 'C', 'T', 60, 'PASS', '.', 'GT:GQ:DP', '0/1:99:30']),
+        record(['10', 5, 'rs14', 'C', 'T', 60, 'PASS', '.', 'GT', './.'])
+    ]);
+
+    it('should turn calls failing FILTER, GQ or DP into no-calls', () => {
+        const result = parseVCF(LOW_QUALITY);
+
+        expect(result.genotypes.map(g => g.genotype)).toEqual(['--', '--', '--', 'CT', '--']);
+        expect(result.stats).toMatchObject({ filtered: 3, noCalls: 1 });
+    });
+
+    it('should honour custom thresholds', () => {
+        const result = parseVCF(LOW_QUALITY, { thresholds: { requirePass: false, minGQ: 10, minDP: 0 } });
+
+        expect(result.genotypes.map(g => g.genotype)).toEqual(['CT', 'CT', 'CT', 'CT', '--']);
+    });
+});
+
+// =============================================================================
+// KNOWLEDGE BASE RESOLUTION
+// =============================================================================
+
+describe('VCF Import - Knowledge Base Resolution', () => {
+    it('should name records without an ID by GRCh37 position', () => {
+        expect(getKBRsidAt('22', 42524947)).toBe('rs3892097');
+
+        const result = importVCF(vcf(['S1'], [
+            record(['chr22', 42524947, '.', 'C', 'T', 60, 'PASS', '.', 'GT', '0/1']),
+            record(['chr22', 1000, '.', 'C', 'T', 60, 'PASS', '.', 'GT', '0/1'])
+        ]));
+
+        expect(result.genotypes.map(g => g.rsid)).toEqual(['rs3892097', '22:1000']);
+        expect(result.stats.rsidsAssigned).toBe(1);
+    });
+
+    it('should call KB loci inside gVCF reference blocks hom-ref and leave uncovered loci absent', () => {
+        const result = importVCF(vcf(['S1'], [
+            record(['10', 96541000, '.', 'A', '<NON_REF>', '.', '.', 'END=96541700', 'GT:GQ:MIN_DP', '0/0:60:25']),
+            record(['10', 96702000, '.', 'A', '<NON_REF>', '.', '.', 'END=96702100', 'GT:GQ:MIN_DP', '0/0:60:3']),
+            record(['10', 96521657, 'rs12248560', 'C', 'T,<NON_REF>', 99, 'PASS', '.', 'GT:GQ:DP', '0/1:99:33'])
+        ]));
+        const byId = Object.fromEntries(result.genotypes.map(g => [g.rsid, g.genotype]));
+
+        expect(byId.rs4244285).toBe('GG');     // CYP2C19*2 inside a confident block
+        expect(byId.rs1799853).toBeUndefined(); // CYP2C9*2 block fails MIN_DP
+        expect(byId.rs12248560).toBe('CT');
+        expect(result.referenceBlocks).toHaveLength(1);
+        expect(result.referenceCalls).toBeGreaterThan(0);
+    });
+
+    it('should find the reference block covering a position on the right chromosome', () => {
+        const index = indexReferenceBlocks([
+            { chromosome: '10', start: 500, end: 900, ref: 'A' },
+            { chromosome: '22', start: 100, end: 200, ref: 'C' },
+            { chromosome: '10', start: 100, end: 300, ref: 'G' }
+        ]);
+
+        expect(findReferenceBlock(index, '10', 100)?.ref).toBe('G');
+        expect(findReferenceBlock(index, '10', 900)?.ref).toBe('A');
+        expect(findReferenceBlock(index, '10', 400)).toBeNull();
+        expect(findReferenceBlock(index, '10', 50)).toBeNull();
+        expect(findReferenceBlock(index, '22', 150)?.ref).toBe('C');
+        expect(findReferenceBlock(index, '7', 150)).toBeNull();
+    });
+
+    it('should call KB deletion loci inside reference blocks as II', () => {
+        const result = importVCF(vcf(['S1'], [
+            record(['22', 42524100, '.', 'G', '<NON_REF>', '.', '.', 'END=42524200', 'GT:GQ:MIN_DP', '0/0:60:25'])
+        ]));
+
+        expect(result.genotypes.find(g => g.rsid === 'rs5030655')?.genotype).toBe('II'); // CYP2D6*6 A/del
+    });
+
+    it('should call KB insertion loci inside reference blocks as DD', () => {
+        const result = importVCF(vcf(['S1'], [
+            record(['7', 99250300, '.', 'G', '<NON_REF>', '.', '.', 'END=99250500', 'GT:GQ:MIN_DP', '0/0:60:25'])
+        ]));
+
+        expect(result.genotypes.find(g => g.rsid === 'rs41303343')?.genotype).toBe('DD'); // CYP3A5*7 del/A
+    });
+
+    it('should not look up positions in a GRCh38 VCF', () => {
+        const result = importVCF(vcf(['S1'], [
+            record(['chr22', 42524947, '.', 'C', 'T', 60, 'PASS', '.', 'GT', '0/1'])
+        ], ['##fileformat=VCFv4.2', '##reference=GRCh38']));
+
+        expect(result.genotypes[0].rsid).toBe('22:42524947');
+        expect(result.limitations.some(l => l.includes('GRCh38'))).toBe(true);
+    });
+
+    it('should report the analyzed sample of a multi-sample VCF', () => {
+        const result = importVCF(TRIO, { sample: 'mother' });
+
+        expect(result.limitations.some(l => l.includes('only sample mother (of 3)'))).toBe(true);
+    });
+});
+
+// =============================================================================
+// PHASED CALLS
+// =============================================================================
+
+describe('VCF Import - Phased Calls', () => {
+    function tpmt(rs1142345: string) {
+        const result = importVCF(vcf(['S1'], [
+            record(['6', 18139228, 'rs1800460', 'C', 'T', 99, 'PASS', '.', 'GT:GQ:DP:PS', '0|1:99:30:18130000']),
+            record(['6', 18130918, 'rs1142345', 'T', 'C', 99, 'PASS', '.', 'GT:GQ:DP:PS', `${rs1142345}:99:30:18130000`])
+        ]));
+        const genotypes = Object.fromEntries(result.genotypes.map(g => [g.rsid, g.genotype]));
+
+        return analyzeCompleteDNA(genotypes, 'vcf', { phasedGenotypes: result.genotypes.filter(g => g.phased) }).pgx.criticalSafety!.tpmt!.diplotype;
+    }
+
+    it('should call TPMT variants in trans as *3B/*3C', () => {
+        expect(tpmt('1|0')).toMatchObject({ allele1: '*3B', allele2: '*3C', phenotype: 'Poor Metabolizer' });
+        expect(tpmt('1|0').phaseAmbiguity).toBeUndefined();
+    });
+
+    it('should call TPMT variants in cis as *1/*3A', () => {
+        expect(tpmt('0|1')).toMatchObject({ allele1: '*1', allele2: '*3A', phenotype: 'Intermediate Metabolizer' });
+        expect(tpmt('0|1').phaseAmbiguity).toBeUndefined();
+    });
+
+    it('should keep the ambiguity for unphased calls', () => {
+        expect(tpmt('0/1')).toMatchObject({ allele1: '*1', allele2: '*3A', phaseAmbiguity: true });
+    });
+});
+
+// =============================================================================
+// IMPORT LIMITATIONS
+// =============================================================================
+
+describe('VCF Import - Data Limitations', () => {
+    it('should carry the import limitations into the PGx result', () => {
+        const result = importVCF(TRIO, { sample: 'mother' });
+        const genotypes = Object.fromEntries(result.genotypes.map(g => [g.rsid, g.genotype]));
+        const pgx = analyzeCompleteDNA(genotypes, 'vcf', { dataLimitations: result.limitations }).pgx;
+
+        expect(pgx.dataLimitations).toEqual(result.limitations);
+        expect(pgx.dataLimitations?.some(l => l.includes('No gVCF reference blocks'))).toBe(true);
+    });
+});
@@ -0,0 +1,206 @@
+/**
+ * Warfarin Dosing Tests
+ *
+ * Validates the IWPC and Gage pharmacogenetic dose algorithms, the CPIC 2017 adjustments for
+ * CYP2C9 *5/*6/*8/*11 and CYP4F2 *3, and that the VKORC1 and CYP2C9 analyzers report the
+ * same model dose and grade the combined risk from it.
+ *
+ * Test Strategy:
+ * 1. IWPC algorithm (worked example, unknown-genotype terms, clinical covariates)
+ * 2. CPIC adjustments
+ * 3. Gage algorithm
+ * 4. Analyzer integration and combined risk
+ * 5. Schema validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    calculateWarfarinDose,
+    iwpcRaceFromAncestry
+} from '@/analysis/core/warfarin-dosing';
+import { analyzeVKORC1 } from '@/analysis/analyzers/vkorc1-analyzer';
+import { analyzeCYP2C9 } from '@/analysis/analyzers/cyp2c9-analyzer';
+import { analyzeComprehensivePGx } from '@/analysis/core/comprehensive-pgx-analysis';
+import { validateVKORC1Result, validateWarfarinDoseEstimate } from '@/analysis/schemas/pgx-schemas';
+import { createTestGenotypes } from '@tests/test-utils';
+
+const WILDTYPE = { allele1: '*1', allele2: '*1' };
+const PATIENT = { age: 65, heightCm: 175, weightKg: 80, race: 'White' as const, amiodarone: false, enzymeInducer: false };
+
+function vkorc1(genotype: string, extra: Array<{ rsid: string; genotype: string }> = []) {
+    return createTestGenotypes([{ rsid: 'rs9923231', genotype }, ...extra]);
+}
+
+describe('Warfarin Dosing', () => {
+    // ============================================================================
+    // SECTION 1: IWPC ALGORITHM
+    // ============================================================================
+
+    describe('IWPC Algorithm', () => {
+        it('should reproduce a hand-calculated IWPC dose', () => {
+            // 5.6044 - 0.2614×6 + 0.0087×175 + 0.0128×80 - 0.8677 = 5.7148 → 32.66 mg/week
+            const estimate = calculateWarfarinDose(vkorc1('CT'), WILDTYPE, PATIENT);
+
+            expect(estimate.iwpc.linearPredictor).toBeCloseTo(5.7148, 4);
+            expect(estimate.weeklyDose).toBe(32.7);
+            expect(estimate.dailyDose).toBe(4.67);
+            expect(estimate.assumedInputs).toEqual(['smoker', 'targetINR', 'dvtPe']);
+        });
+
+        it('should show every term and sum them to the linear predictor', () => {
+            const { iwpc } = calculateWarfarinDose(vkorc1('TT'), { allele1: '*1', allele2: '*3' }, PATIENT);
+            const total = iwpc.terms.reduce((sum, t) => sum + t.contribution, 0);
+
+            expect(iwpc.terms.map(t => t.term)).toContain('VKORC1 -1639 A/A');
+            expect(iwpc.terms.find(t => t.term === 'CYP2C9 *1/*3')?.coefficient).toBe(-0.9357);
+            expect(total).toBeCloseTo(iwpc.linearPredictor, 10);
+        });
+
+        it('should use the unknown-genotype terms when VKORC1 or CYP2C9 is missing', () => {
+            const estimate = calculateWarfarinDose([], null, PATIENT);
+            const terms = estimate.iwpc.terms.map(t => t.term);
+
+            expect(terms).toContain('VKORC1 genotype unknown');
+            expect(terms).toContain('CYP2C9 genotype unknown');
+            expect(estimate.gage).toBeNull();
+        });
+
+        it('should move the dose with amiodarone and enzyme inducers', () => {
+            const base = calculateWarfarinDose(vkorc1('CT'), WILDTYPE, PATIENT).weeklyDose;
+
+            expect(calculateWarfarinDose(vkorc1('CT'), WILDTYPE, { ...PATIENT, amiodarone: true }).weeklyDose).toBeLessThan(base);
+            expect(calculateWarfarinDose(vkorc1('CT'), WILDTYPE, { ...PATIENT, enzymeInducer: true }).weeklyDose).toBeGreaterThan(base);
+        });
+
+        it('should fill missing covariates from the reference adult and flag them', () => {
+            const estimate = calculateWarfarinDose(vkorc1('CC'), WILDTYPE);
+
+            expect(estimate.assumedInputs).toEqual(expect.arrayContaining(['age', 'height', 'weight', 'race']));
+            expect(estimate.iwpc.terms.find(t => t.term === 'Age (decades)')).toMatchObject({ value: 6, assumed: true });
+        });
+    });
+
+    // ============================================================================
+    // SECTION 2: CPIC ADJUSTMENTS
+    // ============================================================================
+
+    describe('CPIC Adjustments', () => {
+        it('should raise the dose for CYP4F2 *3 carriers', () => {
+            const base = calculateWarfarinDose(vkorc1('CT'), WILDTYPE, PATIENT);
+            const het = calculateWarfarinDose(vkorc1('CT', [{ rsid: 'rs2108622', genotype: 'CT' }]), WILDTYPE, PATIENT);
+            const hom = calculateWarfarinDose(vkorc1('CT', [{ rsid: 'rs2108622', genotype: 'TT' }]), WILDTYPE, PATIENT);
+
+            expect(het.adjustments[0].factor).toBe(1.05);
+            expect(hom.weeklyDose).toBeCloseTo(base.iwpc.weeklyDose * 1.1, 1);
+            expect(hom.genotypeDoseFraction).toBeGreaterThan(base.genotypeDoseFraction);
+        });
+
+        it('should not apply the CYP4F2 adjustment in African ancestry', () => {
+            const estimate = calculateWarfarinDose(
+                vkorc1('CT', [{ rsid: 'rs2108622', genotype: 'TT' }]),
+                WILDTYPE,
+                { ...PATIENT, race: 'Black or African American' }
+            );
+
+            expect(estimate.adjustments).toEqual([]);
+        });
+
+        it('should run *5/*6/*8/*11 as *1 and then reduce the dose', () => {
+            const wildtype = calculateWarfarinDose(vkorc1('CT'), WILDTYPE, PATIENT);
+            const star8 = calculateWarfarinDose(vkorc1('CT'), { allele1: '*1', allele2: '*8' }, PATIENT);
+            const star5star8 = calculateWarfarinDose(vkorc1('CT'), { allele1: '*5', allele2: '*8' }, PATIENT);
+
+            expect(star8.iwpc.weeklyDose).toBeCloseTo(wildtype.iwpc.weeklyDose, 10);
+            expect(star8.adjustments[0]).toMatchObject({ factor: 0.8, source: expect.stringContaining('15-30%') });
+            expect(star5star8.adjustments[0]).toMatchObject({ factor: 0.7, source: expect.stringContaining('20-40%') });
+            expect(star8.cyp2c9Diplotype).toBe('*1/*8');
+        });
+    });
+
+    // ============================================================================
+    // SECTION 3: GAGE ALGORITHM
+    // ============================================================================
+
+    describe('Gage Algorithm', () => {
+        it('should reproduce a hand-calculated Gage dose', () => {
+            const { gage } = calculateWarfarinDose(vkorc1('CT'), { allele1: '*1', allele2: '*2' }, PATIENT);
+            const bsa = 0.007184 * 80 ** 0.425 * 175 ** 0.725;
+            const expected = 0.9751 - 0.3238 + 0.4317 * bsa - 0.00745 * 65 - 0.2066 + 0.2029 * 2.5;
+
+            expect(gage?.linearPredictor).toBeCloseTo(expected, 10);
+            expect(gage?.weeklyDose).toBeCloseTo(Math.exp(expected) * 7, 10);
+        });
+
+        it('should include target INR, smoking and the VTE indication', () => {
+            const base = calculateWarfarinDose(vkorc1('CC'), WILDTYPE, PATIENT).gage!.weeklyDose;
+            const higher = calculateWarfarinDose(vkorc1('CC'), WILDTYPE, { ...PATIENT, targetINR: 3, smoker: true, dvtPe: true });
+
+            expect(higher.gage!.weeklyDose).toBeGreaterThan(base);
+            expect(higher.iwpc.weeklyDose).toBeCloseTo(calculateWarfarinDose(vkorc1('CC'), WILDTYPE, PATIENT).iwpc.weeklyDose, 10);
+        });
+    });
+
+    // ============================================================================
+    // SECTION 4: ANALYZER INTEGRATION AND COMBINED RISK
+    // ============================================================================
+
+    describe('Analyzer Integration', () => {
+        it.each([
+            ['TT', 'CC', 'Very High'],
+            ['TT', 'AC', 'High'],
+            ['TT', 'AA', 'Moderate'],
+            ['CT', 'AA', 'Normal']
+        ])('should grade VKORC1 %s with rs1057910 %s as %s', (vkorc1Call, cyp2c9Call, risk) => {
+            const genotypes = createTestGenotypes([
+                { rsid: 'rs9923231', genotype: vkorc1Call },
+                { rsid: 'rs1799853', genotype: 'CC' },
+                { rsid: 'rs1057910', genotype: cyp2c9Call }
+            ]);
+            const result = analyzeComprehensivePGx(genotypes);
+
+            expect(result.vkorc1?.combinedRisk?.combinedRisk).toBe(risk);
+            expect(result.vkorc1?.combinedRisk?.doseFraction).toBe(result.vkorc1?.warfarinDosing.model.genotypeDoseFraction);
+        });
+
+        it('should report the same model dose from the VKORC1 and CYP2C9 analyzers', () => {
+            const genotypes = createTestGenotypes([
+                { rsid: 'rs9923231', genotype: 'TT' },
+                { rsid: 'rs1799853', genotype: 'CT' },
+                { rsid: 'rs1057910', genotype: 'AA' }
+            ]);
+            const cyp2c9 = analyzeCYP2C9(genotypes, '23andme', PATIENT);
+            const vkorc1Result = analyzeVKORC1(genotypes, '23andme', cyp2c9.diplotype, PATIENT);
+
+            expect(cyp2c9.warfarinDosing.weeklyDose).toBe(vkorc1Result.warfarinDosing.weeklyDose);
+            expect(cyp2c9.warfarinDosing.recommendedDose).toBe(vkorc1Result.warfarinDosing.estimatedDose);
+            expect(vkorc1Result.drugs[0].doseGuidance).toContain('mg/week, IWPC');
+        });
+
+        it('should take the race covariate from a predominant ancestry', () => {
+            expect(iwpcRaceFromAncestry({ source: 'inferred', proportions: { 'East Asian': 0.92, 'European': 0.08 } })).toBe('Asian');
+            expect(iwpcRaceFromAncestry({ source: 'inferred', proportions: { 'European': 0.6, 'Sub-Saharan African': 0.4 } })).toBe('Missing or Mixed');
+            expect(iwpcRaceFromAncestry(undefined)).toBeUndefined();
+
+            const result = analyzeComprehensivePGx(vkorc1('CT'), '23andme', {
+                ancestry: { source: 'declared', proportions: { 'Sub-Saharan African': 1 } },
+                warfarin: { age: 40 }
+            });
+            const terms = result.vkorc1!.warfarinDosing.model.iwpc.terms;
+
+            expect(terms.find(t => t.term.startsWith('Race'))?.term).toBe('Race: Black or African American');
+            expect(terms.find(t => t.term === 'Age (decades)')).toMatchObject({ value: 4 });
+        });
+    });
+
+    // ============================================================================
+    // SECTION 5: SCHEMA VALIDATION
+    // ============================================================================
+
+    describe('Schema Validation', () => {
+        it('should produce estimates and results that pass the schemas', () => {
+            expect(() => validateWarfarinDoseEstimate(calculateWarfarinDose(vkorc1('TT'), WILDTYPE, PATIENT))).not.toThrow();
+            expect(() => validateWarfarinDoseEstimate(calculateWarfarinDose([], null))).not.toThrow();
+            expect(() => validateVKORC1Result(analyzeVKORC1(vkorc1('CT'), '23andme', { ...WILDTYPE, phenotype: 'Normal Metabolizer' }))).not.toThrow();
+        });
+    });
+});